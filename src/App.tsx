@@ -13,7 +13,8 @@ import { AgentDashboard } from './pages/AgentDashboard';
 import { Reports } from './pages/Reports';
 import { AgentReports } from './pages/AgentReports';
 import { AgentRegister } from './pages/AgentRegister';
-import { useAuthStore } from './store/authStore';
+import { useAuthStore, usePermissions } from './store/authStore';
+import { Capability } from './utils/permissions';
 import { PropertyPrediction } from './pages/PropertyPrediction';
 import { MarketReports } from './pages/MarketReports';
 import { MarketingPlanPage } from './pages/MarketingPlan';
@@ -41,6 +42,20 @@ import EnquiryForm from './pages/EnquiryForm'; // Fixed import name
 import { NurturingList } from './pages/NurturingList';
 import { AgentsLeaderboardPage } from './pages/AgentsLeaderboardPage';
 import PropertyManagementForm from './pages/Form 6 ';
+import { SuburbGazetteer } from './pages/SuburbGazetteer';
+import { Appraisals } from './pages/Appraisals';
+import { DealPipeline } from './pages/DealPipeline';
+import { CommissionLedger } from './pages/CommissionLedger';
+import { SetPassword } from './pages/SetPassword';
+import { SharedLink } from './pages/SharedLink';
+import { NotificationSettings } from './pages/NotificationSettings';
+import { CallList } from './pages/CallList';
+import { VendorReportPage } from './pages/VendorReportPage';
+import { People } from './pages/People';
+import { PeopleDuplicates } from './pages/PeopleDuplicates';
+import { PropertyImport } from './pages/PropertyImport';
+import { PersonDetail } from './pages/PersonDetail';
+import { loadGazetteer } from './api/suburbs';
 // Error Boundary to catch import or runtime errors
 class ErrorBoundary extends Component<{ children: ReactNode }, { hasError: boolean; error: any }> {
   state = { hasError: false, error: null };
@@ -71,26 +86,29 @@ class ErrorBoundary extends Component<{ children: ReactNode }, { hasError: boole
 // PrivateRoute for general authenticated users
 function PrivateRoute({ children }: { children: React.ReactNode }) {
   const { user, loading } = useAuthStore();
-  console.log('PrivateRoute - loading:', loading, 'user:', !!user);
   if (loading) return <LoadingOverlay message="Authenticating..." />;
   return user ? <>{children}</> : <Navigate to="/agent-login" replace />;
 }
 
-// AgentRoute for agents and admins
-function AgentRoute({ children }: { children: React.ReactNode }) {
-  const { user, profile, loading } = useAuthStore();
-  console.log('AgentRoute - loading:', loading, 'profile:', profile, 'user:', !!user);
+// AgentRoute for staff (every role but the unassigned placeholder); pass a
+// capability to narrow it further
+function AgentRoute({ children, capability }: { children: React.ReactNode; capability?: Capability }) {
+  const { user, loading } = useAuthStore();
+  const { isStaff, can } = usePermissions();
   if (loading) return <LoadingOverlay message="Verifying access..." />;
-  if (user && (profile?.role === 'agent' || profile?.role === 'admin')) return <>{children}</>;
-  return <Navigate to="/agent-login" replace />;
+  if (!user || !isStaff) return <Navigate to="/agent-login" replace />;
+  if (capability && !can(capability)) return <Navigate to="/agent-dashboard" replace />;
+  return <>{children}</>;
 }
 
-// AdminRoute for admin-only access
-function AdminRoute({ children }: { children: React.ReactNode }) {
-  const { profile, loading } = useAuthStore();
-  console.log('AdminRoute - loading:', loading, 'profile:', profile);
+// AdminRoute for admins and principals; pass a capability to narrow it further
+function AdminRoute({ children, capability }: { children: React.ReactNode; capability?: Capability }) {
+  const { loading } = useAuthStore();
+  const { can } = usePermissions();
   if (loading) return <LoadingOverlay message="Verifying admin..." />;
-  return profile?.role === 'admin' ? <>{children}</> : <Navigate to="/admin-login" replace />;
+  if (!can('admin.access')) return <Navigate to="/admin-login" replace />;
+  if (capability && !can(capability)) return <Navigate to="/admin-dashboard" replace />;
+  return <>{children}</>;
 }
 
 // RouteChangeTracker for loading overlay during route changes
@@ -113,39 +131,52 @@ const routes = [
   { path: '/', element: <Home /> },
   { path: '/agent-login', element: <AgentLogin /> },
   { path: '/reset-password', element: <ResetPassword /> },
+  { path: '/set-password', element: <SetPassword /> },
+  { path: '/share/:token', element: <SharedLink /> },
   { path: '/agent-register', element: <AgentRegister /> },
   { path: '/admin-login', element: <AdminLogin /> },
   { path: '/admin', element: <AdminRoute><AdminDashboard /></AdminRoute> },
-  { path: '/admin-commission', element: <AdminRoute><AdminCommissionByAgency /></AdminRoute> },
-  { path: '/progress-report', element: <ProgressReportPage /> },
+  { path: '/admin-commission', element: <AdminRoute capability="commission.view_all"><AdminCommissionByAgency /></AdminRoute> },
+  { path: '/admin-suburbs', element: <AdminRoute capability="settings.manage"><SuburbGazetteer /></AdminRoute> },
+  { path: '/progress-report', element: <AgentRoute capability="reports.view"><ProgressReportPage /></AgentRoute> },
   { path: '/admin-dashboard', element: <AdminRoute><AdminDashboard /></AdminRoute> },
   { path: '/agent-dashboard', element: <AgentRoute><AgentDashboard /></AgentRoute> },
-  { path: '/agent-management', element: <AgentRoute><AgentManagement /></AgentRoute> },
+  { path: '/agent-management', element: <AdminRoute capability="users.manage"><AgentManagement /></AdminRoute> },
   { path: '/agent-business-plan', element: <AgentRoute><AgentBusinessPlan /></AgentRoute> },
-  { path: '/admin-business-plan', element: <AdminRoute><AdminBusinessPlan /></AdminRoute> },
+  { path: '/admin-business-plan', element: <AdminRoute capability="plans.view_team"><AdminBusinessPlan /></AdminRoute> },
   { path: '/agent-profile', element: <AgentRoute><AgentProfilePage /></AgentRoute> },
-  { path: '/agent-reports', element: <AgentReports /> },
+  { path: '/agent-reports', element: <AgentRoute capability="reports.view"><AgentReports /></AgentRoute> },
   { path: '/agent-dashboard/door-knocks', element: <AgentRoute><DoorKnocks /></AgentRoute> },
   { path: '/agent-expenses', element: <AgentRoute><AgentExpensesPage /></AgentRoute> },
   { path: '/agent-dashboard/phone-calls', element: <AgentRoute><PhoneCalls /></AgentRoute> },
-  { path: '/marketing-plan', element: <MarketingPlanPage /> },
-  { path: '/property-report-page', element: <PropertyReportPage /> },
-  { path: '/create-agent-modal', element: <CreateAgentModal /> },
-  { path: '/progress-report-page', element: <ProgressReportPage /> },
-  { path: '/activity-logger', element: <AgentRoute><ActivityLogger /></AgentRoute> },
-  { path: '/reports', element: <AgentRoute><Reports /></AgentRoute> },
-  { path: '/agent-properties', element: <PropertyList /> },
+  { path: '/marketing-plan', element: <AgentRoute><MarketingPlanPage /></AgentRoute> },
+  { path: '/property-report-page', element: <AgentRoute capability="reports.view"><PropertyReportPage /></AgentRoute> },
+  { path: '/create-agent-modal', element: <AdminRoute capability="users.manage"><CreateAgentModal /></AdminRoute> },
+  { path: '/progress-report-page', element: <AgentRoute capability="reports.view"><ProgressReportPage /></AgentRoute> },
+  { path: '/activity-logger', element: <AgentRoute capability="activities.log"><ActivityLogger /></AgentRoute> },
+  { path: '/reports', element: <AgentRoute capability="reports.view"><Reports /></AgentRoute> },
+  { path: '/agent-properties', element: <AgentRoute capability="properties.view"><PropertyList /></AgentRoute> },
   { path: '/property-detail/:id', element: <PropertyDetail /> },
+  { path: '/vendor-report/:id', element: <AgentRoute capability="reports.view"><VendorReportPage /></AgentRoute> },
+  { path: '/notification-settings', element: <PrivateRoute><NotificationSettings /></PrivateRoute> },
   { path: '/market-reports', element: <PrivateRoute><MarketReports /></PrivateRoute> },
   { path: '/property-prediction/:id', element: <PrivateRoute><PropertyPrediction /></PrivateRoute> },
-  { path: '/property-form', element: <PropertyForm /> },
+  { path: '/property-form', element: <AgentRoute capability="properties.create"><PropertyForm /></AgentRoute> },
+  { path: '/property-import', element: <AgentRoute capability="properties.create"><PropertyImport /></AgentRoute> },
   { path: '/comparisons', element: <AgentRoute><Comparisons /></AgentRoute> },
+  { path: '/appraisals', element: <AgentRoute><Appraisals /></AgentRoute> },
+  { path: '/deal-pipeline', element: <AgentRoute><DealPipeline /></AgentRoute> },
+  { path: '/commission-ledger', element: <AgentRoute><CommissionLedger /></AgentRoute> },
   { path: '/enquiryjob', element: <Enquiryjob /> },
-  {path: '/emi-calculator', element: <EMIPlanCalculator />},
-  {path: '/nurturing-list', element: <NurturingList />},
-  { path: '/vault-to-do-list', element: <VaultToDoList /> },
-  {path:'/form-6', element:<PropertyManagementForm/>},
-  { path:'/agents-leaderboard', element:<AgentsLeaderboardPage />} ,
+  { path: '/emi-calculator', element: <AgentRoute><EMIPlanCalculator /></AgentRoute> },
+  { path: '/nurturing-list', element: <AgentRoute capability="contacts.manage"><NurturingList /></AgentRoute> },
+  { path: '/call-list', element: <AgentRoute capability="contacts.manage"><CallList /></AgentRoute> },
+  { path: '/people', element: <AgentRoute capability="contacts.manage"><People /></AgentRoute> },
+  { path: '/people/duplicates', element: <AgentRoute capability="contacts.manage"><PeopleDuplicates /></AgentRoute> },
+  { path: '/people/:id', element: <AgentRoute capability="contacts.manage"><PersonDetail /></AgentRoute> },
+  { path: '/vault-to-do-list', element: <AgentRoute><VaultToDoList /></AgentRoute> },
+  { path: '/form-6', element: <AgentRoute capability="properties.create"><PropertyManagementForm /></AgentRoute> },
+  { path: '/agents-leaderboard', element: <AgentRoute><AgentsLeaderboardPage /></AgentRoute> },
   // { path: '/enquiry-form', element: <EnquiryForm />},
   { path: '/enquiry-form', element: <EnquiryForm /> }, // Uncommented and fixed
   {
@@ -169,6 +200,7 @@ function App() {
     const initAuth = async () => {
       try {
         await initializeAuth();
+        await loadGazetteer();
         const state = useAuthStore.getState();
         console.log('App auth initialized - user:', !!state.user, 'profile:', state.profile);
       } catch (err) {
@@ -0,0 +1,49 @@
+import { supabase } from '../lib/supabase';
+import { AgentActivityInsert, AgentActivityRow, AgentActivityType } from '../types/database';
+import { Page, PageOptions, pageRange, toPage, toRepositoryError } from './repository';
+
+const TABLE = 'agent_activities';
+
+export interface AgentActivityFilters {
+  agentId?: string;
+  agentIds?: string[];
+  types?: AgentActivityType[];
+  from?: string;
+  to?: string;
+  suburb?: string;
+  streetName?: string;
+}
+
+const buildActivityQuery = (filters: AgentActivityFilters = {}, count = false) => {
+  let query = supabase.from(TABLE).select('*', count ? { count: 'exact' } : undefined);
+  if (filters.agentId) query = query.eq('agent_id', filters.agentId);
+  if (filters.agentIds?.length) query = query.in('agent_id', filters.agentIds);
+  if (filters.types?.length) query = query.in('activity_type', filters.types);
+  if (filters.from) query = query.gte('activity_date', filters.from);
+  if (filters.to) query = query.lte('activity_date', filters.to);
+  if (filters.suburb) query = query.eq('suburb', filters.suburb);
+  if (filters.streetName) query = query.eq('street_name', filters.streetName);
+  return query.order('activity_date', { ascending: false });
+};
+
+export const fetchAgentActivities = async (filters: AgentActivityFilters = {}): Promise<AgentActivityRow[]> => {
+  const { data, error } = await buildActivityQuery(filters);
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  return data || [];
+};
+
+export const fetchAgentActivityPage = async (
+  filters: AgentActivityFilters = {},
+  page: PageOptions = {}
+): Promise<Page<AgentActivityRow>> => {
+  const { from, to } = pageRange(page);
+  const { data, error, count } = await buildActivityQuery(filters, true).range(from, to);
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  return toPage(data, count, page);
+};
+
+export const logAgentActivities = async (activities: AgentActivityInsert[]): Promise<AgentActivityRow[]> => {
+  const { data, error } = await supabase.from(TABLE).insert(activities).select();
+  if (error) throw toRepositoryError(TABLE, 'create', error);
+  return data || [];
+};
@@ -0,0 +1,26 @@
+import { supabase } from '../lib/supabase';
+import type { AgentInviteRow, IssuedInvite } from '../../supabase/functions/_shared/agent-invites.ts';
+import { invokeEdgeFunction } from './edgeFunctions';
+import { toRepositoryError } from './repository';
+
+const TABLE = 'agent_invites';
+
+// Newest invite per user, keyed by user id.
+export const fetchLatestInvites = async (): Promise<Map<string, AgentInviteRow>> => {
+  const { data, error } = await supabase.from(TABLE).select('*').order('sent_at', { ascending: false });
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  const latest = new Map<string, AgentInviteRow>();
+  (data || []).forEach((invite: AgentInviteRow) => {
+    if (!latest.has(invite.user_id)) latest.set(invite.user_id, invite);
+  });
+  return latest;
+};
+
+export const resendAgentInvite = async (userId: string): Promise<IssuedInvite> =>
+  invokeEdgeFunction<IssuedInvite>('agent-invite', { action: 'resend', userId });
+
+export const openAgentInvite = async (token: string): Promise<{ email: string; expires_at: string }> =>
+  invokeEdgeFunction('agent-invite', { action: 'open', token });
+
+export const acceptAgentInvite = async (token: string, password: string): Promise<{ email: string }> =>
+  invokeEdgeFunction('agent-invite', { action: 'accept', token, password });
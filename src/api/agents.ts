@@ -1,6 +1,9 @@
 
 import { supabase } from '../lib/supabase';
 import { Agent } from '../types/agent';
+import { OUR_AGENCY } from '../constants';
+import { invokeEdgeFunction } from './edgeFunctions';
+import type { ProvisionAgentInput, ProvisionedAgent } from '../../supabase/functions/_shared/agent-provisioning.ts';
 
 export const fetchAgents = async (): Promise<Agent[]> => {
   const { data, error } = await supabase
@@ -14,4 +17,8 @@ export const fetchAgents = async (): Promise<Agent[]> => {
 export const createAgentProfile = async (agent: Omit<Agent, 'id'> & { id: string }) => {
   const { error } = await supabase.from('profiles').insert([agent]);
   if (error) throw error;
-};
\ No newline at end of file
+};
+// Creates the login, profile, agents row and first invite through the
+// `create-agent` edge function; see supabase/functions/_shared/agent-provisioning.ts.
+export const provisionAgent = async (input: Omit<ProvisionAgentInput, 'agencyName'>): Promise<ProvisionedAgent> =>
+  invokeEdgeFunction<ProvisionedAgent>('create-agent', { ...input, agencyName: OUR_AGENCY });
@@ -0,0 +1,107 @@
+import { supabase } from '../lib/supabase';
+import {
+  AppraisalInsert,
+  AppraisalOutcome,
+  AppraisalRow,
+  AppraisalType,
+  AppraisalUpdate,
+} from '../types/database';
+import { toRepositoryError } from './repository';
+
+const TABLE = 'appraisals';
+
+export interface AppraisalFilters {
+  agentId?: string;
+  agentIds?: string[];
+  type?: AppraisalType;
+  outcome?: AppraisalOutcome;
+  contactId?: string;
+  from?: string;
+  to?: string;
+}
+
+export const fetchAppraisals = async (filters: AppraisalFilters = {}): Promise<AppraisalRow[]> => {
+  let query = supabase.from(TABLE).select('*');
+  if (filters.agentId) query = query.eq('agent_id', filters.agentId);
+  if (filters.agentIds?.length) query = query.in('agent_id', filters.agentIds);
+  if (filters.type) query = query.eq('appraisal_type', filters.type);
+  if (filters.outcome) query = query.eq('outcome', filters.outcome);
+  if (filters.contactId) query = query.eq('contact_id', filters.contactId);
+  if (filters.from) query = query.gte('appraisal_date', filters.from);
+  if (filters.to) query = query.lte('appraisal_date', filters.to);
+
+  const { data, error } = await query.order('appraisal_date', { ascending: false });
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  return data || [];
+};
+
+export const createAppraisal = async (appraisal: AppraisalInsert): Promise<AppraisalRow> => {
+  const { data, error } = await supabase.from(TABLE).insert([appraisal]).select().single();
+  if (error) throw toRepositoryError(TABLE, 'create', error);
+  return data;
+};
+
+export const updateAppraisal = async (id: string, updates: AppraisalUpdate): Promise<AppraisalRow> => {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+  if (error) throw toRepositoryError(TABLE, 'update', error);
+  return data;
+};
+
+export const deleteAppraisal = async (id: string): Promise<void> => {
+  const { error } = await supabase.from(TABLE).delete().eq('id', id);
+  if (error) throw toRepositoryError(TABLE, 'delete', error);
+};
+
+export interface AppraisalSummary {
+  total: number;
+  desktop: number;
+  inPerson: number;
+  listed: number;
+  lost: number;
+  followUp: number;
+  pending: number;
+  // Share of decided appraisals (listed or lost) that turned into a listing.
+  conversionRate: number;
+}
+
+export const EMPTY_APPRAISAL_SUMMARY: AppraisalSummary = {
+  total: 0,
+  desktop: 0,
+  inPerson: 0,
+  listed: 0,
+  lost: 0,
+  followUp: 0,
+  pending: 0,
+  conversionRate: 0,
+};
+
+export const summarizeAppraisals = (appraisals: Pick<AppraisalRow, 'appraisal_type' | 'outcome'>[]): AppraisalSummary => {
+  const summary = appraisals.reduce(
+    (acc, appraisal) => {
+      acc.total += 1;
+      if (appraisal.appraisal_type === 'desktop') acc.desktop += 1;
+      else acc.inPerson += 1;
+      if (appraisal.outcome === 'listed') acc.listed += 1;
+      else if (appraisal.outcome === 'lost') acc.lost += 1;
+      else if (appraisal.outcome === 'follow_up') acc.followUp += 1;
+      else acc.pending += 1;
+      return acc;
+    },
+    { ...EMPTY_APPRAISAL_SUMMARY }
+  );
+  const decided = summary.listed + summary.lost;
+  return { ...summary, conversionRate: decided ? (summary.listed / decided) * 100 : 0 };
+};
+
+export const summarizeAppraisalsByAgent = (appraisals: AppraisalRow[]): Record<string, AppraisalSummary> => {
+  const byAgent: Record<string, AppraisalRow[]> = {};
+  appraisals.forEach((appraisal) => {
+    (byAgent[appraisal.agent_id] = byAgent[appraisal.agent_id] || []).push(appraisal);
+  });
+  return Object.fromEntries(Object.entries(byAgent).map(([agentId, rows]) => [agentId, summarizeAppraisals(rows)]));
+};
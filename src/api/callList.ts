@@ -0,0 +1,57 @@
+import { supabase } from '../lib/supabase';
+import { CallListItemRow, CallListStatus } from '../types/database';
+import { updateContact } from './contacts';
+import { updateNurturingContact } from './nurturingList';
+import { toRepositoryError } from './repository';
+
+const TABLE = 'call_list_items';
+
+// Call lists are written each morning by the Express scheduler
+// (src/server-scheduler.ts); the client only reads them and ticks items off.
+export const fetchCallList = async (agentId: string, listDate: string): Promise<CallListItemRow[]> => {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select('*')
+    .eq('agent_id', agentId)
+    .eq('list_date', listDate)
+    .order('call_back_date', { ascending: true })
+    .order('contact_name', { ascending: true });
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  return data || [];
+};
+
+// Marks an item done or skipped. A done call also moves the contact's own
+// call-back date to `nextCallBack` (or clears it) so it stops coming back as
+// overdue; a skipped one stays due and is on tomorrow's list again.
+export const completeCallListItem = async (
+  item: CallListItemRow,
+  status: Exclude<CallListStatus, 'pending'>,
+  nextCallBack: string | null = null
+): Promise<CallListItemRow> => {
+  if (status === 'done') {
+    if (item.source === 'nurturing') {
+      await updateNurturingContact(item.contact_id, item.agent_id, { call_back_date: nextCallBack });
+    } else {
+      await updateContact(item.contact_id, { call_back_date: nextCallBack });
+    }
+  }
+  const { data, error } = await supabase
+    .from(TABLE)
+    .update({ status, completed_at: new Date().toISOString() })
+    .eq('id', item.id)
+    .select()
+    .single();
+  if (error) throw toRepositoryError(TABLE, 'update', error);
+  return data;
+};
+
+export const reopenCallListItem = async (id: string): Promise<CallListItemRow> => {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .update({ status: 'pending', completed_at: null })
+    .eq('id', id)
+    .select()
+    .single();
+  if (error) throw toRepositoryError(TABLE, 'update', error);
+  return data;
+};
@@ -0,0 +1,27 @@
+import moment from 'moment';
+import { CMA_DEFAULTS, CmaOptions, CmaProperty, CmaResult, runComparativeAnalysis } from '../utils/cma';
+import { geocodeRow } from './geocoding';
+import { fetchProperties } from './properties';
+
+// Loads recent sales of the subject's property type and runs the CMA. The
+// subject is geocoded first if it has never been looked up, so distance-based
+// selection works; comps without cached coordinates fall back to suburb matching.
+export const fetchComparativeAnalysis = async (
+  subject: CmaProperty,
+  options: CmaOptions = {}
+): Promise<CmaResult | null> => {
+  const maxMonths = options.maxMonths ?? CMA_DEFAULTS.maxMonths;
+  const located =
+    subject.latitude == null && !subject.geocode_status && subject.street_number && subject.street_name && subject.suburb
+      ? await geocodeRow('properties', subject)
+      : subject;
+
+  const sold = await fetchProperties({
+    filters: {
+      soldOnly: true,
+      soldFrom: moment(options.asOf).subtract(maxMonths, 'months').format('YYYY-MM-DD'),
+      propertyTypes: subject.property_type ? [subject.property_type] : undefined,
+    },
+  });
+  return runComparativeAnalysis(located, sold, options);
+};
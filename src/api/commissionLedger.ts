@@ -0,0 +1,161 @@
+import { supabase } from '../lib/supabase';
+import {
+  CommissionLedgerInsert,
+  CommissionLedgerRow,
+  CommissionLedgerUpdate,
+  PayoutStatus,
+  PropertyRow,
+} from '../types/database';
+import { CommissionTerms, computeCommissionBreakdown } from '../utils/commission';
+import { toRepositoryError } from './repository';
+
+const TABLE = 'commission_ledger';
+
+export interface CommissionLedgerFilters {
+  agentId?: string;
+  payoutStatus?: PayoutStatus;
+  from?: string;
+  to?: string;
+}
+
+export interface CommissionLedgerEntry extends CommissionLedgerRow {
+  property: Pick<PropertyRow, 'street_number' | 'street_name' | 'suburb' | 'agent_name'> | null;
+}
+
+export const fetchCommissionLedger = async (filters: CommissionLedgerFilters = {}): Promise<CommissionLedgerEntry[]> => {
+  let query = supabase.from(TABLE).select('*, property:properties(street_number, street_name, suburb, agent_name)');
+  if (filters.agentId) query = query.eq('agent_id', filters.agentId);
+  if (filters.payoutStatus) query = query.eq('payout_status', filters.payoutStatus);
+  if (filters.from) query = query.gte('settlement_date', filters.from);
+  if (filters.to) query = query.lte('settlement_date', filters.to);
+  const { data, error } = await query.order('settlement_date', { ascending: false, nullsFirst: false });
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  return data || [];
+};
+
+// Null when the sale is not booked yet or the entry belongs to another agent.
+export const fetchLedgerEntry = async (propertyId: string): Promise<CommissionLedgerRow | null> => {
+  const { data, error } = await supabase.from(TABLE).select('*').eq('property_id', propertyId).maybeSingle();
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  return data;
+};
+
+export const ledgerByProperty = <T extends CommissionLedgerRow>(entries: T[]): Map<string, T> =>
+  new Map(entries.map((entry) => [entry.property_id, entry]));
+
+export const ledgerTerms = (entry: CommissionLedgerRow): CommissionTerms => ({
+  salePrice: Number(entry.sale_price),
+  commissionRate: Number(entry.commission_rate),
+  franchiseFeeRate: Number(entry.franchise_fee_rate),
+  agentSplitRate: Number(entry.agent_split_rate),
+  conjunctionals: (entry.conjunctional_splits || []).map(({ agency, agent, share_percent }) => ({
+    agency,
+    agent,
+    share_percent: Number(share_percent),
+  })),
+});
+
+// Ledger columns for a set of terms; amounts are always derived, never typed in.
+const ledgerAmounts = (terms: CommissionTerms) => {
+  const breakdown = computeCommissionBreakdown(terms);
+  return {
+    sale_price: terms.salePrice,
+    commission_rate: terms.commissionRate,
+    franchise_fee_rate: terms.franchiseFeeRate,
+    agent_split_rate: terms.agentSplitRate,
+    gross_commission: breakdown.grossCommission,
+    gst: breakdown.gst,
+    conjunctional_splits: breakdown.conjunctionals.map((split) => ({ ...split, agent: split.agent || null })),
+    conjunctional_total: breakdown.conjunctionalTotal,
+    franchise_fee: breakdown.franchiseFee,
+    agent_amount: breakdown.agentAmount,
+    business_amount: breakdown.businessAmount,
+  };
+};
+
+export const updateLedgerTerms = async (id: string, terms: CommissionTerms): Promise<CommissionLedgerRow> => {
+  const changes: CommissionLedgerUpdate = { ...ledgerAmounts(terms), updated_at: new Date().toISOString() };
+  const { data, error } = await supabase.from(TABLE).update(changes).eq('id', id).select().single();
+  if (error) throw toRepositoryError(TABLE, 'update', error);
+  return data;
+};
+
+export const setPayoutStatus = async (id: string, status: PayoutStatus, notes?: string): Promise<CommissionLedgerRow> => {
+  const changes: CommissionLedgerUpdate = {
+    payout_status: status,
+    paid_at: status === 'paid' ? new Date().toISOString() : null,
+    updated_at: new Date().toISOString(),
+  };
+  if (notes !== undefined) changes.notes = notes;
+  const { data, error } = await supabase.from(TABLE).update(changes).eq('id', id).select().single();
+  if (error) throw toRepositoryError(TABLE, 'update', error);
+  return data;
+};
+
+interface SoldProperty {
+  id: string;
+  agent_id: string | null;
+  sold_price: number | null;
+  sold_date: string | null;
+  commission: number | null;
+}
+
+// Books every sold property that has no ledger entry yet. The rate comes from
+// the property's negotiated agent commission when recorded, else the listing
+// rate; franchise fee and agent split come from the agent's latest business plan.
+export const syncCommissionLedger = async (): Promise<number> => {
+  const [{ data: sold, error: soldError }, { data: booked, error: bookedError }] = await Promise.all([
+    supabase
+      .from('properties')
+      .select('id, agent_id, sold_price, sold_date, commission')
+      .not('sold_date', 'is', null)
+      .not('sold_price', 'is', null),
+    supabase.from(TABLE).select('property_id'),
+  ]);
+  if (soldError) throw toRepositoryError('properties', 'fetch', soldError);
+  if (bookedError) throw toRepositoryError(TABLE, 'fetch', bookedError);
+
+  const bookedIds = new Set((booked || []).map((row) => row.property_id));
+  const pending = ((sold || []) as SoldProperty[]).filter((property) => !bookedIds.has(property.id));
+  if (!pending.length) return 0;
+
+  const [{ data: rates, error: ratesError }, { data: plans, error: plansError }] = await Promise.all([
+    supabase.from('agent_commissions').select('property_id, commission_rate'),
+    supabase
+      .from('agent_business_plans')
+      .select('agent_id, franchise_fee, agent_percentage, created_at')
+      .order('created_at', { ascending: false }),
+  ]);
+  if (ratesError) throw toRepositoryError('agent_commissions', 'fetch', ratesError);
+  if (plansError) throw toRepositoryError('agent_business_plans', 'fetch', plansError);
+
+  const rateByProperty = new Map((rates || []).map((rate) => [rate.property_id, Number(rate.commission_rate)]));
+  const planByAgent = new Map<string, { franchise_fee: number | null; agent_percentage: number | null }>();
+  (plans || []).forEach((plan) => {
+    if (plan.agent_id && !planByAgent.has(plan.agent_id)) planByAgent.set(plan.agent_id, plan);
+  });
+
+  const entries: CommissionLedgerInsert[] = pending
+    .map((property) => {
+      const plan = property.agent_id ? planByAgent.get(property.agent_id) : undefined;
+      const terms: CommissionTerms = {
+        salePrice: Number(property.sold_price),
+        commissionRate: rateByProperty.get(property.id) || Number(property.commission || 0),
+        franchiseFeeRate: Number(plan?.franchise_fee || 0),
+        agentSplitRate: Number(plan?.agent_percentage || 0),
+        conjunctionals: [],
+      };
+      return {
+        property_id: property.id,
+        agent_id: property.agent_id,
+        settlement_date: property.sold_date,
+        ...ledgerAmounts(terms),
+      };
+    })
+    .filter((entry) => entry.commission_rate > 0);
+
+  if (!entries.length) return 0;
+  const { error } = await supabase.from(TABLE).insert(entries);
+  if (error) throw toRepositoryError(TABLE, 'create', error);
+  return entries.length;
+};
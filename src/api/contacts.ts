@@ -0,0 +1,54 @@
+import { supabase } from '../lib/supabase';
+import { ContactInsert, ContactRow, ContactUpdate } from '../types/database';
+import { Page, PageOptions, pageRange, toPage, toRepositoryError } from './repository';
+
+const TABLE = 'contacts';
+
+export interface ContactFilters {
+  suburb?: string;
+  streetName?: string;
+  streetNames?: string[];
+  status?: string;
+  callBackBefore?: string;
+}
+
+const buildContactQuery = (filters: ContactFilters = {}, count = false) => {
+  let query = supabase.from(TABLE).select('*', count ? { count: 'exact' } : undefined);
+  // Suburbs are stored both as "Moggill" and "Moggill QLD 4070"; match on the name part.
+  if (filters.suburb) query = query.ilike('suburb', `%${filters.suburb.toLowerCase().split(' qld')[0]}%`);
+  if (filters.streetName) query = query.eq('street_name', filters.streetName);
+  if (filters.streetNames?.length) query = query.in('street_name', filters.streetNames);
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.callBackBefore) query = query.lte('call_back_date', filters.callBackBefore);
+  return query.order('street_name', { ascending: true });
+};
+
+export const fetchContacts = async (filters: ContactFilters = {}): Promise<ContactRow[]> => {
+  const { data, error } = await buildContactQuery(filters);
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  return data || [];
+};
+
+export const fetchContactPage = async (filters: ContactFilters = {}, page: PageOptions = {}): Promise<Page<ContactRow>> => {
+  const { from, to } = pageRange(page);
+  const { data, error, count } = await buildContactQuery(filters, true).range(from, to);
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  return toPage(data, count, page);
+};
+
+export const createContacts = async (contacts: ContactInsert[]): Promise<ContactRow[]> => {
+  const { data, error } = await supabase.from(TABLE).insert(contacts).select();
+  if (error) throw toRepositoryError(TABLE, 'create', error);
+  return data || [];
+};
+
+export const updateContact = async (id: string, changes: ContactUpdate): Promise<ContactRow> => {
+  const { data, error } = await supabase.from(TABLE).update(changes).eq('id', id).select().single();
+  if (error) throw toRepositoryError(TABLE, 'update', error);
+  return data;
+};
+
+export const deleteContacts = async (ids: string[]): Promise<void> => {
+  const { error } = await supabase.from(TABLE).delete().in('id', ids);
+  if (error) throw toRepositoryError(TABLE, 'delete', error);
+};
@@ -0,0 +1,14 @@
+import { supabase } from '../lib/supabase';
+
+// Calls a Supabase edge function that answers `{ success, data }` or
+// `{ success: false, code, error }` and unwraps it, surfacing the function's
+// own error message rather than the generic "non-2xx status" one.
+export const invokeEdgeFunction = async <T>(name: string, body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+  if (error) {
+    const payload = error.context instanceof Response ? await error.context.json().catch(() => null) : null;
+    throw new Error(payload?.error || error.message);
+  }
+  if (!data?.success) throw new Error(data?.error || `${name} failed`);
+  return data.data as T;
+};
@@ -1,28 +1,12 @@
-export const sendAgentCredentialsEmail = async (
-  email: string,
-  password: string,
-  name: string,
-  qrCodeDataUrl?: string
-) => {
-  const response = await fetch('/api/send-agent-credentials', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      email,
-      password,
-      name,
-      subject: 'Your Agent Account Details',
-      message: `
-        Hello ${name},
-        Your agent account has been created successfully!
-        Email: ${email}
-        Temporary Password: ${password}
-        Please log in at [Your App URL] and change your password.
-      `,
-      attachments: qrCodeDataUrl
-        ? [{ content: qrCodeDataUrl.split('data:image/png;base64,')[1], filename: 'agent-credentials-qr.png', type: 'image/png' }]
-        : [],
-    }),
-  });
-  if (!response.ok) throw new Error('Failed to send email');
-};
\ No newline at end of file
+import { callServerApi } from './serverApi';
+
+export interface QueuedEmail {
+  id: string;
+  status: 'queued' | 'sending' | 'sent' | 'failed';
+  message: string;
+}
+
+// The server renders the agent_invite template; if the first attempt fails the
+// email stays queued and is retried, so `status` may come back as 'queued'.
+export const sendAgentInviteEmail = async (email: string, name: string, inviteLink: string): Promise<QueuedEmail> =>
+  callServerApi<QueuedEmail>('/send-agent-credentials', { body: { email, name, inviteLink } });
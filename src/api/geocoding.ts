@@ -0,0 +1,61 @@
+import { supabase } from '../lib/supabase';
+import { GeocodeFields, GeocodeQuery, addressKey, geocodeAddress } from '../utils/geocoding';
+import { toRepositoryError } from './repository';
+
+export type GeocodedTable = 'properties' | 'contacts';
+
+type GeocodableRow = GeocodeQuery & Partial<GeocodeFields> & { id: string };
+
+// Rows that have never been looked up. Unresolved rows are left alone until
+// their address changes (a trigger clears the cache) or a retry is forced.
+export const needsGeocode = (row: Partial<GeocodeFields>): boolean => !row.geocode_status;
+
+const saveGeocode = async (table: GeocodedTable, ids: string[], fields: GeocodeFields) => {
+  const { error } = await supabase.from(table).update(fields).in('id', ids);
+  if (error) throw toRepositoryError(table, 'update', error);
+};
+
+// Resolves and caches coordinates for any rows still missing them, returning
+// the rows with their geocode fields filled in. Rows sharing an address are
+// looked up once. Provider failures leave the row untouched so it is retried
+// next time instead of being flagged unresolved.
+export const geocodeRows = async <T extends GeocodableRow>(
+  table: GeocodedTable,
+  rows: T[],
+  options: { retryUnresolved?: boolean } = {}
+): Promise<T[]> => {
+  const pending = rows.filter((row) => needsGeocode(row) || (options.retryUnresolved && row.geocode_status === 'unresolved'));
+  if (!pending.length) return rows;
+
+  const byAddress = new Map<string, T[]>();
+  pending.forEach((row) => {
+    const key = addressKey(row);
+    byAddress.set(key, [...(byAddress.get(key) || []), row]);
+  });
+
+  const results = new Map<string, GeocodeFields>();
+  for (const group of byAddress.values()) {
+    try {
+      const fields = await geocodeAddress(group[0]);
+      await saveGeocode(table, group.map((row) => row.id), fields);
+      group.forEach((row) => results.set(row.id, fields));
+    } catch (error) {
+      console.error(`Failed to geocode ${table} row ${group[0].id}:`, error);
+    }
+  }
+
+  return rows.map((row) => (results.has(row.id) ? { ...row, ...results.get(row.id) } : row));
+};
+
+export const geocodeRow = async <T extends GeocodableRow>(table: GeocodedTable, row: T): Promise<T> =>
+  (await geocodeRows(table, [row]))[0];
+
+export const fetchUnresolvedAddresses = async (table: GeocodedTable): Promise<GeocodableRow[]> => {
+  const { data, error } = await supabase
+    .from(table)
+    .select('id, street_number, street_name, suburb, latitude, longitude, geocode_status, geocoded_at')
+    .eq('geocode_status', 'unresolved')
+    .order('suburb', { ascending: true });
+  if (error) throw toRepositoryError(table, 'fetch', error);
+  return data || [];
+};
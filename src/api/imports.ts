@@ -0,0 +1,207 @@
+import { supabase } from '../lib/supabase';
+import { ImportMappingTemplateRow, ImportRunRow } from '../types/database';
+import { ImportRow, ImportRowError } from '../utils/importer';
+import { toRepositoryError } from './repository';
+
+const TEMPLATES = 'import_mapping_templates';
+const RUNS = 'import_runs';
+
+// Tables the import wizard writes to; import_dry_run accepts the same list.
+export type ImportTable = 'contacts' | 'nurturing_list' | 'properties';
+
+export const IMPORT_BATCH_SIZE = 200;
+
+// Rows that hang off an imported record and are deleted with it on rollback.
+const DEPENDENT_ROWS: Partial<Record<string, { table: string; column: string }[]>> = {
+  properties: [{ table: 'past_records', column: 'property_id' }],
+};
+
+// A rollback that could not delete every record (RLS hides a failed delete as
+// zero rows). `run` has been updated to list only the records still there.
+export class ImportRollbackError extends Error {
+  run: ImportRunRow;
+
+  constructor(message: string, run: ImportRunRow) {
+    super(message);
+    this.name = 'ImportRollbackError';
+    this.run = run;
+  }
+}
+
+export const fetchMappingTemplates = async (source: string): Promise<ImportMappingTemplateRow[]> => {
+  const { data, error } = await supabase.from(TEMPLATES).select('*').eq('source', source).order('name');
+  if (error) throw toRepositoryError(TEMPLATES, 'fetch', error);
+  return data || [];
+};
+
+// Saving under an existing name replaces that template's mapping.
+export const saveMappingTemplate = async (
+  source: string,
+  name: string,
+  mapping: Record<string, string>
+): Promise<ImportMappingTemplateRow> => {
+  const { data, error } = await supabase
+    .from(TEMPLATES)
+    .upsert([{ source, name: name.trim(), mapping, updated_at: new Date().toISOString() }], { onConflict: 'source,name' })
+    .select()
+    .single();
+  if (error) throw toRepositoryError(TEMPLATES, 'create', error);
+  return data;
+};
+
+export const deleteMappingTemplate = async (id: string): Promise<void> => {
+  const { error } = await supabase.from(TEMPLATES).delete().eq('id', id);
+  if (error) throw toRepositoryError(TEMPLATES, 'delete', error);
+};
+
+export interface DryRunError {
+  index: number;
+  error: string;
+}
+
+// Inserts the records inside a transaction that is always rolled back and
+// returns what the database rejected, by position in `records`.
+export const importDryRun = async (table: ImportTable, records: Record<string, unknown>[]): Promise<DryRunError[]> => {
+  const { data, error } = await supabase.rpc('import_dry_run', { p_table: table, p_rows: records });
+  if (error) throw toRepositoryError(table, 'create', error);
+  return (data || []) as DryRunError[];
+};
+
+// The same check for wizard rows, reporting spreadsheet row numbers.
+export const dryRunImportRows = async (
+  table: ImportTable,
+  rows: ImportRow[],
+  toRecord: (row: ImportRow) => Record<string, unknown>
+): Promise<ImportRowError[]> =>
+  (await importDryRun(table, rows.map(toRecord))).map(({ index, error }) => ({ rowNumber: rows[index].rowNumber, error }));
+
+export const fetchImportRuns = async (source: string, limit = 5): Promise<ImportRunRow[]> => {
+  const { data, error } = await supabase
+    .from(RUNS)
+    .select('*')
+    .eq('source', source)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw toRepositoryError(RUNS, 'fetch', error);
+  return data || [];
+};
+
+export interface ImportCommitOptions {
+  source: string;
+  table: ImportTable;
+  fileName?: string | null;
+  records: object[];
+  batchSize?: number;
+  // Delete the batches already written when a later one fails.
+  rollbackOnError?: boolean;
+  onProgress?: (written: number, total: number) => void;
+}
+
+export interface ImportCommitResult<T> {
+  run: ImportRunRow;
+  inserted: T[];
+  // Set when a batch failed. Unless the run was rolled back, everything before
+  // it has been written and can still be undone with rollbackImport.
+  error: string | null;
+}
+
+// Writes the records in batches, recording each batch's ids on the run as it
+// goes so a failed or unwanted import can be rolled back.
+export const commitImportBatches = async <T extends { id: string }>({
+  source,
+  table,
+  fileName = null,
+  records,
+  batchSize = IMPORT_BATCH_SIZE,
+  rollbackOnError = false,
+  onProgress,
+}: ImportCommitOptions): Promise<ImportCommitResult<T>> => {
+  const { data: run, error: runError } = await supabase
+    .from(RUNS)
+    .insert([{ source, table_name: table, file_name: fileName }])
+    .select()
+    .single();
+  if (runError) throw toRepositoryError(RUNS, 'create', runError);
+
+  const inserted: T[] = [];
+  let failure: string | null = null;
+  for (let start = 0; start < records.length; start += batchSize) {
+    const { data, error } = await supabase
+      .from(table)
+      .insert(records.slice(start, start + batchSize))
+      .select();
+    if (error) {
+      failure = `Rows ${start + 1}-${Math.min(start + batchSize, records.length)}: ${toRepositoryError(table, 'create', error).message}`;
+      break;
+    }
+    inserted.push(...((data || []) as T[]));
+    const { error: progressError } = await supabase
+      .from(RUNS)
+      .update({ record_ids: inserted.map((row) => row.id), row_count: inserted.length })
+      .eq('id', run.id);
+    if (progressError) throw toRepositoryError(RUNS, 'update', progressError);
+    onProgress?.(inserted.length, records.length);
+  }
+
+  const { data: finished, error: finishError } = await supabase
+    .from(RUNS)
+    .update({ status: failure ? 'failed' : 'committed', error: failure, finished_at: new Date().toISOString() })
+    .eq('id', run.id)
+    .select()
+    .single();
+  if (finishError) throw toRepositoryError(RUNS, 'update', finishError);
+  if (failure && rollbackOnError && inserted.length) {
+    try {
+      return { run: await rollbackImport(finished), inserted: [], error: failure };
+    } catch (err) {
+      if (!(err instanceof ImportRollbackError)) throw err;
+      const remaining = new Set(err.run.record_ids);
+      return {
+        run: err.run,
+        inserted: inserted.filter((row) => remaining.has(row.id)),
+        error: `${failure}. ${err.message}`,
+      };
+    }
+  }
+  return { run: finished, inserted, error: failure };
+};
+
+// Deletes everything the run created. Records it updated rather than created
+// (duplicates filled in from the file) are left as they are. Throws
+// ImportRollbackError, without marking the run rolled back, when some records
+// could not be deleted.
+export const rollbackImport = async (run: Pick<ImportRunRow, 'id' | 'table_name' | 'record_ids'>): Promise<ImportRunRow> => {
+  const kept: string[] = [];
+  for (let start = 0; start < run.record_ids.length; start += IMPORT_BATCH_SIZE) {
+    const ids = run.record_ids.slice(start, start + IMPORT_BATCH_SIZE);
+    for (const dependent of DEPENDENT_ROWS[run.table_name] || []) {
+      const { error } = await supabase.from(dependent.table).delete().in(dependent.column, ids);
+      if (error) throw toRepositoryError(dependent.table, 'delete', error);
+    }
+    const { data, error } = await supabase.from(run.table_name).delete().in('id', ids).select('id');
+    if (error) throw toRepositoryError(run.table_name, 'delete', error);
+    const deleted = new Set((data || []).map((row: { id: string }) => row.id));
+    kept.push(...ids.filter((id) => !deleted.has(id)));
+  }
+
+  if (kept.length) {
+    const message = `${kept.length} of ${run.record_ids.length} imported records could not be deleted. You may not have permission to delete them.`;
+    const { data, error } = await supabase
+      .from(RUNS)
+      .update({ record_ids: kept, row_count: kept.length, error: message })
+      .eq('id', run.id)
+      .select()
+      .single();
+    if (error) throw toRepositoryError(RUNS, 'update', error);
+    throw new ImportRollbackError(message, data);
+  }
+
+  const { data, error } = await supabase
+    .from(RUNS)
+    .update({ status: 'rolled_back', rolled_back_at: new Date().toISOString() })
+    .eq('id', run.id)
+    .select()
+    .single();
+  if (error) throw toRepositoryError(RUNS, 'update', error);
+  return data;
+};
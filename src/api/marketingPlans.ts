@@ -0,0 +1,49 @@
+import { supabase } from '../lib/supabase';
+import { MarketingPlanInsert, MarketingPlanRow, MarketingPlanUpdate } from '../types/database';
+import { toRepositoryError } from './repository';
+
+const TABLE = 'marketing_plans';
+
+export interface MarketingPlanFilters {
+  agent?: string;
+  suburb?: string;
+  activeOn?: string;
+}
+
+export const fetchMarketingPlans = async (filters: MarketingPlanFilters = {}): Promise<MarketingPlanRow[]> => {
+  let query = supabase.from(TABLE).select('*');
+  if (filters.agent) query = query.eq('agent', filters.agent);
+  if (filters.suburb) query = query.eq('suburb', filters.suburb);
+  if (filters.activeOn) query = query.lte('start_date', filters.activeOn).gte('end_date', filters.activeOn);
+  const { data, error } = await query.order('start_date', { ascending: false });
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  return data || [];
+};
+
+export const fetchMarketingPlanById = async (id: string): Promise<MarketingPlanRow | null> => {
+  const { data, error } = await supabase.from(TABLE).select('*').eq('id', id).maybeSingle();
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  return data;
+};
+
+export const createMarketingPlan = async (plan: MarketingPlanInsert): Promise<MarketingPlanRow> => {
+  const { data, error } = await supabase.from(TABLE).insert([plan]).select().single();
+  if (error) throw toRepositoryError(TABLE, 'create', error);
+  return data;
+};
+
+export const updateMarketingPlan = async (id: string, changes: MarketingPlanUpdate): Promise<MarketingPlanRow> => {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+  if (error) throw toRepositoryError(TABLE, 'update', error);
+  return data;
+};
+
+export const deleteMarketingPlan = async (id: string): Promise<void> => {
+  const { error } = await supabase.from(TABLE).delete().eq('id', id);
+  if (error) throw toRepositoryError(TABLE, 'delete', error);
+};
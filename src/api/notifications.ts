@@ -0,0 +1,66 @@
+import { supabase } from '../lib/supabase';
+import { NotificationPreferenceRow, NotificationRow, NotificationType } from '../types/database';
+import { toRepositoryError } from './repository';
+
+const TABLE = 'notifications';
+const PREFERENCES_TABLE = 'notification_preferences';
+
+export const fetchNotifications = async (userId: string, limit = 50): Promise<NotificationRow[]> => {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select('*')
+    .eq('user_id', userId)
+    .is('archived_at', null)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  return data || [];
+};
+
+export const markNotificationsRead = async (ids: string[]): Promise<void> => {
+  if (!ids.length) return;
+  const { error } = await supabase.from(TABLE).update({ read_at: new Date().toISOString() }).in('id', ids).is('read_at', null);
+  if (error) throw toRepositoryError(TABLE, 'update', error);
+};
+
+export const archiveNotification = async (id: string): Promise<void> => {
+  const now = new Date().toISOString();
+  const { error } = await supabase.from(TABLE).update({ archived_at: now }).eq('id', id);
+  if (error) throw toRepositoryError(TABLE, 'update', error);
+};
+
+// Calls `onInsert` for every notification delivered to the user from now on.
+// Returns the unsubscribe function.
+export const subscribeToNotifications = (userId: string, onInsert: (notification: NotificationRow) => void) => {
+  const channel = supabase
+    .channel(`notifications:${userId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: TABLE, filter: `user_id=eq.${userId}` },
+      (payload) => onInsert(payload.new as NotificationRow)
+    )
+    .subscribe();
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+export const fetchNotificationPreferences = async (userId: string): Promise<NotificationPreferenceRow[]> => {
+  const { data, error } = await supabase.from(PREFERENCES_TABLE).select('*').eq('user_id', userId);
+  if (error) throw toRepositoryError(PREFERENCES_TABLE, 'fetch', error);
+  return data || [];
+};
+
+export const saveNotificationPreference = async (
+  userId: string,
+  type: NotificationType,
+  emailEnabled: boolean
+): Promise<NotificationPreferenceRow> => {
+  const { data, error } = await supabase
+    .from(PREFERENCES_TABLE)
+    .upsert({ user_id: userId, type, email_enabled: emailEnabled, updated_at: new Date().toISOString() })
+    .select()
+    .single();
+  if (error) throw toRepositoryError(PREFERENCES_TABLE, 'update', error);
+  return data;
+};
@@ -0,0 +1,70 @@
+import { supabase } from '../lib/supabase';
+import { NurturingContactInsert, NurturingContactRow, NurturingContactUpdate } from '../types/database';
+import { Page, PageOptions, pageRange, toPage, toRepositoryError } from './repository';
+
+const TABLE = 'nurturing_list';
+
+export interface NurturingFilters {
+  agentId?: string;
+  status?: string;
+  priority?: NurturingContactRow['priority'];
+  callBackBefore?: string;
+  needsMonthlyAppraisals?: boolean;
+}
+
+const buildNurturingQuery = (filters: NurturingFilters = {}, count = false) => {
+  let query = supabase.from(TABLE).select('*', count ? { count: 'exact' } : undefined);
+  if (filters.agentId) query = query.eq('agent_id', filters.agentId);
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.priority) query = query.eq('priority', filters.priority);
+  if (filters.callBackBefore) query = query.lte('call_back_date', filters.callBackBefore);
+  if (filters.needsMonthlyAppraisals !== undefined) {
+    query = query.eq('needs_monthly_appraisals', filters.needsMonthlyAppraisals);
+  }
+  return query.order('call_back_date', { ascending: true, nullsFirst: false });
+};
+
+export const fetchNurturingContacts = async (filters: NurturingFilters = {}): Promise<NurturingContactRow[]> => {
+  const { data, error } = await buildNurturingQuery(filters);
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  return data || [];
+};
+
+export const fetchNurturingContactPage = async (
+  filters: NurturingFilters = {},
+  page: PageOptions = {}
+): Promise<Page<NurturingContactRow>> => {
+  const { from, to } = pageRange(page);
+  const { data, error, count } = await buildNurturingQuery(filters, true).range(from, to);
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  return toPage(data, count, page);
+};
+
+export const createNurturingContacts = async (contacts: NurturingContactInsert[]): Promise<NurturingContactRow[]> => {
+  const { data, error } = await supabase.from(TABLE).insert(contacts).select();
+  if (error) throw toRepositoryError(TABLE, 'create', error);
+  return data || [];
+};
+
+export const updateNurturingContact = async (
+  id: string,
+  agentId: string,
+  changes: NurturingContactUpdate
+): Promise<NurturingContactRow> => {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .update(changes)
+    .eq('id', id)
+    .eq('agent_id', agentId)
+    .select()
+    .single();
+  if (error) throw toRepositoryError(TABLE, 'update', error);
+  return data;
+};
+
+export const deleteNurturingContacts = async (agentId: string, ids?: string[]): Promise<void> => {
+  let query = supabase.from(TABLE).delete().eq('agent_id', agentId);
+  if (ids) query = query.in('id', ids);
+  const { error } = await query;
+  if (error) throw toRepositoryError(TABLE, 'delete', error);
+};
@@ -0,0 +1,346 @@
+import { supabase } from '../lib/supabase';
+import {
+  AddressLabel,
+  ContactRow,
+  EmailLabel,
+  HouseholdRow,
+  NurturingContactRow,
+  PersonAddressRow,
+  PersonEmailRow,
+  PersonInsert,
+  PersonInteractionInsert,
+  PersonInteractionRow,
+  PersonPhoneRow,
+  PersonPropertyRow,
+  PersonRow,
+  PersonUpdate,
+  PhoneLabel,
+  PropertyRelationship,
+  PropertyRow,
+} from '../types/database';
+import { emailKey, phoneKey } from '../utils/people';
+import { Page, PageOptions, pageRange, toPage, toRepositoryError } from './repository';
+
+const PEOPLE = 'people';
+const PHONES = 'person_phones';
+const EMAILS = 'person_emails';
+const ADDRESSES = 'person_addresses';
+const PROPERTIES = 'person_properties';
+const INTERACTIONS = 'person_interactions';
+const HOUSEHOLDS = 'households';
+const DISMISSALS = 'person_duplicate_dismissals';
+
+// People are kept in step with the nurturing list, street contacts and Form 6
+// by database triggers (see migration 20261019220000_common_thread.sql), so
+// those pages keep writing their own tables and this module only covers what
+// is edited on the person directly.
+
+export interface PersonSummary extends PersonRow {
+  phones: PersonPhoneRow[];
+  emails: PersonEmailRow[];
+}
+
+export type LinkedProperty = Pick<PropertyRow, 'id' | 'street_number' | 'street_name' | 'suburb' | 'property_type' | 'contract_status'>;
+
+export interface PersonPropertyLink extends PersonPropertyRow {
+  property: LinkedProperty | null;
+}
+
+export type NurturingSource = Pick<NurturingContactRow, 'id' | 'agent_id' | 'status' | 'priority' | 'call_back_date'>;
+export type StreetContactSource = Pick<
+  ContactRow,
+  'id' | 'street_number' | 'street_name' | 'suburb' | 'status' | 'outcome' | 'call_back_date'
+>;
+
+export interface PersonRecord extends PersonSummary {
+  addresses: PersonAddressRow[];
+  properties: PersonPropertyLink[];
+  interactions: PersonInteractionRow[];
+  household: HouseholdRow | null;
+  householdMembers: Pick<PersonRow, 'id' | 'display_name'>[];
+  nurturing: NurturingSource[];
+  streetContacts: StreetContactSource[];
+}
+
+export interface PeopleFilters {
+  search?: string;
+  tag?: string;
+  agentId?: string;
+}
+
+const SUMMARY_SELECT = `*, phones:${PHONES}(*), emails:${EMAILS}(*)`;
+
+const byPrimary = <T extends { is_primary: boolean; created_at: string }>(rows: T[] | null | undefined): T[] =>
+  [...(rows || [])].sort((a, b) => Number(b.is_primary) - Number(a.is_primary) || a.created_at.localeCompare(b.created_at));
+
+const toSummary = (row: PersonSummary): PersonSummary => ({
+  ...row,
+  phones: byPrimary(row.phones),
+  emails: byPrimary(row.emails),
+});
+
+// A search that looks like a phone number or an email address is matched on
+// the normalised keys; anything else on the name.
+const matchingPersonIds = async (search: string): Promise<string[] | null> => {
+  if (search.includes('@')) {
+    const { data, error } = await supabase.from(EMAILS).select('person_id').ilike('email_key', `%${emailKey(search)}%`);
+    if (error) throw toRepositoryError(EMAILS, 'fetch', error);
+    return (data || []).map((row) => row.person_id);
+  }
+  const key = phoneKey(search);
+  if (key && key.length >= 6 && !/[a-z]/i.test(search)) {
+    const { data, error } = await supabase.from(PHONES).select('person_id').like('phone_key', `%${key.replace(/^0/, '')}%`);
+    if (error) throw toRepositoryError(PHONES, 'fetch', error);
+    return (data || []).map((row) => row.person_id);
+  }
+  return null;
+};
+
+export const fetchPeoplePage = async (filters: PeopleFilters = {}, page: PageOptions = {}): Promise<Page<PersonSummary>> => {
+  const { from, to } = pageRange(page);
+  let query = supabase.from(PEOPLE).select(SUMMARY_SELECT, { count: 'exact' }).is('merged_into', null);
+  const search = filters.search?.trim();
+  if (search) {
+    const ids = await matchingPersonIds(search);
+    query = ids ? query.in('id', ids.length ? ids : ['00000000-0000-0000-0000-000000000000']) : query.ilike('display_name', `%${search}%`);
+  }
+  if (filters.tag) query = query.contains('tags', [filters.tag]);
+  if (filters.agentId) query = query.eq('agent_id', filters.agentId);
+  const { data, error, count } = await query.order('display_name', { ascending: true }).range(from, to);
+  if (error) throw toRepositoryError(PEOPLE, 'fetch', error);
+  return toPage(((data || []) as PersonSummary[]).map(toSummary), count, page);
+};
+
+// Every person matching the filters, for exports.
+export const fetchAllPeople = async (filters: PeopleFilters = {}): Promise<PersonSummary[]> => {
+  const rows: PersonSummary[] = [];
+  for (let page = 1; ; page++) {
+    const result = await fetchPeoplePage(filters, { page, pageSize: 1000 });
+    rows.push(...result.rows);
+    if (page >= result.pageCount) return rows;
+  }
+};
+
+export interface DedupePerson extends PersonSummary {
+  addresses: PersonAddressRow[];
+}
+
+const DEDUPE_BATCH = 1000;
+
+// Everyone not yet merged, with the details duplicates are matched on. Loaded
+// in batches since the directory outgrows a single request.
+export const fetchPeopleForDedupe = async (agentId?: string): Promise<DedupePerson[]> => {
+  const people: DedupePerson[] = [];
+  for (let from = 0; ; from += DEDUPE_BATCH) {
+    let query = supabase.from(PEOPLE).select(`${SUMMARY_SELECT}, addresses:${ADDRESSES}(*)`).is('merged_into', null);
+    if (agentId) query = query.eq('agent_id', agentId);
+    const { data, error } = await query.order('id').range(from, from + DEDUPE_BATCH - 1);
+    if (error) throw toRepositoryError(PEOPLE, 'fetch', error);
+    const rows = (data || []) as unknown as DedupePerson[];
+    people.push(...rows.map((row) => ({ ...toSummary(row), addresses: row.addresses || [] })));
+    if (rows.length < DEDUPE_BATCH) return people;
+  }
+};
+
+// Dismissals are stored with the lower id first.
+export const duplicatePairKey = (a: string, b: string): string => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+export const fetchDuplicateDismissals = async (): Promise<Set<string>> => {
+  const { data, error } = await supabase.from(DISMISSALS).select('person_a, person_b');
+  if (error) throw toRepositoryError(DISMISSALS, 'fetch', error);
+  return new Set((data || []).map((row) => duplicatePairKey(row.person_a, row.person_b)));
+};
+
+export const dismissDuplicate = async (a: string, b: string): Promise<void> => {
+  const [person_a, person_b] = a < b ? [a, b] : [b, a];
+  const { error } = await supabase.from(DISMISSALS).upsert([{ person_a, person_b }], { ignoreDuplicates: true });
+  if (error) throw toRepositoryError(DISMISSALS, 'create', error);
+};
+
+// Folds `mergeId` into `keepId` (see merge_people in migration
+// 20261019230000_folded_twins.sql). Name and notes default to the survivor's.
+export const mergePeople = async (
+  keepId: string,
+  mergeId: string,
+  choices: { displayName?: string; notes?: string | null } = {}
+): Promise<void> => {
+  const { error } = await supabase.rpc('merge_people', {
+    p_keep: keepId,
+    p_merge: mergeId,
+    p_display_name: choices.displayName ?? null,
+    p_notes: choices.notes ?? null,
+  });
+  if (error) throw toRepositoryError(PEOPLE, 'update', error);
+};
+
+export const fetchPerson = async (id: string): Promise<PersonRecord> => {
+  const { data, error } = await supabase
+    .from(PEOPLE)
+    .select(
+      `${SUMMARY_SELECT}, addresses:${ADDRESSES}(*), household:${HOUSEHOLDS}(*), ` +
+        `properties:${PROPERTIES}(*, property:properties(id, street_number, street_name, suburb, property_type, contract_status))`
+    )
+    .eq('id', id)
+    .single();
+  if (error) throw toRepositoryError(PEOPLE, 'fetch', error);
+  const row = data as unknown as PersonSummary & {
+    addresses: PersonAddressRow[] | null;
+    properties: PersonPropertyLink[] | null;
+    household: HouseholdRow | null;
+  };
+
+  const [interactions, members, nurturing, streetContacts] = await Promise.all([
+    supabase.from(INTERACTIONS).select('*').eq('person_id', id).order('occurred_at', { ascending: false }),
+    row.household_id
+      ? supabase.from(PEOPLE).select('id, display_name').eq('household_id', row.household_id).neq('id', id).is('merged_into', null)
+      : Promise.resolve({ data: [], error: null }),
+    supabase.from('nurturing_list').select('id, agent_id, status, priority, call_back_date').eq('person_id', id),
+    supabase
+      .from('contacts')
+      .select('id, street_number, street_name, suburb, status, outcome, call_back_date')
+      .or(`owner_1_person_id.eq.${id},owner_2_person_id.eq.${id}`),
+  ]);
+  if (interactions.error) throw toRepositoryError(INTERACTIONS, 'fetch', interactions.error);
+  if (members.error) throw toRepositoryError(PEOPLE, 'fetch', members.error);
+  if (nurturing.error) throw toRepositoryError('nurturing_list', 'fetch', nurturing.error);
+  if (streetContacts.error) throw toRepositoryError('contacts', 'fetch', streetContacts.error);
+
+  return {
+    ...toSummary(row),
+    addresses: row.addresses || [],
+    properties: row.properties || [],
+    household: row.household || null,
+    interactions: interactions.data || [],
+    householdMembers: members.data || [],
+    nurturing: nurturing.data || [],
+    streetContacts: streetContacts.data || [],
+  };
+};
+
+export interface NewPersonInput extends PersonInsert {
+  phone?: string;
+  email?: string;
+}
+
+export const createPerson = async ({ phone, email, ...person }: NewPersonInput): Promise<PersonRow> => {
+  const { data, error } = await supabase.from(PEOPLE).insert([person]).select().single();
+  if (error) throw toRepositoryError(PEOPLE, 'create', error);
+  if (phone?.trim()) await addPersonPhone(data.id, phone, 'mobile', true);
+  if (email?.trim()) await addPersonEmail(data.id, email, 'personal', true);
+  return data;
+};
+
+export const updatePerson = async (id: string, changes: PersonUpdate): Promise<PersonRow> => {
+  const { data, error } = await supabase
+    .from(PEOPLE)
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+  if (error) throw toRepositoryError(PEOPLE, 'update', error);
+  return data;
+};
+
+export const addPersonPhone = async (
+  personId: string,
+  phone: string,
+  label: PhoneLabel,
+  isPrimary = false
+): Promise<PersonPhoneRow> => {
+  const key = phoneKey(phone);
+  if (!key) throw toRepositoryError(PHONES, 'create', { message: 'Enter a phone number with digits in it' });
+  const { data, error } = await supabase
+    .from(PHONES)
+    .insert([{ person_id: personId, phone: phone.trim(), phone_key: key, label, is_primary: isPrimary }])
+    .select()
+    .single();
+  if (error) throw toRepositoryError(PHONES, 'create', error);
+  return data;
+};
+
+export const addPersonEmail = async (
+  personId: string,
+  email: string,
+  label: EmailLabel,
+  isPrimary = false
+): Promise<PersonEmailRow> => {
+  const key = emailKey(email);
+  if (!key) throw toRepositoryError(EMAILS, 'create', { message: 'Enter an email address' });
+  const { data, error } = await supabase
+    .from(EMAILS)
+    .insert([{ person_id: personId, email: email.trim(), email_key: key, label, is_primary: isPrimary }])
+    .select()
+    .single();
+  if (error) throw toRepositoryError(EMAILS, 'create', error);
+  return data;
+};
+
+// Only one phone and one email per person is primary.
+export const setPrimaryPhone = async (personId: string, phoneId: string): Promise<void> => {
+  const { error: clearError } = await supabase.from(PHONES).update({ is_primary: false }).eq('person_id', personId).neq('id', phoneId);
+  if (clearError) throw toRepositoryError(PHONES, 'update', clearError);
+  const { error } = await supabase.from(PHONES).update({ is_primary: true }).eq('id', phoneId);
+  if (error) throw toRepositoryError(PHONES, 'update', error);
+};
+
+export const setPrimaryEmail = async (personId: string, emailId: string): Promise<void> => {
+  const { error: clearError } = await supabase.from(EMAILS).update({ is_primary: false }).eq('person_id', personId).neq('id', emailId);
+  if (clearError) throw toRepositoryError(EMAILS, 'update', clearError);
+  const { error } = await supabase.from(EMAILS).update({ is_primary: true }).eq('id', emailId);
+  if (error) throw toRepositoryError(EMAILS, 'update', error);
+};
+
+export const deletePersonPhone = async (id: string): Promise<void> => {
+  const { error } = await supabase.from(PHONES).delete().eq('id', id);
+  if (error) throw toRepositoryError(PHONES, 'delete', error);
+};
+
+export const deletePersonEmail = async (id: string): Promise<void> => {
+  const { error } = await supabase.from(EMAILS).delete().eq('id', id);
+  if (error) throw toRepositoryError(EMAILS, 'delete', error);
+};
+
+export const addPersonAddress = async (
+  address: Pick<PersonAddressRow, 'person_id' | 'street_number' | 'street_name' | 'suburb' | 'postcode'> & { label: AddressLabel }
+): Promise<PersonAddressRow> => {
+  const { data, error } = await supabase.from(ADDRESSES).insert([address]).select().single();
+  if (error) throw toRepositoryError(ADDRESSES, 'create', error);
+  return data;
+};
+
+export const deletePersonAddress = async (id: string): Promise<void> => {
+  const { error } = await supabase.from(ADDRESSES).delete().eq('id', id);
+  if (error) throw toRepositoryError(ADDRESSES, 'delete', error);
+};
+
+export const linkPersonProperty = async (
+  personId: string,
+  propertyId: string,
+  relationship: PropertyRelationship
+): Promise<void> => {
+  const { error } = await supabase
+    .from(PROPERTIES)
+    .upsert([{ person_id: personId, property_id: propertyId, relationship }], { ignoreDuplicates: true });
+  if (error) throw toRepositoryError(PROPERTIES, 'create', error);
+};
+
+export const unlinkPersonProperty = async (link: Pick<PersonPropertyRow, 'person_id' | 'property_id' | 'relationship'>) => {
+  const { error } = await supabase
+    .from(PROPERTIES)
+    .delete()
+    .eq('person_id', link.person_id)
+    .eq('property_id', link.property_id)
+    .eq('relationship', link.relationship);
+  if (error) throw toRepositoryError(PROPERTIES, 'delete', error);
+};
+
+export const logInteraction = async (interaction: PersonInteractionInsert): Promise<PersonInteractionRow> => {
+  const { data, error } = await supabase.from(INTERACTIONS).insert([interaction]).select().single();
+  if (error) throw toRepositoryError(INTERACTIONS, 'create', error);
+  return data;
+};
+
+export const deleteInteraction = async (id: string): Promise<void> => {
+  const { error } = await supabase.from(INTERACTIONS).delete().eq('id', id);
+  if (error) throw toRepositoryError(INTERACTIONS, 'delete', error);
+};
@@ -0,0 +1,90 @@
+import { supabase } from '../lib/supabase';
+import {
+  DealRow,
+  DealStageHistoryRow,
+  PipelineStageInsert,
+  PipelineStageRow,
+  PipelineStageUpdate,
+  PropertyRow,
+} from '../types/database';
+import { PipelineMetrics, computePipelineMetrics } from '../utils/pipeline';
+import { toRepositoryError } from './repository';
+
+const STAGES = 'pipeline_stages';
+const DEALS = 'deals';
+const HISTORY = 'deal_stage_history';
+
+export type DealProperty = Pick<
+  PropertyRow,
+  'id' | 'street_number' | 'street_name' | 'suburb' | 'property_type' | 'price' | 'agent_name'
+>;
+
+export interface DealWithProperty extends DealRow {
+  property: DealProperty | null;
+}
+
+export const fetchPipelineStages = async (includeInactive = false): Promise<PipelineStageRow[]> => {
+  let query = supabase.from(STAGES).select('*');
+  if (!includeInactive) query = query.eq('is_active', true);
+  const { data, error } = await query.order('position', { ascending: true });
+  if (error) throw toRepositoryError(STAGES, 'fetch', error);
+  return data || [];
+};
+
+export const createPipelineStage = async (stage: PipelineStageInsert): Promise<PipelineStageRow> => {
+  const { data, error } = await supabase.from(STAGES).insert([stage]).select().single();
+  if (error) throw toRepositoryError(STAGES, 'create', error);
+  return data;
+};
+
+export const updatePipelineStage = async (id: string, changes: PipelineStageUpdate): Promise<PipelineStageRow> => {
+  const { data, error } = await supabase.from(STAGES).update(changes).eq('id', id).select().single();
+  if (error) throw toRepositoryError(STAGES, 'update', error);
+  return data;
+};
+
+export interface DealFilters {
+  agentId?: string;
+  listedFrom?: string;
+  listedTo?: string;
+}
+
+export const fetchDeals = async (filters: DealFilters = {}): Promise<DealWithProperty[]> => {
+  let query = supabase
+    .from(DEALS)
+    .select('*, property:properties(id, street_number, street_name, suburb, property_type, price, agent_name)');
+  if (filters.agentId) query = query.eq('agent_id', filters.agentId);
+  if (filters.listedFrom) query = query.gte('created_at', filters.listedFrom);
+  if (filters.listedTo) query = query.lte('created_at', filters.listedTo);
+  const { data, error } = await query.order('stage_changed_at', { ascending: false });
+  if (error) throw toRepositoryError(DEALS, 'fetch', error);
+  return data || [];
+};
+
+// History rows are written by a trigger on deals, so moving a deal is a plain update.
+export const moveDeal = async (dealId: string, stageId: string): Promise<DealRow> => {
+  const { data, error } = await supabase.from(DEALS).update({ stage_id: stageId }).eq('id', dealId).select().single();
+  if (error) throw toRepositoryError(DEALS, 'update', error);
+  return data;
+};
+
+// Ids go in the query string, so large boards are fetched in chunks.
+const HISTORY_CHUNK = 200;
+
+export const fetchDealHistory = async (dealIds: string[]): Promise<DealStageHistoryRow[]> => {
+  const chunks: string[][] = [];
+  for (let i = 0; i < dealIds.length; i += HISTORY_CHUNK) chunks.push(dealIds.slice(i, i + HISTORY_CHUNK));
+  const results = await Promise.all(
+    chunks.map((ids) => supabase.from(HISTORY).select('*').in('deal_id', ids).order('changed_at', { ascending: true }))
+  );
+  const failed = results.find((result) => result.error);
+  if (failed?.error) throw toRepositoryError(HISTORY, 'fetch', failed.error);
+  return results.flatMap((result) => result.data || []);
+};
+
+// Ratios for deals listed within the window (defaults to all time).
+export const fetchPipelineMetrics = async (filters: DealFilters = {}): Promise<PipelineMetrics> => {
+  const [deals, stages] = await Promise.all([fetchDeals(filters), fetchPipelineStages(true)]);
+  const history = await fetchDealHistory(deals.map((deal) => deal.id));
+  return computePipelineMetrics(deals, history, stages);
+};
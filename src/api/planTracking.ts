@@ -0,0 +1,121 @@
+import { supabase } from '../lib/supabase';
+import {
+  MetricTracking,
+  PlanActuals,
+  PlanPeriodType,
+  PlanTargets,
+  PlanWindow,
+  planWindow,
+  trackPlan,
+} from '../utils/planTracking';
+import { propertyCommission } from '../utils/commission';
+import { fetchAgentActivities } from './agentActivities';
+import { fetchAppraisals } from './appraisals';
+import { toRepositoryError } from './repository';
+
+const windowEnd = (window: PlanWindow) => `${window.end}T23:59:59`;
+
+// Gross commission on sales settled in the window: the ledger figure for
+// booked sales, otherwise sold price times the agent's negotiated rate for
+// that property, falling back to the listing rate.
+const fetchSettledSales = async (agentId: string, window: PlanWindow) => {
+  const { data, error } = await supabase
+    .from('properties')
+    .select('id, sold_price, price, commission')
+    .eq('agent_id', agentId)
+    .gte('sold_date', window.start)
+    .lte('sold_date', windowEnd(window));
+  if (error) throw toRepositoryError('properties', 'fetch', error);
+  const sales = data || [];
+  if (!sales.length) return { count: 0, grossCommission: 0 };
+
+  const ids = sales.map((sale) => sale.id);
+  const [{ data: rates, error: ratesError }, { data: booked, error: bookedError }] = await Promise.all([
+    supabase.from('agent_commissions').select('property_id, commission_rate').in('property_id', ids),
+    supabase.from('commission_ledger').select('property_id, commission_rate, gross_commission').in('property_id', ids),
+  ]);
+  if (ratesError) throw toRepositoryError('agent_commissions', 'fetch', ratesError);
+  if (bookedError) throw toRepositoryError('commission_ledger', 'fetch', bookedError);
+  const rateByProperty = new Map((rates || []).map((rate) => [rate.property_id, Number(rate.commission_rate)]));
+  const ledgerByProperty = new Map((booked || []).map((entry) => [entry.property_id, entry]));
+
+  const grossCommission = sales.reduce(
+    (sum, sale) => sum + propertyCommission(sale, ledgerByProperty.get(sale.id), rateByProperty.get(sale.id)).commissionEarned,
+    0
+  );
+  return { count: sales.length, grossCommission };
+};
+
+const countListings = async (agentId: string, window: PlanWindow): Promise<number> => {
+  const { count, error } = await supabase
+    .from('properties')
+    .select('id', { count: 'exact', head: true })
+    .eq('agent_id', agentId)
+    .gte('listed_date', window.start)
+    .lte('listed_date', windowEnd(window));
+  if (error) throw toRepositoryError('properties', 'fetch', error);
+  return count || 0;
+};
+
+export const fetchPlanActuals = async (agentId: string, window: PlanWindow): Promise<PlanActuals> => {
+  const [appraisals, listings, sales, calls] = await Promise.all([
+    fetchAppraisals({ agentId, from: window.start, to: window.end }),
+    countListings(agentId, window),
+    fetchSettledSales(agentId, window),
+    fetchAgentActivities({ agentId, types: ['phone_call'], from: window.start, to: windowEnd(window) }),
+  ]);
+  return {
+    appraisals: appraisals.length,
+    listings,
+    settledSales: sales.count,
+    grossCommission: sales.grossCommission,
+    calls: calls.reduce((sum, activity) => sum + (activity.calls_made || 0), 0),
+  };
+};
+
+export const fetchPlanTracking = async (
+  agentId: string,
+  targets: PlanTargets,
+  asOf?: string
+): Promise<{ window: PlanWindow; actuals: PlanActuals; metrics: MetricTracking[] }> => {
+  const window = planWindow((targets.period_type || 'monthly') as PlanPeriodType, asOf);
+  const actuals = await fetchPlanActuals(agentId, window);
+  return { window, actuals, metrics: trackPlan(targets, actuals, window) };
+};
+
+export interface AgentPlanTracking {
+  agentId: string;
+  agentName: string;
+  window: PlanWindow;
+  metrics: MetricTracking[];
+}
+
+// Latest saved plan per agent, tracked against its own period.
+export const fetchTeamPlanTracking = async (asOf?: string): Promise<AgentPlanTracking[]> => {
+  const [{ data: plans, error }, { data: agents, error: agentsError }] = await Promise.all([
+    supabase
+      .from('agent_business_plans')
+      .select(
+        'agent_id, period_type, appraisals_target, listings_target, settled_sales_target, gross_commission_target, calls_per_day, no_of_working_days_per_year, created_at'
+      )
+      .order('created_at', { ascending: false }),
+    supabase.from('profiles').select('id, name').eq('role', 'agent'),
+  ]);
+  if (error) throw toRepositoryError('agent_business_plans', 'fetch', error);
+  if (agentsError) throw toRepositoryError('profiles', 'fetch', agentsError);
+
+  const latest = new Map<string, PlanTargets>();
+  (plans || []).forEach((plan) => {
+    if (plan.agent_id && !latest.has(plan.agent_id)) latest.set(plan.agent_id, plan);
+  });
+  const names = new Map((agents || []).map((agent) => [agent.id, agent.name || 'Unknown Agent']));
+
+  return Promise.all(
+    [...latest.entries()]
+      .filter(([agentId]) => names.has(agentId))
+      .map(async ([agentId, targets]) => {
+        const { window, metrics } = await fetchPlanTracking(agentId, targets, asOf);
+        return { agentId, agentName: names.get(agentId) as string, window, metrics };
+      })
+  );
+};
@@ -0,0 +1,65 @@
+import { supabase } from '../lib/supabase';
+import { normalizeSuburb } from '../utils/gazetteer';
+import {
+  DatedSale,
+  ForecastOptions,
+  PredictionResult,
+  forecastSegment,
+  salesFromProperties,
+  toPredictionResult,
+} from '../utils/forecasting';
+import { toRepositoryError } from './repository';
+
+export interface SalesFilters {
+  propertyType?: string;
+  since?: string;
+}
+
+// Dated sales from both sources: our own sold properties (sold_date) and the
+// imported market history in property_history (sale_date, keyed by `city`,
+// which holds the suburb). Suburb filtering happens client-side through the
+// gazetteer because both tables store suburbs in mixed spellings.
+export const fetchDatedSales = async (filters: SalesFilters = {}): Promise<DatedSale[]> => {
+  let propertyQuery = supabase
+    .from('properties')
+    .select('suburb, property_type, sold_price, price, sold_date')
+    .not('sold_date', 'is', null);
+  let historyQuery = supabase.from('property_history').select('city, property_type, price, sale_date');
+
+  if (filters.propertyType) {
+    propertyQuery = propertyQuery.eq('property_type', filters.propertyType);
+    historyQuery = historyQuery.eq('property_type', filters.propertyType);
+  }
+  if (filters.since) {
+    propertyQuery = propertyQuery.gte('sold_date', filters.since);
+    historyQuery = historyQuery.gte('sale_date', filters.since);
+  }
+
+  const [properties, history] = await Promise.all([propertyQuery, historyQuery]);
+  if (properties.error) throw toRepositoryError('properties', 'fetch', properties.error);
+  if (history.error) throw toRepositoryError('property_history', 'fetch', history.error);
+
+  return [
+    ...salesFromProperties(properties.data || []),
+    ...(history.data || []).map((row) => ({
+      date: row.sale_date,
+      price: Number(row.price),
+      suburb: row.city,
+      property_type: row.property_type,
+    })),
+  ];
+};
+
+export const predictFromSales = (
+  sales: DatedSale[],
+  suburb: string,
+  propertyType?: string,
+  options?: ForecastOptions
+): PredictionResult => toPredictionResult(forecastSegment(sales, { suburb, propertyType }, normalizeSuburb, options));
+
+// Forecast for one suburb and property type. Callers scoring many properties
+// should fetchDatedSales once and use predictFromSales instead.
+export const analyzePriceTrend = async (suburb: string, propertyType?: string): Promise<PredictionResult> => {
+  const sales = await fetchDatedSales({ propertyType });
+  return predictFromSales(sales, suburb, propertyType);
+};
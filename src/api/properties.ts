@@ -1,13 +1,209 @@
 import { supabase } from '../lib/supabase';
-import { Property } from '../types/property';
+import { PastRecordInsert, PropertyInsert, PropertyRow, PropertyUpdate } from '../types/database';
+import { Page, PageOptions, SortOptions, pageRange, toPage, toRepositoryError } from './repository';
 
-export const fetchProperties = async (): Promise<Property[]> => {
-  const { data, error } = await supabase.from('properties').select('*');
-  if (error) throw error;
-  return data || [];
+const TABLE = 'properties';
+const PAST_RECORDS = 'past_records';
+const PAST_RECORD_COLUMNS =
+  'property_id, suburb, postcode, property_type, price, bedrooms, bathrooms, car_garage, sqm, landsize, listing_date, sale_date, status, notes';
+// Keeps `.in()` filters well inside URL length limits.
+const ID_BATCH_SIZE = 200;
+
+export const PROPERTY_COLUMNS = [
+  'id',
+  'agent_id',
+  'street_number',
+  'street_name',
+  'suburb',
+  'postcode',
+  'agent_name',
+  'agency_name',
+  'property_type',
+  'category',
+  'price',
+  'sold_price',
+  'expected_price',
+  'commission',
+  'sale_type',
+  'bedrooms',
+  'bathrooms',
+  'car_garage',
+  'sqm',
+  'landsize',
+  'listed_date',
+  'sold_date',
+  'flood_risk',
+  'bushfire_risk',
+  'contract_status',
+  'features',
+  'same_street_sales',
+  'past_records',
+  'latitude',
+  'longitude',
+  'geocode_status',
+  'geocoded_at',
+  'created_at',
+  'updated_at',
+].join(', ');
+
+export interface PropertyFilters {
+  ids?: string[];
+  agentId?: string;
+  userId?: string;
+  suburbs?: string[];
+  streetNames?: string[];
+  streetNumbers?: string[];
+  agents?: string[];
+  agencyNames?: string[];
+  propertyTypes?: string[];
+  categories?: string[];
+  soldOnly?: boolean;
+  soldFrom?: string;
+  soldTo?: string;
+  listedFrom?: string;
+  listedTo?: string;
+  bedrooms?: number;
+  bathrooms?: number;
+  carSpaces?: number;
+  minSqm?: number;
+  maxPrice?: number;
+  // Street name, suburb or property type containing the text.
+  search?: string;
+}
+
+export interface PropertyQueryOptions {
+  filters?: PropertyFilters;
+  sort?: SortOptions<PropertyRow>;
+}
+
+// Values go into a PostgREST `or` filter, where commas, brackets, quotes and
+// backslashes would end the value and start another condition, and `%` or
+// `*` in typed text would act as wildcards.
+const orFilterValue = (value: string) => value.replace(/[,()"\\%*]/g, ' ').trim();
+
+// Free-text values are matched case-insensitively because suburbs and street
+// names are stored with inconsistent casing ("Moggill QLD 4070", "MOGGILL").
+const ilikeAny = (column: string, values: string[]) =>
+  values.map((value) => `${column}.ilike.%${orFilterValue(value)}%`).join(',');
+
+// The same for whole values, e.g. "house" and "House".
+const ilikeExact = (column: string, values: string[]) =>
+  values.map((value) => `${column}.ilike.${orFilterValue(value)}`).join(',');
+
+const buildPropertyQuery = (options: PropertyQueryOptions = {}, count = false) => {
+  const { filters = {}, sort = { column: 'created_at', ascending: false } } = options;
+  let query = supabase.from(TABLE).select(PROPERTY_COLUMNS, count ? { count: 'exact' } : undefined);
+
+  if (filters.ids?.length) query = query.in('id', filters.ids);
+  if (filters.agentId) query = query.eq('agent_id', filters.agentId);
+  if (filters.userId) query = query.eq('user_id', filters.userId);
+  if (filters.suburbs?.length) query = query.or(ilikeAny('suburb', filters.suburbs));
+  if (filters.streetNames?.length) query = query.or(ilikeAny('street_name', filters.streetNames));
+  if (filters.streetNumbers?.length) query = query.in('street_number', filters.streetNumbers);
+  if (filters.agents?.length) query = query.in('agent_name', filters.agents);
+  if (filters.agencyNames?.length) query = query.in('agency_name', filters.agencyNames);
+  if (filters.propertyTypes?.length) query = query.or(ilikeExact('property_type', filters.propertyTypes));
+  if (filters.categories?.length) query = query.or(ilikeExact('category', filters.categories));
+  if (filters.soldOnly) query = query.not('sold_date', 'is', null);
+  if (filters.soldFrom) query = query.gte('sold_date', filters.soldFrom);
+  if (filters.soldTo) query = query.lte('sold_date', filters.soldTo);
+  if (filters.listedFrom) query = query.gte('listed_date', filters.listedFrom);
+  if (filters.listedTo) query = query.lte('listed_date', filters.listedTo);
+  if (filters.bedrooms) query = query.eq('bedrooms', filters.bedrooms);
+  if (filters.bathrooms) query = query.eq('bathrooms', filters.bathrooms);
+  if (filters.carSpaces) query = query.eq('car_garage', filters.carSpaces);
+  if (filters.minSqm) query = query.gte('sqm', filters.minSqm);
+  if (filters.maxPrice) query = query.lte('price', filters.maxPrice);
+  const search = filters.search?.trim();
+  if (search) query = query.or(['street_name', 'suburb', 'property_type'].map((column) => ilikeAny(column, [search])).join(','));
+
+  return query.order(sort.column, { ascending: sort.ascending ?? true, nullsFirst: false });
+};
+
+export const fetchProperties = async (options: PropertyQueryOptions = {}): Promise<PropertyRow[]> => {
+  const { data, error } = await buildPropertyQuery(options);
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  return (data as unknown as PropertyRow[]) || [];
+};
+
+export const fetchPropertyPage = async (
+  options: PropertyQueryOptions & PageOptions = {}
+): Promise<Page<PropertyRow>> => {
+  const { from, to } = pageRange(options);
+  const { data, error, count } = await buildPropertyQuery(options, true).range(from, to);
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  return toPage(data as unknown as PropertyRow[], count, options);
+};
+
+// Reads page by page, for callers that need more rows than one response carries.
+export const fetchAllProperties = async (options: PropertyQueryOptions = {}): Promise<PropertyRow[]> => {
+  const rows: PropertyRow[] = [];
+  for (let page = 1; ; page++) {
+    const result = await fetchPropertyPage({ ...options, page, pageSize: 1000 });
+    rows.push(...result.rows);
+    if (page >= result.pageCount) return rows;
+  }
 };
 
-export const createProperty = async (property: Property) => {
-  const { error } = await supabase.from('properties').insert([property]);
-  if (error) throw error;
-};
\ No newline at end of file
+export const fetchPropertyById = async (id: string): Promise<PropertyRow | null> => {
+  const { data, error } = await supabase.from(TABLE).select(PROPERTY_COLUMNS).eq('id', id).maybeSingle();
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  return (data as unknown as PropertyRow) || null;
+};
+
+// Every category in use, trimmed and de-duplicated, for filter pickers.
+export const fetchPropertyCategories = async (): Promise<string[]> => {
+  const { data, error } = await supabase.from(TABLE).select('category').not('category', 'is', null);
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  return [...new Set((data || []).map((row) => row.category?.trim()).filter((category): category is string => !!category))];
+};
+
+export const createProperty = async (property: PropertyInsert): Promise<PropertyRow> => {
+  const { data, error } = await supabase.from(TABLE).insert([property]).select(PROPERTY_COLUMNS).single();
+  if (error) throw toRepositoryError(TABLE, 'create', error);
+  return data as unknown as PropertyRow;
+};
+
+export const updateProperty = async (id: string, changes: PropertyUpdate): Promise<PropertyRow> => {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select(PROPERTY_COLUMNS)
+    .single();
+  if (error) throw toRepositoryError(TABLE, 'update', error);
+  return data as unknown as PropertyRow;
+};
+
+// Sets the commission rate on every listing of an agency.
+export const updateAgencyCommission = async (agencyName: string, commission: number): Promise<void> => {
+  const { error } = await supabase
+    .from(TABLE)
+    .update({ commission, updated_at: new Date().toISOString() })
+    .eq('agency_name', agencyName);
+  if (error) throw toRepositoryError(TABLE, 'update', error);
+};
+
+export const deleteProperty = async (id: string): Promise<void> => {
+  const { error } = await supabase.from(TABLE).delete().eq('id', id);
+  if (error) throw toRepositoryError(TABLE, 'delete', error);
+};
+
+export const fetchPastRecords = async (propertyIds: string[]): Promise<PastRecordInsert[]> => {
+  const records: PastRecordInsert[] = [];
+  for (let start = 0; start < propertyIds.length; start += ID_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from(PAST_RECORDS)
+      .select(PAST_RECORD_COLUMNS)
+      .in('property_id', propertyIds.slice(start, start + ID_BATCH_SIZE));
+    if (error) throw toRepositoryError(PAST_RECORDS, 'fetch', error);
+    records.push(...((data as unknown as PastRecordInsert[]) || []));
+  }
+  return records;
+};
+
+export const createPastRecords = async (records: PastRecordInsert[]): Promise<void> => {
+  if (!records.length) return;
+  const { error } = await supabase.from(PAST_RECORDS).insert(records);
+  if (error) throw toRepositoryError(PAST_RECORDS, 'create', error);
+};
@@ -0,0 +1,34 @@
+import { supabase } from '../lib/supabase';
+import { PropertyAuditRow, PropertyRow } from '../types/database';
+import { isRevertibleField } from '../utils/audit';
+import { updateProperty } from './properties';
+import { RepositoryError, toRepositoryError } from './repository';
+
+const TABLE = 'property_audit_log';
+
+export interface PropertyAuditEntry extends PropertyAuditRow {
+  changed_by_profile: { name: string | null; email: string | null } | null;
+}
+
+export const fetchPropertyHistory = async (propertyId: string): Promise<PropertyAuditEntry[]> => {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select('*, changed_by_profile:profiles(name, email)')
+    .eq('property_id', propertyId)
+    .order('created_at', { ascending: false });
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  return data || [];
+};
+
+// Writes an earlier value back. The revert is itself an update, so it lands in
+// the log like any other edit.
+export const revertPropertyField = async (
+  propertyId: string,
+  field: string,
+  value: unknown
+): Promise<PropertyRow> => {
+  if (!isRevertibleField(field)) {
+    throw new RepositoryError('properties', 'update', { message: `${field} cannot be reverted` });
+  }
+  return updateProperty(propertyId, { [field]: value ?? null });
+};
@@ -0,0 +1,93 @@
+// Shared plumbing for the table repositories in src/api: error normalisation,
+// pagination and the result shape every list call returns.
+
+export type RepositoryOperation = 'fetch' | 'create' | 'update' | 'delete';
+
+interface PostgrestLikeError {
+  message: string;
+  code?: string;
+  details?: string | null;
+  hint?: string | null;
+}
+
+export class RepositoryError extends Error {
+  table: string;
+  operation: RepositoryOperation;
+  code: string | null;
+  details: string | null;
+
+  constructor(table: string, operation: RepositoryOperation, error: PostgrestLikeError) {
+    super(`Failed to ${operation} ${table.replace(/_/g, ' ')}: ${describeError(error)}`);
+    this.name = 'RepositoryError';
+    this.table = table;
+    this.operation = operation;
+    this.code = error.code || null;
+    this.details = error.details || null;
+  }
+
+  get isNotFound() {
+    return this.code === 'PGRST116';
+  }
+
+  get isPermissionDenied() {
+    return this.code === '42501' || /row-level security/i.test(this.message);
+  }
+}
+
+const describeError = (error: PostgrestLikeError): string => {
+  if (error.code === '42501' || /row-level security/i.test(error.message)) {
+    return 'You do not have permission to perform this action. Please contact your administrator.';
+  }
+  if (error.code === 'PGRST116') return 'Record not found';
+  return error.message;
+};
+
+export const toRepositoryError = (
+  table: string,
+  operation: RepositoryOperation,
+  error: unknown
+): RepositoryError => {
+  if (error instanceof RepositoryError) return error;
+  if (error && typeof error === 'object' && 'message' in error) {
+    return new RepositoryError(table, operation, error as PostgrestLikeError);
+  }
+  return new RepositoryError(table, operation, { message: String(error) });
+};
+
+export interface PageOptions {
+  page?: number; // 1-based
+  pageSize?: number;
+}
+
+export interface SortOptions<T> {
+  column: keyof T & string;
+  ascending?: boolean;
+}
+
+export interface Page<T> {
+  rows: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+export const pageRange = ({ page = 1, pageSize = DEFAULT_PAGE_SIZE }: PageOptions) => {
+  const safePage = Math.max(1, Math.floor(page));
+  const from = (safePage - 1) * pageSize;
+  return { page: safePage, pageSize, from, to: from + pageSize - 1 };
+};
+
+export const toPage = <T>(rows: T[] | null, count: number | null, options: PageOptions): Page<T> => {
+  const { page, pageSize } = pageRange(options);
+  const total = count ?? rows?.length ?? 0;
+  return {
+    rows: rows || [],
+    total,
+    page,
+    pageSize,
+    pageCount: Math.max(1, Math.ceil(total / pageSize)),
+  };
+};
@@ -0,0 +1,18 @@
+import { supabase } from '../lib/supabase';
+
+// Calls the Express API (src/server.ts) with the signed-in user's access token
+// and surfaces its `{ error, code }` failure body as the thrown message.
+export const callServerApi = async <T>(path: string, init: { method?: string; body?: unknown } = {}): Promise<T> => {
+  const { data } = await supabase.auth.getSession();
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (data.session?.access_token) headers.Authorization = `Bearer ${data.session.access_token}`;
+
+  const response = await fetch(`/api${path}`, {
+    method: init.method || (init.body === undefined ? 'GET' : 'POST'),
+    headers,
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) throw new Error(payload?.error || `Request to ${path} failed (${response.status})`);
+  return payload as T;
+};
@@ -0,0 +1,96 @@
+import { supabase } from '../lib/supabase';
+import { ShareLinkAccessRow, ShareLinkRow, ShareResourceType } from '../types/database';
+import { createOtp, createShareToken, hashShareSecret, shareLinkUrl } from '../utils/shareLinks';
+import { toRepositoryError } from './repository';
+
+const TABLE = 'share_links';
+const LOG_TABLE = 'share_link_access_log';
+
+export interface ShareLinkInput {
+  resourceType: ShareResourceType;
+  resourceId: string;
+  label?: string;
+  expiresInDays: number;
+  requireOtp: boolean;
+}
+
+// The token and code exist only in this result; the table keeps their hashes,
+// so they cannot be shown again later.
+export interface CreatedShareLink {
+  link: ShareLinkRow;
+  url: string;
+  otp: string | null;
+}
+
+export type ShareLinkResolution =
+  | { status: 'not_found' }
+  | { status: 'revoked' | 'expired' | 'otp_required' | 'otp_invalid' | 'locked'; label: string | null }
+  | {
+      status: 'ok';
+      resource_type: ShareResourceType;
+      label: string | null;
+      expires_at: string;
+      resource: Record<string, unknown>;
+    };
+
+export const createShareLink = async (input: ShareLinkInput): Promise<CreatedShareLink> => {
+  const token = createShareToken();
+  const otp = input.requireOtp ? createOtp() : null;
+  const { data: auth } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from(TABLE)
+    .insert({
+      token_hash: await hashShareSecret(token),
+      otp_hash: otp ? await hashShareSecret(token, otp) : null,
+      resource_type: input.resourceType,
+      resource_id: input.resourceId,
+      label: input.label?.trim() || null,
+      created_by: auth.user?.id,
+      expires_at: new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+    })
+    .select()
+    .single();
+  if (error) throw toRepositoryError(TABLE, 'create', error);
+  return { link: data, url: shareLinkUrl(token), otp };
+};
+
+export const fetchShareLinks = async (resourceType: ShareResourceType, resourceId: string): Promise<ShareLinkRow[]> => {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select('*')
+    .eq('resource_type', resourceType)
+    .eq('resource_id', resourceId)
+    .order('created_at', { ascending: false });
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  return data || [];
+};
+
+export const revokeShareLink = async (id: string): Promise<ShareLinkRow> => {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+  if (error) throw toRepositoryError(TABLE, 'update', error);
+  return data;
+};
+
+export const fetchShareLinkAccessLog = async (shareLinkId: string): Promise<ShareLinkAccessRow[]> => {
+  const { data, error } = await supabase
+    .from(LOG_TABLE)
+    .select('*')
+    .eq('share_link_id', shareLinkId)
+    .order('accessed_at', { ascending: false })
+    .limit(100);
+  if (error) throw toRepositoryError(LOG_TABLE, 'fetch', error);
+  return data || [];
+};
+
+// Public: runs as the anonymous visitor of /share/:token.
+export const resolveShareLink = async (token: string, otp?: string): Promise<ShareLinkResolution> => {
+  const { data, error } = await supabase.rpc('resolve_share_link', { p_token: token, p_otp: otp || null });
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  return data as ShareLinkResolution;
+};
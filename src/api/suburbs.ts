@@ -0,0 +1,52 @@
+import { supabase } from '../lib/supabase';
+import { SuburbInsert, SuburbRow } from '../types/database';
+import { SuburbEntry, resetSuburbs } from '../utils/gazetteer';
+import { toRepositoryError } from './repository';
+
+const TABLE = 'suburbs';
+
+export const toSuburbEntry = (row: SuburbRow): SuburbEntry => ({
+  id: row.id,
+  name: row.name,
+  state: row.state,
+  postcode: row.postcode,
+  aliases: row.aliases || [],
+  centroid: { lat: row.latitude, lng: row.longitude },
+});
+
+export const fetchSuburbs = async (): Promise<SuburbRow[]> => {
+  const { data, error } = await supabase.from(TABLE).select('*').order('name', { ascending: true });
+  if (error) throw toRepositoryError(TABLE, 'fetch', error);
+  return data || [];
+};
+
+export const createSuburb = async (suburb: SuburbInsert): Promise<SuburbRow> => {
+  const { data, error } = await supabase.from(TABLE).insert([suburb]).select().single();
+  if (error) throw toRepositoryError(TABLE, 'create', error);
+  return data;
+};
+
+export const updateSuburb = async (id: string, changes: Partial<SuburbInsert>): Promise<SuburbRow> => {
+  const { data, error } = await supabase.from(TABLE).update(changes).eq('id', id).select().single();
+  if (error) throw toRepositoryError(TABLE, 'update', error);
+  return data;
+};
+
+export const deleteSuburb = async (id: string): Promise<void> => {
+  const { error } = await supabase.from(TABLE).delete().eq('id', id);
+  if (error) throw toRepositoryError(TABLE, 'delete', error);
+};
+
+// Loads admin-maintained suburbs on top of the seeded gazetteer. Failures keep
+// the seed list so reports still group correctly when offline.
+export const loadGazetteer = async (): Promise<SuburbEntry[]> => {
+  try {
+    const rows = await fetchSuburbs();
+    const entries = rows.map(toSuburbEntry);
+    resetSuburbs(entries);
+    return entries;
+  } catch (error) {
+    console.error('Failed to load suburb gazetteer:', error);
+    return [];
+  }
+};
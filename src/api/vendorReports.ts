@@ -0,0 +1,96 @@
+import { supabase } from '../lib/supabase';
+import {
+  ListingCampaignActivityInsert,
+  ListingCampaignActivityRow,
+  ListingInspectionInsert,
+  ListingInspectionRow,
+  ListingPriceFeedbackInsert,
+  ListingPriceFeedbackRow,
+  VendorReportScheduleRow,
+  VendorReportScheduleUpsert,
+} from '../types/database';
+import { VendorReportData } from '../utils/vendorReport';
+import { toRepositoryError } from './repository';
+
+const INSPECTIONS_TABLE = 'listing_inspections';
+const FEEDBACK_TABLE = 'listing_price_feedback';
+const CAMPAIGN_TABLE = 'listing_campaign_activities';
+const SCHEDULE_TABLE = 'vendor_report_schedules';
+
+// The report as the vendor sees it, with "this week" counted from `since`
+// (default: seven days ago). Null when the listing does not exist or is not
+// visible to the caller.
+export const fetchVendorReport = async (propertyId: string, since?: string): Promise<VendorReportData | null> => {
+  const { data, error } = await supabase.rpc('vendor_report', {
+    p_property_id: propertyId,
+    ...(since ? { p_since: since } : {}),
+  });
+  if (error) throw toRepositoryError('vendor_report', 'fetch', error);
+  return (data as VendorReportData) || null;
+};
+
+export const createInspection = async (input: ListingInspectionInsert): Promise<ListingInspectionRow> => {
+  const { data, error } = await supabase.from(INSPECTIONS_TABLE).insert(input).select().single();
+  if (error) throw toRepositoryError(INSPECTIONS_TABLE, 'create', error);
+  return data;
+};
+
+export const deleteInspection = async (id: string): Promise<void> => {
+  const { error } = await supabase.from(INSPECTIONS_TABLE).delete().eq('id', id);
+  if (error) throw toRepositoryError(INSPECTIONS_TABLE, 'delete', error);
+};
+
+export const createPriceFeedback = async (input: ListingPriceFeedbackInsert): Promise<ListingPriceFeedbackRow> => {
+  const { data, error } = await supabase.from(FEEDBACK_TABLE).insert(input).select().single();
+  if (error) throw toRepositoryError(FEEDBACK_TABLE, 'create', error);
+  return data;
+};
+
+export const deletePriceFeedback = async (id: string): Promise<void> => {
+  const { error } = await supabase.from(FEEDBACK_TABLE).delete().eq('id', id);
+  if (error) throw toRepositoryError(FEEDBACK_TABLE, 'delete', error);
+};
+
+export const createCampaignActivity = async (
+  input: ListingCampaignActivityInsert
+): Promise<ListingCampaignActivityRow> => {
+  const { data, error } = await supabase.from(CAMPAIGN_TABLE).insert(input).select().single();
+  if (error) throw toRepositoryError(CAMPAIGN_TABLE, 'create', error);
+  return data;
+};
+
+export const deleteCampaignActivity = async (id: string): Promise<void> => {
+  const { error } = await supabase.from(CAMPAIGN_TABLE).delete().eq('id', id);
+  if (error) throw toRepositoryError(CAMPAIGN_TABLE, 'delete', error);
+};
+
+// Weekly reports are emailed by the Express scheduler
+// (src/server-scheduler.ts); the client only sets who gets them and when.
+export const fetchVendorReportSchedule = async (propertyId: string): Promise<VendorReportScheduleRow | null> => {
+  const { data, error } = await supabase.from(SCHEDULE_TABLE).select('*').eq('property_id', propertyId).maybeSingle();
+  if (error) throw toRepositoryError(SCHEDULE_TABLE, 'fetch', error);
+  return data;
+};
+
+export const saveVendorReportSchedule = async (input: VendorReportScheduleUpsert): Promise<VendorReportScheduleRow> => {
+  const { data, error } = await supabase
+    .from(SCHEDULE_TABLE)
+    .upsert(
+      {
+        ...input,
+        recipient_name: input.recipient_name.trim(),
+        recipient_email: input.recipient_email.trim(),
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'property_id' }
+    )
+    .select()
+    .single();
+  if (error) throw toRepositoryError(SCHEDULE_TABLE, 'update', error);
+  return data;
+};
+
+export const deleteVendorReportSchedule = async (propertyId: string): Promise<void> => {
+  const { error } = await supabase.from(SCHEDULE_TABLE).delete().eq('property_id', propertyId);
+  if (error) throw toRepositoryError(SCHEDULE_TABLE, 'delete', error);
+};
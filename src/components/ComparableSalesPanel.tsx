@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import moment from 'moment';
+import { Loader2 } from 'lucide-react';
+import { fetchComparativeAnalysis } from '../api/cma';
+import { CmaProperty, CmaResult, cmaAddress } from '../utils/cma';
+import { formatCurrency } from '../utils/formatters';
+
+interface ComparableSalesPanelProps {
+  subject: CmaProperty;
+}
+
+const CONFIDENCE_STYLES: Record<CmaResult['confidence'], string> = {
+  high: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-red-100 text-red-800',
+};
+
+export function ComparableSalesPanel({ subject }: ComparableSalesPanelProps) {
+  const [result, setResult] = useState<CmaResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+    setError(null);
+    fetchComparativeAnalysis(subject)
+      .then((cma) => active && setResult(cma))
+      .catch((err) => {
+        console.error('Comparable sales analysis failed:', err);
+        if (active) setError(err instanceof Error ? err.message : 'Failed to run comparable sales analysis');
+      })
+      .finally(() => active && setLoading(false));
+    return () => {
+      active = false;
+    };
+  }, [subject]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-gray-600 py-4">
+        <Loader2 className="w-5 h-5 mr-2 animate-spin" /> Finding comparable sales...
+      </div>
+    );
+  }
+  if (error) return <p className="text-red-600 py-4">{error}</p>;
+  if (!result) {
+    return (
+      <p className="text-gray-500 py-4">
+        No comparable {subject.property_type?.toLowerCase() || 'property'} sales nearby in the last two years.
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <div>
+          <p className="text-sm text-gray-500">Estimated value</p>
+          <p className="text-2xl font-bold text-gray-900">{formatCurrency(result.estimate)}</p>
+          <p className="text-sm text-gray-600">
+            Range {formatCurrency(result.low)} – {formatCurrency(result.high)}
+          </p>
+        </div>
+        <span className={`px-3 py-1 rounded-full text-sm font-semibold ${CONFIDENCE_STYLES[result.confidence]}`}>
+          {result.confidence} confidence
+        </span>
+        <p className="text-sm text-gray-500">
+          {result.comparables.length} of {result.candidatesConsidered} candidate sales used · market{' '}
+          {result.marketTrendPercent >= 0 ? '+' : ''}
+          {result.marketTrendPercent.toFixed(1)}% p.a.
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 text-gray-700">
+              <th className="py-2 px-3">Address</th>
+              <th className="py-2 px-3">Sold</th>
+              <th className="py-2 px-3">Bed/Bath/Car</th>
+              <th className="py-2 px-3">Land</th>
+              <th className="py-2 px-3">Distance</th>
+              <th className="py-2 px-3">Sale Price</th>
+              <th className="py-2 px-3">Adjustments</th>
+              <th className="py-2 px-3">Adjusted</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.comparables.map((comp) => (
+              <tr key={comp.property.id} className="border-b border-gray-100 align-top">
+                <td className="py-2 px-3">{cmaAddress(comp.property)}</td>
+                <td className="py-2 px-3">{moment(comp.property.sold_date).format('DD/MM/YYYY')}</td>
+                <td className="py-2 px-3">
+                  {comp.property.bedrooms ?? '-'}/{comp.property.bathrooms ?? '-'}/{comp.property.car_garage ?? '-'}
+                </td>
+                <td className="py-2 px-3">{comp.property.landsize ? `${comp.property.landsize} sqm` : 'N/A'}</td>
+                <td className="py-2 px-3">{comp.distanceKm != null ? `${comp.distanceKm.toFixed(1)} km` : 'Same suburb'}</td>
+                <td className="py-2 px-3">{formatCurrency(comp.salePrice)}</td>
+                <td className="py-2 px-3">
+                  {comp.adjustments.length
+                    ? comp.adjustments.map((adj) => (
+                        <div key={adj.label} className={adj.amount >= 0 ? 'text-green-700' : 'text-red-700'}>
+                          {adj.label}: {adj.amount >= 0 ? '+' : ''}
+                          {formatCurrency(adj.amount)}
+                        </div>
+                      ))
+                    : 'None'}
+                </td>
+                <td className="py-2 px-3 font-semibold">{formatCurrency(comp.adjustedPrice)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,46 +1,31 @@
 
 import React, { useState, useCallback, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
+import { provisionAgent } from '../api/agents';
 import toast, { Toaster } from 'react-hot-toast';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useAuthStore } from '../store/authStore';
+import { usePermissions } from '../store/authStore';
 import { Copy, Download, Share2, Loader2 } from 'lucide-react';
 import { AgentDetails } from '../types/types';
+import type { ProvisionedAgent } from '../../supabase/functions/_shared/agent-provisioning.ts';
 
 interface CreateAgentModalProps {
   isOpen: boolean;
   onClose: () => void;
-  fetchAgents: () => Promise<any>;
+  fetchAgents: () => Promise<unknown>;
   fetchProperties: () => Promise<void>;
 }
 
-const generatePassword = () => {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$%^&*';
-  let password = '';
-  for (let i = 0; i < 12; i++) {
-    password += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return password;
-};
-
 export function CreateAgentModal({ isOpen, onClose, fetchAgents, fetchProperties }: CreateAgentModalProps) {
-  const { profile } = useAuthStore();
-  const [agentDetails, setAgentDetails] = useState<AgentDetails>({
-    email: '',
-    name: '',
-    phone: '',
-    password: '',
-    confirmPassword: '',
-  });
+  const { can } = usePermissions();
+  const [agentDetails, setAgentDetails] = useState<AgentDetails>({ email: '', name: '', phone: '' });
   const [error, setError] = useState<string | null>(null);
-  const [success, setSuccess] = useState<{ id: string; email: string; name: string; phone: string; password: string } | null>(null);
+  const [success, setSuccess] = useState<ProvisionedAgent | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
   // Reset form when modal opens
   useEffect(() => {
     if (isOpen) {
-      console.log('Modal opened, resetting agentDetails');
-      setAgentDetails({ email: '', name: '', phone: '', password: '', confirmPassword: '' });
+      setAgentDetails({ email: '', name: '', phone: '' });
       setError(null);
       setSuccess(null);
       setIsLoading(false);
@@ -63,144 +48,21 @@ export function CreateAgentModal({ isOpen, onClose, fetchAgents, fetchProperties
       if (!agentDetails.phone || !/^\+?[1-9]\d{1,14}$/.test(agentDetails.phone)) {
         throw new Error('Please enter a valid phone number (e.g., +1234567890)');
       }
-      if (!agentDetails.password || agentDetails.password.length < 6) {
-        throw new Error('Password must be at least 6 characters long');
-      }
-      if (agentDetails.password !== agentDetails.confirmPassword) {
-        throw new Error('Passwords do not match');
-      }
-
-      // Check admin authorization
-      if (!profile || profile.role !== 'admin') {
-        throw new Error('Only admins can create new agent accounts');
-      }
-
-      console.log('Attempting to create agent with:', {
-        email: agentDetails.email,
-        name: agentDetails.name,
-        phone: agentDetails.phone,
-        timestamp: new Date().toISOString(),
-      });
-
-      // Attempt signUp or admin.createUser
-      let authData;
-      let authError;
-      try {
-        console.log('Before signUp:', { email: agentDetails.email, timestamp: new Date().toISOString() });
-        const { data, error } = await supabase.auth.signUp({
-          email: agentDetails.email,
-          password: agentDetails.password,
-          options: {
-            emailRedirectTo: undefined,
-            data: {
-              name: agentDetails.name,
-              phone: agentDetails.phone,
-              role: 'agent',
-            },
-          },
-        });
-        authData = data;
-        authError = error;
-      } catch (signUpError) {
-        console.log('signUp failed, attempting admin.createUser:', { error: signUpError, timestamp: new Date().toISOString() });
-        const { data, error } = await supabase.auth.admin.createUser({
-          email: agentDetails.email,
-          password: agentDetails.password,
-          email_confirm: true,
-          user_metadata: {
-            name: agentDetails.name,
-            phone: agentDetails.phone,
-            role: 'agent',
-          },
-        });
-        authData = data;
-        authError = error;
-      }
-
-      if (authError || !authData.user) {
-        console.error('Supabase auth error:', {
-          message: authError?.message,
-          code: authError?.code,
-          details: authError,
-          email: agentDetails.email,
-          timestamp: new Date().toISOString(),
-        });
-        const errorMessage =
-          authError?.code === 'user_already_exists'
-            ? 'This email is already registered. Please use a different email.'
-            : authError?.code === '42501'
-            ? 'Permission denied. Check database RLS policies or triggers.'
-            : `Authentication error: ${authError?.message || 'No user returned'} (Code: ${authError?.code || 'N/A'})`;
-        throw new Error(errorMessage);
-      }
-
-      console.log('User created in auth.users:', {
-        userId: authData.user.id,
-        email: authData.user.email,
-        timestamp: new Date().toISOString(),
-      });
-
-      // Insert into profiles
-      console.log('Before profiles insert:', { userId: authData.user.id, timestamp: new Date().toISOString() });
-      const permissions = {
-        canRegisterProperties: true,
-        canEditProperties: true,
-        canDeleteProperties: false,
-      };
-      const { error: profileError } = await supabase
-        .from('profiles')
-        .upsert(
-          {
-            id: authData.user.id,
-            email: agentDetails.email,
-            name: agentDetails.name,
-            phone: agentDetails.phone,
-            role: 'agent',
-            permissions,
-          },
-          { onConflict: 'id' }
-        );
-      console.log('After profiles insert:', { profileError, timestamp: new Date().toISOString() });
-
-      if (profileError) {
-        console.error('Profile insert error:', {
-          message: profileError.message,
-          code: profileError.code,
-          details: profileError,
-          userId: authData.user.id,
-          timestamp: new Date().toISOString(),
-        });
-        throw new Error(`Failed to create profile record: ${profileError.message}`);
+      if (!can('users.manage')) {
+        throw new Error('Only user managers can create new agent accounts');
       }
 
-      console.log('Profile successfully inserted for user:', authData.user.id);
-
-      setSuccess({
-        id: authData.user.id,
-        email: agentDetails.email,
-        name: agentDetails.name,
-        phone: agentDetails.phone,
-        password: agentDetails.password,
+      const agent = await provisionAgent(agentDetails);
+      setSuccess(agent);
+      toast.success(`Agent created: ${agent.email}. Share the invite link so they can set a password.`, {
+        duration: 8000,
+        style: { background: '#BFDBFE', color: '#1E3A8A', borderRadius: '8px', maxWidth: '500px' },
       });
 
-      toast.success(
-        `Agent created: ${agentDetails.email} (ID: ${authData.user.id})\nPassword: ${agentDetails.password}\nPlease share this securely.`,
-        {
-          duration: 15000,
-          style: { background: '#BFDBFE', color: '#1E3A8A', borderRadius: '8px', maxWidth: '500px' },
-        }
-      );
-
       await Promise.all([fetchAgents(), fetchProperties()]);
-    } catch (err: any) {
-      const errorMessage = err.message || 'An unexpected error occurred';
-      console.error('Agent creation failed:', {
-        message: errorMessage,
-        code: err.code,
-        details: err,
-        stack: err.stack,
-        timestamp: new Date().toISOString(),
-      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
+      console.error('Agent creation failed:', err);
       setError(errorMessage);
       toast.error(`Failed to create agent: ${errorMessage}`, {
         style: { background: '#FECACA', color: '#991B1B', borderRadius: '8px' },
@@ -208,7 +70,7 @@ export function CreateAgentModal({ isOpen, onClose, fetchAgents, fetchProperties
     } finally {
       setIsLoading(false);
     }
-  }, [agentDetails, profile, fetchAgents, fetchProperties]);
+  }, [agentDetails, can, fetchAgents, fetchProperties]);
 
   const copyToClipboard = (text: string, label: string) => {
     navigator.clipboard.writeText(text);
@@ -222,7 +84,7 @@ export function CreateAgentModal({ isOpen, onClose, fetchAgents, fetchProperties
 
     const shareData = {
       title: 'New Agent Details',
-      text: `Agent Details:\nID: ${success.id}\nName: ${success.name}\nEmail: ${success.email}\nPhone: ${success.phone}\nPassword: ${success.password}`,
+      text: `Agent Details:\nID: ${success.agent_id}\nName: ${success.name}\nEmail: ${success.email}\nPhone: ${success.phone}\nSet your password: ${success.invite_link}`,
     };
 
     try {
@@ -234,7 +96,7 @@ export function CreateAgentModal({ isOpen, onClose, fetchAgents, fetchProperties
       } else {
         copyToClipboard(shareData.text, 'Agent Details');
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error('Share failed:', err);
       toast.error('Failed to share details. Copied to clipboard instead.', {
         style: { background: '#FECACA', color: '#991B1B', borderRadius: '8px' },
@@ -247,11 +109,11 @@ export function CreateAgentModal({ isOpen, onClose, fetchAgents, fetchProperties
     if (!success) return;
     const details = `
       Agent Details:
-      ID: ${success.id}
+      ID: ${success.agent_id}
       Name: ${success.name}
       Email: ${success.email}
       Phone: ${success.phone}
-      Password: ${success.password}
+      Set your password: ${success.invite_link}
     `;
     const blob = new Blob([details], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
@@ -267,7 +129,7 @@ export function CreateAgentModal({ isOpen, onClose, fetchAgents, fetchProperties
 
   const handleClose = () => {
     console.log('handleClose called, resetting agentDetails and closing modal');
-    setAgentDetails({ email: '', name: '', phone: '', password: '', confirmPassword: '' });
+    setAgentDetails({ email: '', name: '', phone: '' });
     setSuccess(null);
     setError(null);
     setIsLoading(false);
@@ -305,9 +167,9 @@ export function CreateAgentModal({ isOpen, onClose, fetchAgents, fetchProperties
               <div className="text-left space-y-2 bg-blue-50 p-4 rounded-md">
                 <p className="text-blue-900">
                   Agent ID:{' '}
-                  <span className="font-mono font-semibold">{success.id}</span>
+                  <span className="font-mono font-semibold">{success.agent_id}</span>
                   <button
-                    onClick={() => copyToClipboard(success.id, 'Agent ID')}
+                    onClick={() => copyToClipboard(success.agent_id, 'Agent ID')}
                     className="ml-2 text-blue-600 hover:text-blue-800 focus:outline-none"
                     aria-label="Copy Agent ID"
                   >
@@ -340,24 +202,27 @@ export function CreateAgentModal({ isOpen, onClose, fetchAgents, fetchProperties
                   Phone:{' '}
                   <span className="font-mono font-semibold">{success.phone}</span>
                   <button
-                    onClick={() => copyToClipboard(success.phone, 'Phone')}
+                    onClick={() => copyToClipboard(success.phone || '', 'Phone')}
                     className="ml-2 text-blue-600 hover:text-blue-800 focus:outline-none"
                     aria-label="Copy Phone"
                   >
                     <Copy className="w-4 h-4 inline" />
                   </button>
                 </p>
-                <p className="text-blue-900">
-                  Password:{' '}
-                  <span className="font-mono font-semibold">{success.password}</span>
+                <p className="text-blue-900 break-all">
+                  Invite link:{' '}
+                  <span className="font-mono text-xs">{success.invite_link}</span>
                   <button
-                    onClick={() => copyToClipboard(success.password, 'Password')}
+                    onClick={() => copyToClipboard(success.invite_link, 'Invite link')}
                     className="ml-2 text-blue-600 hover:text-blue-800 focus:outline-none"
-                    aria-label="Copy Password"
+                    aria-label="Copy Invite Link"
                   >
                     <Copy className="w-4 h-4 inline" />
                   </button>
                 </p>
+                <p className="text-xs text-blue-700">
+                  The agent opens this link to choose their own password. No password is stored or shown here.
+                </p>
               </div>
               <div className="flex justify-between gap-2 flex-wrap">
                 <button
@@ -450,51 +315,6 @@ export function CreateAgentModal({ isOpen, onClose, fetchAgents, fetchProperties
                   autoComplete="off"
                 />
               </div>
-              <div className="mb-4">
-                <label htmlFor="agent-password" className="block text-sm font-medium text-blue-900 mb-1">
-                  Password
-                </label>
-                <div className="flex items-center space-x-2">
-                  <input
-                    id="agent-password"
-                    type="text"
-                    value={agentDetails.password}
-                    onChange={(e) => setAgentDetails({ ...agentDetails, password: e.target.value })}
-                    className="w-full p-3 border border-blue-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-600 bg-blue-50"
-                    placeholder="Minimum 6 characters"
-                    disabled={isLoading}
-                    aria-required="true"
-                    aria-invalid={!!error}
-                    autoComplete="new-password"
-                  />
-                  <button
-                    type="button"
-                    onClick={() => setAgentDetails({ ...agentDetails, password: generatePassword(), confirmPassword: '' })}
-                    className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
-                    disabled={isLoading}
-                    aria-label="Generate Password"
-                  >
-                    Generate
-                  </button>
-                </div>
-              </div>
-              <div className="mb-4">
-                <label htmlFor="agent-confirm-password" className="block text-sm font-medium text-blue-900 mb-1">
-                  Confirm Password
-                </label>
-                <input
-                  id="agent-confirm-password"
-                  type="password"
-                  value={agentDetails.confirmPassword}
-                  onChange={(e) => setAgentDetails({ ...agentDetails, confirmPassword: e.target.value })}
-                  className="w-full p-3 border border-blue-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-600 bg-blue-50"
-                  placeholder="Confirm your password"
-                  disabled={isLoading}
-                  aria-required="true"
-                  aria-invalid={!!error}
-                  autoComplete="new-password"
-                />
-              </div>
               {error && (
                 <motion.p
                   initial={{ opacity: 0, y: -10 }}
@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowDown, ArrowUp, Download, RotateCcw, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import {
+  ColumnChoice,
+  defaultColumnChoice,
+  downloadExport,
+  EXPORT_FORMATS,
+  ExportFormat,
+  ExportSpec,
+  loadColumnChoice,
+  saveColumnChoice,
+} from '../utils/exporter';
+
+interface ExportDialogProps {
+  // Built from what the page is showing, so the export follows its filters.
+  spec: ExportSpec;
+  onClose: () => void;
+}
+
+// Format, table and column picker for `downloadExport`. The column choice is
+// remembered per export.
+export function ExportDialog({ spec, onClose }: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [choice, setChoice] = useState<ColumnChoice>(() => loadColumnChoice(spec));
+  const [tableName, setTableName] = useState(spec.tables[0]?.name || '');
+
+  const table = spec.tables.find((t) => t.name === tableName) || spec.tables[0];
+  const chosen = (table && choice[table.name]) || [];
+  const columns = table
+    ? [
+        ...chosen.flatMap((key) => table.columns.filter((column) => column.key === key)),
+        ...table.columns.filter((column) => !chosen.includes(column.key)),
+      ]
+    : [];
+
+  const setChosen = (keys: string[]) => table && setChoice((current) => ({ ...current, [table.name]: keys }));
+
+  const toggleColumn = (key: string) =>
+    setChosen(chosen.includes(key) ? chosen.filter((k) => k !== key) : [...chosen, key]);
+
+  const moveColumn = (key: string, offset: number) => {
+    const index = chosen.indexOf(key);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= chosen.length) return;
+    const next = [...chosen];
+    [next[index], next[target]] = [next[target], next[index]];
+    setChosen(next);
+  };
+
+  // CSV only writes the table being looked at; the others need columns too.
+  const missingColumns = (format === 'csv' ? [table] : spec.tables).filter((t) => t && !choice[t.name]?.length);
+
+  const handleExport = () => {
+    if (missingColumns.length) {
+      toast.error(`Choose at least one column for ${missingColumns.map((t) => t.name).join(', ')}`);
+      return;
+    }
+    try {
+      saveColumnChoice(spec, choice);
+      downloadExport(spec, format, choice, table?.name);
+      toast.success('Export downloaded');
+      onClose();
+    } catch (err) {
+      console.error('Export error:', err);
+      toast.error('Failed to export');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-blue-100 rounded-lg shadow-xl p-8 w-full max-w-2xl border border-blue-300 max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-blue-900 flex items-center">
+            <Download className="w-6 h-6 mr-2" /> Export {spec.title}
+          </h2>
+          <button onClick={onClose} className="text-blue-900 hover:text-blue-700" aria-label="Close">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            {EXPORT_FORMATS.map((option) => (
+              <button
+                key={option.format}
+                onClick={() => setFormat(option.format)}
+                className={`px-4 py-2 rounded-md border ${
+                  format === option.format
+                    ? 'bg-blue-600 text-white border-blue-600'
+                    : 'bg-white text-blue-900 border-blue-200 hover:bg-blue-50'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-sm text-gray-700">
+            {format === 'xlsx' && 'A summary sheet, then one sheet per table.'}
+            {format === 'csv' &&
+              (spec.tables.length > 1 ? `Only the ${table?.name} table; CSV holds one table.` : 'One row per record.')}
+            {format === 'json' && 'Every table, with rows keyed by column.'}
+          </p>
+
+          <div className="bg-white p-4 rounded-lg border border-blue-200 text-sm">
+            <h3 className="font-semibold text-blue-900 mb-1">Filters</h3>
+            {spec.filters?.length ? (
+              <ul className="text-gray-700">
+                {spec.filters.map((fact) => (
+                  <li key={fact.label}>
+                    {fact.label}: {String(fact.value ?? '')}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-500">None — every row is included.</p>
+            )}
+          </div>
+
+          {spec.tables.length > 1 && (
+            <div className="flex flex-wrap gap-2">
+              {spec.tables.map((t) => (
+                <button
+                  key={t.name}
+                  onClick={() => setTableName(t.name)}
+                  className={`px-3 py-1 rounded-full text-sm ${
+                    t.name === table?.name ? 'bg-blue-600 text-white' : 'bg-white text-blue-900 border border-blue-200'
+                  }`}
+                >
+                  {t.name} ({t.rows.length})
+                </button>
+              ))}
+            </div>
+          )}
+
+          {table && (
+            <div className="bg-white p-4 rounded-lg border border-blue-200">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="font-semibold text-blue-900">
+                  Columns for {table.name} ({table.rows.length} rows)
+                </h3>
+                <div className="flex gap-3 text-sm">
+                  <button onClick={() => setChosen(table.columns.map((c) => c.key))} className="text-blue-700 hover:underline">
+                    All
+                  </button>
+                  <button
+                    onClick={() => setChosen(defaultColumnChoice(spec)[table.name])}
+                    className="flex items-center text-blue-700 hover:underline"
+                  >
+                    <RotateCcw className="w-3 h-3 mr-1" /> Reset
+                  </button>
+                </div>
+              </div>
+              <ul className="divide-y divide-blue-50">
+                {columns.map((column) => {
+                  const index = chosen.indexOf(column.key);
+                  return (
+                    <li key={column.key} className="flex items-center justify-between py-1">
+                      <label className="flex items-center gap-2 text-gray-800">
+                        <input type="checkbox" checked={index >= 0} onChange={() => toggleColumn(column.key)} />
+                        {column.label}
+                      </label>
+                      {index >= 0 && (
+                        <div className="flex gap-1">
+                          <button
+                            onClick={() => moveColumn(column.key, -1)}
+                            disabled={index === 0}
+                            className="p-1 text-blue-700 hover:bg-blue-50 rounded disabled:opacity-30"
+                            aria-label={`Move ${column.label} up`}
+                          >
+                            <ArrowUp className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => moveColumn(column.key, 1)}
+                            disabled={index === chosen.length - 1}
+                            className="p-1 text-blue-700 hover:bg-blue-50 rounded disabled:opacity-30"
+                            aria-label={`Move ${column.label} down`}
+                          >
+                            <ArrowDown className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-blue-300 rounded-md text-blue-900 hover:bg-blue-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={!spec.tables.length}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4 mr-2" /> Export
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
+
+export default ExportDialog;
@@ -0,0 +1,220 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Copy, Loader2, X } from 'lucide-react';
+import {
+  fillBlanks,
+  ImportAction,
+  ImportFields,
+  ImportPreviewRow,
+  isBlankValue,
+  MATCH_REASON_LABELS,
+} from '../utils/dedupe';
+
+export interface ImportColumn {
+  key: string;
+  label: string;
+}
+
+export interface ImportDecisions {
+  // Keys of the rows to insert.
+  insert: string[];
+  // Blanks to fill on existing records, keyed by the existing record's id.
+  update: { key: string; id: string; changes: ImportFields }[];
+  skipped: number;
+}
+
+interface ImportDedupePreviewProps {
+  title: string;
+  columns: ImportColumn[];
+  rows: ImportPreviewRow[];
+  onCommit: (decisions: ImportDecisions) => Promise<void>;
+  onCancel: () => void;
+}
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  import: 'Import as new',
+  skip: 'Skip',
+  update: 'Fill blanks on existing',
+};
+
+const CONFIDENCE_STYLES = {
+  certain: 'bg-red-100 text-red-800',
+  likely: 'bg-yellow-100 text-yellow-800',
+};
+
+const display = (value: string | null | undefined) => (isBlankValue(value) ? '—' : value);
+
+// Shown before an import writes anything: rows that match an existing record
+// or repeat an earlier row are set to skip, and each can be switched to
+// import anyway or to fill the existing record's blanks.
+export function ImportDedupePreview({ title, columns, rows, onCommit, onCancel }: ImportDedupePreviewProps) {
+  const [actions, setActions] = useState<Record<string, ImportAction>>(() =>
+    Object.fromEntries(rows.map((row) => [row.key, row.action]))
+  );
+  const [showAll, setShowAll] = useState(false);
+  const [committing, setCommitting] = useState(false);
+
+  const flagged = useMemo(() => rows.filter((row) => row.match || row.repeatOf), [rows]);
+  const visible = showAll || !flagged.length ? rows : flagged;
+  const rowNumber = useMemo(() => new Map(rows.map((row, index) => [row.key, index + 1])), [rows]);
+
+  const decisions = useMemo<ImportDecisions>(() => {
+    const result: ImportDecisions = { insert: [], update: [], skipped: 0 };
+    rows.forEach((row) => {
+      const action = actions[row.key];
+      if (action === 'import') result.insert.push(row.key);
+      else if (action === 'update' && row.match) {
+        const changes = fillBlanks(row.match.fields, row.fields);
+        if (Object.keys(changes).length) result.update.push({ key: row.key, id: row.match.id, changes });
+        else result.skipped++;
+      } else result.skipped++;
+    });
+    return result;
+  }, [rows, actions]);
+
+  const setAll = (action: ImportAction) =>
+    setActions((current) => ({
+      ...current,
+      ...Object.fromEntries(flagged.map((row) => [row.key, action === 'update' && !row.match ? 'skip' : action])),
+    }));
+
+  const handleCommit = async () => {
+    setCommitting(true);
+    try {
+      await onCommit(decisions);
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-blue-100 rounded-lg shadow-xl p-8 w-full max-w-5xl border border-blue-300 max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-blue-900 flex items-center">
+            <Copy className="w-6 h-6 mr-2" /> {title}
+          </h2>
+          <button onClick={onCancel} className="text-blue-900 hover:text-blue-700" aria-label="Close">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="bg-white p-4 rounded-lg border border-blue-200 mb-4 flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-gray-700">
+            {rows.length} rows · {rows.length - flagged.length} new ·{' '}
+            {flagged.filter((row) => row.match).length} match existing records ·{' '}
+            {flagged.filter((row) => !row.match).length} repeat earlier rows
+          </p>
+          {flagged.length > 0 && (
+            <div className="flex flex-wrap gap-2 text-sm">
+              <button onClick={() => setAll('skip')} className="px-3 py-1 border border-blue-200 rounded-md hover:bg-blue-50">
+                Skip all duplicates
+              </button>
+              <button onClick={() => setAll('update')} className="px-3 py-1 border border-blue-200 rounded-md hover:bg-blue-50">
+                Fill blanks on all
+              </button>
+              <button onClick={() => setAll('import')} className="px-3 py-1 border border-blue-200 rounded-md hover:bg-blue-50">
+                Import all anyway
+              </button>
+              <label className="flex items-center gap-1 text-gray-700">
+                <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} /> Show new rows too
+              </label>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          {visible.map((row) => (
+            <div key={row.key} className="bg-white p-4 rounded-lg border border-blue-200">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="font-medium text-blue-900">Row {rowNumber.get(row.key)}</span>
+                  {row.match && (
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${CONFIDENCE_STYLES[row.match.confidence]}`}>
+                      {row.match.confidence === 'certain' ? 'Duplicate' : 'Possible duplicate'} ·{' '}
+                      {row.match.reasons.map((reason) => MATCH_REASON_LABELS[reason]).join(', ')}
+                    </span>
+                  )}
+                  {row.repeatOf && (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+                      Repeats row {rowNumber.get(row.repeatOf)}
+                    </span>
+                  )}
+                  {!row.match && !row.repeatOf && (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-800">New</span>
+                  )}
+                </div>
+                <select
+                  value={actions[row.key]}
+                  onChange={(e) => setActions((current) => ({ ...current, [row.key]: e.target.value as ImportAction }))}
+                  className="p-1 border border-blue-200 rounded-md text-sm"
+                >
+                  {(Object.keys(ACTION_LABELS) as ImportAction[])
+                    .filter((action) => action !== 'update' || row.match)
+                    .map((action) => (
+                      <option key={action} value={action}>
+                        {ACTION_LABELS[action]}
+                      </option>
+                    ))}
+                </select>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-blue-900 border-b border-blue-100">
+                    <th className="py-1 pr-4 w-1/5">Field</th>
+                    <th className="py-1 pr-4">In this file</th>
+                    {row.match && <th className="py-1">Already saved</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {columns.map((column) => {
+                    const incoming = row.fields[column.key];
+                    const existing = row.match?.fields[column.key];
+                    const differs =
+                      row.match &&
+                      !isBlankValue(incoming) &&
+                      !isBlankValue(existing) &&
+                      String(incoming).trim().toLowerCase() !== String(existing).trim().toLowerCase();
+                    const fills = row.match && !isBlankValue(incoming) && isBlankValue(existing);
+                    return (
+                      <tr key={column.key} className="border-b border-blue-50">
+                        <td className="py-1 pr-4 text-gray-600">{column.label}</td>
+                        <td className={`py-1 pr-4 ${differs ? 'text-orange-700' : fills ? 'text-green-700' : ''}`}>
+                          {display(incoming)}
+                        </td>
+                        {row.match && <td className={`py-1 ${differs ? 'text-orange-700' : ''}`}>{display(existing)}</td>}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-3 mt-6">
+          <span className="text-sm text-gray-700 mr-auto">
+            {decisions.insert.length} to import · {decisions.update.length} to update · {decisions.skipped} skipped
+          </span>
+          <button onClick={onCancel} className="px-4 py-2 border border-blue-300 rounded-md text-blue-900 hover:bg-blue-50">
+            Cancel
+          </button>
+          <button
+            onClick={handleCommit}
+            disabled={committing || (!decisions.insert.length && !decisions.update.length)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {committing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />} Import
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
+
+export default ImportDedupePreview;
@@ -0,0 +1,479 @@
+import { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import moment from 'moment';
+import { AlertTriangle, FileSpreadsheet, Loader2, RotateCcw, Save, Trash2, Upload, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import {
+  deleteMappingTemplate,
+  fetchImportRuns,
+  fetchMappingTemplates,
+  ImportRollbackError,
+  rollbackImport,
+  saveMappingTemplate,
+} from '../api/imports';
+import { ImportMappingTemplateRow, ImportRunRow, ImportRunStatus } from '../types/database';
+import {
+  applyTemplate,
+  autoMapColumns,
+  ColumnMapping,
+  IMPORT_FILE_TYPES,
+  ImportField,
+  ImportRow,
+  ImportRowError,
+  ImportValues,
+  mapRows,
+  ParsedSheet,
+  readSpreadsheet,
+} from '../utils/importer';
+
+export interface ImportWizardResult {
+  rows: ImportRow[];
+  fileName: string;
+  // Undo the batches already written if a later one fails.
+  rollbackOnError: boolean;
+}
+
+interface ImportWizardProps {
+  title: string;
+  // Mapping templates and import history are kept per source.
+  source: string;
+  fields: ImportField[];
+  validateRow?: (values: ImportValues) => string[];
+  // Tries the valid rows against the database without keeping anything.
+  dryRun?: (rows: ImportRow[]) => Promise<ImportRowError[]>;
+  // Lists recent imports for the source with a rollback button.
+  showHistory?: boolean;
+  submitLabel?: string;
+  onSubmit: (result: ImportWizardResult) => void | Promise<void>;
+  onClose: () => void;
+}
+
+type Step = 'upload' | 'map' | 'preview';
+
+const PREVIEW_LIMIT = 200;
+
+const RUN_STATUS_STYLES: Record<ImportRunStatus, string> = {
+  running: 'bg-blue-100 text-blue-800',
+  committed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  rolled_back: 'bg-gray-100 text-gray-700',
+};
+
+const display = (value: unknown) => (value === null || value === undefined || value === '' ? '—' : String(value));
+
+// Upload -> map columns -> preview. Only rows without errors are handed to
+// `onSubmit`; the page decides how to write them. An error thrown by
+// `onSubmit` is shown and the wizard stays open.
+export function ImportWizard({
+  title,
+  source,
+  fields,
+  validateRow,
+  dryRun,
+  showHistory = false,
+  submitLabel = 'Import',
+  onSubmit,
+  onClose,
+}: ImportWizardProps) {
+  const [step, setStep] = useState<Step>('upload');
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [templates, setTemplates] = useState<ImportMappingTemplateRow[]>([]);
+  const [templateName, setTemplateName] = useState('');
+  const [runs, setRuns] = useState<ImportRunRow[]>([]);
+  const [reading, setReading] = useState(false);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [dryRunErrors, setDryRunErrors] = useState<Map<number, string> | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [rollbackOnError, setRollbackOnError] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchMappingTemplates(source)
+      .then(setTemplates)
+      .catch((err) => toast.error(err instanceof Error ? err.message : 'Failed to load mapping templates'));
+    if (showHistory) {
+      fetchImportRuns(source)
+        .then(setRuns)
+        .catch((err) => toast.error(err instanceof Error ? err.message : 'Failed to load recent imports'));
+    }
+  }, [source, showHistory]);
+
+  const rows = useMemo(
+    () => (sheet ? mapRows(sheet, mapping, fields, validateRow) : []),
+    [sheet, mapping, fields, validateRow]
+  );
+  const rowsWithErrors = useMemo(
+    () =>
+      rows.map((row) => {
+        const dbError = dryRunErrors?.get(row.rowNumber);
+        return dbError ? { ...row, errors: [...row.errors, dbError] } : row;
+      }),
+    [rows, dryRunErrors]
+  );
+  const validRows = rowsWithErrors.filter((row) => !row.errors.length);
+  const shownRows = (errorsOnly ? rowsWithErrors.filter((row) => row.errors.length) : rowsWithErrors).slice(0, PREVIEW_LIMIT);
+  const mappedFields = fields.filter((field) => mapping[field.key]);
+  const missingRequired = fields.filter((field) => field.required && !mapping[field.key]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setReading(true);
+    try {
+      const parsed = await readSpreadsheet(file);
+      if (!parsed.headers.length || !parsed.rows.length) {
+        toast.error('That file has no rows to import');
+        return;
+      }
+      // A saved template that covers this file wins over guessing.
+      const template = templates
+        .map((t) => ({ t, mapped: applyTemplate(t.mapping, parsed.headers) }))
+        .filter(({ t, mapped }) => Object.keys(mapped).length === Object.keys(t.mapping).length && Object.keys(mapped).length)
+        .sort((a, b) => Object.keys(b.mapped).length - Object.keys(a.mapped).length)[0];
+      setMapping(template ? template.mapped : autoMapColumns(parsed.headers, fields));
+      if (template) toast.info(`Columns mapped with the "${template.t.name}" template`);
+      setSheet(parsed);
+      setDryRunErrors(null);
+      setStep('map');
+    } catch (err) {
+      toast.error(err instanceof Error ? `Could not read the file: ${err.message}` : 'Could not read the file');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const setColumn = (fieldKey: string, header: string) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (header) next[fieldKey] = header;
+      else delete next[fieldKey];
+      return next;
+    });
+    setDryRunErrors(null);
+  };
+
+  const applySavedTemplate = (id: string) => {
+    const template = templates.find((t) => t.id === id);
+    if (!template || !sheet) return;
+    setMapping(applyTemplate(template.mapping, sheet.headers));
+    setTemplateName(template.name);
+    setDryRunErrors(null);
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!templateName.trim()) return toast.error('Name the template first');
+    try {
+      const saved = await saveMappingTemplate(source, templateName, mapping);
+      setTemplates((current) => [...current.filter((t) => t.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      toast.success(`Template "${saved.name}" saved`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save template');
+    }
+  };
+
+  const handleDeleteTemplate = async (template: ImportMappingTemplateRow) => {
+    if (!window.confirm(`Delete the "${template.name}" template?`)) return;
+    try {
+      await deleteMappingTemplate(template.id);
+      setTemplates((current) => current.filter((t) => t.id !== template.id));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete template');
+    }
+  };
+
+  const handleDryRun = async () => {
+    if (!dryRun) return;
+    setChecking(true);
+    try {
+      const errors = await dryRun(rows.filter((row) => !row.errors.length));
+      setDryRunErrors(new Map(errors.map(({ rowNumber, error }) => [rowNumber, `Database: ${error}`])));
+      if (errors.length) toast.warn(`${errors.length} rows would be rejected by the database`);
+      else toast.success('Dry run passed: nothing was saved');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Dry run failed');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleRollback = async (run: ImportRunRow) => {
+    if (!window.confirm(`Delete the ${run.record_ids.length} records created by this import?`)) return;
+    try {
+      const rolledBack = await rollbackImport(run);
+      setRuns((current) => current.map((r) => (r.id === rolledBack.id ? rolledBack : r)));
+      toast.success('Import rolled back');
+    } catch (err) {
+      if (err instanceof ImportRollbackError) {
+        setRuns((current) => current.map((r) => (r.id === err.run.id ? err.run : r)));
+      }
+      toast.error(err instanceof Error ? err.message : 'Failed to roll back import');
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!sheet) return;
+    setSubmitting(true);
+    try {
+      await onSubmit({ rows: validRows, fileName: sheet.fileName, rollbackOnError });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-blue-100 rounded-lg shadow-xl p-8 w-full max-w-5xl border border-blue-300 max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-blue-900 flex items-center">
+            <FileSpreadsheet className="w-6 h-6 mr-2" /> {title}
+          </h2>
+          <button onClick={onClose} className="text-blue-900 hover:text-blue-700" aria-label="Close">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <ol className="flex gap-2 text-sm mb-4">
+          {(['upload', 'map', 'preview'] as Step[]).map((s, index) => (
+            <li
+              key={s}
+              className={`px-3 py-1 rounded-full ${step === s ? 'bg-blue-600 text-white' : 'bg-white text-blue-900 border border-blue-200'}`}
+            >
+              {index + 1}. {s === 'upload' ? 'Upload' : s === 'map' ? 'Map columns' : 'Preview'}
+            </li>
+          ))}
+        </ol>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <label className="flex flex-col items-center justify-center p-8 bg-white border-2 border-dashed border-blue-300 rounded-lg cursor-pointer hover:bg-blue-50">
+              {reading ? <Loader2 className="w-8 h-8 text-blue-600 animate-spin" /> : <Upload className="w-8 h-8 text-blue-600" />}
+              <span className="mt-2 text-blue-900 font-medium">Choose a CSV or Excel file</span>
+              <span className="text-sm text-gray-600">The first row should hold the column headings</span>
+              <input type="file" accept={IMPORT_FILE_TYPES} onChange={handleFile} className="hidden" disabled={reading} />
+            </label>
+
+            {showHistory && runs.length > 0 && (
+              <div className="bg-white p-4 rounded-lg border border-blue-200">
+                <h3 className="font-semibold text-blue-900 mb-2">Recent imports</h3>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {runs.map((run) => (
+                      <tr key={run.id} className="border-b border-blue-50">
+                        <td className="py-1 pr-4">{run.file_name || 'Unnamed file'}</td>
+                        <td className="py-1 pr-4 text-gray-600">{moment(run.created_at).format('DD MMM YYYY, h:mm a')}</td>
+                        <td className="py-1 pr-4">{run.row_count} rows</td>
+                        <td className="py-1 pr-4">
+                          <span className={`text-xs px-2 py-0.5 rounded-full ${RUN_STATUS_STYLES[run.status]}`}>
+                            {run.status.replace('_', ' ')}
+                          </span>
+                        </td>
+                        <td className="py-1 text-right">
+                          {run.status !== 'rolled_back' && run.record_ids.length > 0 && (
+                            <button onClick={() => handleRollback(run)} className="flex items-center ml-auto text-red-600 hover:text-red-800">
+                              <RotateCcw className="w-4 h-4 mr-1" /> Roll back
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'map' && sheet && (
+          <div className="space-y-4">
+            <div className="bg-white p-4 rounded-lg border border-blue-200 flex flex-wrap items-center gap-3">
+              <span className="text-sm text-gray-700">
+                {sheet.fileName} · {sheet.rows.length} rows
+              </span>
+              <select
+                value=""
+                onChange={(e) => applySavedTemplate(e.target.value)}
+                className="p-2 border border-blue-200 rounded-md text-sm ml-auto"
+                disabled={!templates.length}
+              >
+                <option value="">{templates.length ? 'Apply a saved template…' : 'No saved templates'}</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                placeholder="Template name"
+                className="p-2 border border-blue-200 rounded-md text-sm"
+              />
+              <button
+                onClick={handleSaveTemplate}
+                className="flex items-center px-3 py-2 border border-blue-300 rounded-md text-sm text-blue-900 hover:bg-blue-50"
+              >
+                <Save className="w-4 h-4 mr-1" /> Save mapping
+              </button>
+            </div>
+
+            {templates.length > 0 && (
+              <div className="flex flex-wrap gap-2 text-xs">
+                {templates.map((template) => (
+                  <span key={template.id} className="flex items-center px-2 py-1 bg-white border border-blue-200 rounded-full">
+                    {template.name}
+                    <button onClick={() => handleDeleteTemplate(template)} className="ml-1 text-red-500 hover:text-red-700" aria-label="Delete template">
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <div className="bg-white p-4 rounded-lg border border-blue-200">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-blue-900 border-b border-blue-200">
+                    <th className="py-2 pr-4">Field</th>
+                    <th className="py-2 pr-4">Column in file</th>
+                    <th className="py-2">First value</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {fields.map((field) => (
+                    <tr key={field.key} className="border-b border-blue-50">
+                      <td className="py-2 pr-4">
+                        {field.label}
+                        {field.required && <span className="text-red-600"> *</span>}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <select
+                          value={mapping[field.key] || ''}
+                          onChange={(e) => setColumn(field.key, e.target.value)}
+                          className="w-full p-1 border border-blue-200 rounded-md"
+                        >
+                          <option value="">— Not in file —</option>
+                          {sheet.headers.map((header) => (
+                            <option key={header} value={header}>
+                              {header}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-2 text-gray-600">{display(mapping[field.key] ? sheet.rows[0]?.[mapping[field.key]] : null)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <button onClick={() => setStep('upload')} className="px-4 py-2 border border-blue-300 rounded-md text-blue-900 hover:bg-blue-50">
+                Back
+              </button>
+              <div className="flex items-center gap-3">
+                {missingRequired.length > 0 && (
+                  <span className="text-sm text-red-700">Map {missingRequired.map((field) => field.label).join(', ')}</span>
+                )}
+                <button
+                  onClick={() => setStep('preview')}
+                  disabled={missingRequired.length > 0}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Preview
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && sheet && (
+          <div className="space-y-4">
+            <div className="bg-white p-4 rounded-lg border border-blue-200 flex flex-wrap items-center justify-between gap-3">
+              <p className="text-sm text-gray-700">
+                {rowsWithErrors.length} rows · <span className="text-green-700">{validRows.length} ready</span> ·{' '}
+                <span className="text-red-700">{rowsWithErrors.length - validRows.length} with errors (skipped)</span>
+                {dryRunErrors && ' · checked against the database'}
+              </p>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={errorsOnly} onChange={(e) => setErrorsOnly(e.target.checked)} /> Only rows with
+                errors
+              </label>
+            </div>
+
+            <div className="bg-white p-4 rounded-lg border border-blue-200 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-blue-900 border-b border-blue-200">
+                    <th className="py-2 pr-3">Row</th>
+                    {mappedFields.map((field) => (
+                      <th key={field.key} className="py-2 pr-3 whitespace-nowrap">
+                        {field.label}
+                      </th>
+                    ))}
+                    <th className="py-2">Problems</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shownRows.map((row) => (
+                    <tr key={row.rowNumber} className={`border-b border-blue-50 ${row.errors.length ? 'bg-red-50' : ''}`}>
+                      <td className="py-1 pr-3 text-gray-500">{row.rowNumber}</td>
+                      {mappedFields.map((field) => (
+                        <td key={field.key} className="py-1 pr-3 whitespace-nowrap">
+                          {display(row.values[field.key])}
+                        </td>
+                      ))}
+                      <td className="py-1 text-red-700">{row.errors.join('; ')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {rowsWithErrors.length > shownRows.length && !errorsOnly && (
+                <p className="text-xs text-gray-500 mt-2">Showing the first {PREVIEW_LIMIT} rows.</p>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <button onClick={() => setStep('map')} className="px-4 py-2 border border-blue-300 rounded-md text-blue-900 hover:bg-blue-50">
+                Back
+              </button>
+              <div className="flex flex-wrap items-center gap-3">
+                {showHistory && (
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input type="checkbox" checked={rollbackOnError} onChange={(e) => setRollbackOnError(e.target.checked)} /> Undo
+                    everything if a batch fails
+                  </label>
+                )}
+                {dryRun && (
+                  <button
+                    onClick={handleDryRun}
+                    disabled={checking || !validRows.length}
+                    className="flex items-center px-4 py-2 border border-blue-300 rounded-md text-blue-900 hover:bg-blue-50 disabled:opacity-50"
+                  >
+                    {checking ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <AlertTriangle className="w-4 h-4 mr-2" />} Dry run
+                  </button>
+                )}
+                <button
+                  onClick={handleSubmit}
+                  disabled={submitting || !validRows.length}
+                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />} {submitLabel} {validRows.length} rows
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
+
+export default ImportWizard;
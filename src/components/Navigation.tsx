@@ -1,12 +1,14 @@
 import React from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { useAuthStore } from '../store/authStore';
+import { useAuthStore, usePermissions } from '../store/authStore';
 import { LogOut, Home, FilePlus, LayoutDashboard, UserCircle, PieChart, Users, LogIn, Shield, Link as LinkIcon, Star, UserPlus } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { Logo } from './Logo';
+import { NotificationCentre } from './NotificationCentre';
 
 export function Navigation() {
   const { user, profile, signOut } = useAuthStore();
+  const { isStaff, can } = usePermissions();
   const navigate = useNavigate();
 
   const handleSignOut = async () => {
@@ -31,21 +33,31 @@ export function Navigation() {
           <div className="flex items-center space-x-4">
             {user ? (
               <>
-                <Link to="/agent-properties" className="text-gray-600 hover:text-blue-600 flex items-center space-x-1">
-                  <motion.div variants={iconVariants} initial="initial" whileHover="hover">
-                    <Home className="w-5 h-5" />
-                  </motion.div>
-                  <span>Properties</span>
-                </Link>
+                {can('properties.view') && (
+                  <Link to="/agent-properties" className="text-gray-600 hover:text-blue-600 flex items-center space-x-1">
+                    <motion.div variants={iconVariants} initial="initial" whileHover="hover">
+                      <Home className="w-5 h-5" />
+                    </motion.div>
+                    <span>Properties</span>
+                  </Link>
+                )}
 
-                {profile?.role === 'agent' && (
+                {isStaff && !can('admin.access') && (
                   <>
-                    <Link to="/property-form" className="text-gray-600 hover:text-blue-600 flex items-center space-x-1">
-                      <motion.div variants={iconVariants} initial="initial" whileHover="hover">
+                    {can('properties.create') && (
+                      <Link to="/property-form" className="text-gray-600 hover:text-blue-600 flex items-center space-x-1">
+                        <motion.div variants={iconVariants} initial="initial" whileHover="hover">
+                          <FilePlus className="w-5 h-5" />
+                        </motion.div>
+                        <span>Submit Property</span>
+                      </Link>
+                    )}
+                    {can('properties.create') && (
+                      <Link to="/form-6" className="text-gray-600 hover:text-blue-600 flex items-center space-x-1">
                         <FilePlus className="w-5 h-5" />
-                      </motion.div>
-                      <span>Submit Property</span>
-                    </Link>
+                        <span>Form 6</span>
+                      </Link>
+                    )}
                     <Link to="/agent-dashboard" className="text-gray-600 hover:text-blue-600 flex items-center space-x-1">
                       <motion.div variants={iconVariants} initial="initial" whileHover="hover">
                         <LayoutDashboard className="w-5 h-5" />
@@ -70,16 +82,18 @@ export function Navigation() {
                   </>
                 )}
 
-                {profile?.role === 'admin' && (
+                {can('admin.access') && (
                   <>
                     <Link to="/admin" className="text-gray-600 hover:text-blue-600 flex items-center space-x-1">
                       <Shield className="w-5 h-5" />
                       <span>Admin</span>
                     </Link>
-                    <Link to="/agent-management" className="text-gray-600 hover:text-blue-600 flex items-center space-x-1">
-                      <Users className="w-5 h-5" />
-                      <span>Agents</span>
-                    </Link>
+                    {can('users.manage') && (
+                      <Link to="/agent-management" className="text-gray-600 hover:text-blue-600 flex items-center space-x-1">
+                        <Users className="w-5 h-5" />
+                        <span>Agents</span>
+                      </Link>
+                    )}
                     <Link to="/agent-profile" className="text-gray-600 hover:text-blue-600 flex items-center space-x-1">
                       <motion.div className="relative" variants={iconVariants} initial="initial" whileHover="hover">
                         <UserCircle className="w-5 h-5" />
@@ -97,6 +111,8 @@ export function Navigation() {
                   </>
                 )}
 
+                <NotificationCentre userId={user.id} />
+
                 <button
                   onClick={handleSignOut}
                   className="flex items-center space-x-1 text-red-600 hover:text-red-700"
@@ -111,10 +127,6 @@ export function Navigation() {
                   <LogIn className="w-5 h-5" />
                   <span>Wanna Be Sales Agent</span>
                 </Link>
-                <Link to="/form-6" className="text-gray-600 hover:text-blue-600 flex items-center space-x-1">
-                  <LogIn className="w-5 h-5" />
-                  <span>form 6</span>
-                </Link>
                 <Link to="/agent-login" className="text-gray-600 hover:text-blue-600 flex items-center space-x-1">
                   <LogIn className="w-5 h-5" />
                     <span>Agent Login</span>
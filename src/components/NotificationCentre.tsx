@@ -0,0 +1,159 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { AnimatePresence, motion } from 'framer-motion';
+import moment from 'moment';
+import { Archive, Bell, CalendarClock, CheckCheck, Home, Loader2, MessageSquare, PhoneCall, Settings, UserPlus } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { useNotificationStore, useUnreadCount } from '../store/notificationStore';
+import { NotificationRow, NotificationType } from '../types/database';
+
+const TYPE_ICONS: Record<NotificationType, typeof Bell> = {
+  new_enquiry: MessageSquare,
+  callback_due: PhoneCall,
+  plan_deadline: CalendarClock,
+  property_status: Home,
+  job_applicant: UserPlus,
+};
+
+// Bell in the navigation bar with the unread count; opens the inbox. The
+// store stays subscribed to new rows for as long as the user is signed in.
+export function NotificationCentre({ userId }: { userId: string }) {
+  const { notifications, loading, error, start, stop, markRead, markAllRead, archive } = useNotificationStore();
+  const unread = useUnreadCount();
+  const [open, setOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    start(userId);
+    return () => stop();
+  }, [userId, start, stop]);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleOpen = async (notification: NotificationRow) => {
+    try {
+      await markRead([notification.id]);
+    } catch (err) {
+      console.error('Failed to mark notification read:', err);
+    }
+    if (notification.link) {
+      setOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  const handleArchive = async (notification: NotificationRow) => {
+    try {
+      await archive(notification.id);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to archive notification');
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllRead();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to mark notifications read');
+    }
+  };
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={() => setOpen((value) => !value)}
+        className="relative text-gray-600 hover:text-blue-600 flex items-center"
+        aria-label={unread ? `Notifications, ${unread} unread` : 'Notifications'}
+      >
+        <Bell className="w-5 h-5" />
+        {unread > 0 && (
+          <span className="absolute -top-2 -right-2 bg-red-600 text-white text-xs rounded-full min-w-[1.25rem] h-5 px-1 flex items-center justify-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            className="absolute right-0 mt-3 w-96 bg-white rounded-lg shadow-xl border border-blue-200 z-50"
+          >
+            <div className="flex items-center justify-between px-4 py-3 border-b border-blue-100">
+              <h3 className="font-semibold text-blue-900">Notifications</h3>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={handleMarkAllRead}
+                  disabled={!unread}
+                  className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400 flex items-center"
+                >
+                  <CheckCheck className="w-4 h-4 mr-1" /> Mark all read
+                </button>
+                <Link
+                  to="/notification-settings"
+                  onClick={() => setOpen(false)}
+                  className="text-gray-500 hover:text-blue-600"
+                  aria-label="Notification settings"
+                >
+                  <Settings className="w-4 h-4" />
+                </Link>
+              </div>
+            </div>
+            <div className="max-h-96 overflow-y-auto">
+              {loading ? (
+                <div className="flex items-center justify-center py-6 text-blue-900">
+                  <Loader2 className="w-5 h-5 mr-2 animate-spin" /> Loading...
+                </div>
+              ) : error ? (
+                <p className="text-red-600 text-sm p-4">{error}</p>
+              ) : !notifications.length ? (
+                <p className="text-gray-500 text-sm p-4 text-center">You're all caught up.</p>
+              ) : (
+                <ul>
+                  {notifications.map((notification) => {
+                    const Icon = TYPE_ICONS[notification.type] || Bell;
+                    return (
+                      <li
+                        key={notification.id}
+                        className={`flex items-start gap-3 px-4 py-3 border-b border-blue-50 hover:bg-blue-50 ${
+                          notification.read_at ? '' : 'bg-blue-50/60'
+                        }`}
+                      >
+                        <Icon className={`w-5 h-5 mt-0.5 ${notification.read_at ? 'text-gray-400' : 'text-blue-600'}`} />
+                        <button onClick={() => handleOpen(notification)} className="flex-1 text-left">
+                          <p className={`text-sm ${notification.read_at ? 'text-gray-700' : 'font-semibold text-blue-900'}`}>
+                            {notification.title}
+                          </p>
+                          {notification.body && <p className="text-xs text-gray-600 mt-0.5 line-clamp-2">{notification.body}</p>}
+                          <p className="text-xs text-gray-400 mt-1">{moment(notification.created_at).fromNow()}</p>
+                        </button>
+                        <button
+                          onClick={() => handleArchive(notification)}
+                          className="text-gray-400 hover:text-blue-600"
+                          aria-label="Archive notification"
+                          title="Archive"
+                        >
+                          <Archive className="w-4 h-4" />
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useEffect, useMemo, useState } from 'react';
+import moment from 'moment';
+import { Loader2 } from 'lucide-react';
+import { AgentPlanTracking, fetchPlanTracking, fetchTeamPlanTracking } from '../api/planTracking';
+import { MetricTracking, PERIOD_LABELS, PlanTargets, PlanWindow, TrackingStatus } from '../utils/planTracking';
+import { formatCurrency } from '../utils/formatters';
+
+const STATUS_STYLES: Record<TrackingStatus, string> = {
+  achieved: 'bg-green-100 text-green-800',
+  on_track: 'bg-blue-100 text-blue-800',
+  behind: 'bg-red-100 text-red-800',
+};
+
+const STATUS_LABELS: Record<TrackingStatus, string> = {
+  achieved: 'Achieved',
+  on_track: 'On track',
+  behind: 'Behind',
+};
+
+const formatValue = (metric: MetricTracking, value: number, decimals = 0) =>
+  metric.isCurrency ? formatCurrency(Math.round(value)) : decimals ? value.toFixed(decimals) : Math.round(value).toLocaleString();
+
+const periodLabel = (period: PlanWindow) =>
+  `${PERIOD_LABELS[period.periodType]} (${moment(period.start).format('DD MMM')} – ${moment(period.end).format(
+    'DD MMM YYYY'
+  )}, ${period.remainingDays} day${period.remainingDays === 1 ? '' : 's'} left)`;
+
+interface PlanTrackingPanelProps {
+  agentId: string;
+  targets: PlanTargets;
+}
+
+// Actual vs target for one agent's plan.
+export function PlanTrackingPanel({ agentId, targets }: PlanTrackingPanelProps) {
+  const [period, setPeriod] = useState<PlanWindow | null>(null);
+  const [metrics, setMetrics] = useState<MetricTracking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only the tracked target fields matter, not every edit to the plan form
+  const tracked = useMemo<PlanTargets>(
+    () => ({
+      period_type: targets.period_type,
+      appraisals_target: targets.appraisals_target,
+      listings_target: targets.listings_target,
+      settled_sales_target: targets.settled_sales_target,
+      gross_commission_target: targets.gross_commission_target,
+      calls_per_day: targets.calls_per_day,
+      no_of_working_days_per_year: targets.no_of_working_days_per_year,
+    }),
+    [
+      targets.period_type,
+      targets.appraisals_target,
+      targets.listings_target,
+      targets.settled_sales_target,
+      targets.gross_commission_target,
+      targets.calls_per_day,
+      targets.no_of_working_days_per_year,
+    ]
+  );
+
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+    setError(null);
+    fetchPlanTracking(agentId, tracked)
+      .then((result) => {
+        if (!active) return;
+        setPeriod(result.window);
+        setMetrics(result.metrics);
+      })
+      .catch((err) => {
+        console.error('Plan tracking failed:', err);
+        if (active) setError(err instanceof Error ? err.message : 'Failed to load plan progress');
+      })
+      .finally(() => active && setLoading(false));
+    return () => {
+      active = false;
+    };
+  }, [agentId, tracked]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-blue-900 py-4">
+        <Loader2 className="w-5 h-5 mr-2 animate-spin" /> Loading progress...
+      </div>
+    );
+  }
+  if (error) return <p className="text-red-600 py-4">{error}</p>;
+  if (!metrics.length || !period) return <p className="text-gray-500 py-4">Set targets to start tracking progress.</p>;
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-3">Progress {periodLabel(period)}</p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-blue-200 text-blue-900">
+              <th className="py-2 px-3">Metric</th>
+              <th className="py-2 px-3">Target</th>
+              <th className="py-2 px-3">Actual</th>
+              <th className="py-2 px-3 w-48">Attainment</th>
+              <th className="py-2 px-3">Projected</th>
+              <th className="py-2 px-3">Needed / Day</th>
+              <th className="py-2 px-3">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {metrics.map((metric) => (
+              <tr key={metric.key} className="border-b border-blue-100">
+                <td className="py-2 px-3 font-medium">{metric.label}</td>
+                <td className="py-2 px-3">{formatValue(metric, metric.target)}</td>
+                <td className="py-2 px-3">{formatValue(metric, metric.actual)}</td>
+                <td className="py-2 px-3">
+                  <div className="w-full bg-blue-100 rounded-full h-2">
+                    <div
+                      className="bg-blue-600 h-2 rounded-full"
+                      style={{ width: `${Math.min(100, metric.attainment)}%` }}
+                    />
+                  </div>
+                  <span className="text-xs text-gray-600">{metric.attainment.toFixed(0)}%</span>
+                </td>
+                <td className="py-2 px-3">
+                  {formatValue(metric, metric.projected)}{' '}
+                  <span className="text-xs text-gray-500">({metric.projectedAttainment.toFixed(0)}%)</span>
+                </td>
+                <td className="py-2 px-3">
+                  {metric.status === 'achieved' ? '—' : formatValue(metric, metric.requiredDailyRate, 1)}
+                </td>
+                <td className="py-2 px-3">
+                  <span className={`px-2 py-1 rounded-full text-xs font-semibold ${STATUS_STYLES[metric.status]}`}>
+                    {STATUS_LABELS[metric.status]}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+// Every agent's latest plan side by side, for the admin view.
+export function TeamPlanTracking() {
+  const [rows, setRows] = useState<AgentPlanTracking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTeamPlanTracking()
+      .then((result) => setRows(result.sort((a, b) => a.agentName.localeCompare(b.agentName))))
+      .catch((err) => {
+        console.error('Team plan tracking failed:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load team progress');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-blue-900 py-4">
+        <Loader2 className="w-5 h-5 mr-2 animate-spin" /> Loading team progress...
+      </div>
+    );
+  }
+  if (error) return <p className="text-red-600 py-4">{error}</p>;
+  if (!rows.length) return <p className="text-gray-500 py-4">No agent business plans saved yet.</p>;
+
+  const metricKeys = [...new Set(rows.flatMap((row) => row.metrics.map((metric) => metric.key)))];
+  const labels = new Map(rows.flatMap((row) => row.metrics.map((metric) => [metric.key, metric.label] as const)));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-left text-sm">
+        <thead>
+          <tr className="border-b border-blue-200 text-blue-900">
+            <th className="py-2 px-3">Agent</th>
+            <th className="py-2 px-3">Period</th>
+            {metricKeys.map((key) => (
+              <th key={key} className="py-2 px-3">
+                {labels.get(key)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.agentId} className="border-b border-blue-100 align-top">
+              <td className="py-2 px-3 font-medium">{row.agentName}</td>
+              <td className="py-2 px-3 text-gray-600">
+                {PERIOD_LABELS[row.window.periodType]}
+                <span className="block text-xs">{row.window.remainingDays} days left</span>
+              </td>
+              {metricKeys.map((key) => {
+                const metric = row.metrics.find((entry) => entry.key === key);
+                if (!metric) {
+                  return (
+                    <td key={key} className="py-2 px-3 text-gray-400">
+                      —
+                    </td>
+                  );
+                }
+                return (
+                  <td key={key} className="py-2 px-3">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[metric.status]}`}>
+                      {metric.attainment.toFixed(0)}%
+                    </span>
+                    <span className="block text-xs text-gray-600 mt-1">
+                      {formatValue(metric, metric.actual)} / {formatValue(metric, metric.target)}
+                    </span>
+                    <span className="block text-xs text-gray-500">
+                      Projected {metric.projectedAttainment.toFixed(0)}%
+                      {metric.status !== 'achieved' && ` · ${formatValue(metric, metric.requiredDailyRate, 1)}/day`}
+                    </span>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useState } from 'react';
+import moment from 'moment';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { fetchPropertyHistory, PropertyAuditEntry, revertPropertyField } from '../api/propertyAudit';
+import { AuditOperation, PropertyRow } from '../types/database';
+import { fieldLabel, formatAuditValue, isRevertibleField } from '../utils/audit';
+
+const OPERATION_LABELS: Record<AuditOperation, string> = {
+  insert: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+};
+
+const OPERATION_STYLES: Record<AuditOperation, string> = {
+  insert: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+};
+
+interface PropertyHistoryPanelProps {
+  propertyId: string;
+  canRevert: boolean;
+  onReverted: (property: PropertyRow) => void;
+}
+
+// Field-level edit history for one property, newest first, with a revert
+// button on every value that was overwritten.
+export function PropertyHistoryPanel({ propertyId, canRevert, onReverted }: PropertyHistoryPanelProps) {
+  const [entries, setEntries] = useState<PropertyAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reverting, setReverting] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setEntries(await fetchPropertyHistory(propertyId));
+      setError(null);
+    } catch (err) {
+      console.error('Property history failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, [propertyId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleRevert = async (entry: PropertyAuditEntry, field: string, value: unknown) => {
+    if (!window.confirm(`Revert ${fieldLabel(field).toLowerCase()} to "${formatAuditValue(value)}"?`)) return;
+    setReverting(`${entry.id}:${field}`);
+    try {
+      const updated = await revertPropertyField(propertyId, field, value);
+      onReverted(updated);
+      toast.success(`${fieldLabel(field)} reverted`);
+      await loadHistory();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to revert field');
+    } finally {
+      setReverting(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-blue-900 py-4">
+        <Loader2 className="w-5 h-5 mr-2 animate-spin" /> Loading history...
+      </div>
+    );
+  }
+  if (error) return <p className="text-red-600 py-4">{error}</p>;
+  if (!entries.length) return <p className="text-gray-500 py-4">No changes recorded for this property yet.</p>;
+
+  return (
+    <div className="space-y-4">
+      {entries.map((entry) => (
+        <div key={entry.id} className="border border-blue-200 rounded-lg p-4">
+          <div className="flex flex-wrap items-center gap-2 mb-2 text-sm">
+            <History className="w-4 h-4 text-blue-600" />
+            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${OPERATION_STYLES[entry.operation]}`}>
+              {OPERATION_LABELS[entry.operation]}
+            </span>
+            <span className="text-gray-700">
+              by {entry.changed_by_profile?.name || entry.changed_by_profile?.email || 'System'}
+            </span>
+            <span className="text-gray-500">{moment(entry.created_at).format('DD/MM/YYYY h:mm A')}</span>
+          </div>
+          <table className="w-full text-left text-sm">
+            <tbody>
+              {Object.entries(entry.changes).map(([field, change]) => (
+                <tr key={field} className="border-t border-blue-100">
+                  <td className="py-1 pr-3 font-medium w-40">{fieldLabel(field)}</td>
+                  {entry.operation === 'update' && (
+                    <td className="py-1 pr-3 text-red-600 break-all">{formatAuditValue(change.old)}</td>
+                  )}
+                  <td className="py-1 pr-3 text-green-700 break-all">
+                    {formatAuditValue(entry.operation === 'delete' ? change.old : change.new)}
+                  </td>
+                  <td className="py-1 text-right w-24">
+                    {canRevert && entry.operation === 'update' && isRevertibleField(field) && (
+                      <button
+                        onClick={() => handleRevert(entry, field, change.old)}
+                        disabled={reverting !== null}
+                        className="inline-flex items-center text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                        title="Restore the value before this change"
+                      >
+                        {reverting === `${entry.id}:${field}` ? (
+                          <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                        ) : (
+                          <RotateCcw className="w-3 h-3 mr-1" />
+                        )}
+                        Revert
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -3,7 +3,30 @@ import { useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { Lock, AlertCircle, CheckCircle } from 'lucide-react';
 
-export function ResetPassword() {
+interface ResetPasswordProps {
+  title?: string;
+  submitLabel?: string;
+  intro?: React.ReactNode;
+  minLength?: number;
+  // Defaults to updating the signed-in user's password, which is how the
+  // emailed recovery link works. Invite onboarding passes its own.
+  onSubmit?: (password: string) => Promise<void>;
+  successMessage?: string;
+}
+
+const updateOwnPassword = async (password: string) => {
+  const { error } = await supabase.auth.updateUser({ password });
+  if (error) throw error;
+};
+
+export function ResetPassword({
+  title = 'Reset Password',
+  submitLabel = 'Reset Password',
+  intro,
+  minLength = 6,
+  onSubmit = updateOwnPassword,
+  successMessage = 'Password updated successfully! Redirecting to login...',
+}: ResetPasswordProps) {
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
@@ -22,14 +45,18 @@ export function ResetPassword() {
       setLoading(false);
       return;
     }
+    if (password.length < minLength) {
+      setError(`Password must be at least ${minLength} characters long.`);
+      setLoading(false);
+      return;
+    }
 
     try {
-      const { error } = await supabase.auth.updateUser({ password });
-      if (error) throw error;
-      setSuccess('Password updated successfully! Redirecting to login...');
+      await onSubmit(password);
+      setSuccess(successMessage);
       setTimeout(() => navigate('/agent-login'), 2000);
-    } catch (err: any) {
-      setError(err.message || 'Failed to update password.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update password.');
     } finally {
       setLoading(false);
     }
@@ -38,7 +65,8 @@ export function ResetPassword() {
   return (
     <div className="max-w-md mx-auto mt-12">
       <div className="bg-white p-8 rounded-lg shadow-lg">
-        <h1 className="text-2xl font-bold mb-6 text-center">Reset Password</h1>
+        <h1 className="text-2xl font-bold mb-6 text-center">{title}</h1>
+        {intro}
         {error && <div className="bg-red-50 text-red-600 p-4 rounded mb-4 flex items-start space-x-2"><AlertCircle className="w-5 h-5 mt-0.5" /><p>{error}</p></div>}
         {success && <div className="bg-green-50 text-green-600 p-4 rounded mb-4 flex items-center space-x-2"><CheckCircle className="w-5 h-5" /><p>{success}</p></div>}
         <form onSubmit={handleResetPassword} className="space-y-6">
@@ -75,9 +103,9 @@ export function ResetPassword() {
           <button
             type="submit"
             className={`w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 ${loading ? 'opacity-50 cursor-not-allowed' : ''}`}
-            disabled={loading}
+            disabled={loading || !!success}
           >
-            {loading ? 'Updating...' : 'Reset Password'}
+            {loading ? 'Updating...' : submitLabel}
           </button>
         </form>
       </div>
@@ -0,0 +1,298 @@
+import { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import moment from 'moment';
+import { Ban, ChevronDown, ChevronUp, Copy, Eye, Link2, Loader2, Lock, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import {
+  CreatedShareLink,
+  createShareLink,
+  fetchShareLinkAccessLog,
+  fetchShareLinks,
+  revokeShareLink,
+} from '../api/shareLinks';
+import { ShareAccessOutcome, ShareLinkAccessRow, ShareLinkRow, ShareResourceType } from '../types/database';
+import { SHARE_EXPIRY_OPTIONS, SHARE_RESOURCE_LABELS, ShareLinkStatus, shareLinkStatus } from '../utils/shareLinks';
+
+const STATUS_STYLES: Record<ShareLinkStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  expired: 'bg-gray-100 text-gray-700',
+  revoked: 'bg-red-100 text-red-800',
+};
+
+const OUTCOME_LABELS: Record<ShareAccessOutcome, string> = {
+  viewed: 'Viewed',
+  otp_required: 'Asked for code',
+  otp_failed: 'Wrong code',
+  locked: 'Locked out',
+  expired: 'Opened after expiry',
+  revoked: 'Opened after revoke',
+};
+
+interface ShareLinkDialogProps {
+  resourceType: ShareResourceType;
+  resourceId: string;
+  // Default label for new links; visitors see the label above the shared record.
+  title: string;
+  onClose: () => void;
+}
+
+// Creates and manages the share links for one record. A new link's URL and
+// code are shown once; afterwards only the link's status, views and access
+// log are available.
+export function ShareLinkDialog({ resourceType, resourceId, title, onClose }: ShareLinkDialogProps) {
+  const [links, setLinks] = useState<ShareLinkRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [label, setLabel] = useState(title);
+  const [expiresInDays, setExpiresInDays] = useState<number>(7);
+  const [requireOtp, setRequireOtp] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [created, setCreated] = useState<CreatedShareLink | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [accessLog, setAccessLog] = useState<ShareLinkAccessRow[]>([]);
+  const [loadingLog, setLoadingLog] = useState(false);
+
+  const loadLinks = useCallback(async () => {
+    try {
+      setLinks(await fetchShareLinks(resourceType, resourceId));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load share links');
+    } finally {
+      setLoading(false);
+    }
+  }, [resourceType, resourceId]);
+
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    try {
+      const result = await createShareLink({ resourceType, resourceId, label, expiresInDays, requireOtp });
+      setCreated(result);
+      setLinks((current) => [result.link, ...current]);
+      toast.success('Share link created');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to create share link');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLinkRow) => {
+    if (!window.confirm('Revoke this link? Anyone holding it will no longer be able to open it.')) return;
+    try {
+      const revoked = await revokeShareLink(link.id);
+      setLinks((current) => current.map((l) => (l.id === revoked.id ? revoked : l)));
+      toast.success('Share link revoked');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to revoke share link');
+    }
+  };
+
+  const toggleAccessLog = async (link: ShareLinkRow) => {
+    if (expanded === link.id) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(link.id);
+    setLoadingLog(true);
+    try {
+      setAccessLog(await fetchShareLinkAccessLog(link.id));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load access log');
+      setAccessLog([]);
+    } finally {
+      setLoadingLog(false);
+    }
+  };
+
+  const copy = async (text: string, what: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(`${what} copied`);
+    } catch {
+      toast.error(`Could not copy the ${what.toLowerCase()}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-blue-100 rounded-lg shadow-xl p-8 w-full max-w-2xl border border-blue-300 max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-blue-900 flex items-center">
+            <Link2 className="w-6 h-6 mr-2" /> Share {SHARE_RESOURCE_LABELS[resourceType].toLowerCase()}
+          </h2>
+          <button onClick={onClose} className="text-blue-900 hover:text-blue-700" aria-label="Close">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {created ? (
+          <div className="bg-white p-4 rounded-lg border border-blue-200 mb-6 space-y-3">
+            <p className="text-sm text-gray-700">
+              Copy the link now - it cannot be shown again. It expires {moment(created.link.expires_at).format('DD MMM YYYY, h:mm a')}.
+            </p>
+            <div className="flex items-center gap-2">
+              <input readOnly value={created.url} className="flex-1 p-2 border border-blue-200 rounded text-sm bg-blue-50" />
+              <button
+                onClick={() => copy(created.url, 'Link')}
+                className="px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center"
+              >
+                <Copy className="w-4 h-4 mr-1" /> Copy
+              </button>
+            </div>
+            {created.otp && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-gray-700 flex items-center">
+                  <Lock className="w-4 h-4 mr-1" /> Access code:
+                </span>
+                <span className="font-mono text-lg tracking-widest text-blue-900">{created.otp}</span>
+                <button onClick={() => copy(created.otp as string, 'Code')} className="text-blue-600 hover:text-blue-800">
+                  <Copy className="w-4 h-4" />
+                </button>
+                <span className="text-xs text-gray-500">Send the code separately from the link.</span>
+              </div>
+            )}
+            <button onClick={() => setCreated(null)} className="text-sm text-blue-600 hover:underline">
+              Create another link
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleCreate} className="bg-white p-4 rounded-lg border border-blue-200 mb-6 space-y-3">
+            <div>
+              <label className="block text-sm font-medium text-blue-900 mb-1">Label</label>
+              <input
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                className="w-full p-2 border border-blue-200 rounded"
+                placeholder="Who or what this link is for"
+              />
+            </div>
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="text-sm text-blue-900">
+                Expires after{' '}
+                <select
+                  value={expiresInDays}
+                  onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                  className="ml-1 p-2 border border-blue-200 rounded"
+                >
+                  {SHARE_EXPIRY_OPTIONS.map((days) => (
+                    <option key={days} value={days}>
+                      {days} {days === 1 ? 'day' : 'days'}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm text-blue-900 flex items-center">
+                <input
+                  type="checkbox"
+                  checked={requireOtp}
+                  onChange={(e) => setRequireOtp(e.target.checked)}
+                  className="mr-2"
+                />
+                Require an access code
+              </label>
+            </div>
+            <button
+              type="submit"
+              disabled={creating}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 flex items-center"
+            >
+              {creating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Link2 className="w-4 h-4 mr-2" />}
+              Create link
+            </button>
+          </form>
+        )}
+
+        <h3 className="text-lg font-semibold text-blue-900 mb-2">Links</h3>
+        {loading ? (
+          <div className="flex items-center text-blue-900 py-4">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" /> Loading links...
+          </div>
+        ) : !links.length ? (
+          <p className="text-gray-500">Nothing has been shared yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {links.map((link) => {
+              const status = shareLinkStatus(link);
+              return (
+                <li key={link.id} className="bg-white rounded-lg border border-blue-200 p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <p className="font-medium text-blue-900 flex items-center">
+                        {link.label || 'Untitled link'}
+                        {link.otp_hash && <Lock className="w-4 h-4 ml-1 text-gray-500" aria-label="Code protected" />}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Created {moment(link.created_at).format('DD MMM YYYY')} · expires{' '}
+                        {moment(link.expires_at).format('DD MMM YYYY')} · {link.view_count}{' '}
+                        {link.view_count === 1 ? 'view' : 'views'}
+                        {link.last_viewed_at && `, last ${moment(link.last_viewed_at).fromNow()}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>{status}</span>
+                      <button
+                        onClick={() => toggleAccessLog(link)}
+                        className="text-blue-600 hover:text-blue-800 flex items-center text-sm"
+                      >
+                        <Eye className="w-4 h-4 mr-1" /> Log
+                        {expanded === link.id ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                      </button>
+                      {status === 'active' && (
+                        <button
+                          onClick={() => handleRevoke(link)}
+                          className="text-red-600 hover:text-red-800 flex items-center text-sm"
+                        >
+                          <Ban className="w-4 h-4 mr-1" /> Revoke
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  {expanded === link.id && (
+                    <div className="mt-3 border-t border-blue-100 pt-2">
+                      {loadingLog ? (
+                        <Loader2 className="w-4 h-4 animate-spin text-blue-900" />
+                      ) : !accessLog.length ? (
+                        <p className="text-sm text-gray-500">Nobody has opened this link yet.</p>
+                      ) : (
+                        <table className="w-full text-xs">
+                          <thead>
+                            <tr className="text-left text-gray-500">
+                              <th className="py-1">When</th>
+                              <th className="py-1">Outcome</th>
+                              <th className="py-1">IP address</th>
+                              <th className="py-1">Browser</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {accessLog.map((entry) => (
+                              <tr key={entry.id} className="border-t border-blue-50">
+                                <td className="py-1">{moment(entry.accessed_at).format('DD MMM YYYY, h:mm a')}</td>
+                                <td className="py-1">{OUTCOME_LABELS[entry.outcome]}</td>
+                                <td className="py-1">{entry.ip_address || '-'}</td>
+                                <td className="py-1 truncate max-w-[12rem]" title={entry.user_agent || ''}>
+                                  {entry.user_agent || '-'}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </motion.div>
+    </div>
+  );
+}
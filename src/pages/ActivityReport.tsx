@@ -3,19 +3,18 @@ import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../store/authStore';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, PieChart, Pie, Cell } from 'recharts';
 import { Phone, Users, DoorClosed, Link as LinkIcon, CheckCircle, TrendingUp, Edit2, Search, Download, Mic, Building, Bell, Calendar, Tag, Home, BarChart2, PieChart as PieChartIcon } from 'lucide-react';
-import * as tf from '@tensorflow/tfjs';
+import { analyzePriceTrend } from '../api/priceHistory';
+import { fetchAllProperties } from '../api/properties';
+import { ExportDialog } from '../components/ExportDialog';
 import { Navigation } from '../components/Navigation';
+import { activeFilters, ExportSpec, exportTable } from '../utils/exporter';
+import { PropertyRow as Property } from '../types/database';
+import { PredictionResult } from '../utils/forecasting';
 type ActivityType = 'phone_call' | 'client_meeting' | 'door_knock' | 'connection';
 
-interface Property {
-  id: string;
-  name: string;
-  street_name?: string;
-  property_type: string;
-  features?: string[];
-  city?: string;
-  price?: number;
-}
+// Listings are named by their street address.
+const propertyName = (property: Property) =>
+  [property.street_number, property.street_name].filter(Boolean).join(' ') || 'Unnamed property';
 
 interface Activity {
   id: string;
@@ -40,17 +39,6 @@ interface PerformanceMetrics {
   activityEfficiency: Record<ActivityType, number>;
 }
 
-interface PredictionResult {
-  recommendation: 'BUY' | 'SELL' | 'HOLD';
-  confidence: number;
-  trend: number;
-  historicalData: { dates: string[]; prices: number[] };
-  bestTimeToSell?: string;
-  estimatedValue?: number;
-  marketCondition?: 'Rising' | 'Stable' | 'Declining';
-  nextPrice?: number;
-}
-
 export function AgentReports() {
   const { user, profile } = useAuthStore();
   const [activities, setActivities] = useState<Activity[]>([]);
@@ -74,6 +62,7 @@ export function AgentReports() {
   const [prediction, setPrediction] = useState<PredictionResult | null>(null);
   const [showPrediction, setShowPrediction] = useState(false);
   const [notifications, setNotifications] = useState<string[]>([]);
+  const [isExportOpen, setIsExportOpen] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -98,100 +87,31 @@ export function AgentReports() {
   };
 
   const fetchProperties = async () => {
+    if (!user) return;
     try {
-      const { data, error } = await supabase
-        .from('properties')
-        .select('id, name, street_name, property_type, features, city, price')
-        .eq('user_id', user?.id);
-      if (error) throw error;
-      setProperties(data || []);
+      setProperties(await fetchAllProperties({ filters: { userId: user.id } }));
     } catch (err) {
       console.error('Fetch properties error:', err);
     }
   };
 
-  const analyzePriceTrend = async (city: string, propertyType: string, currentPrice: number): Promise<PredictionResult> => {
-    // ... (unchanged from original)
-    try {
-      const oneYearAgo = new Date();
-      oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
-
-      const { data: historicalData, error } = await supabase
-        .from('property_history')
-        .select('sale_date, price')
-        .eq('city', city)
-        .eq('property_type', propertyType)
-        .gte('sale_date', oneYearAgo.toISOString())
-        .order('sale_date', { ascending: true });
-
-      if (error) throw error;
-      if (!historicalData || historicalData.length === 0) {
-        return {
-          recommendation: 'HOLD',
-          confidence: 50,
-          trend: 0,
-          historicalData: { dates: [], prices: [] },
-        };
-      }
-
-      const dates = historicalData.map((record) =>
-        new Date(record.sale_date).toLocaleDateString('en-AU', { month: 'short', year: 'numeric' })
-      );
-      const prices = historicalData.map((record) => record.price);
-
-      const model = tf.sequential();
-      model.add(tf.layers.dense({ units: 1, inputShape: [1] }));
-      model.compile({ optimizer: 'sgd', loss: 'meanSquaredError' });
-
-      const xs = tf.tensor1d(prices.map((_, i) => i));
-      const ys = tf.tensor1d(prices);
-      await model.fit(xs, ys, { epochs: 100 });
-
-      const nextIndex = prices.length;
-      const nextPriceTensor = model.predict(tf.tensor1d([nextIndex])) as tf.Tensor;
-      const nextPrice = nextPriceTensor.dataSync()[0];
-
-      const slope = ((nextPrice - prices[prices.length - 1]) / prices[prices.length - 1]) * 100;
-      const marketCondition: 'Rising' | 'Stable' | 'Declining' = slope > 3 ? 'Rising' : slope < -3 ? 'Declining' : 'Stable';
-      const recommendation: 'BUY' | 'SELL' | 'HOLD' = slope > 5 ? 'BUY' : slope < -5 ? 'SELL' : 'HOLD';
-      const estimatedValue = currentPrice * (1 + slope / 100);
-
-      const today = new Date();
-      const sixMonthsFromNow = new Date(today.setMonth(today.getMonth() + 6));
-      const bestTimeToSell = new Date(
-        today.getTime() + Math.random() * (sixMonthsFromNow.getTime() - today.getTime())
-      ).toLocaleDateString('en-AU', { year: 'numeric', month: 'long', day: 'numeric' });
-
-      return {
-        recommendation,
-        confidence: Math.min(Math.abs(slope) * 2, 95),
-        trend: slope,
-        historicalData: { dates, prices },
-        bestTimeToSell,
-        estimatedValue,
-        marketCondition,
-        nextPrice,
-      };
-    } catch (error) {
-      console.error('Error analyzing price trend:', error);
-      return {
-        recommendation: 'HOLD',
-        confidence: 50,
-        trend: 0,
-        historicalData: { dates: [], prices: [] },
-      };
-    }
-  };
-
   const predictProperty = async (propertyId: string) => {
     const property = properties.find((p) => p.id === propertyId);
-    if (!property || !property.city || !property.price) return;
+    const suburb = property?.suburb || property?.city;
+    if (!property || !suburb || !property.price) return;
+    const price = property.price;
 
     setSubmitting(true);
-    const predictionResult = await analyzePriceTrend(property.city, property.property_type, property.price);
-    setPrediction(predictionResult);
-    setShowPrediction(true);
-    setSubmitting(false);
+    try {
+      const predictionResult = await analyzePriceTrend(suburb, property.property_type || undefined);
+      // The forecast is for the suburb; carry its trend onto this listing's price.
+      setPrediction({ ...predictionResult, estimatedValue: price * (1 + predictionResult.trend / 100) });
+      setShowPrediction(true);
+    } catch (err) {
+      console.error('Price trend error:', err);
+    } finally {
+      setSubmitting(false);
+    }
   };
 
   const handleSubmit = async () => {
@@ -383,29 +303,41 @@ export function AgentReports() {
       return (
         activity.notes?.toLowerCase().includes(searchQuery.toLowerCase()) ||
         activity.tags?.some((tag) => tag.toLowerCase().includes(searchQuery.toLowerCase())) ||
-        property?.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        (property && propertyName(property).toLowerCase().includes(searchQuery.toLowerCase())) ||
         property?.street_name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        property?.property_type.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        property?.property_type?.toLowerCase().includes(searchQuery.toLowerCase()) ||
         property?.features?.some((f) => f.toLowerCase().includes(searchQuery.toLowerCase()))
       );
     }
   );
 
-  const exportToCSV = () => {
-    // ... (unchanged from original)
-    const headers = ['ID,Type,Date,Notes,Tags,Name,Street Name,Property Type,Features'];
-    const rows = filteredActivities.map((activity) => {
-      const property = properties.find((p) => p.id === activity.property_id);
-      return `${activity.id},${activity.activity_type},${activity.activity_date},${activity.notes || ''},${activity.tags?.join(';') || ''},${property?.name || ''},${property?.street_name || ''},${property?.property_type || ''},${property?.features?.join(';') || ''}`;
-    });
-    const csvContent = [...headers, ...rows].join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.setAttribute('download', `agent_activities_${new Date().toISOString()}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const activityExportSpec = (): ExportSpec => {
+    const propertyOf = (activity: Activity) => properties.find((p) => p.id === activity.property_id);
+    return {
+      id: 'agent_activities',
+      title: 'Agent Activities',
+      filters: activeFilters({ Search: searchQuery.trim() }),
+      tables: [
+        exportTable({
+          name: 'Activities',
+          rows: filteredActivities,
+          columns: [
+            { key: 'activity_date', label: 'Date', value: (activity) => activity.activity_date },
+            { key: 'activity_type', label: 'Type', value: (activity) => activity.activity_type },
+            { key: 'notes', label: 'Notes', value: (activity) => activity.notes },
+            { key: 'tags', label: 'Tags', value: (activity) => activity.tags?.join(', ') },
+            { key: 'property', label: 'Property', value: (activity) => {
+              const property = propertyOf(activity);
+              return property && propertyName(property);
+            } },
+            { key: 'street_name', label: 'Street Name', value: (activity) => propertyOf(activity)?.street_name },
+            { key: 'property_type', label: 'Property Type', value: (activity) => propertyOf(activity)?.property_type },
+            { key: 'features', label: 'Features', value: (activity) => propertyOf(activity)?.features?.join(', '), hidden: true },
+            { key: 'id', label: 'ID', value: (activity) => activity.id, hidden: true },
+          ],
+        }),
+      ],
+    };
   };
 
   if (!profile || (profile.role !== 'agent' && profile.role !== 'admin')) {
@@ -422,6 +354,8 @@ export function AgentReports() {
 
   const COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff7300'];
 
+  const predictedProperty = properties.find((p) => p.id === editPropertyId);
+
   return (
     <div className="max-w-4xl mx-auto p-4">
       <h1 className="text-3xl font-bold mb-6">Agent Reports</h1>
@@ -549,8 +483,8 @@ export function AgentReports() {
                 <option value="">No property linked</option>
                 {properties.map((property) => (
                   <option key={property.id} value={property.id}>
-                    {property.name} ({property.property_type})
-                    {property.street_name ? ` - ${property.street_name}` : ''}
+                    {propertyName(property)}
+                    {property.property_type ? ` (${property.property_type})` : ''}
                   </option>
                 ))}
               </select>
@@ -602,7 +536,7 @@ export function AgentReports() {
             <div className="flex items-center mb-4">
               <Building className="w-6 h-6 text-blue-600 mr-2" />
               <h2 className="text-xl font-semibold">
-                Prediction for {properties.find((p) => p.id === editPropertyId)?.name}
+                Prediction for {predictedProperty && propertyName(predictedProperty)}
               </h2>
             </div>
             <div className="grid grid-cols-1 gap-4">
@@ -617,7 +551,7 @@ export function AgentReports() {
                 {new Intl.NumberFormat('en-AU', { style: 'currency', currency: 'AUD' }).format(prediction.estimatedValue || 0)}
               </p>
               <p>
-                <strong>Best Time to Sell:</strong> {prediction.bestTimeToSell}
+                <strong>Best Time to Sell:</strong> {prediction.bestTimeToSell || 'N/A'}
               </p>
               <p>
                 <strong>Next Month Prediction:</strong>{' '}
@@ -655,10 +589,10 @@ export function AgentReports() {
           />
         </div>
         <button
-          onClick={exportToCSV}
+          onClick={() => setIsExportOpen(true)}
           className="py-2 px-4 bg-green-500 text-white rounded hover:bg-green-600 flex items-center"
         >
-          <Download className="w-5 h-5 mr-2" /> Export CSV
+          <Download className="w-5 h-5 mr-2" /> Export
         </button>
       </div>
 
@@ -683,7 +617,7 @@ export function AgentReports() {
                       {linkedProperty && (
                         <span className="inline-block px-2 py-1 bg-blue-100 text-blue-700 rounded text-sm mt-1">
                           <Home className="w-3 h-3 inline-block mr-1" />
-                          {linkedProperty.name}
+                          {propertyName(linkedProperty)}
                         </span>
                       )}
                       <p className="text-sm text-gray-500 mt-1">
@@ -753,6 +687,7 @@ export function AgentReports() {
           </PieChart>
         </div>
       )}
+      {isExportOpen && <ExportDialog spec={activityExportSpec()} onClose={() => setIsExportOpen(false)} />}
     </div>
   );
 }
\ No newline at end of file
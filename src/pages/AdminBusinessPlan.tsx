@@ -1,5 +1,4 @@
 import { motion } from 'framer-motion';
-import jsPDF from 'jspdf';
 import {
   ArrowRight,
   BarChart3,
@@ -24,8 +23,9 @@ import { useNavigate } from 'react-router-dom';
 import { Bar, BarChart, CartesianGrid, LabelList, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../store/authStore';
-// import 'jspdf-autotable';
-import autoTable from 'jspdf-autotable';
+import { TeamPlanTracking } from '../components/PlanTrackingPanel';
+import { defineReport, downloadReport, reportDataUri } from '../utils/pdfReport';
+import { formatCurrency } from '../utils/formatters';
 import { v4 as uuidv4 } from 'uuid';
 
 interface AgentFinancials {
@@ -89,6 +89,107 @@ interface AgentData {
   super_amount: number | null;
 }
 
+interface BusinessPlanReportData {
+  plan: AdminBusinessPlan;
+  agents: AgentData[];
+  totals: Omit<AgentData, 'name' | 'super_amount'>;
+  additionalExpensesTotal: number;
+  netIncome: { net_income: number; profit_loss: number };
+  timeFrame: 'yearly' | 'monthly' | 'weekly' | null;
+}
+
+const moneyOrNA = (value: number | null | undefined) => (value ? formatCurrency(Math.round(value)) : 'N/A');
+const percentOrNA = (value: number | null | undefined) => (value != null ? `${Math.round(value)}%` : 'N/A');
+const timeFrameLabel = (timeFrame: BusinessPlanReportData['timeFrame']) =>
+  timeFrame ? timeFrame.charAt(0).toUpperCase() + timeFrame.slice(1) : 'Total';
+
+const BUSINESS_PLAN_REPORT = defineReport<BusinessPlanReportData>({
+  id: 'admin_business_plan',
+  title: ({ timeFrame }) => `Admin Business Plan (${timeFrameLabel(timeFrame)})`,
+  fileName: ({ timeFrame }) => `admin_business_plan_${timeFrame || 'total'}_${new Date().toISOString().split('T')[0]}.pdf`,
+  sections: ({ plan, agents, totals, additionalExpensesTotal, netIncome, timeFrame }) => {
+    // The percentage totals are averaged over the agents.
+    const average = (total: number | null) => (total && agents.length ? `${Math.round(total / agents.length)}%` : 'N/A');
+    return [
+      {
+        type: 'kpis',
+        items: [
+          { label: 'Net Income', value: formatCurrency(Math.round(netIncome.net_income)) },
+          { label: 'Expenses', value: moneyOrNA(additionalExpensesTotal) },
+          {
+            label: 'Profit/Loss',
+            value: formatCurrency(Math.round(netIncome.profit_loss)),
+            tone: netIncome.profit_loss >= 0 ? 'good' : 'bad',
+          },
+        ],
+      },
+      {
+        type: 'table',
+        title: 'Agent Financials',
+        fontSize: 7,
+        head: ['Agent', 'Bus. %', 'Agt. %', 'Fran. %', 'Comm.', 'F. Fee', 'A. Comm', 'B. Exp', 'A. Exp', 'B. Earn', 'A. Earn'],
+        rows: agents.map((agent) => [
+          agent.name || 'N/A',
+          percentOrNA(agent.business_commission_percentage),
+          percentOrNA(agent.agent_commission_percentage),
+          percentOrNA(agent.franchise_percentage),
+          moneyOrNA(agent.business_commission),
+          moneyOrNA(agent.franchise_fee),
+          moneyOrNA(agent.agent_commission),
+          moneyOrNA(agent.business_expenses),
+          moneyOrNA(agent.agent_expenses),
+          moneyOrNA(agent.business_earnings),
+          moneyOrNA(agent.agent_earnings),
+        ]),
+        foot: [
+          'Total',
+          average(totals.business_commission_percentage),
+          average(totals.agent_commission_percentage),
+          average(totals.franchise_percentage),
+          moneyOrNA(totals.business_commission),
+          moneyOrNA(totals.franchise_fee),
+          moneyOrNA(totals.agent_commission),
+          moneyOrNA(totals.business_expenses),
+          moneyOrNA(totals.agent_expenses),
+          moneyOrNA(totals.business_earnings),
+          moneyOrNA(totals.agent_earnings),
+        ],
+        tone: (row, column) => {
+          const earnings = column === 9 ? agents[row]?.business_earnings : column === 10 ? agents[row]?.agent_earnings : null;
+          return earnings != null && earnings < 0 ? 'bad' : undefined;
+        },
+      },
+      {
+        type: 'columns',
+        sections: [
+          {
+            type: 'facts',
+            title: `Additional Expenses (${timeFrameLabel(timeFrame)})`,
+            facts: [
+              { label: 'Rent', value: moneyOrNA(plan.rent) },
+              { label: 'Staff Salary', value: moneyOrNA(plan.staff_salary) },
+              { label: 'Internet/Mobile', value: moneyOrNA(plan.internet) },
+              { label: 'Fuel', value: moneyOrNA(plan.fuel) },
+              { label: 'Other Expenses', value: moneyOrNA(plan.other_expenses) },
+              { label: 'Total', value: moneyOrNA(additionalExpensesTotal) },
+            ],
+          },
+          {
+            type: 'facts',
+            title: 'Plan Details',
+            facts: [
+              { label: 'Time Frame', value: timeFrame ? timeFrameLabel(timeFrame) : 'N/A' },
+              { label: 'Agent Names', value: agents.map((agent) => agent.name).join(', ') || 'N/A' },
+              { label: 'Created At', value: plan.created_at || 'N/A' },
+              { label: 'Updated At', value: plan.updated_at || 'N/A' },
+            ],
+          },
+        ],
+      },
+    ];
+  },
+});
+
 interface RatioSliderProps {
   label: string;
   value: number;
@@ -1065,276 +1166,33 @@ const calculateAgentData = () => {
       }
     );
   };
-const generatePDF = (forView = false) => {
+const generatePDF = async (forView = false) => {
   setGenerating(true);
-  const doc = new jsPDF();
-  const pageWidth = doc.internal.pageSize.getWidth();
-  const pageHeight = doc.internal.pageSize.getHeight();
-  const margin = 10;
-  let yOffset = margin;
-
-  // Debug: Log plan.agents and agentsData to identify duplicates
-  console.log('plan.agents:', plan.agents.map(agent => ({
-    name: agent.name,
-    agent_id: agent.agent_id
-  })));
-  console.log('Agents Data:', agentsData.map(agent => ({
-    name: agent.name,
-    agent_id: agent.agent_id,
-    agent_earnings: agent.agent_earnings
-  })));
-
-  // Deduplicate agentsData by agent_id (preferred) or name
-  const uniqueAgentsData = Array.from(
-    new Map(
-      agentsData.map(agent => [agent.agent_id || agent.name, agent])
-    ).values()
-  );
-  console.log('Unique Agents Data:', uniqueAgentsData.map(agent => ({
-    name: agent.name,
-    agent_id: agent.agent_id,
-    agent_earnings: agent.agent_earnings
-  })));
-
-  // Header (unchanged from previous response)
-  doc.setFillColor(59, 130, 246);
-  doc.rect(0, 0, pageWidth, 28, 'F');
-  doc.setTextColor(255, 255, 255);
-  doc.setFontSize(20);
-  doc.setFont('Helvetica', 'bold');
-  doc.text(`Admin Business Plan (${timeFrame ? timeFrame.charAt(0).toUpperCase() + timeFrame.slice(1) : 'N/A'})`, margin, yOffset + 12);
-  doc.setFontSize(12);
-  doc.setFont('Helvetica', 'normal');
-  doc.text(
-    `Generated on ${new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`,
-    pageWidth - margin - 60,
-    yOffset + 12,
-  );
-  yOffset += 34;
-
-  // Agent Financials Section
-  doc.setFont('Helvetica', 'bold');
-  doc.setFontSize(16);
-  doc.setFillColor(219, 234, 254);
-  doc.rect(margin, yOffset, pageWidth - 2 * margin, 16, 'F');
-  doc.setTextColor(17, 24, 39);
-  doc.text('Agent Financials', margin + 3, yOffset + 11);
-  yOffset += 18;
-
-  doc.setFont('Helvetica', 'normal');
-  doc.setFontSize(12);
-  autoTable(doc, {
-    startY: yOffset,
-    head: [
-      [
-        'Agent',
-        'Bus. %',
-        'Agt. %',
-        'Fran. %',
-        'Comm.',
-        'F. Fee',
-        'A. Comm',
-        'B. Exp',
-        'A. Exp',
-        'B. Earn',
-        'A. Earn',
-      ],
-    ],
-    body: uniqueAgentsData.map(agent => [
-      // Truncate agent name to 20 characters to prevent overflow
-      (agent.name || 'N/A').length > 20 ? `${agent.name.slice(0, 17)}...` : agent.name || 'N/A',
-      agent.business_commission_percentage != null ? `${Math.round(agent.business_commission_percentage)}%` : 'N/A',
-      agent.agent_commission_percentage != null ? `${Math.round(agent.agent_commission_percentage)}%` : 'N/A',
-      agent.franchise_percentage != null ? `${Math.round(agent.franchise_percentage)}%` : 'N/A',
-      agent.business_commission != null ? `$${Math.round(agent.business_commission).toLocaleString('en-US')}` : 'N/A',
-      agent.franchise_fee != null ? `$${Math.round(agent.franchise_fee).toLocaleString('en-US')}` : 'N/A',
-      agent.agent_commission != null ? `$${Math.round(agent.agent_commission).toLocaleString('en-US')}` : 'N/A',
-      agent.business_expenses != null ? `$${Math.round(agent.business_expenses).toLocaleString('en-US')}` : 'N/A',
-      agent.agent_expenses != null ? `$${Math.round(agent.agent_expenses).toLocaleString('en-US')}` : 'N/A',
-      agent.business_earnings != null ? `$${Math.round(agent.business_earnings).toLocaleString('en-US')}` : 'N/A',
-      agent.agent_earnings != null ? `$${Math.round(agent.agent_earnings).toLocaleString('en-US')}` : 'N/A',
-    ]).concat([
-      {
-        content: [
-          'Total',
-          totals.business_commission_percentage
-            ? `${Math.round(totals.business_commission_percentage / uniqueAgentsData.length)}%`
-            : 'N/A',
-          totals.agent_commission_percentage
-            ? `${Math.round(totals.agent_commission_percentage / uniqueAgentsData.length)}%`
-            : 'N/A',
-          totals.franchise_percentage
-            ? `${Math.round(totals.franchise_percentage / uniqueAgentsData.length)}%`
-            : 'N/A',
-          totals.business_commission
-            ? `$${Math.round(totals.business_commission).toLocaleString('en-US')}`
-            : 'N/A',
-          totals.franchise_fee
-            ? `$${Math.round(totals.franchise_fee).toLocaleString('en-US')}`
-            : 'N/A',
-          totals.agent_commission
-            ? `$${Math.round(totals.agent_commission).toLocaleString('en-US')}`
-            : 'N/A',
-          totals.business_expenses
-            ? `$${Math.round(totals.business_expenses).toLocaleString('en-US')}`
-            : 'N/A',
-          totals.agent_expenses
-            ? `$${Math.round(totals.agent_expenses).toLocaleString('en-US')}`
-            : 'N/A',
-          totals.business_earnings
-            ? `$${Math.round(totals.business_earnings).toLocaleString('en-US')}`
-            : 'N/A',
-          totals.agent_earnings
-            ? `$${Math.round(totals.agent_earnings).toLocaleString('en-US')}`
-            : 'N/A',
-        ],
-        styles: { fillColor: [229, 231, 235], fontStyle: 'bold' }, // Highlight totals row
-      },
-    ]),
-    theme: 'striped',
-    styles: {
-      fontSize: 12,
-      cellPadding: 0.4,
-      textColor: [17, 24, 39],
-      fillColor: [243, 244, 246],
-      lineWidth: 0.2, // Thicker grid lines for clarity
-      lineColor: [209, 213, 219],
-      halign: 'center',
-      valign: 'middle',
-    },
-    headStyles: {
-      fillColor: [37, 99, 235], // Darker blue for contrast
-      textColor: [255, 255, 255],
-      fontStyle: 'bold',
-      halign: 'center',
-      fontSize: 12,
-      cellPadding: 0.4,
-    },
-    columnStyles: {
-      0: { cellWidth: 18, halign: 'left' }, // Agent
-      1: { cellWidth: 11, halign: 'center' }, // Bus. %
-      2: { cellWidth: 11, halign: 'center' }, // Agt. %
-      3: { cellWidth: 11, halign: 'center' }, // Fran. %
-      4: { cellWidth: 16, halign: 'center' }, // Comm.
-      5: { cellWidth: 16, halign: 'center' }, // F. Fee
-      6: { cellWidth: 16, halign: 'center' }, // A. Comm
-      7: { cellWidth: 16, halign: 'center' }, // B. Exp
-      8: { cellWidth: 16, halign: 'center' }, // A. Exp
-      9: { cellWidth: 16, halign: 'center' }, // B. Earn
-      10: { cellWidth: 19, halign: 'center' }, // A. Earn
-    },
-    margin: { left: margin, right: margin },
-  });
-  yOffset = (doc as any).lastAutoTable.finalY + 18;
-
-  // Additional Expenses Section (unchanged, using 12pt font for consistency)
-  doc.setFont('Helvetica', 'bold');
-  doc.setFontSize(16);
-  doc.setFillColor(219, 234, 254);
-  doc.rect(margin, yOffset, pageWidth - 2 * margin, 16, 'F');
-  doc.setTextColor(17, 24, 39);
-  doc.text('Additional Expenses', margin + 3, yOffset + 11);
-  yOffset += 18;
-
-  doc.setFont('Helvetica', 'normal');
-  doc.setFontSize(12);
-  autoTable(doc, {
-    startY: yOffset,
-    head: [['Field', `${timeFrame ? timeFrame.charAt(0).toUpperCase() + timeFrame.slice(1) : 'Total'}`]],
-    body: [
-      ['Rent', plan.rent ? `$${Math.round(plan.rent).toLocaleString('en-US')}` : 'N/A'],
-      ['Staff Salary', plan.staff_salary ? `$${Math.round(plan.staff_salary).toLocaleString('en-US')}` : 'N/A'],
-      ['Internet/Mobile', plan.internet ? `$${Math.round(plan.internet).toLocaleString('en-US')}` : 'N/A'],
-      ['Fuel', plan.fuel ? `$${Math.round(plan.fuel).toLocaleString('en-US')}` : 'N/A'],
-      ['Other Expenses', plan.other_expenses ? `$${Math.round(plan.other_expenses).toLocaleString('en-US')}` : 'N/A'],
-      ['Total', additionalExpensesTotal ? `$${Math.round(additionalExpensesTotal).toLocaleString('en-US')}` : 'N/A'],
-    ],
-    theme: 'striped',
-    styles: { fontSize: 12, cellPadding: 0.4, textColor: [17, 24, 39], fillColor: [243, 244, 246], lineWidth: 0.2, lineColor: [209, 213, 219], halign: 'center', valign: 'middle' },
-    headStyles: { fillColor: [37, 99, 235], textColor: [255, 255, 255], fontStyle: 'bold', halign: 'center', fontSize: 12, cellPadding: 0.4 },
-    columnStyles: {
-      0: { cellWidth: 50, halign: 'left' },
-      1: { cellWidth: 50, halign: 'center' },
-    },
-    margin: { left: margin, right: margin },
-  });
-  yOffset = (doc as any).lastAutoTable.finalY + 18;
-
-  // Net Income and Profit/Loss Section (unchanged, using 12pt font)
-  doc.setFont('Helvetica', 'bold');
-  doc.setFontSize(16);
-  doc.setFillColor(219, 234, 254);
-  doc.rect(margin, yOffset, pageWidth - 2 * margin, 16, 'F');
-  doc.setTextColor(17, 24, 39);
-  doc.text('Net Income and Profit/Loss', margin + 3, yOffset + 11);
-  yOffset += 18;
-
-  const netIncomeData = calculateNetIncomeAndProfitLoss();
-  doc.setFont('Helvetica', 'normal');
-  doc.setFontSize(12);
-  autoTable(doc, {
-    startY: yOffset,
-    head: [['Metric', `${timeFrame ? timeFrame.charAt(0).toUpperCase() + timeFrame.slice(1) : 'Total'}`]],
-    body: [
-      ['Net Income', netIncomeData.net_income != null ? `$${Math.round(netIncomeData.net_income).toLocaleString('en-US')}` : 'N/A'],
-      ['Profit/Loss', netIncomeData.profit_loss != null ? `$${Math.round(netIncomeData.profit_loss).toLocaleString('en-US')}` : 'N/A'],
-    ],
-    theme: 'striped',
-    styles: { fontSize: 12, cellPadding: 0.4, textColor: [17, 24, 39], fillColor: [243, 244, 246], lineWidth: 0.2, lineColor: [209, 213, 219], halign: 'center', valign: 'middle' },
-    headStyles: { fillColor: [37, 99, 235], textColor: [255, 255, 255], fontStyle: 'bold', halign: 'center', fontSize: 12, cellPadding: 0.4 },
-    columnStyles: {
-      0: { cellWidth: 50, halign: 'left' },
-      1: { cellWidth: 50, halign: 'center' },
-    },
-    margin: { left: margin, right: margin },
-  });
-  yOffset = (doc as any).lastAutoTable.finalY + 18;
-
-  // Metadata Section (unchanged, using uniqueAgentsData for Agent Names)
-  doc.setFont('Helvetica', 'bold');
-  doc.setFontSize(16);
-  doc.setFillColor(219, 234, 254);
-  doc.rect(margin, yOffset, pageWidth - 2 * margin, 16, 'F');
-  doc.setTextColor(17, 24, 39);
-  doc.text('Metadata', margin + 3, yOffset + 11);
-  yOffset += 18;
-
-  doc.setFont('Helvetica', 'normal');
-  doc.setFontSize(12);
-  autoTable(doc, {
-    startY: yOffset,
-    head: [['Field', 'Value']],
-    body: [
-      ['Created At', plan.created_at || 'N/A'],
-      ['Updated At', plan.updated_at || 'N/A'],
-      ['Agent Names', uniqueAgentsData.map(agent => agent.name).join(', ') || 'N/A'],
-      ['Time Frame', timeFrame ? timeFrame.charAt(0).toUpperCase() + timeFrame.slice(1) : 'N/A'],
-    ],
-    theme: 'striped',
-    styles: { fontSize: 12, cellPadding: 0.4, textColor: [17, 24, 39], fillColor: [243, 244, 246], lineWidth: 0.2, lineColor: [209, 213, 219], halign: 'center', valign: 'middle' },
-    headStyles: { fillColor: [37, 99, 235], textColor: [255, 255, 255], fontStyle: 'bold', halign: 'center', fontSize: 12, cellPadding: 0.4 },
-    columnStyles: {
-      0: { cellWidth: 50, halign: 'left' },
-      1: { cellWidth: 90, halign: 'center' },
-    },
-    margin: { left: margin, right: margin },
-  });
-
-  // Footer (unchanged)
-  doc.setFontSize(12);
-  doc.setTextColor(100, 100, 100);
-  doc.text(`Page 1 of 1`, pageWidth - margin - 18, pageHeight - margin);
-  doc.text('Generated by RealRed Enterprises', margin, pageHeight - margin);
+  // calculateAgentData already keeps one row per agent; this guards against
+  // the same name coming through twice from saved plans.
+  const uniqueAgentsData = Array.from(new Map(agentsData.map((agent) => [agent.name, agent])).values());
+  const report: BusinessPlanReportData = {
+    plan,
+    agents: uniqueAgentsData,
+    totals,
+    additionalExpensesTotal,
+    netIncome: calculateNetIncomeAndProfitLoss(),
+    timeFrame,
+  };
 
-  if (forView) {
-    const pdfDataUri = doc.output('datauristring');
-    setPdfDataUri(pdfDataUri);
-    setGenerating(false);
-    toast.success('PDF generated for viewing!');
-  } else {
-    doc.save(`admin_business_plan_${timeFrame || 'total'}_${new Date().toISOString().split('T')[0]}.pdf`);
+  try {
+    if (forView) {
+      setPdfDataUri(await reportDataUri(BUSINESS_PLAN_REPORT, report));
+      toast.success('PDF generated for viewing!');
+    } else {
+      await downloadReport(BUSINESS_PLAN_REPORT, report);
+      toast.success('PDF downloaded successfully!');
+    }
+  } catch (err) {
+    console.error('generatePDF error:', err);
+    toast.error('Failed to generate PDF');
+  } finally {
     setGenerating(false);
-    toast.success('PDF downloaded successfully!');
   }
 };
 
@@ -1495,6 +1353,14 @@ const downloadPlan = () => {
           </div>
         </motion.div>
 
+        <div className="bg-white p-6 rounded-lg shadow-md border border-blue-200 mb-8">
+          <h2 className="text-xl font-semibold text-blue-900 mb-4 flex items-center">
+            <BarChart3 className="w-5 h-5 mr-2 text-blue-600" />
+            Team Progress vs Plan
+          </h2>
+          <TeamPlanTracking />
+        </div>
+
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
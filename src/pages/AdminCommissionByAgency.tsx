@@ -11,12 +11,19 @@ import {
 } from 'chart.js';
 import ChartDataLabels from 'chartjs-plugin-datalabels';
 import { motion, AnimatePresence } from 'framer-motion';
-import { supabase } from '../lib/supabase';
+import { fetchAllProperties, updateAgencyCommission as saveAgencyCommission } from '../api/properties';
 import { PropertyDetails } from './Reports';
+import { fetchCommissionLedger, ledgerByProperty } from '../api/commissionLedger';
+import { CommissionLedgerRow } from '../types/database';
+import { propertyCommission } from '../utils/commission';
+import { normalizeSuburb } from '../utils/gazetteer';
 import { formatCurrency } from '../utils/formatters';
+import { ExportDialog } from '../components/ExportDialog';
+import { activeFilters, ExportSpec, exportTable } from '../utils/exporter';
+import { SUBURB_COMMISSION_EXPORT_COLUMNS } from '../utils/exportColumns';
+import { downloadReport } from '../utils/pdfReport';
+import { COMMISSION_REPORT } from '../utils/reportTemplates';
 import { toast } from 'react-toastify';
-import jsPDF from 'jspdf';
-import autoTable from 'jspdf-autotable';
 import { Download, ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Pencil, RotateCcw } from 'lucide-react';
 import { useAuthStore } from '../store/authStore';
 import { useNavigate } from 'react-router-dom';
@@ -105,34 +112,14 @@ const normalizeAgentName = (name: string | null | undefined): string => {
     .join(' ');
 };
 
-const normalizeSuburbName = (name: string | null | undefined): string => {
-  if (!name) return 'Unknown';
-  return name
-    .trim()
-    .toUpperCase()
-    .split(/[\s-]+/)
-    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-    .join(' ');
-};
+const normalizeSuburbName = (name: string | null | undefined): string =>
+  name && name.trim() ? normalizeSuburb(name) : 'Unknown';
 
+// Booked sales come from the commission ledger; anything else is estimated.
 const calculateCommission = (
-  property: PropertyDetails
-): { commissionEarned: number; commissionRate: number } => {
-  let commissionEarned = 0;
-  let commissionRate = property.commission || 0;
-  const price = property.sold_price && (property.contract_status === 'sold' || property.sold_date)
-    ? property.sold_price
-    : property.price || 0;
-
-  if (price > 0 && commissionRate > 0) {
-    commissionEarned = price * (commissionRate / 100);
-  }
-
-  return {
-    commissionEarned: isNaN(commissionEarned) ? 0 : commissionEarned,
-    commissionRate: isNaN(commissionRate) ? 0 : commissionRate,
-  };
-};
+  property: PropertyDetails,
+  ledger: Map<string, CommissionLedgerRow>
+): { commissionEarned: number; commissionRate: number } => propertyCommission(property, ledger.get(property.id));
 
 // CollapsibleSection component
 const CollapsibleSection: React.FC<{
@@ -254,11 +241,13 @@ function AdminCommissionDashboard() {
   const [statusFilter, setStatusFilter] = useState<'all' | 'listed' | 'sold'>('all');
   const [dateRange, setDateRange] = useState<'all' | 'last30' | 'last90'>('all');
   const [internalProperties, setInternalProperties] = useState<PropertyDetails[]>([]);
+  const [ledger, setLedger] = useState<Map<string, CommissionLedgerRow>>(new Map());
   const [agencies, setAgencies] = useState<string[]>([]);
   const [agents, setAgents] = useState<string[]>([]);
   const [suburbs, setSuburbs] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [fetchError, setFetchError] = useState<string | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const [agencyCurrentPage, setAgencyCurrentPage] = useState(1);
   const [suburbCurrentPage, setSuburbCurrentPage] = useState(1);
   const [agentCurrentPage, setAgentCurrentPage] = useState(1);
@@ -283,13 +272,11 @@ function AdminCommissionDashboard() {
       setIsLoading(true);
       setFetchError(null);
       try {
-        const { data: propertiesData, error: propertiesError } = await supabase
-          .from('properties')
-          .select('id, agency_name, agent_name, commission, price, sold_price, suburb, contract_status, sold_date, listed_date');
-
-        if (propertiesError) throw propertiesError;
-
-        const properties = (propertiesData as PropertyDetails[]) || [];
+        const properties: PropertyDetails[] = (await fetchAllProperties()).map((property) => ({
+          ...property,
+          commission_earned: null,
+        }));
+        setLedger(ledgerByProperty<CommissionLedgerRow>(await fetchCommissionLedger()));
         setInternalProperties(properties);
 
         // Fetch unique agencies, agents, and suburbs for autocomplete
@@ -300,10 +287,11 @@ function AdminCommissionDashboard() {
         setAgencies(uniqueAgencies);
         setAgents(uniqueAgents);
         setSuburbs(uniqueSuburbs);
-      } catch (error: any) {
+      } catch (error) {
         console.error('Error fetching commission data:', error);
-        setFetchError(error.message || 'Failed to fetch commission data.');
-        toast.error(error.message || 'Failed to fetch commission data.');
+        const message = error instanceof Error ? error.message : 'Failed to fetch commission data.';
+        setFetchError(message);
+        toast.error(message);
       } finally {
         setIsLoading(false);
       }
@@ -350,7 +338,7 @@ function AdminCommissionDashboard() {
       const agency = normalizeAgencyName(property.agency_name);
       const agent = normalizeAgentName(property.agent_name);
       const suburb = normalizeSuburbName(property.suburb);
-      const { commissionEarned, commissionRate } = calculateCommission(property);
+      const { commissionEarned, commissionRate } = calculateCommission(property, ledger);
       const isSold = property.contract_status === 'sold' || !!property.sold_date;
 
       // Apply filters at the property level
@@ -413,7 +401,7 @@ function AdminCommissionDashboard() {
     const agencyCommissionMap: Record<string, { total: number; count: number; rates: number[] }> = {};
     internalProperties.forEach((property) => {
       const agency = normalizeAgencyName(property.agency_name);
-      const { commissionEarned, commissionRate } = calculateCommission(property);
+      const { commissionEarned, commissionRate } = calculateCommission(property, ledger);
       const isSold = property.contract_status === 'sold' || !!property.sold_date;
 
       const cutoffDate = new Date();
@@ -476,7 +464,7 @@ function AdminCommissionDashboard() {
       topAgent,
       suburbCommissions,
     };
-  }, [internalProperties, searchQuery, agentFilter, agencyFilter, suburbFilter, statusFilter, dateRange]);
+  }, [internalProperties, ledger, searchQuery, agentFilter, agencyFilter, suburbFilter, statusFilter, dateRange]);
 
   const summary = calculateSummary();
 
@@ -490,7 +478,7 @@ function AdminCommissionDashboard() {
       const agency = normalizeAgencyName(property.agency_name);
       const agent = normalizeAgentName(property.agent_name);
       const suburb = normalizeSuburbName(property.suburb);
-      const { commissionEarned, commissionRate } = calculateCommission(property);
+      const { commissionEarned, commissionRate } = calculateCommission(property, ledger);
       const isSold = property.contract_status === 'sold' || !!property.sold_date;
 
       const cutoffDate = new Date();
@@ -526,7 +514,7 @@ function AdminCommissionDashboard() {
               (statusFilter === 'all' || (statusFilter === 'sold' && (p.contract_status === 'sold' || !!p.sold_date)) || (statusFilter === 'listed' && !(p.contract_status === 'sold' || !!p.sold_date))) &&
               (dateRange === 'all' || (p.listed_date && new Date(p.listed_date) >= cutoffDate))
             );
-            const agentCommission = agentProperties.reduce((sum, p) => sum + calculateCommission(p).commissionEarned, 0);
+            const agentCommission = agentProperties.reduce((sum, p) => sum + calculateCommission(p, ledger).commissionEarned, 0);
             agencyAgentsMap[agency].push({
               name: agent,
               totalCommission: agentCommission,
@@ -582,7 +570,7 @@ function AdminCommissionDashboard() {
         agents: agencyAgentsMap[agency] || [],
       }))
       .sort((a, b) => b.totalCommission - a.totalCommission);
-  }, [internalProperties, searchQuery, agencyFilter, agentFilter, suburbFilter, statusFilter, dateRange]);
+  }, [internalProperties, ledger, searchQuery, agencyFilter, agentFilter, suburbFilter, statusFilter, dateRange]);
 
   const filteredAgencyTotals = useMemo(() => {
     return agencyTotals;
@@ -603,7 +591,7 @@ function AdminCommissionDashboard() {
       const agent = normalizeAgentName(property.agent_name);
       const suburb = normalizeSuburbName(property.suburb);
       const agency = normalizeAgencyName(property.agency_name);
-      const { commissionEarned, commissionRate } = calculateCommission(property);
+      const { commissionEarned, commissionRate } = calculateCommission(property, ledger);
       const isSold = property.contract_status === 'sold' || !!property.sold_date;
 
       const cutoffDate = new Date();
@@ -644,7 +632,7 @@ function AdminCommissionDashboard() {
         suburbs: Array.from(agent.suburbs as Set<string>),
       }))
       .sort((a, b) => b.totalCommission - a.totalCommission);
-  }, [internalProperties, searchQuery, agentFilter, agencyFilter, suburbFilter, statusFilter, dateRange]);
+  }, [internalProperties, ledger, searchQuery, agentFilter, agencyFilter, suburbFilter, statusFilter, dateRange]);
 
   const paginatedFilteredAgentTotals = useMemo(() => {
     return filteredAgentTotals.slice(
@@ -852,10 +840,7 @@ function AdminCommissionDashboard() {
         toast.error('Invalid commission rate.');
         return;
       }
-      await supabase
-        .from('properties')
-        .update({ commission: newRate })
-        .eq('agency_name', commissionEdit.agency);
+      await saveAgencyCommission(commissionEdit.agency, newRate);
       setInternalProperties((prev) =>
         prev.map((p) =>
           normalizeAgencyName(p.agency_name) === commissionEdit.agency ? { ...p, commission: newRate } : p
@@ -863,7 +848,7 @@ function AdminCommissionDashboard() {
       );
       setCommissionEdit({ isOpen: false, agency: null, newCommission: '' });
       toast.success('Commission rate updated successfully.');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error updating commission:', error);
       toast.error('Failed to update commission rate.');
     }
@@ -937,145 +922,96 @@ function AdminCommissionDashboard() {
     );
   };
 
-  const exportCommissionPDF = () => {
+  const exportCommissionPDF = async () => {
     try {
-      const doc = new jsPDF();
-      const margin = 10;
-
-      doc.setFontSize(18);
-      doc.text('Admin Commission Dashboard Report', margin, 20);
-
-      doc.setFontSize(14);
-      doc.text('Performance Summary', margin, 30);
-      autoTable(doc, {
-        startY: 35,
-        head: [['Metric', 'Value']],
-        body: [
-          ['Total Commission', formatCurrency(summary.totalCommission)],
-          ['Listed Commission', formatCurrency(summary.totalListedCommission)],
-          ['Sold Commission', formatCurrency(summary.totalSoldCommission)],
-          ['Total Properties', summary.totalProperties.toString()],
-          ['Listed Properties', summary.totalListed.toString()],
-          ['Sold Properties', summary.totalSold.toString()],
-          ['Top Agency', `${summary.topAgency} (${formatCurrency(summary.topAgencyTotalCommission)}, ${summary.topAgencyCommissionRate.toFixed(2)}%)`],
-          ['Top Agent', `${summary.topAgent.name} (${formatCurrency(summary.topAgent.commission)})`],
+      await downloadReport(COMMISSION_REPORT, {
+        id: 'admin_commission_dashboard',
+        title: 'Admin Commission Dashboard Report',
+        kpis: [
+          { label: 'Total Commission', value: formatCurrency(summary.totalCommission) },
+          { label: 'Listed Commission', value: formatCurrency(summary.totalListedCommission) },
+          { label: 'Sold Commission', value: formatCurrency(summary.totalSoldCommission) },
+          { label: 'Total Properties', value: summary.totalProperties },
         ],
-        theme: 'striped',
-        margin: { left: margin, right: margin },
-      });
-
-      let finalY = (doc as any).lastAutoTable.finalY + 10;
-      doc.setFontSize(14);
-      doc.text('Agency Performance', margin, finalY);
-      autoTable(doc, {
-        startY: finalY + 5,
-        head: [['Agency', 'Commission Rate', 'Total Commission', 'Listed', 'Sold', 'Suburbs']],
-        body: filteredAgencyTotals.map((row) => [
-          row.agency,
-          `${row.commissionRate.toFixed(2)}%`,
-          formatCurrency(row.totalCommission),
-          row.listedCount.toString(),
-          row.soldCount.toString(),
-          row.suburbs.join(', ') || 'None',
-        ]),
-        theme: 'striped',
-        margin: { left: margin, right: margin },
-      });
-
-      finalY = (doc as any).lastAutoTable.finalY + 10;
-      doc.setFontSize(14);
-      doc.text('Agent Performance', margin, finalY);
-      autoTable(doc, {
-        startY: finalY + 5,
-        head: [['Agent', 'Commission Rate', 'Total Commission', 'Listed', 'Sold', 'Suburbs']],
-        body: filteredAgentTotals.map((row) => [
-          row.name,
-          row.commissionRate ? `${row.commissionRate.toFixed(2)}%` : 'Agency Default',
-          formatCurrency(row.totalCommission),
-          row.propertiesListed.toString(),
-          row.propertiesSold.toString(),
-          row.suburbs.join(', ') || 'None',
-        ]),
-        theme: 'striped',
-        margin: { left: margin, right: margin },
-      });
-
-      finalY = (doc as any).lastAutoTable.finalY + 10;
-      doc.setFontSize(14);
-      doc.text('Suburb Performance', margin, finalY);
-      autoTable(doc, {
-        startY: finalY + 5,
-        head: [['Suburb', 'Avg Listed Rate', 'Listed Commission', 'Listed Properties', 'Avg Sold Rate', 'Sold Commission', 'Sold Properties']],
-        body: filteredSuburbCommissions.map((row) => [
-          row.suburb,
-          `${row.avgListedCommissionRate.toFixed(2)}%`,
-          formatCurrency(row.listedCommissionTotal),
-          row.listedPropertyCount.toString(),
-          `${row.avgSoldCommissionRate.toFixed(2)}%`,
-          formatCurrency(row.soldCommissionTotal),
-          row.soldPropertyCount.toString(),
-        ]),
-        theme: 'striped',
-        margin: { left: margin, right: margin },
+        summary: [
+          { label: 'Listed Properties', value: summary.totalListed },
+          { label: 'Sold Properties', value: summary.totalSold },
+          {
+            label: 'Top Agency',
+            value: `${summary.topAgency} (${formatCurrency(summary.topAgencyTotalCommission)}, ${summary.topAgencyCommissionRate.toFixed(2)}%)`,
+          },
+          { label: 'Top Agent', value: `${summary.topAgent.name} (${formatCurrency(summary.topAgent.commission)})` },
+        ],
+        filters: (commissionExportSpec().filters || []).map((fact) => ({ label: fact.label, value: String(fact.value) })),
+        agencies: filteredAgencyTotals,
+        agents: filteredAgentTotals,
+        suburbs: filteredSuburbCommissions,
       });
-
-      doc.save('Admin_Commission_Dashboard_Report.pdf');
       toast.success('PDF exported successfully!');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error exporting PDF:', error);
       toast.error('Failed to export PDF.');
     }
   };
 
-  const exportCommissionCSV = () => {
-    try {
-      let csvContent = 'data:text/csv;charset=utf-8,';
-
-      csvContent += 'Performance Summary\n';
-      csvContent += 'Metric,Value\n';
-      csvContent += `Total Commission,${formatCurrency(summary.totalCommission)}\n`;
-      csvContent += `Listed Commission,${formatCurrency(summary.totalListedCommission)}\n`;
-      csvContent += `Sold Commission,${formatCurrency(summary.totalSoldCommission)}\n`;
-      csvContent += `Total Properties,${summary.totalProperties}\n`;
-      csvContent += `Listed Properties,${summary.totalListed}\n`;
-      csvContent += `Sold Properties,${summary.totalSold}\n`;
-      csvContent += `Top Agency,"${summary.topAgency} (${formatCurrency(summary.topAgencyTotalCommission)}, ${summary.topAgencyCommissionRate.toFixed(2)}%)"\n`;
-      csvContent += `Top Agent,"${summary.topAgent.name} (${formatCurrency(summary.topAgent.commission)})"\n`;
-      csvContent += '\n';
-
-      csvContent += 'Agency Performance\n';
-      csvContent += 'Agency,Commission Rate,Total Commission,Listed,Sold,Suburbs\n';
-      filteredAgencyTotals.forEach((row) => {
-        csvContent += `"${row.agency.replace(/"/g, '""')}",${row.commissionRate.toFixed(2)}%,${formatCurrency(row.totalCommission)},${row.listedCount},${row.soldCount},"${row.suburbs.join(', ').replace(/"/g, '""') || 'None'}"\n`;
-      });
-      csvContent += '\n';
-
-      csvContent += 'Agent Performance\n';
-      csvContent += 'Agent,Commission Rate,Total Commission,Listed,Sold,Suburbs\n';
-      filteredAgentTotals.forEach((row) => {
-        csvContent += `"${row.name.replace(/"/g, '""')}",${row.commissionRate ? row.commissionRate.toFixed(2) : 'Agency Default'}%,${formatCurrency(row.totalCommission)},${row.propertiesListed},${row.propertiesSold},"${row.suburbs.join(', ').replace(/"/g, '""') || 'None'}"\n`;
-      });
-      csvContent += '\n';
-
-      csvContent += 'Suburb Performance\n';
-      csvContent += 'Suburb,Avg Listed Rate,Listed Commission,Listed Properties,Avg Sold Rate,Sold Commission,Sold Properties\n';
-      filteredSuburbCommissions.forEach((row) => {
-        csvContent += `"${row.suburb.replace(/"/g, '""')}",${row.avgListedCommissionRate.toFixed(2)}%,${formatCurrency(row.listedCommissionTotal)},${row.listedPropertyCount},${row.avgSoldCommissionRate.toFixed(2)}%,${formatCurrency(row.soldCommissionTotal)},${row.soldPropertyCount}\n`;
-      });
-
-      const encodedUri = encodeURI(csvContent);
-      const link = document.createElement('a');
-      link.setAttribute('href', encodedUri);
-      link.setAttribute('download', 'Admin_Commission_Dashboard_Report.csv');
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      toast.success('CSV exported successfully!');
-    } catch (error: any) {
-      console.error('Error exporting CSV:', error);
-      toast.error('Failed to export CSV.');
-    }
-  };
+  const commissionExportSpec = (): ExportSpec => ({
+    id: 'admin_commission_dashboard',
+    title: 'Admin Commission Dashboard',
+    filters: activeFilters({
+      Search: searchQuery.trim(),
+      Agent: agentFilter,
+      Agency: agencyFilter,
+      Suburb: suburbFilter,
+      Status: statusFilter === 'all' ? '' : statusFilter,
+      Period: { all: '', last30: 'Last 30 days', last90: 'Last 90 days' }[dateRange],
+    }),
+    summary: [
+      { label: 'Total Commission', value: summary.totalCommission },
+      { label: 'Listed Commission', value: summary.totalListedCommission },
+      { label: 'Sold Commission', value: summary.totalSoldCommission },
+      { label: 'Total Properties', value: summary.totalProperties },
+      { label: 'Listed Properties', value: summary.totalListed },
+      { label: 'Sold Properties', value: summary.totalSold },
+      {
+        label: 'Top Agency',
+        value: `${summary.topAgency} (${formatCurrency(summary.topAgencyTotalCommission)}, ${summary.topAgencyCommissionRate.toFixed(2)}%)`,
+      },
+      { label: 'Top Agent', value: `${summary.topAgent.name} (${formatCurrency(summary.topAgent.commission)})` },
+    ],
+    tables: [
+      exportTable({
+        name: 'Agencies',
+        rows: filteredAgencyTotals,
+        columns: [
+          { key: 'agency', label: 'Agency', value: (row) => row.agency },
+          { key: 'commission_rate', label: 'Commission Rate (%)', value: (row) => Number(row.commissionRate.toFixed(2)) },
+          { key: 'total_commission', label: 'Total Commission', value: (row) => row.totalCommission },
+          { key: 'listed_commission', label: 'Listed Commission', value: (row) => row.listedCommission, hidden: true },
+          { key: 'sold_commission', label: 'Sold Commission', value: (row) => row.soldCommission, hidden: true },
+          { key: 'listed', label: 'Listed', value: (row) => row.listedCount },
+          { key: 'sold', label: 'Sold', value: (row) => row.soldCount },
+          { key: 'suburbs', label: 'Suburbs', value: (row) => row.suburbs.join(', ') },
+        ],
+      }),
+      exportTable({
+        name: 'Agents',
+        rows: filteredAgentTotals,
+        columns: [
+          { key: 'agent', label: 'Agent', value: (row) => row.name },
+          {
+            key: 'commission_rate',
+            label: 'Commission Rate (%)',
+            value: (row) => (row.commissionRate ? Number(row.commissionRate.toFixed(2)) : 'Agency Default'),
+          },
+          { key: 'total_commission', label: 'Total Commission', value: (row) => row.totalCommission },
+          { key: 'listed', label: 'Listed', value: (row) => row.propertiesListed },
+          { key: 'sold', label: 'Sold', value: (row) => row.propertiesSold },
+          { key: 'suburbs', label: 'Suburbs', value: (row) => row.suburbs.join(', ') },
+        ],
+      }),
+      { name: 'Suburbs', rows: filteredSuburbCommissions, columns: SUBURB_COMMISSION_EXPORT_COLUMNS },
+    ],
+  });
 
   return (
     <motion.div
@@ -1438,18 +1374,19 @@ function AdminCommissionDashboard() {
                 Export PDF
               </motion.button>
               <motion.button
-                onClick={exportCommissionCSV}
+                onClick={() => setIsExportOpen(true)}
                 className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-full hover:bg-indigo-700"
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
               >
                 <Download className="w-4 h-4 mr-2" />
-                Export CSV
+                Export Tables
               </motion.button>
             </motion.div>
           </motion.div>
         )}
       </div>
+      {isExportOpen && <ExportDialog spec={commissionExportSpec()} onClose={() => setIsExportOpen(false)} />}
     </motion.div>
   );
 }
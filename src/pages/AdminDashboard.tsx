@@ -1,20 +1,26 @@
 import { useState, useEffect } from 'react';
-import { useAuthStore } from '../store/authStore';
+import { useAuthStore, usePermissions } from '../store/authStore';
+import { Capability } from '../utils/permissions';
 import { supabase } from '../lib/supabase';
+import { createProperty, fetchProperties as fetchPropertyRows } from '../api/properties';
 import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { UserPlus, Home, FileText, Activity, Link as LinkIcon, Eye, Download, Trash2 } from 'lucide-react';
+import { UserPlus, Home, FileText, Activity, Link as LinkIcon, Eye, Download, Trash2, MapPin, ClipboardCheck, Kanban, Receipt, Upload, Users, LucideIcon } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import { v4 as uuidv4 } from 'uuid';
 import { CreateAgentModal } from '../components/CreateAgentModal';
+import { ExportDialog } from '../components/ExportDialog';
 import { EnquiryPDFPreview } from './EnquiryPDFPreview';
-import { Agent, Property, Enquiry } from '../types';
-import jsPDF from 'jspdf';
-import autoTable from 'jspdf-autotable';
-import watermarkImage from '../assets/red-tulip-logo.jpg'; // Import watermark
+import { Agent, Enquiry } from '../types';
+import { PropertyRow as Property } from '../types/database';
+import { ExportSpec, exportTable } from '../utils/exporter';
+import { PROPERTY_EXPORT_COLUMNS } from '../utils/exportColumns';
+import { downloadReport } from '../utils/pdfReport';
+import { ENQUIRY_REPORT } from '../utils/reportTemplates';
 
 export function AdminDashboard() {
   const { user, profile } = useAuthStore();
+  const { can } = usePermissions();
   const navigate = useNavigate();
   const [agents, setAgents] = useState<Agent[]>([]);
   const [properties, setProperties] = useState<Property[]>([]);
@@ -23,6 +29,7 @@ export function AdminDashboard() {
   const [error, setError] = useState<string | null>(null);
   const [showModal, setShowModal] = useState<'agent' | 'property' | null>(null);
   const [showPDFModal, setShowPDFModal] = useState<string | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const [propertyData, setPropertyData] = useState({
     street_number: '',
     street_name: '',
@@ -44,24 +51,32 @@ export function AdminDashboard() {
     console.log('showModal changed:', showModal);
   }, [showModal]);
 
-  const dashboardLinks = [
+  const dashboardLinks: { name: string; icon: LucideIcon; path?: string; capability?: Capability; action?: () => void }[] = [
     {
       name: 'Create New Agent',
       icon: UserPlus,
+      capability: 'users.manage',
       action: () => {
         console.log('Create New Agent clicked, setting showModal to agent');
         setShowModal('agent');
       },
     },
-    { name: 'Add Property', icon: Home, path: '/property-form' },
+    { name: 'Add Property', icon: Home, path: '/property-form', capability: 'properties.create' },
+    { name: 'Import Property Sales', icon: Upload, path: '/property-import', capability: 'properties.create' },
     { name: 'Job Enquiries', icon: FileText, path: '/enquiryjob' },
     { name: 'Create Marketing Plan', path: '/marketing-plan', icon: FileText },
     { name: 'Activity Log', path: '/activity-logger', icon: Activity },
     { name: 'Reports', path: '/reports', icon: FileText },
     { name: 'Business Plan', path: '/agent-business-plan', icon: FileText },
-    { name: 'AdminBusinessPlan', path: '/admin-business-plan', icon: FileText },
+    { name: 'AdminBusinessPlan', path: '/admin-business-plan', icon: FileText, capability: 'plans.view_team' },
     { name: 'EMIPLAN', path: '/emi-calculator', icon: FileText },
     { name: 'Nurturing List', path: '/nurturing-list', icon: FileText },
+    { name: 'Call List', path: '/call-list', icon: FileText },
+    { name: 'People', path: '/people', icon: Users, capability: 'contacts.manage' },
+    { name: 'Suburb Gazetteer', path: '/admin-suburbs', icon: MapPin, capability: 'settings.manage' },
+    { name: 'Appraisals', path: '/appraisals', icon: ClipboardCheck },
+    { name: 'Deal Pipeline', path: '/deal-pipeline', icon: Kanban },
+    { name: 'Commission Ledger', path: '/commission-ledger', icon: Receipt },
     {
       name: 'Agent Report',
       path: '/agent-reports',
@@ -74,7 +89,7 @@ export function AdminDashboard() {
         }
       },
     },
-    { name: 'Admin Commission', path: '/admin-commission', icon: FileText },
+    { name: 'Admin Commission', path: '/admin-commission', icon: FileText, capability: 'commission.view_all' },
   ];
 
   const fetchAgents = async () => {
@@ -103,12 +118,8 @@ export function AdminDashboard() {
 
   const fetchProperties = async () => {
     try {
-      const { data, error } = await supabase
-        .from('properties')
-        .select('id, street_number, street_name, suburb, property_type, price, bedrooms, bathrooms, car_garage, category, agent_id, agent_name')
-        .order('created_at', { ascending: false });
-      if (error) throw error;
-      setProperties(data || []);
+      const data = await fetchPropertyRows();
+      setProperties(data);
       setError(null);
     } catch (error: any) {
       toast.error('Failed to fetch properties: ' + error.message);
@@ -157,115 +168,9 @@ export function AdminDashboard() {
     }
   };
 
-  const generatePDF = (enquiry: Enquiry) => {
+  const generatePDF = async (enquiry: Enquiry) => {
     try {
-      const doc = new jsPDF({ unit: 'mm', format: 'a4' });
-
-      // Add watermark (image or fallback text)
-      try {
-        console.log('Attempting to add watermark: red-tulip-logo.jpg');
-        doc.setGState(doc.GState({ opacity: 0.2 }));
-        doc.addImage(watermarkImage, 'JPEG', 55, 98.5, 100, 100, undefined, 'NONE', 45);
-        doc.setGState(doc.GState({ opacity: 1 }));
-        console.log('Watermark image added successfully');
-      } catch (imgError) {
-        console.warn('Failed to load watermark image (red-tulip-logo.jpg):', imgError);
-        doc.setGState(doc.GState({ opacity: 0.2 }));
-        doc.setFont('helvetica', 'normal');
-        doc.setFontSize(40);
-        doc.setTextColor(150);
-        doc.text('Harcourts Red Tulip', 105, 148.5, { align: 'center', angle: 45 });
-        doc.setGState(doc.GState({ opacity: 1 }));
-        console.log('Fallback text watermark added');
-      }
-
-      // Background
-      doc.setFillColor(219, 234, 254);
-      doc.rect(0, 0, 210, 297, 'F');
-
-      // Header
-      doc.setFont('helvetica', 'bold');
-      doc.setFontSize(16);
-      doc.setTextColor(30, 58, 138);
-      doc.text('Harcourts Success', 105, 15, { align: 'center' });
-
-      // Subtitle
-      doc.setFont('helvetica', 'normal');
-      doc.setFontSize(10);
-      doc.setTextColor(29, 78, 216);
-      doc.text(`Submission ID: ${enquiry.id}`, 20, 25);
-      doc.text(`Submitted: ${new Date(enquiry.submitted_at).toLocaleString()}`, 20, 32);
-
-      autoTable(doc, {
-        startY: 40,
-        columns: ['Field', 'Details'],
-        body: [
-          ['Full Name', enquiry.full_name],
-          ['Languages Known', enquiry.languages_known || 'N/A'],
-          ['Full License', enquiry.do_you_hold_a_full_license ? 'Yes' : 'No'],
-          ['License Details', enquiry.full_license_details || 'N/A'],
-          ['Owns Car', enquiry.do_you_own_a_car ? 'Yes' : 'No'],
-          ['Car Details', enquiry.car_details || 'N/A'],
-          ['Driver’s License', enquiry.do_you_hold_a_drivers_license ? 'Yes' : 'No'],
-          ['Driver’s License Details', enquiry.drivers_license_details || 'N/A'],
-          ['Why Real Estate', enquiry.why_real_estate || 'N/A'],
-          ['Bought/Sold in QLD', enquiry.have_you_bought_and_sold_in_qld ? 'Yes' : 'No'],
-          ['Bought/Sold QLD Details', enquiry.bought_sold_qld_details || 'N/A'],
-          ['Goal', enquiry.whats_your_goal || 'N/A'],
-          ['Expected Earnings', enquiry.expected_earnings || 'N/A'],
-          ['Agree to RITE Values', enquiry.agree_to_rite_values ? 'Yes' : 'No'],
-          ['Why Harcourts', enquiry.why_us || 'N/A'],
-          ['Expectations from Harcourts', enquiry.what_do_you_expect_from_us || 'N/A'],
-          ['Financial Capability', enquiry.financial_capability ? 'Yes' : 'No'],
-          ['Financial Capability Details', enquiry.financial_capability_details || 'N/A'],
-          ['Team Contribution', enquiry.team_contribution || 'N/A'],
-          ['Suburbs to Prospect', enquiry.suburbs_to_prospect || 'N/A'],
-          ['Strengths', enquiry.strengths || 'N/A'],
-          ['Weaknesses', enquiry.weaknesses || 'N/A'],
-        ],
-        theme: 'grid',
-        styles: {
-          font: 'helvetica',
-          fontSize: 8,
-          textColor: [17, 24, 39],
-          cellPadding: 2,
-          overflow: 'ellipsize',
-          minCellHeight: 6,
-        },
-        headStyles: {
-          fillColor: [147, 197, 253],
-          textColor: [30, 58, 138],
-          fontStyle: 'bold',
-          fontSize: 8,
-        },
-        alternateRowStyles: {
-          fillColor: [241, 245, 249],
-        },
-        columnStyles: {
-          0: { cellWidth: 60, fontStyle: 'bold', textColor: [29, 78, 216] },
-          1: { cellWidth: 120 },
-        },
-        margin: { left: 20, right: 20, top: 40, bottom: 20 },
-        pageBreak: 'avoid',
-        didDrawPage: () => {
-          doc.setFillColor(219, 234, 254);
-          doc.rect(0, 287, 210, 10, 'F');
-          doc.setFont('helvetica');
-          doc.setFontSize(6);
-          doc.setTextColor(100);
-          doc.text('Generated by Harcourts Admin Dashboard', 105, 287, { align: 'center' });
-        },
-      });
-
-      // Set document properties
-      doc.setProperties({
-        title: `Enquiry_${enquiry.full_name}_${enquiry.id}`,
-        author: 'Harcourts',
-        creator: 'Harcourts Admin Dashboard',
-      });
-
-      console.log('Saving PDF:', `enquiry-${enquiry.full_name}-${enquiry.id}.pdf`);
-      doc.save(`enquiry-${enquiry.full_name}-${enquiry.id}.pdf`);
+      await downloadReport(ENQUIRY_REPORT, enquiry);
       toast.success('PDF downloaded successfully!', {
         style: { background: '#BFDBFE', color: '#1E3A8A', borderRadius: '8px' },
       });
@@ -302,24 +207,20 @@ export function AdminDashboard() {
       if (isNaN(bedrooms) || bedrooms < 0) throw new Error('Invalid number of bedrooms');
       if (isNaN(bathrooms) || bathrooms < 0) throw new Error('Invalid number of bathrooms');
 
-      const { error } = await supabase
-        .from('properties')
-        .insert({
-          id: uuidv4(),
-          street_number: propertyData.street_number,
-          street_name: propertyData.street_name,
-          suburb: propertyData.suburb,
-          property_type: propertyData.property_type,
-          price,
-          bedrooms,
-          bathrooms,
-          car_garage: carGarage,
-          category: propertyData.category,
-          agent_id: propertyData.agent_id || null,
-          created_at: new Date().toISOString(),
-        });
-
-      if (error) throw error;
+      await createProperty({
+        id: uuidv4(),
+        street_number: propertyData.street_number,
+        street_name: propertyData.street_name,
+        suburb: propertyData.suburb,
+        property_type: propertyData.property_type,
+        price,
+        bedrooms,
+        bathrooms,
+        car_garage: carGarage,
+        category: propertyData.category,
+        agent_id: propertyData.agent_id || null,
+        created_at: new Date().toISOString(),
+      });
       toast.success('Property added successfully!');
       setShowModal(null);
       setPropertyData({
@@ -359,6 +260,25 @@ export function AdminDashboard() {
     return pages;
   };
 
+  // Every property, not just the page on screen, with the agent list alongside.
+  const adminExportSpec = (): ExportSpec => ({
+    id: 'admin_dashboard',
+    title: 'Properties and Agents',
+    tables: [
+      exportTable<Property>({ name: 'Properties', rows: properties, columns: PROPERTY_EXPORT_COLUMNS }),
+      exportTable<Agent>({
+        name: 'Agents',
+        rows: agents.filter((agent) => agent && agent.permissions),
+        columns: [
+          { key: 'name', label: 'Name', value: (agent) => agent.name },
+          { key: 'email', label: 'Email', value: (agent) => agent.email },
+          { key: 'phone', label: 'Phone', value: (agent) => agent.phone },
+          { key: 'agency_name', label: 'Agency', value: (agent) => agent.agency_name, hidden: true },
+        ],
+      }),
+    ],
+  });
+
   const handlePageChange = (type: 'properties' | 'enquiries', page: number) => {
     const totalItems = type === 'properties' ? properties.length : enquiries.length;
     const itemsPerPageVal = itemsPerPage[type];
@@ -419,7 +339,7 @@ export function AdminDashboard() {
         </motion.button>
       </div>
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
-        {dashboardLinks.map((link, index) => (
+        {dashboardLinks.filter((link) => !link.capability || can(link.capability)).map((link, index) => (
           <motion.div
             key={index}
             className="bg-white p-6 rounded-lg shadow-md hover:shadow-lg transition-shadow cursor-pointer border border-blue-200"
@@ -599,6 +519,8 @@ export function AdminDashboard() {
         )}
       </AnimatePresence>
 
+      {isExportOpen && <ExportDialog spec={adminExportSpec()} onClose={() => setIsExportOpen(false)} />}
+
       <div className="bg-white p-6 rounded-lg shadow-md mb-8 border border-blue-200">
         <h2 className="text-2xl font-semibold mb-4 flex items-center text-blue-900">
           <UserPlus className="w-6 h-6 mr-2 text-blue-300" /> Agents
@@ -634,9 +556,18 @@ export function AdminDashboard() {
       </div>
 
       <div className="bg-white p-6 rounded-lg shadow-md mb-8 border border-blue-200">
-        <h2 className="text-2xl font-semibold mb-4 flex items-center text-blue-900">
-          <Home className="w-6 h-6 mr-2 text-blue-300" /> Properties
-        </h2>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-semibold flex items-center text-blue-900">
+            <Home className="w-6 h-6 mr-2 text-blue-300" /> Properties
+          </h2>
+          <button
+            onClick={() => setIsExportOpen(true)}
+            disabled={loading || !properties.length}
+            className="flex items-center px-4 py-2 border border-blue-200 text-blue-900 rounded-md hover:bg-blue-100 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4 mr-2" /> Export
+          </button>
+        </div>
         {loading ? (
           <div className="text-center text-blue-900">Loading properties...</div>
         ) : properties.length > 0 ? (
@@ -676,7 +607,7 @@ export function AdminDashboard() {
                         >
                           <td className="py-2 px-4 text-blue-900">{`${property.street_number} ${property.street_name}, ${property.suburb}`}</td>
                           <td className="py-2 px-4 text-blue-900">{property.property_type}</td>
-                          <td className="py-2 px-4 text-blue-900">${property.price.toLocaleString()}</td>
+                          <td className="py-2 px-4 text-blue-900">${(property.price ?? 0).toLocaleString()}</td>
                           <td className="py-2 px-4 text-blue-900">{property.bedrooms}</td>
                           <td className="py-2 px-4 text-blue-900">{property.bathrooms}</td>
                           <td className="py-2 px-4 text-blue-900">{property.car_garage}</td>
@@ -1,8 +1,5 @@
 import { Disclosure } from '@headlessui/react';
 import { AnimatePresence, motion } from 'framer-motion';
-import jsPDF from 'jspdf';
-import 'jspdf-autotable';
-import autoTable from 'jspdf-autotable';
 import {
   BarChart3,
   CheckCircle,
@@ -24,8 +21,15 @@ import React, { useEffect, useState } from 'react';
 import { toast } from 'react-hot-toast';
 import { useNavigate } from 'react-router-dom';
 import { Bar, BarChart, CartesianGrid, LabelList, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import moment from 'moment';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../store/authStore';
+import { AppraisalSummary, fetchAppraisals, summarizeAppraisals } from '../api/appraisals';
+import { fetchPipelineMetrics } from '../api/pipeline';
+import { PipelineMetrics } from '../utils/pipeline';
+import { PERIOD_LABELS, planWindow } from '../utils/planTracking';
+import { PlanTrackingPanel } from '../components/PlanTrackingPanel';
+import { defineReport, downloadReport, ReportFact, reportDataUri } from '../utils/pdfReport';
 
 interface BusinessPlanTargets {
   id?: string;
@@ -70,6 +74,99 @@ interface BusinessPlanTargets {
   updated_at?: string;
 }
 
+const money = (value: number | null) => (value != null ? `$${Math.round(value).toLocaleString()}` : 'N/A');
+const count = (value: number | null) => (value != null ? Math.round(value).toLocaleString() : 'N/A');
+const percent = (value: number | null, fallback = 'N/A') => (value != null ? `${Math.round(value)}%` : fallback);
+
+const AGENT_BUSINESS_PLAN_REPORT = defineReport<BusinessPlanTargets>({
+  id: 'agent_business_plan',
+  title: () => 'Agent Business Plan',
+  subtitle: (targets) => targets.agent_name || undefined,
+  fileName: (targets) => `business_plan_${new Date().toISOString().split('T')[0]}_${targets.agent_name || 'agent'}.pdf`,
+  sections: (targets) => {
+    const targetFacts: ReportFact[] = [
+      { label: 'Gross Comm.', value: money(targets.gross_commission_target) },
+      { label: 'Avg. Comm./Sale', value: money(targets.avg_commission_per_sale) },
+      { label: 'Settled Sales', value: count(targets.settled_sales_target) },
+      { label: 'Listings', value: count(targets.listings_target) },
+      { label: 'Appraisals', value: count(targets.appraisals_target) },
+      { label: 'Connects/App.', value: count(targets.connects_for_appraisals) },
+      { label: 'Calls/App.', value: count(targets.phone_calls_to_achieve_appraisals) },
+      { label: 'Calls/Day', value: count(targets.calls_per_day) },
+      { label: 'Work Days/Yr', value: count(targets.no_of_working_days_per_year) },
+      { label: 'Calls/Person', value: count(targets.calls_per_person) },
+      { label: 'People Req.', value: count(targets.no_of_people_required) },
+      {
+        label: 'Salary/Hr',
+        value:
+          targets.salary_per_hour != null
+            ? `$${targets.salary_per_hour.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+            : 'N/A',
+      },
+      { label: 'Salary/Day', value: money(targets.salary_per_day) },
+      { label: 'Persons Salary', value: money(targets.persons_salary) },
+      { label: 'Marketing Exp.', value: money(targets.marketing_expenses) },
+      { label: 'Cost/3rd Call', value: money(targets.cost_per_third_party_call) },
+      { label: 'Cost/App.', value: money(targets.cost_per_appraisals) },
+      { label: 'Total Calls', value: count(targets.how_many_calls) },
+      { label: 'Total App.', value: count(targets.how_many_appraisals) },
+      { label: '3rd Party Calls', value: money(targets.total_third_party_calls) },
+      { label: 'Cost App.', value: money(targets.total_cost_appraisals) },
+      { label: 'Net Comm.', value: money(targets.net_commission) },
+    ];
+    const third = Math.ceil(targetFacts.length / 3);
+    return [
+      {
+        type: 'kpis',
+        items: [
+          { label: 'Gross Commission', value: money(targets.gross_commission_target) },
+          { label: 'Settled Sales', value: count(targets.settled_sales_target) },
+          { label: 'Listings', value: count(targets.listings_target) },
+          { label: 'Appraisals', value: count(targets.appraisals_target) },
+        ],
+      },
+      {
+        type: 'columns',
+        sections: [
+          {
+            type: 'facts',
+            title: 'Commission Structure',
+            facts: [
+              { label: 'Avg. Comm./Prop.', value: money(targets.avg_commission_price_per_property) },
+              { label: 'Franchise Fee', value: percent(targets.franchise_fee, '0%') },
+              { label: 'Comm. Avg.', value: money(targets.commission_average) },
+              { label: 'Agent %', value: percent(targets.agent_percentage, '50%') },
+              { label: 'Business %', value: percent(targets.business_percentage, '50%') },
+              { label: 'Agent Comm.', value: money(targets.agent_amount) },
+              { label: 'Business Comm.', value: money(targets.business_amount) },
+            ],
+          },
+          {
+            type: 'facts',
+            title: 'Performance Ratios',
+            facts: [
+              { label: 'Fall Over Rate', value: percent(targets.fall_over_rate) },
+              { label: 'App. to List', value: percent(targets.appraisal_to_listing_ratio) },
+              { label: 'List to Written', value: percent(targets.listing_to_written_ratio) },
+              { label: 'Connects/App.', value: count(targets.connects_for_appraisal) },
+              { label: 'Calls/Connect', value: count(targets.calls_for_connect) },
+              { label: 'Work Days/Yr', value: count(targets.no_of_working_days_per_year) },
+            ],
+          },
+        ],
+      },
+      { type: 'heading', text: 'Targets' },
+      {
+        type: 'columns',
+        sections: [0, 1, 2].map((column) => ({
+          type: 'facts' as const,
+          facts: targetFacts.slice(column * third, (column + 1) * third),
+        })),
+      },
+    ];
+  },
+});
+
 interface Agent {
   id: string;
   name: string;
@@ -84,6 +181,8 @@ interface RatioInputProps {
   suffix: string;
   tooltip: string;
   isCurrency?: boolean;
+  readOnly?: boolean;
+  note?: string;
 }
 
 const RatioInput: React.FC<RatioInputProps> = ({
@@ -94,7 +193,9 @@ const RatioInput: React.FC<RatioInputProps> = ({
   step,
   suffix,
   tooltip,
-  isCurrency = false
+  isCurrency = false,
+  readOnly = false,
+  note
 }) => (
   <div className="bg-blue-50 p-4 rounded-lg shadow-sm border border-blue-200 relative group">
     <div className="flex justify-between items-center mb-2">
@@ -114,12 +215,14 @@ const RatioInput: React.FC<RatioInputProps> = ({
         step={step}
         value={value ?? ''}
         onChange={(e) => onChange(e.target.value === '' ? null : Math.round(parseFloat(e.target.value)))}
-        className="w-full px-2 py-1 border border-blue-300 rounded-lg focus:ring-blue-500 focus:border-blue-600 bg-blue-100 text-blue-800 pr-8"
+        disabled={readOnly}
+        className="w-full px-2 py-1 border border-blue-300 rounded-lg focus:ring-blue-500 focus:border-blue-600 bg-blue-100 text-blue-800 pr-8 disabled:bg-blue-200 disabled:cursor-not-allowed"
       />
       {suffix && (
         <span className="absolute right-2 top-1/2 transform -translate-y-1/2 text-blue-600">{suffix}</span>
       )}
     </div>
+    {note && <p className="mt-1 text-xs text-blue-600">{note}</p>}
     <div className="absolute z-10 hidden group-hover:block bg-blue-800 text-white text-xs rounded py-2 px-4 -top-10 left-1/2 transform -translate-x-1/2 w-64">
       {tooltip}
     </div>
@@ -185,6 +288,8 @@ export function AgentBusinessPlan({ isAdmin = false }: { isAdmin?: boolean }) {
   const [agentSearch, setAgentSearch] = useState('');
   const [showAgentSuggestions, setShowAgentSuggestions] = useState(false);
   const [showSaveConfirmation, setShowSaveConfirmation] = useState(false);
+  const [appraisalSummary, setAppraisalSummary] = useState<AppraisalSummary | null>(null);
+  const [pipelineMetrics, setPipelineMetrics] = useState<PipelineMetrics | null>(null);
   const filteredAgents = agents.filter(agent =>
     agent.name.toLowerCase().includes(agentSearch.toLowerCase())
   );
@@ -390,6 +495,56 @@ export function AgentBusinessPlan({ isAdmin = false }: { isAdmin?: boolean }) {
     targets.business_percentage
   ]);
 
+  // Appraisals recorded so far in the plan's current period
+  useEffect(() => {
+    if (!targets.agent_id) {
+      setAppraisalSummary(null);
+      return;
+    }
+    const period = planWindow(targets.period_type);
+    fetchAppraisals({ agentId: targets.agent_id, from: period.start, to: period.end })
+      .then((rows) => setAppraisalSummary(summarizeAppraisals(rows)))
+      .catch((error) => {
+        console.error('Error fetching appraisals:', error);
+        setAppraisalSummary(null);
+      });
+  }, [targets.agent_id, targets.period_type]);
+
+  // Conversion ratios from the deal pipeline over the last year
+  useEffect(() => {
+    if (!targets.agent_id) {
+      setPipelineMetrics(null);
+      return;
+    }
+    fetchPipelineMetrics({ agentId: targets.agent_id, listedFrom: moment().subtract(12, 'months').toISOString() })
+      .then(setPipelineMetrics)
+      .catch((error) => {
+        console.error('Error fetching pipeline metrics:', error);
+        setPipelineMetrics(null);
+      });
+  }, [targets.agent_id]);
+
+  // Once the agent has pipeline history the ratios are measured, not typed in
+  const measuredListingToWritten =
+    pipelineMetrics?.listings && pipelineMetrics.listingToWrittenRatio != null
+      ? Math.round(pipelineMetrics.listingToWrittenRatio)
+      : null;
+  const measuredFallOverRate =
+    pipelineMetrics?.written && pipelineMetrics.fallOverRate != null ? Math.round(pipelineMetrics.fallOverRate) : null;
+
+  useEffect(() => {
+    if (
+      (measuredListingToWritten != null && measuredListingToWritten !== targets.listing_to_written_ratio) ||
+      (measuredFallOverRate != null && measuredFallOverRate !== targets.fall_over_rate)
+    ) {
+      setTargets(prev => ({
+        ...prev,
+        listing_to_written_ratio: measuredListingToWritten ?? prev.listing_to_written_ratio,
+        fall_over_rate: measuredFallOverRate ?? prev.fall_over_rate,
+      }));
+    }
+  }, [measuredListingToWritten, measuredFallOverRate, targets.listing_to_written_ratio, targets.fall_over_rate]);
+
   // Fetch agents from profiles table
   useEffect(() => {
     const fetchAgents = async () => {
@@ -938,299 +1093,22 @@ export function AgentBusinessPlan({ isAdmin = false }: { isAdmin?: boolean }) {
   };
 
   const generatePDF = async (forView = false) => {
-  setGenerating(true);
-  try {
-    const doc = new jsPDF();
-    autoTable(doc, { html: null }); // Initialize autoTable plugin
-
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const pageHeight = doc.internal.pageSize.getHeight();
-    const margin = 6; // Reduced margin for maximum content space
-    let yOffset = margin;
-
-    // Main Header
-    doc.setFont('Helvetica', 'bold');
-    doc.setFontSize(16);
-    doc.setFillColor(135, 206, 235); // Sky blue background
-    doc.rect(0, 0, pageWidth, 20, 'F'); // Extended height for clarity
-    doc.setTextColor(255, 255, 255);
-    doc.text('Agent Business Plan', pageWidth / 2, yOffset + 14, { align: 'center' }); // Centered
-    doc.setFontSize(8);
-    doc.setFont('Helvetica', 'normal');
-    doc.text(
-      `Generated on ${new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`,
-      pageWidth - margin - 50,
-      yOffset + 14,
-      { align: 'left' }
-    );
-    yOffset += 22;
-
-    // Agent Information
-    doc.setFont('Helvetica', 'bold');
-    doc.setFontSize(11);
-    doc.setFillColor(135, 206, 235); // Sky blue for section header
-    doc.setDrawColor(135, 206, 235); // Sky blue border
-    doc.setLineWidth(0.5); // Thicker border
-    doc.rect(margin, yOffset, pageWidth - 2 * margin, 8, 'FD');
-    doc.setTextColor(255, 255, 255);
-    doc.text('Agent Information', margin + 2, yOffset + 6, { align: 'left' });
-    yOffset += 9;
-    doc.setFont('Helvetica', 'normal');
-    doc.setFontSize(8);
-    doc.setTextColor(17, 24, 39);
-    autoTable(doc, {
-      startY: yOffset,
-      head: [['S.No.', 'Field', 'Value']],
-      body: [[1, 'Agent Name', targets.agent_name || 'N/A']],
-      theme: 'grid',
-      styles: {
-        font: 'Helvetica',
-        fontSize: 8,
-        cellPadding: 1,
-        textColor: [17, 24, 39],
-        fillColor: [240, 248, 255], // Very light blue background
-        lineWidth: 0.3, // Thicker grid lines
-        lineColor: [135, 206, 235], // Sky blue grid lines
-        halign: 'center',
-        valign: 'middle',
-      },
-      headStyles: {
-        fillColor: [135, 206, 235],
-        textColor: [255, 255, 255],
-        fontStyle: 'bold',
-        halign: 'center',
-        fontSize: 8,
-        cellPadding: 1,
-        lineWidth: 0.3, // Thicker grid lines
-      },
-      columnStyles: {
-        0: { cellWidth: 10, halign: 'center' }, // S.No.
-        1: { cellWidth: 35, halign: 'left' }, // Field
-        2: { cellWidth: 95, halign: 'center' }, // Value
-      },
-      margin: { left: margin, right: margin },
-    });
-    yOffset = doc.lastAutoTable.finalY + 6;
-
-    // Commission Structure
-    doc.setFont('Helvetica', 'bold');
-    doc.setFontSize(11);
-    doc.setFillColor(135, 206, 235);
-    doc.setDrawColor(135, 206, 235);
-    doc.setLineWidth(0.5); // Thicker border
-    doc.rect(margin, yOffset, pageWidth - 2 * margin, 8, 'FD');
-    doc.setTextColor(255, 255, 255);
-    doc.text('Commission Structure', margin + 2, yOffset + 6, { align: 'left' });
-    yOffset += 9;
-    doc.setFont('Helvetica', 'normal');
-    doc.setFontSize(8);
-    doc.setTextColor(17, 24, 39);
-    autoTable(doc, {
-      startY: yOffset,
-      head: [['S.No.', 'Field', 'Value']],
-      body: [
-        [1, 'Avg. Comm./Prop.', targets.avg_commission_price_per_property != null ? `$${Math.round(targets.avg_commission_price_per_property).toLocaleString()}` : 'N/A'],
-        [2, 'Franchise Fee', targets.franchise_fee != null ? `${Math.round(targets.franchise_fee)}%` : '0%'],
-        [3, 'Comm. Avg.', targets.commission_average != null ? `$${Math.round(targets.commission_average).toLocaleString()}` : 'N/A'],
-        [4, 'Agent %', targets.agent_percentage != null ? `${Math.round(targets.agent_percentage)}%` : '50%'],
-        [5, 'Business %', targets.business_percentage != null ? `${Math.round(targets.business_percentage)}%` : '50%'],
-        [6, 'Agent Comm.', targets.agent_amount != null ? `$${Math.round(targets.agent_amount).toLocaleString()}` : 'N/A'],
-        [7, 'Business Comm.', targets.business_amount != null ? `$${Math.round(targets.business_amount).toLocaleString()}` : 'N/A'],
-      ],
-      theme: 'grid',
-      styles: {
-        font: 'Helvetica',
-        fontSize: 8,
-        cellPadding: 1,
-        textColor: [17, 24, 39],
-        fillColor: [240, 248, 255],
-        lineWidth: 0.3,
-        lineColor: [135, 206, 235],
-        halign: 'center',
-        valign: 'middle',
-      },
-      headStyles: {
-        fillColor: [135, 206, 235],
-        textColor: [255, 255, 255],
-        fontStyle: 'bold',
-        halign: 'center',
-        fontSize: 8,
-        cellPadding: 1,
-        lineWidth: 0.3,
-      },
-      columnStyles: {
-        0: { cellWidth: 10, halign: 'center' },
-        1: { cellWidth: 35, halign: 'left' },
-        2: { cellWidth: 95, halign: 'center' },
-      },
-      margin: { left: margin, right: margin },
-    });
-    yOffset = doc.lastAutoTable.finalY + 6;
-
-    // Targets (Grid-Wise Format)
-    doc.setFont('Helvetica', 'bold');
-    doc.setFontSize(11);
-    doc.setFillColor(135, 206, 235);
-    doc.setDrawColor(135, 206, 235);
-    doc.setLineWidth(0.5); // Thicker border
-    doc.rect(margin, yOffset, pageWidth - 2 * margin, 8, 'FD');
-    doc.setTextColor(255, 255, 255);
-    doc.text('Targets', margin + 2, yOffset + 6, { align: 'left' });
-    yOffset += 9;
-    doc.setFont('Helvetica', 'normal');
-    doc.setFontSize(8);
-    doc.setTextColor(17, 24, 39);
-    const targetsData = [
-      [1, 'Gross Comm.', targets.gross_commission_target != null ? `$${Math.round(targets.gross_commission_target).toLocaleString()}` : 'N/A'],
-      [2, 'Avg. Comm./Sale', targets.avg_commission_per_sale != null ? `$${Math.round(targets.avg_commission_per_sale).toLocaleString()}` : 'N/A'],
-      [3, 'Settled Sales', targets.settled_sales_target != null ? Math.round(targets.settled_sales_target).toLocaleString() : 'N/A'],
-      [4, 'Listings', targets.listings_target != null ? Math.round(targets.listings_target).toLocaleString() : 'N/A'],
-      [5, 'Appraisals', targets.appraisals_target != null ? Math.round(targets.appraisals_target).toLocaleString() : 'N/A'],
-      [6, 'Connects/App.', targets.connects_for_appraisals != null ? Math.round(targets.connects_for_appraisals).toLocaleString() : 'N/A'],
-      [7, 'Calls/App.', targets.phone_calls_to_achieve_appraisals != null ? Math.round(targets.phone_calls_to_achieve_appraisals).toLocaleString() : 'N/A'],
-      [8, 'Calls/Day', targets.calls_per_day != null ? Math.round(targets.calls_per_day).toLocaleString() : 'N/A'],
-      [9, 'Work Days/Yr', targets.no_of_working_days_per_year != null ? Math.round(targets.no_of_working_days_per_year).toLocaleString() : 'N/A'],
-      [10, 'Calls/Person', targets.calls_per_person != null ? Math.round(targets.calls_per_person).toLocaleString() : 'N/A'],
-      [11, 'People Req.', targets.no_of_people_required != null ? Math.round(targets.no_of_people_required).toLocaleString() : 'N/A'],
-      [12, 'Salary/Hr', targets.salary_per_hour != null ? `$${targets.salary_per_hour.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}` : 'N/A'],
-      [13, 'Salary/Day', targets.salary_per_day != null ? `$${Math.round(targets.salary_per_day).toLocaleString()}` : 'N/A'],
-      [14, 'Persons Salary', targets.persons_salary != null ? `$${Math.round(targets.persons_salary).toLocaleString()}` : 'N/A'],
-      [15, 'Marketing Exp.', targets.marketing_expenses != null ? `$${Math.round(targets.marketing_expenses).toLocaleString()}` : 'N/A'],
-      [16, 'Cost/3rd Call', targets.cost_per_third_party_call != null ? `$${Math.round(targets.cost_per_third_party_call).toLocaleString()}` : 'N/A'],
-      [17, 'Cost/App.', targets.cost_per_appraisals != null ? `$${Math.round(targets.cost_per_appraisals).toLocaleString()}` : 'N/A'],
-      [18, 'Total Calls', targets.how_many_calls != null ? Math.round(targets.how_many_calls).toLocaleString() : 'N/A'],
-      [19, 'Total App.', targets.how_many_appraisals != null ? Math.round(targets.how_many_appraisals).toLocaleString() : 'N/A'],
-      [20, '3rd Party Calls', targets.total_third_party_calls != null ? `$${Math.round(targets.total_third_party_calls).toLocaleString()}` : 'N/A'],
-      [21, 'Cost App.', targets.total_cost_appraisals != null ? `$${Math.round(targets.total_cost_appraisals).toLocaleString()}` : 'N/A'],
-      [22, 'Net Comm.', targets.net_commission != null ? `$${Math.round(targets.net_commission).toLocaleString()}` : 'N/A'],
-    ];
-    const gridRows = [];
-    const itemsPerColumn = Math.ceil(targetsData.length / 3); // ~8 items per column
-    for (let i = 0; i < itemsPerColumn; i++) {
-      const row = [
-        targetsData[i]?.[0] || '', targetsData[i]?.[1] || '', targetsData[i]?.[2] || '',
-        targetsData[i + itemsPerColumn]?.[0] || '', targetsData[i + itemsPerColumn]?.[1] || '', targetsData[i + itemsPerColumn]?.[2] || '',
-        targetsData[i + 2 * itemsPerColumn]?.[0] || '', targetsData[i + 2 * itemsPerColumn]?.[1] || '', targetsData[i + 2 * itemsPerColumn]?.[2] || '',
-      ];
-      gridRows.push(row);
-    }
-    autoTable(doc, {
-      startY: yOffset,
-      head: [['S.No.', 'Field', 'Value', 'S.No.', 'Field', 'Value', 'S.No.', 'Field', 'Value']],
-      body: gridRows,
-      theme: 'grid',
-      styles: {
-        font: 'Helvetica',
-        fontSize: 8,
-        cellPadding: 0.8,
-        textColor: [17, 24, 39],
-        fillColor: [240, 248, 255],
-        lineWidth: 0.3,
-        lineColor: [135, 206, 235],
-        halign: 'center',
-        valign: 'middle',
-      },
-      headStyles: {
-        fillColor: [135, 206, 235],
-        textColor: [255, 255, 255],
-        fontStyle: 'bold',
-        halign: 'center',
-        fontSize: 8,
-        cellPadding: 0.8,
-        lineWidth: 0.3,
-      },
-      columnStyles: {
-        0: { cellWidth: 10, halign: 'center' },
-        1: { cellWidth: 25, halign: 'left' },
-        2: { cellWidth: 25, halign: 'center' },
-        3: { cellWidth: 10, halign: 'center' },
-        4: { cellWidth: 25, halign: 'left' },
-        5: { cellWidth: 25, halign: 'center' },
-        6: { cellWidth: 10, halign: 'center' },
-        7: { cellWidth: 25, halign: 'left' },
-        8: { cellWidth: 25, halign: 'center' },
-      },
-      margin: { left: margin, right: margin },
-    });
-    yOffset = doc.lastAutoTable.finalY + 6;
-
-    // Performance Ratios
-    doc.setFont('Helvetica', 'bold');
-    doc.setFontSize(11);
-    doc.setFillColor(135, 206, 235);
-    doc.setDrawColor(135, 206, 235);
-    doc.setLineWidth(0.5); // Thicker border
-    doc.rect(margin, yOffset, pageWidth - 2 * margin, 8, 'FD');
-    doc.setTextColor(255, 255, 255);
-    doc.text('Performance Ratios', margin + 2, yOffset + 6, { align: 'left' });
-    yOffset += 9;
-    doc.setFont('Helvetica', 'normal');
-    doc.setFontSize(8);
-    doc.setTextColor(17, 24, 39);
-    autoTable(doc, {
-      startY: yOffset,
-      head: [['S.No.', 'Field', 'Value']],
-      body: [
-        [1, 'Fall Over Rate', targets.fall_over_rate != null ? `${Math.round(targets.fall_over_rate)}%` : 'N/A'],
-        [2, 'App. to List', targets.appraisal_to_listing_ratio != null ? `${Math.round(targets.appraisal_to_listing_ratio)}%` : 'N/A'],
-        [3, 'List to Written', targets.listing_to_written_ratio != null ? `${Math.round(targets.listing_to_written_ratio)}%` : 'N/A'],
-        [4, 'Connects/App.', targets.connects_for_appraisal != null ? Math.round(targets.connects_for_appraisal).toLocaleString() : 'N/A'],
-        [5, 'Calls/Connect', targets.calls_for_connect != null ? Math.round(targets.calls_for_connect).toLocaleString() : 'N/A'],
-        [6, 'Work Days/Yr', targets.no_of_working_days_per_year != null ? Math.round(targets.no_of_working_days_per_year).toLocaleString() : 'N/A'],
-      ],
-      theme: 'grid',
-      styles: {
-        font: 'Helvetica',
-        fontSize: 8,
-        cellPadding: 1,
-        textColor: [17, 24, 39],
-        fillColor: [240, 248, 255],
-        lineWidth: 0.3,
-        lineColor: [135, 206, 235],
-        halign: 'center',
-        valign: 'middle',
-      },
-      headStyles: {
-        fillColor: [135, 206, 235],
-        textColor: [255, 255, 255],
-        fontStyle: 'bold',
-        halign: 'center',
-        fontSize: 8,
-        cellPadding: 1,
-        lineWidth: 0.3,
-      },
-      columnStyles: {
-        0: { cellWidth: 10, halign: 'center' },
-        1: { cellWidth: 35, halign: 'left' },
-        2: { cellWidth: 95, halign: 'center' },
-      },
-      margin: { left: margin, right: margin },
-    });
-    yOffset = doc.lastAutoTable.finalY + 6;
-
-    // Footer
-    doc.setFont('Helvetica', 'normal');
-    doc.setFontSize(8);
-    doc.setTextColor(100, 100, 100);
-    doc.text('Page 1 of 1', pageWidth - margin - 15, pageHeight - margin, { align: 'right' });
-    doc.text('Generated by RealRed', margin, pageHeight - margin, { align: 'left' });
-
-    if (forView) {
-      const pdfDataUri = doc.output('datauristring');
-      setPdfDataUri(pdfDataUri);
-      toast.success('PDF generated for viewing!');
-    } else {
-      doc.save(`business_plan_${new Date().toISOString().split('T')[0]}_${targets.agent_name || 'agent'}.pdf`);
-      toast.success('PDF downloaded successfully!');
+    setGenerating(true);
+    try {
+      if (forView) {
+        setPdfDataUri(await reportDataUri(AGENT_BUSINESS_PLAN_REPORT, targets));
+        toast.success('PDF generated for viewing!');
+      } else {
+        await downloadReport(AGENT_BUSINESS_PLAN_REPORT, targets);
+        toast.success('PDF downloaded successfully!');
+      }
+    } catch (error) {
+      console.error('Error generating PDF:', error);
+      toast.error('Failed to generate PDF: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setGenerating(false);
     }
-  } catch (error) {
-    console.error('Error generating PDF:', error);
-    toast.error('Failed to generate PDF: ' + (error.message || 'Unknown error'));
-  } finally {
-    setGenerating(false);
-  }
-};
-
+  };
 
   const viewPlan = () => {
     if (!targets.agent_name || !targets.gross_commission_target) {
@@ -1366,33 +1244,6 @@ export function AgentBusinessPlan({ isAdmin = false }: { isAdmin?: boolean }) {
     { name: 'Business Commission', value: targets.business_amount, fill: '#2563EB' }
   ].filter(item => item.value != null);
 
-  const progressData = [
-    { 
-      name: 'Gross Commission', 
-      target: targets.gross_commission_target, 
-      current: targets.gross_commission_target ? Math.round(targets.gross_commission_target * 0.5) : null, 
-      isCurrency: true 
-    },
-    { 
-      name: 'Settled Sales', 
-      target: targets.settled_sales_target, 
-      current: targets.settled_sales_target ? Math.round(targets.settled_sales_target * 0.5) : null, 
-      isCurrency: false 
-    },
-    { 
-      name: 'Listings', 
-      target: targets.listings_target, 
-      current: targets.listings_target ? Math.round(targets.listings_target * 0.5) : null, 
-      isCurrency: false 
-    },
-    { 
-      name: 'Appraisals', 
-      target: targets.appraisals_target, 
-      current: targets.appraisals_target ? Math.round(targets.appraisals_target * 0.5) : null, 
-      isCurrency: false 
-    }
-  ].filter(item => item.target != null);
-
   const targetCards = [
     { 
       title: 'Gross Commission Target', 
@@ -2118,6 +1969,15 @@ export function AgentBusinessPlan({ isAdmin = false }: { isAdmin?: boolean }) {
               ))}
             </div>
           </div>
+          {targets.agent_id && (
+            <div className="bg-white p-6 rounded-lg shadow-md border border-blue-200">
+              <h2 className="text-xl font-semibold text-blue-900 mb-4 flex items-center">
+                <BarChart3 className="w-5 h-5 mr-2 text-blue-600" />
+                Actual vs Target
+              </h2>
+              <PlanTrackingPanel agentId={targets.agent_id} targets={targets} />
+            </div>
+          )}
           <div className="bg-white p-6 rounded-lg shadow-md border border-blue-200">
             <h2 className="text-xl font-semibold text-blue-900 mb-4 flex items-center">
               <Target className="w-5 h-5 mr-2 text-blue-600" />
@@ -2132,6 +1992,8 @@ export function AgentBusinessPlan({ isAdmin = false }: { isAdmin?: boolean }) {
                 step={1}
                 suffix="%"
                 tooltip="Percentage of listings that fail to convert to sales."
+                readOnly={measuredFallOverRate != null}
+                note={measuredFallOverRate != null ? `From pipeline: ${pipelineMetrics?.fallenOver} of ${pipelineMetrics?.written} written deals fell over` : undefined}
               />
               <RatioInput
                 label="Appraisal to Listing Ratio"
@@ -2150,6 +2012,8 @@ export function AgentBusinessPlan({ isAdmin = false }: { isAdmin?: boolean }) {
                 step={1}
                 suffix="%"
                 tooltip="Percentage of listings that convert to written sales."
+                readOnly={measuredListingToWritten != null}
+                note={measuredListingToWritten != null ? `From pipeline: ${pipelineMetrics?.written} of ${pipelineMetrics?.listings} listings written` : undefined}
               />
               <RatioInput
                 label="Connects for Appraisal"
@@ -2179,6 +2043,21 @@ export function AgentBusinessPlan({ isAdmin = false }: { isAdmin?: boolean }) {
                 tooltip="Total number of working days in a year."
               />
             </div>
+            {appraisalSummary && (
+              <div className="mt-4 p-4 rounded-lg bg-blue-50 border border-blue-200 text-sm text-blue-800 flex flex-wrap gap-x-6 gap-y-1">
+                <span>
+                  <strong>Appraisals {PERIOD_LABELS[targets.period_type]}:</strong> {appraisalSummary.total}
+                  {targets.appraisals_target != null && ` of ${targets.appraisals_target}`}
+                </span>
+                <span>Desktop: {appraisalSummary.desktop}</span>
+                <span>In person: {appraisalSummary.inPerson}</span>
+                <span>Listed: {appraisalSummary.listed}</span>
+                <span>
+                  Actual appraisal to listing:{' '}
+                  {appraisalSummary.listed + appraisalSummary.lost > 0 ? `${appraisalSummary.conversionRate.toFixed(0)}%` : 'N/A'}
+                </span>
+              </div>
+            )}
           </div>
 
           <div className="bg-white p-6 rounded-lg shadow-md border border-blue-200">
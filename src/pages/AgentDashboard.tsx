@@ -1,15 +1,22 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { Link, useNavigate, Navigate } from 'react-router-dom';
-import { useAuthStore } from '../store/authStore';
-import { Mic, Search, Download, SlidersHorizontal, X, TrendingUp, BarChart2, PlusCircle, FileText, BarChart, Activity, CheckCircle, Home, Bath, Car, Eye } from 'lucide-react';
+import { useAuthStore, usePermissions } from '../store/authStore';
+import { listSuburbs } from '../utils/gazetteer';
+import { fetchDatedSales, predictFromSales } from '../api/priceHistory';
+import { PredictionResult } from '../utils/forecasting';
+import { Mic, Search, Download, SlidersHorizontal, X, TrendingUp, BarChart2, PlusCircle, FileText, BarChart, Activity, CheckCircle, ClipboardCheck, Kanban, Receipt, Home, Bath, Car, Eye, PhoneCall, Upload, Users } from 'lucide-react';
 import { IndividualPropertyReport } from './IndividualPropertyReport';
-import { supabase } from '../lib/supabase';
-import { generatePdf } from '../utils/pdfUtils';
-import { Property } from '../types/Property';
+import { fetchAllProperties, fetchPropertyCategories, fetchPropertyPage } from '../api/properties';
+import { downloadReport, reportDataUri } from '../utils/pdfReport';
+import { TABLE_REPORT, TableReportData } from '../utils/reportTemplates';
+import { PropertyRow as Property } from '../types/database';
 import { motion, AnimatePresence } from 'framer-motion';
 import { formatCurrency } from '../utils/formatters';
 import { toast } from 'react-toastify';
 import { LoadingOverlay } from '../components/LoadingOverlay';
+import { ExportDialog } from '../components/ExportDialog';
+import { activeFilters, ExportSpec } from '../utils/exporter';
+import { PROPERTY_EXPORT_COLUMNS } from '../utils/exportColumns';
 import { Bar } from 'react-chartjs-2';
 import * as pdfjsLib from 'pdfjs-dist';
 import {
@@ -27,15 +34,6 @@ pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.j
 
 ChartJS.register(CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend);
 
-interface PredictionResult {
-  recommendation: 'BUY' | 'SOLD';
-  confidence: number;
-  trend: number;
-  historicalData: { dates: string[]; prices: number[] };
-  marketCondition?: 'Rising' | 'Stable' | 'Declining';
-  sentimentScore?: number;
-}
-
 interface SuburbProgress {
   suburb: string;
   totalProperties: number;
@@ -58,24 +56,10 @@ interface Filters {
   categories: string[];
 }
 
-const ALLOWED_SUBURBS = [
-  { name: 'Moggill', postcode: '4070' },
-  { name: 'Bellbowrie', postcode: '4070' },
-  { name: 'Pullenvale', postcode: '4069' },
-  { name: 'Brookfield', postcode: '4069' },
-  { name: 'Anstead', postcode: '4070' },
-  { name: 'Chapel Hill', postcode: '4069' },
-  { name: 'Kenmore', postcode: '4069' },
-  { name: 'Kenmore Hills', postcode: '4069' },
-  { name: 'Fig Tree Pocket', postcode: '4069' },
-  { name: 'Pinjara Hills', postcode: '4069' },
-  { name: 'Springfield', postcode: '4300' },
-  { name: 'Spring Mountain', postcode: '4300' },
-  { name: 'Greenbank', postcode: '4124' },
-];
 
 export function AgentDashboard() {
   const { profile, user } = useAuthStore();
+  const { can } = usePermissions();
   const navigate = useNavigate();
   const [performanceScore] = useState(75);
   const [isRecording, setIsRecording] = useState(false);
@@ -105,6 +89,7 @@ export function AgentDashboard() {
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
   const [showPreviewModal, setShowPreviewModal] = useState(false);
   const [pdfDataUrl, setPdfDataUrl] = useState<string | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const pdfCanvasRef = useRef<HTMLCanvasElement>(null);
   
 
@@ -180,12 +165,7 @@ export function AgentDashboard() {
 
   const fetchAvailableCategories = useCallback(async () => {
     try {
-      const { data, error } = await supabase
-        .from('properties')
-        .select('category')
-        .not('category', 'is', null);
-      if (error) throw error;
-      const categories = [...new Set(data?.map(d => d.category?.trim()))].filter(c => c) as string[];
+      const categories = await fetchPropertyCategories();
       console.debug('Available categories:', categories);
       setAvailableCategories(categories);
       return categories;
@@ -201,28 +181,18 @@ export function AgentDashboard() {
     setError(null);
     try {
       console.debug('Fetching properties...');
-      const { data, error } = await supabase
-        .from('properties')
-        .select('*')
-        .order('listed_date', { ascending: false });
-      if (error) throw error;
-      console.debug('Fetched properties:', { count: data?.length || 0, sample: data?.slice(0, 2) });
-      setProperties(data || []);
-      if (!data || data.length === 0) {
+      const data = await fetchAllProperties({ sort: { column: 'listed_date', ascending: false } });
+      console.debug('Fetched properties:', { count: data.length, sample: data.slice(0, 2) });
+      setProperties(data);
+      if (data.length === 0) {
         setError('No properties found in the database.');
         toast.warn('No properties found. Check database or filters.');
       }
 
-      const predictionPromises = (data || []).map(async (property) => {
-        const prediction = await analyzePriceTrend(
-          property.city || property.suburb || 'Unknown',
-          property.property_type || 'Unknown'
-        );
-        return { id: property.id, prediction };
-      });
-      const predictionResults = await Promise.all(predictionPromises);
-      const predictionMap = predictionResults.reduce((acc, { id, prediction }) => {
-        acc[id] = prediction;
+      // One fetch of dated sales, then a forecast per suburb / property type
+      const sales = await fetchDatedSales();
+      const predictionMap = data.reduce((acc, property) => {
+        acc[property.id] = predictFromSales(sales, property.suburb || property.city || 'Unknown', property.property_type || undefined);
         return acc;
       }, {} as Record<string, PredictionResult>);
       setPredictions(predictionMap);
@@ -239,16 +209,9 @@ export function AgentDashboard() {
   const fetchSuburbProgress = useCallback(async () => {
     try {
       console.debug('Fetching suburb progress...');
-      const progressPromises = ALLOWED_SUBURBS.map(async (suburb) => {
+      const progressPromises = listSuburbs().map(async (suburb) => {
         console.debug(`Querying properties for suburb: ${suburb.name}`);
-        const { data: properties, error } = await supabase
-          .from('properties')
-          .select('id, category, listed_date, sold_date, suburb')
-          .ilike('suburb', `%${suburb.name.trim().toUpperCase()}%`);
-        if (error) {
-          console.error(`Error querying ${suburb.name}:`, error);
-          throw error;
-        }
+        const properties = await fetchAllProperties({ filters: { suburbs: [suburb.name] } });
         console.debug(`Properties for ${suburb.name}:`, {
           count: properties?.length || 0,
           sample: properties?.slice(0, 2),
@@ -272,11 +235,11 @@ export function AgentDashboard() {
         const soldProperties = properties.filter(p => p.category?.toLowerCase() === 'sold').length || 0;
 
         const avgDaysOnMarket = properties
-          .filter(p => p.sold_date && p.listed_date)
-          .map(p => {
+          .flatMap(p => {
+            if (!p.sold_date || !p.listed_date) return [];
             const listed = new Date(p.listed_date);
             const sold = new Date(p.sold_date);
-            return (sold.getTime() - listed.getTime()) / (1000 * 60 * 60 * 24);
+            return [(sold.getTime() - listed.getTime()) / (1000 * 60 * 60 * 24)];
           })
           .reduce((sum, days) => sum + days, 0) / (soldProperties || 1) || 0;
 
@@ -299,7 +262,7 @@ export function AgentDashboard() {
       setSuburbProgress(filteredProgress);
       if (filteredProgress.length === 0) {
         toast.warn(
-          `No suburb progress data available. No properties found for suburbs: ${ALLOWED_SUBURBS.map(s => s.name).join(', ')}.`
+          `No suburb progress data available. No properties found for suburbs: ${listSuburbs().map(s => s.name).join(', ')}.`
         );
       }
     } catch (error) {
@@ -332,74 +295,27 @@ export function AgentDashboard() {
     setError(null);
     try {
       console.debug('Applying filters:', { query, filters });
-      let queryBuilder = supabase.from('properties').select('*');
-
-      const sanitizedFilters = {
-        ...filters,
-        bedrooms: filters.bedrooms ? parseInt(filters.bedrooms, 10) : null,
-        bathrooms: filters.bathrooms ? parseInt(filters.bathrooms, 10) : null,
-        car_garage: filters.car_garage ? parseInt(filters.car_garage, 10) : null,
-        square_feet: filters.square_feet ? parseInt(filters.square_feet, 10) : null,
-        price: filters.price ? parseInt(filters.price, 10) : null,
-      };
-
-      if (filters.categories.length > 0) {
-        console.debug('Applying category filter:', filters.categories);
-        queryBuilder = queryBuilder.or(
-          filters.categories.map(c => `category.ilike.${c.trim()}`).join(',')
-        );
-      }
-
-      if (query.trim()) {
-        console.debug('Applying search query:', query.trim());
-        queryBuilder = queryBuilder.or(
-          `property_type.ilike.%${query.trim()}%,street_name.ilike.%${query.trim()}%,address.ilike.%${query.trim()}%,suburb.ilike.%${query.trim()}%`
-        );
-      }
-      if (sanitizedFilters.bedrooms && !isNaN(sanitizedFilters.bedrooms)) {
-        console.debug('Applying bedrooms filter:', sanitizedFilters.bedrooms);
-        queryBuilder = queryBuilder.eq('bedrooms', sanitizedFilters.bedrooms);
-      }
-      if (sanitizedFilters.bathrooms && !isNaN(sanitizedFilters.bathrooms)) {
-        console.debug('Applying bathrooms filter:', sanitizedFilters.bathrooms);
-        queryBuilder = queryBuilder.eq('bathrooms', sanitizedFilters.bathrooms);
-      }
-      if (sanitizedFilters.car_garage && !isNaN(sanitizedFilters.car_garage)) {
-        console.debug('Applying car_garage filter:', sanitizedFilters.car_garage);
-        queryBuilder = queryBuilder.eq('car_garage', sanitizedFilters.car_garage);
-      }
-      if (sanitizedFilters.square_feet && !isNaN(sanitizedFilters.square_feet)) {
-        console.debug('Applying square_feet filter:', sanitizedFilters.square_feet);
-        queryBuilder = queryBuilder.gte('square_feet', sanitizedFilters.square_feet);
-      }
-      if (sanitizedFilters.price && !isNaN(sanitizedFilters.price)) {
-        console.debug('Applying price filter:', sanitizedFilters.price);
-        queryBuilder = queryBuilder.lte('price', sanitizedFilters.price);
-      }
-      if (filters.suburbs.length > 0) {
-        console.debug('Applying suburbs filter:', filters.suburbs);
-        queryBuilder = queryBuilder.or(
-          filters.suburbs.map(s => `suburb.ilike.%${s.trim().toUpperCase()}%`).join(',')
-        );
-      }
-      if (filters.propertyTypes.length > 0) {
-        console.debug('Applying propertyTypes filter:', filters.propertyTypes);
-        queryBuilder = queryBuilder.or(
-          filters.propertyTypes.map(p => `property_type.ilike.${p.trim()}`).join(',')
-        );
-      }
-      if (filters.street_name.trim()) {
-        console.debug('Applying street_name filter:', filters.street_name.trim());
-        queryBuilder = queryBuilder.ilike('street_name', `%${filters.street_name.trim()}%`);
-      }
-
-      const { data, error } = await queryBuilder.order('listed_date', { ascending: false });
-      if (error) throw error;
+      const toNumber = (value: string) => parseInt(value, 10) || undefined;
+      const data = await fetchAllProperties({
+        filters: {
+          categories: filters.categories,
+          search: query,
+          bedrooms: toNumber(filters.bedrooms),
+          bathrooms: toNumber(filters.bathrooms),
+          carSpaces: toNumber(filters.car_garage),
+          minSqm: toNumber(filters.square_feet),
+          maxPrice: toNumber(filters.price),
+          suburbs: filters.suburbs,
+          propertyTypes: filters.propertyTypes,
+          streetNames: filters.street_name.trim() ? [filters.street_name] : undefined,
+        },
+        sort: { column: 'listed_date', ascending: false },
+      });
 
-      console.debug('Query result:', { count: data?.length || 0, sample: data?.slice(0, 2) });
-      setProperties(data || []);
+      console.debug('Query result:', { count: data.length, sample: data.slice(0, 2) });
+      setProperties(data);
 
-      if (data?.length === 0) {
+      if (data.length === 0) {
         const categories = await fetchAvailableCategories();
         const errorMessage = filters.categories.length > 0
           ? `No properties found for status: ${filters.categories.join(', ')}. Available categories: ${categories.join(', ') || 'none'}. Check database or adjust filters.`
@@ -409,16 +325,10 @@ export function AgentDashboard() {
         setError(null);
       }
 
-      const predictionPromises = (data || []).map(async (property) => {
-        const prediction = await analyzePriceTrend(
-          property.city || property.suburb || 'Unknown',
-          property.property_type || 'Unknown'
-        );
-        return { id: property.id, prediction };
-      });
-      const predictionResults = await Promise.all(predictionPromises);
-      const predictionMap = predictionResults.reduce((acc, { id, prediction }) => {
-        acc[id] = prediction;
+      // One fetch of dated sales, then a forecast per suburb / property type
+      const sales = await fetchDatedSales();
+      const predictionMap = data.reduce((acc, property) => {
+        acc[property.id] = predictFromSales(sales, property.suburb || property.city || 'Unknown', property.property_type || undefined);
         return acc;
       }, {} as Record<string, PredictionResult>);
       setPredictions(predictionMap);
@@ -458,64 +368,12 @@ export function AgentDashboard() {
       } else if (command.includes('view progress report')) {
         navigate('/progress-report');
       } else if (command.includes('show suburb progress')) {
-        setSelectedSuburb(ALLOWED_SUBURBS[0].name);
+        setSelectedSuburb(listSuburbs()[0].name);
       }
     };
     recognition.start();
   };
 
-  const analyzePriceTrend = async (city: string, propertyType: string): Promise<PredictionResult> => {
-    try {
-      const oneYearAgo = new Date();
-      oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
-      const { data: historicalData, error } = await supabase
-        .from('property_history')
-        .select('sale_date, price')
-        .eq('city', city)
-        .eq('property_type', propertyType)
-        .gte('sale_date', oneYearAgo.toISOString())
-        .order('sale_date', { ascending: true });
-      if (error) throw error;
-
-      if (!historicalData || historicalData.length === 0) {
-        return {
-          recommendation: 'BUY',
-          confidence: 50,
-          trend: 0,
-          historicalData: { dates: [], prices: [] },
-          sentimentScore: 0,
-          marketCondition: 'Stable',
-        };
-      }
-
-      const dates = historicalData.map((record) => new Date(record.sale_date).toLocaleDateString('en-AU', { month: 'short', year: 'numeric' }));
-      const prices = historicalData.map((record) => record.price);
-      const lastPrice = prices[prices.length - 1];
-      const firstPrice = prices[0];
-      const slope = ((lastPrice - firstPrice) / firstPrice) * 100;
-      const marketCondition: PredictionResult['marketCondition'] = slope > 3 ? 'Rising' : slope < -3 ? 'Declining' : 'Stable';
-      const recommendation: 'BUY' | 'SOLD' = slope >= 0 ? 'BUY' : 'SOLD';
-      return {
-        recommendation,
-        confidence: Math.min(Math.abs(slope) * 2, 95),
-        trend: slope,
-        historicalData: { dates, prices },
-        sentimentScore: Math.random() * 100 - 50,
-        marketCondition,
-      };
-    } catch (error) {
-      console.error('Error analyzing price trend:', error);
-      return {
-        recommendation: 'BUY',
-        confidence: 50,
-        trend: 0,
-        historicalData: { dates: [], prices: [] },
-        sentimentScore: 0,
-        marketCondition: 'Stable',
-      };
-    }
-  };
-
   const fetchSuggestions = async (query: string) => {
     if (!query.trim()) {
       setSuggestions([]);
@@ -523,15 +381,10 @@ export function AgentDashboard() {
     }
     try {
       console.debug('Fetching suggestions for query:', query);
-      const { data, error } = await supabase
-        .from('properties')
-        .select('property_type, street_name, suburb')
-        .or(`property_type.ilike.%${query.trim()}%,street_name.ilike.%${query.trim()}%,suburb.ilike.%${query.trim()}%`)
-        .limit(10);
-      if (error) throw error;
+      const { rows } = await fetchPropertyPage({ filters: { search: query }, pageSize: 10 });
 
       const suggestionSet = new Set<string>();
-      (data || []).forEach((property: any) => {
+      rows.forEach((property) => {
         if (property.property_type?.toLowerCase().includes(query.toLowerCase())) suggestionSet.add(property.property_type);
         if (property.street_name?.toLowerCase().includes(query.toLowerCase())) suggestionSet.add(property.street_name);
         if (property.suburb?.toLowerCase().includes(query.toLowerCase())) suggestionSet.add(property.suburb);
@@ -606,98 +459,32 @@ export function AgentDashboard() {
     setIsGeneratingPDF(true);
     console.debug(`Starting PDF ${action} at ${new Date().toISOString()}...`);
     try {
-      console.debug('Properties for PDF:', properties.map(p => ({
-        id: p.id,
-        address: p.address,
-        street_number: p.street_number,
-        street_name: p.street_name,
-        suburb: p.suburb,
-        price: p.price,
-        category: p.category,
-      })));
-
-      const headers = [['Address', 'Suburb', 'Price', 'Status']];
-      const tableData = properties.map((p) => {
-        const address = (p.address || `${p.street_number || ''} ${p.street_name || ''}`.trim() || 'N/A').toString();
-        const suburb = (p.suburb || 'N/A').toString();
-        const price = p.price != null && !isNaN(p.price) ? formatCurrency(p.price) : 'N/A';
-        const category = (p.category || 'N/A').toString();
-        return [address, suburb, price, category];
-      });
-
       if (!properties.length) {
         console.debug('No properties to generate PDF');
         toast.warn('No properties available to generate PDF');
         return;
       }
 
-      const isValidTableData = tableData.every(
-        row => Array.isArray(row) && row.length === 4 && row.every(cell => typeof cell === 'string' && cell != null)
-      );
-      if (!isValidTableData) {
-        console.error('Invalid tableData:', { sample: tableData.slice(0, 2), totalRows: tableData.length });
-        throw new Error('Invalid table data: All cells must be non-null strings');
-      }
-
-      console.debug('PDF input data:', {
-        headers,
-        tableDataSample: tableData.slice(0, 2),
-        totalRows: tableData.length,
-        profileName: profile?.name || 'Unknown',
-        timestamp: new Date().toISOString(),
-      });
-
-      const fileName = `agent_dashboard_report_${new Date().toISOString().split('T')[0]}.pdf`;
-      const output = action === 'preview' ? 'datauristring' : 'blob';
-      const result = await generatePdf(
-        `Agent Property Report - ${profile?.name || 'Agent'}`,
-        headers,
-        tableData,
-        fileName,
-        output
-      );
-
-      console.debug('generatePdf result:', {
-        action,
-        type: typeof result,
-        isBlob: result instanceof Blob,
-        dataUrlPrefix: typeof result === 'string' ? result.substring(0, 50) : 'N/A',
-        dataLength: typeof result === 'string' ? result.length : result instanceof Blob ? result.size : 'N/A',
-        timestamp: new Date().toISOString(),
-      });
+      const report: TableReportData = {
+        id: 'agent_dashboard_report',
+        title: `Agent Property Report - ${profile?.name || 'Agent'}`,
+        subtitle: `${properties.length} properties`,
+        tableTitle: 'Properties',
+        head: ['Address', 'Suburb', 'Price', 'Status'],
+        rows: properties.map((p) => [
+          `${p.street_number || ''} ${p.street_name || ''}`.trim() || 'N/A',
+          p.suburb || 'N/A',
+          p.price != null && !isNaN(p.price) ? formatCurrency(p.price) : 'N/A',
+          p.category || 'N/A',
+        ]),
+      };
 
       if (action === 'preview') {
-        if (typeof result !== 'string' || !result.startsWith('data:application/pdf;base64,')) {
-          throw new Error(`Invalid PDF data URL: ${typeof result}`);
-        }
-        const base64Part = result.split(',')[1];
-        if (!base64Part || base64Part.length < 100) {
-          throw new Error(`Invalid PDF data URL: Base64 content too short (${base64Part.length} characters)`);
-        }
-        try {
-          atob(base64Part);
-          console.debug('Base64 decoding successful');
-        } catch (e) {
-          console.error('Invalid base64 content:', e);
-          throw new Error('Invalid base64 content in PDF data URL');
-        }
-        setPdfDataUrl(result);
+        setPdfDataUrl(await reportDataUri(TABLE_REPORT, report));
         setShowPreviewModal(true);
-        console.debug('PDF preview set, data URL length:', base64Part.length);
         toast.success('PDF preview ready!');
       } else {
-        if (!(result instanceof Blob)) {
-          throw new Error(`Expected Blob for save, got ${typeof result}`);
-        }
-        const url = URL.createObjectURL(result);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = fileName;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-        console.debug('PDF downloaded successfully:', fileName);
+        await downloadReport(TABLE_REPORT, report);
         toast.success('PDF report downloaded successfully!');
       }
     } catch (error: any) {
@@ -707,7 +494,7 @@ export function AgentDashboard() {
         propertiesCount: properties.length,
         sampleProperties: properties.slice(0, 2).map(p => ({
           id: p.id,
-          address: p.address,
+          address: `${p.street_number || ''} ${p.street_name || ''}`.trim(),
           suburb: p.suburb,
           price: p.price,
           category: p.category,
@@ -722,33 +509,22 @@ export function AgentDashboard() {
     }
   };
 
-  const exportToCSV = () => {
-    try {
-      const headers = ['Address', 'Suburb', 'Street', 'Bedrooms', 'Bathrooms', 'Garage', 'Price', 'Agent', 'Status'];
-      const rows = properties.map((p) => [
-        `"${p.street_number && p.street_name ? `${p.street_number} ${p.street_name}` : p.address || 'N/A'}"`,
-        `"${p.suburb || 'N/A'}"`,
-        `"${p.street_name || 'N/A'}"`,
-        p.bedrooms != null ? p.bedrooms.toString() : 'N/A',
-        p.bathrooms != null ? p.bathrooms.toString() : 'N/A',
-        p.car_garage != null ? p.car_garage.toString() : 'N/A',
-        p.price ? formatCurrency(p.price) : 'N/A',
-        `"${p.agent_name || 'N/A'}"`,
-        `"${p.category || 'N/A'}"`,
-      ]);
-      const csvContent = [headers.join(','), ...rows.map((row) => row.join(','))].join('\n');
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const link = document.createElement('a');
-      link.href = URL.createObjectURL(blob);
-      link.setAttribute('download', `agent_properties_${new Date().toISOString().split('T')[0]}.csv`);
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-    } catch (error) {
-      console.error('Error exporting CSV:', error);
-      toast.error('Failed to export CSV');
-    }
-  };
+  const propertyExportSpec = (): ExportSpec => ({
+    id: 'agent_properties',
+    title: 'Agent Properties',
+    tables: [{ name: 'Properties', rows: properties, columns: PROPERTY_EXPORT_COLUMNS }],
+    filters: activeFilters({
+      Categories: filters.categories,
+      Suburbs: filters.suburbs,
+      'Property Types': filters.propertyTypes,
+      'Street Name': filters.street_name.trim(),
+      Bedrooms: filters.bedrooms,
+      Bathrooms: filters.bathrooms,
+      'Car Spaces': filters.car_garage,
+      'Square Feet': filters.square_feet,
+      Price: filters.price,
+    }),
+  });
 
   const chartData = suburbProgress.length ? {
     labels: suburbProgress.map(p => p.suburb),
@@ -1000,10 +776,18 @@ export function AgentDashboard() {
       )}
 
       <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6 mb-8">
-        <Link to="/property-form" className="bg-blue-600 text-white p-6 rounded-lg hover:bg-blue-700 transition flex flex-col items-center justify-center">
-          <PlusCircle className="w-8 h-8 mb-2" />
-          <h2 className="text-xl font-semibold text-center">Add Property</h2>
-        </Link>
+        {can('properties.create') && (
+          <Link to="/property-form" className="bg-blue-600 text-white p-6 rounded-lg hover:bg-blue-700 transition flex flex-col items-center justify-center">
+            <PlusCircle className="w-8 h-8 mb-2" />
+            <h2 className="text-xl font-semibold text-center">Add Property</h2>
+          </Link>
+        )}
+        {can('properties.create') && (
+          <Link to="/property-import" className="bg-blue-600 text-white p-6 rounded-lg hover:bg-blue-700 transition flex flex-col items-center justify-center">
+            <Upload className="w-8 h-8 mb-2" />
+            <h2 className="text-xl font-semibold text-center">Import Sales</h2>
+          </Link>
+        )}
 
         <Link to="/agent-business-plan" className="bg-blue-600 text-white p-6 rounded-lg hover:bg-blue-700 transition flex flex-col items-center justify-center">
           <PlusCircle className="w-8 h-8 mb-2" />
@@ -1030,10 +814,30 @@ export function AgentDashboard() {
           <CheckCircle className="w-8 h-8 mb-2" />
           <h2 className="text-xl font-semibold text-center">Nurturing list</h2>
         </Link>
+        <Link to="/call-list" className="bg-sky-600 text-white p-6 rounded-lg hover:bg-sky-700 transition flex flex-col items-center justify-center">
+          <PhoneCall className="w-8 h-8 mb-2" />
+          <h2 className="text-xl font-semibold text-center">Call List</h2>
+        </Link>
+        <Link to="/people" className="bg-cyan-700 text-white p-6 rounded-lg hover:bg-cyan-800 transition flex flex-col items-center justify-center">
+          <Users className="w-8 h-8 mb-2" />
+          <h2 className="text-xl font-semibold text-center">People</h2>
+        </Link>
         <Link to="/agents-leaderboard" className="bg-indigo-600 text-white p-6 rounded-lg hover:bg-teal-700 transition flex flex-col items-center justify-center">
           <CheckCircle className="w-8 h-8 mb-2" />
           <h2 className="text-xl font-semibold text-center">Agent Progress</h2>
         </Link>
+        <Link to="/appraisals" className="bg-cyan-600 text-white p-6 rounded-lg hover:bg-cyan-700 transition flex flex-col items-center justify-center">
+          <ClipboardCheck className="w-8 h-8 mb-2" />
+          <h2 className="text-xl font-semibold text-center">Appraisals</h2>
+        </Link>
+        <Link to="/deal-pipeline" className="bg-indigo-600 text-white p-6 rounded-lg hover:bg-indigo-700 transition flex flex-col items-center justify-center">
+          <Kanban className="w-8 h-8 mb-2" />
+          <h2 className="text-xl font-semibold text-center">Deal Pipeline</h2>
+        </Link>
+        <Link to="/commission-ledger" className="bg-emerald-600 text-white p-6 rounded-lg hover:bg-emerald-700 transition flex flex-col items-center justify-center">
+          <Receipt className="w-8 h-8 mb-2" />
+          <h2 className="text-xl font-semibold text-center">My Commission</h2>
+        </Link>
         
       </div>
 
@@ -1058,7 +862,7 @@ export function AgentDashboard() {
               className="p-2 border rounded-lg"
             >
               <option value="">Select a suburb</option>
-              {ALLOWED_SUBURBS.map(suburb => (
+              {listSuburbs().map(suburb => (
                 <option key={suburb.name} value={suburb.name}>{suburb.name}</option>
               ))}
             </select>
@@ -1068,7 +872,7 @@ export function AgentDashboard() {
             <div className="text-center py-4 text-gray-600">
               <p>No suburb progress data available. This may be due to:</p>
               <ul className="list-disc list-inside text-left max-w-md mx-auto">
-                <li>No properties found for the specified suburbs ({ALLOWED_SUBURBS.map(s => s.name).join(', ')}).</li>
+                <li>No properties found for the specified suburbs ({listSuburbs().map(s => s.name).join(', ')}).</li>
                 <li>Database connection issues or missing data in the properties table.</li>
                 <li>Suburb names in the database not matching the expected format.</li>
               </ul>
@@ -1330,7 +1134,7 @@ export function AgentDashboard() {
                   }
                   className="w-full p-2 border rounded h-24"
                 >
-                  {ALLOWED_SUBURBS.map((suburb) => (
+                  {listSuburbs().map((suburb) => (
                     <option key={`${suburb.name}-${suburb.postcode}`} value={suburb.name}>
                       {`${suburb.name} ${suburb.postcode}`}
                     </option>
@@ -1467,10 +1271,10 @@ export function AgentDashboard() {
             <Download className="w-5 h-5" /> {isGeneratingPDF ? 'Generating...' : 'Download PDF Report'}
           </button>
           <button
-            onClick={exportToCSV}
+            onClick={() => setIsExportOpen(true)}
             className="bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 flex items-center gap-2 shadow-md"
           >
-            <Download className="w-5 h-5" /> Export to CSV
+            <Download className="w-5 h-5" /> Export Properties
           </button>
         </div>
       </div>
@@ -1505,7 +1309,7 @@ export function AgentDashboard() {
                   <h3 className="text-xl font-semibold truncate">
                     {property.street_number && property.street_name
                       ? `${property.street_number} ${property.street_name}`
-                      : property.address || 'Unknown Address'}
+                      : 'Unknown Address'}
                   </h3>
                   <span
                     className={`px-3 py-1 text-sm font-medium rounded-full ${
@@ -1582,6 +1386,7 @@ export function AgentDashboard() {
           </div>
         )}
       </div>
+      {isExportOpen && <ExportDialog spec={propertyExportSpec()} onClose={() => setIsExportOpen(false)} />}
     </div>
   );
 }
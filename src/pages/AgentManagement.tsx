@@ -3,15 +3,51 @@ import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../store/authStore';
 import toast, { Toaster } from 'react-hot-toast';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Users, Loader2, Pencil, Trash2, Eye, Mail, Copy, Share2, MessageCircle } from 'lucide-react';
+import moment from 'moment';
+import { Users, Loader2, Pencil, Trash2, Eye, Mail, Copy, Share2, MessageCircle, Send, Link2 } from 'lucide-react';
 import { Agent } from '../types/agent';
+import { provisionAgent } from '../api/agents';
+import { fetchLatestInvites, resendAgentInvite } from '../api/agentInvites';
+import { sendAgentInviteEmail } from '../api/email';
+import { ShareLinkDialog } from '../components/ShareLinkDialog';
+import type { ProvisionedAgent } from '../../supabase/functions/_shared/agent-provisioning.ts';
+import { AgentInviteRow, InviteStatus, inviteStatus } from '../../supabase/functions/_shared/agent-invites.ts';
+
+const INVITE_STATUS_STYLES: Record<InviteStatus, string> = {
+  sent: 'bg-blue-200 text-blue-800',
+  opened: 'bg-yellow-200 text-yellow-800',
+  accepted: 'bg-green-200 text-green-800',
+  expired: 'bg-red-200 text-red-800',
+  revoked: 'bg-gray-200 text-gray-600',
+};
+
+const InviteBadge = ({ invite }: { invite: AgentInviteRow }) => {
+  const status = inviteStatus(invite);
+  return (
+    <span
+      className={`px-2 py-1 rounded-full text-xs capitalize ${INVITE_STATUS_STYLES[status]}`}
+      title={`Sent ${moment(invite.sent_at).format('DD/MM/YYYY h:mm A')}`}
+    >
+      Invite {status}
+    </span>
+  );
+};
+
+// Queues the invite email; the server keeps retrying if the first send fails.
+const emailInvite = async (email: string, name: string, inviteLink: string) => {
+  try {
+    const sent = await sendAgentInviteEmail(email, name, inviteLink);
+    if (sent.status === 'sent') toast.success(`Invite emailed to ${email}`);
+    else toast.success(`Invite email to ${email} is queued and will be retried`);
+  } catch (err) {
+    toast.error(err instanceof Error ? err.message : 'Failed to email the invite');
+  }
+};
 
 interface AgentDetails {
   email: string;
   name: string;
   phone: string;
-  password: string;
-  confirmPassword: string;
 }
 
 interface CreateAgentModalProps {
@@ -33,26 +69,15 @@ interface ShareDetailsModalProps {
   agent: Agent | null;
 }
 
-const generatePassword = () => {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$%^&*';
-  let password = '';
-  for (let i = 0; i < 12; i++) {
-    password += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return password;
-};
-
 const CreateAgentModal = ({ isOpen, onClose, fetchAgents }: CreateAgentModalProps) => {
   const { profile } = useAuthStore();
   const [agentDetails, setAgentDetails] = useState<AgentDetails>({
     email: '',
     name: '',
     phone: '',
-    password: '',
-    confirmPassword: '',
   });
   const [error, setError] = useState<string | null>(null);
-  const [success, setSuccess] = useState<AgentDetails & { id: string } | null>(null);
+  const [success, setSuccess] = useState<ProvisionedAgent | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
   const handleCreateAgent = useCallback(async () => {
@@ -70,130 +95,22 @@ const CreateAgentModal = ({ isOpen, onClose, fetchAgents }: CreateAgentModalProp
       if (!agentDetails.phone) {
         throw new Error('Please enter a phone number');
       }
-      if (!agentDetails.password || agentDetails.password.length < 6) {
-        throw new Error('Password must be at least 6 characters long');
-      }
-      if (agentDetails.password !== agentDetails.confirmPassword) {
-        throw new Error('Passwords do not match');
-      }
 
       if (!profile || profile.role !== 'admin') {
         throw new Error('Only admins can create new agent accounts');
       }
 
-      let authData;
-      let authError;
-
-      try {
-        const { data, error } = await supabase.auth.signUp({
-          email: agentDetails.email,
-          password: agentDetails.password,
-          options: {
-            data: {
-              name: agentDetails.name,
-              phone: agentDetails.phone,
-              role: 'agent',
-            },
-          },
-        });
-        authData = data;
-        authError = error;
-      } catch (signUpError) {
-        const { data, error } = await supabase.auth.admin.createUser({
-          email: agentDetails.email,
-          password: agentDetails.password,
-          email_confirm: true,
-          user_metadata: {
-            name: agentDetails.name,
-            phone: agentDetails.phone,
-            role: 'agent',
-          },
-        });
-        authData = data;
-        authError = error;
-      }
-
-      if (authError) {
-        if (authError.message.includes('User already registered')) {
-          throw new Error('This email is already registered. Please use a different email.');
-        }
-        throw new Error(`Authentication error: ${authError.message}`);
-      }
-      if (!authData.user) {
-        throw new Error('Failed to create agent: No user returned');
-      }
+      const agent = await provisionAgent(agentDetails);
+      setSuccess(agent);
 
-      const { error: agentError } = await supabase
-        .from('agents')
-        .upsert(
-          {
-            id: authData.user.id,
-            email: agentDetails.email,
-            name: agentDetails.name,
-            phone: agentDetails.phone,
-            role: 'agent',
-          },
-          { onConflict: 'id' }
-        );
-
-      if (agentError) {
-        throw new Error(`Failed to create agent record: ${agentError.message}`);
-      }
-
-      const permissions = {
-        canRegisterProperties: true,
-        canEditProperties: true,
-        canDeleteProperties: false,
-      };
-
-      const { error: profileError, data: profileData } = await supabase
-        .from('profiles')
-        .upsert(
-          {
-            id: authData.user.id,
-            email: agentDetails.email,
-            name: agentDetails.name,
-            phone: agentDetails.phone,
-            role: 'agent',
-            permissions,
-          },
-          { onConflict: 'id' }
-        );
-
-      if (profileError) {
-        throw new Error(`Failed to create profile: ${profileError.message}`);
-      }
-
-      console.log('Profile created with permissions:', profileData);
-
-      const { error: credentialError } = await supabase
-        .from('agent_credentials')
-        .insert({
-          agent_id: authData.user.id,
-          password: agentDetails.password,
-          expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
-        });
-
-      if (credentialError) {
-        throw new Error(`Failed to store credentials: ${credentialError.message}`);
-      }
-
-      setSuccess({
-        id: authData.user.id,
-        ...agentDetails,
+      toast.success(`Agent created: ${agent.email}\nShare the invite link so they can set a password.`, {
+        duration: 10000,
+        style: { background: '#3B82F6', color: '#fff', borderRadius: '8px', maxWidth: '500px' },
       });
 
-      toast.success(
-        `Agent created: ${agentDetails.email}\nPassword: ${agentDetails.password}\nPlease share this securely.`,
-        {
-          duration: 10000,
-          style: { background: '#3B82F6', color: '#fff', borderRadius: '8px', maxWidth: '500px' },
-        }
-      );
-
       await fetchAgents();
-    } catch (err: any) {
-      const errorMessage = err.message || 'An unexpected error occurred';
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
       setError(errorMessage);
       toast.error(`Failed to create agent: ${errorMessage}`);
     } finally {
@@ -202,7 +119,7 @@ const CreateAgentModal = ({ isOpen, onClose, fetchAgents }: CreateAgentModalProp
   }, [agentDetails, profile, fetchAgents]);
 
   const handleClose = () => {
-    setAgentDetails({ email: '', name: '', phone: '', password: '', confirmPassword: '' });
+    setAgentDetails({ email: '', name: '', phone: '' });
     setSuccess(null);
     setError(null);
     onClose();
@@ -240,13 +157,29 @@ const CreateAgentModal = ({ isOpen, onClose, fetchAgents }: CreateAgentModalProp
             >
               <p className="text-blue-600 font-semibold">Agent created successfully!</p>
               <div className="text-left space-y-2 bg-blue-50 p-4 rounded-md">
-                <p className="text-blue-900">Agent ID: <span className="font-semibold">{success.id}</span></p>
+                <p className="text-blue-900">Agent ID: <span className="font-semibold">{success.agent_id}</span></p>
                 <p className="text-blue-900">Name: <span className="font-semibold">{success.name}</span></p>
                 <p className="text-blue-900">Email: <span className="font-semibold">{success.email}</span></p>
                 <p className="text-blue-900">Phone: <span className="font-semibold">{success.phone}</span></p>
-                <p className="text-blue-900">Password: <span className="font-semibold">{success.password}</span></p>
+                <p className="text-blue-900 break-all">
+                  Invite link: <span className="font-mono text-xs">{success.invite_link}</span>
+                  <button
+                    onClick={() => navigator.clipboard.writeText(success.invite_link).then(() => toast.success('Invite link copied'))}
+                    className="ml-2 text-blue-600 hover:text-blue-800"
+                    aria-label="Copy Invite Link"
+                  >
+                    <Copy className="w-4 h-4 inline" />
+                  </button>
+                </p>
               </div>
               <div className="flex justify-between gap-2">
+                <button
+                  onClick={() => emailInvite(success.email, success.name, success.invite_link)}
+                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                  aria-label="Email Invite Link"
+                >
+                  <Mail className="w-4 h-4 mr-2" /> Email
+                </button>
                 <button
                   onClick={() => setSuccess(null)}
                   className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
@@ -314,47 +247,6 @@ const CreateAgentModal = ({ isOpen, onClose, fetchAgents }: CreateAgentModalProp
                   required
                 />
               </div>
-              <div className="mb-4">
-                <label htmlFor="agent-password" className="block text-sm font-medium text-blue-900 mb-1">
-                  Password
-                </label>
-                <div className="flex items-center space-x-2">
-                  <input
-                    id="agent-password"
-                    type="text"
-                    value={agentDetails.password}
-                    onChange={(e) => setAgentDetails({ ...agentDetails, password: e.target.value })}
-                    className="w-full p-3 border border-blue-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-600 bg-blue-50"
-                    placeholder="Minimum 6 characters"
-                    disabled={isLoading}
-                    required
-                  />
-                  <button
-                    type="button"
-                    onClick={() => setAgentDetails({ ...agentDetails, password: generatePassword(), confirmPassword: '' })}
-                    className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
-                    disabled={isLoading}
-                    aria-label="Generate Password"
-                  >
-                    Generate
-                  </button>
-                </div>
-              </div>
-              <div className="mb-4">
-                <label htmlFor="agent-confirm-password" className="block text-sm font-medium text-blue-900 mb-1">
-                  Confirm Password
-                </label>
-                <input
-                  id="agent-confirm-password"
-                  type="password"
-                  value={agentDetails.confirmPassword}
-                  onChange={(e) => setAgentDetails({ ...agentDetails, confirmPassword: e.target.value })}
-                  className="w-full p-3 border border-blue-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-600 bg-blue-50"
-                  placeholder="Confirm password"
-                  disabled={isLoading}
-                  required
-                />
-              </div>
               {error && <p className="text-red-600 mb-4 text-sm">{error}</p>}
               <div className="flex justify-between gap-2">
                 <button
@@ -400,8 +292,6 @@ const EditAgentModal = ({ isOpen, onClose, agent, fetchAgents }: EditAgentModalP
   const [editDetails, setEditDetails] = useState({
     name: agent?.name || '',
     phone: agent?.phone || '',
-    password: '',
-    confirmPassword: '',
     canRegisterProperties: agent?.permissions?.canRegisterProperties ?? false,
     canEditProperties: agent?.permissions?.canEditProperties ?? false,
     canDeleteProperties: agent?.permissions?.canDeleteProperties ?? false,
@@ -415,8 +305,6 @@ const EditAgentModal = ({ isOpen, onClose, agent, fetchAgents }: EditAgentModalP
       setEditDetails({
         name: agent.name || '',
         phone: agent.phone || '',
-        password: '',
-        confirmPassword: '',
         canRegisterProperties: agent.permissions?.canRegisterProperties ?? false,
         canEditProperties: agent.permissions?.canEditProperties ?? false,
         canDeleteProperties: agent.permissions?.canDeleteProperties ?? false,
@@ -438,12 +326,6 @@ const EditAgentModal = ({ isOpen, onClose, agent, fetchAgents }: EditAgentModalP
       if (!editDetails.name) {
         throw new Error('Name is required');
       }
-      if (editDetails.password && editDetails.password.length < 6) {
-        throw new Error('Password must be at least 6 characters long');
-      }
-      if (editDetails.password && editDetails.password !== editDetails.confirmPassword) {
-        throw new Error('Passwords do not match');
-      }
 
       const permissions = {
         canRegisterProperties: editDetails.canRegisterProperties,
@@ -478,30 +360,6 @@ const EditAgentModal = ({ isOpen, onClose, agent, fetchAgents }: EditAgentModalP
         throw new Error(`Failed to update agent record: ${agentError.message}`);
       }
 
-      if (editDetails.password) {
-        const { error: authError } = await supabase.auth.admin.updateUserById(agent.id, {
-          password: editDetails.password,
-        });
-        if (authError) {
-          throw new Error(`Failed to update password: ${authError.message}`);
-        }
-
-        const { error: credentialError } = await supabase
-          .from('agent_credentials')
-          .upsert(
-            {
-              agent_id: agent.id,
-              password: editDetails.password,
-              expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
-            },
-            { onConflict: 'agent_id' }
-          );
-
-        if (credentialError) {
-          throw new Error(`Failed to store credentials: ${credentialError.message}`);
-        }
-      }
-
       toast.success('Agent updated successfully!');
       await fetchAgents();
       onClose();
@@ -587,45 +445,6 @@ const EditAgentModal = ({ isOpen, onClose, agent, fetchAgents }: EditAgentModalP
             </label>
           </div>
         </div>
-        <div className="mb-4">
-          <label htmlFor="edit-password" className="block text-sm font-medium text-blue-900 mb-1">
-            New Password (Optional)
-          </label>
-          <div className="flex items-center space-x-2">
-            <input
-              id="edit-password"
-              type="text"
-              value={editDetails.password}
-              onChange={(e) => setEditDetails({ ...editDetails, password: e.target.value })}
-              className="w-full p-3 border border-blue-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-600 bg-blue-50"
-              placeholder="Minimum 6 characters"
-              disabled={isLoading}
-            />
-            <button
-              type="button"
-              onClick={() => setEditDetails({ ...editDetails, password: generatePassword(), confirmPassword: '' })}
-              className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
-              disabled={isLoading}
-              aria-label="Generate Password"
-            >
-              Generate
-            </button>
-          </div>
-        </div>
-        <div className="mb-4">
-          <label htmlFor="edit-confirm-password" className="block text-sm font-medium text-blue-900 mb-1">
-            Confirm New Password
-          </label>
-          <input
-            id="edit-confirm-password"
-            type="password"
-            value={editDetails.confirmPassword}
-            onChange={(e) => setEditDetails({ ...editDetails, confirmPassword: e.target.value })}
-            className="w-full p-3 border border-blue-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-600 bg-blue-50"
-            placeholder="Confirm new password"
-            disabled={isLoading}
-          />
-        </div>
         {error && <p className="text-red-600 mb-4 text-sm">{error}</p>}
         <div className="flex justify-end space-x-2">
           <button
@@ -651,14 +470,26 @@ const EditAgentModal = ({ isOpen, onClose, agent, fetchAgents }: EditAgentModalP
 };
 
 const ShareDetailsModal = ({ isOpen, onClose, agent }: ShareDetailsModalProps) => {
+  const [showSecureLink, setShowSecureLink] = useState(false);
   if (!isOpen || !agent) return null;
 
+  if (showSecureLink) {
+    return (
+      <ShareLinkDialog
+        resourceType="agent_profile"
+        resourceId={agent.id}
+        title={`${agent.name || agent.email} - agent profile`}
+        onClose={() => setShowSecureLink(false)}
+      />
+    );
+  }
+
   const shareText = `Agent Details:
 ID: ${agent.id}
 Name: ${agent.name || 'N/A'}
 Email: ${agent.email}
 Phone: ${agent.phone || 'N/A'}
-Password: ${agent.password || 'Not available'}
+Sign in: ${window.location.origin}/agent-login
 Role: ${agent.role}
 Permissions:
 - Register Properties: ${agent.permissions.canRegisterProperties ? 'Yes' : 'No'}
@@ -739,6 +570,14 @@ Permissions:
                 Other Apps
               </button>
             )}
+            <button
+              onClick={() => setShowSecureLink(true)}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              aria-label="Create a secure profile link"
+            >
+              <Link2 className="w-4 h-4 mr-2" />
+              Secure Link
+            </button>
           </div>
           <button
             onClick={onClose}
@@ -765,7 +604,10 @@ export function AgentManagement() {
   const [showShareModal, setShowShareModal] = useState<Agent | null>(null);
   const [newAdminEmail, setNewAdminEmail] = useState('');
   const [newAdminName, setNewAdminName] = useState('');
-  const [generatedPassword, setGeneratedPassword] = useState('');
+  const [adminInviteLink, setAdminInviteLink] = useState('');
+  const [invites, setInvites] = useState<Map<string, AgentInviteRow>>(new Map());
+  const [resending, setResending] = useState<string | null>(null);
+  const [resentInvite, setResentInvite] = useState<{ email: string; name: string; link: string } | null>(null);
 
   if (profile?.role !== 'admin') {
     return <div className="text-red-600" role="alert">Unauthorized access</div>;
@@ -824,19 +666,25 @@ export function AgentManagement() {
     } finally {
       setLoading(false);
     }
+
+    try {
+      setInvites(await fetchLatestInvites());
+    } catch (error) {
+      console.error('Failed to fetch invites:', error);
+    }
   };
 
-  const fetchAgentDetails = async (agentId: string) => {
+  const handleResendInvite = async (agent: Agent) => {
+    setResending(agent.id);
     try {
-      const { data, error } = await supabase
-        .from('agent_credentials')
-        .select('password')
-        .eq('agent_id', agentId)
-        .single();
-      if (error && error.code !== 'PGRST116') throw error;
-      return data?.password || 'Not available';
-    } catch {
-      return 'Not available';
+      const invite = await resendAgentInvite(agent.id);
+      setResentInvite({ email: agent.email, name: agent.name || agent.email, link: invite.invite_link });
+      toast.success(`New invite created for ${agent.email}`);
+      setInvites(await fetchLatestInvites());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to resend invite');
+    } finally {
+      setResending(null);
     }
   };
 
@@ -848,88 +696,35 @@ export function AgentManagement() {
       if (!newAdminEmail || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(newAdminEmail)) {
         throw new Error('Please enter a valid email address');
       }
-      if (!generatedPassword || generatedPassword.length < 6) {
-        throw new Error('Password must be at least 6 characters long');
-      }
 
-      const { data: authData, error: authError } = await supabase.auth.admin.createUser({
+      const admin = await provisionAgent({
         email: newAdminEmail,
-        password: generatedPassword,
-        email_confirm: true,
-        user_metadata: {
-          name: newAdminName || newAdminEmail.split('@')[0],
-          role: 'admin',
-        },
-      });
-
-      if (authError) {
-        throw new Error(`Failed to create user: ${authError.message}`);
-      }
-
-      if (!authData.user?.id) {
-        throw new Error('User creation succeeded but no user ID returned');
-      }
-
-      const permissions = {
-        canRegisterProperties: true,
-        canEditProperties: true,
-        canDeleteProperties: true,
-      };
-
-      const profileData = {
-        id: authData.user.id,
-        email: newAdminEmail,
-        role: 'admin' as const,
-        permissions,
         name: newAdminName || newAdminEmail.split('@')[0],
-        phone: '',
-      };
-
-      const { error: profileError, data: insertedProfile } = await supabase.from('profiles').insert(profileData);
-
-      if (profileError) {
-        throw new Error(`Failed to create profile: ${profileError.message}`);
-      }
-
-      console.log('Admin profile created with permissions:', insertedProfile);
-
-      const { error: agentError } = await supabase.from('agents').insert({
-        id: authData.user.id,
-        email: newAdminEmail,
-        name: newAdminName || newAdminEmail.split('@')[0],
-        phone: '',
         role: 'admin',
+        permissions: {
+          canRegisterProperties: true,
+          canEditProperties: true,
+          canDeleteProperties: true,
+        },
       });
 
-      if (agentError) {
-        throw new Error(`Failed to create agent record: ${agentError.message}`);
-      }
-
-      const { error: credentialError } = await supabase
-        .from('agent_credentials')
-        .insert({
-          agent_id: authData.user.id,
-          password: generatedPassword,
-          expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
-        });
-
-      if (credentialError) {
-        throw new Error(`Failed to store credentials: ${credentialError.message}`);
-      }
-
-      toast.success(`Admin created! Email: ${newAdminEmail}, Password: ${generatedPassword}`);
-      setShowAdminModal(false);
-      setNewAdminEmail('');
-      setNewAdminName('');
-      setGeneratedPassword('');
+      toast.success(`Admin created! Share the invite link with ${admin.email}`);
+      setAdminInviteLink(admin.invite_link);
       await fetchAgents();
-    } catch (error: any) {
-      toast.error(error.message || 'Failed to create admin');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create admin');
     } finally {
       setLoading(false);
     }
   };
 
+  const closeAdminModal = () => {
+    setShowAdminModal(false);
+    setNewAdminEmail('');
+    setNewAdminName('');
+    setAdminInviteLink('');
+  };
+
   const handleDeleteAgent = async (agentId: string) => {
     if (!profile || profile.role !== 'admin') {
       toast.error('Unauthorized');
@@ -958,14 +753,6 @@ export function AgentManagement() {
         throw new Error(`Failed to soft delete agent record: ${agentError.message}`);
       }
 
-      const { error: credentialError } = await supabase
-        .from('agent_credentials')
-        .delete()
-        .eq('agent_id', agentId);
-      if (credentialError) {
-        throw new Error(`Failed to delete credentials: ${credentialError.message}`);
-      }
-
       setAgents((prevAgents) => prevAgents.filter((agent) => agent.id !== agentId));
       toast.success('Agent deleted successfully!');
       await fetchAgents();
@@ -978,6 +765,8 @@ export function AgentManagement() {
     }
   };
 
+  const detailsInvite = showDetailsModal ? invites.get(showDetailsModal.id) : undefined;
+
   return (
     <div className="container mx-auto px-4 py-8 bg-blue-50 min-h-screen">
       <Toaster position="top-center" />
@@ -996,7 +785,7 @@ export function AgentManagement() {
         <button
           onClick={() => {
             setShowAdminModal(true);
-            setGeneratedPassword(generatePassword());
+            setAdminInviteLink('');
           }}
           className="px-6 py-3 bg-blue-600 text-white rounded-full hover:bg-blue-700 transition-colors shadow-md"
           aria-label="Create Admin"
@@ -1048,50 +837,39 @@ export function AgentManagement() {
                     placeholder="Admin Name"
                   />
                 </div>
-                <div>
-                  <label htmlFor="admin-password" className="block text-sm font-medium text-blue-900">
-                    Password
-                  </label>
-                  <div className="flex items-center space-x-2">
-                    <input
-                      id="admin-password"
-                      type="text"
-                      value={generatedPassword}
-                      readOnly
-                      className="mt-1 block w-full px-3 py-2 border border-blue-300 rounded-lg bg-blue-100"
-                    />
+                {adminInviteLink && (
+                  <div className="bg-blue-50 p-3 rounded-md break-all">
+                    <p className="text-sm font-medium text-blue-900">Invite link</p>
+                    <p className="font-mono text-xs text-blue-900">{adminInviteLink}</p>
                     <button
                       type="button"
-                      onClick={() => setGeneratedPassword(generatePassword())}
-                      className="mt-1 px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
-                      aria-label="Regenerate Password"
+                      onClick={() => navigator.clipboard.writeText(adminInviteLink).then(() => toast.success('Invite link copied'))}
+                      className="mt-2 flex items-center text-sm text-blue-600 hover:text-blue-800"
+                      aria-label="Copy Invite Link"
                     >
-                      Regenerate
+                      <Copy className="w-4 h-4 mr-1" /> Copy link
                     </button>
                   </div>
-                </div>
+                )}
                 <div className="flex justify-end space-x-2">
                   <button
                     type="button"
-                    onClick={() => {
-                      setShowAdminModal(false);
-                      setNewAdminEmail('');
-                      setNewAdminName('');
-                      setGeneratedPassword('');
-                    }}
+                    onClick={closeAdminModal}
                     className="px-4 py-2 text-blue-900 rounded-md hover:bg-blue-200 transition-colors"
-                    aria-label="Cancel"
-                  >
-                    Cancel
-                  </button>
-                  <button
-                    onClick={handleCreateAdmin}
-                    disabled={loading}
-                    className={`px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors ${loading ? 'opacity-50 cursor-not-allowed' : ''}`}
-                    aria-label="Create Admin"
+                    aria-label={adminInviteLink ? 'Close' : 'Cancel'}
                   >
-                    {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Create Admin'}
+                    {adminInviteLink ? 'Close' : 'Cancel'}
                   </button>
+                  {!adminInviteLink && (
+                    <button
+                      onClick={handleCreateAdmin}
+                      disabled={loading}
+                      className={`px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors ${loading ? 'opacity-50 cursor-not-allowed' : ''}`}
+                      aria-label="Create Admin"
+                    >
+                      {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Create Admin'}
+                    </button>
+                  )}
                 </div>
               </div>
             </motion.div>
@@ -1110,7 +888,18 @@ export function AgentManagement() {
                 <p className="text-blue-900">Name: <span className="font-semibold">{showDetailsModal.name || 'N/A'}</span></p>
                 <p className="text-blue-900">Email: <span className="font-semibold">{showDetailsModal.email}</span></p>
                 <p className="text-blue-900">Phone: <span className="font-semibold">{showDetailsModal.phone || 'N/A'}</span></p>
-                <p className="text-blue-900">Password: <span className="font-semibold">{showDetailsModal.password || 'Not available'}</span></p>
+                {detailsInvite ? (
+                  <p className="text-blue-900">
+                    Invite: <InviteBadge invite={detailsInvite} />{' '}
+                    <span className="text-sm">
+                      sent {moment(detailsInvite.sent_at).format('DD/MM/YYYY')}
+                      {detailsInvite.opened_at && `, opened ${moment(detailsInvite.opened_at).format('DD/MM/YYYY')}`}
+                      {detailsInvite.accepted_at && `, accepted ${moment(detailsInvite.accepted_at).format('DD/MM/YYYY')}`}
+                    </span>
+                  </p>
+                ) : (
+                  <p className="text-blue-900">Invite: <span className="font-semibold">None on record</span></p>
+                )}
                 <p className="text-blue-900">Role: <span className="font-semibold">{showDetailsModal.role}</span></p>
                 <p className="text-blue-900">Permissions:</p>
                 <ul className="list-disc pl-5">
@@ -1182,6 +971,42 @@ export function AgentManagement() {
             </motion.div>
           </div>
         )}
+        {resentInvite && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center" role="dialog">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="bg-blue-100 rounded-lg shadow-xl p-8 w-full max-w-md border border-blue-300"
+            >
+              <h3 className="text-lg font-bold mb-4 text-blue-900">New Invite for {resentInvite.email}</h3>
+              <p className="text-sm text-blue-900 mb-2">Earlier links for this user no longer work.</p>
+              <p className="font-mono text-xs text-blue-900 bg-blue-50 p-3 rounded-md break-all">{resentInvite.link}</p>
+              <div className="flex justify-between gap-2 mt-4">
+                <button
+                  onClick={() => navigator.clipboard.writeText(resentInvite.link).then(() => toast.success('Invite link copied'))}
+                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                  aria-label="Copy Invite Link"
+                >
+                  <Copy className="w-4 h-4 mr-2" /> Copy
+                </button>
+                <button
+                  onClick={() => emailInvite(resentInvite.email, resentInvite.name, resentInvite.link)}
+                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                  aria-label="Email Invite Link"
+                >
+                  <Mail className="w-4 h-4 mr-2" /> Email
+                </button>
+                <button
+                  onClick={() => setResentInvite(null)}
+                  className="px-4 py-2 text-blue-900 rounded-md hover:bg-blue-200 transition-colors"
+                  aria-label="Close"
+                >
+                  Close
+                </button>
+              </div>
+            </motion.div>
+          </div>
+        )}
         <ShareDetailsModal
           isOpen={!!showShareModal}
           onClose={() => setShowShareModal(null)}
@@ -1209,6 +1034,26 @@ export function AgentManagement() {
                 <h4 className="text-lg font-semibold text-blue-900">{agent.name || 'N/A'}</h4>
                 <p className="text-blue-900">{agent.email}</p>
                 <p className="text-blue-900 capitalize">{agent.role}</p>
+                {invites.has(agent.id) && (
+                  <div className="mt-2 flex items-center gap-2">
+                    <InviteBadge invite={invites.get(agent.id) as AgentInviteRow} />
+                    {inviteStatus(invites.get(agent.id) as AgentInviteRow) !== 'accepted' && (
+                      <button
+                        onClick={() => handleResendInvite(agent)}
+                        disabled={resending !== null}
+                        className="flex items-center text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                        aria-label="Resend Invite"
+                      >
+                        {resending === agent.id ? (
+                          <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                        ) : (
+                          <Send className="w-3 h-3 mr-1" />
+                        )}
+                        Resend
+                      </button>
+                    )}
+                  </div>
+                )}
                 <div className="mt-2">
                   <p className="text-blue-900 font-medium">Permissions:</p>
                   <div className="flex flex-wrap gap-2 mt-1">
@@ -1243,10 +1088,7 @@ export function AgentManagement() {
                 </div>
                 <div className="mt-4 flex gap-2">
                   <button
-                    onClick={async () => {
-                      const password = await fetchAgentDetails(agent.id);
-                      setShowDetailsModal({ ...agent, password });
-                    }}
+                    onClick={() => setShowDetailsModal(agent)}
                     className="p-2 text-blue-600 hover:text-blue-800"
                     aria-label="View Details"
                   >
@@ -1267,10 +1109,7 @@ export function AgentManagement() {
                     <Trash2 className="w-5 h-5" />
                   </button>
                   <button
-                    onClick={async () => {
-                      const password = await fetchAgentDetails(agent.id);
-                      setShowShareModal({ ...agent, password });
-                    }}
+                    onClick={() => setShowShareModal(agent)}
                     className="p-2 text-blue-600 hover:text-blue-800"
                     aria-label="Share Details"
                   >
@@ -15,10 +15,12 @@ import {
   CheckCircle, 
   DollarSign, 
   RotateCcw, 
-  Save 
+  Save,
+  Link2
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../store/authStore';
+import { ShareLinkDialog } from '../components/ShareLinkDialog';
 import { toast } from 'react-hot-toast';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LabelList } from 'recharts';
 import { v4 as uuidv4 } from 'uuid';
@@ -65,6 +67,7 @@ export function AgentProfilePage() {
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState(false);
+  const [showShareDialog, setShowShareDialog] = useState(false);
   const [showModal, setShowModal] = useState(false);
 
   useEffect(() => {
@@ -248,6 +251,15 @@ export function AgentProfilePage() {
                 <DollarSign className="w-4 h-4 mr-2" />
                 Manage Expenses
               </Link>
+              {user?.id && (
+                <button
+                  onClick={() => setShowShareDialog(true)}
+                  className="flex items-center px-4 py-2 bg-blue-200 text-blue-700 rounded-lg hover:bg-blue-300 transition-colors"
+                >
+                  <Link2 className="w-4 h-4 mr-2" />
+                  Share Profile
+                </button>
+              )}
               <button
                 onClick={() => {
                   const resetProfile = {
@@ -716,6 +728,14 @@ export function AgentProfilePage() {
           </motion.div>
         )}
       </div>
+      {showShareDialog && user?.id && (
+        <ShareLinkDialog
+          resourceType="agent_profile"
+          resourceId={user.id}
+          title="My agent profile"
+          onClose={() => setShowShareDialog(false)}
+        />
+      )}
     </div>
   );
 }
@@ -5,6 +5,9 @@ import { motion } from 'framer-motion';
 import { toast } from 'react-toastify';
 import 'leaflet/dist/leaflet.css';
 import { PropertyDetails } from './Reports';
+import { geocodeRows } from '../api/geocoding';
+import { DEFAULT_CENTROID } from '../utils/gazetteer';
+import { rowCoordinates } from '../utils/geocoding';
 import { Plus, Minus, X, Eye, Home, DollarSign, User, CheckCircle } from 'lucide-react';
 
 // Interfaces
@@ -19,29 +22,10 @@ interface AgentPropertyMapProps {
   onPropertySelect: (property: PropertyDetails | null) => void;
 }
 
-// Mock coordinates based on suburb
-const getMockCoordinates = (suburb: string): LatLngTuple => {
-  console.log('Getting coordinates for suburb:', suburb);
-  const suburbMap: Record<string, LatLngTuple> = {
-    'pullenvale 4069': [-27.5200, 152.9200],
-    'brookfield 4069': [-27.5000, 152.9000],
-    'anstead 4070': [-27.5400, 152.8600],
-    'chapell hill 4069': [-27.5000, 152.9500],
-    'kenmore 4069': [-27.5100, 152.9300],
-    'kenmore hills 4069': [-27.5050, 152.9400],
-    'fig tree pocket 4069': [-27.5300, 152.9600],
-    'pinjarra hills 4069': [-27.5350, 152.9100],
-    'moggill qld (4070)': [-27.5700, 152.8700],
-    'bellbowrie qld (4070)': [-27.5600, 152.8800],
-    'springfield qld (4300)': { lat: -27.653, lng: 152.918 },
-    'spring mountain qld (4300': { lat: -27.690, lng: 152.895 },
-
-    default: [-27.4705, 153.026], // Brisbane default
-  };
-  const normalizedSuburb = suburb.toLowerCase();
-  const coords = suburbMap[normalizedSuburb] || suburbMap.default;
-  console.log('Assigned coordinates:', coords);
-  return coords;
+// Cached coordinates for a property, or null if its address hasn't been resolved
+const coordinatesOf = (prop: PropertyDetails): LatLngTuple | null => {
+  const coords = rowCoordinates(prop);
+  return coords ? [coords.lat, coords.lng] : null;
 };
 
 // Custom icons
@@ -172,14 +156,31 @@ export function AgentPropertyMap({ properties, selectedProperty, onPropertySelec
   const [streetViewCoords, setStreetViewCoords] = useState<LatLngTuple | null>(null);
   const mapRef = useRef<L.Map | null>(null);
 
+  const [coordinates, setCoordinates] = useState<Map<string, LatLngTuple>>(new Map());
+
+  // Resolve (and cache) coordinates for the selected property and the ones the
+  // nearby search looks at; unresolved addresses simply get no pin.
+  useEffect(() => {
+    let active = true;
+    const candidates = [...(selectedProperty ? [selectedProperty] : []), ...properties.slice(0, 20)];
+    geocodeRows('properties', candidates).then((rows) => {
+      if (!active) return;
+      const resolved = new Map<string, LatLngTuple>();
+      rows.forEach((row) => {
+        const coords = coordinatesOf(row);
+        if (coords) resolved.set(row.id, coords);
+      });
+      setCoordinates(resolved);
+    });
+    return () => {
+      active = false;
+    };
+  }, [properties, selectedProperty]);
+
   // Default center (Brisbane, AU)
-  const defaultCenter: LatLngTuple = [-27.4705, 153.026];
-  const center: LatLngTuple = selectedProperty
-    ? [
-        selectedProperty.lat ?? getMockCoordinates(selectedProperty.suburb)[0],
-        selectedProperty.lng ?? getMockCoordinates(selectedProperty.suburb)[1],
-      ]
-    : defaultCenter;
+  const defaultCenter: LatLngTuple = [DEFAULT_CENTROID.lat, DEFAULT_CENTROID.lng];
+  const selectedPosition = selectedProperty ? coordinates.get(selectedProperty.id) || null : null;
+  const center: LatLngTuple = selectedPosition || defaultCenter;
 
   // Log state
   useEffect(() => {
@@ -201,8 +202,8 @@ export function AgentPropertyMap({ properties, selectedProperty, onPropertySelec
   // Filter nearby properties
   const nearbyProperties: NearbyProperties = useMemo(() => {
     console.log('Calculating nearby properties');
-    if (!selectedProperty) {
-      console.log('No selected property, returning empty');
+    if (!selectedProperty || !selectedPosition) {
+      console.log('No located property selected, returning empty');
       return { sold: [], listed: [] };
     }
 
@@ -215,13 +216,11 @@ export function AgentPropertyMap({ properties, selectedProperty, onPropertySelec
         .slice(0, maxProperties)
         .filter((prop) => {
           if (prop.id === selectedProperty.id) return false;
-          const propLat = prop.lat ?? getMockCoordinates(prop.suburb)[0];
-          const propLng = prop.lng ?? getMockCoordinates(prop.suburb)[1];
-          if (!propLat || !propLng) {
+          const propPoint = coordinates.get(prop.id);
+          if (!propPoint) {
             console.warn('Property missing coordinates:', prop);
             return false;
           }
-          const propPoint: LatLngTuple = [propLat, propLng];
           const distance = calculateDistance(center, propPoint);
           const isNearby = distance <= radiusInMeters;
           console.log('Property:', prop.id, 'Distance:', distance, 'Nearby:', isNearby);
@@ -250,7 +249,7 @@ export function AgentPropertyMap({ properties, selectedProperty, onPropertySelec
       toast.error('Failed to filter nearby properties');
       return { sold: [], listed: [] };
     }
-  }, [properties, selectedProperty, center]);
+  }, [properties, selectedProperty, selectedPosition, coordinates, center]);
 
   // Handle empty properties
   if (!properties.length) {
@@ -297,6 +296,9 @@ export function AgentPropertyMap({ properties, selectedProperty, onPropertySelec
             </option>
           ))}
         </select>
+        {selectedProperty && !selectedPosition && selectedProperty.geocode_status === 'unresolved' && (
+          <p className="mt-2 text-sm text-amber-600">This address could not be located, so it is not shown on the map.</p>
+        )}
       </div>
       <MapContainer
         center={center}
@@ -310,7 +312,7 @@ export function AgentPropertyMap({ properties, selectedProperty, onPropertySelec
           attribution='© <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
         />
         <ZoomControls />
-        {selectedProperty && (
+        {selectedProperty && selectedPosition && (
           <Marker
             position={center}
             icon={selectedIcon}
@@ -348,10 +350,8 @@ export function AgentPropertyMap({ properties, selectedProperty, onPropertySelec
           </Marker>
         )}
         {nearbyProperties.sold.slice(0, 10).map((prop) => {
-          const coords: LatLngTuple = [
-            prop.lat ?? getMockCoordinates(prop.suburb)[0],
-            prop.lng ?? getMockCoordinates(prop.suburb)[1],
-          ];
+          const coords = coordinates.get(prop.id);
+          if (!coords) return null;
           return (
             <Marker
               key={prop.id}
@@ -392,10 +392,8 @@ export function AgentPropertyMap({ properties, selectedProperty, onPropertySelec
           );
         })}
         {nearbyProperties.listed.slice(0, 10).map((prop) => {
-          const coords: LatLngTuple = [
-            prop.lat ?? getMockCoordinates(prop.suburb)[0],
-            prop.lng ?? getMockCoordinates(prop.suburb)[1],
-          ];
+          const coords = coordinates.get(prop.id);
+          if (!coords) return null;
           return (
             <Marker
               key={prop.id}
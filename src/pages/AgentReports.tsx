@@ -2,7 +2,9 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { BarChart3, Target, Phone, Home, DollarSign, Download, CheckCircle, Activity, MapPin, ChevronDown, ChevronUp } from 'lucide-react';
+import { fetchAllProperties } from '../api/properties';
 import { supabase } from '../lib/supabase';
+import { PropertyRow as Property } from '../types/database';
 import { useAuthStore } from '../store/authStore';
 import { toast } from 'react-hot-toast';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
@@ -57,22 +59,6 @@ interface Activity {
   face_to_face_appraisals?: number;
 }
 
-interface Property {
-  id: string;
-  agent_id: string;
-  street_number: string;
-  street_name: string;
-  suburb: string;
-  price: number;
-  sold_price?: number;
-  category: string;
-  property_type: string;
-  agent_name: string;
-  listed_date: string;
-  sold_date?: string;
-  commission?: number;
-}
-
 interface StreetProgress {
   streetName: string;
   suburb: string;
@@ -294,17 +280,15 @@ export function AgentReports() {
     try {
       const startDate = new Date();
       startDate.setDate(startDate.getDate() - parseInt(selectedPeriod));
-      const { data, error } = await supabase
-        .from('properties')
-        .select('*')
-        .eq('agent_id', selectedAgentId)
-        .gte('listed_date', startDate.toISOString())
-        .order('created_at', { ascending: false });
-      if (error) throw new Error(`Failed to fetch properties: ${error.message}`);
-      setProperties(data || []);
-    } catch (err: any) {
-      setError(`Failed to fetch properties: ${err.message}`);
-      toast.error(`Failed to fetch properties: ${err.message}`);
+      setProperties(
+        await fetchAllProperties({
+          filters: { agentId: selectedAgentId, listedFrom: startDate.toISOString() },
+        })
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      setError(`Failed to fetch properties: ${message}`);
+      toast.error(`Failed to fetch properties: ${message}`);
       setProperties([]);
     }
   };
@@ -418,21 +402,22 @@ export function AgentReports() {
 
     totalAppraisals = totalDesktopAppraisals + totalFaceToFaceAppraisals;
 
-    const totalListings = agentProperties.filter(p => p.category === 'Listing' && new Date(p.listed_date) >= startDate).length;
-    const totalSales = agentProperties.filter(p => p.category === 'Sold' && new Date(p.sold_date || p.listed_date) >= startDate).length;
+    const listedSince = (p: Property) => !!p.listed_date && new Date(p.listed_date) >= startDate;
+    const totalListings = agentProperties.filter(p => p.category === 'Listing' && listedSince(p)).length;
+    const totalSales = agentProperties.filter(p => p.category === 'Sold' && new Date(p.sold_date || p.listed_date || 0) >= startDate).length;
     const totalCommission = agentProperties
-      .filter(p => new Date(p.listed_date) >= startDate)
+      .filter(listedSince)
       .reduce((sum, p) => sum + Number(p.commission || 0), 0);
     const conversionRate = totalAppraisals > 0 ? (totalListings / totalAppraisals) * 100 : 0;
 
     agentProperties.forEach(p => {
-      if (new Date(p.listed_date) >= startDate) {
+      if (listedSince(p)) {
         const streetKey = `${p.street_name}, ${p.suburb}`;
         if (streetProgressMap[streetKey]) {
           streetProgressMap[streetKey].totalListings += p.category === 'Listing' ? 1 : 0;
           streetProgressMap[streetKey].totalSales += p.category === 'Sold' ? 1 : 0;
         }
-        if (suburbProgressMap[p.suburb]) {
+        if (p.suburb && suburbProgressMap[p.suburb]) {
           suburbProgressMap[p.suburb].totalListings += p.category === 'Listing' ? 1 : 0;
           suburbProgressMap[p.suburb].totalSales += p.category === 'Sold' ? 1 : 0;
         }
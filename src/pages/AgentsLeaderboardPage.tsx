@@ -1,6 +1,6 @@
 import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { useAuthStore } from '../store/authStore';
-import { Loader2, BarChart, ArrowLeft, Filter } from 'lucide-react';
+import { Loader2, BarChart, ArrowLeft, Download, Filter } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { Chart as ChartJS, BarElement, CategoryScale, LinearScale, Tooltip, Legend } from 'chart.js';
 import { Bar } from 'react-chartjs-2';
@@ -9,6 +9,10 @@ import DatePicker from 'react-datepicker';
 import 'react-datepicker/dist/react-datepicker.css';
 import { toast } from 'react-toastify';
 import isEqual from 'lodash.isequal';
+import { fetchAppraisals, summarizeAppraisalsByAgent } from '../api/appraisals';
+import { AppraisalRow } from '../types/database';
+import { ExportDialog } from '../components/ExportDialog';
+import { activeFilters, ExportColumn } from '../utils/exporter';
 
 ChartJS.register(BarElement, CategoryScale, LinearScale, Tooltip, Legend);
 
@@ -66,6 +70,18 @@ interface AgentProgress {
   contactsClosed: number;
 }
 
+const LEADERBOARD_EXPORT_COLUMNS: ExportColumn<AgentProgress>[] = [
+  { key: 'agent', label: 'Agent', value: (progress) => progress.agent.name },
+  { key: 'marketing_plans', label: 'Marketing Plans', value: (progress) => progress.marketingPlansCount },
+  { key: 'door_knocks', label: 'Door Knocks', value: (progress) => progress.doorKnocks },
+  { key: 'phone_calls', label: 'Phone Calls', value: (progress) => progress.phoneCalls },
+  { key: 'connects', label: 'Connects', value: (progress) => progress.connects },
+  { key: 'desktop_appraisals', label: 'Desktop Appraisals', value: (progress) => progress.desktopAppraisals },
+  { key: 'face_to_face_appraisals', label: 'F2F Appraisals', value: (progress) => progress.faceToFaceAppraisals },
+  { key: 'contacts_listed', label: 'Contacts Listed', value: (progress) => progress.contactsListed },
+  { key: 'contacts_closed', label: 'Contacts Closed', value: (progress) => progress.contactsClosed },
+];
+
 export function AgentsLeaderboardPage() {
   const { user, profile } = useAuthStore();
   const navigate = useNavigate();
@@ -74,12 +90,14 @@ export function AgentsLeaderboardPage() {
   const [loading, setLoading] = useState(true);
   const [agents, setAgents] = useState<Agent[]>([]);
   const [activities, setActivities] = useState<Activity[]>([]);
+  const [appraisals, setAppraisals] = useState<AppraisalRow[]>([]);
   const [marketingPlans, setMarketingPlans] = useState<MarketingPlan[]>([]);
   const [nurturingContacts, setNurturingContacts] = useState<NurturingContact[]>([]);
   const [agentProgresses, setAgentProgresses] = useState<AgentProgress[]>([]);
   const [dateRange, setDateRange] = useState<[Date | null, Date | null]>([null, null]);
   const [startDate, endDate] = dateRange;
   const [showDateFilter, setShowDateFilter] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
 
   // Ref to track initial load and re-renders
   const isInitialLoad = useRef(true);
@@ -214,9 +232,14 @@ export function AgentsLeaderboardPage() {
           .lte('activity_date', endDate.toISOString());
       }
 
-      const [{ data: activityData, error: activityError }, { data: nurturingData, error: nurturingError }] = await Promise.all([
+      const [{ data: activityData, error: activityError }, { data: nurturingData, error: nurturingError }, appraisalData] = await Promise.all([
         activityQuery,
         nurturingQuery,
+        fetchAppraisals(
+          startDate && endDate
+            ? { from: startDate.toISOString().split('T')[0], to: endDate.toISOString().split('T')[0] }
+            : {}
+        ),
       ]);
 
       if (activityError) {
@@ -264,6 +287,8 @@ export function AgentsLeaderboardPage() {
         return prev;
       });
 
+      setAppraisals(prev => (isEqual(prev, appraisalData) ? prev : appraisalData));
+
       setNurturingContacts(prev => {
         if (!isEqual(prev, nurturingData || [])) {
           console.log('Updating nurturing contacts state with', nurturingData?.length || 0, 'contacts');
@@ -277,6 +302,7 @@ export function AgentsLeaderboardPage() {
       console.error('Error loading activities or nurturing contacts:', error);
       toast.error(`Failed to load data: ${error.message || 'Unknown error'}`);
       setActivities([]);
+      setAppraisals([]);
       setNurturingContacts([]);
     }
   }, [startDate, endDate, agents]);
@@ -301,7 +327,7 @@ export function AgentsLeaderboardPage() {
     });
 
     // Calculate activity aggregates per agent
-    const activityAggregates: { [agentId: string]: Omit<AgentProgress, 'agent' | 'marketingPlansCount' | 'contactsListed' | 'contactsClosed'> } = {};
+    const activityAggregates: { [agentId: string]: Omit<AgentProgress, 'agent' | 'marketingPlansCount' | 'desktopAppraisals' | 'faceToFaceAppraisals' | 'contactsListed' | 'contactsClosed'> } = {};
     activities.forEach(activity => {
       const agentId = activity.agent_id;
       if (!agentId) {
@@ -314,8 +340,6 @@ export function AgentsLeaderboardPage() {
           doorKnocks: 0,
           phoneCalls: 0,
           connects: 0,
-          desktopAppraisals: 0,
-          faceToFaceAppraisals: 0,
         };
       }
 
@@ -329,10 +353,11 @@ export function AgentsLeaderboardPage() {
         agg.connects += activity.calls_answered || 0;
       }
 
-      agg.desktopAppraisals += activity.desktop_appraisals || 0;
-      agg.faceToFaceAppraisals += activity.face_to_face_appraisals || 0;
     });
 
+    // Appraisal counts come from appraisal records, not the activity log tallies
+    const appraisalSummaries = summarizeAppraisalsByAgent(appraisals);
+
     // Calculate nurturing contacts per agent
     const nurturingAggregates: { [agentId: string]: { contactsListed: number; contactsClosed: number } } = {};
     nurturingContacts.forEach(contact => {
@@ -361,8 +386,6 @@ export function AgentsLeaderboardPage() {
         doorKnocks: 0,
         phoneCalls: 0,
         connects: 0,
-        desktopAppraisals: 0,
-        faceToFaceAppraisals: 0,
       };
       const nurturing = nurturingAggregates[agent.id] || {
         contactsListed: 0,
@@ -374,8 +397,8 @@ export function AgentsLeaderboardPage() {
         doorKnocks: agg.doorKnocks,
         phoneCalls: agg.phoneCalls,
         connects: agg.connects,
-        desktopAppraisals: agg.desktopAppraisals,
-        faceToFaceAppraisals: agg.faceToFaceAppraisals,
+        desktopAppraisals: appraisalSummaries[agent.id]?.desktop || 0,
+        faceToFaceAppraisals: appraisalSummaries[agent.id]?.inPerson || 0,
         contactsListed: nurturing.contactsListed,
         contactsClosed: nurturing.contactsClosed,
       };
@@ -406,7 +429,7 @@ export function AgentsLeaderboardPage() {
       console.log('No change in agent progresses, skipping state update');
       return prev;
     });
-  }, [agents, activities, marketingPlans, nurturingContacts]);
+  }, [agents, activities, appraisals, marketingPlans, nurturingContacts]);
 
   // Check authentication
   useEffect(() => {
@@ -590,6 +613,14 @@ export function AgentsLeaderboardPage() {
         </div>
 
         <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => setIsExportOpen(true)}
+            disabled={!agentProgresses.length}
+            className="flex items-center gap-2 bg-white border border-gray-300 rounded-lg px-3 py-2 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download size={16} />
+            <span>Export</span>
+          </button>
           <div className="relative">
             <button
               onClick={() => setShowDateFilter(!showDateFilter)}
@@ -717,6 +748,21 @@ export function AgentsLeaderboardPage() {
           <span>Back to Dashboard</span>
         </button>
       </div>
+
+      {isExportOpen && (
+        <ExportDialog
+          spec={{
+            id: 'agents_leaderboard',
+            title: 'Agents Leaderboard',
+            tables: [{ name: 'Leaderboard', rows: agentProgresses, columns: LEADERBOARD_EXPORT_COLUMNS }],
+            filters: activeFilters({
+              From: startDate?.toLocaleDateString('en-AU'),
+              To: endDate?.toLocaleDateString('en-AU'),
+            }),
+          }}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
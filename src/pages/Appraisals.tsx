@@ -0,0 +1,517 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import moment from 'moment';
+import { ClipboardCheck, Download, Plus, Trash2, Loader2 } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { useAuthStore, usePermissions } from '../store/authStore';
+import { fetchAgents } from '../api/agents';
+import { fetchContacts } from '../api/contacts';
+import {
+  createAppraisal,
+  deleteAppraisal,
+  fetchAppraisals,
+  summarizeAppraisals,
+  updateAppraisal,
+} from '../api/appraisals';
+import { ExportDialog } from '../components/ExportDialog';
+import { AppraisalOutcome, AppraisalRow, AppraisalType, ContactRow } from '../types/database';
+import { Agent } from '../types/agent';
+import { activeFilters, ExportSpec, exportTable } from '../utils/exporter';
+import { formatCurrency } from '../utils/formatters';
+import { normalizeSuburb } from '../utils/gazetteer';
+
+interface AppraisalFormData {
+  appraisal_type: AppraisalType;
+  appraisal_date: string;
+  contact_id: string;
+  street_number: string;
+  street_name: string;
+  suburb: string;
+  estimate_low: string;
+  estimate_high: string;
+  vendor_expectation: string;
+  notes: string;
+}
+
+const EMPTY_FORM: AppraisalFormData = {
+  appraisal_type: 'in_person',
+  appraisal_date: moment().format('YYYY-MM-DD'),
+  contact_id: '',
+  street_number: '',
+  street_name: '',
+  suburb: '',
+  estimate_low: '',
+  estimate_high: '',
+  vendor_expectation: '',
+  notes: '',
+};
+
+const TYPE_LABELS: Record<AppraisalType, string> = {
+  desktop: 'Desktop',
+  in_person: 'In Person',
+};
+
+const OUTCOME_LABELS: Record<AppraisalOutcome, string> = {
+  pending: 'Pending',
+  listed: 'Listed',
+  lost: 'Lost',
+  follow_up: 'Follow Up',
+};
+
+const OUTCOME_STYLES: Record<AppraisalOutcome, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  listed: 'bg-green-100 text-green-800',
+  lost: 'bg-red-100 text-red-800',
+  follow_up: 'bg-yellow-100 text-yellow-800',
+};
+
+const parseAmount = (value: string): number | null => {
+  const amount = parseFloat(value.replace(/[$,\s]/g, ''));
+  return isNaN(amount) ? null : amount;
+};
+
+const contactName = (contact: ContactRow) =>
+  [contact.first_name, contact.last_name].filter(Boolean).join(' ') || contact.owner_1 || 'Unnamed contact';
+
+const contactAddress = (contact: Pick<ContactRow, 'street_number' | 'street_name' | 'suburb'>) =>
+  `${contact.street_number || ''} ${contact.street_name || ''}, ${normalizeSuburb(contact.suburb)}`.trim();
+
+export function Appraisals() {
+  const navigate = useNavigate();
+  const { profile } = useAuthStore();
+  const { can } = usePermissions();
+  const isAdmin = can('admin.access');
+  const [appraisals, setAppraisals] = useState<AppraisalRow[]>([]);
+  const [contacts, setContacts] = useState<ContactRow[]>([]);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [agentFilter, setAgentFilter] = useState('');
+  const [formData, setFormData] = useState<AppraisalFormData>(EMPTY_FORM);
+  const [contactSearch, setContactSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+
+  const profileId = profile?.id;
+
+  const refresh = useCallback(async () => {
+    if (!profileId) return;
+    try {
+      setAppraisals(await fetchAppraisals(isAdmin ? { agentId: agentFilter || undefined } : { agentId: profileId }));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load appraisals');
+    } finally {
+      setLoading(false);
+    }
+  }, [profileId, isAdmin, agentFilter]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    fetchContacts()
+      .then(setContacts)
+      .catch((err) => console.error('Failed to load contacts:', err));
+    if (isAdmin) {
+      fetchAgents()
+        .then(setAgents)
+        .catch((err) => console.error('Failed to load agents:', err));
+    }
+  }, [isAdmin]);
+
+  const contactsById = useMemo(() => new Map(contacts.map((contact) => [contact.id, contact])), [contacts]);
+  const agentNames = useMemo(() => new Map(agents.map((agent) => [agent.id, agent.name])), [agents]);
+
+  const contactMatches = useMemo(() => {
+    const term = contactSearch.trim().toLowerCase();
+    if (!term) return [];
+    return contacts
+      .filter((contact) => `${contactName(contact)} ${contactAddress(contact)}`.toLowerCase().includes(term))
+      .slice(0, 8);
+  }, [contacts, contactSearch]);
+
+  const summary = summarizeAppraisals(appraisals);
+
+  const appraisalExportSpec = (): ExportSpec => {
+    const contactOf = (appraisal: AppraisalRow) => (appraisal.contact_id ? contactsById.get(appraisal.contact_id) : undefined);
+    return {
+      id: 'appraisals',
+      title: 'Appraisals',
+      filters: activeFilters({ Agent: agentFilter && (agentNames.get(agentFilter) || agentFilter) }),
+      summary: [
+        { label: 'Total', value: summary.total },
+        { label: 'Desktop', value: summary.desktop },
+        { label: 'In Person', value: summary.inPerson },
+        { label: 'Listed', value: summary.listed },
+        { label: 'Lost', value: summary.lost },
+        { label: 'Conversion Rate (%)', value: Number(summary.conversionRate.toFixed(1)) },
+      ],
+      tables: [
+        exportTable({
+          name: 'Appraisals',
+          rows: appraisals,
+          columns: [
+            { key: 'appraisal_date', label: 'Date', value: (appraisal) => appraisal.appraisal_date },
+            { key: 'agent', label: 'Agent', value: (appraisal) => agentNames.get(appraisal.agent_id), hidden: !isAdmin },
+            { key: 'appraisal_type', label: 'Type', value: (appraisal) => TYPE_LABELS[appraisal.appraisal_type] },
+            {
+              key: 'contact',
+              label: 'Contact',
+              value: (appraisal) => {
+                const contact = contactOf(appraisal);
+                return contact && contactName(contact);
+              },
+            },
+            {
+              key: 'address',
+              label: 'Address',
+              value: (appraisal) => {
+                const contact = contactOf(appraisal);
+                return appraisal.street_name ? contactAddress(appraisal) : contact && contactAddress(contact);
+              },
+            },
+            { key: 'estimate_low', label: 'Estimate Low', value: (appraisal) => appraisal.estimate_low },
+            { key: 'estimate_high', label: 'Estimate High', value: (appraisal) => appraisal.estimate_high },
+            { key: 'vendor_expectation', label: 'Vendor Expects', value: (appraisal) => appraisal.vendor_expectation },
+            { key: 'outcome', label: 'Outcome', value: (appraisal) => OUTCOME_LABELS[appraisal.outcome] },
+            { key: 'follow_up_date', label: 'Follow Up', value: (appraisal) => appraisal.follow_up_date, hidden: true },
+            { key: 'notes', label: 'Notes', value: (appraisal) => appraisal.notes, hidden: true },
+          ],
+        }),
+      ],
+    };
+  };
+  const selectedContact = formData.contact_id ? contactsById.get(formData.contact_id) : undefined;
+
+  const selectContact = (contact: ContactRow) => {
+    setFormData({
+      ...formData,
+      contact_id: contact.id,
+      street_number: contact.street_number || '',
+      street_name: contact.street_name || '',
+      suburb: contact.suburb || '',
+    });
+    setContactSearch('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile) return;
+    if (!formData.contact_id && !formData.street_name.trim()) {
+      return toast.error('Choose a contact or enter the property address');
+    }
+    const estimateLow = parseAmount(formData.estimate_low);
+    const estimateHigh = parseAmount(formData.estimate_high);
+    if (estimateLow != null && estimateHigh != null && estimateLow > estimateHigh) {
+      return toast.error('Estimate low must not exceed estimate high');
+    }
+
+    setSaving(true);
+    try {
+      await createAppraisal({
+        agent_id: profile.id,
+        appraisal_type: formData.appraisal_type,
+        appraisal_date: formData.appraisal_date,
+        contact_id: formData.contact_id || null,
+        street_number: formData.street_number.trim() || null,
+        street_name: formData.street_name.trim() || null,
+        suburb: formData.suburb.trim() ? normalizeSuburb(formData.suburb) : null,
+        estimate_low: estimateLow,
+        estimate_high: estimateHigh,
+        vendor_expectation: parseAmount(formData.vendor_expectation),
+        notes: formData.notes.trim() || null,
+      });
+      toast.success('Appraisal recorded');
+      setFormData({ ...EMPTY_FORM, appraisal_date: formData.appraisal_date });
+      await refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to record appraisal');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOutcome = async (appraisal: AppraisalRow, outcome: AppraisalOutcome) => {
+    try {
+      const updated = await updateAppraisal(appraisal.id, {
+        outcome,
+        follow_up_date: outcome === 'follow_up' ? appraisal.follow_up_date || moment().add(2, 'weeks').format('YYYY-MM-DD') : null,
+      });
+      setAppraisals((prev) => prev.map((row) => (row.id === updated.id ? updated : row)));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update outcome');
+    }
+  };
+
+  const handleFollowUpDate = async (appraisal: AppraisalRow, followUpDate: string) => {
+    try {
+      const updated = await updateAppraisal(appraisal.id, { follow_up_date: followUpDate || null });
+      setAppraisals((prev) => prev.map((row) => (row.id === updated.id ? updated : row)));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update follow-up date');
+    }
+  };
+
+  const handleDelete = async (appraisal: AppraisalRow) => {
+    if (!confirm('Delete this appraisal?')) return;
+    try {
+      await deleteAppraisal(appraisal.id);
+      setAppraisals((prev) => prev.filter((row) => row.id !== appraisal.id));
+      toast.success('Appraisal deleted');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete appraisal');
+    }
+  };
+
+  const inputClass = 'mt-1 block w-full px-3 py-2 border border-blue-200 rounded-md focus:ring-blue-300 focus:border-blue-300';
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold text-blue-900 flex items-center">
+          <ClipboardCheck className="w-7 h-7 mr-2 text-blue-300" /> Appraisals
+        </h1>
+        <motion.button
+          onClick={() => navigate(isAdmin ? '/admin-dashboard' : '/agent-dashboard')}
+          className="px-4 py-2 bg-blue-300 text-white rounded-full hover:bg-blue-400 shadow-md"
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          Back to Dashboard
+        </motion.button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-8">
+        {(
+          [
+            ['Total', summary.total],
+            ['Desktop', summary.desktop],
+            ['In Person', summary.inPerson],
+            ['Listed', summary.listed],
+            ['Follow Up', summary.followUp],
+            ['Conversion', `${summary.conversionRate.toFixed(0)}%`],
+          ] as [string, number | string][]
+        ).map(([label, value]) => (
+          <div key={label} className="bg-white p-4 rounded-lg shadow-md border border-blue-200 text-center">
+            <p className="text-sm text-gray-500">{label}</p>
+            <p className="text-2xl font-bold text-blue-900">{value}</p>
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow-md border border-blue-200 mb-8">
+        <h2 className="text-xl font-semibold text-blue-900 mb-4">Record Appraisal</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-blue-900">Type</label>
+            <select
+              value={formData.appraisal_type}
+              onChange={(e) => setFormData({ ...formData, appraisal_type: e.target.value as AppraisalType })}
+              className={inputClass}
+            >
+              {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-blue-900">Date</label>
+            <input
+              type="date"
+              value={formData.appraisal_date}
+              onChange={(e) => setFormData({ ...formData, appraisal_date: e.target.value })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div className="relative">
+            <label className="block text-sm font-medium text-blue-900">Contact</label>
+            {selectedContact ? (
+              <div className="mt-1 flex items-center justify-between px-3 py-2 border border-blue-200 rounded-md bg-blue-50">
+                <span>{contactName(selectedContact)}</span>
+                <button
+                  type="button"
+                  onClick={() => setFormData({ ...formData, contact_id: '' })}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  Clear
+                </button>
+              </div>
+            ) : (
+              <input
+                type="text"
+                value={contactSearch}
+                onChange={(e) => setContactSearch(e.target.value)}
+                placeholder="Search by name or address"
+                className={inputClass}
+              />
+            )}
+            {contactMatches.length > 0 && (
+              <ul className="absolute z-10 w-full mt-1 bg-white border border-blue-200 rounded-md shadow-lg max-h-60 overflow-y-auto">
+                {contactMatches.map((contact) => (
+                  <li key={contact.id}>
+                    <button
+                      type="button"
+                      onClick={() => selectContact(contact)}
+                      className="w-full text-left px-3 py-2 hover:bg-blue-50"
+                    >
+                      <span className="font-medium">{contactName(contact)}</span>
+                      <span className="block text-xs text-gray-500">{contactAddress(contact)}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          {(
+            [
+              ['street_number', 'Street Number', '12'],
+              ['street_name', 'Street Name', 'Moggill Rd'],
+              ['suburb', 'Suburb', 'Pullenvale'],
+              ['estimate_low', 'Estimate Low', '850000'],
+              ['estimate_high', 'Estimate High', '920000'],
+              ['vendor_expectation', 'Vendor Expectation', '950000'],
+            ] as [keyof AppraisalFormData, string, string][]
+          ).map(([field, label, placeholder]) => (
+            <div key={field}>
+              <label className="block text-sm font-medium text-blue-900">{label}</label>
+              <input
+                type="text"
+                value={formData[field]}
+                placeholder={placeholder}
+                onChange={(e) => setFormData({ ...formData, [field]: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          ))}
+          <div className="md:col-span-3">
+            <label className="block text-sm font-medium text-blue-900">Notes</label>
+            <textarea
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <button
+          type="submit"
+          disabled={saving}
+          className="mt-4 flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+          Record Appraisal
+        </button>
+      </form>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-blue-200 overflow-x-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-blue-900">Appraisal History</h2>
+          <div className="flex items-center gap-3">
+            {isAdmin && (
+              <select
+                value={agentFilter}
+                onChange={(e) => setAgentFilter(e.target.value)}
+                className="px-3 py-2 border border-blue-200 rounded-md"
+              >
+                <option value="">All agents</option>
+                {agents.map((agent) => (
+                  <option key={agent.id} value={agent.id}>
+                    {agent.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={() => setIsExportOpen(true)}
+              disabled={!appraisals.length}
+              className="flex items-center px-4 py-2 border border-blue-200 text-blue-900 rounded-md hover:bg-blue-50 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4 mr-2" /> Export
+            </button>
+          </div>
+        </div>
+        {loading ? (
+          <div className="flex items-center text-blue-900">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" /> Loading appraisals...
+          </div>
+        ) : appraisals.length === 0 ? (
+          <p className="text-gray-500">No appraisals recorded yet.</p>
+        ) : (
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="border-b border-blue-200">
+                <th className="py-2 px-3 text-blue-900">Date</th>
+                {isAdmin && <th className="py-2 px-3 text-blue-900">Agent</th>}
+                <th className="py-2 px-3 text-blue-900">Type</th>
+                <th className="py-2 px-3 text-blue-900">Contact / Address</th>
+                <th className="py-2 px-3 text-blue-900">Estimate</th>
+                <th className="py-2 px-3 text-blue-900">Vendor Expects</th>
+                <th className="py-2 px-3 text-blue-900">Outcome</th>
+                <th className="py-2 px-3 text-blue-900"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {appraisals.map((appraisal) => {
+                const contact = appraisal.contact_id ? contactsById.get(appraisal.contact_id) : undefined;
+                return (
+                  <tr key={appraisal.id} className="border-b border-blue-100 hover:bg-blue-50 align-top">
+                    <td className="py-2 px-3">{moment(appraisal.appraisal_date).format('DD/MM/YYYY')}</td>
+                    {isAdmin && <td className="py-2 px-3">{agentNames.get(appraisal.agent_id) || 'Unknown'}</td>}
+                    <td className="py-2 px-3">{TYPE_LABELS[appraisal.appraisal_type]}</td>
+                    <td className="py-2 px-3">
+                      {contact && <span className="block font-medium">{contactName(contact)}</span>}
+                      <span className="text-gray-600">
+                        {appraisal.street_name ? contactAddress(appraisal) : contact ? contactAddress(contact) : 'N/A'}
+                      </span>
+                    </td>
+                    <td className="py-2 px-3">
+                      {appraisal.estimate_low != null || appraisal.estimate_high != null
+                        ? `${appraisal.estimate_low != null ? formatCurrency(appraisal.estimate_low) : '?'} – ${
+                            appraisal.estimate_high != null ? formatCurrency(appraisal.estimate_high) : '?'
+                          }`
+                        : 'N/A'}
+                    </td>
+                    <td className="py-2 px-3">
+                      {appraisal.vendor_expectation != null ? formatCurrency(appraisal.vendor_expectation) : 'N/A'}
+                    </td>
+                    <td className="py-2 px-3">
+                      <select
+                        value={appraisal.outcome}
+                        onChange={(e) => handleOutcome(appraisal, e.target.value as AppraisalOutcome)}
+                        className={`px-2 py-1 rounded-full text-xs font-semibold ${OUTCOME_STYLES[appraisal.outcome]}`}
+                      >
+                        {Object.entries(OUTCOME_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                      {appraisal.outcome === 'follow_up' && (
+                        <input
+                          type="date"
+                          value={appraisal.follow_up_date || ''}
+                          onChange={(e) => handleFollowUpDate(appraisal, e.target.value)}
+                          className="block mt-1 px-2 py-1 border border-blue-200 rounded-md text-xs"
+                        />
+                      )}
+                    </td>
+                    <td className="py-2 px-3 text-right">
+                      <button onClick={() => handleDelete(appraisal)} className="text-red-600 hover:text-red-700">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+      {isExportOpen && <ExportDialog spec={appraisalExportSpec()} onClose={() => setIsExportOpen(false)} />}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import moment from 'moment';
+import { Check, Loader2, Phone, PhoneCall, RotateCcw, SkipForward } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { completeCallListItem, fetchCallList, reopenCallListItem } from '../api/callList';
+import { useAuthStore } from '../store/authStore';
+import { CallListItemRow } from '../types/database';
+
+const SOURCE_LABELS: Record<CallListItemRow['source'], string> = {
+  nurturing: 'Nurturing list',
+  street: 'Street contact',
+};
+
+const dueLabel = (item: CallListItemRow) => {
+  const days = moment(item.list_date).diff(moment(item.call_back_date), 'days');
+  return days > 0 ? `Overdue by ${days} day${days === 1 ? '' : 's'}` : 'Due today';
+};
+
+// The agent's daily call list, built each morning from due and overdue
+// call-backs on the nurturing list and street contacts.
+export function CallList() {
+  const { user } = useAuthStore();
+  const [listDate, setListDate] = useState(moment().format('YYYY-MM-DD'));
+  const [items, setItems] = useState<CallListItemRow[]>([]);
+  const [nextDates, setNextDates] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    setLoading(true);
+    fetchCallList(user.id, listDate)
+      .then(setItems)
+      .catch((err) => toast.error(err instanceof Error ? err.message : 'Failed to load the call list'))
+      .finally(() => setLoading(false));
+  }, [user?.id, listDate]);
+
+  const replaceItem = (updated: CallListItemRow) =>
+    setItems((current) => current.map((item) => (item.id === updated.id ? updated : item)));
+
+  const handleComplete = async (item: CallListItemRow, status: 'done' | 'skipped') => {
+    setSaving(item.id);
+    try {
+      replaceItem(await completeCallListItem(item, status, nextDates[item.id] || null));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update the call list');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleReopen = async (item: CallListItemRow) => {
+    setSaving(item.id);
+    try {
+      replaceItem(await reopenCallListItem(item.id));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update the call list');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const pending = items.filter((item) => item.status === 'pending');
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold text-blue-900 flex items-center">
+          <PhoneCall className="w-8 h-8 mr-3 text-blue-600" /> Call List
+        </h1>
+        <input
+          type="date"
+          value={listDate}
+          onChange={(e) => e.target.value && setListDate(e.target.value)}
+          className="p-2 border border-blue-200 rounded-md text-blue-900"
+          aria-label="List date"
+        />
+      </div>
+      <div className="bg-white p-6 rounded-lg shadow-md border border-blue-200">
+        <p className="text-gray-600 mb-4">
+          {loading
+            ? 'Loading...'
+            : items.length
+              ? `${pending.length} of ${items.length} call${items.length === 1 ? '' : 's'} still to make. Set the next call-back before ticking a call off, or leave it blank to clear it.`
+              : 'No call-backs on this list. Lists are built each morning from the nurturing list and street contacts.'}
+        </p>
+        {loading ? (
+          <div className="flex items-center text-blue-900 py-4">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" /> Loading call list...
+          </div>
+        ) : (
+          <ul className="divide-y divide-blue-100">
+            {items.map((item) => {
+              const overdue = item.call_back_date < item.list_date;
+              return (
+                <li key={item.id} className={`py-4 ${item.status === 'pending' ? '' : 'opacity-60'}`}>
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div>
+                      <p className="font-medium text-blue-900">{item.contact_name}</p>
+                      <p className="text-sm text-gray-500">
+                        {SOURCE_LABELS[item.source]}
+                        {item.address ? ` · ${item.address}` : ''}
+                      </p>
+                      {item.phone && (
+                        <a href={`tel:${item.phone}`} className="text-sm text-blue-600 hover:text-blue-800 flex items-center mt-1">
+                          <Phone className="w-4 h-4 mr-1" /> {item.phone}
+                        </a>
+                      )}
+                      {item.notes && <p className="text-sm text-gray-600 mt-1">{item.notes}</p>}
+                    </div>
+                    <span
+                      className={`text-xs px-2 py-1 rounded-full ${overdue ? 'bg-red-100 text-red-700' : 'bg-blue-100 text-blue-700'}`}
+                    >
+                      {dueLabel(item)}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3 mt-3">
+                    {item.status === 'pending' ? (
+                      <>
+                        <label className="text-sm text-gray-600 flex items-center gap-2">
+                          Next call-back
+                          <input
+                            type="date"
+                            value={nextDates[item.id] || ''}
+                            min={moment(item.list_date).add(1, 'day').format('YYYY-MM-DD')}
+                            onChange={(e) => setNextDates((current) => ({ ...current, [item.id]: e.target.value }))}
+                            className="p-1 border border-blue-200 rounded-md"
+                          />
+                        </label>
+                        <button
+                          onClick={() => handleComplete(item, 'done')}
+                          disabled={saving === item.id}
+                          className="flex items-center px-3 py-1 rounded-md text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          {saving === item.id ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Check className="w-4 h-4 mr-1" />}
+                          Done
+                        </button>
+                        <button
+                          onClick={() => handleComplete(item, 'skipped')}
+                          disabled={saving === item.id}
+                          className="flex items-center px-3 py-1 rounded-md text-sm bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+                        >
+                          <SkipForward className="w-4 h-4 mr-1" /> Skip
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <span className="text-sm text-gray-600">
+                          {item.status === 'done' ? 'Called' : 'Skipped'}
+                          {item.completed_at ? ` ${moment(item.completed_at).format('h:mm a')}` : ''}
+                        </span>
+                        <button
+                          onClick={() => handleReopen(item)}
+                          disabled={saving === item.id}
+                          className="flex items-center text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" /> Reopen
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <p className="text-sm text-gray-500 mt-4">
+          Call-backs are set on the <Link to="/nurturing-list" className="text-blue-600 hover:underline">nurturing list</Link> and on
+          street contacts in the marketing plan.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default CallList;
@@ -13,12 +13,19 @@ import {
 import ChartDataLabels from 'chartjs-plugin-datalabels';
 import { motion, AnimatePresence } from 'framer-motion';
 import { supabase } from '../lib/supabase';
+import { fetchProperties } from '../api/properties';
+import { fetchCommissionLedger, ledgerByProperty } from '../api/commissionLedger';
+import { CommissionLedgerRow } from '../types/database';
+import { propertyCommission } from '../utils/commission';
 import { PropertyDetails } from './Reports';
+import { normalizeSuburb } from '../utils/gazetteer';
 import { formatCurrency } from '../utils/formatters';
 import { toast } from 'react-toastify';
-import jsPDF from 'jspdf';
-import autoTable from 'jspdf-autotable';
-import { utils, writeFile } from 'xlsx';
+import { ExportDialog } from '../components/ExportDialog';
+import { activeFilters, ExportSpec, exportTable } from '../utils/exporter';
+import { SUBURB_COMMISSION_EXPORT_COLUMNS } from '../utils/exportColumns';
+import { downloadReport } from '../utils/pdfReport';
+import { COMMISSION_REPORT } from '../utils/reportTemplates';
 import {
   Download,
   ChevronLeft,
@@ -139,38 +146,20 @@ const normalizeAgentName = (name: string | null | undefined): string => {
     .join(' ');
 };
 
-const normalizeSuburbName = (name: string | null | undefined): string => {
-  if (!name) return 'Unknown';
-  return name
-    .trim()
-    .toUpperCase()
-    .split(/[\s-]+/)
-    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-    .join(' ');
-};
+const normalizeSuburbName = (name: string | null | undefined): string =>
+  name && name.trim() ? normalizeSuburb(name) : 'Unknown';
 
+// Booked sales come from the commission ledger; anything else is estimated
+// with the agent's negotiated rate when one has been recorded.
 const calculateCommission = (
   property: PropertyDetails,
-  agentCommissions: AgentCommission[]
+  agentCommissions: AgentCommission[],
+  ledger: Map<string, CommissionLedgerRow>
 ): { commissionEarned: number; commissionRate: number } => {
-  let commissionEarned = 0;
-  let commissionRate = property.commission || 0;
-  const price = property.sold_price && (property.contract_status === 'sold' || property.sold_date)
-    ? property.sold_price
-    : property.price || 0;
   const agentCommission = agentCommissions.find(
     (ac) => ac.property_id === property.id && ac.agent_name === property.agent_name
   );
-  if (agentCommission?.commission_rate) {
-    commissionRate = agentCommission.commission_rate;
-  }
-  if (price > 0 && commissionRate > 0) {
-    commissionEarned = price * (commissionRate / 100);
-  }
-  return {
-    commissionEarned: isNaN(commissionEarned) ? 0 : commissionEarned,
-    commissionRate: isNaN(commissionRate) ? 0 : commissionRate,
-  };
+  return propertyCommission(property, ledger.get(property.id), agentCommission?.commission_rate);
 };
 
 // CollapsibleSection and ProgressBar components (unchanged)
@@ -310,8 +299,10 @@ function CommissionByAgency() {
   const [internalAgentData, setInternalAgentData] = useState<Record<string, { commission: number; listed: number; sold: number; commissionRate?: number }>>({});
   const [internalProperties, setInternalProperties] = useState<PropertyDetails[]>([]);
   const [agentCommissions, setAgentCommissions] = useState<AgentCommission[]>([]);
+  const [ledger, setLedger] = useState<Map<string, CommissionLedgerRow>>(new Map());
   const [isLoading, setIsLoading] = useState(true);
   const [fetchError, setFetchError] = useState<string | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const [agencyCurrentPage, setAgencyCurrentPage] = useState(1);
   const [suburbCurrentPage, setSuburbCurrentPage] = useState(1);
   const [agentCurrentPage, setAgentCurrentPage] = useState(1);
@@ -347,11 +338,8 @@ function CommissionByAgency() {
       setIsLoading(true);
       setFetchError(null);
       try {
-        const { data: propertiesData, error: propertiesError } = await supabase
-          .from('properties')
-          .select('id, agency_name, property_type, commission, price, sold_price, suburb, street_name, street_number, agent_name, postcode, category, listed_date, sale_type, expected_price, features, flood_risk, bushfire_risk, contract_status, same_street_sales, past_records, sold_date');
-
-        if (propertiesError) throw propertiesError;
+        const [propertiesData, ledgerEntries] = await Promise.all([fetchProperties(), fetchCommissionLedger()]);
+        const fetchedLedger = ledgerByProperty<CommissionLedgerRow>(ledgerEntries);
 
         const { data: agentCommissionsData, error: agentCommissionsError } = await supabase
           .from('agent_commissions')
@@ -359,11 +347,15 @@ function CommissionByAgency() {
 
         if (agentCommissionsError) throw agentCommissionsError;
 
-        const fetchedProperties = (propertiesData as PropertyDetails[]) || [];
+        const fetchedProperties: PropertyDetails[] = propertiesData.map((property) => ({
+          ...property,
+          commission_earned: null,
+        }));
         const fetchedAgentCommissions = (agentCommissionsData as AgentCommission[]) || [];
 
         setInternalProperties(fetchedProperties);
         setAgentCommissions(fetchedAgentCommissions);
+        setLedger(fetchedLedger);
 
         const newCommissionMap: Record<string, Record<string, number>> = {};
         const newAgentMap: Record<string, { commission: number; listed: number; sold: number; commissionRate?: number }> = {};
@@ -372,7 +364,7 @@ function CommissionByAgency() {
           const agency = normalizeAgencyName(property.agency_name);
           const agent = normalizeAgentName(property.agent_name);
           const propertyType = property.property_type || 'Unknown';
-          const { commissionEarned, commissionRate } = calculateCommission(property, fetchedAgentCommissions);
+          const { commissionEarned, commissionRate } = calculateCommission(property, fetchedAgentCommissions, fetchedLedger);
           const isSold = property.contract_status === 'sold' || !!property.sold_date;
 
           if (agency && !isNaN(commissionEarned)) {
@@ -469,7 +461,7 @@ function CommissionByAgency() {
       const agent = normalizeAgentName(property.agent_name);
       const suburb = normalizeSuburbName(property.suburb);
       const street = `${property.street_name || 'Unknown'}, ${suburb}`;
-      const { commissionEarned, commissionRate } = calculateCommission(property, agentCommissions);
+      const { commissionEarned, commissionRate } = calculateCommission(property, agentCommissions, ledger);
       const isSold = property.contract_status === 'sold' || !!property.sold_date;
 
       // Apply filters
@@ -584,7 +576,7 @@ function CommissionByAgency() {
       topStreet,
       suburbCommissions,
     };
-  }, [internalCommissionData, internalProperties, internalAgentData, agentCommissions, selectedSuburbs, selectedAgents, selectedAgencies, selectedStreetNames]);
+  }, [internalCommissionData, internalProperties, internalAgentData, agentCommissions, ledger, selectedSuburbs, selectedAgents, selectedAgencies, selectedStreetNames]);
 
   const summary = calculateSummary();
 
@@ -640,13 +632,13 @@ function CommissionByAgency() {
         const listedCommission = properties
           .filter((p) => !(p.contract_status === 'sold' || !!p.sold_date))
           .reduce((sum, p) => {
-            const { commissionEarned } = calculateCommission(p, agentCommissions);
+            const { commissionEarned } = calculateCommission(p, agentCommissions, ledger);
             return sum + (isNaN(commissionEarned) ? 0 : commissionEarned);
           }, 0);
         const soldCommission = properties
           .filter((p) => p.contract_status === 'sold' || !!p.sold_date)
           .reduce((sum, p) => {
-            const { commissionEarned } = calculateCommission(p, agentCommissions);
+            const { commissionEarned } = calculateCommission(p, agentCommissions, ledger);
             return sum + (isNaN(commissionEarned) ? 0 : commissionEarned);
           }, 0);
         const validCommissions = properties
@@ -671,7 +663,7 @@ function CommissionByAgency() {
         };
       })
       .sort((a, b) => b.totalCommission - a.totalCommission);
-  }, [internalCommissionData, internalProperties, internalAgentData, agentCommissions]);
+  }, [internalCommissionData, internalProperties, internalAgentData, agentCommissions, ledger]);
 
   const filteredAgencyTotals = useMemo(() => {
     let filtered = agencyTotals;
@@ -1166,117 +1158,93 @@ function CommissionByAgency() {
     );
   };
 
-  const exportCommissionPDF = () => {
+  const exportCommissionPDF = async () => {
     try {
-      const doc = new jsPDF();
-      const pageWidth = doc.internal.pageSize.getWidth();
-      const margin = 10;
-
-      doc.setFontSize(18);
-      doc.text('Commission Dashboard Report', margin, 20);
-
-      doc.setFontSize(14);
-      doc.text('Performance Summary', margin, 30);
-      autoTable(doc, {
-        startY: 35,
-        head: [['Metric', 'Value']],
-        body: [
-          ['Total Commission', formatCurrency(summary.totalCommission)],
-          ['Listed Commission', formatCurrency(summary.totalListedCommission)],
-          ['Sold Commission', formatCurrency(summary.totalSoldCommission)],
-          ['Total Properties', summary.totalProperties.toString()],
-          ['Top Agency', `${summary.topAgency} (${formatCurrency(summary.topAgencyTotalCommission)}, ${summary.topAgencyCommissionRate.toFixed(2)}%)`],
-          ['Top Agent', `${summary.topAgent.name} (${formatCurrency(summary.topAgent.commission)})`],
+      await downloadReport(COMMISSION_REPORT, {
+        id: 'commission_dashboard',
+        title: 'Commission Dashboard Report',
+        kpis: [
+          { label: 'Total Commission', value: formatCurrency(summary.totalCommission) },
+          { label: 'Listed Commission', value: formatCurrency(summary.totalListedCommission) },
+          { label: 'Sold Commission', value: formatCurrency(summary.totalSoldCommission) },
+          { label: 'Total Properties', value: summary.totalProperties },
         ],
-        theme: 'striped',
-        margin: { left: margin, right: margin },
-      });
-
-      let finalY = (doc as any).lastAutoTable.finalY + 10;
-      doc.setFontSize(14);
-      doc.text('Agency Performance', margin, finalY);
-      autoTable(doc, {
-        startY: finalY + 5,
-        head: [['Agency', 'Commission Rate', 'Total Commission', 'Listed', 'Sold', 'Suburbs']],
-        body: filteredAgencyTotals.map((row) => [
-          row.agency,
-          `${row.commissionRate.toFixed(2)}%`,
-          formatCurrency(row.totalCommission),
-          row.listedCount.toString(),
-          row.soldCount.toString(),
-          row.suburbs.join(', ') || 'None',
-        ]),
-        theme: 'striped',
-        margin: { left: margin, right: margin },
-      });
-
-      finalY = (doc as any).lastAutoTable.finalY + 10;
-      doc.setFontSize(14);
-      doc.text('Suburb Performance', margin, finalY);
-      autoTable(doc, {
-        startY: finalY + 5,
-        head: [['Suburb', 'Avg Listed Rate', 'Listed Commission', 'Listed Properties', 'Avg Sold Rate', 'Sold Commission', 'Sold Properties']],
-        body: filteredSuburbCommissions.map((row) => [
-          row.suburb,
-          `${row.avgListedCommissionRate.toFixed(2)}%`,
-          formatCurrency(row.listedCommissionTotal),
-          row.listedPropertyCount.toString(),
-          `${row.avgSoldCommissionRate.toFixed(2)}%`,
-          formatCurrency(row.soldCommissionTotal),
-          row.soldPropertyCount.toString(),
-        ]),
-        theme: 'striped',
-        margin: { left: margin, right: margin },
+        summary: [
+          {
+            label: 'Top Agency',
+            value: `${summary.topAgency} (${formatCurrency(summary.topAgencyTotalCommission)}, ${summary.topAgencyCommissionRate.toFixed(2)}%)`,
+          },
+          { label: 'Top Agent', value: `${summary.topAgent.name} (${formatCurrency(summary.topAgent.commission)})` },
+        ],
+        filters: (commissionExportSpec().filters || []).map((fact) => ({ label: fact.label, value: String(fact.value) })),
+        agencies: filteredAgencyTotals,
+        suburbs: filteredSuburbCommissions,
       });
-
-      doc.save('Commission_Dashboard_Report.pdf');
       toast.success('PDF exported successfully!');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error exporting PDF:', error);
       toast.error('Failed to export PDF.');
     }
   };
 
-  const exportCommissionCSV = () => {
-    try {
-      let csvContent = 'data:text/csv;charset=utf-8,';
-
-      csvContent += 'Performance Summary\n';
-      csvContent += 'Metric,Value\n';
-      csvContent += `Total Commission,${formatCurrency(summary.totalCommission)}\n`;
-      csvContent += `Listed Commission,${formatCurrency(summary.totalListedCommission)}\n`;
-      csvContent += `Sold Commission,${formatCurrency(summary.totalSoldCommission)}\n`;
-      csvContent += `Total Properties,${summary.totalProperties}\n`;
-      csvContent += `Top Agency,"${summary.topAgency} (${formatCurrency(summary.topAgencyTotalCommission)}, ${summary.topAgencyCommissionRate.toFixed(2)}%)"\n`;
-      csvContent += `Top Agent,"${summary.topAgent.name} (${formatCurrency(summary.topAgent.commission)})"\n`;
-      csvContent += '\n';
-
-      csvContent += 'Agency Performance\n';
-      csvContent += 'Agency,Commission Rate,Total Commission,Listed,Sold,Suburbs\n';
-      filteredAgencyTotals.forEach((row) => {
-        csvContent += `"${row.agency.replace(/"/g, '""')}",${row.commissionRate.toFixed(2)}%,${formatCurrency(row.totalCommission)},${row.listedCount},${row.soldCount},"${row.suburbs.join(', ').replace(/"/g, '""') || 'None'}"\n`;
-      });
-      csvContent += '\n';
-
-      csvContent += 'Suburb Performance\n';
-      csvContent += 'Suburb,Avg Listed Rate,Listed Commission,Listed Properties,Avg Sold Rate,Sold Commission,Sold Properties\n';
-      filteredSuburbCommissions.forEach((row) => {
-        csvContent += `"${row.suburb.replace(/"/g, '""')}",${row.avgListedCommissionRate.toFixed(2)}%,${formatCurrency(row.listedCommissionTotal)},${row.listedPropertyCount},${row.avgSoldCommissionRate.toFixed(2)}%,${formatCurrency(row.soldCommissionTotal)},${row.soldPropertyCount}\n`;
-      });
-
-      const encodedUri = encodeURI(csvContent);
-      const link = document.createElement('a');
-      link.setAttribute('href', encodedUri);
-      link.setAttribute('download', 'Commission_Dashboard_Report.csv');
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      toast.success('CSV exported successfully!');
-    } catch (error: any) {
-      console.error('Error exporting CSV:', error);
-      toast.error('Failed to export CSV.');
-    }
-  };
+  const commissionExportSpec = (): ExportSpec => ({
+    id: 'commission_dashboard',
+    title: 'Commission Dashboard',
+    filters: activeFilters({
+      Search: searchQuery.trim(),
+      Status: statusFilter === 'all' ? '' : statusFilter,
+      Period: { all: '', last30: 'Last 30 days', last90: 'Last 90 days' }[dateRange],
+      'Selected Agency': selectedAgency,
+      Suburbs: selectedSuburbs,
+      Agents: selectedAgents,
+      Agencies: selectedAgencies,
+      'Street Names': selectedStreetNames,
+    }),
+    summary: [
+      { label: 'Total Commission', value: summary.totalCommission },
+      { label: 'Listed Commission', value: summary.totalListedCommission },
+      { label: 'Sold Commission', value: summary.totalSoldCommission },
+      { label: 'Total Properties', value: summary.totalProperties },
+      {
+        label: 'Top Agency',
+        value: `${summary.topAgency} (${formatCurrency(summary.topAgencyTotalCommission)}, ${summary.topAgencyCommissionRate.toFixed(2)}%)`,
+      },
+      { label: 'Top Agent', value: `${summary.topAgent.name} (${formatCurrency(summary.topAgent.commission)})` },
+    ],
+    tables: [
+      exportTable({
+        name: 'Agencies',
+        rows: filteredAgencyTotals,
+        columns: [
+          { key: 'agency', label: 'Agency', value: (row) => row.agency },
+          { key: 'commission_rate', label: 'Commission Rate (%)', value: (row) => Number(row.commissionRate.toFixed(2)) },
+          { key: 'total_commission', label: 'Total Commission', value: (row) => row.totalCommission },
+          { key: 'listed_commission', label: 'Listed Commission', value: (row) => row.listedCommission, hidden: true },
+          { key: 'sold_commission', label: 'Sold Commission', value: (row) => row.soldCommission, hidden: true },
+          { key: 'listed', label: 'Listed', value: (row) => row.listedCount },
+          { key: 'sold', label: 'Sold', value: (row) => row.soldCount },
+          { key: 'suburbs', label: 'Suburbs', value: (row) => row.suburbs.join(', ') },
+          { key: 'property_types', label: 'Property Types', value: (row) => row.propertyTypes.join(', '), hidden: true },
+        ],
+      }),
+      exportTable({
+        name: 'Agents',
+        rows: filteredAgentData,
+        columns: [
+          { key: 'agent', label: 'Agent', value: (row) => row.name },
+          {
+            key: 'commission_rate',
+            label: 'Commission Rate (%)',
+            value: (row) => (row.commissionRate ? Number(row.commissionRate.toFixed(2)) : 'Agency Default'),
+          },
+          { key: 'total_commission', label: 'Total Commission', value: (row) => row.commission },
+          { key: 'listed', label: 'Listed', value: (row) => row.listed },
+          { key: 'sold', label: 'Sold', value: (row) => row.sold },
+        ],
+      }),
+      { name: 'Suburbs', rows: filteredSuburbCommissions, columns: SUBURB_COMMISSION_EXPORT_COLUMNS },
+    ],
+  });
 
   // Updated JSX with innovative filter design
   return (
@@ -1819,18 +1787,19 @@ function CommissionByAgency() {
                 Export PDF
               </motion.button>
               <motion.button
-                onClick={exportCommissionCSV}
+                onClick={() => setIsExportOpen(true)}
                 className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-full hover:bg-indigo-700"
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
               >
                 <Download className="w-4 h-4 mr-2" />
-                Export CSV
+                Export Tables
               </motion.button>
             </motion.div>
           </motion.div>
         )}
       </div>
+      {isExportOpen && <ExportDialog spec={commissionExportSpec()} onClose={() => setIsExportOpen(false)} />}
     </motion.div>
   );
 }
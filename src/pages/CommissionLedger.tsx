@@ -0,0 +1,458 @@
+import { Fragment, useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import moment from 'moment';
+import { Download, Loader2, Plus, Receipt, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { useAuthStore, usePermissions } from '../store/authStore';
+import {
+  CommissionLedgerEntry,
+  fetchCommissionLedger,
+  ledgerTerms,
+  setPayoutStatus,
+  syncCommissionLedger,
+  updateLedgerTerms,
+} from '../api/commissionLedger';
+import { ExportDialog } from '../components/ExportDialog';
+import { PayoutStatus } from '../types/database';
+import { CommissionTerms, computeCommissionBreakdown } from '../utils/commission';
+import { activeFilters, ExportColumn, ExportSpec } from '../utils/exporter';
+import { formatCurrency } from '../utils/formatters';
+import { normalizeSuburb } from '../utils/gazetteer';
+
+const PAYOUT_LABELS: Record<PayoutStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  paid: 'Paid',
+  on_hold: 'On Hold',
+};
+
+const PAYOUT_STYLES: Record<PayoutStatus, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  approved: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+  on_hold: 'bg-yellow-100 text-yellow-800',
+};
+
+const entryAddress = (entry: CommissionLedgerEntry) =>
+  entry.property
+    ? `${entry.property.street_number || ''} ${entry.property.street_name || ''}, ${normalizeSuburb(entry.property.suburb)}`.trim()
+    : 'Unknown property';
+
+const LEDGER_EXPORT_COLUMNS: ExportColumn<CommissionLedgerEntry>[] = [
+  { key: 'property', label: 'Property', value: entryAddress },
+  { key: 'agent', label: 'Agent', value: (entry) => entry.property?.agent_name },
+  { key: 'settlement_date', label: 'Settled', value: (entry) => entry.settlement_date },
+  { key: 'sale_price', label: 'Sale Price', value: (entry) => Number(entry.sale_price) },
+  { key: 'commission_rate', label: 'Rate (%)', value: (entry) => Number(entry.commission_rate) },
+  { key: 'gross_commission', label: 'Gross (inc GST)', value: (entry) => Number(entry.gross_commission) },
+  { key: 'gst', label: 'GST', value: (entry) => Number(entry.gst) },
+  { key: 'conjunctional_total', label: 'Conjunctional', value: (entry) => Number(entry.conjunctional_total) },
+  {
+    key: 'conjunctional_splits',
+    label: 'Conjunctional Agencies',
+    value: (entry) => (entry.conjunctional_splits || []).map((split) => `${split.agency} (${split.share_percent}%)`).join(', '),
+    hidden: true,
+  },
+  { key: 'franchise_fee', label: 'Franchise Fee', value: (entry) => Number(entry.franchise_fee) },
+  { key: 'agent_split_rate', label: 'Agent Split (%)', value: (entry) => Number(entry.agent_split_rate), hidden: true },
+  { key: 'agent_amount', label: 'Agent Share', value: (entry) => Number(entry.agent_amount) },
+  { key: 'business_amount', label: 'Business Share', value: (entry) => Number(entry.business_amount) },
+  { key: 'payout_status', label: 'Payout', value: (entry) => PAYOUT_LABELS[entry.payout_status] },
+  { key: 'paid_at', label: 'Paid', value: (entry) => entry.paid_at, hidden: true },
+  { key: 'notes', label: 'Notes', value: (entry) => entry.notes, hidden: true },
+];
+
+export function CommissionLedger() {
+  const navigate = useNavigate();
+  const { profile } = useAuthStore();
+  const { can } = usePermissions();
+  const canViewAll = can('commission.view_all');
+  const canManage = can('commission.manage');
+  const [entries, setEntries] = useState<CommissionLedgerEntry[]>([]);
+  const [statusFilter, setStatusFilter] = useState<PayoutStatus | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [terms, setTerms] = useState<CommissionTerms | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  // Bumped to reload the ledger after sold properties are booked.
+  const [reloads, setReloads] = useState(0);
+  const profileId = profile?.id;
+
+  const refresh = useCallback(async () => {
+    if (!profileId) return;
+    try {
+      setEntries(
+        await fetchCommissionLedger({
+          agentId: canViewAll ? undefined : profileId,
+          payoutStatus: statusFilter || undefined,
+        })
+      );
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load commission ledger');
+    } finally {
+      setLoading(false);
+    }
+  }, [profileId, canViewAll, statusFilter]);
+
+  const handleSync = useCallback(async (quiet = false) => {
+    setSyncing(true);
+    try {
+      const booked = await syncCommissionLedger();
+      if (booked || !quiet) toast.success(booked ? `Booked ${booked} sold propert${booked === 1 ? 'y' : 'ies'}` : 'Ledger is up to date');
+      if (booked) setReloads((count) => count + 1);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to book sold properties');
+    } finally {
+      setSyncing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, reloads]);
+
+  useEffect(() => {
+    if (canManage) handleSync(true);
+  }, [canManage, handleSync]);
+
+  const totals = useMemo(
+    () =>
+      entries.reduce(
+        (acc, entry) => {
+          acc.gross += Number(entry.gross_commission);
+          acc.gst += Number(entry.gst);
+          acc.conjunctional += Number(entry.conjunctional_total);
+          acc.franchise += Number(entry.franchise_fee);
+          acc.agent += Number(entry.agent_amount);
+          acc.business += Number(entry.business_amount);
+          if (entry.payout_status !== 'paid') acc.unpaid += Number(entry.agent_amount);
+          return acc;
+        },
+        { gross: 0, gst: 0, conjunctional: 0, franchise: 0, agent: 0, business: 0, unpaid: 0 }
+      ),
+    [entries]
+  );
+
+  const startEditing = (entry: CommissionLedgerEntry) => {
+    setEditingId(entry.id);
+    setTerms(ledgerTerms(entry));
+  };
+
+  const preview = terms ? computeCommissionBreakdown(terms) : null;
+
+  const handleSaveTerms = async () => {
+    if (!editingId || !terms) return;
+    const shares = terms.conjunctionals.reduce((sum, split) => sum + split.share_percent, 0);
+    if (shares > 100) return toast.error('Conjunctional shares cannot exceed 100%');
+    if (terms.conjunctionals.some((split) => !split.agency.trim())) return toast.error('Each conjunctional split needs an agency');
+    setSaving(true);
+    try {
+      const updated = await updateLedgerTerms(editingId, terms);
+      setEntries((prev) => prev.map((entry) => (entry.id === updated.id ? { ...entry, ...updated } : entry)));
+      setEditingId(null);
+      setTerms(null);
+      toast.success('Commission updated');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update commission');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePayoutStatus = async (entry: CommissionLedgerEntry, status: PayoutStatus) => {
+    try {
+      const updated = await setPayoutStatus(entry.id, status);
+      setEntries((prev) => prev.map((row) => (row.id === updated.id ? { ...row, ...updated } : row)));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update payout status');
+    }
+  };
+
+  const ledgerExportSpec = (): ExportSpec => ({
+    id: 'commission_ledger',
+    title: 'Commission Ledger',
+    tables: [{ name: 'Ledger', rows: entries, columns: LEDGER_EXPORT_COLUMNS }],
+    filters: activeFilters({ Payout: statusFilter && PAYOUT_LABELS[statusFilter] }),
+    summary: [
+      { label: 'Gross (inc GST)', value: totals.gross },
+      { label: 'GST', value: totals.gst },
+      { label: 'Conjunctional', value: totals.conjunctional },
+      { label: 'Franchise Fees', value: totals.franchise },
+      { label: 'Agent Share', value: totals.agent },
+      { label: 'Business Share', value: totals.business },
+      { label: 'Unpaid to Agents', value: totals.unpaid },
+    ],
+  });
+
+  const numberInput = (label: string, value: number, onChange: (value: number) => void, step = 0.1) => (
+    <div>
+      <label className="block text-xs font-medium text-blue-900">{label}</label>
+      <input
+        type="number"
+        min={0}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+        className="mt-1 w-full px-2 py-1 border border-blue-200 rounded-md"
+      />
+    </div>
+  );
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h1 className="text-3xl font-bold text-blue-900 flex items-center">
+          <Receipt className="w-7 h-7 mr-2 text-blue-300" /> Commission Ledger
+        </h1>
+        <div className="flex items-center gap-3">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as PayoutStatus | '')}
+            className="px-3 py-2 border border-blue-200 rounded-md"
+          >
+            <option value="">All statuses</option>
+            {Object.entries(PAYOUT_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => setIsExportOpen(true)}
+            disabled={!entries.length}
+            className="flex items-center px-4 py-2 bg-white text-blue-900 border border-blue-200 rounded-full hover:bg-blue-50 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4 mr-2" /> Export
+          </button>
+          {canManage && (
+            <button
+              onClick={() => handleSync()}
+              disabled={syncing}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-full hover:bg-blue-700 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${syncing ? 'animate-spin' : ''}`} /> Book Sold Properties
+            </button>
+          )}
+          <motion.button
+            onClick={() => navigate(can('admin.access') ? '/admin-dashboard' : '/agent-dashboard')}
+            className="px-4 py-2 bg-blue-300 text-white rounded-full hover:bg-blue-400 shadow-md"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            Back to Dashboard
+          </motion.button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4 mb-8">
+        {(
+          [
+            ['Gross (inc GST)', totals.gross],
+            ['GST', totals.gst],
+            ['Conjunctional', totals.conjunctional],
+            ['Franchise Fees', totals.franchise],
+            ['Agent Share', totals.agent],
+            ['Business Share', totals.business],
+            ['Unpaid to Agents', totals.unpaid],
+          ] as [string, number][]
+        ).map(([label, value]) => (
+          <div key={label} className="bg-white p-4 rounded-lg shadow-md border border-blue-200 text-center">
+            <p className="text-xs text-gray-500">{label}</p>
+            <p className="text-lg font-bold text-blue-900">{formatCurrency(Math.round(value))}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-blue-200 overflow-x-auto">
+        {loading ? (
+          <div className="flex items-center text-blue-900">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" /> Loading ledger...
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-gray-500">No commission booked yet.</p>
+        ) : (
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="border-b border-blue-200 text-blue-900">
+                <th className="py-2 px-3">Property</th>
+                <th className="py-2 px-3">Settled</th>
+                <th className="py-2 px-3">Sale Price</th>
+                <th className="py-2 px-3">Rate</th>
+                <th className="py-2 px-3">Gross</th>
+                <th className="py-2 px-3">GST</th>
+                <th className="py-2 px-3">Conjunctional</th>
+                <th className="py-2 px-3">Franchise</th>
+                <th className="py-2 px-3">Agent</th>
+                <th className="py-2 px-3">Business</th>
+                <th className="py-2 px-3">Payout</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <Fragment key={entry.id}>
+                  <tr
+                    onClick={() => canManage && (editingId === entry.id ? setEditingId(null) : startEditing(entry))}
+                    className={`border-b border-blue-100 hover:bg-blue-50 ${canManage ? 'cursor-pointer' : ''}`}
+                  >
+                    <td className="py-2 px-3">
+                      {entryAddress(entry)}
+                      {entry.property?.agent_name && (
+                        <span className="block text-xs text-gray-500">{entry.property.agent_name}</span>
+                      )}
+                    </td>
+                    <td className="py-2 px-3">
+                      {entry.settlement_date ? moment(entry.settlement_date).format('DD/MM/YYYY') : 'N/A'}
+                    </td>
+                    <td className="py-2 px-3">{formatCurrency(Number(entry.sale_price))}</td>
+                    <td className="py-2 px-3">{Number(entry.commission_rate)}%</td>
+                    <td className="py-2 px-3">{formatCurrency(Number(entry.gross_commission))}</td>
+                    <td className="py-2 px-3">{formatCurrency(Number(entry.gst))}</td>
+                    <td className="py-2 px-3">
+                      {Number(entry.conjunctional_total) ? formatCurrency(Number(entry.conjunctional_total)) : '—'}
+                    </td>
+                    <td className="py-2 px-3">{formatCurrency(Number(entry.franchise_fee))}</td>
+                    <td className="py-2 px-3">
+                      {formatCurrency(Number(entry.agent_amount))}
+                      <span className="block text-xs text-gray-500">{Number(entry.agent_split_rate)}%</span>
+                    </td>
+                    <td className="py-2 px-3">{formatCurrency(Number(entry.business_amount))}</td>
+                    <td className="py-2 px-3" onClick={(e) => e.stopPropagation()}>
+                      {canManage ? (
+                        <select
+                          value={entry.payout_status}
+                          onChange={(e) => handlePayoutStatus(entry, e.target.value as PayoutStatus)}
+                          className={`px-2 py-1 rounded-full text-xs font-semibold ${PAYOUT_STYLES[entry.payout_status]}`}
+                        >
+                          {Object.entries(PAYOUT_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className={`px-2 py-1 rounded-full text-xs font-semibold ${PAYOUT_STYLES[entry.payout_status]}`}>
+                          {PAYOUT_LABELS[entry.payout_status]}
+                        </span>
+                      )}
+                      {entry.paid_at && (
+                        <span className="block text-xs text-gray-500 mt-1">{moment(entry.paid_at).format('DD/MM/YYYY')}</span>
+                      )}
+                    </td>
+                  </tr>
+                  {editingId === entry.id && terms && preview && (
+                    <tr className="bg-blue-50 border-b border-blue-200">
+                      <td colSpan={11} className="p-4">
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                          {numberInput('Sale Price', terms.salePrice, (salePrice) => setTerms({ ...terms, salePrice }), 1000)}
+                          {numberInput('Commission Rate % (inc GST)', terms.commissionRate, (commissionRate) =>
+                            setTerms({ ...terms, commissionRate })
+                          )}
+                          {numberInput('Franchise Fee %', terms.franchiseFeeRate, (franchiseFeeRate) =>
+                            setTerms({ ...terms, franchiseFeeRate })
+                          )}
+                          {numberInput('Agent Split %', terms.agentSplitRate, (agentSplitRate) =>
+                            setTerms({ ...terms, agentSplitRate })
+                          , 1)}
+                        </div>
+                        <h3 className="text-sm font-semibold text-blue-900 mb-2">Conjunctional Splits</h3>
+                        {terms.conjunctionals.map((split, index) => (
+                          <div key={index} className="flex flex-wrap items-end gap-3 mb-2">
+                            <input
+                              type="text"
+                              value={split.agency}
+                              placeholder="Agency"
+                              onChange={(e) =>
+                                setTerms({
+                                  ...terms,
+                                  conjunctionals: terms.conjunctionals.map((row, i) =>
+                                    i === index ? { ...row, agency: e.target.value } : row
+                                  ),
+                                })
+                              }
+                              className="px-2 py-1 border border-blue-200 rounded-md"
+                            />
+                            <input
+                              type="text"
+                              value={split.agent || ''}
+                              placeholder="Agent (optional)"
+                              onChange={(e) =>
+                                setTerms({
+                                  ...terms,
+                                  conjunctionals: terms.conjunctionals.map((row, i) =>
+                                    i === index ? { ...row, agent: e.target.value } : row
+                                  ),
+                                })
+                              }
+                              className="px-2 py-1 border border-blue-200 rounded-md"
+                            />
+                            <input
+                              type="number"
+                              min={0}
+                              max={100}
+                              value={split.share_percent}
+                              onChange={(e) =>
+                                setTerms({
+                                  ...terms,
+                                  conjunctionals: terms.conjunctionals.map((row, i) =>
+                                    i === index ? { ...row, share_percent: parseFloat(e.target.value) || 0 } : row
+                                  ),
+                                })
+                              }
+                              className="w-24 px-2 py-1 border border-blue-200 rounded-md"
+                            />
+                            <span className="text-sm text-gray-600">% = {formatCurrency(preview.conjunctionals[index]?.amount || 0)}</span>
+                            <button
+                              onClick={() =>
+                                setTerms({ ...terms, conjunctionals: terms.conjunctionals.filter((_, i) => i !== index) })
+                              }
+                              className="text-red-600 hover:text-red-700"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        ))}
+                        <button
+                          onClick={() =>
+                            setTerms({ ...terms, conjunctionals: [...terms.conjunctionals, { agency: '', agent: '', share_percent: 50 }] })
+                          }
+                          className="flex items-center text-sm text-blue-600 hover:text-blue-800 mb-4"
+                        >
+                          <Plus className="w-4 h-4 mr-1" /> Add conjunctional agency
+                        </button>
+                        <p className="text-sm text-gray-700 mb-3">
+                          Gross {formatCurrency(preview.grossCommission)} − GST {formatCurrency(preview.gst)} − conjunctional{' '}
+                          {formatCurrency(preview.conjunctionalTotal)} − franchise {formatCurrency(preview.franchiseFee)} = net{' '}
+                          {formatCurrency(preview.netCommission)} → agent {formatCurrency(preview.agentAmount)}, business{' '}
+                          {formatCurrency(preview.businessAmount)}
+                        </p>
+                        <div className="flex gap-3">
+                          <button
+                            onClick={handleSaveTerms}
+                            disabled={saving}
+                            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                          >
+                            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />} Save
+                          </button>
+                          <button
+                            onClick={() => setEditingId(null)}
+                            className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+      {isExportOpen && <ExportDialog spec={ledgerExportSpec()} onClose={() => setIsExportOpen(false)} />}
+    </div>
+  );
+}
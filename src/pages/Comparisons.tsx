@@ -4,46 +4,16 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { ArrowLeft, Loader2, RefreshCw, Moon, Sun, ChevronDown, ChevronUp, ChevronLeft, ChevronRight, Star, X } from 'lucide-react';
 import { toast } from 'react-toastify';
 import { supabase } from '../lib/supabase';
+import { fetchProperties } from '../api/properties';
 import { useAuthStore } from '../store/authStore';
-import { normalizeSuburb } from '../utils/subrubUtils';
+import { normalizeSuburb } from '../utils/gazetteer';
 import { ErrorBoundary } from 'react-error-boundary';
 import { Bar, Doughnut } from 'react-chartjs-2';
 import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, ArcElement, Title, Tooltip, Legend } from 'chart.js';
-import jsPDF from 'jspdf';
-// import autoTable from 'jspdf-autotable';
-import { utils, writeFile } from 'xlsx';
+import { ExportDialog } from '../components/ExportDialog';
+import { ExportSpec, exportTable } from '../utils/exporter';
+import { defineReport, downloadReport, reportDataUri } from '../utils/pdfReport';
 
-// Type extensions for jsPDF
-declare module 'jspdf' {
-  interface jsPDF {
-    autoTable: (options: AutoTableOptions) => jsPDF;
-    lastAutoTable?: { finalY: number };
-    getNumberOfPages(): number;
-    getCurrentPageInfo(): { pageNumber: number };
-  }
-}
-
-interface AutoTableOptions {
-  head: string[][];
-  body: string[][];
-  startY?: number;
-  theme?: string;
-  headStyles?: {
-    fillColor?: number[];
-    textColor?: number[];
-    font?: string;
-  };
-  bodyStyles?: {
-    fillColor?: number[];
-    textColor?: number[];
-    font?: string;
-  };
-  margin?: {
-    left?: number;
-    right?: number;
-  };
-  didDrawPage?: () => void;
-}
 // Register Chart.js components
 ChartJS.register(CategoryScale, LinearScale, BarElement, ArcElement, Title, Tooltip, Legend);
 
@@ -90,8 +60,8 @@ interface PropertyDetails {
   agent_name?: string;
   agency_name?: string;
   sold_date?: string;
-  latitude?: number;
-  longitude?: number;
+  latitude?: number | null; // cached by the geocoder; null when unresolved
+  longitude?: number | null;
   commission?: number;
 }
 
@@ -252,11 +222,124 @@ const AgencyCard: React.FC<AgencyCardProps> = ({ item, index, globalIndex, maxSo
   );
 };
 
-// // Extend jsPDF with autoTable
-// interface JsPDFWithAutoTable extends jsPDF {
-//   autoTable: (content: { head: string[][]; body: string[][] }, options?: any) => void;
-//   lastAutoTable: { finalY: number };
-// }
+interface ComparisonReportData {
+  metrics: ComparisonMetrics;
+  ourAgentName: string;
+  ourAgencyName: string;
+}
+
+// Agencies ranked in the PDF chart; the table below it has them all.
+const REPORT_CHART_AGENCIES = 10;
+
+const COMPARISON_REPORT = defineReport<ComparisonReportData>({
+  id: 'harcourts_success_comparison',
+  title: ({ ourAgencyName }) => `${ourAgencyName} Performance Comparison`,
+  fileName: () => 'Harcourts_Success_Comparison.pdf',
+  sections: ({ metrics, ourAgentName, ourAgencyName }) => {
+    const { harcourtsSuccess, streetComparison } = metrics;
+    const chartAgencies = metrics.agencyComparison.slice(0, REPORT_CHART_AGENCIES);
+    const ourSold = metrics.agencyComparison.find((item) => item.agency === ourAgencyName)?.soldCount || 0;
+    const totalSold = metrics.agencyComparison.reduce((sum, item) => sum + item.soldCount, 0);
+    return [
+      {
+        type: 'kpis',
+        items: [
+          { label: 'Total Listings', value: harcourtsSuccess.totalListings },
+          { label: 'Total Sold', value: harcourtsSuccess.totalSold },
+          { label: 'Top Agent', value: harcourtsSuccess.topAgent.name, note: `${harcourtsSuccess.topAgent.sales} sales` },
+        ],
+      },
+      {
+        type: 'facts',
+        title: `${ourAgencyName} Summary`,
+        facts: [
+          { label: 'Agents', value: harcourtsSuccess.agents.join(', ') || 'N/A' },
+          {
+            label: 'Most Active Street',
+            value: streetComparison
+              ? `${streetComparison.street} (${streetComparison.listedCount} listed, ${streetComparison.soldCount} sold)`
+              : 'N/A',
+          },
+        ],
+      },
+      {
+        type: 'chart',
+        title: 'Listings and Sales by Agency',
+        chart: {
+          type: 'bar',
+          data: {
+            labels: chartAgencies.map((item) => item.agency),
+            datasets: [
+              {
+                label: 'Properties Listed',
+                data: chartAgencies.map((item) => item.listedCount),
+                backgroundColor: chartAgencies.map((item) => (item.agency === ourAgencyName ? '#1E3A8A' : '#BFDBFE')),
+              },
+              {
+                label: 'Properties Sold',
+                data: chartAgencies.map((item) => item.soldCount),
+                backgroundColor: chartAgencies.map((item) => (item.agency === ourAgencyName ? '#3B82F6' : '#93C5FD')),
+              },
+            ],
+          },
+        },
+      },
+      ...(totalSold
+        ? [
+            {
+              type: 'chart' as const,
+              title: 'Share of Sales',
+              height: 60,
+              chart: {
+                type: 'doughnut' as const,
+                data: {
+                  labels: [ourAgencyName, 'Other Agencies'],
+                  datasets: [{ data: [ourSold, totalSold - ourSold], backgroundColor: ['#1E3A8A', '#BFDBFE'] }],
+                },
+              },
+            },
+          ]
+        : []),
+      {
+        type: 'table',
+        title: 'Agency Comparison',
+        head: ['Rank', 'Agency', 'Agents', 'Properties Listed', 'Properties Sold'],
+        rows: metrics.agencyComparison.map((item, index) => [
+          index + 1,
+          item.agency,
+          item.agents.join(', '),
+          item.listedCount,
+          item.soldCount,
+        ]),
+      },
+      {
+        type: 'table',
+        title: 'Agent Comparison',
+        head: ['Rank', 'Agent', 'Agency', 'Listings', 'Sales', 'Our Agent'],
+        rows: metrics.agentComparison.map((item, index) => [
+          index + 1,
+          item.agent,
+          item.agency,
+          item.listings,
+          item.sales,
+          item.agent === ourAgentName && item.agency === ourAgencyName ? 'Yes' : 'No',
+        ]),
+      },
+      {
+        type: 'table',
+        title: 'Suburb Comparison',
+        head: ['Rank', 'Suburb', 'Top Agency', 'Top Listings', 'Harcourts Listings'],
+        rows: metrics.suburbComparison.map((item, index) => [
+          index + 1,
+          item.suburb,
+          item.topAgency,
+          item.topListings,
+          item.harcourtsListings,
+        ]),
+      },
+    ];
+  },
+});
 
 // Main Component
 export function ComparisonReport() {
@@ -273,6 +356,7 @@ export function ComparisonReport() {
   const [currentPage, setCurrentPage] = useState(1);
   const [pdfPreviewUrl, setPdfPreviewUrl] = useState<string | null>(null);
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const itemsPerPage = 5;
   const { user } = useAuthStore((state: { user: User | null }) => ({ user: state.user }));
   const navigate = useNavigate();
@@ -292,15 +376,6 @@ export function ComparisonReport() {
     document.documentElement.classList.toggle('dark', isDark);
   }, [isDark]);
 
-  // Generate mock coordinates
-  const generateMockCoordinates = (suburb: string, streetName: string): { latitude: number; longitude: number } => {
-    const seed = (suburb + streetName).split('').reduce((sum, char) => sum + char.charCodeAt(0), 0);
-    return {
-      latitude: -33.8688 + (seed % 100) / 1000,
-      longitude: 151.2093 + (seed % 100) / 1000,
-    };
-  };
-
   // Fetch data
   const fetchData = useCallback(async () => {
     if (DEBUG) console.log('fetchData: Starting...');
@@ -332,8 +407,6 @@ export function ComparisonReport() {
                 suburb: normalizeSuburb(prop.suburb),
                 agent_name: prop.agent_name ?? 'Unknown',
                 agency_name: prop.agency_name ?? 'Unknown',
-                latitude: prop.latitude ?? generateMockCoordinates(prop.suburb, prop.street_name).latitude,
-                longitude: prop.longitude ?? generateMockCoordinates(prop.suburb, prop.street_name).longitude,
               } as PropertyDetails;
             } catch (err: any) {
               if (DEBUG) console.error(`fetchData: Error processing property[${index}]:`, err);
@@ -344,22 +417,13 @@ export function ComparisonReport() {
         if (DEBUG) console.log('fetchData: Normalized properties from state:', data.length);
       } else {
         if (DEBUG) console.warn('fetchData: No valid propertyMetrics, fetching from Supabase');
-        const { data: supabaseData, error: supabaseError } = await supabase
-          .from('properties')
-          .select('*, commission')
-          .order('created_at', { ascending: false });
-        if (DEBUG) console.log('fetchData: Supabase response:', {
-          dataLength: supabaseData?.length,
-          error: supabaseError,
-        });
-        if (supabaseError) {
-          throw new Error(`Supabase error: ${supabaseError.message}`);
-        }
-        if (!supabaseData || supabaseData.length === 0) {
+        const rows = await fetchProperties();
+        if (DEBUG) console.log('fetchData: Fetched properties:', rows.length);
+        if (rows.length === 0) {
           throw new Error('No properties found in database');
         }
-        data = supabaseData
-          .map((prop: PropertyDetails, index: number) => {
+        data = rows
+          .map((prop, index) => {
             if (DEBUG) console.log(`fetchData: Processing Supabase property[${index}]:`, prop.id || 'No ID');
             try {
               if (!prop.id || !prop.suburb || !prop.street_name || !prop.street_number || !prop.postcode || !prop.category) {
@@ -371,8 +435,6 @@ export function ComparisonReport() {
                 suburb: normalizeSuburb(prop.suburb),
                 agent_name: prop.agent_name ?? 'Unknown',
                 agency_name: prop.agency_name ?? 'Unknown',
-                latitude: prop.latitude ?? generateMockCoordinates(prop.suburb, prop.street_name).latitude,
-                longitude: prop.longitude ?? generateMockCoordinates(prop.suburb, prop.street_name).longitude,
               } as PropertyDetails;
             } catch (err: any) {
               if (DEBUG) console.error(`fetchData: Error processing Supabase property[${index}]:`, err);
@@ -624,202 +686,85 @@ export function ComparisonReport() {
     };
   }, [comparisonMetrics, ourAgencyName]);
 
-  // Generate PDF (used for both export and preview)
-  const generatePDF = () => {
-    if (!comparisonMetrics) return null;
-    const doc = new jsPDF() as JsPDFWithAutoTable;
-    const totalPages = doc.internal.getNumberOfPages();
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const pageHeight = doc.internal.pageSize.getHeight();
-
-    // Defining addFooter function to add consistent pagination
-    const addFooter = (page: number) => {
-      doc.setPage(page);
-      doc.setFillColor(191, 219, 254); // #BFDBFE
-      doc.circle(pageWidth - 20, pageHeight - 15, 10, 'F'); // Circular badge
-      doc.setFontSize(10);
-      doc.setTextColor(30, 64, 175); // #1E3A8A
-      doc.setFont('Inter', 'normal');
-      doc.text(`Page ${page} of ${totalPages}`, pageWidth - 20, pageHeight - 15, { align: 'center' });
-      // Add subtle divider line
-      doc.setDrawColor(147, 197, 253); // #93C5FD
-      doc.setLineWidth(0.5);
-      doc.line(20, pageHeight - 25, pageWidth - 20, pageHeight - 25);
-    };
-
-    // Setting up document properties
-    doc.setFont('Inter', 'normal');
-    doc.setFontSize(16);
-    doc.setTextColor(30, 64, 175); // Blue #1E3A8A
-    doc.text('Harcourts Success Performance Comparison', 20, 20);
-
-    // Harcourts Success Summary
-    doc.setFontSize(14);
-    doc.text('Harcourts Success Summary', 20, 30);
-    doc.autoTable({
-      head: [['Metric', 'Value']],
-      body: [
-        ['Total Listings', comparisonMetrics.harcourtsSuccess.totalListings.toString()],
-        ['Total Sold', comparisonMetrics.harcourtsSuccess.totalSold.toString()],
-        ['Agents', comparisonMetrics.harcourtsSuccess.agents.join(', ')],
-        ['Top Agent', `${comparisonMetrics.harcourtsSuccess.topAgent.name} (${comparisonMetrics.harcourtsSuccess.topAgent.sales} sales)`],
-        ['Most Active Street', `${comparisonMetrics.streetComparison.street} (${comparisonMetrics.streetComparison.listedCount} listed, ${comparisonMetrics.streetComparison.soldCount} sold)`],
-      ],
-      startY: 35,
-      theme: 'striped',
-      headStyles: { fillColor: [30, 64, 175], textColor: [255, 255, 255], font: 'Inter' },
-      bodyStyles: { fillColor: [191, 219, 254], textColor: [30, 64, 175], font: 'Inter' },
-      margin: { left: 20, right: 20 },
-    });
-
-    // Add section divider
-    doc.setDrawColor(59, 130, 246); // #3B82F6
-    doc.setLineWidth(1);
-    doc.line(20, doc.lastAutoTable.finalY + 5, pageWidth - 20, doc.lastAutoTable.finalY + 5);
-
-    // Agency Comparison
-    doc.setFontSize(14);
-    doc.text('Agency Comparison', 20, doc.lastAutoTable.finalY + 15);
-    doc.autoTable({
-      head: [['Rank', 'Agency', 'Agents', 'Properties Listed', 'Properties Sold']],
-      body: comparisonMetrics.agencyComparison.map((item, index) => [
-        (index + 1).toString(),
-        item.agency,
-        item.agents.join(', '),
-        item.listedCount.toString(),
-        item.soldCount.toString(),
-      ]),
-      startY: doc.lastAutoTable.finalY + 20,
-      theme: 'striped',
-      headStyles: { fillColor: [30, 64, 175], textColor: [255, 255, 255], font: 'Inter' },
-      bodyStyles: { fillColor: [191, 219, 254], textColor: [30, 64, 175], font: 'Inter' },
-      margin: { left: 20, right: 20 },
-      didDrawPage: () => {
-        addFooter(doc.internal.getCurrentPageInfo().pageNumber);
-      },
-    });
-
-    // Add section divider
-    doc.setDrawColor(59, 130, 246);
-    doc.setLineWidth(1);
-    doc.line(20, doc.lastAutoTable.finalY + 5, pageWidth - 20, doc.lastAutoTable.finalY + 5);
-
-    // Agent Comparison
-    doc.setFontSize(14);
-    doc.text('Agent Comparison', 20, doc.lastAutoTable.finalY + 15);
-    doc.autoTable({
-      head: [['Rank', 'Agent', 'Agency', 'Listings', 'Sales', 'Our Agent']],
-      body: comparisonMetrics.agentComparison.map((item, index) => [
-        (index + 1).toString(),
-        item.agent,
-        item.agency,
-        item.listings.toString(),
-        item.sales.toString(),
-        item.agent === ourAgentName && item.agency === ourAgencyName ? 'Yes' : 'No',
-      ]),
-      startY: doc.lastAutoTable.finalY + 20,
-      theme: 'striped',
-      headStyles: { fillColor: [30, 64, 175], textColor: [255, 255, 255], font: 'Inter' },
-      bodyStyles: { fillColor: [191, 219, 254], textColor: [30, 64, 175], font: 'Inter' },
-      margin: { left: 20, right: 20 },
-      didDrawPage: () => {
-        addFooter(doc.internal.getCurrentPageInfo().pageNumber);
-      },
-    });
-
-    // Add section divider
-    doc.setDrawColor(59, 130, 246);
-    doc.setLineWidth(1);
-    doc.line(20, doc.lastAutoTable.finalY + 5, pageWidth - 20, doc.lastAutoTable.finalY + 5);
-
-    // Suburb Comparison
-    doc.setFontSize(14);
-    doc.text('Suburb Comparison', 20, doc.lastAutoTable.finalY + 15);
-    doc.autoTable({
-      head: [['Rank', 'Suburb', 'Top Agency', 'Top Listings', 'Harcourts Listings']],
-      body: comparisonMetrics.suburbComparison.map((item, index) => [
-        (index + 1).toString(),
-        item.suburb,
-        item.topAgency,
-        item.topListings.toString(),
-        item.harcourtsListings.toString(),
-      ]),
-      startY: doc.lastAutoTable.finalY + 20,
-      theme: 'striped',
-      headStyles: { fillColor: [30, 64, 175], textColor: [255, 255, 255], font: 'Inter' },
-      bodyStyles: { fillColor: [191, 219, 254], textColor: [30, 64, 175], font: 'Inter' },
-      margin: { left: 20, right: 20 },
-      didDrawPage: () => {
-        addFooter(doc.internal.getCurrentPageInfo().pageNumber);
-      },
-    });
-
-    // Ensure footer is added to all pages
-    for (let i = 1; i <= totalPages; i++) {
-      addFooter(i);
-    }
-
-    return doc;
-  };
-
   // Export to PDF
-  const exportToPDF = () => {
-    const doc = generatePDF();
-    if (doc) {
-      doc.save('Harcourts_Success_Comparison.pdf');
+  const exportToPDF = async () => {
+    if (!comparisonMetrics) return;
+    try {
+      await downloadReport(COMPARISON_REPORT, { metrics: comparisonMetrics, ourAgentName, ourAgencyName });
+    } catch (err) {
+      console.error('exportToPDF error:', err);
+      toast.error('Failed to generate PDF');
     }
   };
 
   // Preview PDF
-  const previewPDF = () => {
-    const doc = generatePDF();
-    if (doc) {
-      const pdfUrl = doc.output('datauristring');
-      setPdfPreviewUrl(pdfUrl);
+  const previewPDF = async () => {
+    if (!comparisonMetrics) return;
+    try {
+      setPdfPreviewUrl(await reportDataUri(COMPARISON_REPORT, { metrics: comparisonMetrics, ourAgentName, ourAgencyName }));
       setIsPreviewOpen(true);
       if (DEBUG) console.log('previewPDF: Generated PDF URL for preview');
+    } catch (err) {
+      console.error('previewPDF error:', err);
+      toast.error('Failed to generate PDF');
     }
   };
 
-  // Export to CSV
-  const exportToCSV = () => {
-    if (!comparisonMetrics) return;
-    const ws = utils.json_to_sheet([
-      { Metric: 'Total Listings', Value: comparisonMetrics.harcourtsSuccess.totalListings },
-      { Metric: 'Total Sold', Value: comparisonMetrics.harcourtsSuccess.totalSold },
-      { Metric: 'Agents', Value: comparisonMetrics.harcourtsSuccess.agents.join(', ') },
-      { Metric: 'Top Agent', Value: `${comparisonMetrics.harcourtsSuccess.topAgent.name} (${comparisonMetrics.harcourtsSuccess.topAgent.sales} sales)` },
-      { Metric: 'Most Active Street', Value: `${comparisonMetrics.streetComparison.street} (${comparisonMetrics.streetComparison.listedCount} listed, ${comparisonMetrics.streetComparison.soldCount} sold)` },
-      {},
-      ...comparisonMetrics.agencyComparison.map((item, index) => ({
-        Rank: index + 1,
-        Agency: item.agency,
-        Agents: item.agents.join(', '),
-        'Properties Listed': item.listedCount,
-        'Properties Sold': item.soldCount,
-      })),
-      {},
-      ...comparisonMetrics.agentComparison.map((item, index) => ({
-        Rank: index + 1,
-        Agent: item.agent,
-        Agency: item.agency,
-        Listings: item.listings,
-        Sales: item.sales,
-        'Our Agent': item.agent === ourAgentName && item.agency === ourAgencyName ? 'Yes' : 'No',
-      })),
-      {},
-      ...comparisonMetrics.suburbComparison.map((item, index) => ({
-        Rank: index + 1,
-        Suburb: item.suburb,
-        'Top Agency': item.topAgency,
-        'Top Listings': item.topListings,
-        'Harcourts Listings': item.harcourtsListings,
-      })),
-    ]);
-    const wb = utils.book_new();
-    utils.book_append_sheet(wb, ws, 'Harcourts_Success');
-    writeFile(wb, 'Harcourts_Success_Comparison.csv');
-  };
+  // Export the comparison tables
+  const comparisonExportSpec = (metrics: ComparisonMetrics): ExportSpec => ({
+    id: 'harcourts_success_comparison',
+    title: 'Harcourts Success Comparison',
+    summary: [
+      { label: 'Total Listings', value: metrics.harcourtsSuccess.totalListings },
+      { label: 'Total Sold', value: metrics.harcourtsSuccess.totalSold },
+      { label: 'Agents', value: metrics.harcourtsSuccess.agents.join(', ') },
+      { label: 'Top Agent', value: `${metrics.harcourtsSuccess.topAgent.name} (${metrics.harcourtsSuccess.topAgent.sales} sales)` },
+      {
+        label: 'Most Active Street',
+        value: `${metrics.streetComparison.street} (${metrics.streetComparison.listedCount} listed, ${metrics.streetComparison.soldCount} sold)`,
+      },
+    ],
+    tables: [
+      exportTable({
+        name: 'Agencies',
+        rows: metrics.agencyComparison,
+        columns: [
+          { key: 'rank', label: 'Rank', value: (item) => metrics.agencyComparison.indexOf(item) + 1 },
+          { key: 'agency', label: 'Agency', value: (item) => item.agency },
+          { key: 'agents', label: 'Agents', value: (item) => item.agents.join(', ') },
+          { key: 'listed', label: 'Properties Listed', value: (item) => item.listedCount },
+          { key: 'sold', label: 'Properties Sold', value: (item) => item.soldCount },
+        ],
+      }),
+      exportTable({
+        name: 'Agents',
+        rows: metrics.agentComparison,
+        columns: [
+          { key: 'rank', label: 'Rank', value: (item) => metrics.agentComparison.indexOf(item) + 1 },
+          { key: 'agent', label: 'Agent', value: (item) => item.agent },
+          { key: 'agency', label: 'Agency', value: (item) => item.agency },
+          { key: 'listings', label: 'Listings', value: (item) => item.listings },
+          { key: 'sales', label: 'Sales', value: (item) => item.sales },
+          {
+            key: 'our_agent',
+            label: 'Our Agent',
+            value: (item) => (item.agent === ourAgentName && item.agency === ourAgencyName ? 'Yes' : 'No'),
+          },
+        ],
+      }),
+      exportTable({
+        name: 'Suburbs',
+        rows: metrics.suburbComparison,
+        columns: [
+          { key: 'rank', label: 'Rank', value: (item) => metrics.suburbComparison.indexOf(item) + 1 },
+          { key: 'suburb', label: 'Suburb', value: (item) => item.suburb },
+          { key: 'top_agency', label: 'Top Agency', value: (item) => item.topAgency },
+          { key: 'top_listings', label: 'Top Listings', value: (item) => item.topListings },
+          { key: 'harcourts_listings', label: 'Harcourts Listings', value: (item) => item.harcourtsListings },
+        ],
+      }),
+    ],
+  });
 
   // Log state before render
   if (DEBUG) {
@@ -876,6 +821,9 @@ export function ComparisonReport() {
           </div>
         ) : (
           <div className="max-w-7xl mx-auto">
+            {isExportOpen && comparisonMetrics && (
+              <ExportDialog spec={comparisonExportSpec(comparisonMetrics)} onClose={() => setIsExportOpen(false)} />
+            )}
             {/* PDF Preview Modal */}
             <AnimatePresence>
               {isPreviewOpen && pdfPreviewUrl && (
@@ -1219,11 +1167,11 @@ export function ComparisonReport() {
                       Export PDF
                     </button>
                     <button
-                      onClick={exportToCSV}
+                      onClick={() => setIsExportOpen(true)}
                       className="px-4 py-2 bg-[#3B82F6] text-white rounded-md hover:bg-[#BFDBFE] hover:text-[#1E3A8A] transition-colors"
-                      aria-label="Export to CSV"
+                      aria-label="Export tables"
                     >
-                      Export CSV
+                      Export Tables
                     </button>
                   </div>
                 </div>
@@ -1,8 +1,14 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { supabase } from '../lib/supabase';
+import { fetchContacts as fetchContactRows } from '../api/contacts';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Plus, Check, Upload } from 'lucide-react';
-import * as XLSX from 'xlsx';
+import { commitImportBatches, dryRunImportRows } from '../api/imports';
+import { ImportColumn, ImportDecisions, ImportDedupePreview } from '../components/ImportDedupePreview';
+import { ImportWizard, ImportWizardResult } from '../components/ImportWizard';
+import { buildImportPreview, ImportCandidate, ImportPreviewRow } from '../utils/dedupe';
+import { ImportRow, importText } from '../utils/importer';
+import { IMPORT_SOURCES, suburbContactFields } from '../utils/importFields';
 
 interface Contact {
   id?: string;
@@ -18,6 +24,38 @@ interface StreetStats {
   street_name: string;
 }
 
+interface PendingImport {
+  rows: ImportPreviewRow[];
+  contacts: Record<string, Omit<Contact, 'id'>>;
+  fileName: string;
+  rollbackOnError: boolean;
+}
+
+const IMPORT_COLUMNS: ImportColumn[] = [
+  { key: 'first_name', label: 'First name' },
+  { key: 'last_name', label: 'Last name' },
+  { key: 'email', label: 'Email' },
+  { key: 'phone_number', label: 'Phone' },
+  { key: 'street_name', label: 'Street' },
+];
+
+const toCandidate = (key: string, contact: Contact): ImportCandidate => ({
+  key,
+  record: {
+    id: key,
+    names: [`${contact.first_name} ${contact.last_name}`],
+    phones: [contact.phone_number],
+    emails: [contact.email],
+  },
+  fields: {
+    first_name: contact.first_name,
+    last_name: contact.last_name,
+    email: contact.email,
+    phone_number: contact.phone_number,
+    street_name: contact.street_name,
+  },
+});
+
 interface ContactPageProps {
   suburb: string | null;
   streetStats: StreetStats[];
@@ -38,6 +76,9 @@ export function ContactPage({ suburb, streetStats }: ContactPageProps) {
   const [success, setSuccess] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [selectedStreet, setSelectedStreet] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const importFields = useMemo(() => suburbContactFields(streetStats.map((street) => street.street_name)), [streetStats]);
 
   useEffect(() => {
     fetchContacts();
@@ -50,15 +91,18 @@ export function ContactPage({ suburb, streetStats }: ContactPageProps) {
     }
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('contacts')
-        .select('id, first_name, last_name, email, phone_number, street_name, suburb')
-        .ilike('suburb', `%${suburb.toLowerCase().split(' qld')[0]}%`);
-      if (error) {
-        console.error('Fetch error:', error);
-        throw new Error(`Failed to fetch contacts: ${error.message} (Code: ${error.code}, Details: ${error.details})`);
-      }
-      setContacts(data || []);
+      const data = await fetchContactRows({ suburb });
+      setContacts(
+        data.map((contact) => ({
+          id: contact.id,
+          first_name: contact.first_name || '',
+          last_name: contact.last_name || '',
+          email: contact.email || '',
+          phone_number: contact.phone_number || '',
+          street_name: contact.street_name,
+          suburb: contact.suburb,
+        }))
+      );
       setError(null);
     } catch (err: any) {
       setError(`Error fetching contacts: ${err.message}`);
@@ -115,85 +159,75 @@ export function ContactPage({ suburb, streetStats }: ContactPageProps) {
     }
   };
 
-  const handleExcelUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) {
-      setError('No file selected');
-      return;
-    }
+  const toContact = ({ values }: ImportRow): Omit<Contact, 'id'> & { status: string } => ({
+    first_name: importText(values, 'first_name'),
+    last_name: importText(values, 'last_name'),
+    email: importText(values, 'email'),
+    phone_number: importText(values, 'phone_number'),
+    street_name: importText(values, 'street_name') || null,
+    suburb,
+    status: 'Inprogress',
+  });
+
+  const openImport = () => {
     if (!suburb) {
       setError('Please select a suburb before uploading');
       return;
     }
+    setIsImportOpen(true);
+  };
 
+  // The wizard hands over valid rows only; duplicates are checked next.
+  const handleImportRows = ({ rows, fileName, rollbackOnError }: ImportWizardResult) => {
+    const validContacts = rows.map(toContact);
+    const incoming = validContacts.map((contact, index) => toCandidate(`row-${index}`, contact));
+    setPendingImport({
+      rows: buildImportPreview(
+        incoming,
+        contacts.filter((contact) => contact.id).map((contact) => toCandidate(contact.id!, contact))
+      ),
+      contacts: Object.fromEntries(incoming.map((candidate, index) => [candidate.key, validContacts[index]])),
+      fileName,
+      rollbackOnError,
+    });
+    setIsImportOpen(false);
+  };
+
+  // Runs once the duplicate preview is confirmed.
+  const commitImport = async ({ insert, update, skipped }: ImportDecisions) => {
+    if (!pendingImport) return;
     setLoading(true);
     try {
-      const reader = new FileReader();
-      reader.onload = async (event) => {
-        const data = new Uint8Array(event.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const jsonData: any[] = XLSX.utils.sheet_to_json(worksheet);
-
-        const validContacts: any[] = [];
-        const invalidRows: number[] = [];
-
-        jsonData.forEach((row: any, index: number) => {
-          const contact = {
-            first_name: row['First Name']?.toString().trim() || '',
-            last_name: row['Last Name']?.toString().trim() || '',
-            email: row['Email']?.toString().trim() || '',
-            phone_number: row['Phone Number']?.toString().trim() || '',
-            street_name: row['Street Name']?.toString().trim() || null,
-            suburb,
-            status: 'Inprogress',
-          };
-
-          if (
-            contact.first_name &&
-            contact.last_name &&
-            contact.email &&
-            contact.phone_number &&
-            contact.street_name &&
-            streetStats.some((street) => street.street_name === contact.street_name)
-          ) {
-            validContacts.push(contact);
-          } else {
-            invalidRows.push(index + 2);
-          }
+      let imported = 0;
+      if (insert.length) {
+        const { inserted, error } = await commitImportBatches({
+          source: IMPORT_SOURCES.suburbContacts,
+          table: 'contacts',
+          fileName: pendingImport.fileName,
+          records: insert.map((key) => pendingImport.contacts[key]),
+          rollbackOnError: pendingImport.rollbackOnError,
         });
-
-        if (validContacts.length === 0) {
-          setError('No valid contacts found in the Excel file. Ensure columns are named "First Name", "Last Name", "Email", "Phone Number", and "Street Name".');
-          setLoading(false);
-          return;
-        }
-
-        try {
-          const { data, error } = await supabase
-            .from('contacts')
-            .insert(validContacts)
-            .select();
-          if (error) {
-            console.error('Supabase error:', error);
-            throw new Error(`Failed to import contacts: ${error.message} (Code: ${error.code}, Details: ${error.details})`);
-          }
-          setContacts([...contacts, ...data]);
-          setSuccess(`Successfully imported ${data.length} contacts${invalidRows.length > 0 ? `. Invalid rows: ${invalidRows.join(', ')}` : ''}`);
-          setError(null);
-          setTimeout(() => setSuccess(null), 3000);
-        } catch (err: any) {
-          setError(`Error importing contacts: ${err.message}`);
-          console.error('Bulk insert error:', err);
-        } finally {
-          setLoading(false);
+        if (error) {
+          await fetchContacts();
+          throw new Error(
+            pendingImport.rollbackOnError ? `${error}. Nothing was imported.` : `${error}. ${inserted.length} contacts were imported before it.`
+          );
         }
-      };
-      reader.readAsArrayBuffer(file);
+        imported = inserted.length;
+      }
+      for (const { id, changes } of update) {
+        const { error } = await supabase.from('contacts').update(changes).eq('id', id);
+        if (error) throw new Error(`Failed to update contact: ${error.message}`);
+      }
+      await fetchContacts();
+      setPendingImport(null);
+      setSuccess(`Imported ${imported} contacts, updated ${update.length}, skipped ${skipped} duplicates`);
+      setError(null);
+      setTimeout(() => setSuccess(null), 3000);
     } catch (err: any) {
-      setError(`Error processing file: ${err.message}`);
-      console.error('File processing error:', err);
+      setError(`Error importing contacts: ${err.message}`);
+      console.error('Bulk insert error:', err);
+    } finally {
       setLoading(false);
     }
   };
@@ -293,21 +327,10 @@ export function ContactPage({ suburb, streetStats }: ContactPageProps) {
       <div className="mb-6">
         <h3 className="text-lg font-semibold text-gray-800 mb-3">Import Contacts from Excel</h3>
         <p className="text-sm text-gray-600 mb-2">
-          Upload an Excel file with columns: First Name, Last Name, Email, Phone Number, Street Name
+          Upload a CSV or Excel file with first name, last name, email, phone number and street name columns
         </p>
-        <input
-          type="file"
-          accept=".xlsx, .xls"
-          onChange={handleExcelUpload}
-          disabled={loading}
-          className="p-3 border border-gray-200 rounded-lg bg-gray-50 text-sm w-full"
-          aria-label="Upload Excel file"
-        />
         <motion.button
-          onClick={() => {
-            const fileInput = document.querySelector('input[type="file"]') as HTMLInputElement;
-            fileInput.click();
-          }}
+          onClick={openImport}
           disabled={loading}
           className={`mt-2 flex items-center justify-center px-4 py-2 rounded-lg text-white ${
             loading ? 'bg-gray-400' : 'bg-indigo-600 hover:bg-indigo-700'
@@ -315,7 +338,7 @@ export function ContactPage({ suburb, streetStats }: ContactPageProps) {
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
         >
-          <Upload className="w-5 h-5 mr-2" /> Upload Excel
+          <Upload className="w-5 h-5 mr-2" /> Import Spreadsheet
         </motion.button>
       </div>
       <AnimatePresence>
@@ -418,6 +441,27 @@ export function ContactPage({ suburb, streetStats }: ContactPageProps) {
           </div>
         )}
       </div>
+      {isImportOpen && (
+        <ImportWizard
+          title="Import Contacts"
+          source={IMPORT_SOURCES.suburbContacts}
+          fields={importFields}
+          dryRun={(rows) => dryRunImportRows('contacts', rows, toContact)}
+          showHistory
+          submitLabel="Check duplicates for"
+          onSubmit={handleImportRows}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+      {pendingImport && (
+        <ImportDedupePreview
+          title="Check for duplicate contacts"
+          columns={IMPORT_COLUMNS}
+          rows={pendingImport.rows}
+          onCommit={commitImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
     </motion.div>
   );
 }
\ No newline at end of file
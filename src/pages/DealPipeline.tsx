@@ -0,0 +1,406 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import moment from 'moment';
+import { ArrowDown, ArrowUp, Kanban, Loader2, Plus, Settings } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { useAuthStore, usePermissions } from '../store/authStore';
+import { fetchAgents } from '../api/agents';
+import {
+  DealWithProperty,
+  createPipelineStage,
+  fetchDealHistory,
+  fetchDeals,
+  fetchPipelineStages,
+  moveDeal,
+  updatePipelineStage,
+} from '../api/pipeline';
+import { DealStageHistoryRow, PipelineStageRow, StageCategory } from '../types/database';
+import { Agent } from '../types/agent';
+import { EMPTY_PIPELINE_METRICS, STAGE_CATEGORY_LABELS, computePipelineMetrics } from '../utils/pipeline';
+import { formatCurrency } from '../utils/formatters';
+import { normalizeSuburb } from '../utils/gazetteer';
+
+// Tailwind only ships classes it can see, so stage colours map to fixed class sets.
+const STAGE_COLORS: Record<string, string> = {
+  blue: 'border-blue-400 bg-blue-50',
+  indigo: 'border-indigo-400 bg-indigo-50',
+  purple: 'border-purple-400 bg-purple-50',
+  yellow: 'border-yellow-400 bg-yellow-50',
+  orange: 'border-orange-400 bg-orange-50',
+  green: 'border-green-400 bg-green-50',
+  red: 'border-red-400 bg-red-50',
+  gray: 'border-gray-400 bg-gray-50',
+};
+
+const stageColor = (stage: PipelineStageRow) => STAGE_COLORS[stage.color || 'gray'] || STAGE_COLORS.gray;
+
+const dealAddress = (deal: DealWithProperty) =>
+  deal.property
+    ? `${deal.property.street_number || ''} ${deal.property.street_name || ''}, ${normalizeSuburb(deal.property.suburb)}`.trim()
+    : 'Unknown property';
+
+const METRICS_WINDOW_MONTHS = 12;
+
+export function DealPipeline() {
+  const navigate = useNavigate();
+  const { profile } = useAuthStore();
+  const { can } = usePermissions();
+  const officeWide = can('properties.edit_any');
+  const canManageStages = can('pipeline.manage');
+  const [stages, setStages] = useState<PipelineStageRow[]>([]);
+  const [deals, setDeals] = useState<DealWithProperty[]>([]);
+  const [history, setHistory] = useState<DealStageHistoryRow[]>([]);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [agentId, setAgentId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [draggedDealId, setDraggedDealId] = useState<string | null>(null);
+  const [expandedDealId, setExpandedDealId] = useState<string | null>(null);
+  const [showStageSettings, setShowStageSettings] = useState(false);
+  const [newStage, setNewStage] = useState<{ name: string; category: StageCategory; color: string }>({
+    name: '',
+    category: 'written',
+    color: 'purple',
+  });
+
+  const profileId = profile?.id;
+  const boardAgentId = officeWide ? agentId : profileId;
+
+  const refresh = useCallback(async () => {
+    if (!profileId) return;
+    try {
+      const [stageRows, dealRows] = await Promise.all([
+        fetchPipelineStages(true),
+        fetchDeals(boardAgentId ? { agentId: boardAgentId } : {}),
+      ]);
+      setStages(stageRows);
+      setDeals(dealRows);
+      setHistory(await fetchDealHistory(dealRows.map((deal) => deal.id)));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load pipeline');
+    } finally {
+      setLoading(false);
+    }
+  }, [profileId, boardAgentId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (officeWide) {
+      fetchAgents()
+        .then(setAgents)
+        .catch((err) => console.error('Failed to load agents:', err));
+    }
+  }, [officeWide]);
+
+  const activeStages = useMemo(() => stages.filter((stage) => stage.is_active), [stages]);
+  const stageNames = useMemo(() => new Map(stages.map((stage) => [stage.id, stage.name])), [stages]);
+
+  const metrics = useMemo(() => {
+    const since = moment().subtract(METRICS_WINDOW_MONTHS, 'months');
+    const cohort = deals.filter((deal) => moment(deal.created_at).isAfter(since));
+    return cohort.length ? computePipelineMetrics(cohort, history, stages) : EMPTY_PIPELINE_METRICS;
+  }, [deals, history, stages]);
+
+  const handleMove = async (deal: DealWithProperty, stageId: string) => {
+    if (deal.stage_id === stageId) return;
+    try {
+      const updated = await moveDeal(deal.id, stageId);
+      setDeals((prev) => prev.map((row) => (row.id === updated.id ? { ...row, ...updated } : row)));
+      setHistory(await fetchDealHistory(deals.map((row) => row.id)));
+      toast.success(`Moved to ${stageNames.get(stageId)}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to move deal');
+    }
+  };
+
+  const handleDrop = (stageId: string) => {
+    const deal = deals.find((row) => row.id === draggedDealId);
+    setDraggedDealId(null);
+    if (deal) handleMove(deal, stageId);
+  };
+
+  const handleStageChange = async (stage: PipelineStageRow, changes: Partial<PipelineStageRow>) => {
+    try {
+      const updated = await updatePipelineStage(stage.id, changes);
+      setStages((prev) => prev.map((row) => (row.id === updated.id ? updated : row)));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update stage');
+    }
+  };
+
+  const handleReorder = async (stage: PipelineStageRow, direction: -1 | 1) => {
+    const index = stages.findIndex((row) => row.id === stage.id);
+    const neighbour = stages[index + direction];
+    if (!neighbour) return;
+    await handleStageChange(stage, { position: neighbour.position });
+    await handleStageChange(neighbour, { position: stage.position });
+    setStages((prev) => [...prev].sort((a, b) => a.position - b.position));
+  };
+
+  const handleAddStage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newStage.name.trim()) return toast.error('Stage name is required');
+    try {
+      const created = await createPipelineStage({
+        name: newStage.name.trim(),
+        category: newStage.category,
+        color: newStage.color,
+        position: Math.max(0, ...stages.map((stage) => stage.position)) + 1,
+      });
+      setStages((prev) => [...prev, created]);
+      setNewStage({ ...newStage, name: '' });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to add stage');
+    }
+  };
+
+  return (
+    <div className="max-w-full mx-auto p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h1 className="text-3xl font-bold text-blue-900 flex items-center">
+          <Kanban className="w-7 h-7 mr-2 text-blue-300" /> Deal Pipeline
+        </h1>
+        <div className="flex items-center gap-3">
+          {officeWide && (
+            <select
+              value={agentId}
+              onChange={(e) => setAgentId(e.target.value)}
+              className="px-3 py-2 border border-blue-200 rounded-md"
+            >
+              <option value="">All agents</option>
+              {agents.map((agent) => (
+                <option key={agent.id} value={agent.id}>
+                  {agent.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {canManageStages && (
+            <button
+              onClick={() => setShowStageSettings(!showStageSettings)}
+              className="flex items-center px-4 py-2 bg-white border border-blue-200 text-blue-900 rounded-full hover:bg-blue-50"
+            >
+              <Settings className="w-4 h-4 mr-2" /> Stages
+            </button>
+          )}
+          <motion.button
+            onClick={() => navigate(can('admin.access') ? '/admin-dashboard' : '/agent-dashboard')}
+            className="px-4 py-2 bg-blue-300 text-white rounded-full hover:bg-blue-400 shadow-md"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            Back to Dashboard
+          </motion.button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-6">
+        {(
+          [
+            ['Listings', metrics.listings],
+            ['Written', metrics.written],
+            ['Settled', metrics.settled],
+            ['Fallen Over', metrics.fallenOver],
+            ['Listing → Written', metrics.listingToWrittenRatio != null ? `${metrics.listingToWrittenRatio}%` : 'N/A'],
+            ['Fall Over Rate', metrics.fallOverRate != null ? `${metrics.fallOverRate}%` : 'N/A'],
+          ] as [string, number | string][]
+        ).map(([label, value]) => (
+          <div key={label} className="bg-white p-4 rounded-lg shadow-md border border-blue-200 text-center">
+            <p className="text-sm text-gray-500">{label}</p>
+            <p className="text-2xl font-bold text-blue-900">{value}</p>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mb-6">Ratios cover deals listed in the last {METRICS_WINDOW_MONTHS} months.</p>
+
+      {canManageStages && showStageSettings && (
+        <div className="bg-white p-6 rounded-lg shadow-md border border-blue-200 mb-6">
+          <h2 className="text-xl font-semibold text-blue-900 mb-4">Pipeline Stages</h2>
+          <table className="w-full text-left text-sm mb-4">
+            <thead>
+              <tr className="border-b border-blue-200">
+                <th className="py-2 px-3 text-blue-900">Order</th>
+                <th className="py-2 px-3 text-blue-900">Name</th>
+                <th className="py-2 px-3 text-blue-900">Counts As</th>
+                <th className="py-2 px-3 text-blue-900">Colour</th>
+                <th className="py-2 px-3 text-blue-900">Active</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stages.map((stage, index) => (
+                <tr key={stage.id} className="border-b border-blue-100">
+                  <td className="py-2 px-3">
+                    <button disabled={index === 0} onClick={() => handleReorder(stage, -1)} className="disabled:opacity-30">
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      disabled={index === stages.length - 1}
+                      onClick={() => handleReorder(stage, 1)}
+                      className="disabled:opacity-30"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                  </td>
+                  <td className="py-2 px-3">
+                    <input
+                      type="text"
+                      defaultValue={stage.name}
+                      onBlur={(e) => e.target.value.trim() && e.target.value !== stage.name && handleStageChange(stage, { name: e.target.value.trim() })}
+                      className="px-2 py-1 border border-blue-200 rounded-md"
+                    />
+                  </td>
+                  <td className="py-2 px-3">
+                    <select
+                      value={stage.category}
+                      onChange={(e) => handleStageChange(stage, { category: e.target.value as StageCategory })}
+                      className="px-2 py-1 border border-blue-200 rounded-md"
+                    >
+                      {Object.entries(STAGE_CATEGORY_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-2 px-3">
+                    <select
+                      value={stage.color || 'gray'}
+                      onChange={(e) => handleStageChange(stage, { color: e.target.value })}
+                      className="px-2 py-1 border border-blue-200 rounded-md"
+                    >
+                      {Object.keys(STAGE_COLORS).map((color) => (
+                        <option key={color} value={color}>
+                          {color}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-2 px-3">
+                    <input
+                      type="checkbox"
+                      checked={stage.is_active}
+                      onChange={(e) => handleStageChange(stage, { is_active: e.target.checked })}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <form onSubmit={handleAddStage} className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-sm font-medium text-blue-900">New Stage</label>
+              <input
+                type="text"
+                value={newStage.name}
+                onChange={(e) => setNewStage({ ...newStage, name: e.target.value })}
+                placeholder="e.g. Finance Approved"
+                className="mt-1 px-3 py-2 border border-blue-200 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-blue-900">Counts As</label>
+              <select
+                value={newStage.category}
+                onChange={(e) => setNewStage({ ...newStage, category: e.target.value as StageCategory })}
+                className="mt-1 px-3 py-2 border border-blue-200 rounded-md"
+              >
+                {Object.entries(STAGE_CATEGORY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button type="submit" className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+              <Plus className="w-4 h-4 mr-2" /> Add Stage
+            </button>
+          </form>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center text-blue-900">
+          <Loader2 className="w-5 h-5 mr-2 animate-spin" /> Loading pipeline...
+        </div>
+      ) : (
+        <div className="flex gap-4 overflow-x-auto pb-4">
+          {activeStages.map((stage) => {
+            const stageDeals = deals.filter((deal) => deal.stage_id === stage.id);
+            return (
+              <div
+                key={stage.id}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => handleDrop(stage.id)}
+                className={`flex-shrink-0 w-72 rounded-lg border-t-4 p-3 ${stageColor(stage)}`}
+              >
+                <div className="flex justify-between items-center mb-3">
+                  <h2 className="font-semibold text-gray-800">{stage.name}</h2>
+                  <span className="text-sm text-gray-500">{stageDeals.length}</span>
+                </div>
+                <div className="space-y-2 min-h-[4rem]">
+                  {stageDeals.map((deal) => (
+                    <div
+                      key={deal.id}
+                      draggable
+                      onDragStart={() => setDraggedDealId(deal.id)}
+                      className="bg-white p-3 rounded-md shadow-sm border border-gray-200 cursor-move"
+                    >
+                      <button
+                        onClick={() => navigate(`/property-detail/${deal.property_id}`)}
+                        className="text-left font-medium text-blue-900 hover:underline"
+                      >
+                        {dealAddress(deal)}
+                      </button>
+                      <p className="text-xs text-gray-500">
+                        {deal.property?.price ? formatCurrency(deal.property.price) : 'No price'}
+                        {officeWide && deal.property?.agent_name && ` · ${deal.property.agent_name}`}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        In stage {moment(deal.stage_changed_at).fromNow(true)}
+                      </p>
+                      <div className="flex justify-between items-center mt-2">
+                        <select
+                          value={deal.stage_id}
+                          onChange={(e) => handleMove(deal, e.target.value)}
+                          className="text-xs px-2 py-1 border border-gray-200 rounded-md"
+                        >
+                          {activeStages.map((option) => (
+                            <option key={option.id} value={option.id}>
+                              {option.name}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => setExpandedDealId(expandedDealId === deal.id ? null : deal.id)}
+                          className="text-xs text-blue-600 hover:text-blue-800"
+                        >
+                          {expandedDealId === deal.id ? 'Hide history' : 'History'}
+                        </button>
+                      </div>
+                      {expandedDealId === deal.id && (
+                        <ul className="mt-2 text-xs text-gray-600 space-y-1">
+                          {history
+                            .filter((entry) => entry.deal_id === deal.id)
+                            .map((entry) => (
+                              <li key={entry.id}>
+                                {moment(entry.changed_at).format('DD/MM/YYYY')}:{' '}
+                                {entry.from_stage_id ? `${stageNames.get(entry.from_stage_id)} → ` : ''}
+                                {stageNames.get(entry.to_stage_id)}
+                              </li>
+                            ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
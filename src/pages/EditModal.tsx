@@ -1,9 +1,12 @@
 import { useEffect, useState, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { supabase } from '../lib/supabase';
+import { deleteProperty, updateProperty } from '../api/properties';
 import { toast } from 'react-toastify';
 import { X, Trash2, CheckCircle, Bug, ChevronDown, ChevronUp } from 'lucide-react';
+import { PropertyRow } from '../types/database';
 import { PropertyDetails } from './Reports';
+import { diffRecords, FieldChanges, formatAuditValue } from '../utils/audit';
+import { usePermissions } from '../store/authStore';
 
 interface EditModalProps {
   showEditModal: boolean;
@@ -20,19 +23,6 @@ interface EditModalProps {
   resumeSubscription: () => void;
 }
 
-// Utility function for deep comparison and diffing
-function deepDiff(obj1: any, obj2: any): Record<string, { old: any; new: any }> {
-  const changes: Record<string, { old: any; new: any }> = {};
-  for (const key in obj1) {
-    const val1 = obj1[key] === '' ? undefined : obj1[key];
-    const val2 = obj2[key] === '' ? undefined : obj2[key];
-    if (JSON.stringify(val1) !== JSON.stringify(val2)) {
-      changes[key] = { old: val1 ?? undefined, new: val2 ?? undefined };
-    }
-  }
-  return changes;
-}
-
 export function EditModal({
   showEditModal,
   setShowEditModal,
@@ -47,12 +37,13 @@ export function EditModal({
   pauseSubscription,
   resumeSubscription,
 }: EditModalProps) {
+  const { canModify } = usePermissions();
   const [formData, setFormData] = useState<Partial<PropertyDetails> | null>(null);
   const [loading, setLoading] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
   const [autoSaveDraft, setAutoSaveDraft] = useState<Partial<PropertyDetails> | null>(null);
-  const [savedChanges, setSavedChanges] = useState<Record<string, { old: any; new: any }>>({});
+  const [savedChanges, setSavedChanges] = useState<FieldChanges>({});
   const [showChanges, setShowChanges] = useState(false);
   const [pendingUpdate, setPendingUpdate] = useState<Partial<PropertyDetails> | null>(null);
   const [showDebug, setShowDebug] = useState(false);
@@ -242,7 +233,7 @@ export function EditModal({
         same_street_sales: selectedProperty.same_street_sales || [],
         past_records: selectedProperty.past_records || [],
       };
-      const changes = deepDiff(originalData, updateData);
+      const changes = diffRecords(originalData, updateData);
       logDebug(`Detected changes: ${JSON.stringify(changes, null, 2)}`);
 
       if (Object.keys(changes).length === 0) {
@@ -275,14 +266,10 @@ export function EditModal({
       logDebug('Applied optimistic update to properties and filteredProperties');
 
       // Update Supabase
-      const { data, error } = await supabase
-        .from('properties')
-        .update({ ...updateData, updated_at: new Date().toISOString() })
-        .eq('id', selectedProperty.id)
-        .select()
-        .single();
-
-      if (error) {
+      let data: PropertyRow;
+      try {
+        data = await updateProperty(selectedProperty.id, updateData);
+      } catch (error) {
         // Revert optimistic update
         if (originalStateRef.current) {
           setProperties(originalStateRef.current.properties);
@@ -291,13 +278,8 @@ export function EditModal({
           setSelectedProperty({ ...selectedProperty });
           logDebug('Reverted optimistic update due to error');
         }
-        logDebug(`Supabase error: ${error.message}`);
-        throw new Error(`Supabase update failed: ${error.message}`);
-      }
-
-      if (!data || data.id !== selectedProperty.id) {
-        logDebug('Supabase returned invalid data');
-        throw new Error('Invalid response from server');
+        logDebug(`Supabase error: ${error instanceof Error ? error.message : String(error)}`);
+        throw error;
       }
 
       logDebug(`Supabase response: ${JSON.stringify(data, null, 2)}`);
@@ -380,20 +362,17 @@ export function EditModal({
       logDebug('Applied optimistic delete to properties and filteredProperties');
 
       // Delete from Supabase
-      const { error } = await supabase
-        .from('properties')
-        .delete()
-        .eq('id', selectedProperty.id);
-
-      if (error) {
+      try {
+        await deleteProperty(selectedProperty.id);
+      } catch (error) {
         // Revert optimistic update
         if (originalStateRef.current) {
           setProperties(originalStateRef.current.properties);
           setFilteredProperties(originalStateRef.current.filteredProperties);
           logDebug('Reverted optimistic delete due to error');
         }
-        logDebug(`Supabase delete error: ${error.message}`);
-        throw new Error(`Supabase delete failed: ${error.message}`);
+        logDebug(`Supabase delete error: ${error instanceof Error ? error.message : String(error)}`);
+        throw error;
       }
 
       // Clean up local storage
@@ -578,14 +557,16 @@ export function EditModal({
                 >
                   <Bug className="w-5 h-5" />
                 </button>
-                <button
-                  onClick={() => setShowDeleteConfirm(true)}
-                  className="text-red-600 hover:text-red-800 transition"
-                  aria-label="Delete property"
-                  disabled={loading}
-                >
-                  <Trash2 className="w-5 h-5" />
-                </button>
+                {selectedProperty && canModify(selectedProperty, 'properties.delete') && (
+                  <button
+                    onClick={() => setShowDeleteConfirm(true)}
+                    className="text-red-600 hover:text-red-800 transition"
+                    aria-label="Delete property"
+                    disabled={loading}
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                )}
                 <button
                   onClick={handleClose}
                   className="text-gray-600 hover:text-gray-800 transition"
@@ -629,9 +610,9 @@ export function EditModal({
                   {Object.entries(savedChanges).map(([key, { old, new: newValue }]) => (
                     <li key={key} className="flex items-center">
                       <span className="font-medium capitalize">{key.replace(/_/g, ' ')}:</span>
-                      <span className="ml-2 text-red-600">{old ?? 'N/A'}</span>
+                      <span className="ml-2 text-red-600">{formatAuditValue(old)}</span>
                       <span className="mx-2">→</span>
-                      <span className="text-green-600">{newValue ?? 'N/A'}</span>
+                      <span className="text-green-600">{formatAuditValue(newValue)}</span>
                     </li>
                   ))}
                 </ul>
@@ -156,21 +156,7 @@ export default function EnquiryForm({ property, onClose }: EnquiryFormProps) {
         throw enquiryError;
       }
 
-      console.log('Submitting notification to Supabase...');
-      const { error: notificationError } = await supabase.from('notifications').insert([
-        {
-          user_id: property.agent_name, // Adjust if user_id differs
-          message: `New enquiry from ${enquiryData.name} for ${property.name}`,
-          created_at: new Date().toISOString(),
-          read: false,
-        },
-      ]);
-
-      if (notificationError) {
-        console.error('Notification insertion error:', notificationError);
-        throw notificationError;
-      }
-
+      // The listing agent is notified by the enquiries_notify trigger.
       console.log('Submission successful');
       setSubmitted(true);
       confetti({
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { supabase } from '../lib/supabase';
+import { fetchAllProperties } from '../api/properties';
+import { PropertyRow } from '../types/database';
 import { Loader2, Mail, User, MessageSquare, MapPin, DollarSign, X, Video } from 'lucide-react';
 import { formatCurrency } from '../utils/formatters';
 
@@ -10,55 +11,7 @@ interface EnquiryFormData {
   message: string;
 }
 
-interface Property {
-  id: string;
-  street_number?: string;
-  street_name?: string;
-  suburb: string;
-  postcode: string;
-  property_type: string;
-  bedrooms: number;
-  bathrooms: number;
-  car_garage: number;
-  sqm: number;
-  landsize: number;
-  price: number;
-  expected_price: number;
-  commission: number;
-  features: string[];
-  user_id: string;
-  created_at: string;
-  listed_date: string;
-  sold_date?: string | null;
-  category: 'Listing' | 'Sold' | 'Under Offer';
-  sale_type: 'Private Treaty' | 'Auction' | 'EOI';
-  flood_risk?: 'Low' | 'Medium' | 'High';
-  bushfire_risk?: 'Low' | 'Medium' | 'High';
-  flood_notes?: string;
-  bushfire_notes?: string;
-  contract_status?: 'None' | 'Under Offer' | 'Under Contract';
-  same_street_sales?: Array<{ address: string; sale_price: number; sale_date: string; property_type: string }>;
-  days_on_market?: number;
-  past_records?: Array<{
-    suburb: string;
-    postcode: string;
-    property_type: string;
-    price: string;
-    bedrooms: string;
-    bathrooms: string;
-    car_garage: string;
-    sqm: string;
-    landsize: string;
-    listing_date?: string;
-    sale_date?: string;
-    status?: 'Sold' | 'Listed' | 'Withdrawn';
-    notes?: string;
-    address?: string;
-  }>;
-  agent_name: string;
-  agency_name: string;
-  sold_price?: number;
-}
+type Property = PropertyRow;
 
 interface TourState {
   step: 'welcome' | 'preferences' | 'tour' | 'summary';
@@ -89,24 +42,19 @@ export function Home() {
       try {
         setLoading(true);
         setError(null);
-        const { data, error } = await supabase
-          .from('properties')
-          .select('id, street_number, street_name, suburb, postcode, property_type, bedrooms, bathrooms, car_garage, sqm, landsize, price, expected_price, commission, features, user_id, created_at, listed_date, sold_date, category, sale_type, flood_risk, bushfire_risk, flood_notes, bushfire_notes, contract_status, agent_name, agency_name, sold_price')
-          .in('category', ['Listing', 'Sold'])
-          .order('listed_date', { ascending: false });
-        if (error) {
-          console.error('Supabase error:', error);
-          throw new Error(`Failed to fetch properties: ${error.message}`);
-        }
+        const data = await fetchAllProperties({
+          filters: { categories: ['Listing', 'Sold'] },
+          sort: { column: 'listed_date', ascending: false },
+        });
         console.log('Fetched properties:', data);
-        if (!data || data.length === 0) {
+        if (data.length === 0) {
           setError('No properties found. Please check the database or try again later.');
           setProperties([]);
           return;
         }
-        setProperties(data as Property[]);
-      } catch (err: any) {
-        console.error('Error fetching properties:', err.message);
+        setProperties(data);
+      } catch (err) {
+        console.error('Error fetching properties:', err);
         setError('Failed to load properties. Please check your connection or try again later.');
       } finally {
         setLoading(false);
@@ -169,13 +117,13 @@ export function Home() {
     const { budget, bedrooms, suburb } = tourState.preferences;
     let filtered = properties;
     if (budget) {
-      filtered = filtered.filter((p: Property) => p.price <= budget);
+      filtered = filtered.filter((p: Property) => (p.price ?? 0) <= budget);
     }
     if (bedrooms) {
-      filtered = filtered.filter((p: Property) => p.bedrooms >= bedrooms);
+      filtered = filtered.filter((p: Property) => (p.bedrooms ?? 0) >= bedrooms);
     }
     if (suburb) {
-      filtered = filtered.filter((p: Property) => p.suburb.toLowerCase().includes(suburb.toLowerCase()));
+      filtered = filtered.filter((p: Property) => (p.suburb || '').toLowerCase().includes(suburb.toLowerCase()));
     }
     if (filtered.length === 0) {
       setError('No properties match your criteria. Try adjusting your preferences.');
@@ -302,11 +250,11 @@ export function Home() {
                   <h3 className="text-lg font-semibold">
                     {`${currentProperty.street_number || ''} ${currentProperty.street_name || ''}, ${currentProperty.suburb}`}
                   </h3>
-                  <p className="text-gray-600">{formatCurrency(currentProperty.price)}</p>
+                  <p className="text-gray-600">{formatCurrency(currentProperty.price ?? 0)}</p>
                   <p className="text-gray-600">
                     {currentProperty.bedrooms} Beds, {currentProperty.bathrooms} Baths, {currentProperty.car_garage} Garage
                   </p>
-                  <p className="text-gray-600">Features: {currentProperty.features.join(', ') || 'None'}</p>
+                  <p className="text-gray-600">Features: {currentProperty.features?.join(', ') || 'None'}</p>
                   <p className="text-gray-600">
                     Flood Risk: {currentProperty.flood_risk || 'Low'} | Bushfire Risk: {currentProperty.bushfire_risk || 'Low'}
                   </p>
@@ -324,8 +272,8 @@ export function Home() {
                 </div>
                 <p className="text-gray-700 italic">
                   {currentPropertyIndex === 0
-                    ? `Welcome to this ${currentProperty.property_type.toLowerCase()}! It’s a spacious ${currentProperty.sqm}sqm home with ${currentProperty.features[0] || 'great potential'}.`
-                    : `Next, check out this ${currentProperty.property_type.toLowerCase()} with ${currentProperty.bedrooms} bedrooms and a ${currentProperty.flood_risk || 'low'} flood risk.`}
+                    ? `Welcome to this ${(currentProperty.property_type || 'property').toLowerCase()}! It’s a spacious ${currentProperty.sqm}sqm home with ${currentProperty.features?.[0] || 'great potential'}.`
+                    : `Next, check out this ${(currentProperty.property_type || 'property').toLowerCase()} with ${currentProperty.bedrooms} bedrooms and a ${currentProperty.flood_risk || 'low'} flood risk.`}
                 </p>
                 <button
                   onClick={() => toggleFavorite(currentProperty.id)}
@@ -380,7 +328,7 @@ export function Home() {
                   const prop = properties.find((p) => p.id === id);
                   return prop ? (
                     <div key={id} className="bg-gray-50 p-3 rounded-lg mb-2 transition-all">
-                      <p>{`${prop.street_number || ''} ${prop.street_name || ''}, ${prop.suburb}, QLD ${prop.postcode.trim()}`}</p>
+                      <p>{`${prop.street_number || ''} ${prop.street_name || ''}, ${prop.suburb}, QLD ${(prop.postcode || '').trim()}`}</p>
                       <p
                         className={`text-sm ${
                           prop.category === 'Sold'
@@ -542,11 +490,11 @@ export function Home() {
                 </h3>
                 <p className="text-gray-600 flex items-center mt-1">
                   <MapPin className="w-4 h-4 mr-1 transition-transform hover:scale-110" />
-                  {`${property.suburb}, QLD ${property.postcode.trim()}`}
+                  {`${property.suburb}, QLD ${(property.postcode || '').trim()}`}
                 </p>
                 <p className="text-gray-600 flex items-center mt-1">
                   <DollarSign className="w-4 h-4 mr-1 transition-transform hover:scale-110" />
-                  {formatCurrency(property.price)}
+                  {formatCurrency(property.price ?? 0)}
                 </p>
                 <p className="text-sm text-gray-500 mt-1 transition-opacity hover:opacity-80">
                   {property.bedrooms} Beds, {property.bathrooms} Baths, {property.car_garage} Garage
@@ -1,9 +1,10 @@
 import React from 'react';
-import { Property } from '../types/Property';
-import { PredictionResult } from './AgentDashboard';
+import { PropertyRow as Property } from '../types/database';
+import { PredictionResult } from '../utils/forecasting';
 import { TrendingUp, TrendingDown } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
 import { formatCurrency } from '../utils/formatters';
+import { ComparableSalesPanel } from '../components/ComparableSalesPanel';
 
 interface IndividualPropertyReportProps {
   property: Property;
@@ -46,7 +47,14 @@ export function IndividualPropertyReport({ property, prediction }: IndividualPro
             <strong>Market Condition:</strong> {prediction.marketCondition || 'N/A'}
           </p>
           <p className="text-gray-600">
-            <strong>Sentiment Score:</strong> {prediction.sentimentScore?.toFixed(2) || 'N/A'}
+            <strong>Forecast Median:</strong>{' '}
+            {prediction.nextPrice ? formatCurrency(prediction.nextPrice) : 'N/A'}
+            {prediction.priceRange &&
+              ` (${formatCurrency(prediction.priceRange.lower)} – ${formatCurrency(prediction.priceRange.upper)})`}
+          </p>
+          <p className="text-gray-600">
+            <strong>Backtest Accuracy:</strong>{' '}
+            {prediction.backtest ? `${prediction.backtest.accuracy.toFixed(1)}%` : 'Insufficient history'}
           </p>
         </div>
         <div>
@@ -54,7 +62,7 @@ export function IndividualPropertyReport({ property, prediction }: IndividualPro
             <strong>Address:</strong>{' '}
             {property.street_number && property.street_name
               ? `${property.street_number} ${property.street_name}`
-              : property.address || 'N/A'}
+              : 'N/A'}
           </p>
           <p className="text-gray-600">
             <strong>Suburb:</strong> {property.suburb || 'N/A'}
@@ -71,7 +79,7 @@ export function IndividualPropertyReport({ property, prediction }: IndividualPro
 
       {chartData.length > 0 && (
         <div className="mt-4">
-          <h4 className="text-md font-semibold text-gray-800 mb-2">Price Trend (Last 12 Months)</h4>
+          <h4 className="text-md font-semibold text-gray-800 mb-2">Monthly Median Sale Price</h4>
           <LineChart
             width={500}
             height={200}
@@ -87,6 +95,11 @@ export function IndividualPropertyReport({ property, prediction }: IndividualPro
           </LineChart>
         </div>
       )}
+
+      <div className="mt-6">
+        <h4 className="text-md font-semibold text-gray-800 mb-2">Comparable Sales</h4>
+        <ComparableSalesPanel subject={property} />
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
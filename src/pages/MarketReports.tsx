@@ -18,8 +18,11 @@ import moment from 'moment';
 import { useEffect, useState, useCallback } from 'react';
 import { Bar, Line, Pie } from 'react-chartjs-2';
 import { useLocation } from 'react-router-dom';
-import { supabase } from '../lib/supabase';
+import { fetchAllProperties } from '../api/properties';
+import { PropertyRow as Property } from '../types/database';
 import { debounce } from 'lodash';
+import { normalizeSuburb } from '../utils/gazetteer';
+import { forecastSegment, salesFromProperties } from '../utils/forecasting';
 
 ChartJS.register(
   CategoryScale,
@@ -34,27 +37,6 @@ ChartJS.register(
   ChartDataLabels
 );
 
-interface Property {
-  id: string;
-  name: string;
-  property_type: string;
-  street_number: string;
-  street_name: string;
-  suburb: string;
-  price: number;
-  user_id: string;
-  created_at: string;
-  agent_name?: string;
-  agency_name?: string;
-  category?: 'Listing' | 'Sold' | 'Under Offer';
-  sale_type?: 'Private Treaty' | 'Auction' | 'EOI';
-  listed_date?: string;
-  sale_date?: string | null;
-  expected_price?: number;
-  sold_price?: number | null;
-  expected_growth?: number;
-}
-
 interface ReportMetrics {
   listingsBySuburb: Record<string, { listed: number; sold: number }>;
   salesByAgent: Record<string, number>;
@@ -100,21 +82,15 @@ export function MarketReports() {
     try {
       setLoading(true);
       setError(null);
-      console.log('Fetching properties from Supabase...');
-
-      const { data, error } = await supabase
-        .from('properties')
-        .select('id, name, property_type, street_number, street_name, suburb, price, user_id, created_at, agent_name, agency_name, category, sale_type, listed_date, sale_date, expected_price, sold_price, expected_growth')
-        .order('created_at', { ascending: false });
+      console.log('Fetching properties...');
 
-      if (error) throw error;
-
-      const propertiesWithUserData = userProperty ? [...(data || []), userProperty] : data || [];
+      const data = await fetchAllProperties();
+      const propertiesWithUserData = userProperty ? [...data, userProperty] : data;
       setProperties(propertiesWithUserData);
       debouncedGenerateReport(propertiesWithUserData);
-    } catch (error: any) {
-      console.error('Error fetching properties:', error.message);
-      setError(error.message || 'Failed to fetch properties from Supabase');
+    } catch (error) {
+      console.error('Error fetching properties:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch properties');
       setProperties([]);
     } finally {
       setLoading(false);
@@ -127,27 +103,8 @@ export function MarketReports() {
     return Math.round((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
   };
 
-  const predictFutureAvgPriceBySuburb = (suburb: string, filteredProperties: Property[]) => {
-    const relevantData = filteredProperties.filter(p => p.suburb === suburb && (p.sold_price || p.price));
-    if (relevantData.length < 2) return relevantData[0]?.price || 0;
-
-    const prices = relevantData.map(p => p.sold_price || p.price);
-    const growthRates = relevantData.map(p => p.expected_growth || 0).filter(g => g !== 0);
-    const avgGrowth = growthRates.length > 0 ? growthRates.reduce((sum, g) => sum + g, 0) / growthRates.length : 0;
-
-    const n = prices.length;
-    let xSum = 0, ySum = 0, xySum = 0, xSquaredSum = 0;
-    prices.forEach((price, i) => {
-      xSum += i;
-      ySum += price;
-      xySum += i * price;
-      xSquaredSum += i * i;
-    });
-    const slope = (n * xySum - xSum * ySum) / (n * xSquaredSum - xSum * xSum);
-    const intercept = (ySum - slope * xSum) / n;
-    const historicalPrediction = slope * (n + 1) + intercept;
-    return historicalPrediction * (1 + avgGrowth / 100);
-  };
+  const predictFutureAvgPriceBySuburb = (suburb: string, filteredProperties: Property[]) =>
+    forecastSegment(salesFromProperties(filteredProperties), { suburb }, normalizeSuburb)?.predicted || 0;
 
   const generateReport = (data: Property[]) => {
     let filteredData = [...data];
@@ -156,7 +113,7 @@ export function MarketReports() {
     if (filterTime !== 'All') {
       const [start, end] = filterTime.split('-');
       filteredData = filteredData.filter(p => {
-        const date = new Date(p.sale_date || p.created_at);
+        const date = new Date(p.sold_date || p.created_at || 0);
         return date >= new Date(start) && date <= new Date(end);
       });
     }
@@ -192,7 +149,7 @@ export function MarketReports() {
       }
 
       if (prop.listed_date) {
-        const days = calculateDaysOnMarket(prop.listed_date, prop.sale_date);
+        const days = calculateDaysOnMarket(prop.listed_date, prop.sold_date);
         if (prop.category === 'Sold' && prop.agent_name && prop.agency_name) {
           daysOnMarketByAgent[prop.agent_name] = ((daysOnMarketByAgent[prop.agent_name] || 0) + days) / (salesByAgent[prop.agent_name] || 1);
           daysOnMarketByAgency[prop.agency_name] = ((daysOnMarketByAgency[prop.agency_name] || 0) + days) / (salesByAgency[prop.agency_name] || 1);
@@ -223,9 +180,9 @@ export function MarketReports() {
 
       predictedAvgPriceBySuburb[suburb] = predictFutureAvgPriceBySuburb(suburb, filteredData);
 
-      const date = moment(prop.sale_date || prop.created_at).format('YYYY-MM');
+      const date = moment(prop.sold_date || prop.created_at).format('YYYY-MM');
       priceTrendsBySuburb[suburb] = priceTrendsBySuburb[suburb] || {};
-      priceTrendsBySuburb[suburb][date] = ((priceTrendsBySuburb[suburb][date] || 0) + price) / (filteredData.filter(p => p.suburb === suburb && moment(p.sale_date || p.created_at).format('YYYY-MM') === date).length);
+      priceTrendsBySuburb[suburb][date] = ((priceTrendsBySuburb[suburb][date] || 0) + (price || 0)) / (filteredData.filter(p => p.suburb === suburb && moment(p.sold_date || p.created_at).format('YYYY-MM') === date).length);
     });
 
     setReport({
@@ -387,7 +344,7 @@ export function MarketReports() {
               <label className="block text-gray-700 mb-2">Suburb</label>
               <select value={filterSuburb} onChange={(e) => { setFilterSuburb(e.target.value); debouncedGenerateReport(properties); }} className="w-full p-2 border rounded">
                 <option value="All">All</option>
-                {Array.from(new Set(properties.map(p => p.suburb))).map(suburb => (
+                {Array.from(new Set(properties.map(p => p.suburb).filter((suburb): suburb is string => !!suburb))).map(suburb => (
                   <option key={suburb} value={suburb}>{suburb}</option>
                 ))}
               </select>
@@ -396,7 +353,7 @@ export function MarketReports() {
               <label className="block text-gray-700 mb-2">Agent</label>
               <select value={filterAgent} onChange={(e) => { setFilterAgent(e.target.value); debouncedGenerateReport(properties); }} className="w-full p-2 border rounded">
                 <option value="All">All</option>
-                {Array.from(new Set(properties.map(p => p.agent_name).filter(Boolean))).map(agent => (
+                {Array.from(new Set(properties.map(p => p.agent_name).filter((agent): agent is string => !!agent))).map(agent => (
                   <option key={agent} value={agent}>{agent}</option>
                 ))}
               </select>
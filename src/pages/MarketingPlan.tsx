@@ -1,10 +1,12 @@
 import { useState, useEffect } from 'react';
 import { useAuthStore } from '../store/authStore';
-import { Loader2, Plus, Trash2, Phone, DoorClosed, Eye, List } from 'lucide-react';
+import { Loader2, Plus, Trash2, Phone, DoorClosed, Eye, List, Link2 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { StreetSuggestions } from './StreetSuggestions';
+import { ShareLinkDialog } from '../components/ShareLinkDialog';
+import { listSuburbs, suburbDisplayName } from '../utils/gazetteer';
 
 const uuidv4 = () => {
   return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
@@ -22,21 +24,7 @@ const toTitleCase = (str: string) => {
     .join(' ');
 };
 
-const PREDEFINED_SUBURBS = [
-  'Moggill QLD 4070',
-  'Bellbowrie QLD 4070',
-  'Pullenvale QLD 4069',
-  'Brookfield QLD 4069',
-  'Anstead QLD 4070',
-  'Chapel Hill QLD 4069',
-  'Kenmore QLD 4069',
-  'Kenmore Hill QLD 4069',
-  'Fig Tree Pocket QLD 4069',
-  'Pinjara Hills QLD 4069',
-  'Spring Mountain QLD 4300',
-  'Springfield QLD 4300',
-  'Greenbank QLD 4124',
-];
+const predefinedSuburbs = () => listSuburbs().map(suburbDisplayName);
 
 interface DoorKnockStreet {
   id: string;
@@ -100,6 +88,7 @@ export function MarketingPlanPage() {
   const [selectedActivity, setSelectedActivity] = useState<'all' | 'door_knock' | 'phone_call' | 'vault_to_do'>('all');
   const [showPlansModal, setShowPlansModal] = useState(false);
   const [savedPlans, setSavedPlans] = useState<MarketingPlan[]>([]);
+  const [sharingPlan, setSharingPlan] = useState<MarketingPlan | null>(null);
   const [soldPropertiesFilter, setSoldPropertiesFilter] = useState<string>('30_days');
 
   useEffect(() => {
@@ -186,7 +175,7 @@ export function MarketingPlanPage() {
 
       if (data) {
         const loadedSuburb = data.suburb || '';
-        setIsCustomSuburb(!PREDEFINED_SUBURBS.includes(loadedSuburb) && loadedSuburb !== '');
+        setIsCustomSuburb(!predefinedSuburbs().includes(loadedSuburb) && loadedSuburb !== '');
         setMarketingPlan({
           id: data.id || uuidv4(),
           agent: data.agent || '',
@@ -458,7 +447,7 @@ export function MarketingPlanPage() {
       created_at: plan.created_at || undefined,
       updated_at: plan.updated_at || undefined,
     });
-    setIsCustomSuburb(!PREDEFINED_SUBURBS.includes(plan.suburb) && plan.suburb !== '');
+    setIsCustomSuburb(!predefinedSuburbs().includes(plan.suburb) && plan.suburb !== '');
     setShowPlansModal(false);
   };
 
@@ -893,6 +882,14 @@ export function MarketingPlanPage() {
                       >
                         View Plan
                       </motion.button>
+                      <motion.button
+                        onClick={() => setSharingPlan(plan)}
+                        className="mt-4 ml-2 px-4 py-2 bg-indigo-600 text-white rounded-full hover:bg-indigo-700 inline-flex items-center"
+                        whileHover={{ scale: 1.05 }}
+                        whileTap={{ scale: 0.95 }}
+                      >
+                        <Link2 className="w-4 h-4 mr-2" /> Share
+                      </motion.button>
                     </div>
                   ))}
                 </div>
@@ -908,6 +905,14 @@ export function MarketingPlanPage() {
             </motion.div>
           </motion.div>
         )}
+        {sharingPlan && (
+          <ShareLinkDialog
+            resourceType="marketing_plan"
+            resourceId={sharingPlan.id}
+            title={`Marketing plan - ${sharingPlan.suburb}`}
+            onClose={() => setSharingPlan(null)}
+          />
+        )}
 
         <motion.div
           className="bg-white p-6 rounded-xl shadow-lg border border-gray-100 hover:shadow-xl transition-all duration-300 relative"
@@ -976,7 +981,7 @@ export function MarketingPlanPage() {
                 aria-label="Select suburb"
               >
                 <option value="">Select Suburb</option>
-                {PREDEFINED_SUBURBS.map((suburb) => (
+                {predefinedSuburbs().map((suburb) => (
                   <option key={suburb} value={suburb}>
                     {suburb}
                   </option>
@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { Bell, Loader2, Mail } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { fetchNotificationPreferences, saveNotificationPreference } from '../api/notifications';
+import { useAuthStore } from '../store/authStore';
+import { NotificationPreferenceRow, NotificationType } from '../types/database';
+import {
+  emailEnabledFor,
+  NOTIFICATION_TYPE_DESCRIPTIONS,
+  NOTIFICATION_TYPE_LABELS,
+  NOTIFICATION_TYPES,
+} from '../utils/notifications';
+
+// Every notification shows up in the bell; these switches decide which are
+// also emailed.
+export function NotificationSettings() {
+  const { user } = useAuthStore();
+  const [preferences, setPreferences] = useState<NotificationPreferenceRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<NotificationType | null>(null);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    fetchNotificationPreferences(user.id)
+      .then(setPreferences)
+      .catch((err) => toast.error(err instanceof Error ? err.message : 'Failed to load notification settings'))
+      .finally(() => setLoading(false));
+  }, [user?.id]);
+
+  const handleToggle = async (type: NotificationType) => {
+    if (!user?.id) return;
+    setSaving(type);
+    try {
+      const saved = await saveNotificationPreference(user.id, type, !emailEnabledFor(preferences, type));
+      setPreferences((current) => [...current.filter((p) => p.type !== type), saved]);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save the setting');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto p-6">
+      <h1 className="text-3xl font-bold text-blue-900 flex items-center mb-6">
+        <Bell className="w-8 h-8 mr-3 text-blue-600" /> Notification Settings
+      </h1>
+      <div className="bg-white p-6 rounded-lg shadow-md border border-blue-200">
+        <p className="text-gray-600 mb-4">
+          All notifications appear under the bell in the menu bar. Choose which ones are also sent to{' '}
+          <span className="font-semibold">{user?.email}</span>.
+        </p>
+        {loading ? (
+          <div className="flex items-center text-blue-900 py-4">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" /> Loading settings...
+          </div>
+        ) : (
+          <ul className="divide-y divide-blue-100">
+            {NOTIFICATION_TYPES.map((type) => {
+              const enabled = emailEnabledFor(preferences, type);
+              return (
+                <li key={type} className="flex items-center justify-between py-4">
+                  <div>
+                    <p className="font-medium text-blue-900">{NOTIFICATION_TYPE_LABELS[type]}</p>
+                    <p className="text-sm text-gray-500">{NOTIFICATION_TYPE_DESCRIPTIONS[type]}</p>
+                  </div>
+                  <button
+                    onClick={() => handleToggle(type)}
+                    disabled={saving === type}
+                    className={`flex items-center px-3 py-1 rounded-full text-sm ${
+                      enabled ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                    } disabled:opacity-50`}
+                    aria-pressed={enabled}
+                  >
+                    {saving === type ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Mail className="w-4 h-4 mr-1" />}
+                    {enabled ? 'Email on' : 'Email off'}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default NotificationSettings;
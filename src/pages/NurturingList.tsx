@@ -1,12 +1,21 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
+import { fetchNurturingContacts as fetchNurturingRows } from '../api/nurturingList';
 import { motion, AnimatePresence } from 'framer-motion';
 import { UserPlus, FileText, X, Check, Edit, Download, Search, Eye, Trash, Upload } from 'lucide-react';
 import { useAuthStore } from '../store/authStore';
 import { toast } from 'react-toastify';
-import jsPDF from 'jspdf';
-// import autoTable from 'jspdf-autotable';
-import * as XLSX from 'xlsx';
+import { commitImportBatches, dryRunImportRows } from '../api/imports';
+import { ImportColumn, ImportDecisions, ImportDedupePreview } from '../components/ImportDedupePreview';
+import { ExportDialog } from '../components/ExportDialog';
+import { ImportWizard, ImportWizardResult } from '../components/ImportWizard';
+import { buildImportPreview, dedupeEmailKey, ImportCandidate, ImportPreviewRow } from '../utils/dedupe';
+import { activeFilters, ExportColumn, ExportSpec } from '../utils/exporter';
+import { importText, ImportValues } from '../utils/importer';
+import { defineReport, downloadReport } from '../utils/pdfReport';
+import { TABLE_REPORT } from '../utils/reportTemplates';
+import { IMPORT_SOURCES, NURTURING_FIELDS } from '../utils/importFields';
 interface NurturingContact {
   id: string;
   first_name: string;
@@ -26,11 +35,169 @@ interface NurturingContact {
   status: string | null;
   priority: 'hot' | 'warm' | 'cold' | null;
   agent_id: string;
+  person_id?: string | null;
 }
 interface Agent {
   id: string;
   name: string;
 }
+interface PendingImport {
+  rows: ImportPreviewRow[];
+  contacts: Record<string, Partial<NurturingContact>>;
+  fileName: string;
+  rollbackOnError: boolean;
+}
+const IMPORT_COLUMNS: ImportColumn[] = [
+  { key: 'first_name', label: 'First name' },
+  { key: 'last_name', label: 'Last name' },
+  { key: 'email', label: 'Email' },
+  { key: 'mobile', label: 'Mobile' },
+  { key: 'phone_number', label: 'Phone' },
+  { key: 'street_number', label: 'Street no.' },
+  { key: 'street_name', label: 'Street' },
+  { key: 'suburb', label: 'Suburb' },
+  { key: 'postcode', label: 'Postcode' },
+];
+// Placeholder emails are left out so "update existing" can replace one with a real address.
+const toImportCandidate = (key: string, contact: Partial<NurturingContact>): ImportCandidate => ({
+  key,
+  record: {
+    id: key,
+    names: [`${contact.first_name || ''} ${contact.last_name || ''}`],
+    phones: [contact.mobile, contact.phone_number],
+    emails: [contact.email],
+    addresses: [contact],
+  },
+  fields: {
+    ...Object.fromEntries(IMPORT_COLUMNS.map((column) => [column.key, contact[column.key as keyof NurturingContact] as string | null])),
+    email: dedupeEmailKey(contact.email) ? contact.email : null,
+  },
+});
+const generateUniqueId = () => {
+  return `no-email-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+};
+// The list needs a name, an email and both phone columns, so rows missing
+// them get placeholders the agent can fill in later.
+const toNurturingContact = (values: ImportValues): Partial<NurturingContact> => {
+  const text = (key: string) => importText(values, key);
+  let firstName = text('first_name');
+  let lastName = text('last_name');
+  if (!firstName && !lastName) {
+    firstName = 'Unknown';
+    lastName = `Contact_${generateUniqueId()}`;
+  } else if (!firstName) {
+    firstName = 'Unknown';
+  } else if (!lastName) {
+    lastName = 'Unknown';
+  }
+  return {
+    first_name: firstName,
+    last_name: lastName,
+    email: text('email') || `${firstName.toLowerCase()}.${lastName.toLowerCase()}@placeholder.com`.replace(/\s+/g, '.'),
+    phone_number: text('phone_number') || 'Not Provided',
+    mobile: text('mobile') || 'Not Provided',
+    street_number: text('street_number') || null,
+    street_name: text('street_name') || null,
+    suburb: text('suburb') || null,
+    postcode: text('postcode') || null,
+    house_type: text('house_type') || null,
+    requirements: text('requirements') || null,
+    notes: text('notes') || null,
+    call_back_date: text('call_back_date') || null,
+    needs_monthly_appraisals: values.needs_monthly_appraisals === true,
+    status: text('status') || 'Inprogress',
+    priority: (text('priority') || 'warm') as NurturingContact['priority'],
+  };
+};
+const EXPORT_COLUMNS: ExportColumn<NurturingContact>[] = [
+  { key: 'first_name', label: 'First name', value: (c) => c.first_name },
+  { key: 'last_name', label: 'Last name', value: (c) => c.last_name },
+  { key: 'email', label: 'Email', value: (c) => c.email },
+  { key: 'mobile', label: 'Mobile', value: (c) => c.mobile },
+  { key: 'phone_number', label: 'Phone', value: (c) => c.phone_number },
+  { key: 'street_number', label: 'Street number', value: (c) => c.street_number },
+  { key: 'street_name', label: 'Street name', value: (c) => c.street_name },
+  { key: 'suburb', label: 'Suburb', value: (c) => c.suburb },
+  { key: 'postcode', label: 'Postcode', value: (c) => c.postcode, hidden: true },
+  { key: 'house_type', label: 'House type', value: (c) => c.house_type },
+  { key: 'requirements', label: 'Requirements', value: (c) => c.requirements },
+  { key: 'status', label: 'Status', value: (c) => c.status },
+  { key: 'priority', label: 'Priority', value: (c) => c.priority },
+  { key: 'call_back_date', label: 'Call back date', value: (c) => c.call_back_date },
+  { key: 'needs_monthly_appraisals', label: 'Monthly appraisals', value: (c) => (c.needs_monthly_appraisals ? 'Yes' : 'No'), hidden: true },
+  { key: 'notes', label: 'Notes', value: (c) => c.notes, hidden: true },
+];
+const TASK_FILTER_LABELS = { all: '', progress: 'In Progress', ongoing: 'Ongoing', completed: 'Completed' };
+// Links the name to the contact's person profile once the database has linked one.
+const callBackDate = (contact: NurturingContact) =>
+  contact.call_back_date
+    ? new Date(contact.call_back_date).toLocaleDateString('en-IN', { timeZone: 'Asia/Kolkata' })
+    : 'N/A';
+const priorityLabel = (contact: NurturingContact) =>
+  contact.priority ? contact.priority.charAt(0).toUpperCase() + contact.priority.slice(1) : 'N/A';
+
+const CONTACT_REPORT = defineReport<NurturingContact>({
+  id: 'nurturing_contact',
+  title: () => 'Contact Details',
+  subtitle: (contact) => `${contact.first_name} ${contact.last_name}`,
+  fileName: (contact) => `${contact.first_name}_${contact.last_name}_contact.pdf`,
+  sections: (contact) => [
+    {
+      type: 'columns',
+      sections: [
+        {
+          type: 'facts',
+          title: 'Contact Information',
+          facts: [
+            { label: 'Email', value: contact.email || 'N/A' },
+            { label: 'Phone', value: contact.phone_number || 'N/A' },
+            { label: 'Mobile', value: contact.mobile || 'N/A' },
+          ],
+        },
+        {
+          type: 'facts',
+          title: 'Follow Up',
+          facts: [
+            { label: 'Status', value: contact.status || 'N/A' },
+            { label: 'Priority', value: priorityLabel(contact) },
+            { label: 'Call Back', value: callBackDate(contact) },
+          ],
+        },
+      ],
+    },
+    {
+      type: 'facts',
+      title: 'Address Details',
+      facts: [
+        { label: 'Street', value: [contact.street_number, contact.street_name].filter(Boolean).join(' ') || 'N/A' },
+        { label: 'Suburb', value: contact.suburb || 'N/A' },
+        { label: 'Postcode', value: contact.postcode || 'N/A' },
+        { label: 'House Type', value: contact.house_type || 'N/A' },
+      ],
+    },
+    {
+      type: 'facts',
+      title: 'Additional Information',
+      facts: [
+        { label: 'Requirements', value: contact.requirements || 'N/A' },
+        { label: 'Monthly Appraisals', value: contact.needs_monthly_appraisals ? 'Yes' : 'No' },
+      ],
+    },
+    { type: 'heading', text: 'Notes' },
+    { type: 'text', text: contact.notes || 'No notes available' },
+  ],
+});
+
+const ContactName = ({ contact }: { contact: NurturingContact }) =>
+  contact.person_id ? (
+    <Link to={`/people/${contact.person_id}`} className="hover:underline">
+      {contact.first_name} {contact.last_name}
+    </Link>
+  ) : (
+    <>
+      {contact.first_name} {contact.last_name}
+    </>
+  );
 export function NurturingList() {
   const [contacts, setContacts] = useState<NurturingContact[]>([]);
   const [agents, setAgents] = useState<Agent[]>([]);
@@ -68,7 +235,9 @@ export function NurturingList() {
   const [selectedContactIds, setSelectedContactIds] = useState<string[]>([]);
   const [selectAll, setSelectAll] = useState(false);
   const [showTasks, setShowTasks] = useState(false);
-  const [excelFile, setExcelFile] = useState<File | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
   const [taskSearchQuery, setTaskSearchQuery] = useState('');
   const [taskFilter, setTaskFilter] = useState<'all' | 'completed' | 'ongoing' | 'progress'>('all');
   const [sortBy, setSortBy] = useState<'newToOld' | 'oldToNew' | 'dueSoon'>('newToOld');
@@ -106,15 +275,11 @@ export function NurturingList() {
     const fetchNurturingContacts = async () => {
       setLoading(true);
       try {
-        let query = supabase.from('nurturing_list').select('*');
-        if (profile.role !== 'admin') {
-          query = query.eq('agent_id', user.id);
-        } else if (selectedAgent && selectedAgent !== 'all') {
-          query = query.eq('agent_id', selectedAgent);
-        }
-        const { data, error } = await query;
-        if (error) throw new Error(`Failed to fetch nurturing contacts: ${error.message}`);
-        setContacts(data || []);
+        const agentId = profile.role !== 'admin'
+          ? user.id
+          : selectedAgent && selectedAgent !== 'all' ? selectedAgent : undefined;
+        const data = await fetchNurturingRows({ agentId });
+        setContacts(data);
       } catch (err: any) {
         setError(`Error fetching nurturing contacts: ${err.message}`);
         toast.error(`Error fetching nurturing contacts: ${err.message}`);
@@ -346,482 +511,134 @@ export function NurturingList() {
         return '⚪';
     }
   };
-  const handleDownloadPDF = (contact: NurturingContact) => {
+  const handleDownloadPDF = async (contact: NurturingContact) => {
     try {
-      const doc = new jsPDF();
-      const pageWidth = doc.internal.pageSize.getWidth();
-      const margin = 15;
-      const contentWidth = pageWidth - 2 * margin;
-      const primaryColor = [14, 105, 203];
-      const secondaryColor = [227, 239, 255];
-      const accentColor = [66, 153, 225];
-      doc.setFillColor(...primaryColor);
-      doc.rect(0, 0, pageWidth, 40, 'F');
-      doc.setFontSize(20);
-      doc.setTextColor(255, 255, 255);
-      doc.setFont(undefined, 'bold');
-      doc.text('Contact Details', margin, 25);
-      doc.text(`${contact.first_name} ${contact.last_name}`, pageWidth - margin, 25, { align: 'right' });
-      let y = 50;
-      doc.setDrawColor(...accentColor);
-      doc.setLineWidth(0.5);
-      doc.line(margin, y - 5, pageWidth - margin, y - 5);
-      doc.setFillColor(...secondaryColor);
-      doc.rect(margin, y, contentWidth, 120, 'F');
-      doc.setFontSize(12);
-      doc.setTextColor(...primaryColor);
-      doc.setFont(undefined, 'bold');
-      doc.text('CONTACT INFORMATION', margin + 5, y + 10);
-      doc.setDrawColor(...accentColor);
-      doc.line(margin + 5, y + 12, margin + 60, y + 12);
-      y += 20;
-      doc.setFontSize(10);
-      doc.setTextColor(0, 0, 0);
-      doc.setFont(undefined, 'normal');
-      doc.text(`Email: ${contact.email || 'N/A'}`, margin + 5, y);
-      doc.text(`Phone: ${contact.phone_number || 'N/A'}`, margin + 5, y + 8);
-      doc.text(`Mobile: ${contact.mobile || 'N/A'}`, margin + 5, y + 16);
-      doc.text(`Status: ${contact.status || 'N/A'}`, pageWidth / 2 + 5, y);
-      doc.text(`Priority: ${contact.priority ? contact.priority.charAt(0).toUpperCase() + contact.priority.slice(1) : 'N/A'} ${getPriorityEmoji(contact.priority)}`, pageWidth / 2 + 5, y + 8);
-      doc.text(`Call Back: ${contact.call_back_date ? new Date(contact.call_back_date).toLocaleDateString('en-IN', { timeZone: 'Asia/Kolkata' }) : 'N/A'}`, pageWidth / 2 + 5, y + 16);
-      y += 30;
-      doc.setFont(undefined, 'bold');
-      doc.setTextColor(...primaryColor);
-      doc.text('ADDRESS DETAILS', margin + 5, y);
-      doc.setDrawColor(...accentColor);
-      doc.line(margin + 5, y + 2, margin + 70, y + 2);
-      y += 10;
-      doc.setFont(undefined, 'normal');
-      doc.setTextColor(0, 0, 0);
-      doc.text(`Street: ${contact.street_number || ''} ${contact.street_name || ''}`, margin + 5, y);
-      doc.text(`Suburb: ${contact.suburb || 'N/A'}`, margin + 5, y + 8);
-      doc.text(`Postcode: ${contact.postcode || 'N/A'}`, margin + 5, y + 16);
-      doc.text(`House Type: ${contact.house_type || 'N/A'}`, margin + 5, y + 24);
-      y += 40;
-      doc.setFont(undefined, 'bold');
-      doc.setTextColor(...primaryColor);
-      doc.text('ADDITIONAL INFORMATION', margin + 5, y);
-      doc.setDrawColor(...accentColor);
-      doc.line(margin + 5, y + 2, margin + 110, y + 2);
-      y += 10;
-      doc.setFont(undefined, 'normal');
-      doc.setTextColor(0, 0, 0);
-      const requirements = contact.requirements || 'N/A';
-      const splitRequirements = doc.splitTextToSize(`Requirements: ${requirements}`, contentWidth - 10);
-      doc.text(splitRequirements, margin + 5, y);
-      y += 8 * splitRequirements.length;
-      doc.text(`Monthly Appraisals: ${contact.needs_monthly_appraisals ? 'Yes' : 'No'}`, margin + 5, y);
-      y += 15;
-      if (contact.notes) {
-        doc.setFillColor(...secondaryColor);
-        const notesHeight = 40;
-        doc.rect(margin, y, contentWidth, notesHeight, 'F');
-        doc.setFont(undefined, 'bold');
-        doc.setTextColor(...primaryColor);
-        doc.text('NOTES', margin + 5, y + 8);
-        doc.setDrawColor(...accentColor);
-        doc.line(margin + 5, y + 10, margin + 30, y + 10);
-        const notes = contact.notes;
-        const splitNotes = doc.splitTextToSize(notes, contentWidth - 10);
-        doc.setFont(undefined, 'normal');
-        doc.setTextColor(0, 0, 0);
-        doc.text(splitNotes, margin + 5, y + 15);
-        y += notesHeight + 5;
-      } else {
-        doc.setFillColor(...secondaryColor);
-        doc.rect(margin, y, contentWidth, 20, 'F');
-        doc.setFont(undefined, 'bold');
-        doc.setTextColor(...primaryColor);
-        doc.text('NOTES', margin + 5, y + 8);
-        doc.setDrawColor(...accentColor);
-        doc.line(margin + 5, y + 10, margin + 30, y + 10);
-        doc.setFont(undefined, 'normal');
-        doc.setTextColor(100, 100, 100);
-        doc.text('No notes available', margin + 5, y + 15);
-        y += 25;
-      }
-      const footerY = doc.internal.pageSize.getHeight() - 15;
-      doc.setFillColor(...primaryColor);
-      doc.rect(0, footerY, pageWidth, 15, 'F');
-      doc.setFontSize(8);
-      doc.setTextColor(255, 255, 255);
-      doc.text(`Generated on: ${new Date().toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })}`, margin, footerY + 10);
-      doc.text('Nurturing List Management System', pageWidth - margin, footerY + 10, { align: 'right' });
-      doc.save(`${contact.first_name}_${contact.last_name}_contact.pdf`);
+      await downloadReport(CONTACT_REPORT, contact);
     } catch (error: any) {
       console.error('Error generating individual PDF:', error);
       toast.error('Failed to generate PDF for this task. Please try again.');
     }
   };
-  const handleDownloadAllTasks = () => {
+  const handleDownloadAllTasks = async () => {
     try {
       if (contacts.length === 0) {
         toast.info('No tasks available to download.');
         return;
       }
-      const doc = new jsPDF();
-      const pageWidth = doc.internal.pageSize.getWidth();
-      const margin = 15;
-      const contentWidth = pageWidth - 2 * margin;
-      const primaryColor = [14, 105, 203];
-      const secondaryColor = [227, 239, 255];
-      const accentColor = [66, 153, 225];
-      doc.setFillColor(...primaryColor);
-      doc.rect(0, 0, pageWidth, 40, 'F');
-      doc.setFontSize(20);
-      doc.setTextColor(255, 255, 255);
-      doc.setFont(undefined, 'bold');
-      doc.text('All Nurturing Tasks', margin, 25);
-      doc.setFontSize(10);
-      doc.text(`Generated on: ${new Date().toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })}`, pageWidth - margin, 25, { align: 'right' });
-      doc.text(`Total Tasks: ${contacts.length}`, pageWidth - margin, 35, { align: 'right' });
-      let y = 50;
-      contacts.forEach((contact, index) => {
-        if (y > 250) {
-          doc.addPage();
-          y = 20;
-          doc.setFillColor(...primaryColor);
-          doc.rect(0, 0, pageWidth, 40, 'F');
-          doc.setFontSize(20);
-          doc.setTextColor(255, 255, 255);
-          doc.setFont(undefined, 'bold');
-          doc.text('All Nurturing Tasks (Continued)', margin, 25);
-          y = 50;
-        }
-        const notes = contact.notes || '';
-        const splitNotes = notes ? doc.splitTextToSize(notes, contentWidth - 10) : [];
-        const notesHeight = splitNotes.length * 5;
-        const cardHeight = 70 + (notes ? Math.max(notesHeight - 15, 0) : 0);
-        doc.setFillColor(...secondaryColor);
-        doc.roundedRect(margin, y, contentWidth, cardHeight, 3, 3, 'F');
-        doc.setDrawColor(...accentColor);
-        doc.roundedRect(margin, y, contentWidth, cardHeight, 3, 3, 'S');
-        doc.setFontSize(12);
-        doc.setTextColor(...primaryColor);
-        doc.setFont(undefined, 'bold');
-        doc.text(`${contact.first_name} ${contact.last_name}`, margin + 5, y + 10);
-        const status = contact.status || 'New';
-        const statusWidth = doc.getTextWidth(status) + 8;
-        doc.setFillColor(...primaryColor);
-        doc.roundedRect(margin + contentWidth - statusWidth - 5, y + 5, statusWidth, 8, 2, 2, 'F');
-        doc.setTextColor(255, 255, 255);
-        doc.setFontSize(8);
-        doc.text(status, margin + contentWidth - statusWidth/2 - 5, y + 9, { align: 'center' });
-        y += 15;
-        doc.setFontSize(9);
-        doc.setTextColor(0, 0, 0);
-        doc.setFont(undefined, 'normal');
-        doc.text(`Email: ${contact.email || 'N/A'}`, margin + 5, y + 10);
-        doc.text(`Phone: ${contact.phone_number || 'N/A'}`, margin + 5, y + 20);
-        doc.text(`Priority: ${contact.priority || 'N/A'} ${getPriorityEmoji(contact.priority)}`, margin + 5, y + 30);
-        doc.text(`Call Back: ${contact.call_back_date ? new Date(contact.call_back_date).toLocaleDateString('en-IN', { timeZone: 'Asia/Kolkata' }) : 'N/A'}`, margin + contentWidth/2, y + 10);
-        doc.text(`Status: ${contact.status || 'N/A'}`, margin + contentWidth/2, y + 20);
-        doc.text(`Appraisals: ${contact.needs_monthly_appraisals ? 'Yes' : 'No'}`, margin + contentWidth/2, y + 30);
-        y += 40;
-        if (notes) {
-          doc.setFont(undefined, 'bold');
-          doc.setTextColor(...primaryColor);
-          doc.text('Notes:', margin + 5, y);
-          doc.setFont(undefined, 'normal');
-          doc.setTextColor(0, 0, 0);
-          doc.text(splitNotes, margin + 5, y + 5);
-          y += splitNotes.length * 5 + 10;
-        }
-        if (index < contacts.length - 1) {
-          doc.setDrawColor(...accentColor);
-          doc.setLineWidth(0.3);
-          doc.line(margin, y, pageWidth - margin, y);
-          y += 10;
-        }
+      await downloadReport(TABLE_REPORT, {
+        id: 'all_nurturing_tasks',
+        title: 'All Nurturing Tasks',
+        landscape: true,
+        fontSize: 8,
+        kpis: [
+          { label: 'Total Tasks', value: contacts.length },
+          { label: 'Hot', value: contacts.filter((c) => c.priority === 'hot').length },
+          { label: 'Monthly Appraisals', value: contacts.filter((c) => c.needs_monthly_appraisals).length },
+        ],
+        head: ['Name', 'Email', 'Phone', 'Priority', 'Call Back', 'Status', 'Appraisals', 'Notes'],
+        rows: contacts.map((contact) => [
+          `${contact.first_name} ${contact.last_name}`,
+          contact.email || 'N/A',
+          contact.phone_number || contact.mobile || 'N/A',
+          priorityLabel(contact),
+          callBackDate(contact),
+          contact.status || 'New',
+          contact.needs_monthly_appraisals ? 'Yes' : 'No',
+          contact.notes || '',
+        ]),
       });
-      const footerY = doc.internal.pageSize.getHeight() - 15;
-      doc.setFillColor(...primaryColor);
-      doc.rect(0, footerY, pageWidth, 15, 'F');
-      doc.setFontSize(8);
-      doc.setTextColor(255, 255, 255);
-      doc.text(`Generated on: ${new Date().toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })}`, margin, footerY + 10);
-      doc.text('Nurturing List Management System', pageWidth - margin, footerY + 10, { align: 'right' });
-      doc.save('all_nurturing_tasks.pdf');
     } catch (error: any) {
       console.error('Error generating PDF for all tasks:', error);
       toast.error('Failed to generate PDF for all tasks. Please try again or contact support.');
     }
   };
-  const handleExcelImport = async () => {
-    if (!user) {
-      toast.error('User not authenticated');
-      return;
-    }
-    if (!excelFile) {
-      toast.error('Please select an Excel file to import');
+  const importAgentId = () => (profile?.role === 'admin' && selectedAgent !== 'all' ? selectedAgent : user?.id);
+  // The wizard hands over valid rows only; duplicates are checked next.
+  const handleImportRows = ({ rows, fileName, rollbackOnError }: ImportWizardResult) => {
+    if (!user) throw new Error('User not authenticated');
+    const existingEmails = new Set(contacts.map((c) => c.email.toLowerCase()));
+    const validContacts = rows
+      .map((row) => ({ ...toNurturingContact(row.values), agent_id: importAgentId() }))
+      // A row without an email gets a placeholder made from the name, which
+      // the duplicate preview ignores, so repeats of those are dropped here.
+      .filter((contact) => dedupeEmailKey(contact.email) || !existingEmails.has(contact.email!.toLowerCase()));
+    if (validContacts.length === 0) {
+      toast.info('No new valid contacts to import');
       return;
     }
+    const incoming = validContacts.map((contact, index) => toImportCandidate(`row-${index}`, contact));
+    setPendingImport({
+      rows: buildImportPreview(
+        incoming,
+        contacts.map((contact) => toImportCandidate(contact.id, contact))
+      ),
+      contacts: Object.fromEntries(incoming.map((candidate, index) => [candidate.key, validContacts[index]])),
+      fileName,
+      rollbackOnError,
+    });
+    setIsImportOpen(false);
+  };
+  // Runs once the duplicate preview is confirmed.
+  const commitExcelImport = async ({ insert, update, skipped }: ImportDecisions) => {
+    if (!pendingImport) return;
     setLoading(true);
     try {
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        try {
-          const fileData = new Uint8Array(e.target?.result as ArrayBuffer);
-          const workbook = XLSX.read(fileData, { type: 'array', dateNF: 'dd-mm-yyyy' });
-          const sheetName = workbook.SheetNames[0];
-          const sheet = workbook.Sheets[sheetName];
-          const jsonData = XLSX.utils.sheet_to_json(sheet, { raw: false, dateNF: 'dd-mm-yyyy' });
-          const existingEmails = new Set(contacts.map(c => c.email.toLowerCase()));
-          const validContacts: Partial<NurturingContact>[] = [];
-          const errors: string[] = [];
-          const allowedStatuses = ['Inprogress', 'Not interested', 'Undecided', 'Will list', 'Closed', 'will buy', 'will sell', 'wants to buy'];
-          const allowedPriorities = ['hot', 'warm', 'cold'];
-          
-          const cleanString = (value: any): string => {
-            if (value === null || value === undefined || value === '') return '';
-            if (typeof value === 'string') return value.trim();
-            return String(value).trim();
-          };
-
-          const normalizePhone = (phone: string): string => {
-            return phone.replace(/\D/g, '');
-          };
-
-          const parseDate = (dateStr: string): string | null => {
-            if (!dateStr) return null;
-            const match = dateStr.match(/^(\d{2})-(\d{2})-(\d{4})$/);
-            if (match) {
-              const [, day, month, year] = match;
-              const isoDate = `${year}-${month}-${day}`;
-              const parsedDate = new Date(isoDate);
-              if (!isNaN(parsedDate.getTime()) && parsedDate.getFullYear() === parseInt(year)) {
-                return isoDate;
-              }
-            }
-            const parsedDate = new Date(dateStr);
-            if (!isNaN(parsedDate.getTime())) {
-              const year = parsedDate.getFullYear();
-              const month = String(parsedDate.getMonth() + 1).padStart(2, '0');
-              const day = String(parsedDate.getDate()).padStart(2, '0');
-              return `${year}-${month}-${day}`;
-            }
-            return null;
-          };
-
-          const serialToDate = (serial: number): string | null => {
-            const excelEpoch = new Date(1899, 11, 31);
-            const date = new Date(excelEpoch.getTime() + serial * 24 * 60 * 60 * 1000);
-            if (serial < 60) date.setDate(date.getDate() - 1);
-            const year = date.getFullYear();
-            const month = String(date.getMonth() + 1).padStart(2, '0');
-            const day = String(date.getDate()).padStart(2, '0');
-            const isoDate = `${year}-${month}-${day}`;
-            const checkDate = new Date(isoDate);
-            if (isNaN(checkDate.getTime()) || checkDate.getFullYear() !== year) return null;
-            return isoDate;
-          };
-
-          const generateUniqueId = () => {
-            return `no-email-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-          };
-
-          const safeNumericValue = (value: any): string | null => {
-            if (value === null || value === undefined || value === '') return null;
-            const numericString = value.toString().replace(/[^0-9.]/g, '');
-            return numericString === '' ? null : numericString;
-          };
-
-          const safeBooleanValue = (value: any): boolean => {
-            if (value === null || value === undefined || value === '') return false;
-            if (typeof value === 'boolean') return value;
-            if (typeof value === 'number') return value !== 0;
-            if (typeof value === 'string') {
-              const lowerVal = value.toLowerCase().trim();
-              return lowerVal === 'yes' || lowerVal === 'true' || lowerVal === '1' || lowerVal === 'y';
-            }
-            return false;
-          };
-
-          jsonData.forEach((row: any, index: number) => {
-            // Check if row is completely empty (all values are null, undefined, or empty strings)
-            const isRowEmpty = Object.values(row).every(val => {
-              if (typeof val === 'string') return val.trim() === '';
-              return val === null || val === undefined;
-            });
-            
-            if (isRowEmpty) return;
-
-            let firstName = cleanString(row.first_name);
-            let lastName = cleanString(row.last_name);
-            
-            // Allow rows with missing first and last name but generate placeholder
-            if (!firstName && !lastName) {
-              // Generate placeholder names instead of erroring out
-              firstName = "Unknown";
-              lastName = `Contact_${generateUniqueId()}`;
-            } else if (!firstName) {
-              firstName = "Unknown";
-            } else if (!lastName) {
-              lastName = "Unknown";
-            }
-
-            let email = cleanString(row.email);
-            let finalEmail = email;
-            
-            if (!email) {
-              if (firstName || lastName) {
-                finalEmail = `${firstName.toLowerCase()}.${lastName.toLowerCase()}@placeholder.com`.replace(/\s+/g, '.');
-              } else {
-                finalEmail = `unknown.${generateUniqueId()}@placeholder.com`;
-              }
-            }
-
-            if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(finalEmail)) {
-              errors.push(`Row ${index + 2}: Invalid email format (${finalEmail})`);
-              return;
-            }
-
-            if (existingEmails.has(finalEmail.toLowerCase())) {
-              return;
-            }
-
-            // Provide default values for required fields that cannot be null
-            const phone = cleanString(row.phone_number) || "Not Provided";
-            const mobile = cleanString(row.mobile) || "Not Provided";
-
-            let status = cleanString(row.status);
-            if (!status) {
-              status = 'Inprogress';
-            } else {
-              const normalizedStatus = allowedStatuses.find(s => s.toLowerCase() === status.toLowerCase());
-              if (!normalizedStatus) {
-                errors.push(`Row ${index + 2}: Invalid status value (${status}). Must be one of: ${allowedStatuses.join(', ')}`);
-                return;
-              }
-              status = normalizedStatus;
-            }
-
-            let priority = cleanString(row.priority).toLowerCase();
-            if (!priority) {
-              priority = 'warm';
-            } else {
-              const normalizedPriority = allowedPriorities.find(p => p.toLowerCase() === priority);
-              if (!normalizedPriority) {
-                errors.push(`Row ${index + 2}: Invalid priority value (${priority}). Must be one of: ${allowedPriorities.join(', ')}`);
-                return;
-              }
-              priority = normalizedPriority;
-            }
-
-            const needsMonthlyAppraisals = safeBooleanValue(row.needs_monthly_appraisals);
-
-            let callBackDate: string | null = null;
-            if (row.call_back_date) {
-              if (typeof row.call_back_date === 'string') {
-                callBackDate = parseDate(row.call_back_date);
-                if (!callBackDate) {
-                  console.warn(`Row ${index + 2}: Invalid date format for call_back_date (${row.call_back_date})`);
-                }
-              } else if (typeof row.call_back_date === 'number') {
-                callBackDate = serialToDate(row.call_back_date);
-                if (!callBackDate) {
-                  console.warn(`Row ${index + 2}: Invalid date format for call_back_date (${row.call_back_date})`);
-                }
-              } else {
-                console.warn(`Row ${index + 2}: Invalid date format for call_back_date (${row.call_back_date})`);
-              }
-            }
-
-            // Import all fields with default values for required fields
-            const contactData: Partial<NurturingContact> = {
-              first_name: firstName,
-              last_name: lastName,
-              email: finalEmail,
-              phone_number: phone, // Default value for required field
-              mobile: mobile, // Default value for required field
-              street_number: safeNumericValue(row.street_number),
-              street_name: cleanString(row.street_name) || null,
-              suburb: cleanString(row.suburb) || null,
-              postcode: safeNumericValue(row.postcode),
-              house_type: cleanString(row.house_type) || null,
-              requirements: cleanString(row.requirements) || null,
-              notes: cleanString(row.notes) || null,
-              call_back_date: callBackDate,
-              needs_monthly_appraisals: needsMonthlyAppraisals,
-              status: status,
-              priority: priority as 'hot' | 'warm' | 'cold',
-              agent_id: profile?.role === 'admin' && selectedAgent !== 'all' ? selectedAgent : user.id,
-            };
-
-            // Remove undefined values but keep null values for database
-            Object.keys(contactData).forEach(key => {
-              if (contactData[key as keyof NurturingContact] === undefined) {
-                delete contactData[key as keyof NurturingContact];
-              }
-            });
-
-            validContacts.push(contactData);
-          });
-
-          if (errors.length > 0) {
-            toast.error(
-              <div>
-                <p>Some rows could not be imported:</p>
-                <ul className="max-h-40 overflow-y-auto mt-2">
-                  {errors.slice(0, 5).map((error, i) => (
-                    <li key={i} className="text-sm">{error}</li>
-                  ))}
-                  {errors.length > 5 && <li className="text-sm">...and {errors.length - 5} more errors</li>}
-                </ul>
-              </div>,
-              {
-                autoClose: 10000,
-              }
-            );
-          }
+      const toInsert = insert.map((key) => pendingImport.contacts[key]);
+      let importedData: NurturingContact[] = [];
+      if (toInsert.length) {
+        const { inserted, error } = await commitImportBatches<NurturingContact>({
+          source: IMPORT_SOURCES.nurturingList,
+          table: 'nurturing_list',
+          fileName: pendingImport.fileName,
+          records: toInsert,
+          rollbackOnError: pendingImport.rollbackOnError,
+        });
+        if (error) {
+          setContacts((current) => [...current, ...inserted]);
+          throw new Error(
+            pendingImport.rollbackOnError ? `${error}. Nothing was imported.` : `${error}. ${inserted.length} contacts were imported before it.`
+          );
+        }
+        importedData = inserted;
+      }
+      const updated: NurturingContact[] = [];
+      for (const { id, changes } of update) {
+        const { data, error } = await supabase
+          .from('nurturing_list')
+          .update(changes)
+          .eq('id', id)
+          .select()
+          .single();
+        if (error) throw new Error(`Failed to update contact: ${error.message}`);
+        updated.push(data as NurturingContact);
+      }
 
-          if (validContacts.length === 0) {
-            toast.info('No new valid contacts to import');
-            setLoading(false);
-            return;
-          }
+      setContacts((current) => [
+        ...current.map((contact) => updated.find((row) => row.id === contact.id) || contact),
+        ...importedData,
+      ]);
+      setPendingImport(null);
+      resetForm();
 
-          const { data: importedData, error } = await supabase
-            .from('nurturing_list')
-            .insert(validContacts)
-            .select<unknown, NurturingContact>();
+      const placeholderCount = toInsert.filter(c => c.email?.includes('@placeholder.com')).length;
+      const missingNameCount = toInsert.filter(c => c.first_name === "Unknown" || c.last_name === "Unknown").length;
+      const defaultPhoneCount = toInsert.filter(c => c.phone_number === "Not Provided").length;
 
-          if (error) {
-            console.error('Database error:', error);
-            throw new Error(`Failed to import Excel contacts: ${error.message}`);
-          }
+      let successMessage = `${toInsert.length} new contacts imported successfully from Excel`;
+      const warnings = [];
+      if (placeholderCount > 0) warnings.push(`${placeholderCount} with placeholder emails`);
+      if (missingNameCount > 0) warnings.push(`${missingNameCount} with auto-generated names`);
+      if (defaultPhoneCount > 0) warnings.push(`${defaultPhoneCount} with default phone numbers`);
 
-          setContacts([...contacts, ...importedData]);
-          setExcelFile(null);
-          resetForm();
-          
-          const placeholderCount = validContacts.filter(c => c.email?.includes('@placeholder.com')).length;
-          const missingNameCount = validContacts.filter(c => c.first_name === "Unknown" || c.last_name === "Unknown").length;
-          const defaultPhoneCount = validContacts.filter(c => c.phone_number === "Not Provided").length;
-          
-          let successMessage = `${validContacts.length} new contacts imported successfully from Excel`;
-          const warnings = [];
-          if (placeholderCount > 0) warnings.push(`${placeholderCount} with placeholder emails`);
-          if (missingNameCount > 0) warnings.push(`${missingNameCount} with auto-generated names`);
-          if (defaultPhoneCount > 0) warnings.push(`${defaultPhoneCount} with default phone numbers`);
-          
-          if (warnings.length > 0) {
-            successMessage += ` (${warnings.join(', ')})`;
-          }
-          toast.success(successMessage);
-        } catch (err: any) {
-          toast.error(`Error processing Excel file: ${err.message}`);
-        } finally {
-          setLoading(false);
-        }
-      };
-      reader.onerror = () => {
-        toast.error('Error reading Excel file');
-        setLoading(false);
-      };
-      reader.readAsArrayBuffer(excelFile);
-    } catch (err: any) {
-      toast.error(`Error importing Excel contacts: ${err.message}`);
+      if (warnings.length > 0) {
+        successMessage += ` (${warnings.join(', ')})`;
+      }
+      if (updated.length > 0) successMessage += `. Filled in details on ${updated.length} existing contacts`;
+      if (skipped > 0) successMessage += `. Skipped ${skipped} duplicates`;
+      toast.success(successMessage);
+    } catch (err) {
+      toast.error(`Error importing Excel contacts: ${err instanceof Error ? err.message : err}`);
+    } finally {
       setLoading(false);
     }
   };
@@ -861,7 +678,6 @@ export function NurturingList() {
     });
     setHasPhoneNumber('No');
     setMode('manual');
-    setExcelFile(null);
     setIsEditMode(false);
     setIsViewMode(false);
     setSelectedContact(null);
@@ -940,6 +756,17 @@ export function NurturingList() {
       return dateA - dateB;
     });
   }
+  const contactsExportSpec = (): ExportSpec => ({
+    id: 'nurturing_list',
+    title: 'Nurturing List',
+    tables: [{ name: 'Contacts', rows: sortedContacts, columns: EXPORT_COLUMNS }],
+    filters: activeFilters({
+      Agent: selectedAgent && selectedAgent !== 'all' ? agents.find((a) => a.id === selectedAgent)?.name || selectedAgent : '',
+      Search: taskSearchQuery.trim(),
+      Tasks: TASK_FILTER_LABELS[taskFilter],
+      'Completed only': showCompletedTasks,
+    }),
+  });
   const generateTasksReport = () => {
     if (sortedContacts.length === 0) {
       return <p className="text-gray-500 text-center py-8">No tasks found matching your criteria.</p>;
@@ -957,7 +784,7 @@ export function NurturingList() {
             >
               <div className="flex justify-between items-start mb-3">
                 <h4 className="font-semibold text-gray-800">
-                  {contact.first_name} {contact.last_name}
+                  <ContactName contact={contact} />
                 </h4>
                 <span className={`px-2 py-1 text-xs rounded-full ${getStatusBadgeClass(contact.status)}`}>
                   {contact.status || 'New'}
@@ -1047,7 +874,7 @@ export function NurturingList() {
                 transition={{ duration: 0.3 }}
               >
                 <td className="px-4 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                  {contact.first_name} {contact.last_name}
+                  <ContactName contact={contact} />
                 </td>
                 <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">{contact.email}</td>
                 <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">{contact.phone_number || 'N/A'}</td>
@@ -1207,24 +1034,20 @@ export function NurturingList() {
             )}
             {mode === 'excel' && (
               <div className="mb-4">
-                <input
-                  type="file"
-                  accept=".xlsx, .xls"
-                  onChange={(e) => setExcelFile(e.target.files?.[0] || null)}
-                  className="w-full p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                  aria-label="Upload Excel File"
-                />
+                <p className="text-sm text-gray-600">
+                  Upload a CSV or Excel file, match its columns to the list's fields and check the rows before anything is saved.
+                </p>
                 <motion.button
-                  onClick={handleExcelImport}
+                  onClick={() => setIsImportOpen(true)}
                   className={`mt-4 w-full py-3 px-4 rounded-lg text-white text-sm font-medium ${
-                    loading || !excelFile ? 'bg-gray-400 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700'
+                    loading ? 'bg-gray-400 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700'
                   } transition-all flex items-center justify-center`}
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
-                  disabled={loading || !excelFile}
+                  disabled={loading}
                 >
                   <Upload className="w-4 h-4 mr-2" />
-                  Import Excel File
+                  Import Spreadsheet
                 </motion.button>
               </div>
             )}
@@ -1615,15 +1438,26 @@ export function NurturingList() {
                   <p className="text-sm text-gray-600">
                     Showing {sortedContacts.length} of {contacts.length} tasks
                   </p>
-                  <motion.button
-                    onClick={handleDownloadAllTasks}
-                    className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700"
-                    whileHover={{ scale: 1.05 }}
-                    whileTap={{ scale: 0.95 }}
-                  >
-                    <Download className="w-4 h-4 mr-2" />
-                    Download Report
-                  </motion.button>
+                  <div className="flex gap-2">
+                    <motion.button
+                      onClick={handleDownloadAllTasks}
+                      className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700"
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                    >
+                      <Download className="w-4 h-4 mr-2" />
+                      Download Report
+                    </motion.button>
+                    <motion.button
+                      onClick={() => setIsExportOpen(true)}
+                      className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700"
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                    >
+                      <Download className="w-4 h-4 mr-2" />
+                      Export Table
+                    </motion.button>
+                  </div>
                 </div>
                 {generateTasksReport()}
               </motion.div>
@@ -1766,6 +1600,14 @@ export function NurturingList() {
                             >
                               Download All Tasks
                             </motion.button>
+                            <motion.button
+                              onClick={() => setIsExportOpen(true)}
+                              className="py-2 px-4 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700"
+                              whileHover={{ scale: 1.05 }}
+                              whileTap={{ scale: 0.95 }}
+                            >
+                              Export Table
+                            </motion.button>
                           </>
                         )}
                       </div>
@@ -1982,6 +1824,30 @@ export function NurturingList() {
           )}
         </AnimatePresence>
       </div>
+      {isImportOpen && (
+        <ImportWizard
+          title="Import Nurturing Contacts"
+          source={IMPORT_SOURCES.nurturingList}
+          fields={NURTURING_FIELDS}
+          dryRun={(rows) =>
+            dryRunImportRows('nurturing_list', rows, ({ values }) => ({ ...toNurturingContact(values), agent_id: importAgentId() }))
+          }
+          showHistory
+          submitLabel="Check duplicates for"
+          onSubmit={handleImportRows}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+      {pendingImport && (
+        <ImportDedupePreview
+          title="Check for duplicate contacts"
+          columns={IMPORT_COLUMNS}
+          rows={pendingImport.rows}
+          onCommit={commitExcelImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+      {isExportOpen && <ExportDialog spec={contactsExportSpec()} onClose={() => setIsExportOpen(false)} />}
     </motion.div>
   );
 }
\ No newline at end of file
@@ -1,6 +1,5 @@
-import { jsPDF } from 'jspdf';
-import autoTable from 'jspdf-autotable';
-import { Styles } from 'jspdf-autotable';
+import { CellInput } from 'jspdf-autotable';
+import { defineReport, ReportFact, ReportSection, ReportTableSection, reportBlob } from '../utils/pdfReport';
 import { EMIPlan, Calculations } from './EMIPlanCalculator';
 
 interface AmortizationScheduleEntry {
@@ -26,6 +25,19 @@ interface SingleAmortizationScheduleEntry {
   endingPrincipal: number;
 }
 
+interface EMIReportData {
+  emiPlan: EMIPlan;
+  calculations: Calculations;
+  // The calculator's "show own funds" toggle.
+  showOwnFundsDetails: boolean;
+}
+
+interface ScheduleReportData<T> {
+  emiPlan: EMIPlan;
+  schedule: T[];
+  title: string;
+}
+
 const formatCurrency = (value: number): string => {
   const isWholeNumber = Number.isInteger(value) || Math.abs(value % 1) < 0.0001;
   return new Intl.NumberFormat('en-US', {
@@ -36,340 +48,163 @@ const formatCurrency = (value: number): string => {
   }).format(value);
 };
 
-const createHeader = (doc: jsPDF, pageWidth: number, margin: number, title: string) => {
-  doc.setFontSize(24);
-  doc.setTextColor(0, 0, 139);
-  doc.text('H', pageWidth / 2 - 22, margin + 12, { align: 'center' });
-  
-  doc.setTextColor(0, 128, 255);
-  doc.setLineWidth(0.5);
-  doc.line(pageWidth / 2 - 25, margin + 14, pageWidth / 2 - 19, margin + 14);
-  
-  doc.setTextColor(0, 0, 139);
-  doc.setFontSize(18);
-  doc.text('ARCOURTS', pageWidth / 2 + 9, margin + 12, { align: 'center' });
-  
-  doc.setTextColor(0, 128, 255);
-  doc.setFontSize(14);
-  doc.text('SUCCESS', pageWidth / 2 + 10, margin + 20, { align: 'right' });
-  
-  doc.setTextColor(0, 0, 0);
-  doc.setFontSize(10);
-  doc.text(title, pageWidth / 2, margin + 28, { align: 'center' });
-};
-
-// Existing generatePLPDFBlob function (unchanged)
-export const generatePLPDFBlob = (emiPlan: EMIPlan, calculations: Calculations): Promise<Blob> => {
-  return new Promise((resolve) => {
-    const doc = new jsPDF({
-      orientation: 'portrait',
-      unit: 'mm',
-      format: 'a4',
-      compress: true
-    });
-
-    doc.internal.scaleFactor = 1.78;
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const pageHeight = doc.internal.pageSize.getHeight();
-    const margin = 10;
-    const contentWidth = pageWidth - 2 * margin;
-
-    doc.setFillColor(240, 245, 255);
-    doc.rect(0, 0, pageWidth, pageHeight, 'F');
-    doc.setDrawColor(0, 0, 139);
-    doc.setLineWidth(0.5);
-    doc.rect(margin, margin, pageWidth - 2 * margin, pageHeight - 2 * margin);
-
-    createHeader(doc, pageWidth, margin, 'Profit/Loss Overview Report');
-
-    doc.setFontSize(8);
-    doc.setTextColor(100, 100, 100);
-    const planName = emiPlan.typeOfLoan === 'Manual Entry' ? emiPlan.customLoanType : emiPlan.typeOfLoan;
-    doc.text(`Plan: ${planName}`, margin + 4, margin + 34);
-
-    const loanData = [
-      ['Type', planName],
-      ['Tenure (Yrs)', emiPlan.loanTenure.toString()],
-      ['Amount', formatCurrency(emiPlan.loanAmount)],
-      ['Int. Rate', `${emiPlan.interestPerAnnum}%`],
-      ['Bank %', `${emiPlan.bankPercent}%`],
-      ['Own %', `${emiPlan.ownPercent}%`],
-      ['GST %', `${emiPlan.gstPercentage || 0}%`],
-    ];
-
-    if (emiPlan.ownTenure !== 0) {
-      loanData.push(['Own Tenure', emiPlan.ownTenure.toString()]);
-    }
-    if (emiPlan.ownFundsInterestRate !== 0) {
-      loanData.push(['Own Int.', `${emiPlan.ownFundsInterestRate}%`]);
-    }
-
-    if (emiPlan.typeOfLoan === 'Rent Roll') {
-      loanData.push(['Rental Revenue', formatCurrency(emiPlan.rentalRevenue || 0)]);
-      loanData.push(['Per $ Value', formatCurrency(emiPlan.perDollarValue || 0)]);
-      loanData.push(['Rent Roll Value', formatCurrency(emiPlan.rentRollPurchaseValue || 0)]);
-    }
-
-    autoTable(doc, {
-      startY: margin + 40,
-      head: [['Loan Details', 'Values']],
-      body: loanData,
-      theme: 'grid',
-      headStyles: {
-        fillColor: [0, 0, 139],
-        textColor: [255, 255, 255],
-        fontSize: 8,
-        halign: 'center',
-        fontStyle: 'bold'
-      },
-      bodyStyles: {
-        fontSize: 7,
-        halign: 'center',
-        cellPadding: 1.5,
-        overflow: 'linebreak',
-      },
-      margin: { left: margin + 2, right: pageWidth / 2 + 2 },
-      tableWidth: contentWidth / 2 - 4,
-      columnStyles: {
-        0: { cellWidth: 20, fontStyle: 'bold' },
-        1: { cellWidth: 30 },
-      },
-    });
-
-    doc.setFontSize(9);
-    doc.setTextColor(0, 0, 139);
-    doc.text('Revenue', pageWidth / 2 + 4, margin + 40);
-
-    const revenueData = emiPlan.revenues.map(rev => [`${rev.name} (${rev.period})`, formatCurrency(rev.amount)]);
-
-    autoTable(doc, {
-      startY: margin + 45,
-      head: [['Description', 'Amount']],
-      body: revenueData,
-      theme: 'grid',
-      headStyles: {
-        fillColor: [0, 0, 139],
-        textColor: [255, 255, 255],
-        fontSize: 8,
-        halign: 'center',
-        fontStyle: 'bold'
-      },
-      bodyStyles: {
-        fontSize: 7,
-        halign: 'center',
-        cellPadding: 1.5,
-      },
-      margin: { left: pageWidth / 2 + 2, right: margin + 2 },
-      tableWidth: contentWidth / 2 - 4,
-      columnStyles: {
-        0: { cellWidth: 35 },
-        1: { cellWidth: 25 },
-      },
-    });
-
-    doc.setFontSize(9);
-    doc.setTextColor(0, 0, 139);
-    const revenueTableHeight = revenueData.length * 7 + 20;
-    doc.text('Expenses', pageWidth / 2 + 4, margin + 55 + revenueTableHeight);
-
-    const expenseData = emiPlan.expenses.map(exp => [`${exp.name} (${exp.period})`, formatCurrency(exp.amount)]);
-
-    autoTable(doc, {
-      startY: margin + 60 + revenueTableHeight,
-      head: [['Description', 'Amount']],
-      body: expenseData,
-      theme: 'grid',
-      headStyles: {
-        fillColor: [0, 0, 139],
-        textColor: [255, 255, 255],
+const planName = (emiPlan: EMIPlan) =>
+  emiPlan.typeOfLoan === 'Manual Entry' ? emiPlan.customLoanType : emiPlan.typeOfLoan;
+
+const planSubtitle = ({ emiPlan }: { emiPlan: EMIPlan }) => `Plan: ${planName(emiPlan)}`;
+
+const loanFacts = (emiPlan: EMIPlan): ReportFact[] => [
+  { label: 'Type', value: planName(emiPlan) },
+  { label: 'Tenure (Yrs)', value: emiPlan.loanTenure },
+  { label: 'Amount', value: formatCurrency(emiPlan.loanAmount) },
+  { label: 'Int. Rate', value: `${emiPlan.interestPerAnnum}%` },
+  { label: 'Bank %', value: `${emiPlan.bankPercent}%` },
+  { label: 'Own %', value: `${emiPlan.ownPercent}%` },
+  { label: 'GST %', value: `${emiPlan.gstPercentage || 0}%` },
+  ...(emiPlan.ownTenure !== 0 ? [{ label: 'Own Tenure', value: emiPlan.ownTenure }] : []),
+  ...(emiPlan.ownFundsInterestRate !== 0 ? [{ label: 'Own Int.', value: `${emiPlan.ownFundsInterestRate}%` }] : []),
+  ...(emiPlan.typeOfLoan === 'Rent Roll'
+    ? [
+        { label: 'Rental Revenue', value: formatCurrency(emiPlan.rentalRevenue || 0) },
+        { label: 'Per $ Value', value: formatCurrency(emiPlan.perDollarValue || 0) },
+        { label: 'Rent Roll Value', value: formatCurrency(emiPlan.rentRollPurchaseValue || 0) },
+      ]
+    : []),
+];
+
+// Loan details beside the revenue and expense lines.
+const planDetailSections = (emiPlan: EMIPlan): ReportSection[] => [
+  {
+    type: 'columns',
+    sections: [
+      { type: 'facts', title: 'Loan Details', facts: loanFacts(emiPlan) },
+      {
+        type: 'table',
+        title: 'Revenue',
         fontSize: 8,
-        halign: 'center',
-        fontStyle: 'bold'
-      },
-      bodyStyles: {
-        fontSize: 7,
-        halign: 'center',
-        cellPadding: 1.5,
-      },
-      margin: { left: pageWidth / 2 + 2, right: margin + 2 },
-      tableWidth: contentWidth / 2 - 4,
-      columnStyles: {
-        0: { cellWidth: 35 },
-        1: { cellWidth: 25 },
-      },
-    });
-
-    const loanTableHeight = loanData.length * 7 + 20;
-    const loanDetailsTableEndY = margin + 40 + loanTableHeight;
-
-    doc.setFontSize(9);
-    doc.setTextColor(0, 0, 139);
-    doc.text('Profit/Loss Yearly Summary', pageWidth / 2, loanDetailsTableEndY + 10 + revenueTableHeight, { align: 'center' });
-
-    const plData = calculations.yearlyAvg.map(entry => [
-      entry.period.toString(),
+        head: ['Description', 'Amount'],
+        rows: emiPlan.revenues.map((rev) => [`${rev.name} (${rev.period})`, formatCurrency(rev.amount)]),
+      },
+    ],
+  },
+  {
+    type: 'table',
+    title: 'Expenses',
+    fontSize: 8,
+    head: ['Description', 'Amount'],
+    rows: emiPlan.expenses.map((exp) => [`${exp.name} (${exp.period})`, formatCurrency(exp.amount)]),
+  },
+];
+
+// The own-funds columns are left out when hidden in the calculator or when
+// there are no own funds in the plan.
+const profitLossTable = ({ calculations, showOwnFundsDetails }: EMIReportData): ReportTableSection => {
+  const years = calculations.yearlyAvg;
+  const noOwnFunds = years.every((entry) => entry.ownAmount === 0 && entry.ownInterest === 0);
+  const showOwn = showOwnFundsDetails && !noOwnFunds;
+  const head = showOwn
+    ? ['YR', 'Rev', 'Exps', 'Own Amt', 'Own Pay', 'Loan Amt', 'Loan Pay', 'Own Int', 'Loan Int', 'P/L', 'Sta']
+    : ['YR', 'Rev', 'Exps', 'Own Pay', 'Loan Amt', 'Loan Pay', 'Loan Int', 'P/L', 'Sta'];
+  const plColumn = head.length - 2;
+  return {
+    type: 'table',
+    title: 'Profit/Loss Yearly Summary',
+    fontSize: 7,
+    head,
+    rows: years.map((entry) => [
+      entry.period,
       formatCurrency(entry.revenue),
       formatCurrency(entry.expenses),
-      formatCurrency(entry.ownAmount),
+      ...(showOwn ? [formatCurrency(entry.ownAmount)] : []),
       formatCurrency(entry.ownRepayment),
       formatCurrency(entry.loanAmount),
       formatCurrency(entry.loanRepayment),
-      formatCurrency(entry.ownInterest),
+      ...(showOwn ? [formatCurrency(entry.ownInterest)] : []),
       formatCurrency(entry.loanInterest),
       formatCurrency(entry.pl),
       entry.pl >= 0 ? 'Profit' : 'Loss',
-    ]);
-
-    const ownAmtAllZero = plData.every(row => parseFloat(row[3].replace(/[^\d.-]/g, '')) === 0);
-    const ownIntAllZero = plData.every(row => parseFloat(row[7].replace(/[^\d.-]/g, '')) === 0);
-    const excludeOwnColumns = ownAmtAllZero && ownIntAllZero;
-
-    const headers = excludeOwnColumns
-      ? [['YR', 'Rev', 'Exps', 'Own Pay', 'Loan Amt', 'Loan Pay', 'Loan Int', 'P/L', 'Sta']]
-      : [['YR', 'Rev', 'Exps', 'Own Amt', 'Own Pay', 'Loan Amt', 'Loan Pay', 'Own Int', 'Loan Int', 'P/L', 'Sta']];
-
-    const bodyData = excludeOwnColumns
-      ? plData.map(row => [row[0], row[1], row[2], row[4], row[5], row[6], row[8], row[9], row[10]])
-      : plData;
-
-    const columnStyles = excludeOwnColumns
-      ? {
-          0: { cellWidth: 8 },
-          1: { cellWidth: 24 },
-          2: { cellWidth: 24 },
-          3: { cellWidth: 24 },
-          4: { cellWidth: 24 },
-          5: { cellWidth: 24 },
-          6: { cellWidth: 24 },
-          7: { cellWidth: 24 },
-          8: { cellWidth: 11 },
-        }
-      : {
-          0: { cellWidth: 8 },
-          1: { cellWidth: 19 },
-          2: { cellWidth: 19 },
-          3: { cellWidth: 19 },
-          4: { cellWidth: 19 },
-          5: { cellWidth: 19 },
-          6: { cellWidth: 19 },
-          7: { cellWidth: 19 },
-          8: { cellWidth: 19 },
-          9: { cellWidth: 19 },
-          10: { cellWidth: 11 },
-        };
-
-    doc.setFont('helvetica', 'narrow');
-    autoTable(doc, {
-      startY: loanDetailsTableEndY + 15 + revenueTableHeight,
-      head: headers,
-      body: bodyData,
-      theme: 'grid',
-      headStyles: {
-        fillColor: [0, 0, 139],
-        textColor: [255, 255, 255],
-        fontSize: 8,
-        halign: 'center',
-        fontStyle: 'bold',
-        minCellWidth: 8,
-        cellPadding: 0.8,
-      },
-      bodyStyles: {
-        fontSize: 6,
-        halign: 'center',
-        cellPadding: 0.4,
-        overflow: 'linebreak',
-      },
-      margin: { left: margin, right: margin },
-      tableWidth: contentWidth,
-      tableLineWidth: 0.15,
-      columnStyles: columnStyles,
-      pageBreak: 'auto',
-      willDrawCell: (data) => {
-        if (data.section === 'body') {
-          const plIndex = excludeOwnColumns ? 7 : 9;
-          const staIndex = excludeOwnColumns ? 8 : 10;
-          if (data.column.index === staIndex) {
-            const cellValue = data.cell.raw as string;
-            doc.setFillColor(...(cellValue === 'Profit' ? [220, 255, 220] : [255, 220, 220]) as [number, number, number]);
-            doc.rect(data.cell.x, data.cell.y, data.cell.width, data.cell.height, 'F');
-          }
-          if (data.column.index === plIndex) {
-            const cellValue = data.cell.raw as string;
-            const numericValue = parseFloat(cellValue.replace(/[^\d.-]/g, ''));
-            doc.setTextColor(...(numericValue >= 0 ? [0, 128, 0] : [200, 0, 0]) as [number, number, number]);
-          }
-        }
-      },
-      didParseCell: (data) => {
-        if (data.section === 'head' || data.section === 'body') {
-          const text = data.cell.raw as string;
-          const textWidth = doc.getTextWidth(text);
-          const cellWidth = data.cell.width * doc.internal.scaleFactor;
-          if (textWidth > cellWidth) {
-            console.warn(`Text "${text}" in column ${data.column.index} (${data.section}) exceeds cell width: ${textWidth}mm > ${cellWidth}mm`);
-          }
-        }
-      },
-    });
-    doc.setFont('helvetica', 'normal');
-
-    doc.setFontSize(7);
-    doc.setTextColor(150, 150, 150);
-    doc.text('Generated by Harcourts Success EMI Calculator', pageWidth / 2, pageHeight - margin - 4, { align: 'center' });
-
-    const pdfBlob = doc.output('blob');
-    resolve(pdfBlob);
-  });
+    ]),
+    tone: (row, column) => (column >= plColumn ? (years[row].pl >= 0 ? 'good' : 'bad') : undefined),
+  };
 };
 
-export const generateAmortizationPDFBlob = (emiPlan: EMIPlan, amortizationSchedule: AmortizationScheduleEntry[]): Promise<Blob> => {
-  return new Promise((resolve) => {
-    const doc = new jsPDF({
-      orientation: 'landscape',
-      unit: 'mm',
-      format: 'a4',
-      compress: true
-    });
-    doc.internal.scaleFactor = 1.78;
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const pageHeight = doc.internal.pageSize.getHeight();
-    const margin = 12; // Increased margin for better spacing
-    const contentWidth = pageWidth - 2 * margin;
-    doc.setFillColor(240, 245, 255);
-    doc.rect(0, 0, pageWidth, pageHeight, 'F');
-    doc.setDrawColor(0, 0, 139);
-    doc.setLineWidth(0.5);
-    doc.rect(margin, margin, pageWidth - 2 * margin, pageHeight - 2 * margin);
-    createHeader(doc, pageWidth, margin, 'Amortization Schedule Report');
-    doc.setFontSize(8);
-    doc.setTextColor(100, 100, 100);
-    const planName = emiPlan.typeOfLoan === 'Manual Entry' ? emiPlan.customLoanType : emiPlan.typeOfLoan;
-    doc.text(`Plan: ${planName}`, margin + 4, margin + 34);
-    doc.setFontSize(9);
-    doc.setTextColor(0, 0, 139);
-    doc.text('Amortization Schedule Details', margin + 4, margin + 40);
-
-    const amortizationData = amortizationSchedule.map(entry => [
-      entry.month.toString(),
-      formatCurrency(entry.bankBeginningPrincipal),
-      formatCurrency(entry.bankMonthlyPrincipal),
-      formatCurrency(entry.bankMonthlyInterest),
-      formatCurrency(entry.bankTotalEMI),
-      formatCurrency(entry.bankEndingPrincipal),
-      formatCurrency(entry.ownBeginningPrincipal),
-      formatCurrency(entry.ownMonthlyPrincipal),
-      formatCurrency(entry.ownMonthlyInterest),
-      formatCurrency(entry.ownTotalEMI),
-      formatCurrency(entry.ownEndingPrincipal),
-    ]);
-
-    autoTable(doc, {
-      startY: margin + 45, // Adjusted startY to prevent overlap with header text
+const repaymentTable = (title: string, rows: CellInput[][]): ReportTableSection => ({
+  type: 'table',
+  title,
+  fontSize: 8,
+  head: ['Year', 'Principal ($)', 'Interest ($)', 'Total ($)'],
+  rows,
+});
+
+const singleScheduleRows = (schedule: SingleAmortizationScheduleEntry[]): CellInput[][] =>
+  schedule.map((entry) => [
+    entry.month,
+    formatCurrency(entry.beginningPrincipal),
+    formatCurrency(entry.monthlyPrincipal),
+    formatCurrency(entry.monthlyInterest),
+    formatCurrency(entry.totalEMI),
+    formatCurrency(entry.endingPrincipal),
+  ]);
+
+const PROFIT_LOSS_REPORT = defineReport<EMIReportData>({
+  id: 'emi_profit_loss',
+  title: () => 'Profit/Loss Overview Report',
+  subtitle: planSubtitle,
+  sections: (data) => [...planDetailSections(data.emiPlan), profitLossTable(data)],
+});
+
+const COMPLETE_REPORT = defineReport<EMIReportData>({
+  id: 'emi_complete',
+  title: () => 'Complete EMI Plan Report',
+  subtitle: planSubtitle,
+  sections: (data) => [...planDetailSections(data.emiPlan), profitLossTable(data)],
+});
+
+const YEARLY_BREAKDOWN_REPORT = defineReport<EMIReportData>({
+  id: 'emi_yearly_breakdown',
+  title: () => 'Yearly Repayment Breakdown Report',
+  subtitle: planSubtitle,
+  sections: ({ emiPlan, calculations, showOwnFundsDetails }) => {
+    const loan = repaymentTable(
+      'Loan Repayments Breakdown',
+      calculations.yearlyAvg.map((entry) => [
+        entry.period,
+        formatCurrency(entry.loanRepayment - entry.loanInterest),
+        formatCurrency(entry.loanInterest),
+        formatCurrency(entry.loanRepayment),
+      ])
+    );
+    const own = repaymentTable(
+      'Own Funds Repayments Breakdown',
+      calculations.yearlyAvg.map((entry) => [
+        entry.period,
+        formatCurrency(entry.ownRepayment - entry.ownInterest),
+        formatCurrency(entry.ownInterest),
+        formatCurrency(entry.ownRepayment),
+      ])
+    );
+    return [
+      { type: 'facts', title: 'Loan Details', facts: loanFacts(emiPlan) },
+      { type: 'columns', sections: showOwnFundsDetails ? [loan, own] : [loan] },
+    ];
+  },
+});
+
+const AMORTIZATION_REPORT = defineReport<ScheduleReportData<AmortizationScheduleEntry>>({
+  id: 'emi_amortization',
+  title: ({ title }) => title,
+  subtitle: planSubtitle,
+  orientation: () => 'landscape',
+  sections: ({ schedule }) => [
+    {
+      type: 'table',
+      title: 'Amortization Schedule Details',
+      fontSize: 7,
       head: [
         [
           { content: 'Month', rowSpan: 2 },
-          { content: 'Loan Details', colSpan: 5 },
-          { content: 'Own Funds Details', colSpan: 5 },
+          { content: 'Loan Details', colSpan: 5, styles: { halign: 'center' } },
+          { content: 'Own Funds Details', colSpan: 5, styles: { halign: 'center' } },
         ],
         [
           'Beg. Principal',
@@ -384,683 +219,79 @@ export const generateAmortizationPDFBlob = (emiPlan: EMIPlan, amortizationSchedu
           'End Principal',
         ],
       ],
-      body: amortizationData,
-      theme: 'grid',
-      headStyles: {
-        fillColor: [0, 0, 139],
-        textColor: [255, 255, 255],
-        fontSize: 7,
-        halign: 'center',
-        fontStyle: 'bold',
-        cellPadding: 2, // Added padding for header
-      },
-      bodyStyles: {
-        fontSize: 6,
-        halign: 'center',
-        cellPadding: 1.8, // Slightly increased for better readability
-        textColor: [0, 0, 0],
-      },
-      margin: { left: margin + 3, right: margin + 3 }, // Balanced margins
-      tableWidth: contentWidth - 6, // Adjusted to fit within margins
-      columnStyles: {
-        0: { cellWidth: 20 }, // Month column
-        1: { cellWidth: 22 }, // Loan Beg. Principal
-        2: { cellWidth: 20 }, // Loan Monthly Principal
-        3: { cellWidth: 20 }, // Loan Monthly Interest
-        4: { cellWidth: 20 }, // Loan Total EMI
-        5: { cellWidth: 22 }, // Loan End Principal
-        6: { cellWidth: 22 }, // Own Beg. Principal
-        7: { cellWidth: 20 }, // Own Monthly Principal
-        8: { cellWidth: 20 }, // Own Monthly Interest
-        9: { cellWidth: 20 }, // Own Total EMI
-        10: { cellWidth: 22 }, // Own End Principal
-      },
-      pageBreak: 'auto', // Changed to 'auto' to handle large tables better
-      didDrawCell: (data) => {
-        // Ensure text doesn't overflow
-        if (data.section === 'body' && data.column.index >= 1) {
-          doc.setFontSize(6);
-          doc.setTextColor(0, 0, 0);
-        }
-      },
-    });
-
-    doc.setFontSize(7);
-    doc.setTextColor(150, 150, 150);
-    doc.text('Generated by Harcourts Success EMI Calculator', pageWidth / 2, pageHeight - margin - 4, { align: 'center' });
-    const pdfBlob = doc.output('blob');
-    resolve(pdfBlob);
-  });
-};
-
-// New function for Loan Amortization PDF
-export const generateLoanAmortizationPDFBlob = (emiPlan: EMIPlan, amortizationSchedule: SingleAmortizationScheduleEntry[]): Promise<Blob> => {
-  return new Promise((resolve) => {
-    const doc = new jsPDF({
-      orientation: 'landscape',
-      unit: 'mm',
-      format: 'a4',
-      compress: true
-    });
-
-    doc.internal.scaleFactor = 1.78;
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const pageHeight = doc.internal.pageSize.getHeight();
-    const margin = 10;
-    const contentWidth = pageWidth - 2 * margin;
-
-    doc.setFillColor(240, 245, 255);
-    doc.rect(0, 0, pageWidth, pageHeight, 'F');
-    doc.setDrawColor(0, 0, 139);
-    doc.setLineWidth(0.5);
-    doc.rect(margin, margin, pageWidth - 2 * margin, pageHeight - 2 * margin);
-
-    createHeader(doc, pageWidth, margin, 'Loan Amortization Schedule Report');
-
-    doc.setFontSize(8);
-    doc.setTextColor(100, 100, 100);
-    const planName = emiPlan.typeOfLoan === 'Manual Entry' ? emiPlan.customLoanType : emiPlan.typeOfLoan;
-    doc.text(`Plan: ${planName}`, margin + 4, margin + 34);
-
-    doc.setFontSize(9);
-    doc.setTextColor(0, 0, 139);
-    doc.text('Loan Amortization Schedule Details', margin + 4, margin + 40);
-    
-    const amortizationData = amortizationSchedule.map(entry => [
-      entry.month.toString(),
-      formatCurrency(entry.beginningPrincipal),
-      formatCurrency(entry.monthlyPrincipal),
-      formatCurrency(entry.monthlyInterest),
-      formatCurrency(entry.totalEMI),
-      formatCurrency(entry.endingPrincipal),
-    ]);
-
-    autoTable(doc, {
-      startY: margin + 30,
-      head: [
-        [
-          'Month',
-          'Beginning Principal',
-          'Principal',
-          'Interest',
-          'Total EMI',
-          'Ending Principal',
-        ],
-      ],
-      body: amortizationData,
-      theme: 'grid',
-      headStyles: {
-        fillColor: [0, 0, 139],
-        textColor: [255, 255, 255],
-        fontSize: 7,
-        halign: 'center',
-        fontStyle: 'bold'
-      },
-      bodyStyles: {
-        fontSize: 6,
-        halign: 'center',
-        cellPadding: 1.5,
-      },
-      margin: { left: margin + 2, right: margin + 6 },
-      tableWidth: contentWidth,
-      columnStyles: {
-        0: { cellWidth: 20 },
-        1: { cellWidth: 30 },
-        2: { cellWidth: 25 },
-        3: { cellWidth: 25 },
-        4: { cellWidth: 25 },
-        5: { cellWidth: 30 },
-      },
-      pageBreak: 'auto',
-      didParseCell: (data) => {
-        if (data.section === 'head' || data.section === 'body') {
-          const text = data.cell.raw as string;
-          const textWidth = doc.getTextWidth(text);
-          const cellWidth = data.cell.width * doc.internal.scaleFactor;
-          if (textWidth > cellWidth) {
-            console.warn(`Text "${text}" in column ${data.column.index} (${data.section}) exceeds cell width: ${textWidth}mm > ${cellWidth}mm`);
-          }
-        }
-      },
-    });
-
-    doc.setFontSize(7);
-    doc.setTextColor(150, 150, 150);
-    doc.text('Generated by Harcourts Success EMI Calculator', pageWidth / 2, pageHeight - margin - 4, { align: 'center' });
-
-    const pdfBlob = doc.output('blob');
-    resolve(pdfBlob);
-  });
-};
-
-// New function for Own Funds Amortization PDF
-export const generateOwnAmortizationPDFBlob = (emiPlan: EMIPlan, amortizationSchedule: SingleAmortizationScheduleEntry[]): Promise<Blob> => {
-  return new Promise((resolve) => {
-    const doc = new jsPDF({
-      orientation: 'landscape',
-      unit: 'mm',
-      format: 'a4',
-      compress: true
-    });
-
-    doc.internal.scaleFactor = 1.78;
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const pageHeight = doc.internal.pageSize.getHeight();
-    const margin = 10;
-    const contentWidth = pageWidth - 2 * margin;
-
-    doc.setFillColor(240, 245, 255);
-    doc.rect(0, 0, pageWidth, pageHeight, 'F');
-    doc.setDrawColor(0, 0, 139);
-    doc.setLineWidth(0.5);
-    doc.rect(margin, margin, pageWidth - 2 * margin, pageHeight - 2 * margin);
-
-    createHeader(doc, pageWidth, margin, 'Own Funds Amortization Schedule Report');
-
-    doc.setFontSize(8);
-    doc.setTextColor(100, 100, 100);
-    const planName = emiPlan.typeOfLoan === 'Manual Entry' ? emiPlan.customLoanType : emiPlan.typeOfLoan;
-    doc.text(`Plan: ${planName}`, margin + 4, margin + 34);
-
-    doc.setFontSize(9);
-    doc.setTextColor(0, 0, 139);
-    doc.text('Own Funds Amortization Schedule Details', margin + 4, margin + 40);
-    
-    const amortizationData = amortizationSchedule.map(entry => [
-      entry.month.toString(),
-      formatCurrency(entry.beginningPrincipal),
-      formatCurrency(entry.monthlyPrincipal),
-      formatCurrency(entry.monthlyInterest),
-      formatCurrency(entry.totalEMI),
-      formatCurrency(entry.endingPrincipal),
-    ]);
-
-    autoTable(doc, {
-      startY: margin + 30,
-      head: [
-        [
-          'Month',
-          'Beginning Principal',
-          'Principal',
-          'Interest',
-          'Total EMI',
-          'Ending Principal',
-        ],
-      ],
-      body: amortizationData,
-      theme: 'grid',
-      headStyles: {
-        fillColor: [0, 0, 139],
-        textColor: [255, 255, 255],
-        fontSize: 7,
-        halign: 'center',
-        fontStyle: 'bold'
-      },
-      bodyStyles: {
-        fontSize: 6,
-        halign: 'center',
-        cellPadding: 1.5,
-      },
-      margin: { left: margin + 2, right: margin + 6 },
-      tableWidth: contentWidth,
-      columnStyles: {
-        0: { cellWidth: 20 },
-        1: { cellWidth: 30 },
-        2: { cellWidth: 25 },
-        3: { cellWidth: 25 },
-        4: { cellWidth: 25 },
-        5: { cellWidth: 30 },
-      },
-      pageBreak: 'auto',
-      didParseCell: (data) => {
-        if (data.section === 'head' || data.section === 'body') {
-          const text = data.cell.raw as string;
-          const textWidth = doc.getTextWidth(text);
-          const cellWidth = data.cell.width * doc.internal.scaleFactor;
-          if (textWidth > cellWidth) {
-            console.warn(`Text "${text}" in column ${data.column.index} (${data.section}) exceeds cell width: ${textWidth}mm > ${cellWidth}mm`);
-          }
-        }
-      },
-    });
-
-    doc.setFontSize(7);
-    doc.setTextColor(150, 150, 150);
-    doc.text('Generated by Harcourts Success EMI Calculator', pageWidth / 2, pageHeight - margin - 4, { align: 'center' });
-
-    const pdfBlob = doc.output('blob');
-    resolve(pdfBlob);
+      rows: schedule.map((entry) => [
+        entry.month,
+        formatCurrency(entry.bankBeginningPrincipal),
+        formatCurrency(entry.bankMonthlyPrincipal),
+        formatCurrency(entry.bankMonthlyInterest),
+        formatCurrency(entry.bankTotalEMI),
+        formatCurrency(entry.bankEndingPrincipal),
+        formatCurrency(entry.ownBeginningPrincipal),
+        formatCurrency(entry.ownMonthlyPrincipal),
+        formatCurrency(entry.ownMonthlyInterest),
+        formatCurrency(entry.ownTotalEMI),
+        formatCurrency(entry.ownEndingPrincipal),
+      ]),
+    },
+  ],
+});
+
+const SINGLE_AMORTIZATION_REPORT = defineReport<ScheduleReportData<SingleAmortizationScheduleEntry>>({
+  id: 'emi_single_amortization',
+  title: ({ title }) => title,
+  subtitle: planSubtitle,
+  orientation: () => 'landscape',
+  sections: ({ schedule, title }) => [
+    {
+      type: 'table',
+      title: title.replace(/ Report$/, ' Details'),
+      fontSize: 8,
+      head: ['Month', 'Beginning Principal', 'Principal', 'Interest', 'Total EMI', 'Ending Principal'],
+      rows: singleScheduleRows(schedule),
+    },
+  ],
+});
+
+export const generatePLPDFBlob = (
+  emiPlan: EMIPlan,
+  calculations: Calculations,
+  showOwnFundsDetails = true
+): Promise<Blob> => reportBlob(PROFIT_LOSS_REPORT, { emiPlan, calculations, showOwnFundsDetails });
+
+export const generateAmortizationPDFBlob = (
+  emiPlan: EMIPlan,
+  amortizationSchedule: AmortizationScheduleEntry[]
+): Promise<Blob> =>
+  reportBlob(AMORTIZATION_REPORT, { emiPlan, schedule: amortizationSchedule, title: 'Amortization Schedule Report' });
+
+export const generateLoanAmortizationPDFBlob = (
+  emiPlan: EMIPlan,
+  amortizationSchedule: SingleAmortizationScheduleEntry[]
+): Promise<Blob> =>
+  reportBlob(SINGLE_AMORTIZATION_REPORT, {
+    emiPlan,
+    schedule: amortizationSchedule,
+    title: 'Loan Amortization Schedule Report',
   });
-};
-
-// Existing generateYearlyBreakdownPDFBlob function (unchanged)
-export const generateYearlyBreakdownPDFBlob = (emiPlan: EMIPlan, calculations: Calculations): Promise<Blob> => {
-  return new Promise((resolve) => {
-    const doc = new jsPDF({
-      orientation: 'portrait',
-      unit: 'mm',
-      format: 'a4',
-      compress: true
-    });
-
-    doc.internal.scaleFactor = 1.78;
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const pageHeight = doc.internal.pageSize.getHeight();
-    const margin = 10;
-    const contentWidth = pageWidth - 2 * margin;
-
-    doc.setFillColor(240, 245, 255);
-    doc.rect(0, 0, pageWidth, pageHeight, 'F');
-    doc.setDrawColor(0, 0, 139);
-    doc.setLineWidth(0.5);
-    doc.rect(margin, margin, pageWidth - 2 * margin, pageHeight - 2 * margin);
-
-    createHeader(doc, pageWidth, margin, 'Yearly Repayment Breakdown Report');
-
-    doc.setFontSize(8);
-    doc.setTextColor(100, 100, 100);
-    const planName = emiPlan.typeOfLoan === 'Manual Entry' ? emiPlan.customLoanType : emiPlan.typeOfLoan;
-    doc.text(`Plan: ${planName}`, margin + 4, margin + 34);
-
-    const loanData = [
-      ['Type', planName],
-      ['Tenure (Yrs)', emiPlan.loanTenure.toString()],
-      ['Amount', formatCurrency(emiPlan.loanAmount)],
-      ['Int. Rate', `${emiPlan.interestPerAnnum}%`],
-      ['Bank %', `${emiPlan.bankPercent}%`],
-      ['Own %', `${emiPlan.ownPercent}%`],
-      ['GST %', `${emiPlan.gstPercentage || 0}%`],
-    ];
-
-    if (emiPlan.ownTenure !== 0) {
-      loanData.push(['Own Tenure', emiPlan.ownTenure.toString()]);
-    }
-    if (emiPlan.ownFundsInterestRate !== 0) {
-      loanData.push(['Own Int.', `${emiPlan.ownFundsInterestRate}%`]);
-    }
-
-    if (emiPlan.typeOfLoan === 'Rent Roll') {
-      loanData.push(['Rental Revenue', formatCurrency(emiPlan.rentalRevenue || 0)]);
-      loanData.push(['Per $ Value', formatCurrency(emiPlan.perDollarValue || 0)]);
-      loanData.push(['Rent Roll Value', formatCurrency(emiPlan.rentRollPurchaseValue || 0)]);
-    }
-
-    autoTable(doc, {
-      startY: margin + 40,
-      head: [['Loan Details', 'Values']],
-      body: loanData,
-      theme: 'grid',
-      headStyles: {
-        fillColor: [0, 0, 139],
-        textColor: [255, 255, 255],
-        fontSize: 8,
-        halign: 'center',
-        fontStyle: 'bold'
-      },
-      bodyStyles: {
-        fontSize: 7,
-        halign: 'center',
-        cellPadding: 1.5,
-        overflow: 'linebreak',
-      },
-      margin: { left: margin + 2, right: pageWidth / 2 + 2 },
-      tableWidth: contentWidth / 2 - 4,
-      columnStyles: {
-        0: { cellWidth: 20, fontStyle: 'bold' },
-        1: { cellWidth: 30 },
-      },
-    });
-
-    const loanTableHeight = loanData.length * 7 + 20;
-    const loanDetailsTableEndY = margin + 60 + loanTableHeight;
-
-    doc.setFontSize(9);
-    doc.setTextColor(0, 0, 139);
-    doc.text('Loan Repayments Breakdown', margin + 4, loanDetailsTableEndY + 10);
-
-    const loanRepaymentData = calculations.yearlyAvg.map(entry => [
-      entry.period.toString(),
-      formatCurrency(entry.loanRepayment - entry.loanInterest),
-      formatCurrency(entry.loanInterest),
-      formatCurrency(entry.loanRepayment),
-    ]);
-
-    autoTable(doc, {
-      startY: loanDetailsTableEndY + 15,
-      head: [['Year', 'Principal ($)', 'Interest ($)', 'Total ($)']],
-      body: loanRepaymentData,
-      theme: 'grid',
-      headStyles: {
-        fillColor: [0, 0, 139],
-        textColor: [255, 255, 255],
-        fontSize: 8,
-        halign: 'center',
-        fontStyle: 'bold'
-      },
-      bodyStyles: {
-        fontSize: 7,
-        halign: 'center',
-        cellPadding: 1.5,
-      },
-      margin: { left: margin + 2, right: pageWidth / 2 + 2 },
-      tableWidth: contentWidth / 2 - 4,
-      columnStyles: {
-        0: { cellWidth: 15 },
-        1: { cellWidth: 25 },
-        2: { cellWidth: 25 },
-        3: { cellWidth: 25 },
-      },
-    });
-
-    doc.setFontSize(9);
-    doc.setTextColor(0, 0, 139);
-    doc.text('Own Funds Repayments Breakdown', pageWidth / 2 + 4, loanDetailsTableEndY + 10);
-
-    const ownRepaymentData = calculations.yearlyAvg.map(entry => [
-      entry.period.toString(),
-      formatCurrency(entry.ownRepayment - entry.ownInterest),
-      formatCurrency(entry.ownInterest),
-      formatCurrency(entry.ownRepayment),
-    ]);
 
-    autoTable(doc, {
-      startY: loanDetailsTableEndY + 15,
-      head: [['Year', 'Principal ($)', 'Interest ($)', 'Total ($)']],
-      body: ownRepaymentData,
-      theme: 'grid',
-      headStyles: {
-        fillColor: [0, 0, 139],
-        textColor: [255, 255, 255],
-        fontSize: 8,
-        halign: 'center',
-        fontStyle: 'bold'
-      },
-      bodyStyles: {
-        fontSize: 7,
-        halign: 'center',
-        cellPadding: 1.5,
-      },
-      margin: { left: pageWidth / 2 + 2, right: margin + 2 },
-      tableWidth: contentWidth / 2 - 4,
-      columnStyles: {
-        0: { cellWidth: 15 },
-        1: { cellWidth: 25 },
-        2: { cellWidth: 25 },
-        3: { cellWidth: 25 },
-      },
-    });
-
-    doc.setFontSize(7);
-    doc.setTextColor(150, 150, 150);
-    doc.text('Generated by Harcourts Success EMI Calculator', pageWidth / 2, pageHeight - margin - 4, { align: 'center' });
-
-    const pdfBlob = doc.output('blob');
-    resolve(pdfBlob);
+export const generateOwnAmortizationPDFBlob = (
+  emiPlan: EMIPlan,
+  amortizationSchedule: SingleAmortizationScheduleEntry[]
+): Promise<Blob> =>
+  reportBlob(SINGLE_AMORTIZATION_REPORT, {
+    emiPlan,
+    schedule: amortizationSchedule,
+    title: 'Own Funds Amortization Schedule Report',
   });
-};
-
-// Existing generateCompletePDFBlob function (unchanged)
-export const generateCompletePDFBlob = (emiPlan: EMIPlan, calculations: Calculations): Promise<Blob> => {
-  return new Promise((resolve) => {
-    const doc = new jsPDF({
-      orientation: 'portrait',
-      unit: 'mm',
-      format: 'a4',
-      compress: true
-    });
 
-    doc.internal.scaleFactor = 1.78;
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const pageHeight = doc.internal.pageSize.getHeight();
-    const margin = 10;
-    const contentWidth = pageWidth - 2 * margin;
-
-    doc.setFillColor(240, 245, 255);
-    doc.rect(0, 0, pageWidth, pageHeight, 'F');
-    doc.setDrawColor(0, 0, 139);
-    doc.setLineWidth(0.5);
-    doc.rect(margin, margin, pageWidth - 2 * margin, pageHeight - 2 * margin);
-
-    createHeader(doc, pageWidth, margin, 'Complete EMI Plan Report');
-
-    doc.setFontSize(8);
-    doc.setTextColor(100, 100, 100);
-    const planName = emiPlan.typeOfLoan === 'Manual Entry' ? emiPlan.customLoanType : emiPlan.typeOfLoan;
-    doc.text(`Plan: ${planName}`, margin + 4, margin + 34);
-
-    const loanData = [
-      ['Type', planName],
-      ['Tenure (Yrs)', emiPlan.loanTenure.toString()],
-      ['Amount', formatCurrency(emiPlan.loanAmount)],
-      ['Int. Rate', `${emiPlan.interestPerAnnum}%`],
-      ['Bank %', `${emiPlan.bankPercent}%`],
-      ['Own %', `${emiPlan.ownPercent}%`],
-      ['GST %', `${emiPlan.gstPercentage || 0}%`],
-    ];
-
-    if (emiPlan.ownTenure !== 0) {
-      loanData.push(['Own Tenure', emiPlan.ownTenure.toString()]);
-    }
-    if (emiPlan.ownFundsInterestRate !== 0) {
-      loanData.push(['Own Int.', `${emiPlan.ownFundsInterestRate}%`]);
-    }
-
-    if (emiPlan.typeOfLoan === 'Rent Roll') {
-      loanData.push(['Rental Revenue', formatCurrency(emiPlan.rentalRevenue || 0)]);
-      loanData.push(['Per $ Value', formatCurrency(emiPlan.perDollarValue || 0)]);
-      loanData.push(['Rent Roll Purchase Value', formatCurrency(emiPlan.rentRollPurchaseValue || 0)]);
-    }
-
-    autoTable(doc, {
-      startY: margin + 40,
-      head: [['Loan Details', 'Values']],
-      body: loanData,
-      theme: 'grid',
-      headStyles: {
-        fillColor: [0, 0, 139],
-        textColor: [255, 255, 255],
-        fontSize: 8,
-        halign: 'center',
-        fontStyle: 'bold'
-      },
-      bodyStyles: {
-        fontSize: 7,
-        halign: 'center',
-        cellPadding: 1.5,
-        overflow: 'linebreak',
-      },
-      margin: { left: margin + 2, right: pageWidth / 2 + 2 },
-      tableWidth: contentWidth / 2 - 4,
-      columnStyles: {
-        0: { cellWidth: 20, fontStyle: 'bold' },
-        1: { cellWidth: 30 },
-      },
-    });
-
-    doc.setFontSize(9);
-    doc.setTextColor(0, 0, 139);
-    doc.text('Revenue', pageWidth / 2 + 4, margin + 40);
-
-    const revenueData = emiPlan.revenues.map(rev => [`${rev.name} (${rev.period})`, formatCurrency(rev.amount)]);
-
-    autoTable(doc, {
-      startY: margin + 45,
-      head: [['Description', 'Amount']],
-      body: revenueData,
-      theme: 'grid',
-      headStyles: {
-        fillColor: [0, 0, 139],
-        textColor: [255, 255, 255],
-        fontSize: 8,
-        halign: 'center',
-        fontStyle: 'bold'
-      },
-      bodyStyles: {
-        fontSize: 7,
-        halign: 'center',
-        cellPadding: 1.5,
-      },
-      margin: { left: pageWidth / 2 + 2, right: margin + 2 },
-      tableWidth: contentWidth / 2 - 4,
-      columnStyles: {
-        0: { cellWidth: 35 },
-        1: { cellWidth: 25 },
-      },
-    });
-
-    doc.setFontSize(9);
-    doc.setTextColor(0, 0, 139);
-    const revenueTableHeight = revenueData.length * 7 + 20;
-    doc.text('Expenses', pageWidth / 2 + 4, margin + 55 + revenueTableHeight);
-
-    const expenseData = emiPlan.expenses.map(exp => [`${exp.name} (${exp.period})`, formatCurrency(exp.amount)]);
-
-    autoTable(doc, {
-      startY: margin + 60 + revenueTableHeight,
-      head: [['Description', 'Amount']],
-      body: expenseData,
-      theme: 'grid',
-      headStyles: {
-        fillColor: [0, 0, 139],
-        textColor: [255, 255, 255],
-        fontSize: 8,
-        halign: 'center',
-        fontStyle: 'bold'
-      },
-      bodyStyles: {
-        fontSize: 7,
-        halign: 'center',
-        cellPadding: 1.5,
-      },
-      margin: { left: pageWidth / 2 + 2, right: margin + 2 },
-      tableWidth: contentWidth / 2 - 4,
-      columnStyles: {
-        0: { cellWidth: 35 },
-        1: { cellWidth: 25 },
-      },
-    });
-
-    const loanTableHeight = loanData.length * 7 + 20;
-    const expensesTableHeight = expenseData.length * 7 + 20;
-    const expensesTableEndY = margin + 60 + revenueTableHeight + expensesTableHeight;
-    const maxTableEndY = Math.max(loanTableHeight + margin + 40, expensesTableEndY);
-
-    doc.setFontSize(9);
-    doc.setTextColor(0, 0, 139);
-    doc.text('Profit/Loss Yearly Summary', pageWidth / 2, maxTableEndY + 10, { align: 'center' });
-
-    const plData = calculations.yearlyAvg.map(entry => [
-      entry.period.toString(),
-      formatCurrency(entry.revenue),
-      formatCurrency(entry.expenses),
-      formatCurrency(entry.ownAmount),
-      formatCurrency(entry.ownRepayment),
-      formatCurrency(entry.loanAmount),
-      formatCurrency(entry.loanRepayment),
-      formatCurrency(entry.ownInterest),
-      formatCurrency(entry.loanInterest),
-      formatCurrency(entry.pl),
-      entry.pl >= 0 ? 'Profit' : 'Loss',
-    ]);
-
-    const ownAmtAllZero = plData.every(row => parseFloat(row[3].replace(/[^\d.-]/g, '')) === 0);
-    const ownIntAllZero = plData.every(row => parseFloat(row[7].replace(/[^\d.-]/g, '')) === 0);
-    const excludeOwnColumns = ownAmtAllZero && ownIntAllZero;
-
-    const headers = excludeOwnColumns
-      ? [['YR', 'Rev', 'Exps', 'Own Pay', 'Loan Amt', 'Loan Pay', 'Loan Int', 'P/L', 'Sta']]
-      : [['YR', 'Rev', 'Exps', 'Own Amt', 'Own Pay', 'Loan Amt', 'Loan Pay', 'Own Int', 'Loan Int', 'P/L', 'Sta']];
-
-    const bodyData = excludeOwnColumns
-      ? plData.map(row => [row[0], row[1], row[2], row[4], row[5], row[6], row[8], row[9], row[10]])
-      : plData;
-
-    const columnStyles = excludeOwnColumns
-      ? {
-          0: { cellWidth: 8 },
-          1: { cellWidth: 24 },
-          2: { cellWidth: 24 },
-          3: { cellWidth: 24 },
-          4: { cellWidth: 24 },
-          5: { cellWidth: 24 },
-          6: { cellWidth: 24 },
-          7: { cellWidth: 24 },
-          8: { cellWidth: 11 },
-        }
-      : {
-          0: { cellWidth: 8 },
-          1: { cellWidth: 19 },
-          2: { cellWidth: 19 },
-          3: { cellWidth: 19 },
-          4: { cellWidth: 19 },
-          5: { cellWidth: 19 },
-          6: { cellWidth: 19 },
-          7: { cellWidth: 19 },
-          8: { cellWidth: 19 },
-          9: { cellWidth: 19 },
-          10: { cellWidth: 11 },
-        };
-
-    doc.setFont('helvetica', 'narrow');
-    autoTable(doc, {
-      startY: maxTableEndY + 15,
-      head: headers,
-      body: bodyData,
-      theme: 'grid',
-      headStyles: {
-        fillColor: [0, 0, 139],
-        textColor: [255, 255, 255],
-        fontSize: 8,
-        halign: 'center',
-        fontStyle: 'bold',
-        minCellWidth: 8,
-        cellPadding: 0.8,
-      },
-      bodyStyles: {
-        fontSize: 6,
-        halign: 'center',
-        cellPadding: 0.4,
-        overflow: 'linebreak',
-      },
-      margin: { left: margin, right: margin },
-      tableWidth: contentWidth,
-      tableLineWidth: 0.15,
-      columnStyles: columnStyles,
-      pageBreak: 'auto',
-      willDrawCell: (data) => {
-        if (data.section === 'body') {
-          const plIndex = excludeOwnColumns ? 7 : 9;
-          const staIndex = excludeOwnColumns ? 8 : 10;
-          if (data.column.index === staIndex) {
-            const cellValue = data.cell.raw as string;
-            doc.setFillColor(...(cellValue === 'Profit' ? [220, 255, 220] : [255, 220, 220]) as [number, number, number]);
-            doc.rect(data.cell.x, data.cell.y, data.cell.width, data.cell.height, 'F');
-          }
-          if (data.column.index === plIndex) {
-            const cellValue = data.cell.raw as string;
-            const numericValue = parseFloat(cellValue.replace(/[^\d.-]/g, ''));
-            doc.setTextColor(...(numericValue >= 0 ? [0, 128, 0] : [200, 0, 0]) as [number, number, number]);
-          }
-        }
-      },
-      didParseCell: (data) => {
-        if (data.section === 'head' || data.section === 'body') {
-          const text = data.cell.raw as string;
-          const textWidth = doc.getTextWidth(text);
-          const cellWidth = data.cell.width * doc.internal.scaleFactor;
-          if (textWidth > cellWidth) {
-            console.warn(`Text "${text}" in column ${data.column.index} (${data.section}) exceeds cell width: ${textWidth}mm > ${cellWidth}mm`);
-          }
-        }
-      },
-    });
-    doc.setFont('helvetica', 'normal');
-
-    doc.setFontSize(7);
-    doc.setTextColor(150, 150, 150);
-    doc.text('Generated by Harcourts Success EMI Calculator', pageWidth / 2, pageHeight - margin - 4, { align: 'center' });
-
-    const pdfBlob = doc.output('blob');
-    resolve(pdfBlob);
-  });
-};
\ No newline at end of file
+export const generateYearlyBreakdownPDFBlob = (
+  emiPlan: EMIPlan,
+  calculations: Calculations,
+  showOwnFundsDetails = true
+): Promise<Blob> => reportBlob(YEARLY_BREAKDOWN_REPORT, { emiPlan, calculations, showOwnFundsDetails });
+
+export const generateCompletePDFBlob = (
+  emiPlan: EMIPlan,
+  calculations: Calculations,
+  showOwnFundsDetails = true
+): Promise<Blob> => reportBlob(COMPLETE_REPORT, { emiPlan, calculations, showOwnFundsDetails });
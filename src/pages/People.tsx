@@ -0,0 +1,267 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Copy, Download, Loader2, Mail, Phone, Plus, Search, Users } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { useDebounce } from 'use-debounce';
+import { createPerson, fetchAllPeople, fetchPeoplePage, PersonSummary } from '../api/people';
+import { Page } from '../api/repository';
+import { ExportDialog } from '../components/ExportDialog';
+import { useAuthStore } from '../store/authStore';
+import { activeFilters, ExportColumn } from '../utils/exporter';
+import { SOURCE_TAG_LABELS, splitName, tagLabel } from '../utils/people';
+
+const EMPTY_FORM = { name: '', phone: '', email: '' };
+
+const EXPORT_COLUMNS: ExportColumn<PersonSummary>[] = [
+  { key: 'display_name', label: 'Name', value: (person) => person.display_name },
+  { key: 'first_name', label: 'First name', value: (person) => person.first_name, hidden: true },
+  { key: 'last_name', label: 'Last name', value: (person) => person.last_name, hidden: true },
+  { key: 'phone', label: 'Phone', value: (person) => person.phones[0]?.phone },
+  { key: 'other_phones', label: 'Other phones', value: (person) => person.phones.slice(1).map((p) => p.phone).join(', '), hidden: true },
+  { key: 'email', label: 'Email', value: (person) => person.emails[0]?.email },
+  { key: 'other_emails', label: 'Other emails', value: (person) => person.emails.slice(1).map((e) => e.email).join(', '), hidden: true },
+  { key: 'tags', label: 'Tags', value: (person) => person.tags.map(tagLabel).join(', ') },
+  { key: 'notes', label: 'Notes', value: (person) => person.notes, hidden: true },
+  { key: 'created_at', label: 'Added', value: (person) => person.created_at.slice(0, 10), hidden: true },
+];
+
+// One directory over everyone the agency deals with: nurturing contacts,
+// street contact owners and Form 6 owners all appear here as people.
+export function People() {
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const [search, setSearch] = useState('');
+  const [debouncedSearch] = useDebounce(search, 300);
+  const [tag, setTag] = useState('');
+  const [pageNumber, setPageNumber] = useState(1);
+  const [page, setPage] = useState<Page<PersonSummary> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [exportRows, setExportRows] = useState<PersonSummary[] | null>(null);
+  const [loadingExport, setLoadingExport] = useState(false);
+
+  useEffect(() => {
+    setPageNumber(1);
+  }, [debouncedSearch, tag]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchPeoplePage({ search: debouncedSearch, tag: tag || undefined }, { page: pageNumber, pageSize: 25 })
+      .then(setPage)
+      .catch((err) => toast.error(err instanceof Error ? err.message : 'Failed to load people'))
+      .finally(() => setLoading(false));
+  }, [debouncedSearch, tag, pageNumber]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) return toast.error('Enter a name');
+    setSaving(true);
+    try {
+      const person = await createPerson({
+        ...splitName(form.name),
+        agent_id: user?.id ?? null,
+        phone: form.phone,
+        email: form.email,
+      });
+      toast.success(`${person.display_name} added`);
+      navigate(`/people/${person.id}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to add person');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // The table is paged, so the export loads every match first.
+  const handleExport = async () => {
+    setLoadingExport(true);
+    try {
+      setExportRows(await fetchAllPeople({ search: debouncedSearch, tag: tag || undefined }));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load people');
+    } finally {
+      setLoadingExport(false);
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold text-blue-900 flex items-center">
+          <Users className="w-8 h-8 mr-3 text-blue-600" /> People
+        </h1>
+        <div className="flex gap-2">
+          <Link
+            to="/people/duplicates"
+            className="flex items-center px-4 py-2 border border-blue-300 text-blue-900 rounded-md hover:bg-blue-50"
+          >
+            <Copy className="w-4 h-4 mr-2" /> Review Duplicates
+          </Link>
+          <button
+            onClick={handleExport}
+            disabled={loadingExport || !page?.total}
+            className="flex items-center px-4 py-2 border border-blue-300 text-blue-900 rounded-md hover:bg-blue-50 disabled:opacity-50"
+          >
+            {loadingExport ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />} Export
+          </button>
+          <button
+            onClick={() => setShowForm((open) => !open)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4 mr-2" /> Add Person
+          </button>
+        </div>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="bg-white p-6 rounded-lg shadow-md border border-blue-200 mb-6 grid gap-4 md:grid-cols-4">
+          <input
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="Full name"
+            className="p-2 border border-blue-200 rounded-md"
+          />
+          <input
+            value={form.phone}
+            onChange={(e) => setForm({ ...form, phone: e.target.value })}
+            placeholder="Mobile"
+            className="p-2 border border-blue-200 rounded-md"
+          />
+          <input
+            type="email"
+            value={form.email}
+            onChange={(e) => setForm({ ...form, email: e.target.value })}
+            placeholder="Email"
+            className="p-2 border border-blue-200 rounded-md"
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />} Save
+          </button>
+        </form>
+      )}
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-blue-200">
+        <div className="flex flex-wrap gap-4 mb-4">
+          <div className="relative flex-1 min-w-[16rem]">
+            <Search className="w-4 h-4 absolute left-3 top-3 text-gray-400" />
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name, phone or email"
+              className="w-full pl-9 p-2 border border-blue-200 rounded-md"
+            />
+          </div>
+          <select value={tag} onChange={(e) => setTag(e.target.value)} className="p-2 border border-blue-200 rounded-md">
+            <option value="">All sources</option>
+            {Object.entries(SOURCE_TAG_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center text-blue-900 py-4">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" /> Loading people...
+          </div>
+        ) : !page?.rows.length ? (
+          <p className="text-gray-600">No people match.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-blue-900 border-b border-blue-200">
+                <th className="py-2 pr-4">Name</th>
+                <th className="py-2 pr-4">Phone</th>
+                <th className="py-2 pr-4">Email</th>
+                <th className="py-2">Tags</th>
+              </tr>
+            </thead>
+            <tbody>
+              {page.rows.map((person) => (
+                <tr key={person.id} className="border-b border-blue-50 hover:bg-blue-50">
+                  <td className="py-2 pr-4">
+                    <Link to={`/people/${person.id}`} className="font-medium text-blue-700 hover:underline">
+                      {person.display_name}
+                    </Link>
+                  </td>
+                  <td className="py-2 pr-4">
+                    {person.phones[0] ? (
+                      <a href={`tel:${person.phones[0].phone}`} className="flex items-center text-gray-700">
+                        <Phone className="w-3 h-3 mr-1" /> {person.phones[0].phone}
+                      </a>
+                    ) : (
+                      <span className="text-gray-400">—</span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {person.emails[0] ? (
+                      <a href={`mailto:${person.emails[0].email}`} className="flex items-center text-gray-700">
+                        <Mail className="w-3 h-3 mr-1" /> {person.emails[0].email}
+                      </a>
+                    ) : (
+                      <span className="text-gray-400">—</span>
+                    )}
+                  </td>
+                  <td className="py-2">
+                    <div className="flex flex-wrap gap-1">
+                      {person.tags.map((value) => (
+                        <span key={value} className="text-xs px-2 py-0.5 rounded-full bg-blue-100 text-blue-700">
+                          {tagLabel(value)}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {page && page.pageCount > 1 && (
+          <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+            <span>
+              {page.total} people · page {page.page} of {page.pageCount}
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPageNumber((n) => n - 1)}
+                disabled={page.page <= 1}
+                className="px-3 py-1 border border-blue-200 rounded-md disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPageNumber((n) => n + 1)}
+                disabled={page.page >= page.pageCount}
+                className="px-3 py-1 border border-blue-200 rounded-md disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {exportRows && (
+        <ExportDialog
+          spec={{
+            id: 'people',
+            title: 'People',
+            tables: [{ name: 'People', rows: exportRows, columns: EXPORT_COLUMNS }],
+            filters: activeFilters({ Search: debouncedSearch.trim(), Source: tag && tagLabel(tag) }),
+          }}
+          onClose={() => setExportRows(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+export default People;
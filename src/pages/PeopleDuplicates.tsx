@@ -0,0 +1,288 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import moment from 'moment';
+import { ArrowLeft, Copy, GitMerge, Loader2, UserX } from 'lucide-react';
+import { toast } from 'react-toastify';
+import {
+  DedupePerson,
+  dismissDuplicate,
+  duplicatePairKey,
+  fetchDuplicateDismissals,
+  fetchPeopleForDedupe,
+  mergePeople,
+} from '../api/people';
+import { DedupeRecord, DuplicateMatch, findDuplicatePairs, MATCH_REASON_LABELS } from '../utils/dedupe';
+import { formatPersonAddress, tagLabel } from '../utils/people';
+
+const PAGE_SIZE = 25;
+
+type Side = 'left' | 'right';
+
+const toRecord = (person: DedupePerson): DedupeRecord => ({
+  id: person.id,
+  names: [person.display_name],
+  phones: person.phones.map((phone) => phone.phone),
+  emails: person.emails.map((email) => email.email),
+  addresses: person.addresses,
+});
+
+const detailCount = (person: DedupePerson) =>
+  person.phones.length + person.emails.length + person.addresses.length + (person.notes ? 1 : 0);
+
+// The record with more on it survives by default; on a tie, the older one.
+const defaultKeep = (left: DedupePerson, right: DedupePerson): Side =>
+  detailCount(right) > detailCount(left) ||
+  (detailCount(right) === detailCount(left) && right.created_at < left.created_at)
+    ? 'right'
+    : 'left';
+
+interface MergePanelProps {
+  left: DedupePerson;
+  right: DedupePerson;
+  onMerged: (mergedId: string) => void;
+  onDismissed: () => void;
+}
+
+// Side-by-side comparison of two people. Phones, emails, addresses, tags,
+// property links and history from both are always kept; only the name and
+// notes need choosing.
+function MergePanel({ left, right, onMerged, onDismissed }: MergePanelProps) {
+  const [keep, setKeep] = useState<Side>(() => defaultKeep(left, right));
+  const [nameFrom, setNameFrom] = useState<Side>(keep);
+  const [notesFrom, setNotesFrom] = useState<Side | 'both'>(
+    left.notes && right.notes ? 'both' : left.notes ? 'left' : right.notes ? 'right' : 'both'
+  );
+  const [busy, setBusy] = useState(false);
+  const people = { left, right };
+
+  const handleMerge = async () => {
+    const survivor = people[keep];
+    const merged = people[keep === 'left' ? 'right' : 'left'];
+    if (!window.confirm(`Merge "${merged.display_name}" into "${survivor.display_name}"? This cannot be undone.`)) return;
+    setBusy(true);
+    try {
+      await mergePeople(survivor.id, merged.id, {
+        displayName: people[nameFrom].display_name,
+        notes: notesFrom === 'both' ? null : people[notesFrom].notes || '',
+      });
+      toast.success(`Merged into ${people[nameFrom].display_name}`);
+      onMerged(merged.id);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to merge people');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDismiss = async () => {
+    setBusy(true);
+    try {
+      await dismissDuplicate(left.id, right.id);
+      onDismissed();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to dismiss duplicate');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const column = (side: Side) => {
+    const person = people[side];
+    return (
+      <div className={`p-4 rounded-lg border ${keep === side ? 'border-blue-500 bg-blue-50' : 'border-blue-200'}`}>
+        <label className="flex items-center gap-2 font-medium text-blue-900 mb-3">
+          <input type="radio" checked={keep === side} onChange={() => setKeep(side)} /> Keep this record
+        </label>
+        <dl className="space-y-2 text-sm">
+          <div>
+            <dt className="text-gray-500">Name</dt>
+            <dd>
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={nameFrom === side} onChange={() => setNameFrom(side)} />
+                <Link to={`/people/${person.id}`} className="text-blue-700 hover:underline">
+                  {person.display_name}
+                </Link>
+              </label>
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Phones</dt>
+            <dd>{person.phones.map((phone) => phone.phone).join(', ') || '—'}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Emails</dt>
+            <dd>{person.emails.map((email) => email.email).join(', ') || '—'}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Addresses</dt>
+            <dd>{person.addresses.map(formatPersonAddress).join('; ') || '—'}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Tags</dt>
+            <dd>{person.tags.map(tagLabel).join(', ') || '—'}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Notes</dt>
+            <dd>
+              <label className="flex items-start gap-2">
+                <input
+                  type="radio"
+                  checked={notesFrom === side}
+                  onChange={() => setNotesFrom(side)}
+                  disabled={!person.notes}
+                  className="mt-1"
+                />
+                <span className="whitespace-pre-wrap">{person.notes || '—'}</span>
+              </label>
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Added</dt>
+            <dd>{moment(person.created_at).format('DD MMM YYYY')}</dd>
+          </div>
+        </dl>
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        {column('left')}
+        {column('right')}
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-3 mt-4">
+        {left.notes && right.notes ? (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="radio" checked={notesFrom === 'both'} onChange={() => setNotesFrom('both')} /> Keep both sets of
+            notes
+          </label>
+        ) : (
+          <span />
+        )}
+        <div className="flex gap-2">
+          <button
+            onClick={handleDismiss}
+            disabled={busy}
+            className="flex items-center px-4 py-2 border border-blue-300 rounded-md text-blue-900 hover:bg-blue-50 disabled:opacity-50"
+          >
+            <UserX className="w-4 h-4 mr-2" /> Not the same person
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={busy}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <GitMerge className="w-4 h-4 mr-2" />} Merge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Likely duplicates across the whole people directory, matched on phone,
+// email and address with fuzzy names, each reviewable side by side.
+export function PeopleDuplicates() {
+  const [people, setPeople] = useState<Map<string, DedupePerson>>(new Map());
+  const [pairs, setPairs] = useState<DuplicateMatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [open, setOpen] = useState<string | null>(null);
+  const [shown, setShown] = useState(PAGE_SIZE);
+
+  useEffect(() => {
+    Promise.all([fetchPeopleForDedupe(), fetchDuplicateDismissals()])
+      .then(([rows, dismissed]) => {
+        setPeople(new Map(rows.map((row) => [row.id, row])));
+        setPairs(findDuplicatePairs(rows.map(toRecord)).filter((pair) => !dismissed.has(duplicatePairKey(pair.id, pair.otherId))));
+      })
+      .catch((err) => toast.error(err instanceof Error ? err.message : 'Failed to load people'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const visible = useMemo(() => pairs.slice(0, shown), [pairs, shown]);
+
+  const removePairs = (predicate: (pair: DuplicateMatch) => boolean) => {
+    setPairs((current) => current.filter((pair) => !predicate(pair)));
+    setOpen(null);
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold text-blue-900 flex items-center">
+          <Copy className="w-8 h-8 mr-3 text-blue-600" /> Duplicate People
+        </h1>
+        <Link to="/people" className="flex items-center text-blue-700 hover:underline">
+          <ArrowLeft className="w-4 h-4 mr-1" /> Back to people
+        </Link>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-blue-200">
+        {loading ? (
+          <div className="flex items-center text-blue-900 py-4">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" /> Looking for duplicates...
+          </div>
+        ) : !pairs.length ? (
+          <p className="text-gray-600">No likely duplicates found.</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 mb-4">
+              {pairs.length} possible duplicates among {people.size} people, most certain first.
+            </p>
+            <div className="space-y-3">
+              {visible.map((pair) => {
+                const key = duplicatePairKey(pair.id, pair.otherId);
+                const left = people.get(pair.id);
+                const right = people.get(pair.otherId);
+                if (!left || !right) return null;
+                return (
+                  <div key={key} className="border border-blue-200 rounded-lg p-4">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <div>
+                        <span className="font-medium text-blue-900">
+                          {left.display_name} · {right.display_name}
+                        </span>
+                        <span
+                          className={`ml-3 text-xs px-2 py-0.5 rounded-full ${
+                            pair.confidence === 'certain' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                          }`}
+                        >
+                          {pair.reasons.map((reason) => MATCH_REASON_LABELS[reason]).join(', ')}
+                        </span>
+                      </div>
+                      <button
+                        onClick={() => setOpen(open === key ? null : key)}
+                        className="px-3 py-1 border border-blue-200 rounded-md text-sm hover:bg-blue-50"
+                      >
+                        {open === key ? 'Close' : 'Compare'}
+                      </button>
+                    </div>
+                    {open === key && (
+                      <MergePanel
+                        left={left}
+                        right={right}
+                        onMerged={(mergedId) => removePairs((p) => p.id === mergedId || p.otherId === mergedId)}
+                        onDismissed={() => removePairs((p) => duplicatePairKey(p.id, p.otherId) === key)}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {pairs.length > shown && (
+              <button
+                onClick={() => setShown((n) => n + PAGE_SIZE)}
+                className="mt-4 px-4 py-2 border border-blue-200 rounded-md text-sm hover:bg-blue-50"
+              >
+                Show more
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default PeopleDuplicates;
@@ -0,0 +1,490 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import moment from 'moment';
+import { Home, Loader2, Mail, MapPin, Phone, Plus, Star, Tag, Trash2, User, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import {
+  addPersonAddress,
+  addPersonEmail,
+  addPersonPhone,
+  deleteInteraction,
+  deletePersonAddress,
+  deletePersonEmail,
+  deletePersonPhone,
+  fetchPerson,
+  linkPersonProperty,
+  logInteraction,
+  PersonRecord,
+  setPrimaryEmail,
+  setPrimaryPhone,
+  unlinkPersonProperty,
+  updatePerson,
+} from '../api/people';
+import { fetchPropertyPage } from '../api/properties';
+import { useAuthStore } from '../store/authStore';
+import {
+  AddressLabel,
+  EmailLabel,
+  InteractionKind,
+  PhoneLabel,
+  PropertyRelationship,
+  PropertyRow,
+} from '../types/database';
+import {
+  ADDRESS_LABELS,
+  EMAIL_LABELS,
+  formatPersonAddress,
+  INTERACTION_LABELS,
+  normalizeTag,
+  PHONE_LABELS,
+  RELATIONSHIP_LABELS,
+  splitName,
+  tagLabel,
+} from '../utils/people';
+
+const EMPTY_ADDRESS = { street_number: '', street_name: '', suburb: '', postcode: '', label: 'home' as AddressLabel };
+
+const propertyAddress = (property: Pick<PropertyRow, 'street_number' | 'street_name' | 'suburb'>) =>
+  formatPersonAddress({ ...property, street_name: property.street_name || '', postcode: null });
+
+// A person's profile: every phone, email and address collected from the pages
+// that mention them, the listings they are tied to, their household and the
+// interaction history.
+export function PersonDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuthStore();
+  const [person, setPerson] = useState<PersonRecord | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [newTag, setNewTag] = useState('');
+  const [phone, setPhone] = useState({ value: '', label: 'mobile' as PhoneLabel });
+  const [email, setEmail] = useState({ value: '', label: 'personal' as EmailLabel });
+  const [address, setAddress] = useState(EMPTY_ADDRESS);
+  const [interaction, setInteraction] = useState({ kind: 'call' as InteractionKind, summary: '' });
+  const [propertySearch, setPropertySearch] = useState('');
+  const [propertyMatches, setPropertyMatches] = useState<PropertyRow[]>([]);
+  const [relationship, setRelationship] = useState<PropertyRelationship>('owner');
+
+  const load = useCallback(async () => {
+    if (!id) return;
+    try {
+      const record = await fetchPerson(id);
+      setPerson(record);
+      setName(record.display_name);
+      setNotes(record.notes || '');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load person');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    setLoading(true);
+    load();
+  }, [load]);
+
+  // Runs a change and reloads the profile, so derived lists stay consistent.
+  // Resolves to whether the change went through.
+  const run = async (action: () => Promise<unknown>, failure: string): Promise<boolean> => {
+    try {
+      await action();
+      await load();
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : failure);
+      return false;
+    }
+  };
+
+  const searchProperties = async () => {
+    if (!propertySearch.trim()) return;
+    try {
+      const page = await fetchPropertyPage({ filters: { search: propertySearch }, pageSize: 10 });
+      setPropertyMatches(page.rows);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to search properties');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-12 text-blue-900">
+        <Loader2 className="w-6 h-6 mr-2 animate-spin" /> Loading...
+      </div>
+    );
+  }
+  if (!person) return <div className="p-6 text-gray-600">Person not found.</div>;
+
+  if (person.merged_into) {
+    return (
+      <div className="max-w-4xl mx-auto p-6 text-gray-700">
+        {person.display_name} has been merged into{' '}
+        <Link to={`/people/${person.merged_into}`} className="text-blue-600 hover:underline">
+          another record
+        </Link>
+        .
+      </div>
+    );
+  }
+
+  const card = 'bg-white p-6 rounded-lg shadow-md border border-blue-200';
+  const input = 'p-2 border border-blue-200 rounded-md';
+
+  return (
+    <div className="max-w-5xl mx-auto p-6 space-y-6">
+      <div className={card}>
+        <div className="flex flex-wrap items-center gap-3">
+          <User className="w-8 h-8 text-blue-600" />
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={() =>
+              name.trim() && name.trim() !== person.display_name && run(() => updatePerson(person.id, splitName(name)), 'Failed to rename')
+            }
+            className="text-3xl font-bold text-blue-900 flex-1 border-b border-transparent focus:border-blue-300 outline-none"
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-2 mt-4">
+          <Tag className="w-4 h-4 text-gray-500" />
+          {person.tags.map((value) => (
+            <span key={value} className="flex items-center text-xs px-2 py-1 rounded-full bg-blue-100 text-blue-700">
+              {tagLabel(value)}
+              <button
+                onClick={() => run(() => updatePerson(person.id, { tags: person.tags.filter((t) => t !== value) }), 'Failed to remove tag')}
+                className="ml-1 hover:text-blue-900"
+                aria-label={`Remove ${tagLabel(value)}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              const value = normalizeTag(newTag);
+              if (!value || person.tags.includes(value)) return;
+              setNewTag('');
+              run(() => updatePerson(person.id, { tags: [...person.tags, value] }), 'Failed to add tag');
+            }}
+          >
+            <input value={newTag} onChange={(e) => setNewTag(e.target.value)} placeholder="Add tag" className="text-xs p-1 border border-blue-200 rounded-md" />
+          </form>
+        </div>
+        {person.household && (
+          <p className="text-sm text-gray-600 mt-4 flex items-center flex-wrap gap-1">
+            <Home className="w-4 h-4" /> Household: {person.household.name}
+            {person.householdMembers.map((member) => (
+              <Link key={member.id} to={`/people/${member.id}`} className="text-blue-600 hover:underline ml-2">
+                {member.display_name}
+              </Link>
+            ))}
+          </p>
+        )}
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={() => notes !== (person.notes || '') && run(() => updatePerson(person.id, { notes: notes || null }), 'Failed to save notes')}
+          placeholder="Notes"
+          rows={3}
+          className={`${input} w-full mt-4`}
+        />
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <div className={card}>
+          <h2 className="text-xl font-semibold text-blue-900 mb-3">Phones</h2>
+          <ul className="space-y-2 mb-3">
+            {person.phones.map((row) => (
+              <li key={row.id} className="flex items-center justify-between text-sm">
+                <a href={`tel:${row.phone}`} className="flex items-center text-gray-800">
+                  <Phone className="w-4 h-4 mr-2" /> {row.phone}
+                  <span className="ml-2 text-xs text-gray-500">{PHONE_LABELS[row.label]}</span>
+                </a>
+                <span className="flex gap-2">
+                  <button
+                    onClick={() => run(() => setPrimaryPhone(person.id, row.id), 'Failed to update phone')}
+                    className={row.is_primary ? 'text-yellow-500' : 'text-gray-300 hover:text-yellow-500'}
+                    aria-label="Make primary"
+                  >
+                    <Star className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => run(() => deletePersonPhone(row.id), 'Failed to remove phone')} className="text-red-500" aria-label="Remove phone">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!phone.value.trim()) return;
+              run(() => addPersonPhone(person.id, phone.value, phone.label, !person.phones.length), 'Failed to add phone').then((ok) =>
+                ok && setPhone({ ...phone, value: '' })
+              );
+            }}
+          >
+            <input value={phone.value} onChange={(e) => setPhone({ ...phone, value: e.target.value })} placeholder="Phone" className={`${input} flex-1`} />
+            <select value={phone.label} onChange={(e) => setPhone({ ...phone, label: e.target.value as PhoneLabel })} className={input}>
+              {Object.entries(PHONE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <button type="submit" className="px-3 bg-blue-600 text-white rounded-md" aria-label="Add phone">
+              <Plus className="w-4 h-4" />
+            </button>
+          </form>
+        </div>
+
+        <div className={card}>
+          <h2 className="text-xl font-semibold text-blue-900 mb-3">Emails</h2>
+          <ul className="space-y-2 mb-3">
+            {person.emails.map((row) => (
+              <li key={row.id} className="flex items-center justify-between text-sm">
+                <a href={`mailto:${row.email}`} className="flex items-center text-gray-800">
+                  <Mail className="w-4 h-4 mr-2" /> {row.email}
+                  <span className="ml-2 text-xs text-gray-500">{EMAIL_LABELS[row.label]}</span>
+                </a>
+                <span className="flex gap-2">
+                  <button
+                    onClick={() => run(() => setPrimaryEmail(person.id, row.id), 'Failed to update email')}
+                    className={row.is_primary ? 'text-yellow-500' : 'text-gray-300 hover:text-yellow-500'}
+                    aria-label="Make primary"
+                  >
+                    <Star className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => run(() => deletePersonEmail(row.id), 'Failed to remove email')} className="text-red-500" aria-label="Remove email">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!email.value.trim()) return;
+              run(() => addPersonEmail(person.id, email.value, email.label, !person.emails.length), 'Failed to add email').then((ok) =>
+                ok && setEmail({ ...email, value: '' })
+              );
+            }}
+          >
+            <input type="email" value={email.value} onChange={(e) => setEmail({ ...email, value: e.target.value })} placeholder="Email" className={`${input} flex-1`} />
+            <select value={email.label} onChange={(e) => setEmail({ ...email, label: e.target.value as EmailLabel })} className={input}>
+              {Object.entries(EMAIL_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <button type="submit" className="px-3 bg-blue-600 text-white rounded-md" aria-label="Add email">
+              <Plus className="w-4 h-4" />
+            </button>
+          </form>
+        </div>
+      </div>
+
+      <div className={card}>
+        <h2 className="text-xl font-semibold text-blue-900 mb-3">Addresses</h2>
+        <ul className="space-y-2 mb-3">
+          {person.addresses.map((row) => (
+            <li key={row.id} className="flex items-center justify-between text-sm">
+              <span className="flex items-center text-gray-800">
+                <MapPin className="w-4 h-4 mr-2" /> {formatPersonAddress(row)}
+                <span className="ml-2 text-xs text-gray-500">{ADDRESS_LABELS[row.label]}</span>
+              </span>
+              <button onClick={() => run(() => deletePersonAddress(row.id), 'Failed to remove address')} className="text-red-500" aria-label="Remove address">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <form
+          className="grid gap-2 md:grid-cols-6"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!address.street_name.trim()) return toast.error('Enter a street name');
+            run(
+              () =>
+                addPersonAddress({
+                  person_id: person.id,
+                  street_number: address.street_number.trim() || null,
+                  street_name: address.street_name.trim(),
+                  suburb: address.suburb.trim() || null,
+                  postcode: address.postcode.trim() || null,
+                  label: address.label,
+                }),
+              'Failed to add address'
+            ).then((ok) => ok && setAddress(EMPTY_ADDRESS));
+          }}
+        >
+          <input value={address.street_number} onChange={(e) => setAddress({ ...address, street_number: e.target.value })} placeholder="No." className={input} />
+          <input value={address.street_name} onChange={(e) => setAddress({ ...address, street_name: e.target.value })} placeholder="Street" className={`${input} md:col-span-2`} />
+          <input value={address.suburb} onChange={(e) => setAddress({ ...address, suburb: e.target.value })} placeholder="Suburb" className={input} />
+          <select value={address.label} onChange={(e) => setAddress({ ...address, label: e.target.value as AddressLabel })} className={input}>
+            {Object.entries(ADDRESS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <button type="submit" className="px-3 py-2 bg-blue-600 text-white rounded-md">
+            Add
+          </button>
+        </form>
+      </div>
+
+      <div className={card}>
+        <h2 className="text-xl font-semibold text-blue-900 mb-3">Properties</h2>
+        {person.properties.length ? (
+          <ul className="space-y-2 mb-3">
+            {person.properties.map((link) => (
+              <li key={`${link.property_id}-${link.relationship}`} className="flex items-center justify-between text-sm">
+                <span>
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700 mr-2">{RELATIONSHIP_LABELS[link.relationship]}</span>
+                  {link.property ? (
+                    <Link to={`/property-detail/${link.property.id}`} className="text-blue-600 hover:underline">
+                      {propertyAddress(link.property)}
+                    </Link>
+                  ) : (
+                    'Deleted property'
+                  )}
+                </span>
+                <button onClick={() => run(() => unlinkPersonProperty(link), 'Failed to unlink property')} className="text-red-500" aria-label="Unlink property">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 mb-3">Not linked to any listing.</p>
+        )}
+        <div className="flex gap-2">
+          <input
+            value={propertySearch}
+            onChange={(e) => setPropertySearch(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && searchProperties()}
+            placeholder="Find a listing by street or suburb"
+            className={`${input} flex-1`}
+          />
+          <select value={relationship} onChange={(e) => setRelationship(e.target.value as PropertyRelationship)} className={input}>
+            {Object.entries(RELATIONSHIP_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <button onClick={searchProperties} className="px-3 bg-blue-600 text-white rounded-md">
+            Search
+          </button>
+        </div>
+        {propertyMatches.length > 0 && (
+          <ul className="mt-2 border border-blue-100 rounded-md divide-y divide-blue-50">
+            {propertyMatches.map((property) => (
+              <li key={property.id}>
+                <button
+                  onClick={() =>
+                    run(() => linkPersonProperty(person.id, property.id, relationship), 'Failed to link property').then((ok) => {
+                      if (!ok) return;
+                      setPropertyMatches([]);
+                      setPropertySearch('');
+                    })
+                  }
+                  className="w-full text-left px-3 py-2 text-sm hover:bg-blue-50"
+                >
+                  {propertyAddress(property)}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className={card}>
+        <h2 className="text-xl font-semibold text-blue-900 mb-3">History</h2>
+        <form
+          className="flex gap-2 mb-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!interaction.summary.trim() || !user?.id) return;
+            run(
+              () => logInteraction({ person_id: person.id, agent_id: user.id, kind: interaction.kind, summary: interaction.summary.trim() }),
+              'Failed to log interaction'
+            ).then((ok) => ok && setInteraction({ ...interaction, summary: '' }));
+          }}
+        >
+          <select value={interaction.kind} onChange={(e) => setInteraction({ ...interaction, kind: e.target.value as InteractionKind })} className={input}>
+            {Object.entries(INTERACTION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <input
+            value={interaction.summary}
+            onChange={(e) => setInteraction({ ...interaction, summary: e.target.value })}
+            placeholder="What happened?"
+            className={`${input} flex-1`}
+          />
+          <button type="submit" className="px-4 bg-blue-600 text-white rounded-md">
+            Log
+          </button>
+        </form>
+        {person.interactions.length ? (
+          <ul className="divide-y divide-blue-50">
+            {person.interactions.map((row) => (
+              <li key={row.id} className="py-2 flex items-start justify-between text-sm">
+                <div>
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-blue-100 text-blue-700 mr-2">{INTERACTION_LABELS[row.kind]}</span>
+                  {row.summary}
+                  <p className="text-xs text-gray-500 mt-1">{moment(row.occurred_at).format('D MMM YYYY, h:mm a')}</p>
+                </div>
+                {row.agent_id === user?.id && (
+                  <button onClick={() => run(() => deleteInteraction(row.id), 'Failed to delete interaction')} className="text-red-500" aria-label="Delete interaction">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">Nothing logged yet.</p>
+        )}
+      </div>
+
+      {(person.nurturing.length > 0 || person.streetContacts.length > 0) && (
+        <div className={card}>
+          <h2 className="text-xl font-semibold text-blue-900 mb-3">Also listed on</h2>
+          <ul className="space-y-1 text-sm text-gray-700">
+            {person.nurturing.map((row) => (
+              <li key={row.id}>
+                <Link to="/nurturing-list" className="text-blue-600 hover:underline">
+                  Nurturing list
+                </Link>
+                {row.priority ? ` · ${row.priority}` : ''}
+                {row.status ? ` · ${row.status}` : ''}
+                {row.call_back_date ? ` · call back ${moment(row.call_back_date).format('D MMM YYYY')}` : ''}
+              </li>
+            ))}
+            {person.streetContacts.map((row) => (
+              <li key={row.id}>
+                Street contact at {[row.street_number, row.street_name].filter(Boolean).join(' ')}
+                {row.suburb ? `, ${row.suburb}` : ''}
+                {row.outcome ? ` · ${row.outcome}` : ''}
+                {row.call_back_date ? ` · call back ${moment(row.call_back_date).format('D MMM YYYY')}` : ''}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PersonDetail;
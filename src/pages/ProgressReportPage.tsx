@@ -2,11 +2,11 @@ import { useState, useEffect, useMemo, useCallback } from 'react';
 import { useAuthStore } from '../store/authStore';
 import { Loader2, Trash2, Edit, Download, FileText, BarChart, X, ArrowLeft, Plus, Filter } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { Chart as ChartJS, ArcElement, Tooltip, Legend, BarElement, CategoryScale, LinearScale, PointElement, LineElement } from 'chart.js';
+import { Chart as ChartJS, ArcElement, Tooltip, Legend, BarElement, CategoryScale, LinearScale, PointElement, LineElement, ChartData } from 'chart.js';
 import { Bar } from 'react-chartjs-2';
 import { motion, AnimatePresence } from 'framer-motion';
 import { supabase } from '../lib/supabase';
-import { generatePdf } from '../utils/pdfUtils';
+import { defineReport, downloadReport, reportBlob } from '../utils/pdfReport';
 import DatePicker from 'react-datepicker';
 import 'react-datepicker/dist/react-datepicker.css';
 import { toast } from 'react-toastify';
@@ -88,6 +88,61 @@ interface ProgressData {
   };
 }
 
+interface ProgressReportData {
+  plan: MarketingPlan;
+  progress: ProgressData;
+  // The charts on the page, redrawn in the PDF.
+  targetChart: ChartData<'bar'>;
+  streetChart: ChartData<'bar'>;
+}
+
+const progressPercent = (completed: number, target: number) =>
+  target > 0 ? Math.min(Math.round((completed / target) * 100), 100) : 0;
+
+const planDate = (value: string) => new Date(value).toLocaleDateString('en-AU');
+
+const PROGRESS_REPORT = defineReport<ProgressReportData>({
+  id: 'progress_report',
+  title: ({ plan }) => `Progress Report - ${plan.suburb}`,
+  subtitle: ({ plan }) => `Marketing plan ${planDate(plan.start_date)} to ${planDate(plan.end_date)}`,
+  fileName: ({ plan }) => `Progress_Report_${plan.suburb}_${new Date().toISOString().split('T')[0]}.pdf`,
+  sections: ({ progress, targetChart, streetChart }) => {
+    const metrics: [string, { completed: number; target: number }][] = [
+      ['Door Knocks', progress.doorKnocks],
+      ['Phone Calls', progress.phoneCalls],
+      ['Connects', progress.connects],
+      ['Desktop Appraisals', progress.desktopAppraisals],
+      ['Face-to-Face Appraisals', progress.faceToFaceAppraisals],
+    ];
+    return [
+      {
+        type: 'kpis',
+        items: metrics.map(([label, { completed, target }]) => ({
+          label,
+          value: `${progressPercent(completed, target)}%`,
+          note: `${completed} of ${target}`,
+          tone: target > 0 && completed >= target ? 'good' : undefined,
+        })),
+      },
+      {
+        type: 'table',
+        title: 'Targets',
+        head: ['Metric', 'Target', 'Completed', 'Progress'],
+        rows: metrics.map(([label, { completed, target }]) => [
+          label,
+          target,
+          completed,
+          `${progressPercent(completed, target)}%`,
+        ]),
+      },
+      { type: 'chart', title: 'Target vs Completed', chart: { type: 'bar', data: targetChart } },
+      ...(streetChart.labels?.length
+        ? [{ type: 'chart' as const, title: 'Street Progress', chart: { type: 'bar' as const, data: streetChart } }]
+        : []),
+    ];
+  },
+});
+
 export function ProgressReportPage() {
   const { user, profile } = useAuthStore();
   const navigate = useNavigate();
@@ -458,35 +513,24 @@ export function ProgressReportPage() {
     if (!selectedPlan) return;
 
     try {
-      const head = [
-        ['Metric', 'Target', 'Completed', 'Progress'],
-      ];
-
-      const body = [
-        ['Door Knocks', progressData.doorKnocks.target, progressData.doorKnocks.completed, `${calculatePercentage(progressData.doorKnocks.completed, progressData.doorKnocks.target)}%`],
-        ['Phone Calls', progressData.phoneCalls.target, progressData.phoneCalls.completed, `${calculatePercentage(progressData.phoneCalls.completed, progressData.phoneCalls.target)}%`],
-        ['Connects', progressData.connects.target, progressData.connects.completed, `${calculatePercentage(progressData.connects.completed, progressData.connects.target)}%`],
-        ['Desktop Appraisals', progressData.desktopAppraisals.target, progressData.desktopAppraisals.completed, `${calculatePercentage(progressData.desktopAppraisals.completed, progressData.desktopAppraisals.target)}%`],
-        ['Face-to-Face Appraisals', progressData.faceToFaceAppraisals.target, progressData.faceToFaceAppraisals.completed, `${calculatePercentage(progressData.faceToFaceAppraisals.completed, progressData.faceToFaceAppraisals.target)}%`],
-      ];
-
-      const fileName = `Progress_Report_${selectedPlan.suburb}_${new Date().toISOString().split('T')[0]}.pdf`;
-
+      const report = {
+        plan: selectedPlan,
+        progress: progressData,
+        targetChart: progressChartData,
+        streetChart: streetProgressData,
+      };
       if (download) {
-        await generatePdf(`Progress Report - ${selectedPlan.suburb}`, head, body, fileName, 'save');
+        await downloadReport(PROGRESS_REPORT, report);
         setNotification('PDF downloaded successfully');
       } else {
-        const blob = await generatePdf(`Progress Report - ${selectedPlan.suburb}`, head, body, fileName, 'blob') as Blob;
-        if (blob instanceof Blob) {
-          setPdfPreviewUrl(URL.createObjectURL(blob));
-          setShowPDFPreview(true);
-        }
+        setPdfPreviewUrl(URL.createObjectURL(await reportBlob(PROGRESS_REPORT, report)));
+        setShowPDFPreview(true);
       }
     } catch (err) {
       console.error('Error generating PDF:', err);
       toast.error('Failed to generate PDF');
     }
-  }, [selectedPlan, progressData]);
+  }, [selectedPlan, progressData, progressChartData, streetProgressData]);
 
   // UI Components
   const RadialProgress = ({ percentage, color, label, completed, target }: {
@@ -1,25 +1,34 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
-import { supabase } from '../lib/supabase';
-import { Loader2, Download, ArrowLeft, MapPin, DollarSign, Home, Calendar, Heart, ArrowRight, ShieldCheck, Zap, Building, Bed, Bath, Car, Maximize, LandPlot, User, Building2, AlertTriangle, Shield, CheckSquare, FileText } from 'lucide-react';
+import { Loader2, Download, ArrowLeft, MapPin, DollarSign, Home, Calendar, Heart, ArrowRight, ShieldCheck, Zap, Building, Bed, Bath, Car, Maximize, LandPlot, User, Building2, AlertTriangle, Shield, CheckSquare, FileText, Scale, Link2 } from 'lucide-react';
 import { formatCurrency } from '../utils/formatters';
 import { Property } from '../types/Property';
-import jsPDF from 'jspdf';
-import autoTable from 'jspdf-autotable';
 import { motion } from 'framer-motion';
 import moment from 'moment';
-import { normalizeSuburb } from '../utils/subrubUtils';
+import { isKnownSuburb, normalizeSuburb } from '../utils/gazetteer';
+import { GeocodeStatus } from '../utils/geocoding';
+import { geocodeRow } from '../api/geocoding';
+import { fetchAllProperties, fetchPastRecords, fetchPropertyById } from '../api/properties';
+import { ComparableSalesPanel } from '../components/ComparableSalesPanel';
+import { PropertyHistoryPanel } from '../components/PropertyHistoryPanel';
+import { ShareLinkDialog } from '../components/ShareLinkDialog';
+import { usePermissions } from '../store/authStore';
+import { fetchLedgerEntry } from '../api/commissionLedger';
+import { CommissionLedgerRow } from '../types/database';
+import { propertyCommission } from '../utils/commission';
+import { downloadReport } from '../utils/pdfReport';
+import { PROPERTY_REPORT } from '../utils/reportTemplates';
 import L, { LatLngTuple } from 'leaflet';
 import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
 import 'leaflet/dist/leaflet.css';
 
-// Logo URL from Logo.tsx
-const LOGO_URL = 'https://raw.githubusercontent.com/Naveen06-A/image-/451d7ca2516e5ab3862be90d6f5b448d48ade876/red-tulip-logo.jpg';
-
 // Extend Property interface
 interface ExtendedProperty extends Property {
+  agent_id?: string | null;
+  user_id?: string | null;
   latitude?: number;
   longitude?: number;
+  geocode_status?: GeocodeStatus | null;
   same_street_sales: Array<{
     address: string;
     sale_price: number;
@@ -48,212 +57,22 @@ interface ExtendedProperty extends Property {
 }
 
 // Helper functions
-const calculateCommission = (property: ExtendedProperty): { commissionRate: number; commissionEarned: number } => {
-  const commissionRate = property.commission || 0;
-  const basePrice = property.sold_price || property.price || 0;
-  const commissionEarned = commissionRate > 0 && basePrice > 0 ? basePrice * (commissionRate / 100) : 0;
-  return { commissionRate, commissionEarned };
-};
-const ALLOWED_SUBURBS = [
-  'Moggill QLD 4070',
-  'Bellbowrie QLD 4070',
-  'Pullenvale QLD 4069',
-  'Brookfield QLD 4069',
-  'Anstead QLD 4070',
-  'Chapel Hill QLD 4069',
-  'Kenmore QLD 4069',
-  'Kenmore Hills QLD 4069',
-  'Fig Tree Pocket QLD 4069',
-  'Pinjarra Hills QLD 4069',
-  'Springfield QLD 4300',
-  'Spring Mountain QLD 4300',
-].map(suburb => normalizeSuburb(suburb));
-const generateMockCoordinates = (suburb: string = 'Brisbane', index: number = 0): { latitude: number; longitude: number } => {
-  const baseCoords: Record<string, { lat: number; lng: number }> = {
-    'Pullenvale 4069': { lat: -27.522, lng: 152.885 },
-    'Brookfield 4069': { lat: -27.493, lng: 152.897 },
-    'Anstead 4070': { lat: -27.538, lng: 152.861 },
-    'Chapell Hill 4069': { lat: -27.502, lng: 152.971 },
-    'Kenmore 4069': { lat: -27.507, lng: 152.939 },
-    'Kenmore Hills 4069': { lat: -27.502, lng: 152.929 },
-    'Fig Tree Pocket 4069': { lat: -27.529, lng: 152.961 },
-    'Pinjara Hills 4069': { lat: -27.537, lng: 152.906 },
-    'Moggill 4070': { lat: -27.570, lng: 152.874 },
-    'Bellbowrie 4070': { lat: -27.559, lng: 152.886 },
-    'Springfield  4300': { lat: -27.653, lng: 152.918 },
-    'Spring Mountain 4300': { lat: -27.690, lng: 152.895 },
-  };
-  const normalizedSuburb = normalizeSuburb(suburb);
-  const base = baseCoords[normalizedSuburb] || { lat: -27.467, lng: 153.028 };
-  const offset = index * 0.0005;
-  return {
-    latitude: base.lat + offset,
-    longitude: base.lng + offset,
-  };
-};
-
 const generatePDFReport = async (
   property: ExtendedProperty,
   options: {
     includeSameStreetSales: boolean;
     includePastRecords: boolean;
-    includePrediction: boolean;
+    ledgerEntry?: CommissionLedgerRow | null;
   }
 ) => {
   try {
-    const doc = new jsPDF('p', 'mm', 'a4');
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const pageHeight = doc.internal.pageSize.getHeight();
-    const margin = 15;
-    const companyName = 'Red Tulip RealEsatate';
-    const reportDate = moment().format('DD/MM/YYYY');
-
-    // Add watermark function
-    const addWatermark = async () => {
-      return new Promise<void>((resolve) => {
-        const img = new Image();
-        img.crossOrigin = 'Anonymous';
-        img.src = LOGO_URL;
-
-        img.onload = () => {
-          doc.saveGraphicsState();
-          doc.setGState(new (doc as any).GState({ opacity: 0.05 }));
-          // doc.setGState(new doc.GState({ opacity: 0.05 }));
-          doc.addImage(img, 'JPEG', pageWidth / 4, pageHeight / 4, pageWidth / 2, pageHeight / 2);
-          doc.restoreGraphicsState();
-          resolve();
-        };
-
-        img.onerror = () => {
-          console.warn('Failed to load logo image, skipping watermark');
-          resolve(); // Resolve even on error to continue PDF generation
-        };
-      });
-    };
-
-    // Apply watermark to current page
-    await addWatermark();
-
-    // Header function
-    const addHeader = () => {
-      doc.setFontSize(12);
-      doc.setTextColor(0, 0, 0);
-      doc.setFont('helvetica', 'bold');
-      doc.text(companyName, margin, 10);
-      doc.setFont('helvetica', 'normal');
-      doc.setFontSize(10);
-      doc.text(`Report Date: ${reportDate}`, pageWidth - margin - 50, 10);
-      doc.setLineWidth(0.5);
-      doc.line(margin, 15, pageWidth - margin, 15);
-    };
-
-    // Footer function
-    const addFooter = () => {
-      doc.setFontSize(8);
-      doc.setTextColor(100, 100, 100);
-      doc.text(`Page ${doc.getCurrentPageInfo().pageNumber}`, pageWidth - margin, pageHeight - 10, { align: 'right' });
-      doc.text('© 2025 Red Tulip RealEstate', margin, pageHeight - 10);
-    };
-
-    // Cover page
-    addHeader();
-    addFooter();
-    doc.setFontSize(20);
-    doc.setFont('helvetica', 'bold');
-    doc.text('Property Report', pageWidth / 2, 50, { align: 'center' });
-    doc.setFontSize(16);
-    doc.text(
-      `${property.street_number || 'N/A'} ${property.street_name || 'N/A'}, ${normalizeSuburb(property.suburb)}`,
-      pageWidth / 2,
-      70,
-      { align: 'center', maxWidth: pageWidth - margin * 2 }
-    );
-    doc.setFontSize(12);
-    doc.setFont('helvetica', 'normal');
-    doc.text(`Prepared by: ${companyName}`, pageWidth / 2, 100, { align: 'center' });
-    doc.text(`Date: ${reportDate}`, pageWidth / 2, 110, { align: 'center' });
-    doc.addPage();
-
-    // Property Details Section
-    addHeader();
-    addFooter();
-    await addWatermark();
-    doc.setFontSize(16);
-    doc.setFont('helvetica', 'bold');
-    doc.text('Property Details', margin, 25);
-    const { commissionRate, commissionEarned } = calculateCommission(property);
-    const propertyTable = [
-      ['Address', `${property.street_number || 'N/A'} ${property.street_name || 'N/A'}, ${normalizeSuburb(property.suburb)}`],
-      ['Price', property.price ? formatCurrency(property.price) : 'N/A'],
-      ['Sold Price', property.sold_price ? formatCurrency(property.sold_price) : 'N/A'],
-      ['Expected Price', property.expected_price ? formatCurrency(property.expected_price) : 'N/A'],
-      ['Commission', commissionRate ? `${commissionRate}%` : 'N/A'],
-      ['Commission Earned', commissionEarned ? formatCurrency(commissionEarned) : 'N/A'],
-      ['Property Type', property.property_type || 'N/A'],
-      ['Category', property.category || 'N/A'],
-      ['Sale Type', property.sale_type || 'N/A'],
-      ['Bedrooms', property.bedrooms ?? 'N/A'],
-      ['Bathrooms', property.bathrooms ?? 'N/A'],
-      ['Garage', property.car_garage ?? 'N/A'],
-      ['Floor Area', property.sqm ? `${property.sqm} sqm` : 'N/A'],
-      ['Land Size', property.landsize ? `${property.landsize} sqm` : 'N/A'],
-      ['Listed Date', property.listed_date ? moment(property.listed_date).format('DD/MM/YYYY') : 'N/A'],
-      ['Sold Date', property.sold_date ? moment(property.sold_date).format('DD/MM/YYYY') : 'N/A'],
-      ['Agent', property.agent_name || 'N/A'],
-      ['Agency', property.agency_name || 'N/A'],
-      ['Flood Risk', property.flood_risk || 'N/A'],
-      ['Bushfire Risk', property.bushfire_risk || 'N/A'],
-      ['Contract Status', property.contract_status || 'N/A'],
-      ['Features', property.features?.length ? property.features.join(', ') : 'N/A'],
-      ['Latitude', property.latitude ? property.latitude.toFixed(6) : 'N/A'],
-      ['Longitude', property.longitude ? property.longitude.toFixed(6) : 'N/A'],
-    ];
-    autoTable(doc, {
-      startY: 30,
-      head: [['Field', 'Value']],
-      body: propertyTable,
-      theme: 'striped',
-      headStyles: { fillColor: [0, 102, 204], textColor: [255, 255, 255] },
-      styles: { cellPadding: 2, fontSize: 10 },
-      margin: { left: margin, right: margin },
+    const { commissionRate, commissionEarned } = propertyCommission(property, options.ledgerEntry);
+    await downloadReport(PROPERTY_REPORT, {
+      property,
+      commission: { rate: commissionRate, earned: commissionEarned },
+      sameStreetSales: options.includeSameStreetSales ? property.same_street_sales : undefined,
+      pastRecords: options.includePastRecords ? property.past_records : undefined,
     });
-
-    // Past Records Section
-    if (options.includePastRecords && property.past_records.length > 0) {
-      doc.addPage();
-      addHeader();
-      addFooter();
-      await addWatermark();
-      doc.setFontSize(16);
-      doc.setFont('helvetica', 'bold');
-      doc.text('Past Records', margin, 25);
-      const recordsTable = property.past_records.map(record => [
-        normalizeSuburb(record.suburb),
-        record.property_type || 'N/A',
-        record.price ? formatCurrency(record.price) : 'N/A',
-        record.bedrooms ?? 'N/A',
-        record.bathrooms ?? 'N/A',
-        record.car_garage ?? 'N/A',
-        record.sqm ? `${record.sqm} sqm` : 'N/A',
-        record.landsize ? `${record.landsize} sqm` : 'N/A',
-        record.listing_date ? moment(record.listing_date).format('DD/MM/YYYY') : 'N/A',
-        record.sale_date ? moment(record.sale_date).format('DD/MM/YYYY') : 'N/A',
-        record.status || 'N/A',
-        record.notes || 'N/A',
-      ]);
-      autoTable(doc, {
-        startY: 30,
-        head: [['Location', 'Type', 'Price', 'Beds', 'Baths', 'Garage', 'Floor Area', 'Land Size', 'Listing Date', 'Sale Date', 'Status', 'Notes']],
-        body: recordsTable,
-        theme: 'striped',
-        headStyles: { fillColor: [0, 102, 204], textColor: [255, 255, 255] },
-        styles: { cellPadding: 2, fontSize: 10 },
-        margin: { left: margin, right: margin },
-      });
-    }
-
-    // Save the PDF
-    doc.save(`property_${property.id}_report.pdf`);
     console.log('PDF generated and saved successfully for property ID:', property.id);
     return true;
   } catch (err: any) {
@@ -309,7 +128,13 @@ const PropertyMap: React.FC<{ property: ExtendedProperty }> = ({ property }) =>
   const [showSalesMarkers, setShowSalesMarkers] = useState(true);
 
   if (!property.latitude || !property.longitude) {
-    return <p className="text-gray-500 text-center py-4">Map unavailable: No coordinates provided.</p>;
+    return (
+      <p className="text-gray-500 text-center py-4">
+        {property.geocode_status === 'unresolved'
+          ? 'Map unavailable: this address could not be located.'
+          : 'Map unavailable: No coordinates provided.'}
+      </p>
+    );
   }
 
   const center: LatLngTuple = [property.latitude, property.longitude];
@@ -494,6 +319,21 @@ export function PropertyDetail() {
   const [navLoading, setNavLoading] = useState(true); // Separate loading state for navigation
   const [debugInfo, setDebugInfo] = useState<string>('');
   const [pdfError, setPdfError] = useState<string | null>(null);
+  const [ledgerEntry, setLedgerEntry] = useState<CommissionLedgerRow | null>(null);
+  const [activeTab, setActiveTab] = useState<'details' | 'history'>('details');
+  const [showShareDialog, setShowShareDialog] = useState(false);
+  const { can, canModify } = usePermissions();
+  // The page is public, linked from the listing cards on Home; commission,
+  // history and the report actions are for staff only.
+  const staffView = can('properties.view');
+
+  useEffect(() => {
+    if (!id || !staffView) return;
+    setLedgerEntry(null);
+    fetchLedgerEntry(id)
+      .then(setLedgerEntry)
+      .catch((err) => console.error('Commission ledger fetch failed:', err));
+  }, [id, staffView]);
 
   useEffect(() => {
     console.log('PropertyDetail - ID:', id, 'Location state:', location.state);
@@ -515,18 +355,8 @@ export function PropertyDetail() {
         // Fetch property
         let fetchedProperty = location.state?.property;
         if (!fetchedProperty) {
-          console.log('No state property, fetching from Supabase for ID:', id);
-          const { data: propertyData, error: propertyError } = await supabase
-            .from('properties')
-            .select('*, commission')
-            .eq('id', id)
-            .in('suburb', ALLOWED_SUBURBS)
-            .single();
-
-          if (propertyError) {
-            console.error('Supabase property error:', propertyError);
-            throw new Error(`Failed to fetch property: ${propertyError.message}`);
-          }
+          console.log('No state property, fetching for ID:', id);
+          const propertyData = await fetchPropertyById(id);
           if (!propertyData) {
             console.error('No property found for ID:', id);
             throw new Error('Property not found');
@@ -535,36 +365,27 @@ export function PropertyDetail() {
           fetchedProperty.suburb = normalizeSuburb(fetchedProperty.suburb);
           console.log('Fetched property data:', fetchedProperty);
         }
-        // Verify the property's suburb is in ALLOWED_SUBURBS
-        if (!ALLOWED_SUBURBS.includes(normalizeSuburb(fetchedProperty.suburb))) {
+        // Verify the property's suburb is in the gazetteer
+        if (!isKnownSuburb(fetchedProperty.suburb)) {
           console.error('Property suburb not in allowed list:', fetchedProperty.suburb);
           throw new Error('Property is not in an allowed suburb');
         }
 
         // Fetch past records
-        const { data: pastRecords, error: recordsError } = await supabase
-          .from('past_records')
-          .select('suburb, postcode, property_type, price, bedrooms, bathrooms, car_garage, sqm, landsize, listing_date, sale_date, status, notes')
-          .eq('property_id', id)
-          .in('suburb', ALLOWED_SUBURBS);
-
-
-        if (recordsError) {
-          console.error('Supabase past records error:', recordsError);
-          throw new Error(`Failed to fetch past records: ${recordsError.message}`);
-        }
-
-        const normalizedRecords = pastRecords?.map(record => ({
+        const pastRecords = await fetchPastRecords([id]);
+        const normalizedRecords = pastRecords.filter(record => isKnownSuburb(record.suburb)).map(record => ({
           ...record,
           suburb: normalizeSuburb(record.suburb),
           postcode: record.postcode || 'N/A',
-        })) || [];
+        }));
 
-        const coords = generateMockCoordinates(fetchedProperty.suburb);
+        // Uses the cached coordinates, looking the address up on first view
+        const geocoded = await geocodeRow('properties', fetchedProperty);
         const enrichedProperty: ExtendedProperty = {
           ...fetchedProperty,
-          latitude: coords.latitude,
-          longitude: coords.longitude,
+          latitude: geocoded.latitude ?? undefined,
+          longitude: geocoded.longitude ?? undefined,
+          geocode_status: geocoded.geocode_status,
           same_street_sales: [], // Removed sales data fetching
           past_records: normalizedRecords,
           features: fetchedProperty.features || [],
@@ -576,17 +397,9 @@ export function PropertyDetail() {
         // Fetch all property IDs
         let propertyIds = location.state?.allPropertyIds || [];
         if (!propertyIds.length) {
-          console.log('No property IDs in state, fetching from Supabase');
-          const { data, error } = await supabase
-            .from('properties')
-            .select('id')
-            .in('suburb', ALLOWED_SUBURBS)
-            .order('created_at', { ascending: false });
-          if (error) {
-            console.error('Supabase property IDs error:', error);
-            throw new Error(`Failed to fetch property IDs: ${error.message}`);
-          }
-          propertyIds = data.map(item => item.id);
+          console.log('No property IDs in state, fetching them');
+          const data = await fetchAllProperties();
+          propertyIds = data.filter(item => isKnownSuburb(item.suburb)).map(item => item.id);
           console.log('Fetched property IDs:', propertyIds);
         }
         if (!propertyIds.includes(id)) {
@@ -596,10 +409,11 @@ export function PropertyDetail() {
         }
         setAllPropertyIds(propertyIds);
         setDebugInfo(`Fetched property and ${propertyIds.length} IDs`);
-      } catch (err: any) {
+      } catch (err) {
         console.error('Fetch error:', err);
-        setError(err.message || 'Failed to load property details');
-        setDebugInfo(`Error: ${err.message}`);
+        const message = err instanceof Error ? err.message : 'Failed to load property details';
+        setError(message);
+        setDebugInfo(`Error: ${message}`);
       } finally {
         setLoading(false);
         setNavLoading(false); // Navigation ready when data is fetched
@@ -622,7 +436,7 @@ export function PropertyDetail() {
       await generatePDFReport(property, {
         includeSameStreetSales: false,
         includePastRecords: true,
-        includePrediction: false,
+        ledgerEntry,
       });
       setDebugInfo('PDF generated successfully');
     } catch (err: any) {
@@ -630,7 +444,7 @@ export function PropertyDetail() {
       setPdfError(err.message || 'Failed to generate PDF');
       setDebugInfo(`PDF Error: ${err.message}`);
     }
-  }, [property]);
+  }, [property, ledgerEntry]);
 
   const handleLike = useCallback(() => {
     setIsLiked(!isLiked);
@@ -754,7 +568,7 @@ export function PropertyDetail() {
     );
   }
 
-  const { commissionRate, commissionEarned } = calculateCommission(property);
+  const { commissionRate, commissionEarned } = propertyCommission(property, ledgerEntry);
   const propertyStatus = property.sold_date ? 'Sold' : property.listed_date ? 'Listed' : 'Unknown';
 
   return (
@@ -777,14 +591,36 @@ export function PropertyDetail() {
             {`${property.street_number || 'N/A'} ${property.street_name || 'N/A'}, ${normalizeSuburb(property.suburb)}`}
           </h1>
           <div className="flex gap-2">
-            <motion.button
-              onClick={handleGeneratePDF}
-              className="flex items-center bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
-              whileHover={{ scale: 1.05 }}
-              whileTap={{ scale: 0.95 }}
-            >
-              <Download className="w-5 h-5 mr-2" /> Download PDF
-            </motion.button>
+            {can('reports.view') && (
+              <motion.button
+                onClick={handleGeneratePDF}
+                className="flex items-center bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                <Download className="w-5 h-5 mr-2" /> Download PDF
+              </motion.button>
+            )}
+            {can('reports.view') && canModify(property) && (
+              <motion.button
+                onClick={() => setShowShareDialog(true)}
+                className="flex items-center bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                <Link2 className="w-5 h-5 mr-2" /> Share
+              </motion.button>
+            )}
+            {can('reports.view') && (
+              <motion.button
+                onClick={() => navigate(`/vendor-report/${property.id}`)}
+                className="flex items-center bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                <FileText className="w-5 h-5 mr-2" /> Vendor Report
+              </motion.button>
+            )}
             <motion.button
               onClick={handleLike}
               className={`flex items-center px-4 py-2 rounded-lg ${
@@ -813,145 +649,197 @@ export function PropertyDetail() {
           </span>
         </div>
 
-        <div className="mb-6">
-          <h2 className="text-xl font-semibold text-gray-900 mb-2 flex items-center">
-            <MapPin className="w-5 h-5 mr-2 text-blue-600" />
-            Location Map
-          </h2>
-          <PropertyMap property={property} />
-        </div>
-
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
-          <div>
-            <p className="flex items-center text-gray-600 mb-2">
-              <MapPin className="w-5 h-5 mr-2" />
-              {`${property.street_number || 'N/A'} ${property.street_name || 'N/A'}, ${normalizeSuburb(property.suburb)}`}
-            </p>
-            <p className="flex items-center text-gray-600 mb-2">
-              <DollarSign className="w-5 h-5 mr-2" />
-              {property.price ? formatCurrency(property.price) : 'N/A'}
-            </p>
-            <p className="flex items-center text-gray-600 mb-2">
-              <Home className="w-5 h-5 mr-2" />
-              {property.bedrooms ?? 'N/A'} Beds, {property.bathrooms ?? 'N/A'} Baths, {property.car_garage ?? 'N/A'} Garage
-            </p>
-            <p className="text-gray-600 mb-2">
-              <strong>Type:</strong> {property.property_type || 'N/A'}
-            </p>
-            <p className="text-gray-600 mb-2">
-              <strong>Category:</strong> {property.category || 'N/A'}
-            </p>
-            <p className="text-gray-600 mb-2">
-              <strong>Sale Type:</strong> {property.sale_type || 'N/A'}
-            </p>
-            <p className="text-gray-600 mb-2">
-              <strong>Floor Area:</strong> {property.sqm ? `${property.sqm} sqm` : 'N/A'}
-            </p>
-            <p className="text-gray-600 mb-2">
-              <strong>Land Size:</strong> {property.landsize ? `${property.landsize} sqm` : 'N/A'}
-            </p>
+        {staffView && (
+          <div className="flex border-b border-gray-200 mb-6">
+            {(['details', 'history'] as const).map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`px-4 py-2 -mb-px border-b-2 font-medium ${
+                  activeTab === tab ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-600 hover:text-blue-600'
+                }`}
+              >
+                {tab === 'details' ? 'Details' : 'History'}
+              </button>
+            ))}
           </div>
-          <div>
-            <p className="flex items-center text-gray-600 mb-2">
-              <Calendar className="w-5 h-5 mr-2" />
-              Listed: {property.listed_date ? moment(property.listed_date).format('DD/MM/YYYY') : 'N/A'}
-            </p>
-            {property.sold_date && (
-              <p className="text-gray-600 mb-2">
-                <strong>Sold:</strong> {moment(property.sold_date).format('DD/MM/YYYY')}
-              </p>
+        )}
+
+        {staffView && activeTab === 'history' ? (
+          <PropertyHistoryPanel
+            propertyId={property.id}
+            canRevert={canModify(property)}
+            onReverted={(updated) => setProperty((prev) => (prev ? ({ ...prev, ...updated } as unknown as ExtendedProperty) : prev))}
+          />
+        ) : (
+          <>
+            <div className="mb-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-2 flex items-center">
+                <MapPin className="w-5 h-5 mr-2 text-blue-600" />
+                Location Map
+              </h2>
+              <PropertyMap property={property} />
+            </div>
+
+            {can('reports.view') && (
+              <div className="mb-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-2 flex items-center">
+                  <Scale className="w-5 h-5 mr-2 text-blue-600" />
+                  Comparable Sales
+                </h2>
+                <ComparableSalesPanel subject={property} />
+              </div>
             )}
-            <p className="text-gray-600 mb-2">
-              <strong>Expected Price:</strong> {property.expected_price ? formatCurrency(property.expected_price) : 'N/A'}
-            </p>
-            <p className="text-gray-600 mb-2">
-              <strong>Commission:</strong> {commissionRate ? `${commissionRate}%` : 'N/A'}
-            </p>
-            <p className="text-gray-600 mb-2">
-              <strong>Commission Earned:</strong> {commissionEarned ? formatCurrency(commissionEarned) : 'N/A'}
-            </p>
-            <p className="flex items-center text-gray-600 mb-2">
-              <User className="w-5 h-5 mr-2" />
-              <strong>Agent:</strong> {property.agent_name || 'N/A'} ({property.agency_name || 'N/A'})
-            </p>
-            <p className="flex items-center text-gray-600 mb-2">
-              <AlertTriangle className="w-5 h-5 mr-2 text-red-500" />
-              <strong>Flood Risk:</strong> {property.flood_risk || 'N/A'}
-            </p>
-            <p className="flex items-center text-gray-600 mb-2">
-              <Shield className="w-5 h-5 mr-2 text-orange-500" />
-              <strong>Bushfire Risk:</strong> {property.bushfire_risk || 'N/A'}
-            </p>
-            <p className="flex items-center text-gray-600 mb-2">
-              <CheckSquare className="w-5 h-5 mr-2 text-green-500" />
-              <strong>Contract Status:</strong> {property.contract_status || 'N/A'}
-            </p>
-          </div>
-        </div>
 
-        {property.features && property.features.length > 0 && (
-          <div className="mb-6">
-            <h2 className="text-xl font-semibold text-gray-900 mb-2 flex items-center">
-              <CheckSquare className="w-5 h-5 mr-2 text-blue-600" />
-              Features
-            </h2>
-            <div className="grid grid-cols-2 gap-2">
-              {property.features.map((feature, index) => (
-                <div key={index} className="flex items-center text-gray-600">
-                  <CheckSquare className="w-4 h-4 mr-2 text-green-500" />
-                  <span>{feature}</span>
-                </div>
-              ))}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+              <div>
+                <p className="flex items-center text-gray-600 mb-2">
+                  <MapPin className="w-5 h-5 mr-2" />
+                  {`${property.street_number || 'N/A'} ${property.street_name || 'N/A'}, ${normalizeSuburb(property.suburb)}`}
+                </p>
+                <p className="flex items-center text-gray-600 mb-2">
+                  <DollarSign className="w-5 h-5 mr-2" />
+                  {property.price ? formatCurrency(property.price) : 'N/A'}
+                </p>
+                <p className="flex items-center text-gray-600 mb-2">
+                  <Home className="w-5 h-5 mr-2" />
+                  {property.bedrooms ?? 'N/A'} Beds, {property.bathrooms ?? 'N/A'} Baths, {property.car_garage ?? 'N/A'} Garage
+                </p>
+                <p className="text-gray-600 mb-2">
+                  <strong>Type:</strong> {property.property_type || 'N/A'}
+                </p>
+                <p className="text-gray-600 mb-2">
+                  <strong>Category:</strong> {property.category || 'N/A'}
+                </p>
+                <p className="text-gray-600 mb-2">
+                  <strong>Sale Type:</strong> {property.sale_type || 'N/A'}
+                </p>
+                <p className="text-gray-600 mb-2">
+                  <strong>Floor Area:</strong> {property.sqm ? `${property.sqm} sqm` : 'N/A'}
+                </p>
+                <p className="text-gray-600 mb-2">
+                  <strong>Land Size:</strong> {property.landsize ? `${property.landsize} sqm` : 'N/A'}
+                </p>
+              </div>
+              <div>
+                <p className="flex items-center text-gray-600 mb-2">
+                  <Calendar className="w-5 h-5 mr-2" />
+                  Listed: {property.listed_date ? moment(property.listed_date).format('DD/MM/YYYY') : 'N/A'}
+                </p>
+                {property.sold_date && (
+                  <p className="text-gray-600 mb-2">
+                    <strong>Sold:</strong> {moment(property.sold_date).format('DD/MM/YYYY')}
+                  </p>
+                )}
+                <p className="text-gray-600 mb-2">
+                  <strong>Expected Price:</strong> {property.expected_price ? formatCurrency(property.expected_price) : 'N/A'}
+                </p>
+                {staffView && (
+                  <>
+                    <p className="text-gray-600 mb-2">
+                      <strong>Commission:</strong> {commissionRate ? `${commissionRate}%` : 'N/A'}
+                    </p>
+                    <p className="text-gray-600 mb-2">
+                      <strong>Commission Earned:</strong> {commissionEarned ? formatCurrency(commissionEarned) : 'N/A'}
+                      {!ledgerEntry && commissionEarned > 0 && <span className="text-xs text-gray-500"> (estimate)</span>}
+                    </p>
+                    {ledgerEntry && (
+                      <p className="text-sm text-gray-600 mb-2 ml-4">
+                        GST {formatCurrency(Number(ledgerEntry.gst))}
+                        {Number(ledgerEntry.conjunctional_total) > 0 &&
+                          ` · Conjunctional ${formatCurrency(Number(ledgerEntry.conjunctional_total))}`}
+                        {` · Franchise ${formatCurrency(Number(ledgerEntry.franchise_fee))}`}
+                        {` · Agent ${formatCurrency(Number(ledgerEntry.agent_amount))}`}
+                        {` · Business ${formatCurrency(Number(ledgerEntry.business_amount))}`}
+                        {` · Payout ${ledgerEntry.payout_status.replace('_', ' ')}`}
+                      </p>
+                    )}
+                  </>
+                )}
+                <p className="flex items-center text-gray-600 mb-2">
+                  <User className="w-5 h-5 mr-2" />
+                  <strong>Agent:</strong> {property.agent_name || 'N/A'} ({property.agency_name || 'N/A'})
+                </p>
+                <p className="flex items-center text-gray-600 mb-2">
+                  <AlertTriangle className="w-5 h-5 mr-2 text-red-500" />
+                  <strong>Flood Risk:</strong> {property.flood_risk || 'N/A'}
+                </p>
+                <p className="flex items-center text-gray-600 mb-2">
+                  <Shield className="w-5 h-5 mr-2 text-orange-500" />
+                  <strong>Bushfire Risk:</strong> {property.bushfire_risk || 'N/A'}
+                </p>
+                <p className="flex items-center text-gray-600 mb-2">
+                  <CheckSquare className="w-5 h-5 mr-2 text-green-500" />
+                  <strong>Contract Status:</strong> {property.contract_status || 'N/A'}
+                </p>
+              </div>
             </div>
-          </div>
-        )}
 
-        {property.past_records.length > 0 && (
-          <div className="mb-6">
-            <h2 className="text-xl font-semibold text-gray-900 mb-2">Past Records</h2>
-            <div className="overflow-x-auto">
-              <table className="min-w-full bg-white border">
-                <thead>
-                  <tr className="bg-gray-100">
-                    <th className="px-4 py-2 border flex items-center"><MapPin className="w-4 h-4 mr-2" />Location</th>
-                    <th className="px-4 py-2 border flex items-center"><Home className="w-4 h-4 mr-2" />Type</th>
-                    <th className="px-4 py-2 border flex items-center"><DollarSign className="w-4 h-4 mr-2" />Price</th>
-                    <th className="px-4 py-2 border flex items-center"><Bed className="w-4 h-4 mr-2" />Beds</th>
-                    <th className="px-4 py-2 border flex items-center"><Bath className="w-4 h-4 mr-2" />Baths</th>
-                    <th className="px-4 py-2 border flex items-center"><Car className="w-4 h-4 mr-2" />Garage</th>
-                    <th className="px-4 py-2 border flex items-center"><Maximize className="w-4 h-4 mr-2" />Floor Area</th>
-                    <th className="px-4 py-2 border flex items-center"><LandPlot className="w-4 h-4 mr-2" />Land Size</th>
-                    <th className="px-4 py-2 border flex items-center"><Calendar className="w-4 h-4 mr-2" />Listing Date</th>
-                    <th className="px-4 py-2 border flex items-center"><Calendar className="w-4 h-4 mr-2" />Sale Date</th>
-                    <th className="px-4 py-2 border flex items-center"><CheckSquare className="w-4 h-4 mr-2" />Status</th>
-                    <th className="px-4 py-2 border flex items-center"><FileText className="w-4 h-4 mr-2" />Notes</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {property.past_records.map((record, index) => (
-                    <tr key={index}>
-                      <td className="px-4 py-2 border">{normalizeSuburb(record.suburb)}</td>
-                      <td className="px-4 py-2 border">{record.property_type || 'N/A'}</td>
-                      <td className="px-4 py-2 border">{record.price ? formatCurrency(record.price) : 'N/A'}</td>
-                      <td className="px-4 py-2 border">{record.bedrooms ?? 'N/A'}</td>
-                      <td className="px-4 py-2 border">{record.bathrooms ?? 'N/A'}</td>
-                      <td className="px-4 py-2 border">{record.car_garage ?? 'N/A'}</td>
-                      <td className="px-4 py-2 border">{record.sqm ? `${record.sqm} sqm` : 'N/A'}</td>
-                      <td className="px-4 py-2 border">{record.landsize ? `${record.landsize} sqm` : 'N/A'}</td>
-                      <td className="px-4 py-2 border">
-                        {record.listing_date ? moment(record.listing_date).format('DD/MM/YYYY') : 'N/A'}
-                      </td>
-                      <td className="px-4 py-2 border">
-                        {record.sale_date ? moment(record.sale_date).format('DD/MM/YYYY') : 'N/A'}
-                      </td>
-                      <td className="px-4 py-2 border">{record.status || 'N/A'}</td>
-                      <td className="px-4 py-2 border">{record.notes || 'N/A'}</td>
-                    </tr>
+            {property.features && property.features.length > 0 && (
+              <div className="mb-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-2 flex items-center">
+                  <CheckSquare className="w-5 h-5 mr-2 text-blue-600" />
+                  Features
+                </h2>
+                <div className="grid grid-cols-2 gap-2">
+                  {property.features.map((feature, index) => (
+                    <div key={index} className="flex items-center text-gray-600">
+                      <CheckSquare className="w-4 h-4 mr-2 text-green-500" />
+                      <span>{feature}</span>
+                    </div>
                   ))}
-                </tbody>
-              </table>
-            </div>
-          </div>
+                </div>
+              </div>
+            )}
+
+            {property.past_records.length > 0 && (
+              <div className="mb-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-2">Past Records</h2>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full bg-white border">
+                    <thead>
+                      <tr className="bg-gray-100">
+                        <th className="px-4 py-2 border flex items-center"><MapPin className="w-4 h-4 mr-2" />Location</th>
+                        <th className="px-4 py-2 border flex items-center"><Home className="w-4 h-4 mr-2" />Type</th>
+                        <th className="px-4 py-2 border flex items-center"><DollarSign className="w-4 h-4 mr-2" />Price</th>
+                        <th className="px-4 py-2 border flex items-center"><Bed className="w-4 h-4 mr-2" />Beds</th>
+                        <th className="px-4 py-2 border flex items-center"><Bath className="w-4 h-4 mr-2" />Baths</th>
+                        <th className="px-4 py-2 border flex items-center"><Car className="w-4 h-4 mr-2" />Garage</th>
+                        <th className="px-4 py-2 border flex items-center"><Maximize className="w-4 h-4 mr-2" />Floor Area</th>
+                        <th className="px-4 py-2 border flex items-center"><LandPlot className="w-4 h-4 mr-2" />Land Size</th>
+                        <th className="px-4 py-2 border flex items-center"><Calendar className="w-4 h-4 mr-2" />Listing Date</th>
+                        <th className="px-4 py-2 border flex items-center"><Calendar className="w-4 h-4 mr-2" />Sale Date</th>
+                        <th className="px-4 py-2 border flex items-center"><CheckSquare className="w-4 h-4 mr-2" />Status</th>
+                        <th className="px-4 py-2 border flex items-center"><FileText className="w-4 h-4 mr-2" />Notes</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {property.past_records.map((record, index) => (
+                        <tr key={index}>
+                          <td className="px-4 py-2 border">{normalizeSuburb(record.suburb)}</td>
+                          <td className="px-4 py-2 border">{record.property_type || 'N/A'}</td>
+                          <td className="px-4 py-2 border">{record.price ? formatCurrency(record.price) : 'N/A'}</td>
+                          <td className="px-4 py-2 border">{record.bedrooms ?? 'N/A'}</td>
+                          <td className="px-4 py-2 border">{record.bathrooms ?? 'N/A'}</td>
+                          <td className="px-4 py-2 border">{record.car_garage ?? 'N/A'}</td>
+                          <td className="px-4 py-2 border">{record.sqm ? `${record.sqm} sqm` : 'N/A'}</td>
+                          <td className="px-4 py-2 border">{record.landsize ? `${record.landsize} sqm` : 'N/A'}</td>
+                          <td className="px-4 py-2 border">
+                            {record.listing_date ? moment(record.listing_date).format('DD/MM/YYYY') : 'N/A'}
+                          </td>
+                          <td className="px-4 py-2 border">
+                            {record.sale_date ? moment(record.sale_date).format('DD/MM/YYYY') : 'N/A'}
+                          </td>
+                          <td className="px-4 py-2 border">{record.status || 'N/A'}</td>
+                          <td className="px-4 py-2 border">{record.notes || 'N/A'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </>
         )}
 
         <div className="mt-6 flex justify-between items-center">
@@ -989,6 +877,14 @@ export function PropertyDetail() {
           </div>
         </div>
       </motion.div>
+      {showShareDialog && (
+        <ShareLinkDialog
+          resourceType="property_report"
+          resourceId={property.id}
+          title={`${property.street_number || ''} ${property.street_name || ''}, ${normalizeSuburb(property.suburb)}`.trim()}
+          onClose={() => setShowShareDialog(false)}
+        />
+      )}
     </ErrorBoundary>
   );
 }
\ No newline at end of file
@@ -1,9 +1,12 @@
 import { AlertTriangle, ArrowRight, Building, Calendar, Droplet, Flame, Loader2, MapPin, X } from 'lucide-react';
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import * as XLSX from 'xlsx';
+import { ImportWizard, ImportWizardResult } from '../components/ImportWizard';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../store/authStore';
+import { listSuburbs } from '../utils/gazetteer';
+import { importText } from '../utils/importer';
+import { checkPastRecordDates, IMPORT_SOURCES, PAST_RECORD_FIELDS } from '../utils/importFields';
 
 interface User {
   id: string;
@@ -77,21 +80,6 @@ interface PropertyData {
   past_records?: PastRecord[];
 }
 
-const ALLOWED_SUBURBS = [
-  { name: 'Moggill ', postcode: '4070' },
-  { name: 'Bellbowrie', postcode: '4070' },
-  { name: 'Pullenvale', postcode: '4069' },
-  { name: 'Brookfield', postcode: '4069' },
-  { name: 'Anstead', postcode: '4070' },
-  { name: 'Chapel Hill', postcode: '4069' },
-  { name: 'Kenmore', postcode: '4069' },
-  { name: 'Kenmore Hills', postcode: '4069' },
-  { name: 'Fig Tree Pocket', postcode: '4069' },
-  { name: 'Pinjara Hills', postcode: '4069' },
-  { name:  'Spring Mountain',postcode:'4300'},
-  { name:  'Springfield',postcode:'4300'},
-  { name:  'Greenbank',postcode:'4124'},
-];
 
 export function PropertyForm() {
   const navigate = useNavigate();
@@ -155,8 +143,7 @@ export function PropertyForm() {
     bathrooms: '0',
     car_garage: '0',
   });
-  const [fileLoading, setFileLoading] = useState(false);
-  const [fileError, setFileError] = useState<string | null>(null);
+  const [isPastImportOpen, setIsPastImportOpen] = useState(false);
   const [toast, setToast] = useState<{ message: string; visible: boolean }>({ message: '', visible: false });
 
   // Capitalize first letter of a string
@@ -228,7 +215,7 @@ export function PropertyForm() {
     let formattedValue: string | number | boolean = value;
 
     if (name === 'suburb') {
-      const selectedSuburb = ALLOWED_SUBURBS.find((s) => s.name === value);
+      const selectedSuburb = listSuburbs().find((s) => s.name === value);
       setFormData((prev) => ({
         ...prev,
         suburb: value,
@@ -239,7 +226,7 @@ export function PropertyForm() {
 
     if (name === 'postcode') {
       const formattedPostcode = value.replace(/\D/g, '').slice(0, 4);
-      const matchingSuburb = ALLOWED_SUBURBS.find((s) => s.postcode === formattedPostcode);
+      const matchingSuburb = listSuburbs().find((s) => s.postcode === formattedPostcode);
       setFormData((prev) => ({
         ...prev,
         postcode: formattedPostcode,
@@ -352,7 +339,7 @@ export function PropertyForm() {
     let formattedValue: string | number | undefined = value;
 
     if (name === 'suburb') {
-      const selectedSuburb = ALLOWED_SUBURBS.find((s) => s.name === value);
+      const selectedSuburb = listSuburbs().find((s) => s.name === value);
       setNewPastRecord((prev) => ({
         ...prev,
         suburb: value,
@@ -363,7 +350,7 @@ export function PropertyForm() {
 
     if (name === 'postcode') {
       const formattedPostcode = value.replace(/\D/g, '').slice(0, 4);
-      const matchingSuburb = ALLOWED_SUBURBS.find((s) => s.postcode === formattedPostcode);
+      const matchingSuburb = listSuburbs().find((s) => s.postcode === formattedPostcode);
       setNewPastRecord((prev) => ({
         ...prev,
         postcode: formattedPostcode,
@@ -397,7 +384,7 @@ export function PropertyForm() {
       }
     }
 
-    if (!ALLOWED_SUBURBS.some((s) => s.name === record.suburb)) {
+    if (!listSuburbs().some((s) => s.name === record.suburb)) {
       return 'Invalid suburb. Please select from the allowed list.';
     }
 
@@ -436,160 +423,39 @@ export function PropertyForm() {
     setShowPastDataModal(false);
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file || !['.csv', '.xlsx', '.xls'].some((ext) => file.name.toLowerCase().endsWith(ext))) {
-      setFileError('Please upload a valid CSV or Excel file (.csv, .xlsx, .xls)');
-      return;
-    }
-
-    setFileLoading(true);
-    setFileError(null);
-
-    if (file.name.toLowerCase().endsWith('.csv')) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const text = event.target?.result as string;
-        try {
-          const rows = text.split('\n').map((row) => row.split(',').map((cell) => cell.trim()));
-          const headers = rows[0];
-          const requiredHeaders = ['suburb', 'postcode', 'property_type', 'price'];
-          const missingHeaders = requiredHeaders.filter((h) => !headers.includes(h));
-
-          if (missingHeaders.length) {
-            setFileError(`Missing required columns: ${missingHeaders.join(', ')}`);
-            setFileLoading(false);
-            return;
-          }
-
-          const newRecords: PastRecord[] = [];
-          for (let i = 1; i < rows.length; i++) {
-            if (rows[i].length < headers.length) continue;
-            const record: Partial<PastRecord> = {};
-            headers.forEach((header, index) => {
-              let value = rows[i][index];
-              if (['street_number', 'street_name', 'notes'].includes(header)) {
-                value = capitalizeFirstLetter(value);
-              }
-              if (header === 'suburb') {
-                const selectedSuburb = ALLOWED_SUBURBS.find((s) => s.name === value);
-                if (!selectedSuburb) {
-                  setFileError(`Invalid suburb in row ${i + 1}: ${value}`);
-                  setFileLoading(false);
-                  return;
-                }
-                record.suburb = selectedSuburb.name;
-                record.postcode = selectedSuburb.postcode;
-              } else if (header === 'price' || header === 'sqm' || header === 'landsize') {
-                record[header as keyof PastRecord] = formatPriceInput(value);
-              } else if (header === 'bedrooms' || header === 'bathrooms' || header === 'car_garage') {
-                record[header as keyof PastRecord] = value || '0';
-              } else if (header === 'status') {
-                const validStatuses = ['Sold', 'Listed', 'Withdrawn'] as const;
-                record.status = validStatuses.includes(value as any)
-                  ? value as 'Sold' | 'Listed' | 'Withdrawn'
-                  : undefined;
-              } else if (header !== 'postcode') {
-                record[header as keyof PastRecord] = value;
-              }
-            });
-
-            const validationError = validatePastRecord(record);
-            if (validationError) {
-              setFileError(`Error in row ${i + 1}: ${validationError}`);
-              setFileLoading(false);
-              return;
-            }
-
-            newRecords.push(record as PastRecord);
-          }
-
-          setFormData((prev) => ({
-            ...prev,
-            past_records: [...(prev.past_records || []), ...newRecords],
-          }));
-          setFileLoading(false);
-        } catch (err) {
-          setFileError('Failed to parse CSV file');
-          setFileLoading(false);
-        }
+  // Past records are kept on the form until it is saved, so rows from the
+  // wizard are only checked and appended here.
+  const handleImportPastRecords = ({ rows }: ImportWizardResult) => {
+    const newRecords: PastRecord[] = rows.map(({ rowNumber, values }) => {
+      const text = (key: string) => importText(values, key);
+      const record: PastRecord = {
+        street_number: capitalizeFirstLetter(text('street_number')) || undefined,
+        street_name: capitalizeFirstLetter(text('street_name')) || undefined,
+        suburb: text('suburb'),
+        postcode: listSuburbs().find((s) => s.name === text('suburb'))?.postcode || '',
+        property_type: text('property_type'),
+        price: formatPriceInput(text('price')),
+        bedrooms: text('bedrooms') || '0',
+        bathrooms: text('bathrooms') || '0',
+        car_garage: text('car_garage') || '0',
+        sqm: formatPriceInput(text('sqm')),
+        landsize: formatPriceInput(text('landsize')),
+        listing_date: text('listing_date') || undefined,
+        sale_date: text('sale_date') || undefined,
+        status: (text('status') || undefined) as PastRecord['status'],
+        notes: capitalizeFirstLetter(text('notes')) || undefined,
       };
-      reader.readAsText(file);
-    } else {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        try {
-          const data = event.target?.result;
-          const workbook = XLSX.read(data, { type: 'binary' });
-          const sheetName = workbook.SheetNames[0];
-          const worksheet = workbook.Sheets[sheetName];
-          const rows: any[] = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-
-          const headers = rows[0].map((h: string) => h?.toString().trim().toLowerCase());
-          const requiredHeaders = ['suburb', 'postcode', 'property_type', 'price'];
-          const missingHeaders = requiredHeaders.filter((h) => !headers.includes(h.toLowerCase()));
-
-          if (missingHeaders.length) {
-            setFileError(`Missing required columns: ${missingHeaders.join(', ')}`);
-            setFileLoading(false);
-            return;
-          }
-
-          const newRecords: PastRecord[] = [];
-          for (let i = 1; i < rows.length; i++) {
-            if (!rows[i] || rows[i].length === 0) continue;
-            const record: Partial<PastRecord> = {};
-            headers.forEach((header: string, index: number) => {
-              let value = rows[i][index]?.toString().trim();
-              if (!value) return;
-              if (['street_number', 'street_name', 'notes'].includes(header)) {
-                value = capitalizeFirstLetter(value);
-              }
-              if (header === 'suburb') {
-                const selectedSuburb = ALLOWED_SUBURBS.find((s) => s.name === value);
-                if (!selectedSuburb) {
-                  setFileError(`Invalid suburb in row ${i + 1}: ${value}`);
-                  setFileLoading(false);
-                  return;
-                }
-                record.suburb = selectedSuburb.name;
-                record.postcode = selectedSuburb.postcode;
-              } else if (header === 'price' || header === 'sqm' || header === 'landsize') {
-                record[header as keyof PastRecord] = formatPriceInput(value);
-              } else if (header === 'bedrooms' || header === 'bathrooms' || header === 'car_garage') {
-                record[header as keyof PastRecord] = value || '0';
-              } else if (header === 'status') {
-                const validStatuses = ['Sold', 'Listed', 'Withdrawn'] as const;
-                record.status = validStatuses.includes(value as any)
-                  ? value as 'Sold' | 'Listed' | 'Withdrawn'
-                  : undefined;
-              } else if (header !== 'postcode') {
-                record[header as keyof PastRecord] = value;
-              }
-            });
-
-            const validationError = validatePastRecord(record);
-            if (validationError) {
-              setFileError(`Error in row ${i + 1}: ${validationError}`);
-              setFileLoading(false);
-              return;
-            }
-
-            newRecords.push(record as PastRecord);
-          }
+      const validationError = validatePastRecord(record);
+      if (validationError) throw new Error(`Error in row ${rowNumber}: ${validationError}`);
+      return record;
+    });
 
-          setFormData((prev) => ({
-            ...prev,
-            past_records: [...(prev.past_records || []), ...newRecords],
-          }));
-          setFileLoading(false);
-        } catch (err) {
-          setFileError('Failed to parse Excel file');
-          setFileLoading(false);
-        }
-      };
-      reader.readAsBinaryString(file);
-    }
+    setFormData((prev) => ({
+      ...prev,
+      past_records: [...(prev.past_records || []), ...newRecords],
+    }));
+    setIsPastImportOpen(false);
+    setShowPastDataModal(false);
   };
 
   const removePastRecord = (index: number) => {
@@ -607,7 +473,7 @@ export function PropertyForm() {
       }
     }
 
-    if (!ALLOWED_SUBURBS.some((s) => s.name === formData.suburb)) {
+    if (!listSuburbs().some((s) => s.name === formData.suburb)) {
       setError('Please select a valid suburb from the list');
       return false;
     }
@@ -932,7 +798,7 @@ const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
                 required
               >
                 <option value="">Select Suburb</option>
-                {ALLOWED_SUBURBS.map((suburb) => (
+                {listSuburbs().map((suburb) => (
                   <option key={suburb.name} value={suburb.name}>
                     {suburb.name}
                   </option>
@@ -1297,7 +1163,7 @@ const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
                           required
                         >
                           <option value="">Select Suburb</option>
-                          {ALLOWED_SUBURBS.map((suburb) => (
+                          {listSuburbs().map((suburb) => (
                             <option key={suburb.name} value={suburb.name}>
                               {suburb.name}
                             </option>
@@ -1517,29 +1383,33 @@ const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
                   </div>
                 ) : (
                   <div className="space-y-4">
-                    {fileError && <p className="text-red-600">{fileError}</p>}
-                    <input
-                      type="file"
-                      accept=".csv,.xlsx,.xls"
-                      onChange={handleFileUpload}
-                      className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-500"
-                    />
-                    {fileLoading && (
-                      <div className="flex items-center justify-center">
-                        <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
-                        <span className="ml-2 text-gray-600">Parsing file...</span>
-                      </div>
-                    )}
+                    <button
+                      type="button"
+                      onClick={() => setIsPastImportOpen(true)}
+                      className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
+                    >
+                      Choose CSV or Excel File
+                    </button>
                     <p className="text-sm text-gray-600">
-                      Expected columns (CSV or Excel): street_number, street_name, suburb, postcode, property_type,
-                      price, bedrooms, bathrooms, car_garage, sqm, landsize, listing_date, sale_date,
-                      status, notes
+                      Needs suburb, property type and price columns. Street, bedrooms, bathrooms, car spaces, sizes,
+                      listing and sale dates, status and notes are picked up when present.
                     </p>
                   </div>
                 )}
               </div>
             </div>
           )}
+          {isPastImportOpen && (
+            <ImportWizard
+              title="Import Past Property Data"
+              source={IMPORT_SOURCES.pastRecords}
+              fields={PAST_RECORD_FIELDS}
+              validateRow={checkPastRecordDates}
+              submitLabel="Add"
+              onSubmit={handleImportPastRecords}
+              onClose={() => setIsPastImportOpen(false)}
+            />
+          )}
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-gray-700 mb-2" htmlFor="property_type">
@@ -0,0 +1,286 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { v4 as uuidv4 } from 'uuid';
+import { commitImportBatches, dryRunImportRows } from '../api/imports';
+import { createPastRecords, fetchAllProperties, fetchPastRecords, updateProperty } from '../api/properties';
+import { ImportWizard, ImportWizardResult } from '../components/ImportWizard';
+import { useAuthStore, usePermissions } from '../store/authStore';
+import { PastRecordInsert, PropertyRow } from '../types/database';
+import { resolveSuburb } from '../utils/gazetteer';
+import { IMPORT_SOURCES, PROPERTY_SALE_FIELDS } from '../utils/importFields';
+import {
+  planPropertyImport,
+  propertySaleFromValues,
+  PropertyImportAction,
+  PropertyImportPlanRow,
+  requirePropertyAddress,
+} from '../utils/propertyImport';
+
+interface PendingPlan {
+  rows: PropertyImportPlanRow[];
+  fileName: string;
+  rollbackOnError: boolean;
+  // Matched listings the user may not edit; they are skipped.
+  readOnly: Set<string>;
+}
+
+const ACTION_LABELS: Record<PropertyImportAction, string> = {
+  create: 'Add as new',
+  update: 'Update existing',
+  skip: 'Skip',
+};
+
+const COLUMN_LABELS: Record<string, string> = {
+  sold_price: 'sale price',
+  sold_date: 'sale date',
+  sale_type: 'sale type',
+  agency_name: 'agency',
+  agent_name: 'agent',
+  property_type: 'type',
+  car_garage: 'car spaces',
+  sqm: 'floor size',
+  landsize: 'land size',
+  listed_date: 'listed date',
+};
+
+const describeChanges = (row: PropertyImportPlanRow) => {
+  if (!row.existing) return row.changes.sold_date ? `Sold ${row.changes.sold_date}` : 'No sale date';
+  const columns = Object.keys(row.changes)
+    .filter((column) => column !== 'category')
+    .map((column) => COLUMN_LABELS[column] || column);
+  return columns.length ? `Sets ${columns.join(', ')}` : 'No new details';
+};
+
+// Bulk import of sales exports from data providers. Existing properties are
+// matched on address and updated; earlier sales are kept as past records.
+export function PropertyImport() {
+  const { user } = useAuthStore();
+  const { canModify } = usePermissions();
+  const [isWizardOpen, setIsWizardOpen] = useState(false);
+  const [plan, setPlan] = useState<PendingPlan | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const counts = useMemo(() => {
+    const result: Record<PropertyImportAction, number> = { create: 0, update: 0, skip: 0 };
+    plan?.rows.forEach((row) => (result[row.action] += 1));
+    return result;
+  }, [plan]);
+
+  const handleImportRows = async ({ rows, fileName, rollbackOnError }: ImportWizardResult) => {
+    const suburbs = [...new Set(rows.map((row) => String(row.values.suburb)))];
+    const existing = await fetchAllProperties({ filters: { suburbs } });
+    // The suburb filter is a substring match; keep only the suburbs in the file.
+    const inFile = new Set(suburbs.map((suburb) => resolveSuburb(suburb)?.name));
+    const planned = planPropertyImport(
+      rows,
+      existing.filter((property) => inFile.has(resolveSuburb(property.suburb)?.name))
+    );
+    const readOnly = new Set(planned.filter((row) => row.existing && !canModify(row.existing)).map((row) => row.key));
+    setPlan({
+      rows: planned.map((row) => (readOnly.has(row.key) ? { ...row, action: 'skip' } : row)),
+      fileName,
+      rollbackOnError,
+      readOnly,
+    });
+    setIsWizardOpen(false);
+  };
+
+  const setAction = (key: string, action: PropertyImportAction) =>
+    setPlan((current) => current && { ...current, rows: current.rows.map((row) => (row.key === key ? { ...row, action } : row)) });
+
+  const handleCommit = async () => {
+    if (!plan) return;
+    setSaving(true);
+    try {
+      // Ids are set here so each new property's past records can point at it.
+      const creates = plan.rows
+        .filter((row) => row.action === 'create')
+        .map((row) => ({ row, id: uuidv4() }));
+      const updates = plan.rows.filter((row) => row.action === 'update' && row.existing);
+      let created = 0;
+      if (creates.length) {
+        const { inserted, error } = await commitImportBatches<PropertyRow>({
+          source: IMPORT_SOURCES.propertySales,
+          table: 'properties',
+          fileName: plan.fileName,
+          records: creates.map(({ row, id }) => ({ ...row.changes, id, user_id: user?.id ?? null })),
+          rollbackOnError: plan.rollbackOnError,
+        });
+        if (error) {
+          throw new Error(
+            plan.rollbackOnError ? `${error}. Nothing was imported.` : `${error}. ${inserted.length} properties were added before it.`
+          );
+        }
+        created = inserted.length;
+      }
+
+      // Updates are not part of the import run, so one that fails (a listing
+      // changed hands since the preview, say) is reported and the rest carry on.
+      const failures: string[] = [];
+      const updated: PropertyImportPlanRow[] = [];
+      for (const row of updates) {
+        try {
+          if (Object.keys(row.changes).length) await updateProperty(row.existing!.id, row.changes);
+          updated.push(row);
+        } catch (err) {
+          failures.push(`${row.address}: ${err instanceof Error ? err.message : 'update failed'}`);
+        }
+      }
+
+      // Sales the updated properties already have on record aren't added again.
+      const recorded = new Set(
+        (await fetchPastRecords(updated.map((row) => row.existing!.id))).map(
+          (record) => `${record.property_id}|${record.sale_date}|${record.price}`
+        )
+      );
+      const pastRecords: PastRecordInsert[] = [
+        ...creates.flatMap(({ row, id }) => row.pastRecords.map((record) => ({ ...record, property_id: id }))),
+        ...updated.flatMap((row) => row.pastRecords.map((record) => ({ ...record, property_id: row.existing!.id }))),
+      ].filter((record) => !recorded.has(`${record.property_id}|${record.sale_date}|${record.price}`));
+      let recordedCount = pastRecords.length;
+      try {
+        await createPastRecords(pastRecords);
+      } catch (err) {
+        recordedCount = 0;
+        failures.push(`Past sales: ${err instanceof Error ? err.message : 'could not be saved'}`);
+      }
+
+      const summary =
+        `Added ${created} properties, updated ${updated.length} and recorded ${recordedCount} past sales` +
+        (counts.skip ? `. Skipped ${counts.skip}` : '');
+      if (failures.length) {
+        toast.warn(`${summary}. ${failures.length} failed: ${failures.join('; ')}`, { autoClose: false });
+      } else {
+        toast.success(summary);
+      }
+      // Failed updates stay on screen so they can be retried.
+      const retry = updates.filter((row) => !updated.includes(row));
+      setPlan(retry.length ? { ...plan, rows: retry } : null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to import properties');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold text-blue-900 flex items-center">
+          <FileSpreadsheet className="w-8 h-8 mr-3 text-blue-600" /> Import Property Sales
+        </h1>
+        <Link to="/agent-properties" className="flex items-center text-blue-700 hover:underline">
+          <ArrowLeft className="w-4 h-4 mr-1" /> Back to properties
+        </Link>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-blue-200">
+        {!plan ? (
+          <div className="space-y-4">
+            <p className="text-gray-700">
+              Upload a sales export from RP Data, CoreLogic or a similar provider. Properties already on file are matched
+              by address and updated with the latest sale; older sales are kept as past records.
+            </p>
+            <button
+              onClick={() => setIsWizardOpen(true)}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              <Upload className="w-4 h-4 mr-2" /> Choose Export File
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <p className="text-sm text-gray-700">
+                {plan.fileName}: {counts.create} new, {counts.update} to update, {counts.skip} skipped
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPlan(null)}
+                  disabled={saving}
+                  className="px-4 py-2 border border-blue-300 rounded-md text-blue-900 hover:bg-blue-50 disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleCommit}
+                  disabled={saving || counts.create + counts.update === 0}
+                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />} Import
+                </button>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-blue-900 border-b border-blue-200">
+                    <th className="py-2 pr-3">Address</th>
+                    <th className="py-2 pr-3">Rows</th>
+                    <th className="py-2 pr-3">On file</th>
+                    <th className="py-2 pr-3">Changes</th>
+                    <th className="py-2 pr-3">Past sales</th>
+                    <th className="py-2">Action</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.rows.map((row) => (
+                    <tr key={row.key} className="border-b border-blue-50">
+                      <td className="py-2 pr-3">{row.address}</td>
+                      <td className="py-2 pr-3 text-gray-500">{row.rowNumbers.join(', ')}</td>
+                      <td className="py-2 pr-3">
+                        {row.existing ? (
+                          <Link to={`/property-detail/${row.existing.id}`} className="text-blue-700 hover:underline">
+                            View
+                          </Link>
+                        ) : (
+                          <span className="text-gray-500">New</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-3 text-gray-700">
+                        {plan.readOnly.has(row.key) ? "You can't edit this listing" : describeChanges(row)}
+                      </td>
+                      <td className="py-2 pr-3">{row.pastRecords.length || '—'}</td>
+                      <td className="py-2">
+                        <select
+                          value={row.action}
+                          onChange={(e) => setAction(row.key, e.target.value as PropertyImportAction)}
+                          disabled={plan.readOnly.has(row.key)}
+                          className="p-1 border border-blue-200 rounded-md disabled:opacity-50"
+                        >
+                          {(row.existing ? (['update', 'skip'] as const) : (['create', 'skip'] as const)).map((action) => (
+                            <option key={action} value={action}>
+                              {ACTION_LABELS[action]}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+
+      {isWizardOpen && (
+        <ImportWizard
+          title="Import Property Sales"
+          source={IMPORT_SOURCES.propertySales}
+          fields={PROPERTY_SALE_FIELDS}
+          validateRow={requirePropertyAddress}
+          dryRun={(rows) => dryRunImportRows('properties', rows, ({ values }) => ({ ...propertySaleFromValues(values), id: uuidv4() }))}
+          showHistory
+          submitLabel="Match"
+          onSubmit={handleImportRows}
+          onClose={() => setIsWizardOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+export default PropertyImport;
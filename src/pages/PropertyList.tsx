@@ -1,9 +1,9 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { supabase } from '../lib/supabase';
+import { fetchProperties } from '../api/properties';
 import { Loader2, MapPin, DollarSign } from 'lucide-react';
 import { formatCurrency } from '../utils/formatters';
-import { Property } from '../types/Property';
+import { PropertyRow as Property } from '../types/database';
 import { toast } from 'react-toastify';
 
 export function PropertyList() {
@@ -13,17 +13,13 @@ export function PropertyList() {
   const navigate = useNavigate();
 
   useEffect(() => {
-    const fetchProperties = async () => {
+    const loadProperties = async () => {
       try {
-        const { data, error } = await supabase
-          .from('properties')
-          .select('*')
-          .eq('category', 'Listing')
-          .not('id', 'is', null)
-          .order('listed_date', { ascending: false });
-
-        if (error) throw error;
-        setProperties(data || []);
+        const data = await fetchProperties({
+          filters: { categories: ['Listing'] },
+          sort: { column: 'listed_date', ascending: false },
+        });
+        setProperties(data);
       } catch (err: any) {
         setError(err.message || 'Failed to load properties');
         toast.error(err.message || 'Failed to load properties');
@@ -32,7 +28,7 @@ export function PropertyList() {
       }
     };
 
-    fetchProperties();
+    loadProperties();
   }, []);
 
   const handlePropertyClick = (property: Property) => {
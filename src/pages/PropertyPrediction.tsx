@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
 import { useParams, useLocation, Link, useNavigate } from 'react-router-dom';
-import { supabase } from '../lib/supabase';
+import { fetchPropertyById, updateProperty } from '../api/properties';
 import { Loader2, Building, TrendingUp, TrendingDown, Download, Edit2, Save } from 'lucide-react';
 import { toast } from 'react-toastify';
 import { Property } from '../types/Property';
@@ -8,15 +8,8 @@ import { generatePDFReport, generateJSONReport } from '../utils/reportGenerator'
 import { formatCurrency } from '../utils/formatters';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
 import { motion } from 'framer-motion';
-
-export interface PredictionResult {
-  recommendation: 'BUY' | 'SELL';
-  confidence: number;
-  trend: number;
-  historicalData: { dates: string[]; prices: number[] };
-  marketCondition?: 'Rising' | 'Stable' | 'Declining';
-  sentimentScore?: number;
-}
+import { analyzePriceTrend } from '../api/priceHistory';
+import { PredictionResult } from '../utils/forecasting';
 
 export function PropertyPrediction() {
   const { id } = useParams<{ id: string }>();
@@ -41,84 +34,21 @@ export function PropertyPrediction() {
     const insights = [
       `Market shows ${prediction.marketCondition || 'N/A'} conditions with a ${prediction.trend != null ? prediction.trend.toFixed(1) : 'N/A'}% trend.`,
       `Confidence level of ${prediction.confidence.toFixed(2)}% suggests ${prediction.recommendation.toLowerCase()} action.`,
-      `Recommendation: ${prediction.recommendation} based on advanced market analysis.`,
-      `Sentiment Score: ${prediction.sentimentScore != null ? prediction.sentimentScore.toFixed(1) : 'N/A'} reflects market mood.`,
+      `Recommendation: ${prediction.recommendation} based on the median sale price trend.`,
+      prediction.backtest
+        ? `The ${prediction.model} model was ${prediction.backtest.accuracy.toFixed(1)}% accurate predicting the last ${prediction.backtest.folds} months of sales.`
+        : `Only ${prediction.sampleSize ?? 0} dated sales are available, so the forecast range is wide.`,
     ];
     setAiInsights(insights);
   };
 
-  const analyzePriceTrend = async (city: string, propertyType: string): Promise<PredictionResult> => {
-    try {
-      const oneYearAgo = new Date();
-      oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
-
-      const { data: historicalData, error } = await supabase
-        .from('property_history')
-        .select('sale_date, price')
-        .eq('city', city)
-        .eq('property_type', propertyType)
-        .gte('sale_date', oneYearAgo.toISOString())
-        .order('sale_date', { ascending: true });
-
-      if (error) throw error;
-
-      if (!historicalData || historicalData.length === 0) {
-        return {
-          recommendation: 'BUY',
-          confidence: 50,
-          trend: 0,
-          historicalData: { dates: [], prices: [] },
-          sentimentScore: 0,
-        };
-      }
-
-      const dates = historicalData.map((record) =>
-        new Date(record.sale_date).toLocaleDateString('en-AU', { month: 'short', year: 'numeric' })
-      );
-      const prices = historicalData.map((record) => record.price);
-
-      const lastPrice = prices[prices.length - 1];
-      const firstPrice = prices[0];
-      const slope = ((lastPrice - firstPrice) / firstPrice) * 100;
-      const marketCondition: PredictionResult['marketCondition'] = slope > 3 ? 'Rising' : slope < -3 ? 'Declining' : 'Stable';
-      const recommendation: 'BUY' | 'SELL' = slope >= 0 ? 'BUY' : 'SELL';
-
-      const result: PredictionResult = {
-        recommendation,
-        confidence: Math.min(Math.abs(slope) * 2, 95),
-        trend: slope,
-        historicalData: { dates, prices },
-        marketCondition,
-        sentimentScore: Math.random() * 100 - 50,
-      };
-
-      generateAIInsights(result);
-      return result;
-    } catch (error) {
-      console.error('Price trend analysis failed:', error);
-      toast.error('Failed to generate price trend analysis');
-      return {
-        recommendation: 'BUY',
-        confidence: 50,
-        trend: 0,
-        historicalData: { dates: [], prices: [] },
-        sentimentScore: 0,
-      };
-    }
-  };
-
   const fetchPropertyAndPredict = async (propertyId: string) => {
     setLoading(true);
     try {
       let data = liveData;
       if (!data) {
-        const { data: fetchedData, error } = await supabase
-          .from('properties')
-          .select('*')
-          .eq('id', propertyId)
-          .single();
-        if (error) throw error;
-        data = fetchedData;
+        // Nullable columns read as absent fields on the page's Property shape.
+        data = ((await fetchPropertyById(propertyId)) as Property | null) ?? undefined;
       }
 
       if (!data) {
@@ -128,8 +58,9 @@ export function PropertyPrediction() {
       }
 
       setProperty(data);
-      const predictionResult = await analyzePriceTrend(data.city || data.suburb || 'Unknown', data.property_type || 'Unknown'); // Provide default string
+      const predictionResult = await analyzePriceTrend(data.suburb || data.city || 'Unknown', data.property_type || undefined);
       setPrediction(predictionResult);
+      generateAIInsights(predictionResult);
       toast.success('Property analysis completed successfully');
 
       if (location.state?.isNewSubmission) {
@@ -148,25 +79,20 @@ export function PropertyPrediction() {
   const saveEditedProperty = async () => {
     if (!editedProperty) return;
     try {
-      const { error } = await supabase
-        .from('properties')
-        .update({
-          street_number: editedProperty.street_number,
-          street_name: editedProperty.street_name,
-          suburb: editedProperty.suburb,
-          city: editedProperty.city,
-          postcode: editedProperty.postcode,
-          price: editedProperty.price,
-          property_type: editedProperty.property_type,
-          bedrooms: editedProperty.bedrooms,
-          bathrooms: editedProperty.bathrooms,
-          car_garage: editedProperty.car_garage,
-          sqm: editedProperty.sqm,
-          landsize: editedProperty.landsize,
-        })
-        .eq('id', editedProperty.id);
-
-      if (error) throw error;
+      await updateProperty(editedProperty.id, {
+        street_number: editedProperty.street_number,
+        street_name: editedProperty.street_name,
+        suburb: editedProperty.suburb,
+        city: editedProperty.city,
+        postcode: editedProperty.postcode,
+        price: editedProperty.price,
+        property_type: editedProperty.property_type,
+        bedrooms: editedProperty.bedrooms,
+        bathrooms: editedProperty.bathrooms,
+        car_garage: editedProperty.car_garage,
+        sqm: editedProperty.sqm,
+        landsize: editedProperty.landsize,
+      });
 
       setProperty(editedProperty);
       setIsEditing(false);
@@ -418,14 +344,22 @@ export function PropertyPrediction() {
                 </span>
               </p>
               <p className="text-gray-600">
-                <strong>Sentiment Score:</strong>{' '}
-                {prediction.sentimentScore != null ? prediction.sentimentScore.toFixed(1) : 'N/A'} (Market Mood)
+                <strong>Forecast Median:</strong>{' '}
+                {prediction.nextPrice ? formatCurrency(prediction.nextPrice) : 'N/A'}
+                {prediction.priceRange &&
+                  ` (80% range ${formatCurrency(prediction.priceRange.lower)} – ${formatCurrency(prediction.priceRange.upper)})`}
+              </p>
+              <p className="text-gray-600">
+                <strong>Backtest Accuracy:</strong>{' '}
+                {prediction.backtest
+                  ? `${prediction.backtest.accuracy.toFixed(1)}% over ${prediction.backtest.folds} months (${prediction.model} model)`
+                  : `Not enough history to test (${prediction.sampleSize ?? 0} sales)`}
               </p>
             </div>
           </div>
           {chartData.length > 0 && (
             <div className="mt-6">
-              <h3 className="text-lg font-semibold mb-2">Price Trend (Last 12 Months)</h3>
+              <h3 className="text-lg font-semibold mb-2">Monthly Median Sale Price</h3>
               <LineChart
                 width={500}
                 height={200}
@@ -1,5 +1,9 @@
 import { useEffect, useState, useCallback, Fragment } from 'react';
-import { supabase } from '../lib/supabase';
+import {
+  deleteProperty as deletePropertyRow,
+  fetchAllProperties,
+  updateProperty as updatePropertyRow,
+} from '../api/properties';
 import { Loader2, Download, Filter, BarChart, ArrowUpDown, Trash2, ChevronLeft, ChevronRight, Pencil } from 'lucide-react';
 import { Bar } from 'react-chartjs-2';
 import { Dialog, Transition } from '@headlessui/react';
@@ -14,12 +18,17 @@ import {
   ChartOptions,
 } from 'chart.js';
 import { toast } from 'react-toastify';
-import jsPDF from 'jspdf';
-import autoTable from 'jspdf-autotable';
-import * as XLSX from 'xlsx';
 import moment from 'moment';
-import { Property } from '../types/Property';
+import { PropertyRow as Property } from '../types/database';
+import { ExportDialog } from '../components/ExportDialog';
+import { activeFilters, ExportSpec } from '../utils/exporter';
+import { PROPERTY_EXPORT_COLUMNS } from '../utils/exportColumns';
 import { debounce } from 'lodash';
+import { normalizeSuburb } from '../utils/gazetteer';
+import { forecastSegment, salesFromProperties } from '../utils/forecasting';
+import { downloadReport } from '../utils/pdfReport';
+import { TABLE_REPORT } from '../utils/reportTemplates';
+import { OUR_AGENCY } from '../constants';
 
 ChartJS.register(CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend);
 
@@ -62,6 +71,7 @@ export function PropertyReport() {
   const [metrics, setMetrics] = useState<PropertyMetrics | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [filters, setFilters] = useState({
     suburb: '',
@@ -127,26 +137,20 @@ export function PropertyReport() {
         return false;
       }
 
-      const { error } = await supabase
-        .from('properties')
-        .update({
-          street_number: formData.street_number,
-          street_name: formData.street_name,
-          suburb: formData.suburb,
-          price: formData.price,
-          property_type: formData.property_type,
-          bedrooms: formData.bedrooms,
-          bathrooms: formData.bathrooms,
-          car_garage: formData.car_garage,
-          sqm: formData.sqm,
-          agent_name: formData.agent_name,
-          agency_name: formData.agency_name,
-          category: formData.category,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', formData.id);
-
-      if (error) throw error;
+      await updatePropertyRow(formData.id, {
+        street_number: formData.street_number,
+        street_name: formData.street_name,
+        suburb: formData.suburb,
+        price: formData.price,
+        property_type: formData.property_type,
+        bedrooms: formData.bedrooms,
+        bathrooms: formData.bathrooms,
+        car_garage: formData.car_garage,
+        sqm: formData.sqm,
+        agent_name: formData.agent_name,
+        agency_name: formData.agency_name,
+        category: formData.category,
+      });
 
       setProperties(prev =>
         prev.map(p =>
@@ -167,8 +171,8 @@ export function PropertyReport() {
         p.id === formData.id ? { ...p, ...formData } : p
       ));
       return true;
-    } catch (err: any) {
-      toast.error('Failed to update property');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update property');
       console.error('Update error:', err);
       return false;
     }
@@ -187,19 +191,16 @@ export function PropertyReport() {
     try {
       setLoading(true);
       setError(null);
-      const { data, error } = await supabase
-        .from('properties')
-        .select('*')
-        .order('created_at', { ascending: false });
-      if (error) throw error;
-
-      setProperties(data || []);
-      setFilteredProperties(data || []);
-      generateMetrics(data || []);
-      updateFilterSuggestions(data || []);
-    } catch (err: any) {
-      setError(err.message || 'Failed to fetch properties');
-      toast.error(err.message || 'Failed to fetch properties');
+      const data = await fetchAllProperties({ sort: { column: 'created_at', ascending: false } });
+
+      setProperties(data);
+      setFilteredProperties(data);
+      generateMetrics(data);
+      updateFilterSuggestions(data);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch properties';
+      setError(message);
+      toast.error(message);
     } finally {
       setLoading(false);
     }
@@ -207,19 +208,14 @@ export function PropertyReport() {
 
   const deleteProperty = async (propertyId: string) => {
     try {
-      const { error } = await supabase
-        .from('properties')
-        .delete()
-        .eq('id', propertyId);
-
-      if (error) throw error;
+      await deletePropertyRow(propertyId);
 
       setProperties(prev => prev.filter(p => p.id !== propertyId));
       setFilteredProperties(prev => prev.filter(p => p.id !== propertyId));
       toast.success('Property deleted successfully');
       generateMetrics(properties.filter(p => p.id !== propertyId));
-    } catch (err: any) {
-      toast.error('Failed to delete property');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete property');
       console.error('Delete error:', err);
     }
   };
@@ -249,35 +245,8 @@ export function PropertyReport() {
     });
   };
 
-  const predictFutureAvgPriceBySuburb = (suburb: string, data: Property[]) => {
-    const relevantData = data.filter((p) => p.suburb === suburb && (p.sold_price || p.price));
-    if (relevantData.length < 2) return relevantData[0]?.price || 0;
-
-    const prices = relevantData.map((p) => p.sold_price || p.price);
-    const growthRates = relevantData
-      .map((p) => p.expected_growth || 0)
-      .filter((g) => g !== 0);
-    const avgGrowth =
-      growthRates.length > 0
-        ? growthRates.reduce((sum, g) => sum + g, 0) / growthRates.length
-        : 0;
-
-    const n = prices.length;
-    let xSum = 0,
-      ySum = 0,
-      xySum = 0,
-      xSquaredSum = 0;
-    prices.forEach((price, i) => {
-      xSum += i;
-      ySum += price;
-      xySum += i * price;
-      xSquaredSum += i * i;
-    });
-    const slope = (n * xySum - xSum * ySum) / (n * xSquaredSum - xSum * xSum);
-    const intercept = (ySum - slope * xSum) / n;
-    const historicalPrediction = slope * (n + 1) + intercept;
-    return historicalPrediction * (1 + avgGrowth / 100);
-  };
+  const predictFutureAvgPriceBySuburb = (suburb: string, data: Property[]) =>
+    forecastSegment(salesFromProperties(data), { suburb }, normalizeSuburb)?.predicted || 0;
 
   const generateMetrics = useCallback(
     debounce((data: Property[]) => {
@@ -303,14 +272,14 @@ export function PropertyReport() {
 
         predictedAvgPriceBySuburb[suburb] = predictFutureAvgPriceBySuburb(suburb, data);
 
-        const date = moment(prop.sale_date || prop.created_at).format('YYYY-MM');
+        const date = moment(prop.sold_date || prop.created_at).format('YYYY-MM');
         priceTrendsBySuburb[suburb] = priceTrendsBySuburb[suburb] || {};
         priceTrendsBySuburb[suburb][date] =
           ((priceTrendsBySuburb[suburb][date] || 0) + price) /
           data.filter(
             (p) =>
               p.suburb === suburb &&
-              moment(p.sale_date || p.created_at).format('YYYY-MM') === date
+              moment(p.sold_date || p.created_at).format('YYYY-MM') === date
           ).length;
       });
 
@@ -380,53 +349,66 @@ export function PropertyReport() {
     applyFilters();
   }, [filters, applyFilters]);
 
-  const exportPropertyReportPDF = () => {
-    if (!metrics) return;
-    const doc = new jsPDF();
-    doc.setFontSize(20);
-    doc.text('Property Market Report', 20, 20);
-    doc.setFontSize(10);
-    doc.text('Generated by xAI Property Management', 20, 30);
-
-    autoTable(doc, {
-      startY: 40,
-      head: [['Suburb', 'Listed', 'Sold', 'Avg Sale Price', 'Predicted Avg Price']],
-      body: Object.keys(metrics.listingsBySuburb).map((suburb) => [
-        suburb,
-        metrics.listingsBySuburb[suburb].listed,
-        metrics.listingsBySuburb[suburb].sold,
-        formatCurrency(metrics.avgSalePriceBySuburb[suburb] || 0),
-        formatCurrency(metrics.predictedAvgPriceBySuburb[suburb] || 0),
-      ]),
-      theme: 'striped',
-      headStyles: { fillColor: '#FF6384', textColor: '#fff' },
+  const reportFilters = () =>
+    activeFilters({
+      Suburb: filters.suburb,
+      'Street Name': filters.streetName,
+      'Street Number': filters.streetNumber,
+      Agent: filters.agent,
+      'Property Type': filters.propertyType,
+      'Price Range': filters.priceRange,
+      Bedrooms: filters.bedrooms,
+      Bathrooms: filters.bathrooms,
+      Category: filters.category,
     });
 
-    doc.save('property_report.pdf');
-  };
-
-  const exportPropertyReportCSV = () => {
+  const exportPropertyReportPDF = async () => {
     if (!metrics) return;
-    const data = [
-      ['Property Market Report'],
-      ['Generated by xAI Property Management'],
-      [],
-      ['Suburb', 'Listed', 'Sold', 'Avg Sale Price', 'Predicted Avg Price'],
-      ...Object.keys(metrics.listingsBySuburb).map((suburb) => [
-        suburb,
-        metrics.listingsBySuburb[suburb].listed,
-        metrics.listingsBySuburb[suburb].sold,
-        formatCurrency(metrics.avgSalePriceBySuburb[suburb] || 0),
-        formatCurrency(metrics.predictedAvgPriceBySuburb[suburb] || 0),
-      ]),
-    ];
-
-    const ws = XLSX.utils.aoa_to_sheet(data);
-    const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, ws, 'Property Report');
-    XLSX.writeFile(wb, 'property_report.csv');
+    try {
+      await downloadReport(TABLE_REPORT, {
+        id: 'property_report',
+        title: 'Property Market Report',
+        filters: reportFilters().map((fact) => ({ label: fact.label, value: String(fact.value) })),
+        tableTitle: 'Suburbs',
+        head: ['Suburb', 'Listed', 'Sold', 'Avg Sale Price', 'Predicted Avg Price'],
+        rows: Object.keys(metrics.listingsBySuburb).map((suburb) => [
+          suburb,
+          metrics.listingsBySuburb[suburb].listed,
+          metrics.listingsBySuburb[suburb].sold,
+          formatCurrency(metrics.avgSalePriceBySuburb[suburb] || 0),
+          formatCurrency(metrics.predictedAvgPriceBySuburb[suburb] || 0),
+        ]),
+      });
+    } catch (error) {
+      console.error('Error generating PDF:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to generate PDF');
+    }
   };
 
+  const propertyExportSpec = (): ExportSpec => ({
+    id: 'property_market_report',
+    title: 'Property Market Report',
+    tables: [
+      {
+        name: 'Suburbs',
+        rows: metrics ? Object.keys(metrics.listingsBySuburb) : [],
+        columns: [
+          { key: 'suburb', label: 'Suburb', value: (suburb: string) => suburb },
+          { key: 'listed', label: 'Listed', value: (suburb: string) => metrics?.listingsBySuburb[suburb].listed },
+          { key: 'sold', label: 'Sold', value: (suburb: string) => metrics?.listingsBySuburb[suburb].sold },
+          { key: 'avg_sale_price', label: 'Avg Sale Price', value: (suburb: string) => metrics?.avgSalePriceBySuburb[suburb] },
+          {
+            key: 'predicted_avg_price',
+            label: 'Predicted Avg Price',
+            value: (suburb: string) => metrics?.predictedAvgPriceBySuburb[suburb],
+          },
+        ],
+      },
+      { name: 'Properties', rows: filteredProperties, columns: PROPERTY_EXPORT_COLUMNS },
+    ],
+    filters: reportFilters(),
+  });
+
   const exportPropertyReportHTML = () => {
     if (!metrics) return;
     const htmlContent = `
@@ -461,7 +443,7 @@ export function PropertyReport() {
                 )
                 .join('')}
             </table>
-            <div class="footer">Generated by xAI Property Management</div>
+            <div class="footer">Prepared by ${OUR_AGENCY}</div>
           </div>
         </body>
       </html>
@@ -938,11 +920,11 @@ export function PropertyReport() {
           Export PDF
         </button>
         <button
-          onClick={exportPropertyReportCSV}
+          onClick={() => setIsExportOpen(true)}
           className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
         >
           <Download className="w-5 h-5 mr-2" />
-          Export Excel
+          Export Table
         </button>
         <button
           onClick={exportPropertyReportHTML}
@@ -952,6 +934,7 @@ export function PropertyReport() {
           Export HTML
         </button>
       </div>
+      {isExportOpen && <ExportDialog spec={propertyExportSpec()} onClose={() => setIsExportOpen(false)} />}
 
       <Transition appear show={isEditModalOpen} as={Fragment}>
         <Dialog as="div" className="relative z-10" onClose={() => setIsEditModalOpen(false)}>
@@ -41,7 +41,9 @@ import { Bar } from 'react-chartjs-2';
 import { useLocation, useNavigate } from 'react-router-dom';
 import Select from 'react-select';
 import { toast } from 'react-toastify';
-import * as XLSX from 'xlsx';
+import { deleteProperty, updateProperty } from '../api/properties';
+import { ExportDialog } from '../components/ExportDialog';
+import { usePermissions } from '../store/authStore';
 import { supabase } from '../lib/supabase';
 import {
   calculateCommission,
@@ -54,7 +56,12 @@ import {
   selectStyles,
 } from '../reportsUtils';
 import { Filters, PropertyDetails } from '../types/types';
-import { generatePdf } from '../utils/pdfUtils1';
+import { activeFilters, ExportSpec } from '../utils/exporter';
+import { PROPERTY_EXPORT_COLUMNS } from '../utils/exportColumns';
+import { isKnownSuburb, listSuburbLabels } from '../utils/gazetteer';
+import { downloadReport, reportBlob } from '../utils/pdfReport';
+import { TABLE_REPORT, TableReportData } from '../utils/reportTemplates';
+import { OUR_AGENCY } from '../constants';
 ChartJS.register(
   CategoryScale,
   LinearScale,
@@ -96,24 +103,10 @@ interface PropertyFormData {
   contract_status: string;
   features: string[];
 }
-const ALLOWED_SUBURBS = [
-  'Moggill QLD 4070',
-  'Bellbowrie QLD 4070',
-  'Pullenvale QLD 4069',
-  'Brookfield QLD 4069',
-  'Anstead QLD 4070',
-  'Chapel Hill QLD 4069',
-  'Kenmore QLD 4069',
-  'Kenmore Hills  ',
-  'Fig Tree Pocket QLD 4069',
-  'Pinjarra Hills QLD 4069',
-  'Springfield QLD 4300',
-  'Spring Mountain QLD 4300',
-  'Greenbank QLD 4124',
-].map(suburb => normalizeSuburb(suburb));
 export function PropertyReportPage(props: PropertyReportPageProps) {
   const location = useLocation();
   const navigate = useNavigate();
+  const { canModify } = usePermissions();
   const {
     propertyMetrics,
     filteredProperties: initialFilteredProperties = [],
@@ -146,6 +139,7 @@ export function PropertyReportPage(props: PropertyReportPageProps) {
   const [localCurrentPage, setLocalCurrentPage] = useState(currentPage || 1);
   const [exportLoading, setExportLoading] = useState(false);
   const [isPdfPreviewOpen, setIsPdfPreviewOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const [pdfUrl, setPdfUrl] = useState<string | null>(null);
   const [expandedFilters, setExpandedFilters] = useState({
     suburbs: false,
@@ -163,7 +157,7 @@ export function PropertyReportPage(props: PropertyReportPageProps) {
   const [filteredProperties, setFilteredProperties] = useState<PropertyDetails[]>(initialFilteredProperties);
   const [dynamicFilterSuggestions, setDynamicFilterSuggestions] = useState({
     // suburbs: filterSuggestions?.suburbs || [],
-    suburbs: ALLOWED_SUBURBS, // Only allowed suburbs
+    suburbs: listSuburbLabels(), // Only allowed suburbs
     streetNames: filterSuggestions?.streetNames || [],
     streetNumbers: filterSuggestions?.streetNumbers || [],
     agents: filterSuggestions?.agents || [],
@@ -183,13 +177,13 @@ export function PropertyReportPage(props: PropertyReportPageProps) {
   useEffect(() => {
     if (initialFilteredProperties.length > 0) {
       const allowed = initialFilteredProperties.filter((prop: PropertyDetails) =>
-        prop && ALLOWED_SUBURBS.includes(normalizeSuburb(prop.suburb || ''))
+        prop && isKnownSuburb(prop.suburb || '')
       );
       setAllProperties(allowed);
       applyFilters(localFilters);
       setDynamicFilterSuggestions((prev) => ({
         ...prev,
-        suburbs: ALLOWED_SUBURBS, // Restrict to allowed suburbs
+        suburbs: listSuburbLabels(), // Restrict to allowed suburbs
         streetNames: [...new Set(allowed.map((prop: PropertyDetails) => prop?.street_name || '').filter(Boolean))],
         streetNumbers: [...new Set(allowed.map((prop: PropertyDetails) => prop?.street_number || '').filter(Boolean))],
         agents: [...new Set(allowed.map((prop: PropertyDetails) => prop?.agent_name || '').filter(Boolean))],
@@ -326,14 +320,14 @@ export function PropertyReportPage(props: PropertyReportPageProps) {
   const updateFilterSuggestions = (selectedSuburbs: string[]) => {
   try {
     // Only include allowed suburbs in the suggestions
-    const validSelectedSuburbs = selectedSuburbs.filter(suburb => ALLOWED_SUBURBS.includes(normalizeSuburb(suburb)));
+    const validSelectedSuburbs = selectedSuburbs.filter(suburb => isKnownSuburb(suburb));
     const baseProperties = validSelectedSuburbs.length === 0
-      ? allProperties.filter((prop: PropertyDetails) => ALLOWED_SUBURBS.includes(normalizeSuburb(prop.suburb || '')))
+      ? allProperties.filter((prop: PropertyDetails) => isKnownSuburb(prop.suburb || ''))
       : allProperties.filter((prop: PropertyDetails) =>
           prop && validSelectedSuburbs.some((suburb) => normalizeSuburb(prop.suburb || '') === normalizeSuburb(suburb))
         );
     const newSuggestions = {
-      suburbs: ALLOWED_SUBURBS, // Only allowed suburbs
+      suburbs: listSuburbLabels(), // Only allowed suburbs
       streetNames: [...new Set(baseProperties.map((prop: PropertyDetails) => prop?.street_name || '').filter(Boolean))],
       streetNumbers: [...new Set(baseProperties.map((prop: PropertyDetails) => prop?.street_number || '').filter(Boolean))],
       agents: [...new Set(baseProperties.map((prop: PropertyDetails) => prop?.agent_name || '').filter(Boolean))],
@@ -345,7 +339,7 @@ export function PropertyReportPage(props: PropertyReportPageProps) {
     setDynamicFilterSuggestions(newSuggestions);
     setLocalFilters((prev: Filters) => ({
       ...prev,
-      suburbs: prev.suburbs.filter((suburb) => ALLOWED_SUBURBS.includes(normalizeSuburb(suburb))),
+      suburbs: prev.suburbs.filter((suburb) => isKnownSuburb(suburb)),
       streetNames: prev.streetNames.filter((name) => newSuggestions.streetNames.includes(name)),
       streetNumbers: prev.streetNumbers.filter((num) => newSuggestions.streetNumbers.includes(num)),
       agents: prev.agents.filter((agent) => newSuggestions.agents.includes(agent)),
@@ -436,21 +430,7 @@ export function PropertyReportPage(props: PropertyReportPageProps) {
 
       console.log('Updating property with payload:', updatedProperty);
 
-      const { data: updateData, error: updateError } = await supabase
-        .from('properties')
-        .update(updatedProperty)
-        .eq('id', editingProperty.id)
-        .select('*')
-        .single();
-
-      if (updateError) {
-        console.error('Supabase update error:', updateError);
-        throw new Error(`Failed to update property: ${updateError.message}`);
-      }
-      if (!updateData) {
-        console.error('No data returned from update operation');
-        throw new Error('Update operation did not return updated property');
-      }
+      const updateData = await updateProperty(editingProperty.id, updatedProperty);
 
       console.log('Updated property from Supabase:', updateData);
 
@@ -483,9 +463,9 @@ export function PropertyReportPage(props: PropertyReportPageProps) {
       setIsEditModalOpen(false);
       setEditingProperty(null);
       setFormErrors({});
-    } catch (err: any) {
+    } catch (err) {
       console.error('Update error:', err);
-      toast.error(err.message || 'Failed to update property');
+      toast.error(err instanceof Error ? err.message : 'Failed to update property');
     } finally {
       setIsUpdating(false);
     }
@@ -502,11 +482,11 @@ export function PropertyReportPage(props: PropertyReportPageProps) {
        
         // Always use allProperties as the base for filtering
         const baseProperties = allProperties.filter((prop: PropertyDetails) =>
-          prop && ALLOWED_SUBURBS.includes(normalizeSuburb(prop.suburb || ''))
+          prop && isKnownSuburb(prop.suburb || '')
         );
        
         const filtered = baseProperties.filter((prop: PropertyDetails) => {
-        const suburbMatch = ALLOWED_SUBURBS.includes(normalizeSuburb(prop.suburb || '')) &&
+        const suburbMatch = isKnownSuburb(prop.suburb || '') &&
         (newFilters.suburbs.length === 0 ||
         newFilters.suburbs.some((suburb: string) => normalizeSuburb(prop.suburb || '') === normalizeSuburb(suburb)));
         const streetNameMatch =
@@ -638,10 +618,10 @@ export function PropertyReportPage(props: PropertyReportPageProps) {
      
       // Update suggestions based on the reset data
       const baseProperties = allProperties.filter((prop: PropertyDetails) =>
-        ALLOWED_SUBURBS.includes(normalizeSuburb(prop.suburb || ''))
+        isKnownSuburb(prop.suburb || '')
       );
       setDynamicFilterSuggestions({
-        suburbs: ALLOWED_SUBURBS,
+        suburbs: listSuburbLabels(),
         streetNames: [...new Set(baseProperties.map((prop: PropertyDetails) => prop?.street_name || '').filter(Boolean))],
         streetNumbers: [...new Set(baseProperties.map((prop: PropertyDetails) => prop?.street_number || '').filter(Boolean))],
         agents: [...new Set(baseProperties.map((prop: PropertyDetails) => prop?.agent_name || '').filter(Boolean))],
@@ -664,59 +644,67 @@ export function PropertyReportPage(props: PropertyReportPageProps) {
   const handleDeleteProperty = async (propertyId: string) => {
     try {
       if (!confirm('Are you sure you want to delete this property?')) return;
-      const { error } = await supabase
-        .from('properties')
-        .delete()
-        .eq('id', propertyId);
-      if (error) {
-        console.error('Error deleting property:', error);
-        throw new Error(`Failed to delete property: ${error.message}`);
-      }
+      await deleteProperty(propertyId);
       setAllProperties((prev) => prev.filter((prop) => prop.id !== propertyId));
       setFilteredProperties((prev) => prev.filter((prop) => prop.id !== propertyId));
       toast.success('Property deleted successfully');
-    } catch (err: any) {
+    } catch (err) {
       console.error('Delete error:', err);
-      toast.error(err.message || 'Failed to delete property');
+      toast.error(err instanceof Error ? err.message : 'Failed to delete property');
     }
   };
-  const exportPropertyReportPDF = async () => {
-    if (!propertyMetrics) {
-      toast.error('No property metrics available for export');
-      return;
-    }
-    setExportLoading(true);
-    try {
-      const head = [
-        [
-          'Street Number',
-          'Street Name',
-          'Suburb',
-          'Postcode',
-          'Agent',
-          'Type',
-          'Price',
-          'Sold Price',
-          'Status',
-          'Commission (%)',
-          'Commission Earned',
-          'Agency',
-          'Expected Price',
-          'Sale Type',
-          'Bedrooms',
-          'Bathrooms',
-          'Car Garage',
-          'SQM',
-          'Land Size',
-          'Listed Date',
-          'Sold Date',
-          'Flood Risk',
-          'Bushfire Risk',
-          'Contract Status',
-          'Features',
-        ],
-      ];
-      const body = filteredProperties.map((prop: PropertyDetails) => [
+  // The filtered list on one landscape table, headed by the filters in use.
+  const propertyPdfReport = (): TableReportData => {
+    const sold = filteredProperties.filter((prop: PropertyDetails) => prop.sold_price);
+    const soldTotal = sold.reduce((sum: number, prop: PropertyDetails) => sum + (prop.sold_price || 0), 0);
+    return {
+      id: 'property_report',
+      title: 'Property Report',
+      subtitle: `${filteredProperties.length} properties`,
+      landscape: true,
+      fontSize: 6,
+      kpis: [
+        { label: 'Properties', value: filteredProperties.length },
+        { label: 'Sold', value: sold.length },
+        { label: 'Average Sold Price', value: sold.length ? formatCurrency(Math.round(soldTotal / sold.length)) : 'N/A' },
+      ],
+      filters: activeFilters({
+        Suburbs: localFilters.suburbs,
+        'Street Names': localFilters.streetNames,
+        'Street Numbers': localFilters.streetNumbers,
+        Agents: localFilters.agents,
+        Agencies: localFilters.agency_names,
+        'Property Types': localFilters.propertyTypes,
+        Categories: localFilters.categories,
+      }).map((fact) => ({ label: fact.label, value: String(fact.value) })),
+      head: [
+        'Street Number',
+        'Street Name',
+        'Suburb',
+        'Postcode',
+        'Agent',
+        'Type',
+        'Price',
+        'Sold Price',
+        'Status',
+        'Commission (%)',
+        'Commission Earned',
+        'Agency',
+        'Expected Price',
+        'Sale Type',
+        'Bedrooms',
+        'Bathrooms',
+        'Car Garage',
+        'SQM',
+        'Land Size',
+        'Listed Date',
+        'Sold Date',
+        'Flood Risk',
+        'Bushfire Risk',
+        'Contract Status',
+        'Features',
+      ],
+      rows: filteredProperties.map((prop: PropertyDetails) => [
         prop.street_number || 'N/A',
         prop.street_name || 'N/A',
         normalizeSuburb(prop.suburb || '') || 'N/A',
@@ -742,202 +730,83 @@ export function PropertyReportPage(props: PropertyReportPageProps) {
         prop.bushfire_risk || 'N/A',
         prop.contract_status || 'N/A',
         formatArray(prop.features || []),
-      ]);
-      console.log('Export PDF - Head:', head);
-      console.log('Export PDF - Body sample (first 2 rows):', body.slice(0, 2));
-      const pdfBlob = await generatePdf({
-        title: 'Property Report',
-        head,
-        body,
-        fileName: 'property_report.pdf',
-        outputType: 'blob',
-      });
-      if (pdfBlob instanceof Blob) {
-        const url = URL.createObjectURL(pdfBlob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = 'property_report.pdf';
-        a.click();
-        URL.revokeObjectURL(url);
-        toast.success('PDF downloaded successfully');
-      } else {
-        throw new Error('PDF generation did not return a Blob');
-      }
-    } catch (err: any) {
+      ]),
+    };
+  };
+  const exportPropertyReportPDF = async () => {
+    if (!propertyMetrics) {
+      toast.error('No property metrics available for export');
+      return;
+    }
+    setExportLoading(true);
+    try {
+      await downloadReport(TABLE_REPORT, propertyPdfReport());
+      toast.success('PDF downloaded successfully');
+    } catch (err) {
       console.error('PDF export error:', err);
-      toast.error(err.message || 'Failed to export PDF');
+      toast.error(err instanceof Error ? err.message : 'Failed to export PDF');
     } finally {
       setExportLoading(false);
     }
   };
   const previewPropertyReportPDF = async () => {
-  if (!propertyMetrics) {
-    toast.error('No property metrics available for preview');
-    return;
-  }
-  setExportLoading(true);
-  try {
-    const head = [
-      [
-        'Street Number',
-        'Street Name',
-        'Suburb',
-        'Postcode',
-        'Agent',
-        'Type',
-        'Price',
-        'Sold Price',
-        'Status',
-        'Commission (%)',
-        'Commission Earned',
-        'Agency',
-        'Expected Price',
-        'Sale Type',
-        'Bedrooms',
-        'Bathrooms',
-        'Car Garage',
-        'SQM',
-        'Land Size',
-        'Listed Date',
-        'Sold Date',
-        'Flood Risk',
-        'Bushfire Risk',
-        'Contract Status',
-        'Features',
-      ],
-    ];
-    const body = filteredProperties.map((prop: PropertyDetails) => [
-      prop.street_number || 'N/A',
-      prop.street_name || 'N/A',
-      normalizeSuburb(prop.suburb || '') || 'N/A',
-      prop.postcode || 'N/A',
-      prop.agent_name || 'N/A',
-      prop.property_type || 'N/A',
-      formatCurrency(prop.price || 0),
-      prop.sold_price ? formatCurrency(prop.sold_price) : 'N/A',
-      prop.category || 'N/A',
-      prop.commission ? `${prop.commission}%` : 'N/A',
-      prop.commission_earned ? formatCurrency(prop.commission_earned) : 'N/A',
-      prop.agency_name || 'N/A',
-      prop.expected_price ? formatCurrency(prop.expected_price) : 'N/A',
-      prop.sale_type || 'N/A',
-      String(prop.bedrooms ?? 'N/A'),
-      String(prop.bathrooms ?? 'N/A'),
-      String(prop.car_garage ?? 'N/A'),
-      String(prop.sqm ?? 'N/A'),
-      String(prop.landsize ?? 'N/A'),
-      formatDate(prop.listed_date) || 'N/A',
-      formatDate(prop.sold_date) || 'N/A',
-      prop.flood_risk || 'N/A',
-      prop.bushfire_risk || 'N/A',
-      prop.contract_status || 'N/A',
-      formatArray(prop.features || []),
-    ]);
-    console.log('Preview PDF - Head:', head);
-    console.log('Preview PDF - Body sample (first 2 rows):', body.slice(0, 2));
-    // Generate PDF as Blob instead of data URI
-    const pdfBlob = await generatePdf({
-      title: 'Property Report',
-      head,
-      body,
-      fileName: 'property_report.pdf',
-      outputType: 'blob', // Changed to blob
-    });
-    if (!(pdfBlob instanceof Blob)) {
-      throw new Error('PDF generation did not return a Blob');
-    }
-    const url = URL.createObjectURL(pdfBlob);
-    console.log('Generated PDF Blob URL:', url);
-    setPdfUrl(url);
-    setIsPdfPreviewOpen(true);
-    toast.success('PDF preview generated successfully');
-  } catch (err: any) {
-    console.error('PDF preview error:', err);
-    toast.error(err.message || 'Failed to generate PDF preview');
-  } finally {
-    setExportLoading(false);
-  }
-};
-  const exportPropertyReportCSV = async () => {
     if (!propertyMetrics) {
-      toast.error('No property metrics available for export');
+      toast.error('No property metrics available for preview');
       return;
     }
     setExportLoading(true);
     try {
-      const data = [
-        ['Property Report'],
-        [`Generated on: ${moment().format('MMMM Do YYYY, h:mm:ss a')}`],
-        ['Generated by RedTulip Property Management'],
-        [],
-        ['Property Details'],
-        [
-          'Street Number',
-          'Street Name',
-          'Suburb',
-          'Postcode',
-          'Agent',
-          'Type',
-          'Price',
-          'Sold Price',
-          'Status',
-          'Commission (%)',
-          'Commission Earned',
-          'Agency',
-          'Expected Price',
-          'Sale Type',
-          'Bedrooms',
-          'Bathrooms',
-          'Car Garage',
-          'SQM',
-          'Land Size',
-          'Listed Date',
-          'Sold Date',
-          'Flood Risk',
-          'Bushfire Risk',
-          'Contract Status',
-          'Features',
-        ],
-        ...filteredProperties.map((prop: PropertyDetails) => [
-          prop.street_number || 'N/A',
-          prop.street_name || 'N/A',
-          normalizeSuburb(prop.suburb || ''),
-          prop.postcode || 'N/A',
-          prop.agent_name || 'N/A',
-          prop.property_type || 'N/A',
-          formatCurrency(prop.price || 0),
-          prop.sold_price ? formatCurrency(prop.sold_price) : 'N/A',
-          prop.category || 'N/A',
-          prop.commission ? `${prop.commission}%` : 'N/A',
-          prop.commission_earned ? formatCurrency(prop.commission_earned) : 'N/A',
-          prop.agency_name || 'N/A',
-          prop.expected_price ? formatCurrency(prop.expected_price) : 'N/A',
-          prop.sale_type || 'N/A',
-          String(prop.bedrooms ?? 'N/A'),
-          String(prop.bathrooms ?? 'N/A'),
-          String(prop.car_garage ?? 'N/A'),
-          String(prop.sqm ?? 'N/A'),
-          String(prop.landsize ?? 'N/A'),
-          formatDate(prop.listed_date),
-          formatDate(prop.sold_date),
-          prop.flood_risk || 'N/A',
-          prop.bushfire_risk || 'N/A',
-          prop.contract_status || 'N/A',
-          formatArray(prop.features || []),
-        ]),
-      ];
-      const ws = XLSX.utils.aoa_to_sheet(data);
-      const wb = XLSX.utils.book_new();
-      XLSX.utils.book_append_sheet(wb, ws, 'Property Report');
-      XLSX.writeFile(wb, 'property_report.csv');
-      toast.success('CSV exported successfully');
+      setPdfUrl(URL.createObjectURL(await reportBlob(TABLE_REPORT, propertyPdfReport())));
+      setIsPdfPreviewOpen(true);
+      toast.success('PDF preview generated successfully');
     } catch (err) {
-      toast.error('Failed to export CSV');
-      console.error('CSV export error:', err);
+      console.error('PDF preview error:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to generate PDF preview');
     } finally {
       setExportLoading(false);
     }
   };
+  const propertyExportSpec = (): ExportSpec => {
+    const sold = filteredProperties.filter((prop: PropertyDetails) => prop.sold_price);
+    return {
+      id: 'property_report',
+      title: 'Property Report',
+      tables: [
+        {
+          name: 'Properties',
+          rows: filteredProperties,
+          columns: [
+            ...PROPERTY_EXPORT_COLUMNS,
+            {
+              key: 'commission_earned',
+              label: 'Commission Earned',
+              value: (prop: PropertyDetails) => prop.commission_earned,
+              hidden: true,
+            },
+          ],
+        },
+      ],
+      filters: activeFilters({
+        Suburbs: localFilters.suburbs,
+        'Street Names': localFilters.streetNames,
+        'Street Numbers': localFilters.streetNumbers,
+        Agents: localFilters.agents,
+        Agencies: localFilters.agency_names,
+        'Property Types': localFilters.propertyTypes,
+        Categories: localFilters.categories,
+      }),
+      summary: [
+        { label: 'Properties', value: filteredProperties.length },
+        { label: 'Sold', value: sold.length },
+        {
+          label: 'Average Sold Price',
+          value: sold.length
+            ? Math.round(sold.reduce((sum: number, prop: PropertyDetails) => sum + (prop.sold_price || 0), 0) / sold.length)
+            : null,
+        },
+      ],
+    };
+  };
   const exportPropertyReportHTML = async () => {
     if (!propertyMetrics) {
       toast.error('No property metrics available for export');
@@ -963,7 +832,7 @@ export function PropertyReportPage(props: PropertyReportPageProps) {
             <div class="container">
               <h1>Property Report</h1>
               <p>Generated on: ${moment().format('MMMM Do YYYY, h:mm:ss a')}</p>
-              <p>Generated by xAI Property Management</p>
+              <p>Prepared by ${OUR_AGENCY}</p>
               <h2>Property Details</h2>
               <table>
                 <tr>
@@ -1006,7 +875,7 @@ export function PropertyReportPage(props: PropertyReportPageProps) {
                   )
                   .join('')}
               </table>
-              <div class="footer">xAI Property Management - Confidential Report</div>
+              <div class="footer">${OUR_AGENCY} - Confidential Report</div>
             </div>
           </body>
         </html>
@@ -1380,16 +1249,16 @@ export function PropertyReportPage(props: PropertyReportPageProps) {
               PDF
             </motion.button>
             <motion.button
-              onClick={exportPropertyReportCSV}
+              onClick={() => setIsExportOpen(true)}
               className="flex items-center px-5 py-2 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-full hover:from-blue-600 hover:to-blue-700 transition-all"
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
-              title="Export property report as CSV"
-              aria-label="Export as CSV"
+              title="Export properties as CSV, Excel or JSON"
+              aria-label="Export table"
               disabled={exportLoading}
             >
               <Download className="w-4 h-4 mr-2" />
-              CSV
+              Export
             </motion.button>
             <motion.button
               onClick={exportPropertyReportHTML}
@@ -1405,6 +1274,7 @@ export function PropertyReportPage(props: PropertyReportPageProps) {
             </motion.button>
           </div>
         </div>
+        {isExportOpen && <ExportDialog spec={propertyExportSpec()} onClose={() => setIsExportOpen(false)} />}
         <AnimatePresence>
           {isPdfPreviewOpen && (
             <motion.div
@@ -1544,24 +1414,28 @@ export function PropertyReportPage(props: PropertyReportPageProps) {
                               <td className="p-4 text-gray-700">{property.contract_status || 'N/A'}</td>
                               <td className="p-4 text-gray-700">{formatArray(property.features || [])}</td>
                               <td className="p-4 text-gray-700 flex space-x-2">
-                                <motion.button
-                                  onClick={() => handleEditClick(property)}
-                                  className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
-                                  whileHover={{ scale: 1.05 }}
-                                  whileTap={{ scale: 0.95 }}
-                                  aria-label={`Edit property ${property.street_number} ${property.street_name}`}
-                                >
-                                  <Edit className="w-4 h-4" />
-                                </motion.button>
-                                <motion.button
-                                  onClick={() => handleDeleteProperty(property.id)}
-                                  className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
-                                  whileHover={{ scale: 1.05 }}
-                                  whileTap={{ scale: 0.95 }}
-                                  aria-label={`Delete property ${property.street_number} ${property.street_name}`}
-                                >
-                                  <Trash2 className="w-4 h-4" />
-                                </motion.button>
+                                {canModify(property) && (
+                                  <motion.button
+                                    onClick={() => handleEditClick(property)}
+                                    className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+                                    whileHover={{ scale: 1.05 }}
+                                    whileTap={{ scale: 0.95 }}
+                                    aria-label={`Edit property ${property.street_number} ${property.street_name}`}
+                                  >
+                                    <Edit className="w-4 h-4" />
+                                  </motion.button>
+                                )}
+                                {canModify(property, 'properties.delete') && (
+                                  <motion.button
+                                    onClick={() => handleDeleteProperty(property.id)}
+                                    className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+                                    whileHover={{ scale: 1.05 }}
+                                    whileTap={{ scale: 0.95 }}
+                                    aria-label={`Delete property ${property.street_number} ${property.street_name}`}
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </motion.button>
+                                )}
                               </td>
                             </motion.tr>
                           );
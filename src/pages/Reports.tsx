@@ -20,12 +20,14 @@ import { Bar } from 'react-chartjs-2';
 import { ErrorBoundary } from 'react-error-boundary';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { toast } from 'react-toastify';
+import { deleteProperty, fetchAllProperties, fetchPastRecords } from '../api/properties';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../store/authStore';
 import { AgentPropertyMap } from './AgentPropertyMap';
 import { EditModal } from './EditModal';
 import type { CommissionEarner, Agent, Agency } from '../types/types';
-import { TopLister } from '../types/types';
+import type { PastRecord } from '../types/database';
+import type { PropertyDetails, TopLister } from '../types/types';
 // import { PropertyDetails, PropertyMetrics, Filters } from './Reports';
 import { PropertyReportPage } from './PropertyReportPage';
 import CommissionByAgency from './CommissionByAgency';
@@ -78,36 +80,7 @@ export interface Filters {
   agents: string[];
   agency_names: string[];
 }
-export interface PropertyDetails {
-  id: string;
-  street_name: string | null;
-  street_number: string | null;
-  agent_name: string | null;
-  suburb: string | null;
-  postcode: string | null;
-  price: number;
-  sold_price: number | null;
-  category: string | null;
-  property_type: string | null;
-  agency_name: string | null;
-  commission: number | null;
-  commission_earned: number | null;
-  expected_price: number | null;
-  sale_type: string | null;
-  bedrooms: number | null;
-  bathrooms: number | null;
-  car_garage: number | null;
-  sqm: number | null;
-  landsize: number | null;
-  listed_date: string | null;
-  sold_date: string | null;
-  flood_risk: string | null;
-  bushfire_risk: string | null;
-  contract_status: string | null;
-  features: string[] | null;
-  same_street_sales: any[] | null;
-  past_records: any[] | null;
-}
+export type { PropertyDetails };
 export interface PropertyMetrics {
   listingsBySuburb: Record<string, { listed: number; sold: number }>;
   listingsByStreetName: Record<string, { listed: number; sold: number }>;
@@ -275,20 +248,11 @@ export function Reports() {
       setError(null);
       console.log('Starting data fetch...');
 
-      let query = supabase
-        .from('properties')
-        .select('*, commission')
-        .order('created_at', { ascending: false });
-
-      const { data: propData, error: propError } = await query;
-      if (propError) {
-        console.error('Property fetch error:', propError);
-        throw new Error(`Property fetch error: ${propError.message}`);
-      }
-      console.log('Raw properties fetched from Supabase:', propData?.length || 0);
+      const propData = await fetchAllProperties({ sort: { column: 'created_at', ascending: false } });
+      console.log('Raw properties fetched:', propData.length);
 
-      if (!propData || propData.length === 0) {
-        console.warn('No properties returned from Supabase');
+      if (propData.length === 0) {
+        console.warn('No properties returned');
         setProperties([]);
         setFilteredProperties([]);
         setPropertyMetrics(null);
@@ -296,9 +260,10 @@ export function Reports() {
         return;
       }
 
-      const normalizedPropData = propData.map((prop) => ({
+      const normalizedPropData: PropertyDetails[] = propData.map((prop) => ({
         ...prop,
         suburb: normalizeSuburb(prop.suburb || ''),
+        commission_earned: null,
       }));
       console.log('Normalized properties:', normalizedPropData.length);
 
@@ -307,61 +272,31 @@ export function Reports() {
         : normalizedPropData;
       console.log('Properties with user data:', propertiesWithUserData.length);
 
-      const enrichedProperties = await Promise.all(
-        propertiesWithUserData.map(async (prop) => {
-          try {
-            const { data: sameStreetSales, error: salesError } = await supabase
-              .from('properties')
-              .select('address, sale_price, property_type, sale_date, suburb')
-              .eq('street_name', prop.street_name || '')
-              .neq('id', prop.id)
-              .limit(5);
-
-            if (salesError) {
-              console.error('Supabase same street sales error:', salesError);
-              throw salesError;
-            }
-
-            const normalizedSales = sameStreetSales?.map((sale) => ({
-              ...sale,
-              suburb: normalizeSuburb(sale.suburb || ''),
-            })) || [];
-
-            const { data: pastRecords, error: recordsError } = await supabase
-              .from('past_records')
-              .select('suburb, postcode, property_type, price, bedrooms, bathrooms, car_garage, sqm, landsize, listing_date, sale_date, status, notes')
-              .eq('property_id', prop.id);
-
-            if (recordsError) {
-              console.error('Supabase past records error:', recordsError);
-              throw recordsError;
-            }
-
-            const normalizedRecords = pastRecords?.map((record) => ({
-              ...record,
-              suburb: normalizeSuburb(record.suburb || ''),
-            })) || [];
-
-            return {
-              ...prop,
-              same_street_sales: normalizedSales,
-              past_records: normalizedRecords,
-            };
-          } catch (err) {
-            console.error('Error enriching property:', prop.id, err);
-            return prop;
-          }
-        })
-      );
+      // One batched read for every listing's past records; a listing without
+      // rows in past_records keeps the records stored on it.
+      const pastRecords = await fetchPastRecords(propertiesWithUserData.map((prop) => prop.id)).catch((err) => {
+        console.error('Error fetching past records:', err);
+        return [];
+      });
+      const recordsByProperty: Record<string, PastRecord[]> = {};
+      pastRecords.forEach(({ property_id, ...record }) => {
+        (recordsByProperty[property_id] ||= []).push({ ...record, suburb: normalizeSuburb(record.suburb || '') });
+      });
+
+      const enrichedProperties = propertiesWithUserData.map((prop) => ({
+        ...prop,
+        past_records: recordsByProperty[prop.id] || prop.past_records,
+      }));
 
       console.log('Enriched properties:', enrichedProperties.length);
       setProperties(enrichedProperties);
       setFilteredProperties(enrichedProperties);
       debouncedGenerateMetrics(enrichedProperties);
-    } catch (err: any) {
+    } catch (err) {
       console.error('Fetch error:', err);
-      setError(err.message || 'Failed to fetch data');
-      toast.error(err.message || 'Failed to fetch data');
+      const message = err instanceof Error ? err.message : 'Failed to fetch data';
+      setError(message);
+      toast.error(message);
     } finally {
       setLoading(false);
       console.log('Fetch completed, loading:', false);
@@ -404,15 +339,7 @@ export function Reports() {
     try {
       if (!confirm('Are you sure you want to delete this property?')) return;
 
-      const { error } = await supabase
-        .from('properties')
-        .delete()
-        .eq('id', propertyId);
-
-      if (error) {
-        console.error('Error deleting property:', error);
-        throw new Error(`Failed to delete property: ${error.message}`);
-      }
+      await deleteProperty(propertyId);
 
       setProperties((prev) => {
         const updated = prev.filter((prop) => prop.id !== propertyId);
@@ -425,9 +352,9 @@ export function Reports() {
       });
 
       toast.success('Property deleted successfully');
-    } catch (err: any) {
+    } catch (err) {
       console.error('Delete error:', err);
-      toast.error(err.message || 'Failed to delete property');
+      toast.error(err instanceof Error ? err.message : 'Failed to delete property');
     }
   };
 
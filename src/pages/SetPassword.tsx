@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import moment from 'moment';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { ResetPassword } from '../components/ResetPassword';
+import { acceptAgentInvite, openAgentInvite } from '../api/agentInvites';
+import { MIN_PASSWORD_LENGTH } from '../../supabase/functions/_shared/agent-invites.ts';
+
+// First sign-in for an invited staff member. The token in the link is checked
+// (and marked opened) on load; submitting sets the password and burns it.
+export function SetPassword() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [invite, setInvite] = useState<{ email: string; expires_at: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!token) {
+      setError('This link is missing its invite token.');
+      setLoading(false);
+      return;
+    }
+    openAgentInvite(token)
+      .then(setInvite)
+      .catch((err) => setError(err instanceof Error ? err.message : 'This invite link is not valid'))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center mt-12 text-blue-900">
+        <Loader2 className="w-6 h-6 mr-2 animate-spin" /> Checking your invite...
+      </div>
+    );
+  }
+
+  if (error || !invite) {
+    return (
+      <div className="max-w-md mx-auto mt-12">
+        <div className="bg-white p-8 rounded-lg shadow-lg">
+          <h1 className="text-2xl font-bold mb-6 text-center">Set Your Password</h1>
+          <div className="bg-red-50 text-red-600 p-4 rounded mb-4 flex items-start space-x-2">
+            <AlertCircle className="w-5 h-5 mt-0.5" />
+            <p>{error || 'This invite link is not valid'}</p>
+          </div>
+          <Link to="/agent-login" className="block text-center text-blue-600 hover:text-blue-800">
+            Go to sign in
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <ResetPassword
+      title="Set Your Password"
+      submitLabel="Set Password"
+      minLength={MIN_PASSWORD_LENGTH}
+      intro={
+        <p className="text-gray-600 mb-6 text-center">
+          Choose a password for <span className="font-semibold">{invite.email}</span>. This link expires{' '}
+          {moment(invite.expires_at).fromNow()}.
+        </p>
+      }
+      onSubmit={async (password) => {
+        await acceptAgentInvite(token, password);
+      }}
+      successMessage="Password set! Redirecting to sign in..."
+    />
+  );
+}
+
+export default SetPassword;
@@ -0,0 +1,368 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import moment from 'moment';
+import { AlertCircle, Download, Loader2, Lock, Mail, Phone } from 'lucide-react';
+import { resolveShareLink, ShareLinkResolution } from '../api/shareLinks';
+import { MarketingPlanRow, PropertyRow } from '../types/database';
+import { formatCurrency } from '../utils/formatters';
+import { isRole, ROLE_LABELS } from '../utils/permissions';
+import { downloadReport } from '../utils/pdfReport';
+import { VENDOR_REPORT } from '../utils/reportTemplates';
+import { OTP_LENGTH } from '../utils/shareLinks';
+import {
+  CAMPAIGN_CHANNEL_LABELS,
+  feedbackRange,
+  inspectionsThisWeek,
+  totalAttendance,
+  VendorReportData,
+  vendorReportAddress,
+} from '../utils/vendorReport';
+import { OUR_AGENCY } from '../constants';
+
+interface SharedAgentProfile {
+  id: string;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  role: string | null;
+  agent_id: string | null;
+}
+
+const UNAVAILABLE_MESSAGES: Record<string, string> = {
+  not_found: 'This link is not valid.',
+  revoked: 'This link has been withdrawn by the person who shared it.',
+  expired: 'This link has expired. Ask the person who shared it for a new one.',
+  locked: 'Too many incorrect codes were entered. Please try again in 15 minutes.',
+};
+
+const Field = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div>
+    <p className="text-xs uppercase tracking-wide text-gray-500">{label}</p>
+    <p className="text-blue-900 font-medium">{value ?? 'N/A'}</p>
+  </div>
+);
+
+const AgentProfileView = ({ agent }: { agent: SharedAgentProfile }) => (
+  <div className="space-y-4">
+    <h2 className="text-2xl font-bold text-blue-900">{agent.name || 'Agent'}</h2>
+    <p className="text-gray-600">
+      {agent.role && isRole(agent.role) ? ROLE_LABELS[agent.role] : 'Agent'} at {OUR_AGENCY}
+    </p>
+    <div className="space-y-2">
+      {agent.email && (
+        <a href={`mailto:${agent.email}`} className="flex items-center text-blue-600 hover:underline">
+          <Mail className="w-4 h-4 mr-2" /> {agent.email}
+        </a>
+      )}
+      {agent.phone && (
+        <a href={`tel:${agent.phone}`} className="flex items-center text-blue-600 hover:underline">
+          <Phone className="w-4 h-4 mr-2" /> {agent.phone}
+        </a>
+      )}
+    </div>
+  </div>
+);
+
+const PropertyReportView = ({ property }: { property: PropertyRow }) => {
+  const address = [property.street_number, property.street_name, property.suburb, property.postcode]
+    .filter(Boolean)
+    .join(' ');
+  const price = property.sold_price ?? property.price ?? property.expected_price;
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-blue-900">{address || 'Property'}</h2>
+        <p className="text-gray-600">
+          {property.property_type || 'Property'} · {property.contract_status || 'listed'}
+        </p>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Field label={property.sold_price ? 'Sold price' : 'Price'} value={price ? formatCurrency(price) : null} />
+        <Field label="Bedrooms" value={property.bedrooms} />
+        <Field label="Bathrooms" value={property.bathrooms} />
+        <Field label="Car spaces" value={property.car_garage} />
+        <Field label="Floor area" value={property.sqm ? `${property.sqm} m²` : null} />
+        <Field label="Land size" value={property.landsize ? `${property.landsize} m²` : null} />
+        <Field label="Listed" value={property.listed_date ? moment(property.listed_date).format('DD MMM YYYY') : null} />
+        <Field label="Sold" value={property.sold_date ? moment(property.sold_date).format('DD MMM YYYY') : null} />
+        <Field label="Flood risk" value={property.flood_risk} />
+        <Field label="Bushfire risk" value={property.bushfire_risk} />
+        <Field label="Agent" value={property.agent_name} />
+        <Field label="Agency" value={property.agency_name} />
+      </div>
+      {!!property.features?.length && (
+        <div>
+          <h3 className="text-lg font-semibold text-blue-900 mb-2">Features</h3>
+          <ul className="list-disc list-inside text-gray-700">
+            {property.features.map((feature) => (
+              <li key={feature}>{feature}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {!!property.same_street_sales?.length && (
+        <div>
+          <h3 className="text-lg font-semibold text-blue-900 mb-2">Sales in the same street</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1">Address</th>
+                <th className="py-1">Type</th>
+                <th className="py-1">Price</th>
+                <th className="py-1">Date</th>
+              </tr>
+            </thead>
+            <tbody>
+              {property.same_street_sales.map((sale, index) => (
+                <tr key={`${sale.address}-${index}`} className="border-t border-blue-100">
+                  <td className="py-1">{sale.address}</td>
+                  <td className="py-1">{sale.property_type}</td>
+                  <td className="py-1">{formatCurrency(sale.sale_price)}</td>
+                  <td className="py-1">{moment(sale.sale_date).format('DD MMM YYYY')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const StreetTable = ({ title, rows }: { title: string; rows: { id: string; name: string; why: string; target: string }[] }) =>
+  rows.length ? (
+    <div>
+      <h3 className="text-lg font-semibold text-blue-900 mb-2">{title}</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-1">Street</th>
+            <th className="py-1">Why</th>
+            <th className="py-1">Target</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.id} className="border-t border-blue-100">
+              <td className="py-1">{row.name}</td>
+              <td className="py-1">{row.why}</td>
+              <td className="py-1">{row.target || '-'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  ) : null;
+
+const MarketingPlanView = ({ plan }: { plan: MarketingPlanRow }) => (
+  <div className="space-y-6">
+    <div>
+      <h2 className="text-2xl font-bold text-blue-900">Marketing plan for {plan.suburb}</h2>
+      <p className="text-gray-600">
+        {plan.agent} · {moment(plan.start_date).format('DD MMM YYYY')} to {moment(plan.end_date).format('DD MMM YYYY')}
+      </p>
+    </div>
+    <div className="grid grid-cols-2 gap-4">
+      <Field label="Desktop appraisals" value={plan.desktop_appraisals} />
+      <Field label="Face-to-face appraisals" value={plan.face_to_face_appraisals} />
+    </div>
+    <StreetTable
+      title="Door knocking"
+      rows={(plan.door_knock_streets || []).map((s) => ({ id: s.id, name: s.name, why: s.why, target: s.target_knocks }))}
+    />
+    <StreetTable
+      title="Phone calls"
+      rows={(plan.phone_call_streets || []).map((s) => ({ id: s.id, name: s.name, why: s.why, target: s.target_calls }))}
+    />
+    <StreetTable
+      title="Vault to-do"
+      rows={(plan.vault_to_do_streets || []).map((s) => ({ id: s.id, name: s.name, why: s.why, target: s.target_actions }))}
+    />
+  </div>
+);
+
+const VendorReportView = ({ report }: { report: VendorReportData }) => {
+  const thisWeek = inspectionsThisWeek(report);
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-blue-900">{vendorReportAddress(report)}</h2>
+          <p className="text-gray-600">Campaign update for the week from {moment(report.since).format('DD MMM YYYY')}</p>
+        </div>
+        <button
+          onClick={() => downloadReport(VENDOR_REPORT, report)}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+        >
+          <Download className="w-4 h-4 mr-2" /> Download PDF
+        </button>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Field label="Days on market" value={report.days_on_market} />
+        <Field label="Enquiries" value={`${report.enquiries.total} (${report.enquiries.since} this week)`} />
+        <Field
+          label="Inspections"
+          value={`${report.inspections.length} (${totalAttendance(thisWeek)} through this week)`}
+        />
+        <Field label="Price feedback" value={feedbackRange(report)} />
+      </div>
+      {!!report.campaign.length && (
+        <div>
+          <h3 className="text-lg font-semibold text-blue-900 mb-2">Campaign activity</h3>
+          <ul className="text-sm text-gray-700 space-y-1">
+            {report.campaign.map((activity) => (
+              <li key={activity.id}>
+                {moment(activity.activity_date).format('DD MMM')} · {CAMPAIGN_CHANNEL_LABELS[activity.channel]} ·{' '}
+                {activity.description}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {!!report.comparables.length && (
+        <div>
+          <h3 className="text-lg font-semibold text-blue-900 mb-2">Recent sales in {report.property.suburb}</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1">Address</th>
+                <th className="py-1">Type</th>
+                <th className="py-1">Price</th>
+                <th className="py-1">Date</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.comparables.map((sale) => (
+                <tr key={sale.id} className="border-t border-blue-100">
+                  <td className="py-1">{[sale.street_number, sale.street_name].filter(Boolean).join(' ')}</td>
+                  <td className="py-1">{sale.property_type}</td>
+                  <td className="py-1">{sale.sold_price ? formatCurrency(sale.sold_price) : '-'}</td>
+                  <td className="py-1">{sale.sold_date ? moment(sale.sold_date).format('DD MMM YYYY') : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Public page behind a share link. The token is checked (and the visit
+// logged) by resolve_share_link(); links with an access code ask for it first.
+export function SharedLink() {
+  const { token = '' } = useParams();
+  const [result, setResult] = useState<ShareLinkResolution | null>(null);
+  const [otp, setOtp] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    resolveShareLink(token)
+      .then(setResult)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not open this link'))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const handleVerifyOtp = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setVerifying(true);
+    try {
+      setResult(await resolveShareLink(token, otp));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not check the code');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center mt-12 text-blue-900">
+        <Loader2 className="w-6 h-6 mr-2 animate-spin" /> Opening shared link...
+      </div>
+    );
+  }
+
+  if (result?.status === 'otp_required' || result?.status === 'otp_invalid') {
+    return (
+      <div className="max-w-md mx-auto mt-12">
+        <div className="bg-white p-8 rounded-lg shadow-lg">
+          <h1 className="text-2xl font-bold mb-2 text-center text-blue-900 flex items-center justify-center">
+            <Lock className="w-6 h-6 mr-2" /> Access code required
+          </h1>
+          {result.label && <p className="text-center text-gray-600 mb-4">{result.label}</p>}
+          <form onSubmit={handleVerifyOtp} className="space-y-4">
+            <div>
+              <label htmlFor="otp" className="block text-sm font-medium text-gray-700">
+                Enter the {OTP_LENGTH}-digit code you were sent
+              </label>
+              <input
+                id="otp"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={OTP_LENGTH}
+                value={otp}
+                onChange={(e) => setOtp(e.target.value.replace(/\D/g, ''))}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm tracking-widest text-center text-lg"
+                required
+              />
+            </div>
+            {(result.status === 'otp_invalid' || error) && (
+              <p className="text-red-600 text-sm">{error || 'That code is not correct.'}</p>
+            )}
+            <button
+              type="submit"
+              disabled={verifying || otp.length !== OTP_LENGTH}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center"
+            >
+              {verifying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Verify
+            </button>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !result || result.status !== 'ok') {
+    return (
+      <div className="max-w-md mx-auto mt-12">
+        <div className="bg-white p-8 rounded-lg shadow-lg">
+          <div className="bg-red-50 text-red-600 p-4 rounded flex items-start space-x-2">
+            <AlertCircle className="w-5 h-5 mt-0.5" />
+            <p>{error || UNAVAILABLE_MESSAGES[result?.status || 'not_found']}</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <div className="bg-white p-6 rounded-lg shadow-md border border-blue-200">
+        {result.label && <p className="text-sm text-gray-500 mb-4">{result.label}</p>}
+        {result.resource_type === 'agent_profile' && (
+          <AgentProfileView agent={result.resource as unknown as SharedAgentProfile} />
+        )}
+        {result.resource_type === 'property_report' && (
+          <PropertyReportView property={result.resource as unknown as PropertyRow} />
+        )}
+        {result.resource_type === 'marketing_plan' && (
+          <MarketingPlanView plan={result.resource as unknown as MarketingPlanRow} />
+        )}
+        {result.resource_type === 'vendor_report' && (
+          <VendorReportView report={result.resource as unknown as VendorReportData} />
+        )}
+        <p className="text-xs text-gray-400 mt-6">
+          Shared by {OUR_AGENCY}. This link expires {moment(result.expires_at).format('DD MMM YYYY')}.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default SharedLink;
@@ -1,9 +1,18 @@
 import { AnimatePresence, motion } from 'framer-motion';
 import { Check, ChevronDown, ChevronUp, Download, Edit2, Trash2, Upload, UserPlus, X } from 'lucide-react';
 import { useCallback, useEffect, useState } from 'react';
-import * as XLSX from 'xlsx';
+import { Link } from 'react-router-dom';
+import { commitImportBatches, dryRunImportRows } from '../api/imports';
+import { fetchAllProperties } from '../api/properties';
+import { ExportDialog } from '../components/ExportDialog';
+import { ImportColumn, ImportDecisions, ImportDedupePreview } from '../components/ImportDedupePreview';
+import { ImportWizard, ImportWizardResult } from '../components/ImportWizard';
 import { supabase } from '../lib/supabase';
 import { formatCurrency, normalizeSuburb } from '../reportsUtils';
+import { buildImportPreview, ImportCandidate, ImportPreviewRow } from '../utils/dedupe';
+import { activeFilters, ExportColumn, ExportSpec, exportTable } from '../utils/exporter';
+import { importText, ImportValues, parseSpreadsheetDate } from '../utils/importer';
+import { IMPORT_SOURCES, requireAnOwner, STREET_CONTACT_FIELDS } from '../utils/importFields';
 interface Property {
   id: string;
   street_name: string | null;
@@ -39,6 +48,8 @@ interface Contact {
   marketing_plan: string;
   activity_log: string;
   call_back_date: string | null;
+  owner_1_person_id?: string | null;
+  owner_2_person_id?: string | null;
 }
 interface StreetStats {
   street_name: string;
@@ -49,6 +60,78 @@ interface StreetStats {
   properties: Property[];
   contacts: Contact[];
 }
+// An owner's name, linked to their person profile once the database has linked one.
+const OwnerName = ({ name, personId, fallback = '' }: { name: string; personId?: string | null; fallback?: string }) =>
+  name && personId ? (
+    <Link to={`/people/${personId}`} className="text-blue-600 hover:underline">
+      {name}
+    </Link>
+  ) : (
+    <>{name || fallback}</>
+  );
+// Contact imports stop at a duplicate preview; `street` is set for a
+// single-street import and null for the suburb-wide one.
+interface PendingImport {
+  rows: ImportPreviewRow[];
+  contacts: Record<string, Omit<Contact, 'id'>>;
+  street: string | null;
+  unmatchedStreets: string[];
+  fileName: string;
+  rollbackOnError: boolean;
+}
+const IMPORT_COLUMNS: ImportColumn[] = [
+  { key: 'owner_1', label: 'Owner 1' },
+  { key: 'owner_2', label: 'Owner 2' },
+  { key: 'street_number', label: 'Street no.' },
+  { key: 'street_name', label: 'Street' },
+  { key: 'owner_1_email', label: 'Owner 1 email' },
+  { key: 'owner_2_email', label: 'Owner 2 email' },
+  { key: 'owner_1_mobile', label: 'Owner 1 mobile' },
+  { key: 'owner_2_mobile', label: 'Owner 2 mobile' },
+  { key: 'phone_number', label: 'Phone' },
+];
+// The import's own columns, so an exported list can be edited and imported again.
+const CONTACT_EXPORT_COLUMNS: ExportColumn<Contact>[] = STREET_CONTACT_FIELDS.map((field) => ({
+  key: field.key,
+  label: field.label,
+  value: (contact) => contact[field.key as keyof Contact],
+}));
+const EXISTING_CONTACT_COLUMNS = `id, suburb, ${IMPORT_COLUMNS.map((column) => column.key).join(', ')}`;
+const toImportCandidate = (key: string, contact: Partial<Contact>): ImportCandidate => ({
+  key,
+  record: {
+    id: key,
+    names: [contact.owner_1, contact.owner_2],
+    phones: [contact.owner_1_mobile, contact.owner_2_mobile, contact.phone_number],
+    emails: [contact.owner_1_email, contact.owner_2_email],
+    addresses: [{ street_number: contact.street_number, street_name: contact.street_name, suburb: contact.suburb }],
+  },
+  fields: Object.fromEntries(IMPORT_COLUMNS.map((column) => [column.key, contact[column.key as keyof Contact] as string | null])),
+});
+// A mapped spreadsheet row as a contact. Lists with only a mobile get it
+// moved into the main phone number. The importer settles the street.
+const toStreetContact = (values: ImportValues, suburb: string): Omit<Contact, 'id'> => {
+  const text = (key: string) => importText(values, key);
+  return {
+    owner_1: text('owner_1'),
+    owner_2: text('owner_2'),
+    owner_1_email: text('owner_1_email'),
+    owner_2_email: text('owner_2_email'),
+    phone_number: text('phone_number') || text('owner_1_mobile'),
+    owner_1_mobile: text('phone_number') ? text('owner_1_mobile') : '',
+    owner_2_mobile: text('owner_2_mobile'),
+    outcome: text('outcome'),
+    street_name: text('street_name') || null,
+    street_number: text('street_number') || null,
+    suburb: text('suburb') || suburb,
+    status: text('status'),
+    last_sold_date: text('last_sold_date') || null,
+    price: typeof values.price === 'number' ? values.price : null,
+    marketing_plan: text('marketing_plan'),
+    activity_log: text('activity_log'),
+    call_back_date: text('call_back_date') || null,
+  };
+};
 interface StreetSuggestionsProps {
   suburb: string | null;
   soldPropertiesFilter: string;
@@ -98,103 +181,17 @@ export function StreetSuggestions({
   });
   const [contactError, setContactError] = useState<string | null>(null);
   const [contactSuccess, setContactSuccess] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
   const [isEditMode, setIsEditMode] = useState(false);
-  const [isGlobalImportOpen, setIsGlobalImportOpen] = useState(false);
+  // Set while the import wizard is open: one street, or the whole suburb when null.
+  const [importScope, setImportScope] = useState<{ street: string | null } | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const [selectedContactIds, setSelectedContactIds] = useState<string[]>([]);
   const [showConfirmDeleteAll, setShowConfirmDeleteAll] = useState(false);
   const [showConfirmDeleteSelected, setShowConfirmDeleteSelected] = useState(false);
   useEffect(() => {
     setLocalFilter(soldPropertiesFilter);
   }, [soldPropertiesFilter]);
-  const excelSerialToDate = (serial: number | string | null | undefined): string | null => {
-    if (!serial || serial === 'NA' || serial === '' || serial === null || serial === undefined) return null;
-    if (typeof serial === 'string' && /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(serial)) {
-      const datePart = serial.split(' ')[0];
-      const date = new Date(datePart);
-      return isNaN(date.getTime()) ? null : datePart;
-    }
-    if (typeof serial === 'string' && /^\d{2}-\d{2}-\d{4}$/.test(serial)) {
-      const parts = serial.split('-');
-      const formattedDate = `${parts[2]}-${parts[1]}-${parts[0]}`;
-      const date = new Date(formattedDate);
-      return isNaN(date.getTime()) ? null : formattedDate;
-    }
-    if (typeof serial === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(serial)) {
-      const date = new Date(serial);
-      return isNaN(date.getTime()) ? null : serial;
-    }
-    if (typeof serial === 'number') {
-      const excelEpoch = new Date(1900, 0, 1);
-      const days = serial > 59 ? serial - 1 : serial;
-      const date = new Date(excelEpoch.getTime() + (days - 2) * 24 * 60 * 60 * 1000);
-      return isNaN(date.getTime()) ? null : date.toISOString().split('T')[0];
-    }
-    const serialNum = typeof serial === 'string' ? parseFloat(serial) : serial;
-    if (isNaN(serialNum)) return null;
-    const excelEpoch = new Date(1900, 0, 1);
-    const days = serialNum > 59 ? serialNum - 1 : serialNum;
-    const date = new Date(excelEpoch.getTime() + (days - 2) * 24 * 60 * 60 * 1000);
-    return isNaN(date.getTime()) ? null : date.toISOString().split('T')[0];
-  };
-  const normalizeKey = (key: string): string => {
-    return key.trim().toLowerCase().replace(/\s+/g, '_');
-  };
-  const normalizeRow = (row: any, headerMap: { [key: string]: string }): any => {
-    const normalized: any = {};
-    const standardKeys = [
-      'owner_1',
-      'owner_2',
-      'owner_1_email',
-      'owner_2_email',
-      'phone_number',
-      'owner_1_mobile',
-      'owner_2_mobile',
-      'outcome',
-      'street_name',
-      'street_number',
-      'suburb',
-      'status',
-      'last_sold_date',
-      'price',
-      'marketing_plan',
-      'activity_log',
-      'call_back_date',
-    ];
-    standardKeys.forEach((stdKey) => {
-      let excelKey;
-      if (stdKey === 'last_sold_date') {
-        excelKey = headerMap['last_sold_date'] || 'last_sold_date';
-      } else if (stdKey === 'street_number') {
-        excelKey = headerMap['street_number'] || 'street_no';
-      } else if (stdKey === 'owner_1_mobile') {
-        excelKey = headerMap['owner_1_mobile'] || 'own1_mob';
-      } else if (stdKey === 'owner_2_mobile') {
-        excelKey = headerMap['owner_2_mobile'] || 'own2_mob';
-      } else {
-        excelKey = headerMap[stdKey] || stdKey;
-      }
-      let value = row[excelKey] ?? null;
-      if (stdKey === 'last_sold_date') {
-        value = excelSerialToDate(value);
-      } else if (stdKey === 'price' && value) {
-        if (typeof value === 'string') {
-          value = value.replace(/[$,]/g, '');
-        }
-        const numValue = parseFloat(value.toString());
-        value = isNaN(numValue) ? null : numValue;
-      } else if (value === 'NA' || value === 'Unsure' || value === 'DNC' || value === 'DNC/unsure') {
-        value = stdKey === 'price' ? null : '';
-      } else if (typeof value === 'string') {
-        value = value.trim();
-      }
-      normalized[stdKey] = value;
-    });
-    if (!normalized.phone_number && normalized.owner_1_mobile) {
-      normalized.phone_number = normalized.owner_1_mobile;
-      normalized.owner_1_mobile = '';
-    }
-    return normalized;
-  };
   const syncAddedStreetsFromProps = useCallback(() => {
     if (streetStats.length === 0) return;
     setAddedStreets((prev) => {
@@ -244,15 +241,10 @@ export function StreetSuggestions({
     setStreetStats([]);
     try {
       const normalizedInput = normalizeSuburb(suburb);
-      const queryString = `%${normalizedInput.toLowerCase().split(' qld')[0]}%`;
-      const { data: propertiesData, error: propError } = await supabase
-        .from('properties')
-        .select(
-          'id, street_name, street_number, suburb, price, sold_price, sold_date, property_type, bedrooms, bathrooms, car_garage, sqm, landsize'
-        )
-        .ilike('suburb', queryString);
-      if (propError) throw new Error(`Failed to fetch properties: ${propError.message}`);
-      if (!propertiesData || propertiesData.length === 0) {
+      const suburbName = normalizedInput.toLowerCase().split(' qld')[0];
+      const queryString = `%${suburbName}%`;
+      const propertiesData = await fetchAllProperties({ filters: { suburbs: [suburbName] } });
+      if (propertiesData.length === 0) {
         setError(`No properties found for ${suburb}. Please add properties to the database or check the suburb name format.`);
         setLoading(false);
         return;
@@ -260,7 +252,7 @@ export function StreetSuggestions({
       const { data: contactsData, error: contactError } = await supabase
         .from('contacts')
         .select(
-          'id, owner_1, owner_2, owner_1_email, owner_2_email, phone_number, owner_1_mobile, owner_2_mobile, outcome, street_name, street_number, suburb, status, last_sold_date, price, marketing_plan, activity_log, call_back_date' 
+          'id, owner_1, owner_2, owner_1_email, owner_2_email, phone_number, owner_1_mobile, owner_2_mobile, outcome, street_name, street_number, suburb, status, last_sold_date, price, marketing_plan, activity_log, call_back_date, owner_1_person_id, owner_2_person_id'
         )
         .ilike('suburb', queryString);
       if (contactError) throw new Error(`Failed to fetch contacts: ${contactError.message}`);
@@ -299,7 +291,7 @@ export function StreetSuggestions({
         id: prop.id,
         street_name: prop.street_name,
         street_number: prop.street_number,
-        suburb: prop.suburb,
+        suburb: prop.suburb || normalizedInput,
         price: prop.price,
         sold_price: prop.sold_price || null,
         sold_date: prop.sold_date || null,
@@ -334,7 +326,7 @@ export function StreetSuggestions({
           streetMap.get(streetName) || { listed: 0, sold: 0, total: 0, totalSoldPrice: 0, properties: [], contacts: [] };
         stats.contacts.push({
           ...contact,
-          last_sold_date: contact.last_sold_date ? excelSerialToDate(contact.last_sold_date) : null,
+          last_sold_date: contact.last_sold_date ? parseSpreadsheetDate(contact.last_sold_date) : null,
           marketing_plan: contact.marketing_plan || '',
           activity_log: contact.activity_log || '',
         });
@@ -464,20 +456,26 @@ export function StreetSuggestions({
       return newState;
     });
   }, [streetStats, onRemoveStreet]);
-  const handleExportContacts = () => {
-    const allContacts = streetStats.flatMap(street => street.contacts.map(contact => ({
-      ...contact,
-      suburb: suburb,
-    })));
-    if (allContacts.length === 0) {
-      setContactError('No contacts to export.');
-      return;
-    }
-    const worksheet = XLSX.utils.json_to_sheet(allContacts);
-    const workbook = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(workbook, worksheet, 'Contacts');
-    XLSX.writeFile(workbook, `${suburb}_contacts.xlsx`);
-  };
+  const contactsExportSpec = (): ExportSpec => ({
+    id: `${suburb || 'suburb'}_contacts`,
+    title: `${suburb || 'Suburb'} Contacts`,
+    filters: activeFilters({ Suburb: suburb, 'Sold properties': localFilter === 'all' ? '' : localFilter.replace('_', ' ') }),
+    tables: [
+      { name: 'Contacts', rows: streetStats.flatMap((street) => street.contacts), columns: CONTACT_EXPORT_COLUMNS },
+      exportTable({
+        name: 'Streets',
+        rows: streetStats,
+        columns: [
+          { key: 'street_name', label: 'Street', value: (street) => street.street_name },
+          { key: 'total_properties', label: 'Properties', value: (street) => street.total_properties },
+          { key: 'listed_count', label: 'Listed', value: (street) => street.listed_count },
+          { key: 'sold_count', label: 'Sold', value: (street) => street.sold_count },
+          { key: 'average_sold_price', label: 'Average Sold Price', value: (street) => street.average_sold_price },
+          { key: 'contacts', label: 'Contacts', value: (street) => street.contacts.length },
+        ],
+      }),
+    ],
+  });
   const handleAddContact = async () => {
     if (!newContact.owner_1 && !newContact.owner_2) {
       setContactError('At least one of Owner 1 or Owner 2 is required');
@@ -498,11 +496,11 @@ export function StreetSuggestions({
         street_number: newContact.street_number || null,
         suburb,
         status: newContact.status || '',
-        last_sold_date: newContact.last_sold_date ? excelSerialToDate(newContact.last_sold_date) : null,
+        last_sold_date: newContact.last_sold_date ? parseSpreadsheetDate(newContact.last_sold_date) : null,
         price: newContact.price ? parseFloat(newContact.price.toString()) : null,
         marketing_plan: newContact.marketing_plan || '',
         activity_log: newContact.activity_log || '',
-        call_back_date: newContact.call_back_date ? excelSerialToDate(newContact.call_back_date) : null,
+        call_back_date: newContact.call_back_date ? parseSpreadsheetDate(newContact.call_back_date) : null,
       };
       if (isEditMode && newContact.id) {
         const { error } = await supabase
@@ -682,279 +680,145 @@ export function StreetSuggestions({
       setSelectedContactIds(contacts.map((c) => c.id!));
     }
   };
-  const handleSingleStreetExcelImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (!event.target.files || !selectedStreet || !suburb) return;
+  const previewImport = (
+    validContacts: Omit<Contact, 'id'>[],
+    existingContacts: Contact[],
+    street: string | null,
+    unmatchedStreets: string[],
+    { fileName, rollbackOnError }: Omit<ImportWizardResult, 'rows'>
+  ) => {
+    const incoming = validContacts.map((contact, index) => toImportCandidate(`row-${index}`, contact));
+    setPendingImport({
+      rows: buildImportPreview(
+        incoming,
+        existingContacts.map((contact) => toImportCandidate(contact.id!, contact))
+      ),
+      contacts: Object.fromEntries(incoming.map((candidate, index) => [candidate.key, validContacts[index]])),
+      street,
+      unmatchedStreets,
+      fileName,
+      rollbackOnError,
+    });
+  };
+  const commitImport = async ({ insert, update, skipped }: ImportDecisions) => {
+    if (!pendingImport) return;
+    const { street, unmatchedStreets } = pendingImport;
     setLoading(true);
-    setContactError(null);
     try {
-      const { data: existingContacts, error: contactError } = await supabase
-        .from('contacts')
-        .select('id, owner_1, owner_2, street_number, street_name, suburb')
-        .eq('street_name', selectedStreet)
-        .eq('suburb', suburb);
-      if (contactError) throw new Error(`Failed to fetch existing contacts: ${contactError.message}`);
-      const { data: propertiesData, error: propError } = await supabase
-        .from('properties')
-        .select('street_number')
-        .eq('street_name', selectedStreet)
-        .eq('suburb', suburb);
-      if (propError) throw new Error(`Failed to fetch properties: ${propError.message}`);
-      const availableStreetNumbers = propertiesData
-        .map((prop) => prop.street_number)
-        .filter((num): num is string => !!num);
-      const file = event.target.files[0];
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        let json = XLSX.utils.sheet_to_json(worksheet) as any[];
-        if (json.length === 0) {
-          setContactError('No data found in the Excel file.');
-          setLoading(false);
-          return;
-        }
-        const firstRowKeys = Object.keys(json[0]);
-        const headerMap: { [key: string]: string } = {};
-        firstRowKeys.forEach((origKey) => {
-          let normKey = normalizeKey(origKey);
-          if (normKey === 'owner1_email') normKey = 'owner_1_email';
-          if (normKey === 'owner2_email') normKey = 'owner_2_email';
-          if (normKey === 'own1_mob') normKey = 'owner_1_mobile';
-          if (normKey === 'own2_mob') normKey = 'owner_2_mobile';
-          if (normKey === 'street_no') normKey = 'street_number';
-          if (normKey === 'last_sold_date') normKey = 'last_sold_date';
-          headerMap[normKey] = origKey;
-        });
-        json = json.map((row) => normalizeRow(row, headerMap));
-        const validContacts: Omit<Contact, 'id'>[] = [];
-        const duplicateContacts: string[] = [];
-        json.forEach((row, index) => {
-          if (!row.owner_1 && !row.owner_2) return;
-          const streetNumberFromExcel = row.street_number?.toString().trim();
-          const streetNumber = streetNumberFromExcel || (availableStreetNumbers[index % availableStreetNumbers.length] || null);
-          const isDuplicate = existingContacts.some(
-            (contact) =>
-              contact.owner_1?.toLowerCase() === row.owner_1?.toLowerCase() &&
-              contact.owner_2?.toLowerCase() === row.owner_2?.toLowerCase() &&
-              contact.street_number === streetNumber &&
-              contact.street_name === selectedStreet &&
-              contact.suburb === suburb
-          );
-          if (isDuplicate) {
-            const ownerName = row.owner_1 && row.owner_2 ? `${row.owner_1} & ${row.owner_2}` : row.owner_1 || row.owner_2;
-            duplicateContacts.push(`${ownerName} at ${streetNumber || 'N/A'} ${selectedStreet}`);
-            return;
-          }
-          validContacts.push({
-            owner_1: row.owner_1 || '',
-            owner_2: row.owner_2 || '',
-            owner_1_email: row.owner_1_email || '',
-            owner_2_email: row.owner_2_email || '',
-            phone_number: row.phone_number || '',
-            owner_1_mobile: row.owner_1_mobile || '',
-            owner_2_mobile: row.owner_2_mobile || '',
-            outcome: row.outcome || '',
-            street_name: selectedStreet,
-            street_number: streetNumber,
-            suburb,
-            status: row.status || '',
-            last_sold_date: row.last_sold_date,
-            price: row.price,
-            marketing_plan: row.marketing_plan || '',
-            activity_log: row.activity_log || '',
-            call_back_date: row.call_back_date || null,
-          });
+      let importedData: Contact[] = [];
+      if (insert.length) {
+        const { inserted, error } = await commitImportBatches<Contact & { id: string }>({
+          source: IMPORT_SOURCES.streetContacts,
+          table: 'contacts',
+          fileName: pendingImport.fileName,
+          records: insert.map((key) => pendingImport.contacts[key]),
+          rollbackOnError: pendingImport.rollbackOnError,
         });
-        if (validContacts.length === 0) {
-          setContactError(
-            `No valid contacts to import. ${duplicateContacts.length > 0 ? `Found ${duplicateContacts.length} duplicates: ${duplicateContacts.join(', ')}` : 'Ensure at least one of owner_1 or owner_2 is provided.'}`
+        if (error) {
+          await fetchData();
+          throw new Error(
+            pendingImport.rollbackOnError ? `${error}. Nothing was imported.` : `${error}. ${inserted.length} contacts were imported before it.`
           );
-          setLoading(false);
-          return;
         }
-        const { data: importedData, error } = await supabase
-          .from('contacts')
-          .insert(validContacts)
-          .select();
-        if (error) throw new Error(`Failed to import contacts: ${error.message}`);
+        importedData = inserted;
+      }
+      for (const { id, changes } of update) {
+        const { error } = await supabase.from('contacts').update(changes).eq('id', id);
+        if (error) throw new Error(`Failed to update contact: ${error.message}`);
+      }
+      let successMessage: string;
+      if (street && !update.length) {
         setStreetStats((prev) =>
-          prev.map((street) =>
-            street.street_name === selectedStreet
-              ? { ...street, contacts: [...street.contacts, ...importedData] }
-              : street
+          prev.map((stats) =>
+            stats.street_name === street ? { ...stats, contacts: [...stats.contacts, ...importedData] } : stats
           )
         );
+        successMessage = `Successfully imported ${importedData.length} contacts for ${street}.`;
+      } else {
+        await fetchData();
+        successMessage = `Successfully imported ${importedData.length} contacts${street ? ` for ${street}` : ' across all streets'}.`;
+      }
+      if (street) {
         setAddedStreets((prev) => ({
           ...prev,
-          [selectedStreet]: {
-            ...prev[selectedStreet] || { door_knock: 0, phone_call: 0, contacts: 0 },
-            contacts: (prev[selectedStreet]?.contacts || 0) + validContacts.length,
+          [street]: {
+            ...prev[street] || { door_knock: 0, phone_call: 0, contacts: 0 },
+            contacts: (prev[street]?.contacts || 0) + importedData.length,
           },
         }));
-        let successMessage = `Successfully imported ${validContacts.length} contacts for ${selectedStreet}.`;
-        if (duplicateContacts.length > 0) {
-          successMessage += ` Skipped ${duplicateContacts.length} duplicates: ${duplicateContacts.join(', ')}.`;
-        }
-        setContactSuccess(successMessage);
-        setTimeout(() => setContactSuccess(null), 5000);
-        event.target.value = '';
-      };
-      reader.readAsArrayBuffer(file);
+      }
+      if (update.length > 0) successMessage += ` Filled in details on ${update.length} existing contacts.`;
+      if (skipped > 0) successMessage += ` Skipped ${skipped} duplicates.`;
+      if (unmatchedStreets.length > 0) {
+        successMessage += ` Assigned ${unmatchedStreets.length} unmatched streets to the first street in ${suburb}.`;
+      }
+      setPendingImport(null);
+      setContactSuccess(successMessage);
+      setTimeout(() => setContactSuccess(null), 5000);
     } catch (err: any) {
       setContactError(`Error importing contacts: ${err.message}`);
     } finally {
       setLoading(false);
     }
   };
-  const handleGlobalExcelImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (!event.target.files || !suburb) return;
-    setLoading(true);
-    setContactError(null);
-    try {
-      const { data: existingContacts, error: contactError } = await supabase
-        .from('contacts')
-        .select('id, owner_1, owner_2, street_number, street_name, suburb')
-        .ilike('suburb', `%${suburb.toLowerCase().split(' qld')[0]}%`);
-      if (contactError) throw new Error(`Failed to fetch existing contacts: ${contactError.message}`);
-      const { data: propertiesData, error: propError } = await supabase
-        .from('properties')
-        .select('street_name, street_number')
-        .ilike('suburb', `%${suburb.toLowerCase().split(' qld')[0]}%`);
-      if (propError) throw new Error(`Failed to fetch street names: ${propError.message}`);
-      const availableStreetNames = [...new Set(propertiesData
-        .map((prop) => prop.street_name?.trim())
-        .filter((name): name is string => !!name))];
-      const streetNumberMap = new Map<string, string[]>();
-      propertiesData.forEach((prop) => {
-        if (prop.street_name && prop.street_number) {
-          const streetNumbers = streetNumberMap.get(prop.street_name) || [];
-          streetNumbers.push(prop.street_number);
-          streetNumberMap.set(prop.street_name, streetNumbers);
-        }
-      });
-      const file = event.target.files[0];
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        let json = XLSX.utils.sheet_to_json(worksheet) as any[];
-        if (json.length === 0) {
-          setContactError('No data found in the Excel file.');
-          setLoading(false);
-          return;
-        }
-        const firstRowKeys = Object.keys(json[0]);
-        const headerMap: { [key: string]: string } = {};
-        firstRowKeys.forEach((origKey) => {
-          let normKey = normalizeKey(origKey);
-          if (normKey === 'owner1_email') normKey = 'owner_1_email';
-          if (normKey === 'owner2_email') normKey = 'owner_2_email';
-          if (normKey === 'own1_mob') normKey = 'owner_1_mobile';
-          if (normKey === 'own2_mob') normKey = 'owner_2_mobile';
-          if (normKey === 'street_no') normKey = 'street_number';
-          if (normKey === 'last_sold_date') normKey = 'last_sold_date';
-          headerMap[normKey] = origKey;
-        });
-        json = json.map((row) => normalizeRow(row, headerMap));
-        const validContacts: Omit<Contact, 'id'>[] = [];
-        const duplicateContacts: string[] = [];
-        const unmatchedStreets: string[] = [];
-        json.forEach((row, index) => {
-          if (!row.owner_1 && !row.owner_2) return;
-          let streetName = row.street_name ? row.street_name.trim() : '';
-          let streetNumber = row.street_number?.toString().trim() || null;
-          if (!streetName || !availableStreetNames.includes(streetName)) {
-            const matchedStreet = availableStreetNames.find(
-              (availableStreet) => availableStreet.toLowerCase().includes(streetName.toLowerCase()) ||
-                streetName.toLowerCase().includes(availableStreet.toLowerCase())
-            );
-            if (matchedStreet) {
-              streetName = matchedStreet;
-            } else if (availableStreetNames.length > 0) {
-              streetName = availableStreetNames[0];
-              unmatchedStreets.push(row.street_name || 'Unknown');
-            } else {
-              unmatchedStreets.push(row.street_name || 'Unknown');
-              return;
-            }
-          }
-          if (!streetNumber) {
-            const availableStreetNumbers = streetNumberMap.get(streetName) || [];
-            streetNumber = availableStreetNumbers[index % availableStreetNumbers.length] || null;
-          }
-          const isDuplicate = existingContacts.some(
-            (contact) =>
-              contact.owner_1?.toLowerCase() === row.owner_1?.toLowerCase() &&
-              contact.owner_2?.toLowerCase() === row.owner_2?.toLowerCase() &&
-              contact.street_number === streetNumber &&
-              contact.street_name === streetName &&
-              contact.suburb === suburb
-          );
-          if (isDuplicate) {
-            const ownerName = row.owner_1 && row.owner_2 ? `${row.owner_1} & ${row.owner_2}` : row.owner_1 || row.owner_2;
-            duplicateContacts.push(`${ownerName} at ${streetNumber || 'N/A'} ${streetName}`);
-            return;
-          }
-          validContacts.push({
-            owner_1: row.owner_1 || '',
-            owner_2: row.owner_2 || '',
-            owner_1_email: row.owner_1_email || '',
-            owner_2_email: row.owner_2_email || '',
-            phone_number: row.phone_number || '',
-            owner_1_mobile: row.owner_1_mobile || '',
-            owner_2_mobile: row.owner_2_mobile || '',
-            outcome: row.outcome || '',
-            street_name: streetName,
-            street_number: streetNumber,
-            suburb: row.suburb || suburb,
-            status: row.status || '',
-            last_sold_date: row.last_sold_date,
-            price: row.price,
-            marketing_plan: row.marketing_plan || '',
-            activity_log: row.activity_log || '',
-            call_back_date: row.call_back_date || null,
-          });
-        });
-        if (validContacts.length === 0) {
-          let errorMessage = 'No valid contacts to import. Ensure at least one of owner_1 or owner_2 is provided.';
-          if (duplicateContacts.length > 0) {
-            errorMessage += ` Found ${duplicateContacts.length} duplicates: ${duplicateContacts.join(', ')}.`;
-          }
-          if (unmatchedStreets.length > 0) {
-            errorMessage += ` Unmatched street names: ${[...new Set(unmatchedStreets)].join(', ')}.`;
-          }
-          setContactError(errorMessage);
-          setLoading(false);
+  // Rows without a street number get one of the street's known numbers, and
+  // a suburb-wide import files unknown streets under the closest known one.
+  const handleImportRows = async ({ rows, ...options }: ImportWizardResult) => {
+    if (!importScope || !suburb) return;
+    const { street } = importScope;
+    const suburbPattern = `%${suburb.toLowerCase().split(' qld')[0]}%`;
+    const existingQuery = supabase.from('contacts').select(EXISTING_CONTACT_COLUMNS);
+    const [{ data: existingContacts, error: contactError }, propertiesData] = await Promise.all([
+      street ? existingQuery.eq('street_name', street).eq('suburb', suburb) : existingQuery.ilike('suburb', suburbPattern),
+      fetchAllProperties({
+        filters: street ? { suburbs: [suburb], streetNames: [street] } : { suburbs: [suburb.toLowerCase().split(' qld')[0]] },
+      }),
+    ]);
+    if (contactError) throw new Error(`Failed to fetch existing contacts: ${contactError.message}`);
+    const availableStreetNames = [...new Set(propertiesData
+      .map((prop) => prop.street_name?.trim())
+      .filter((name): name is string => !!name))];
+    const streetNumberMap = new Map<string, string[]>();
+    propertiesData.forEach((prop) => {
+      if (prop.street_name && prop.street_number) {
+        const streetNumbers = streetNumberMap.get(prop.street_name) || [];
+        streetNumbers.push(prop.street_number);
+        streetNumberMap.set(prop.street_name, streetNumbers);
+      }
+    });
+    const validContacts: Omit<Contact, 'id'>[] = [];
+    const unmatchedStreets: string[] = [];
+    rows.forEach(({ values }, index) => {
+      const contact = toStreetContact(values, suburb);
+      let streetName = street || contact.street_name || '';
+      if (street) {
+        contact.suburb = suburb;
+      } else if (!availableStreetNames.includes(streetName)) {
+        const matchedStreet = availableStreetNames.find(
+          (availableStreet) => availableStreet.toLowerCase().includes(streetName.toLowerCase()) ||
+            streetName.toLowerCase().includes(availableStreet.toLowerCase())
+        );
+        if (matchedStreet) {
+          streetName = matchedStreet;
+        } else if (availableStreetNames.length > 0) {
+          streetName = availableStreetNames[0];
+          unmatchedStreets.push(contact.street_name || 'Unknown');
+        } else {
+          unmatchedStreets.push(contact.street_name || 'Unknown');
           return;
         }
-        const { data: importedData, error } = await supabase
-          .from('contacts')
-          .insert(validContacts)
-          .select();
-        if (error) throw new Error(`Failed to import contacts: ${error.message}`);
-        await fetchData();
-        let successMessage = `Successfully imported ${validContacts.length} contacts across all streets.`;
-        if (duplicateContacts.length > 0) {
-          successMessage += ` Skipped ${duplicateContacts.length} duplicates: ${duplicateContacts.join(', ')}.`;
-        }
-        if (unmatchedStreets.length > 0) {
-          successMessage += ` Assigned ${unmatchedStreets.length} unmatched streets to ${availableStreetNames[0] || 'Unknown'}.`;
-        }
-        setContactSuccess(successMessage);
-        setTimeout(() => setContactSuccess(null), 5000);
-        event.target.value = '';
-        setIsGlobalImportOpen(false);
-      };
-      reader.readAsArrayBuffer(file);
-    } catch (err: any) {
-      setContactError(`Error importing contacts: ${err.message}`);
-    } finally {
-      setLoading(false);
+      }
+      if (!contact.street_number) {
+        const availableStreetNumbers = streetNumberMap.get(streetName) || [];
+        contact.street_number = availableStreetNumbers[index % availableStreetNumbers.length] || null;
+      }
+      validContacts.push({ ...contact, street_name: streetName });
+    });
+    if (validContacts.length === 0) {
+      throw new Error(`No contacts to import. Unmatched street names: ${[...new Set(unmatchedStreets)].join(', ')}.`);
     }
+    previewImport(validContacts, existingContacts as unknown as Contact[], street, unmatchedStreets, options);
+    setImportScope(null);
   };
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
@@ -1118,7 +982,7 @@ export function StreetSuggestions({
               Remove All from Both
             </motion.button>
             <motion.button
-              onClick={() => setIsGlobalImportOpen(true)}
+              onClick={() => setImportScope({ street: null })}
               className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-all text-sm sm:text-base"
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
@@ -1127,8 +991,9 @@ export function StreetSuggestions({
               Import Contacts (All Streets)
             </motion.button>
             <motion.button
-              onClick={handleExportContacts}
-              className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-all text-sm sm:text-base"
+              onClick={() => setIsExportOpen(true)}
+              disabled={!streetStats.some((street) => street.contacts.length)}
+              className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-all text-sm sm:text-base disabled:opacity-50"
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
             >
@@ -1372,8 +1237,12 @@ export function StreetSuggestions({
                                     animate={{ opacity: 1 }}
                                     transition={{ duration: 0.3 }}
                                   >
-                                    <td className="p-1">{contact.owner_1 || 'N/A'}</td>
-                                    <td className="p-1">{contact.owner_2 || 'N/A'}</td>
+                                    <td className="p-1">
+                                      <OwnerName name={contact.owner_1} personId={contact.owner_1_person_id} fallback="N/A" />
+                                    </td>
+                                    <td className="p-1">
+                                      <OwnerName name={contact.owner_2} personId={contact.owner_2_person_id} fallback="N/A" />
+                                    </td>
                                     <td className="p-1">{contact.owner_1_email}</td>
                                     <td className="p-1">{contact.owner_2_email}</td>
                                     <td className="p-1">{contact.phone_number}</td>
@@ -1424,61 +1293,6 @@ export function StreetSuggestions({
           </div>
         </div>
       )}
-      <AnimatePresence>
-        {isGlobalImportOpen && (
-          <motion.div
-            className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-          >
-            <motion.div
-              className="bg-white p-6 rounded-xl shadow-lg max-w-md w-full"
-              initial={{ scale: 0.8, opacity: 0 }}
-              animate={{ scale: 1, opacity: 1 }}
-              exit={{ scale: 0.8, opacity: 0 }}
-              transition={{ duration: 0.3 }}
-            >
-              <div className="flex justify-between items-center mb-4">
-                <h3 className="text-lg font-semibold text-gray-800">Import Contacts for All Streets in {suburb}</h3>
-                <motion.button
-                  onClick={() => setIsGlobalImportOpen(false)}
-                  className="text-gray-600 hover:text-gray-800"
-                  whileHover={{ scale: 1.1 }}
-                  whileTap={{ scale: 0.9 }}
-                >
-                  <X className="w-5 h-5" />
-                </motion.button>
-              </div>
-              {contactError && (
-                <motion.div
-                  className="bg-red-50 text-red-600 p-3 rounded-lg mb-4 text-sm"
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  exit={{ opacity: 0 }}
-                >
-                  {contactError}
-                </motion.div>
-              )}
-              <div className="mb-4">
-                <label className="block text-gray-800 font-semibold mb-2 text-sm">
-                  Upload Excel file with columns: owner_1 or owner_2, street_name (owner_1_email, owner_2_email, phone_number, owner_1_mobile, owner_2_mobile, outcome, status, last_sold_date, price optional)
-                </label>
-                <div className="flex items-center">
-                  <Upload className="w-5 h-5 mr-2 text-gray-500" />
-                  <input
-                    type="file"
-                    accept=".xlsx, .xls"
-                    onChange={handleGlobalExcelImport}
-                    className="p-2 border border-gray-200 rounded-lg bg-gray-50 text-sm flex-1"
-                    disabled={loading}
-                  />
-                </div>
-              </div>
-            </motion.div>
-          </motion.div>
-        )}
-      </AnimatePresence>
       <AnimatePresence>
         {isContactModalOpen && (
           <motion.div
@@ -1531,16 +1345,13 @@ export function StreetSuggestions({
                       Add New Contact
                     </button>
                     {!isEditMode && (
-                      <div className="flex items-center">
-                        <Upload className="w-5 h-5 mr-2 text-gray-500" />
-                        <input
-                          type="file"
-                          accept=".xlsx, .xls"
-                          onChange={handleSingleStreetExcelImport}
-                          className="p-2 border border-gray-200 rounded-lg bg-gray-50 text-sm"
-                          disabled={loading}
-                        />
-                      </div>
+                      <button
+                        onClick={() => setImportScope({ street: selectedStreet })}
+                        disabled={loading}
+                        className="flex items-center px-4 py-2 border border-gray-200 rounded-lg bg-gray-50 text-gray-800 hover:bg-gray-100 text-sm"
+                      >
+                        <Upload className="w-5 h-5 mr-2 text-gray-500" /> Import Spreadsheet
+                      </button>
                     )}
                     <button
                       onClick={() => setShowConfirmDeleteSelected(true)}
@@ -1645,8 +1456,12 @@ export function StreetSuggestions({
                                     onChange={() => toggleSelectContact(contact.id!)}
                                   />
                                 </td>
-                                <td className="p-2">{contact.owner_1}</td>
-                                <td className="p-2">{contact.owner_2}</td>
+                                <td className="p-2">
+                                  <OwnerName name={contact.owner_1} personId={contact.owner_1_person_id} />
+                                </td>
+                                <td className="p-2">
+                                  <OwnerName name={contact.owner_2} personId={contact.owner_2_person_id} />
+                                </td>
                                 <td className="p-2">{contact.owner_1_email}</td>
                                 <td className="p-2">{contact.owner_2_email}</td>
                                 <td className="p-2">{contact.phone_number}</td>
@@ -1704,16 +1519,13 @@ export function StreetSuggestions({
                       <label className="block text-gray-800 font-semibold mb-2 text-base">
                         Import Contacts from Excel (for {selectedStreet})
                       </label>
-                      <div className="flex items-center">
-                        <Upload className="w-5 h-5 mr-2 text-gray-500" />
-                        <input
-                          type="file"
-                          accept=".xlsx, .xls"
-                          onChange={handleSingleStreetExcelImport}
-                          className="p-2 border border-gray-200 rounded-lg bg-gray-50 text-base flex-1"
-                          disabled={loading}
-                        />
-                      </div>
+                      <button
+                        onClick={() => setImportScope({ street: selectedStreet })}
+                        disabled={loading}
+                        className="flex items-center px-4 py-2 border border-gray-200 rounded-lg bg-gray-50 text-gray-800 hover:bg-gray-100 text-base"
+                      >
+                        <Upload className="w-5 h-5 mr-2 text-gray-500" /> Import Spreadsheet
+                      </button>
                     </div>
                   )}
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -1872,6 +1684,34 @@ export function StreetSuggestions({
           </motion.div>
         )}
       </AnimatePresence>
+      {importScope && (
+        <ImportWizard
+          title={`Import Contacts for ${importScope.street || `All Streets in ${suburb}`}`}
+          source={IMPORT_SOURCES.streetContacts}
+          fields={STREET_CONTACT_FIELDS}
+          validateRow={requireAnOwner}
+          dryRun={(rows) =>
+            dryRunImportRows('contacts', rows, ({ values }) => ({
+              ...toStreetContact(values, suburb || ''),
+              ...(importScope.street && { street_name: importScope.street }),
+            }))
+          }
+          showHistory
+          submitLabel="Check duplicates for"
+          onSubmit={handleImportRows}
+          onClose={() => setImportScope(null)}
+        />
+      )}
+      {pendingImport && (
+        <ImportDedupePreview
+          title={`Check for duplicate contacts${pendingImport.street ? ` on ${pendingImport.street}` : ''}`}
+          columns={IMPORT_COLUMNS}
+          rows={pendingImport.rows}
+          onCommit={commitImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+      {isExportOpen && <ExportDialog spec={contactsExportSpec()} onClose={() => setIsExportOpen(false)} />}
     </motion.div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,208 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { MapPin, Plus, Trash2, Loader2 } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { createSuburb, deleteSuburb, fetchSuburbs, loadGazetteer } from '../api/suburbs';
+import { SuburbRow } from '../types/database';
+import { SEED_SUBURBS, resolveSuburb, suburbDisplayName, suburbKey } from '../utils/gazetteer';
+
+interface SuburbFormData {
+  name: string;
+  state: string;
+  postcode: string;
+  aliases: string;
+  latitude: string;
+  longitude: string;
+}
+
+const EMPTY_FORM: SuburbFormData = {
+  name: '',
+  state: 'QLD',
+  postcode: '',
+  aliases: '',
+  latitude: '',
+  longitude: '',
+};
+
+const seededNames = new Set(SEED_SUBURBS.map((entry) => suburbKey(entry.name)));
+
+export function SuburbGazetteer() {
+  const navigate = useNavigate();
+  const [suburbs, setSuburbs] = useState<SuburbRow[]>([]);
+  const [formData, setFormData] = useState<SuburbFormData>(EMPTY_FORM);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [testInput, setTestInput] = useState('');
+
+  const refresh = async () => {
+    try {
+      setSuburbs(await fetchSuburbs());
+      await loadGazetteer();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load suburbs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const latitude = parseFloat(formData.latitude);
+    const longitude = parseFloat(formData.longitude);
+    if (!formData.name.trim()) return toast.error('Suburb name is required');
+    if (!/^\d{4}$/.test(formData.postcode)) return toast.error('Postcode must be 4 digits');
+    if (isNaN(latitude) || isNaN(longitude)) return toast.error('Latitude and longitude are required');
+
+    const existing = resolveSuburb(formData.name);
+    if (existing && existing.postcode === formData.postcode) {
+      return toast.error(`${suburbDisplayName(existing)} is already in the gazetteer`);
+    }
+
+    setSaving(true);
+    try {
+      await createSuburb({
+        name: formData.name.trim(),
+        state: formData.state.trim().toUpperCase() || 'QLD',
+        postcode: formData.postcode,
+        aliases: formData.aliases
+          .split(',')
+          .map((alias) => alias.trim().toLowerCase())
+          .filter(Boolean),
+        latitude,
+        longitude,
+      });
+      toast.success('Suburb added');
+      setFormData(EMPTY_FORM);
+      await refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to add suburb');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (suburb: SuburbRow) => {
+    if (!confirm(`Remove ${suburb.name} from the gazetteer?`)) return;
+    try {
+      await deleteSuburb(suburb.id);
+      toast.success('Suburb removed');
+      await refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove suburb');
+    }
+  };
+
+  const testMatch = testInput.trim() ? resolveSuburb(testInput) : null;
+
+  return (
+    <div className="max-w-5xl mx-auto p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold text-blue-900 flex items-center">
+          <MapPin className="w-7 h-7 mr-2 text-blue-300" /> Suburb Gazetteer
+        </h1>
+        <motion.button
+          onClick={() => navigate('/admin-dashboard')}
+          className="px-4 py-2 bg-blue-300 text-white rounded-full hover:bg-blue-400 shadow-md"
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          Back to Dashboard
+        </motion.button>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow-md border border-blue-200 mb-8">
+        <h2 className="text-xl font-semibold text-blue-900 mb-4">Add Suburb</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {(
+            [
+              ['name', 'Suburb Name', 'Pullenvale'],
+              ['state', 'State', 'QLD'],
+              ['postcode', 'Postcode', '4069'],
+              ['latitude', 'Centroid Latitude', '-27.522'],
+              ['longitude', 'Centroid Longitude', '152.885'],
+              ['aliases', 'Aliases / Misspellings (comma separated)', 'pullen vale'],
+            ] as [keyof SuburbFormData, string, string][]
+          ).map(([field, label, placeholder]) => (
+            <div key={field}>
+              <label className="block text-sm font-medium text-blue-900">{label}</label>
+              <input
+                type="text"
+                value={formData[field]}
+                placeholder={placeholder}
+                onChange={(e) => setFormData({ ...formData, [field]: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-blue-200 rounded-md focus:ring-blue-300 focus:border-blue-300"
+              />
+            </div>
+          ))}
+        </div>
+        <button
+          type="submit"
+          disabled={saving}
+          className="mt-4 flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+          Add Suburb
+        </button>
+      </form>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-blue-200 mb-8">
+        <h2 className="text-xl font-semibold text-blue-900 mb-2">Test a Spelling</h2>
+        <input
+          type="text"
+          value={testInput}
+          onChange={(e) => setTestInput(e.target.value)}
+          placeholder="e.g. chapell hill qld (4069)"
+          className="block w-full px-3 py-2 border border-blue-200 rounded-md"
+        />
+        {testInput.trim() && (
+          <p className={`mt-2 text-sm ${testMatch ? 'text-green-700' : 'text-red-600'}`}>
+            {testMatch ? `Resolves to ${suburbDisplayName(testMatch)}` : 'No match – add it as a suburb or alias'}
+          </p>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-blue-200 overflow-x-auto">
+        <h2 className="text-xl font-semibold text-blue-900 mb-4">Suburbs</h2>
+        {loading ? (
+          <div className="flex items-center text-blue-900">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" /> Loading suburbs...
+          </div>
+        ) : (
+          <table className="w-full text-left">
+            <thead>
+              <tr className="border-b border-blue-200">
+                <th className="py-2 px-4 text-blue-900">Suburb</th>
+                <th className="py-2 px-4 text-blue-900">Aliases</th>
+                <th className="py-2 px-4 text-blue-900">Centroid</th>
+                <th className="py-2 px-4 text-blue-900"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {suburbs.map((suburb) => (
+                <tr key={suburb.id} className="border-b border-blue-200 hover:bg-blue-50">
+                  <td className="py-2 px-4">{`${suburb.name} ${suburb.state} ${suburb.postcode}`}</td>
+                  <td className="py-2 px-4 text-gray-600">{(suburb.aliases || []).join(', ') || '—'}</td>
+                  <td className="py-2 px-4 text-gray-600">
+                    {Number(suburb.latitude).toFixed(3)}, {Number(suburb.longitude).toFixed(3)}
+                  </td>
+                  <td className="py-2 px-4 text-right">
+                    {!seededNames.has(suburbKey(suburb.name)) && (
+                      <button onClick={() => handleDelete(suburb)} className="text-red-600 hover:text-red-700">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,613 @@
+import { FormEvent, ReactNode, useCallback, useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import moment from 'moment';
+import { ArrowLeft, CalendarClock, Download, Eye, FileText, Link2, Loader2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'react-toastify';
+import {
+  createCampaignActivity,
+  createInspection,
+  createPriceFeedback,
+  deleteCampaignActivity,
+  deleteInspection,
+  deletePriceFeedback,
+  deleteVendorReportSchedule,
+  fetchVendorReport,
+  fetchVendorReportSchedule,
+  saveVendorReportSchedule,
+} from '../api/vendorReports';
+import { ShareLinkDialog } from '../components/ShareLinkDialog';
+import { CampaignChannel, InspectionType, PriceFeedbackSource, VendorReportScheduleRow } from '../types/database';
+import { formatCurrency } from '../utils/formatters';
+import { downloadReport, reportBlob } from '../utils/pdfReport';
+import { VENDOR_REPORT } from '../utils/reportTemplates';
+import {
+  CAMPAIGN_CHANNEL_LABELS,
+  FEEDBACK_SOURCE_LABELS,
+  feedbackRange,
+  INSPECTION_TYPE_LABELS,
+  inspectionsThisWeek,
+  priceRangeLabel,
+  totalAttendance,
+  VendorReportData,
+  vendorReportAddress,
+  WEEKDAY_LABELS,
+} from '../utils/vendorReport';
+
+const inputClass = 'p-2 border border-blue-200 rounded-md text-blue-900';
+const addButtonClass =
+  'flex items-center px-3 py-2 rounded-md text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50';
+
+const errorMessage = (err: unknown, fallback: string) => (err instanceof Error ? err.message : fallback);
+
+const emptyInspection = () => ({
+  held_at: moment().format('YYYY-MM-DDTHH:mm'),
+  inspection_type: 'open_home' as InspectionType,
+  attendees: '',
+});
+const emptyFeedback = () => ({
+  received_at: moment().format('YYYY-MM-DD'),
+  source: 'buyer' as PriceFeedbackSource,
+  price_low: '',
+  price_high: '',
+  comment: '',
+});
+const emptyActivity = () => ({
+  activity_date: moment().format('YYYY-MM-DD'),
+  channel: 'online' as CampaignChannel,
+  description: '',
+  reach: '',
+});
+
+const numberOrNull = (value: string) => (value.trim() === '' ? null : Number(value));
+
+function Panel({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md border border-blue-200">
+      <h2 className="text-xl font-semibold text-blue-900 mb-4">{title}</h2>
+      {children}
+    </div>
+  );
+}
+
+function DeleteButton({ onClick, disabled }: { onClick: () => void; disabled: boolean }) {
+  return (
+    <button onClick={onClick} disabled={disabled} className="text-red-600 hover:text-red-800 disabled:opacity-50" aria-label="Delete">
+      <Trash2 className="w-4 h-4" />
+    </button>
+  );
+}
+
+// The weekly progress report for a vendor: what the agent logs against the
+// listing (inspections, price feedback, campaign activity), the figures the
+// vendor sees, and who it is emailed to each week.
+export function VendorReportPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [report, setReport] = useState<VendorReportData | null>(null);
+  const [schedule, setSchedule] = useState<VendorReportScheduleRow | null>(null);
+  const [scheduleForm, setScheduleForm] = useState({ recipient_name: '', recipient_email: '', weekday: 1, enabled: true });
+  const [inspection, setInspection] = useState(emptyInspection);
+  const [feedback, setFeedback] = useState(emptyFeedback);
+  const [activity, setActivity] = useState(emptyActivity);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [showShareDialog, setShowShareDialog] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    if (!id) return;
+    try {
+      setReport(await fetchVendorReport(id));
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to load the vendor report'));
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (!id) return;
+    setLoading(true);
+    Promise.all([
+      loadReport(),
+      fetchVendorReportSchedule(id).then((row) => {
+        setSchedule(row);
+        if (row) {
+          setScheduleForm({
+            recipient_name: row.recipient_name,
+            recipient_email: row.recipient_email,
+            weekday: row.weekday,
+            enabled: row.enabled,
+          });
+        }
+      }),
+    ])
+      .catch((err) => toast.error(errorMessage(err, 'Failed to load the report schedule')))
+      .finally(() => setLoading(false));
+  }, [id, loadReport]);
+
+  // Runs a change and reloads the report so the figures stay in step.
+  const change = async (key: string, task: () => Promise<unknown>, fallback: string) => {
+    setSaving(key);
+    try {
+      await task();
+      await loadReport();
+      return true;
+    } catch (err) {
+      toast.error(errorMessage(err, fallback));
+      return false;
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleAddInspection = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!id) return;
+    const added = await change(
+      'inspection',
+      () =>
+        createInspection({
+          property_id: id,
+          held_at: moment(inspection.held_at).toISOString(),
+          inspection_type: inspection.inspection_type,
+          attendees: Number(inspection.attendees) || 0,
+        }),
+      'Failed to log the inspection'
+    );
+    if (added) setInspection(emptyInspection());
+  };
+
+  const handleAddFeedback = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!id) return;
+    const low = numberOrNull(feedback.price_low);
+    const high = numberOrNull(feedback.price_high);
+    if (low === null && high === null && !feedback.comment.trim()) {
+      toast.error('Enter a price or a comment');
+      return;
+    }
+    if (low !== null && high !== null && low > high) {
+      toast.error('The low price is above the high price');
+      return;
+    }
+    const added = await change(
+      'feedback',
+      () =>
+        createPriceFeedback({
+          property_id: id,
+          received_at: moment(feedback.received_at).toISOString(),
+          source: feedback.source,
+          price_low: low,
+          price_high: high,
+          comment: feedback.comment.trim() || null,
+        }),
+      'Failed to save the price feedback'
+    );
+    if (added) setFeedback(emptyFeedback());
+  };
+
+  const handleAddActivity = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!id || !activity.description.trim()) return;
+    const added = await change(
+      'activity',
+      () =>
+        createCampaignActivity({
+          property_id: id,
+          activity_date: activity.activity_date,
+          channel: activity.channel,
+          description: activity.description.trim(),
+          reach: numberOrNull(activity.reach),
+        }),
+      'Failed to log the campaign activity'
+    );
+    if (added) setActivity(emptyActivity());
+  };
+
+  const handleSaveSchedule = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!id) return;
+    setSaving('schedule');
+    try {
+      setSchedule(await saveVendorReportSchedule({ property_id: id, ...scheduleForm }));
+      toast.success(scheduleForm.enabled ? `Report will be emailed every ${WEEKDAY_LABELS[scheduleForm.weekday]}` : 'Weekly email paused');
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to save the schedule'));
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleDeleteSchedule = async () => {
+    if (!id || !window.confirm('Stop emailing this report and remove the schedule?')) return;
+    setSaving('schedule');
+    try {
+      await deleteVendorReportSchedule(id);
+      setSchedule(null);
+      setScheduleForm({ recipient_name: '', recipient_email: '', weekday: 1, enabled: true });
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to remove the schedule'));
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!report) return;
+    try {
+      await downloadReport(VENDOR_REPORT, report);
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to generate the PDF'));
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!report) return;
+    try {
+      const url = URL.createObjectURL(await reportBlob(VENDOR_REPORT, report));
+      window.open(url, '_blank');
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to generate the PDF'));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh] text-blue-900">
+        <Loader2 className="w-6 h-6 mr-2 animate-spin" /> Loading vendor report...
+      </div>
+    );
+  }
+
+  if (!report) {
+    return (
+      <div className="max-w-5xl mx-auto p-6">
+        <p className="text-gray-600">This listing could not be found.</p>
+      </div>
+    );
+  }
+
+  const thisWeek = inspectionsThisWeek(report);
+  const kpis = [
+    { label: 'Days on market', value: report.days_on_market ?? 'N/A' },
+    { label: 'Enquiries', value: report.enquiries.total, note: `${report.enquiries.since} this week` },
+    {
+      label: 'Inspections',
+      value: report.inspections.length,
+      note: `${totalAttendance(report.inspections)} attended, ${totalAttendance(thisWeek)} this week`,
+    },
+    { label: 'Price feedback', value: feedbackRange(report) || 'N/A', note: `${report.price_feedback.length} responses` },
+  ];
+
+  return (
+    <div className="max-w-5xl mx-auto p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <button
+            onClick={() => navigate(`/property-detail/${report.property.id}`)}
+            className="flex items-center text-blue-600 hover:text-blue-800 mb-2"
+          >
+            <ArrowLeft className="w-4 h-4 mr-1" /> Back to property
+          </button>
+          <h1 className="text-3xl font-bold text-blue-900 flex items-center">
+            <FileText className="w-8 h-8 mr-3 text-blue-600" /> Vendor Report
+          </h1>
+          <p className="text-gray-600">{vendorReportAddress(report)}</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={handlePreview} className="flex items-center bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300">
+            <Eye className="w-5 h-5 mr-2" /> Preview
+          </button>
+          <button onClick={handleDownload} className="flex items-center bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700">
+            <Download className="w-5 h-5 mr-2" /> Download PDF
+          </button>
+          <button
+            onClick={() => setShowShareDialog(true)}
+            className="flex items-center bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+          >
+            <Link2 className="w-5 h-5 mr-2" /> Share
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {kpis.map((kpi) => (
+          <div key={kpi.label} className="bg-white p-4 rounded-lg shadow-md border border-blue-200">
+            <p className="text-sm text-gray-500">{kpi.label}</p>
+            <p className="text-2xl font-bold text-blue-900">{kpi.value}</p>
+            {kpi.note && <p className="text-xs text-gray-500">{kpi.note}</p>}
+          </div>
+        ))}
+      </div>
+
+      <Panel title="Inspections">
+        <form onSubmit={handleAddInspection} className="flex flex-wrap items-end gap-3 mb-4">
+          <input
+            type="datetime-local"
+            value={inspection.held_at}
+            onChange={(e) => setInspection({ ...inspection, held_at: e.target.value })}
+            className={inputClass}
+            aria-label="Held at"
+            required
+          />
+          <select
+            value={inspection.inspection_type}
+            onChange={(e) => setInspection({ ...inspection, inspection_type: e.target.value as InspectionType })}
+            className={inputClass}
+            aria-label="Inspection type"
+          >
+            {Object.entries(INSPECTION_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={0}
+            value={inspection.attendees}
+            onChange={(e) => setInspection({ ...inspection, attendees: e.target.value })}
+            placeholder="Groups through"
+            className={`${inputClass} w-36`}
+            aria-label="Attendees"
+            required
+          />
+          <button type="submit" disabled={saving === 'inspection'} className={addButtonClass}>
+            <Plus className="w-4 h-4 mr-1" /> Log inspection
+          </button>
+        </form>
+        {report.inspections.length ? (
+          <ul className="divide-y divide-blue-100">
+            {report.inspections.map((row) => (
+              <li key={row.id} className="flex items-center justify-between py-2 text-sm">
+                <span>
+                  {moment(row.held_at).format('ddd D MMM YYYY, h:mm a')} · {INSPECTION_TYPE_LABELS[row.inspection_type]} ·{' '}
+                  {row.attendees} attended
+                </span>
+                <DeleteButton
+                  disabled={saving === row.id}
+                  onClick={() => change(row.id, () => deleteInspection(row.id), 'Failed to delete the inspection')}
+                />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No inspections logged yet.</p>
+        )}
+      </Panel>
+
+      <Panel title="Price Feedback">
+        <form onSubmit={handleAddFeedback} className="flex flex-wrap items-end gap-3 mb-4">
+          <input
+            type="date"
+            value={feedback.received_at}
+            onChange={(e) => setFeedback({ ...feedback, received_at: e.target.value })}
+            className={inputClass}
+            aria-label="Received"
+            required
+          />
+          <select
+            value={feedback.source}
+            onChange={(e) => setFeedback({ ...feedback, source: e.target.value as PriceFeedbackSource })}
+            className={inputClass}
+            aria-label="Source"
+          >
+            {Object.entries(FEEDBACK_SOURCE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={0}
+            value={feedback.price_low}
+            onChange={(e) => setFeedback({ ...feedback, price_low: e.target.value })}
+            placeholder="Low $"
+            className={`${inputClass} w-32`}
+            aria-label="Low price"
+          />
+          <input
+            type="number"
+            min={0}
+            value={feedback.price_high}
+            onChange={(e) => setFeedback({ ...feedback, price_high: e.target.value })}
+            placeholder="High $"
+            className={`${inputClass} w-32`}
+            aria-label="High price"
+          />
+          <input
+            type="text"
+            value={feedback.comment}
+            onChange={(e) => setFeedback({ ...feedback, comment: e.target.value })}
+            placeholder="Comment"
+            className={`${inputClass} flex-1 min-w-[12rem]`}
+            aria-label="Comment"
+          />
+          <button type="submit" disabled={saving === 'feedback'} className={addButtonClass}>
+            <Plus className="w-4 h-4 mr-1" /> Add feedback
+          </button>
+        </form>
+        {report.price_feedback.length ? (
+          <ul className="divide-y divide-blue-100">
+            {report.price_feedback.map((row) => (
+              <li key={row.id} className="flex items-center justify-between py-2 text-sm">
+                <span>
+                  {moment(row.received_at).format('D MMM YYYY')} · {FEEDBACK_SOURCE_LABELS[row.source]}
+                  {priceRangeLabel(row.price_low, row.price_high) ? ` · ${priceRangeLabel(row.price_low, row.price_high)}` : ''}
+                  {row.comment ? ` · ${row.comment}` : ''}
+                </span>
+                <DeleteButton
+                  disabled={saving === row.id}
+                  onClick={() => change(row.id, () => deletePriceFeedback(row.id), 'Failed to delete the feedback')}
+                />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No price feedback yet.</p>
+        )}
+      </Panel>
+
+      <Panel title="Campaign Activity">
+        <form onSubmit={handleAddActivity} className="flex flex-wrap items-end gap-3 mb-4">
+          <input
+            type="date"
+            value={activity.activity_date}
+            onChange={(e) => setActivity({ ...activity, activity_date: e.target.value })}
+            className={inputClass}
+            aria-label="Date"
+            required
+          />
+          <select
+            value={activity.channel}
+            onChange={(e) => setActivity({ ...activity, channel: e.target.value as CampaignChannel })}
+            className={inputClass}
+            aria-label="Channel"
+          >
+            {Object.entries(CAMPAIGN_CHANNEL_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={activity.description}
+            onChange={(e) => setActivity({ ...activity, description: e.target.value })}
+            placeholder="What was done"
+            className={`${inputClass} flex-1 min-w-[12rem]`}
+            aria-label="Description"
+            required
+          />
+          <input
+            type="number"
+            min={0}
+            value={activity.reach}
+            onChange={(e) => setActivity({ ...activity, reach: e.target.value })}
+            placeholder="Reach"
+            className={`${inputClass} w-28`}
+            aria-label="Reach"
+          />
+          <button type="submit" disabled={saving === 'activity'} className={addButtonClass}>
+            <Plus className="w-4 h-4 mr-1" /> Log activity
+          </button>
+        </form>
+        {report.campaign.length ? (
+          <ul className="divide-y divide-blue-100">
+            {report.campaign.map((row) => (
+              <li key={row.id} className="flex items-center justify-between py-2 text-sm">
+                <span>
+                  {moment(row.activity_date).format('D MMM YYYY')} · {CAMPAIGN_CHANNEL_LABELS[row.channel]} · {row.description}
+                  {row.reach !== null ? ` · reach ${row.reach.toLocaleString()}` : ''}
+                </span>
+                <DeleteButton
+                  disabled={saving === row.id}
+                  onClick={() => change(row.id, () => deleteCampaignActivity(row.id), 'Failed to delete the activity')}
+                />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No campaign activity logged yet.</p>
+        )}
+      </Panel>
+
+      <Panel title="Comparable Sales">
+        {report.comparables.length ? (
+          <ul className="divide-y divide-blue-100">
+            {report.comparables.map((sale) => (
+              <li key={sale.id} className="flex items-center justify-between py-2 text-sm">
+                <span>
+                  {[sale.street_number, sale.street_name].filter(Boolean).join(' ') || 'N/A'} · {sale.property_type || 'N/A'} ·{' '}
+                  {sale.bedrooms ?? '-'} bed
+                </span>
+                <span className="text-blue-900">
+                  {sale.sold_price ? formatCurrency(sale.sold_price) : 'N/A'}
+                  {sale.sold_date ? ` · ${moment(sale.sold_date).format('D MMM YYYY')}` : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No sales in {report.property.suburb || 'the suburb'} in the last six months.</p>
+        )}
+      </Panel>
+
+      <Panel title="Weekly Email">
+        <form onSubmit={handleSaveSchedule} className="space-y-3">
+          <p className="text-sm text-gray-600 flex items-center">
+            <CalendarClock className="w-4 h-4 mr-2 text-blue-600" />
+            {schedule?.last_sent_at
+              ? `Last sent ${moment(schedule.last_sent_at).format('D MMM YYYY, h:mm a')}.`
+              : 'Not sent yet.'}{' '}
+            Each email carries a link to the report that works for 14 days.
+          </p>
+          <div className="flex flex-wrap items-end gap-3">
+            <input
+              type="text"
+              value={scheduleForm.recipient_name}
+              onChange={(e) => setScheduleForm({ ...scheduleForm, recipient_name: e.target.value })}
+              placeholder="Vendor name"
+              className={inputClass}
+              aria-label="Vendor name"
+              required
+            />
+            <input
+              type="email"
+              value={scheduleForm.recipient_email}
+              onChange={(e) => setScheduleForm({ ...scheduleForm, recipient_email: e.target.value })}
+              placeholder="Vendor email"
+              className={inputClass}
+              aria-label="Vendor email"
+              required
+            />
+            <select
+              value={scheduleForm.weekday}
+              onChange={(e) => setScheduleForm({ ...scheduleForm, weekday: Number(e.target.value) })}
+              className={inputClass}
+              aria-label="Send on"
+            >
+              {WEEKDAY_LABELS.map((label, weekday) => (
+                <option key={label} value={weekday}>
+                  Every {label}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={scheduleForm.enabled}
+                onChange={(e) => setScheduleForm({ ...scheduleForm, enabled: e.target.checked })}
+              />
+              Enabled
+            </label>
+            <button type="submit" disabled={saving === 'schedule'} className={addButtonClass}>
+              {saving === 'schedule' && <Loader2 className="w-4 h-4 mr-1 animate-spin" />} Save schedule
+            </button>
+            {schedule && (
+              <button
+                type="button"
+                onClick={handleDeleteSchedule}
+                disabled={saving === 'schedule'}
+                className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        </form>
+      </Panel>
+
+      {showShareDialog && (
+        <ShareLinkDialog
+          resourceType="vendor_report"
+          resourceId={report.property.id}
+          title={vendorReportAddress(report)}
+          onClose={() => setShowShareDialog(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+export default VendorReportPage;
@@ -1,6 +1,9 @@
 import moment from 'moment';
 import { ChartData } from 'chart.js';
 import { PropertyDetails, PropertyMetrics } from '../pages/Reports';
+import { normalizeSuburb } from './utils/gazetteer';
+import { forecastSegment, salesFromProperties } from './utils/forecasting';
+import { estimateCommission } from './utils/commission';
 
 // Debug flag
 const DEBUG = true;
@@ -12,47 +15,23 @@ export const formatArray = (arr?: string[]) => (arr && arr.length > 0 ? arr.join
 
 export const formatDate = (date?: string) => (date ? moment(date).format('DD/MM/YYYY') : 'N/A');
 
-// Calculate commission earned based on sold price and commission rate
-export const calculateCommission = (property: PropertyDetails): { commissionEarned: number } => {
-  const commissionRate = property.commission || 0; // Commission percentage (e.g., 2.5 for 2.5%)
-  const soldPrice = property.sold_price || 0; // Use sold_price, fallback to 0
-  const commissionEarned = soldPrice * (commissionRate / 100);
-  return { commissionEarned };
-};
+// Reports only count commission once a property has actually sold, so the
+// asking price is left out of the estimate
+export const calculateCommission = (property: PropertyDetails): { commissionRate: number; commissionEarned: number } =>
+  estimateCommission({ commission: property.commission, sold_price: property.sold_price });
 
-export const normalizeSuburb = (suburb: string): string => {
-  if (!suburb) return 'UNKNOWN';
-  return suburb.trim().toUpperCase();
-};
+export { normalizeSuburb };
 
+// Forecast of the suburb's median sale price over the next quarter, with the
+// interval taken from the model's backtest errors (see utils/forecasting).
 export const predictFutureAvgPriceBySuburb = (suburb: string, data: PropertyDetails[]) => {
   if (DEBUG) console.log('predictFutureAvgPriceBySuburb: Predicting for suburb:', suburb);
-  const relevantData = data.filter((p) => normalizeSuburb(p.suburb) === normalizeSuburb(suburb) && (p.sold_price || p.price));
-  if (relevantData.length < 2) return { predicted: relevantData[0]?.price || 0, lower: 0, upper: 0 };
-
-  const prices = relevantData.map((p) => p.sold_price || p.price || 0);
-  const n = prices.length;
-  let xSum = 0, ySum = 0, xySum = 0, xSquaredSum = 0;
-  prices.forEach((price, i) => {
-    xSum += i;
-    ySum += price;
-    xySum += i * price;
-    xSquaredSum += i * i;
-  });
-  const slope = (n * xySum - xSum * ySum) / (n * xSquaredSum - xSum * xSum);
-  const intercept = (ySum - slope * xSum) / n;
-  const predicted = slope * (n + 1) + intercept;
-
-  const mean = prices.reduce((sum, p) => sum + p, 0) / prices.length;
-  const variance = prices.reduce((sum, p) => sum + Math.pow(p - mean, 2), 0) / prices.length;
-  const stdDev = Math.sqrt(variance);
-  const confidenceInterval = stdDev;
-
-  return {
-    predicted: predicted,
-    lower: predicted - confidenceInterval,
-    upper: predicted + confidenceInterval,
-  };
+  const forecast = forecastSegment(salesFromProperties(data), { suburb }, normalizeSuburb);
+  if (!forecast) {
+    const known = data.filter((p) => normalizeSuburb(p.suburb) === normalizeSuburb(suburb) && (p.sold_price || p.price));
+    return { predicted: known[0]?.sold_price || known[0]?.price || 0, lower: 0, upper: 0 };
+  }
+  return { predicted: forecast.predicted, lower: forecast.lower, upper: forecast.upper };
 };
 
 export const generatePropertyMetrics = (
@@ -0,0 +1,60 @@
+import { NextFunction, Request, Response } from 'express';
+import { supabaseServer } from './supabase-server';
+import { ApiError } from './server-http';
+import { AgentPermissions, Capability, capabilitiesFor } from './utils/permissions';
+
+export interface AuthenticatedUser {
+  id: string;
+  email: string | null;
+  role: string;
+  permissions: AgentPermissions | null;
+  capabilities: Set<Capability>;
+}
+
+// The signed-in caller, set on res.locals by `authenticate`.
+export const currentUser = (res: Response): AuthenticatedUser => res.locals.user as AuthenticatedUser;
+
+// Resolves the Supabase access token in the Authorization header to a profile.
+// Every /api route sits behind this; the service-role client the routes use
+// bypasses RLS, so these checks are the only thing standing in for it.
+export const authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+  if (!token) throw new ApiError(401, 'unauthenticated', 'Authentication required');
+
+  const { data, error } = await supabaseServer.auth.getUser(token);
+  if (error || !data.user) throw new ApiError(401, 'session_invalid', 'Session is invalid or has expired');
+
+  const { data: profile, error: profileError } = await supabaseServer
+    .from('profiles')
+    .select('id, email, role, permissions')
+    .eq('id', data.user.id)
+    .maybeSingle();
+  if (profileError) throw new Error(`Failed to load profile: ${profileError.message}`);
+  if (!profile) throw new ApiError(403, 'profile_missing', 'No profile exists for this account');
+
+  res.locals.user = {
+    id: profile.id,
+    email: profile.email ?? data.user.email ?? null,
+    role: profile.role,
+    permissions: profile.permissions ?? null,
+    capabilities: capabilitiesFor(profile),
+  } satisfies AuthenticatedUser;
+  next();
+};
+
+export const requireCapability =
+  (...required: Capability[]) =>
+  (_req: Request, res: Response, next: NextFunction): void => {
+    const user = res.locals.user as AuthenticatedUser | undefined;
+    if (!user) {
+      next(new ApiError(401, 'unauthenticated', 'Authentication required'));
+      return;
+    }
+    const missing = required.filter((capability) => !user.capabilities.has(capability));
+    if (missing.length) {
+      next(new ApiError(403, 'forbidden', 'You do not have permission to perform this action', { missing }));
+      return;
+    }
+    next();
+  };
@@ -0,0 +1,257 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import nodemailer from 'nodemailer';
+import { supabaseServer } from './supabase-server';
+import { ApiError, upstreamError } from './server-http';
+import { EmailTemplate, EmailTemplateData, renderEmail } from './utils/emailTemplates';
+import { OUR_AGENCY } from './constants';
+
+// Outgoing email for the Express API. Every message is rendered from a
+// template, written to `email_deliveries` and handed to the configured
+// transport. Failed sends stay queued with a backoff; `startEmailQueue` retries
+// them until `max_attempts` is used up.
+//
+//   EMAIL_TRANSPORT   smtp | outbox (default: smtp when SMTP_HOST is set)
+//   SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS
+//   EMAIL_FROM        e.g. "Harcourt Success <no-reply@example.com>"
+//   EMAIL_OUTBOX_DIR  where the outbox transport writes .eml files (default .outbox)
+
+export interface OutgoingEmail {
+  to: string;
+  replyTo?: string | null;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: OutgoingEmail): Promise<{ messageId: string }>;
+}
+
+export type EmailDeliveryStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+export interface EmailDeliveryRow {
+  id: string;
+  template: EmailTemplate;
+  recipient: string;
+  reply_to: string | null;
+  subject: string;
+  text_body: string;
+  html_body: string;
+  status: EmailDeliveryStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  transport: string | null;
+  message_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+const TABLE = 'email_deliveries';
+const BATCH_SIZE = 20;
+// A claimed row is leased for this long; if the process dies mid-send the
+// queue picks it up again afterwards.
+const SEND_LEASE_MS = 10 * 60 * 1000;
+
+const EMAIL_FROM = process.env.EMAIL_FROM || `${OUR_AGENCY} <no-reply@localhost>`;
+
+const envelope = (message: OutgoingEmail) => ({
+  from: EMAIL_FROM,
+  to: message.to,
+  replyTo: message.replyTo || undefined,
+  subject: message.subject,
+  text: message.text,
+  html: message.html,
+});
+
+export const createSmtpTransport = (): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  });
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      const info = await transporter.sendMail(envelope(message));
+      return { messageId: info.messageId };
+    },
+  };
+};
+
+// Writes each message to disk as an .eml file instead of sending it, for
+// local development and testing. Any mail client can open the files.
+export const createOutboxTransport = (directory = process.env.EMAIL_OUTBOX_DIR || '.outbox'): MailTransport => {
+  const builder = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+  return {
+    name: 'outbox',
+    send: async (message) => {
+      const info = await builder.sendMail(envelope(message));
+      await mkdir(directory, { recursive: true });
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const file = path.join(directory, `${stamp}-${message.to.replace(/[^a-z0-9@._-]/gi, '_')}.eml`);
+      await writeFile(file, info.message as Buffer);
+      return { messageId: info.messageId };
+    },
+  };
+};
+
+const transportFromEnv = (): MailTransport => {
+  const kind = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'outbox');
+  if (kind === 'smtp') return createSmtpTransport();
+  if (kind === 'outbox') return createOutboxTransport();
+  throw new Error(`Unknown EMAIL_TRANSPORT "${kind}"; use smtp or outbox`);
+};
+
+const transport: MailTransport = transportFromEnv();
+console.log(`Email transport: ${transport.name}`);
+
+// 1, 2, 4, 8... minutes between attempts, capped at an hour.
+const retryDelayMs = (attempts: number) => Math.min(2 ** Math.max(attempts - 1, 0), 60) * 60 * 1000;
+
+// Claims the row (so two workers never send the same message), sends it and
+// records the outcome. Returns the row as it stands afterwards.
+const deliver = async (row: EmailDeliveryRow): Promise<EmailDeliveryRow> => {
+  const attempts = row.attempts + 1;
+  const { data: claimed, error: claimError } = await supabaseServer
+    .from(TABLE)
+    .update({ status: 'sending', attempts, next_attempt_at: new Date(Date.now() + SEND_LEASE_MS).toISOString() })
+    .eq('id', row.id)
+    .eq('status', row.status)
+    .eq('attempts', row.attempts)
+    .select()
+    .maybeSingle();
+  if (claimError) throw upstreamError('claim the email for sending', claimError);
+  if (!claimed) return row;
+
+  let update: Partial<EmailDeliveryRow>;
+  try {
+    const { messageId } = await transport.send({
+      to: row.recipient,
+      replyTo: row.reply_to,
+      subject: row.subject,
+      text: row.text_body,
+      html: row.html_body,
+    });
+    update = {
+      status: 'sent',
+      sent_at: new Date().toISOString(),
+      message_id: messageId,
+      transport: transport.name,
+      last_error: null,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = attempts >= row.max_attempts;
+    console.error(`Email ${row.id} to ${row.recipient} failed (attempt ${attempts}/${row.max_attempts}):`, message);
+    update = {
+      status: exhausted ? 'failed' : 'queued',
+      next_attempt_at: new Date(Date.now() + retryDelayMs(attempts)).toISOString(),
+      transport: transport.name,
+      last_error: message,
+    };
+  }
+
+  const { data, error } = await supabaseServer.from(TABLE).update(update).eq('id', row.id).select().single();
+  if (error) throw upstreamError('record the email delivery', error);
+  return data;
+};
+
+export interface QueueEmailOptions {
+  replyTo?: string | null;
+  createdBy?: string | null;
+  maxAttempts?: number;
+}
+
+// Renders and logs the message, then makes the first attempt straight away.
+// A failed first attempt is not an error for the caller: the row stays queued
+// and the worker retries it.
+export const queueEmail = async <T extends EmailTemplate>(
+  template: T,
+  to: string,
+  data: EmailTemplateData[T],
+  options: QueueEmailOptions = {}
+): Promise<EmailDeliveryRow> => {
+  const rendered = renderEmail(template, data);
+  const { data: row, error } = await supabaseServer
+    .from(TABLE)
+    .insert({
+      template,
+      recipient: to,
+      reply_to: options.replyTo ?? null,
+      subject: rendered.subject,
+      text_body: rendered.text,
+      html_body: rendered.html,
+      max_attempts: options.maxAttempts ?? 5,
+      created_by: options.createdBy ?? null,
+    })
+    .select()
+    .single();
+  if (error) throw upstreamError('queue the email', error);
+  return deliver(row);
+};
+
+// Sends everything that is due, including rows whose send lease ran out.
+export const processEmailQueue = async (): Promise<number> => {
+  const { data, error } = await supabaseServer
+    .from(TABLE)
+    .select('*')
+    .in('status', ['queued', 'sending'])
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at')
+    .limit(BATCH_SIZE);
+  if (error) throw upstreamError('load the email queue', error);
+
+  let sent = 0;
+  for (const row of (data || []) as EmailDeliveryRow[]) {
+    const result = await deliver(row);
+    if (result.status === 'sent') sent += 1;
+  }
+  return sent;
+};
+
+// Polls the queue until the returned function is called.
+export const startEmailQueue = (intervalMs = 60 * 1000) => {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await processEmailQueue();
+    } catch (error) {
+      console.error('Email queue run failed:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+};
+
+// Puts a failed (or still queued) message back at the front of the queue with
+// one more attempt allowed, and tries it now.
+export const retryEmailDelivery = async (id: string): Promise<EmailDeliveryRow> => {
+  const { data: row, error } = await supabaseServer.from(TABLE).select('*').eq('id', id).maybeSingle();
+  if (error) throw upstreamError('load the email', error);
+  if (!row) throw new ApiError(404, 'not_found', 'Email not found');
+  if (row.status === 'sent') throw new ApiError(409, 'conflict', 'This email has already been sent');
+  if (row.status === 'sending') throw new ApiError(409, 'conflict', 'This email is being sent right now');
+
+  const { data: requeued, error: requeueError } = await supabaseServer
+    .from(TABLE)
+    .update({
+      status: 'queued',
+      next_attempt_at: new Date().toISOString(),
+      max_attempts: Math.max(row.max_attempts, row.attempts + 1),
+    })
+    .eq('id', id)
+    .select()
+    .single();
+  if (requeueError) throw upstreamError('requeue the email', requeueError);
+  return deliver(requeued);
+};
@@ -0,0 +1,119 @@
+import { NextFunction, Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import { ZodType, ZodTypeDef } from 'zod';
+
+// Error plumbing for the Express API. Every failure leaves the server as
+// `{ error, code, details? }`: `error` is a sentence fit to show a user, `code`
+// is stable for callers to branch on.
+
+export type ApiErrorCode =
+  | 'unauthenticated'
+  | 'session_invalid'
+  | 'profile_missing'
+  | 'forbidden'
+  | 'invalid_json'
+  | 'validation_failed'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'upstream_failed'
+  | 'internal';
+
+export class ApiError extends Error {
+  status: number;
+  code: ApiErrorCode;
+  details: unknown;
+
+  constructor(status: number, code: ApiErrorCode, message: string, details?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+// A failed Supabase call made on the caller's behalf. The message is kept for
+// the log; the caller only learns which step failed.
+export const upstreamError = (action: string, error: { message: string; code?: string }): ApiError => {
+  console.error(`Supabase error while trying to ${action}:`, error);
+  if (error.code === '23505') return new ApiError(409, 'conflict', `Could not ${action}: the record already exists`);
+  return new ApiError(502, 'upstream_failed', `Could not ${action}`);
+};
+
+// A request whose body has been through `validateBody(schema)`.
+export type BodyRequest<T> = Request<Record<string, string>, unknown, T>;
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Parses req.body against `schema` and replaces it with the parsed value, so
+// handlers only ever see trimmed, typed input with unknown keys stripped.
+export const validateBody =
+  <T>(schema: ZodType<T, ZodTypeDef, unknown>) =>
+  (req: Request, _res: Response, next: NextFunction): void => {
+    const result = schema.safeParse(req.body ?? {});
+    if (!result.success) {
+      const issues: ValidationIssue[] = result.error.issues.map((issue) => ({
+        path: issue.path.join('.'),
+        message: issue.message,
+      }));
+      next(new ApiError(400, 'validation_failed', 'The request body is invalid', issues));
+      return;
+    }
+    req.body = result.data;
+    next();
+  };
+
+const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000;
+
+// Keyed by the signed-in user where `authenticate` has already run, so one
+// office behind a shared IP does not exhaust a single bucket.
+const rateLimitKey = (req: Request, res: Response): string =>
+  (res.locals.user as { id?: string } | undefined)?.id || req.ip || 'unknown';
+
+export const createRateLimiter = (limit: number, windowMs = RATE_LIMIT_WINDOW_MS) =>
+  rateLimit({
+    windowMs,
+    limit,
+    standardHeaders: 'draft-7',
+    legacyHeaders: false,
+    keyGenerator: rateLimitKey,
+    handler: (_req, _res, next, options) => {
+      const retryAfter = Math.ceil(options.windowMs / 1000);
+      next(new ApiError(429, 'rate_limited', 'Too many requests, please try again later', { retryAfter }));
+    },
+  });
+
+export const notFoundHandler = (req: Request, _res: Response, next: NextFunction): void => {
+  next(new ApiError(404, 'not_found', `No route for ${req.method} ${req.path}`));
+};
+
+const isBodyParseError = (error: unknown): boolean =>
+  error instanceof SyntaxError && (error as SyntaxError & { type?: string }).type === 'entity.parse.failed';
+
+// Express only treats a four-argument function as an error handler, hence the
+// unused `_next`.
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+export const errorHandler = (error: unknown, req: Request, res: Response, _next: NextFunction): void => {
+  if (res.headersSent) return;
+
+  if (error instanceof ApiError) {
+    res.status(error.status).json({
+      error: error.message,
+      code: error.code,
+      ...(error.details !== undefined ? { details: error.details } : {}),
+    });
+    return;
+  }
+
+  if (isBodyParseError(error)) {
+    res.status(400).json({ error: 'The request body is not valid JSON', code: 'invalid_json' });
+    return;
+  }
+
+  console.error(`Unhandled error on ${req.method} ${req.path}:`, error);
+  res.status(500).json({ error: 'Something went wrong, please try again', code: 'internal' });
+};
@@ -0,0 +1,107 @@
+import { supabaseServer } from './supabase-server';
+import { upstreamError } from './server-http';
+import { queueEmail } from './server-email';
+import type { NotificationType } from './types/database';
+
+// Server side of the notification centre. Rows are written by
+// create_notification() (from database triggers or from jobs here); this
+// module emails the ones whose recipient opted in and raises the
+// time-based notifications no trigger can.
+
+const BATCH_SIZE = 50;
+
+export interface NewNotification {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  link?: string | null;
+  data?: Record<string, unknown>;
+}
+
+export const createNotification = async (notification: NewNotification): Promise<string> => {
+  const { data, error } = await supabaseServer.rpc('create_notification', {
+    p_user_id: notification.userId,
+    p_type: notification.type,
+    p_title: notification.title,
+    p_body: notification.body ?? null,
+    p_link: notification.link ?? null,
+    p_data: notification.data ?? {},
+  });
+  if (error) throw upstreamError('create the notification', error);
+  return data as string;
+};
+
+interface PendingNotification {
+  id: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  profile: { email: string | null; name: string | null } | null;
+}
+
+// Hands every notification marked email_status = 'pending' to the email queue.
+// The row is flipped to 'sent' first so a second worker skips it; the email
+// queue owns retries from then on.
+export const processNotificationEmails = async (appUrl: string): Promise<number> => {
+  const { data, error } = await supabaseServer
+    .from('notifications')
+    .select('id, title, body, link, profile:profiles(email, name)')
+    .eq('email_status', 'pending')
+    .order('created_at')
+    .limit(BATCH_SIZE);
+  if (error) throw upstreamError('load notifications to email', error);
+
+  let queued = 0;
+  for (const notification of (data || []) as unknown as PendingNotification[]) {
+    const { data: claimed, error: claimError } = await supabaseServer
+      .from('notifications')
+      .update({ email_status: notification.profile?.email ? 'sent' : 'failed' })
+      .eq('id', notification.id)
+      .eq('email_status', 'pending')
+      .select('id');
+    if (claimError) throw upstreamError('claim the notification email', claimError);
+    if (!claimed?.length || !notification.profile?.email) continue;
+
+    try {
+      await queueEmail('notification', notification.profile.email, {
+        name: notification.profile.name || notification.profile.email,
+        title: notification.title,
+        body: notification.body,
+        url: notification.link ? `${appUrl.replace(/\/+$/, '')}${notification.link}` : null,
+      });
+      queued += 1;
+    } catch (err) {
+      console.error(`Could not queue the email for notification ${notification.id}:`, err);
+      await supabaseServer.from('notifications').update({ email_status: 'pending' }).eq('id', notification.id);
+    }
+  }
+  return queued;
+};
+
+export const raisePlanDeadlineNotifications = async (): Promise<number> => {
+  const { data, error } = await supabaseServer.rpc('queue_plan_deadline_notifications');
+  if (error) throw upstreamError('raise plan deadline notifications', error);
+  return (data as number) || 0;
+};
+
+// Polls until the returned function is called.
+export const startNotificationWorker = (appUrl: string, intervalMs = 60 * 1000) => {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await raisePlanDeadlineNotifications();
+      await processNotificationEmails(appUrl);
+    } catch (error) {
+      console.error('Notification worker run failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  run();
+  return () => clearInterval(timer);
+};
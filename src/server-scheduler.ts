@@ -0,0 +1,230 @@
+import { supabaseServer } from './supabase-server';
+import { upstreamError } from './server-http';
+import { createNotification } from './server-notifications';
+import { queueEmail } from './server-email';
+import type { VendorReportScheduleRow } from './types/database';
+import { createShareToken, hashShareSecret, shareLinkUrl } from './utils/shareLinks';
+import { VendorReportData, vendorReportAddress, vendorReportHighlights } from './utils/vendorReport';
+
+// Morning jobs for the Express server. Each morning every agent with a due or
+// overdue call-back (nurturing contacts and street contacts) gets a call list
+// at /call-list and a callback_due notification; on the first run of each
+// month, nurturing contacts that need monthly appraisals are rolled forward
+// first. Listings with a vendor report schedule for today's weekday then have
+// their report emailed to the vendor as a share link. Runs are recorded in
+// `scheduler_runs`, so a restart or a second server does not repeat a day.
+//
+//   SCHEDULER_TIME_ZONE  the office's time zone (default Australia/Brisbane)
+//   CALL_LIST_HOUR       local hour the call lists are built (default 7)
+
+const TIME_ZONE = process.env.SCHEDULER_TIME_ZONE || 'Australia/Brisbane';
+const CALL_LIST_HOUR = Number(process.env.CALL_LIST_HOUR ?? 7);
+// A run that started this long ago and never finished is assumed to have died
+// with its process and may be claimed again.
+const STALE_RUN_MS = 60 * 60 * 1000;
+// How long the link in a weekly vendor report keeps working.
+const VENDOR_REPORT_LINK_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface LocalTime {
+  date: string;
+  month: string;
+  hour: number;
+}
+
+const localTime = (now: Date): LocalTime => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone: TIME_ZONE,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      hourCycle: 'h23',
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value])
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, month: `${parts.year}-${parts.month}`, hour: Number(parts.hour) };
+};
+
+// Claims (job, runKey), runs the job and records its result. Returns null
+// without running when the period has already been claimed. A failed job
+// releases its claim so the next tick retries it.
+const runOnce = async <T>(job: string, runKey: string, task: () => Promise<T>): Promise<T | null> => {
+  const staleBefore = new Date(Date.now() - STALE_RUN_MS).toISOString();
+  await supabaseServer
+    .from('scheduler_runs')
+    .delete()
+    .eq('job', job)
+    .eq('run_key', runKey)
+    .is('finished_at', null)
+    .lt('started_at', staleBefore);
+
+  const { error: claimError } = await supabaseServer.from('scheduler_runs').insert({ job, run_key: runKey });
+  if (claimError) {
+    if (claimError.code === '23505') return null;
+    throw upstreamError(`claim the ${job} run`, claimError);
+  }
+
+  try {
+    const result = await task();
+    await supabaseServer
+      .from('scheduler_runs')
+      .update({ finished_at: new Date().toISOString(), result })
+      .eq('job', job)
+      .eq('run_key', runKey);
+    return result;
+  } catch (error) {
+    await supabaseServer.from('scheduler_runs').delete().eq('job', job).eq('run_key', runKey);
+    throw error;
+  }
+};
+
+export const rollMonthlyAppraisals = async (date: string): Promise<number> => {
+  const { data, error } = await supabaseServer.rpc('roll_monthly_appraisals', { p_date: date });
+  if (error) throw upstreamError('roll monthly appraisals forward', error);
+  return (data as number) || 0;
+};
+
+interface CallListSummary {
+  agent_id: string;
+  due_count: number;
+  overdue_count: number;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Builds the call lists for `date` and tells each agent how many calls are on
+// theirs. Returns the number of agents notified.
+export const buildCallLists = async (date: string): Promise<number> => {
+  const { data, error } = await supabaseServer.rpc('build_call_lists', { p_date: date });
+  if (error) throw upstreamError('build the call lists', error);
+
+  let notified = 0;
+  for (const summary of (data || []) as CallListSummary[]) {
+    const total = summary.due_count + summary.overdue_count;
+    if (!total) continue;
+    const parts = [
+      ...(summary.due_count ? [`${summary.due_count} due today`] : []),
+      ...(summary.overdue_count ? [`${summary.overdue_count} overdue`] : []),
+    ];
+    try {
+      await createNotification({
+        userId: summary.agent_id,
+        type: 'callback_due',
+        title: `You have ${plural(total, 'call-back')} on today's call list`,
+        body: `${parts.join(', ')}.`,
+        link: '/call-list',
+        data: { list_date: date, due: summary.due_count, overdue: summary.overdue_count },
+      });
+      notified += 1;
+    } catch (err) {
+      console.error(`Could not notify ${summary.agent_id} about their call list:`, err);
+    }
+  }
+  return notified;
+};
+
+const formatDay = (date: Date) =>
+  new Intl.DateTimeFormat('en-AU', { timeZone: 'UTC', day: 'numeric', month: 'long' }).format(date);
+
+// Emails this week's report to each vendor whose schedule falls on `date`'s
+// weekday. Every email gets its own share link, created on behalf of whoever
+// set up the schedule. Returns the number of reports queued.
+export const sendVendorReports = async (date: string, appUrl: string): Promise<number> => {
+  const day = new Date(`${date}T00:00:00Z`);
+  const { data, error } = await supabaseServer
+    .from('vendor_report_schedules')
+    .select('*')
+    .eq('enabled', true)
+    .eq('weekday', day.getUTCDay());
+  if (error) throw upstreamError('load the vendor report schedules', error);
+
+  const since = new Date(day.getTime() - 7 * DAY_MS);
+  const periodLabel = `${formatDay(since)} to ${formatDay(new Date(day.getTime() - DAY_MS))}`;
+  let sent = 0;
+  for (const schedule of (data || []) as VendorReportScheduleRow[]) {
+    try {
+      const { data: report, error: reportError } = await supabaseServer.rpc('vendor_report', {
+        p_property_id: schedule.property_id,
+        p_since: since.toISOString(),
+      });
+      if (reportError) throw upstreamError('build the vendor report', reportError);
+      if (!report) continue;
+      const address = vendorReportAddress(report as VendorReportData);
+
+      const token = createShareToken();
+      const { data: link, error: linkError } = await supabaseServer
+        .from('share_links')
+        .insert({
+          token_hash: await hashShareSecret(token),
+          resource_type: 'vendor_report',
+          resource_id: schedule.property_id,
+          label: `Vendor report for ${address}`,
+          created_by: schedule.created_by,
+          expires_at: new Date(Date.now() + VENDOR_REPORT_LINK_DAYS * DAY_MS).toISOString(),
+        })
+        .select('id')
+        .single();
+      if (linkError) throw upstreamError('create the vendor report link', linkError);
+
+      const { data: agent } = await supabaseServer
+        .from('profiles')
+        .select('email')
+        .eq('id', schedule.created_by)
+        .maybeSingle();
+      await queueEmail(
+        'vendor_report',
+        schedule.recipient_email,
+        {
+          vendorName: schedule.recipient_name,
+          address,
+          periodLabel,
+          reportUrl: shareLinkUrl(token, appUrl),
+          highlights: vendorReportHighlights(report as VendorReportData),
+        },
+        { replyTo: agent?.email ?? null, createdBy: schedule.created_by }
+      );
+      await supabaseServer
+        .from('vendor_report_schedules')
+        .update({ last_sent_at: new Date().toISOString(), last_share_link_id: link.id })
+        .eq('property_id', schedule.property_id);
+      sent += 1;
+    } catch (err) {
+      console.error(`Could not send the vendor report for ${schedule.property_id}:`, err);
+    }
+  }
+  return sent;
+};
+
+export const runMorningJobs = async (appUrl: string, now = new Date()) => {
+  const { date, month, hour } = localTime(now);
+  if (hour < CALL_LIST_HOUR) return;
+  // Roll first so a monthly contact whose day has already come this month
+  // lands on today's list rather than staying overdue.
+  await runOnce('monthly_appraisals', month, () => rollMonthlyAppraisals(date));
+  await runOnce('call_lists', date, () => buildCallLists(date));
+  await runOnce('vendor_reports', date, () => sendVendorReports(date, appUrl));
+};
+
+// Checks every `intervalMs` whether this morning's jobs are due. Returns a
+// function that stops the scheduler.
+export const startScheduler = (appUrl: string, intervalMs = 15 * 60 * 1000) => {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runMorningJobs(appUrl);
+    } catch (error) {
+      console.error('Scheduler run failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  run();
+  return () => clearInterval(timer);
+};
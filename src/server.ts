@@ -1,152 +1,281 @@
 import express, { Request, Response } from 'express';
 import cors from 'cors';
+import { z } from 'zod';
 import { supabaseServer } from './supabase-server';
+import { authenticate, currentUser, requireCapability } from './server-auth';
+import { ApiError, BodyRequest, createRateLimiter, errorHandler, notFoundHandler, upstreamError, validateBody } from './server-http';
+import { canModifyProperty, Role, ROLES } from './utils/permissions';
+import { OUR_AGENCY } from './constants';
+import { processEmailQueue, queueEmail, retryEmailDelivery, startEmailQueue } from './server-email';
+import { startNotificationWorker } from './server-notifications';
+import { startScheduler } from './server-scheduler';
+import { provisionAgent, ProvisioningError } from '../supabase/functions/_shared/agent-provisioning.ts';
+import { INVITE_TTL_DAYS, inviteLink } from '../supabase/functions/_shared/agent-invites.ts';
 import 'dotenv/config';
 
+const APP_URL = process.env.APP_URL || 'http://localhost:5173';
+
 const app = express();
-app.use(cors({ origin: 'http://localhost:5173' }));
-app.use(express.json());
-
-interface CreateAgentRequest {
-  email: string;
-  permissions: {
-    canRegisterProperties: boolean;
-    canEditProperties: boolean;
-    canDeleteProperties: boolean;
-  };
-}
-
-interface UpdateAgentPermissionsRequest {
-  agentId: string;
-  permissions: {
-    canRegisterProperties: boolean;
-    canEditProperties: boolean;
-    canDeleteProperties: boolean;
-  };
-}
-
-interface DeletePropertyRequest {
-  id: string;
-}
+// Behind a proxy the client address is in X-Forwarded-For; the rate limiter
+// needs the real one (e.g. TRUST_PROXY=1 for a single load balancer).
+if (process.env.TRUST_PROXY) app.set('trust proxy', Number(process.env.TRUST_PROXY) || process.env.TRUST_PROXY);
+app.use(cors({ origin: (process.env.CORS_ORIGIN || APP_URL).split(',') }));
+app.use(express.json({ limit: '1mb' }));
 
-// Create agent endpoint
-app.post('/api/create-agent', async (req: Request<{}, {}, CreateAgentRequest>, res: Response): Promise<void> => {
-  try {
-    const { email, permissions } = req.body;
-    if (!email || !permissions) {
-      res.status(400).json({ error: 'Email and permissions are required' });
-      return;
+const enquirySchema = z.object({
+  name: z.string().trim().min(1, 'Your name is required').max(200),
+  email: z.string().trim().toLowerCase().email('A valid email address is required'),
+  message: z.string().trim().min(1, 'A message is required').max(5000),
+});
+
+type EnquiryRequest = z.infer<typeof enquirySchema>;
+
+// Public contact form on the home page. Registered ahead of `authenticate`,
+// with its own tight per-IP limit. The enquirer gets a fixed acknowledgement
+// (never their own text, so the form cannot be used to send arbitrary mail)
+// and, when ENQUIRY_INBOX is set, the office gets the details to reply to.
+app.post(
+  '/api/enquiry',
+  createRateLimiter(5),
+  validateBody(enquirySchema),
+  async (req: BodyRequest<EnquiryRequest>, res: Response): Promise<void> => {
+    const enquiry = req.body;
+    await queueEmail('enquiry_received', enquiry.email, {});
+    if (process.env.ENQUIRY_INBOX) {
+      await queueEmail('enquiry_notification', process.env.ENQUIRY_INBOX, enquiry, { replyTo: enquiry.email });
     }
+    res.status(202).json({ message: 'Enquiry received' });
+  }
+);
 
-    const tempPassword = Math.random().toString(36).slice(-8);
-    const uniqueAgentId = `AGENT-${crypto.randomUUID().slice(0, 8)}`;
+// Unauthenticated traffic is limited per IP before the token is checked;
+// admin writes get a tighter budget per signed-in user.
+app.use('/api', createRateLimiter(300), authenticate);
+const adminWriteLimiter = createRateLimiter(30);
 
-    // Create user in Supabase auth
-    const { data: authData, error: authError } = await supabaseServer.auth.admin.createUser({
-      email,
-      password: tempPassword,
-      email_confirm: true,
-    });
+const agentPermissionsSchema = z.object({
+  canRegisterProperties: z.boolean(),
+  canEditProperties: z.boolean(),
+  canDeleteProperties: z.boolean(),
+});
+
+const createAgentSchema = z.object({
+  email: z.string().trim().toLowerCase().email('A valid email address is required'),
+  name: z.string().trim().min(2, 'A name of at least 2 characters is required'),
+  phone: z.string().trim().max(32).optional(),
+  role: z.enum(ROLES as [Role, ...Role[]]).optional(),
+  permissions: agentPermissionsSchema.optional(),
+});
+
+const updateAgentPermissionsSchema = z.object({
+  agentId: z.string().uuid('Agent ID must be a profile id'),
+  role: z.enum(ROLES as [Role, ...Role[]]).optional(),
+  permissions: agentPermissionsSchema,
+});
+
+const deletePropertySchema = z.object({
+  id: z.string().uuid('Property ID must be a uuid'),
+});
+
+// The token from a link to this app's set-password page, or null for a link
+// anywhere else.
+const inviteToken = (link: string): string | null => {
+  try {
+    const url = new URL(link);
+    const expected = new URL(inviteLink(APP_URL, 'token'));
+    return url.origin === expected.origin && url.pathname === expected.pathname ? url.searchParams.get('token') : null;
+  } catch {
+    return null;
+  }
+};
 
-    if (authError) {
-      throw new Error(`Auth error: ${authError.message}`);
+const sendAgentInviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email('A valid email address is required'),
+  name: z.string().trim().min(1, 'A name is required'),
+  // Rebuilt from its token, so the email can only ever link to our own page.
+  inviteLink: z.string().transform((link, ctx) => {
+    const token = inviteToken(link);
+    if (!token) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `The invite link must point at ${APP_URL}/set-password` });
+      return z.NEVER;
     }
+    return inviteLink(APP_URL, token);
+  }),
+});
 
-    // Insert agent profile
-    const { error: profileError } = await supabaseServer.from('profiles').insert({
-      id: authData.user?.id,
-      agent_id: uniqueAgentId,
-      email,
-      role: 'agent',
-      permissions,
-    });
+type CreateAgentRequest = z.infer<typeof createAgentSchema>;
+type UpdateAgentPermissionsRequest = z.infer<typeof updateAgentPermissionsSchema>;
+type DeletePropertyRequest = z.infer<typeof deletePropertySchema>;
+type SendAgentInviteRequest = z.infer<typeof sendAgentInviteSchema>;
 
-    if (profileError) {
-      throw new Error(`Profile error: ${profileError.message}`);
+// Create agent endpoint
+app.post(
+  '/api/create-agent',
+  requireCapability('admin.access', 'users.manage'),
+  adminWriteLimiter,
+  validateBody(createAgentSchema),
+  async (req: BodyRequest<CreateAgentRequest>, res: Response): Promise<void> => {
+    const { role } = req.body;
+    if (role === 'admin' && currentUser(res).role !== 'admin') {
+      throw new ApiError(403, 'forbidden', 'Only administrators can grant the administrator role');
     }
 
-    res.status(201).json({ agent_id: uniqueAgentId, email, message: 'Agent created successfully' });
-  } catch (error: any) {
-    console.error('Error creating agent:', error);
-    res.status(500).json({ error: error.message || 'Failed to create agent' });
+    try {
+      const agent = await provisionAgent(
+        supabaseServer,
+        { ...req.body, agencyName: OUR_AGENCY },
+        { appUrl: APP_URL, createdBy: currentUser(res).id }
+      );
+      res.status(201).json({ ...agent, message: 'Agent created, share the invite link to finish setup' });
+    } catch (error) {
+      if (!(error instanceof ProvisioningError)) throw error;
+      console.error('Error creating agent:', error.message);
+      if (error.code === 'already_exists') throw new ApiError(409, 'conflict', error.message);
+      if (error.code === 'invalid_input') throw new ApiError(400, 'validation_failed', error.message);
+      throw new ApiError(502, 'upstream_failed', 'Could not create the agent; nothing was saved');
+    }
   }
-});
+);
 
 // Fetch agents endpoint
-app.get('/api/agents', async (req: Request, res: Response): Promise<void> => {
-  try {
-    const { data, error } = await supabaseServer
-      .from('profiles')
-      .select('id, agent_id, email, role, permissions')
-      .eq('role', 'agent');
-    if (error) throw new Error(`Failed to fetch agents: ${error.message}`);
-    res.status(200).json(data || []);
-  } catch (error: any) {
-    console.error('Error fetching agents:', error);
-    res.status(500).json({ error: error.message || 'Failed to fetch agents' });
-  }
+app.get('/api/agents', requireCapability('users.manage'), async (_req: Request, res: Response): Promise<void> => {
+  const { data, error } = await supabaseServer
+    .from('profiles')
+    .select('id, agent_id, email, role, permissions')
+    .eq('role', 'agent');
+  if (error) throw upstreamError('fetch agents', error);
+  res.status(200).json(data || []);
 });
 
 // Update agent permissions endpoint
-app.post('/api/update-agent-permissions', async (req: Request<{}, {}, UpdateAgentPermissionsRequest>, res: Response): Promise<void> => {
-  try {
-    const { agentId, permissions } = req.body;
-    if (!agentId || !permissions) {
-      res.status(400).json({ error: 'Agent ID and permissions are required' });
-      return;
+app.post(
+  '/api/update-agent-permissions',
+  requireCapability('admin.access', 'users.manage'),
+  adminWriteLimiter,
+  validateBody(updateAgentPermissionsSchema),
+  async (req: BodyRequest<UpdateAgentPermissionsRequest>, res: Response): Promise<void> => {
+    const { agentId, role, permissions } = req.body;
+    const isAdmin = currentUser(res).role === 'admin';
+    // Only administrators can hand out administrator rights
+    if (role === 'admin' && !isAdmin) {
+      throw new ApiError(403, 'forbidden', 'Only administrators can grant the administrator role');
     }
 
-    const { error } = await supabaseServer
+    const { data: target, error: fetchError } = await supabaseServer
       .from('profiles')
-      .update({ permissions })
-      .eq('id', agentId);
+      .select('id, role')
+      .eq('id', agentId)
+      .maybeSingle();
+    if (fetchError) throw upstreamError('fetch the agent', fetchError);
+    if (!target) throw new ApiError(404, 'not_found', 'Agent not found');
+    // ...or demote or change an existing administrator
+    if (target.role === 'admin' && !isAdmin) {
+      throw new ApiError(403, 'forbidden', "Only administrators can change an administrator's role or permissions");
+    }
 
-    if (error) throw new Error(`Failed to update permissions: ${error.message}`);
+    const { data, error } = await supabaseServer
+      .from('profiles')
+      .update(role ? { role, permissions } : { permissions })
+      .eq('id', agentId)
+      .select('id');
+    if (error) throw upstreamError('update agent permissions', error);
+    if (!data?.length) throw new ApiError(404, 'not_found', 'Agent not found');
 
     res.status(200).json({ message: 'Agent permissions updated successfully' });
-  } catch (error: any) {
-    console.error('Error updating agent permissions:', error);
-    res.status(500).json({ error: error.message || 'Failed to update agent permissions' });
   }
-});
+);
 
 // Fetch properties endpoint
-app.get('/api/properties', async (req: Request, res: Response): Promise<void> => {
-  try {
-    const { data, error } = await supabaseServer
-      .from('properties')
-      .select('*, profiles!properties_user_id_fkey(agent_id, email)')
-      .order('created_at', { ascending: false });
-    if (error) throw new Error(`Failed to fetch properties: ${error.message}`);
-    res.status(200).json(data || []);
-  } catch (error: any) {
-    console.error('Error fetching properties:', error);
-    res.status(500).json({ error: error.message || 'Failed to fetch properties' });
-  }
+app.get('/api/properties', requireCapability('properties.view'), async (_req: Request, res: Response): Promise<void> => {
+  const { data, error } = await supabaseServer
+    .from('properties')
+    .select('*, profiles!properties_user_id_fkey(agent_id, email)')
+    .order('created_at', { ascending: false });
+  if (error) throw upstreamError('fetch properties', error);
+  res.status(200).json(data || []);
 });
 
 // Delete property endpoint
-app.post('/api/delete-property', async (req: Request<{}, {}, DeletePropertyRequest>, res: Response): Promise<void> => {
-  try {
+app.post(
+  '/api/delete-property',
+  requireCapability('properties.delete'),
+  adminWriteLimiter,
+  validateBody(deletePropertySchema),
+  async (req: BodyRequest<DeletePropertyRequest>, res: Response): Promise<void> => {
     const { id } = req.body;
-    if (!id) {
-      res.status(400).json({ error: 'Property ID is required' });
-      return;
-    }
 
-    const { error } = await supabaseServer
+    const { data: property, error: fetchError } = await supabaseServer
       .from('properties')
-      .delete()
-      .eq('id', id);
+      .select('id, user_id, agent_id')
+      .eq('id', id)
+      .maybeSingle();
+    if (fetchError) throw upstreamError('fetch the property', fetchError);
+    if (!property) throw new ApiError(404, 'not_found', 'Property not found');
+    if (!canModifyProperty(currentUser(res), 'properties.delete', [property.user_id, property.agent_id])) {
+      throw new ApiError(403, 'forbidden', 'You can only delete your own properties');
+    }
 
-    if (error) throw new Error(`Failed to delete property: ${error.message}`);
+    const { error } = await supabaseServer.from('properties').delete().eq('id', id);
+    if (error) throw upstreamError('delete the property', error);
 
     res.status(200).json({ message: 'Property deleted successfully' });
-  } catch (error: any) {
-    console.error('Error deleting property:', error);
-    res.status(500).json({ error: error.message || 'Failed to delete property' });
   }
+);
+
+// Emails an invite link issued by create-agent or agent-invite. The link is
+// only ever shown to the admin who created it, so they pass it back here.
+app.post(
+  '/api/send-agent-credentials',
+  requireCapability('users.manage'),
+  adminWriteLimiter,
+  validateBody(sendAgentInviteSchema),
+  async (req: BodyRequest<SendAgentInviteRequest>, res: Response): Promise<void> => {
+    const { email, name, inviteLink } = req.body;
+    const delivery = await queueEmail(
+      'agent_invite',
+      email,
+      { name, inviteLink, expiresInDays: INVITE_TTL_DAYS },
+      { createdBy: currentUser(res).id }
+    );
+    res.status(202).json({ id: delivery.id, status: delivery.status, message: `Invite emailed to ${email}` });
+  }
+);
+
+// Delivery log, newest first. `status` narrows it to queued/sending/sent/failed.
+app.get('/api/email-deliveries', requireCapability('admin.access'), async (req: Request, res: Response): Promise<void> => {
+  const status = typeof req.query.status === 'string' ? req.query.status : null;
+  let query = supabaseServer
+    .from('email_deliveries')
+    .select('id, template, recipient, subject, status, attempts, max_attempts, next_attempt_at, last_error, transport, sent_at, created_at')
+    .order('created_at', { ascending: false })
+    .limit(Math.min(Number(req.query.limit) || 100, 500));
+  if (status) query = query.eq('status', status);
+  const { data, error } = await query;
+  if (error) throw upstreamError('fetch email deliveries', error);
+  res.status(200).json(data || []);
 });
 
+app.post(
+  '/api/email-deliveries/:id/retry',
+  requireCapability('admin.access'),
+  adminWriteLimiter,
+  async (req: Request<{ id: string }>, res: Response): Promise<void> => {
+    if (!z.string().uuid().safeParse(req.params.id).success) {
+      throw new ApiError(400, 'validation_failed', 'Email ID must be a uuid');
+    }
+    const delivery = await retryEmailDelivery(req.params.id);
+    res.status(200).json({ id: delivery.id, status: delivery.status, last_error: delivery.last_error });
+  }
+);
+
+app.use('/api', notFoundHandler);
+app.use(errorHandler);
+
 const PORT = process.env.PORT || 3001;
-app.listen(PORT, () => console.log(`Server running on port ${PORT}`));
\ No newline at end of file
+app.listen(PORT, () => {
+  console.log(`Server running on port ${PORT}`);
+  startEmailQueue();
+  startNotificationWorker(APP_URL);
+  startScheduler(APP_URL);
+  processEmailQueue().catch((error) => console.error('Initial email queue run failed:', error));
+});
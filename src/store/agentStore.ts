@@ -1,5 +1,7 @@
 import { create } from 'zustand';
+import { createProperty, fetchProperties, fetchPropertyPage } from '../api/properties';
 import { supabase } from '../lib/supabase';
+import type { PropertyInsert } from '../types/database';
 import type { Agent, Property, ActivityReport, DashboardSummary } from '../types/agent';
 
 interface AgentState {
@@ -13,7 +15,7 @@ interface AgentState {
   fetchProperties: () => Promise<void>;
   fetchActivities: () => Promise<void>;
   fetchDashboardSummary: () => Promise<void>;
-  addProperty: (property: Omit<Property, 'id' | 'created_at'>) => Promise<void>;
+  addProperty: (property: PropertyInsert) => Promise<void>;
   addActivityReport: (report: Omit<ActivityReport, 'id' | 'created_at'>) => Promise<void>;
 }
 
@@ -30,14 +32,9 @@ export const useAgentStore = create<AgentState>((set, get) => ({
   fetchProperties: async () => {
     try {
       set({ loading: true, error: null });
-      const { data, error } = await supabase
-        .from('properties')
-        .select('*')
-        .eq('agent_id', get().agent?.id)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      set({ properties: data || [] });
+      const agentId = get().agent?.id;
+      if (!agentId) throw new Error('No agent logged in');
+      set({ properties: await fetchProperties({ filters: { agentId } }) });
     } catch (error: any) {
       set({ error: error.message });
     } finally {
@@ -74,13 +71,8 @@ export const useAgentStore = create<AgentState>((set, get) => ({
       startOfWeek.setDate(today.getDate() - today.getDay());
       const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
 
-      const [propertiesResponse, activitiesResponse] = await Promise.all([
-        supabase
-          .from('properties')
-          .select('*')
-          .eq('agent_id', agent.id)
-          .order('created_at', { ascending: false })
-          .limit(5),
+      const [recentProperties, activitiesResponse] = await Promise.all([
+        fetchPropertyPage({ filters: { agentId: agent.id }, pageSize: 5 }),
         supabase
           .from('activity_reports')
           .select('*')
@@ -89,7 +81,6 @@ export const useAgentStore = create<AgentState>((set, get) => ({
           .order('date', { ascending: false })
       ]);
 
-      if (propertiesResponse.error) throw propertiesResponse.error;
       if (activitiesResponse.error) throw activitiesResponse.error;
 
       const activities = activitiesResponse.data || [];
@@ -103,7 +94,7 @@ export const useAgentStore = create<AgentState>((set, get) => ({
 
       set({
         dashboardSummary: {
-          recent_properties: propertiesResponse.data || [],
+          recent_properties: recentProperties.rows,
           daily_activities: dailyActivities,
           weekly_activities: weeklyActivities,
           monthly_activities: monthlyActivities
@@ -119,13 +110,7 @@ export const useAgentStore = create<AgentState>((set, get) => ({
   addProperty: async (property) => {
     try {
       set({ loading: true, error: null });
-      const { data, error } = await supabase
-        .from('properties')
-        .insert([{ ...property, agent_id: get().agent?.id }])
-        .select()
-        .single();
-
-      if (error) throw error;
+      const data = await createProperty({ ...property, agent_id: get().agent?.id ?? null });
       set(state => ({
         properties: [data, ...state.properties]
       }));
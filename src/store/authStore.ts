@@ -1,6 +1,8 @@
+import { useMemo } from 'react';
 import { create } from 'zustand';
 import { supabase } from '../lib/supabase';
 import { UserProfile } from '../types/types';
+import { Capability, capabilitiesFor, canModifyProperty, isStaff, ProfileRole } from '../utils/permissions';
 
 interface AuthState {
   user: { id: string; email?: string } | null;
@@ -13,7 +15,7 @@ interface AuthState {
   fetchProfile: (userId: string, email?: string) => Promise<void>;
   signOut: () => Promise<void>;
   getUserProfile: () => UserProfile | null;
-  updateRole: (role: 'user' | 'agent' | 'admin') => Promise<void>;
+  updateRole: (role: ProfileRole) => Promise<void>;
   checkAuth: () => Promise<boolean>;
 }
 
@@ -76,7 +78,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('id, name, phone, email, role')
+        .select('id, name, phone, email, role, permissions')
         .eq('id', userId)
         .single();
       
@@ -125,7 +127,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       set({ authError: error.message, profile: null });
     }
   },
-  updateRole: async (role: 'user' | 'agent' | 'admin') => {
+  updateRole: async (role: ProfileRole) => {
     const { user } = get();
     if (!user) {
       console.log('No user to update role for');
@@ -203,4 +205,22 @@ supabase.auth.onAuthStateChange(async (event, session) => {
     useAuthStore.getState().setProfile(null);
     useAuthStore.getState().set({ authError: null });
   }
-});
\ No newline at end of file
+});
+
+// What the signed-in user may do, for hiding routes and actions they can't
+// use. The database and the Express API enforce the same rules.
+export const usePermissions = () => {
+  const profile = useAuthStore((state) => state.profile);
+  return useMemo(() => {
+    const capabilities = capabilitiesFor(profile);
+    return {
+      role: profile?.role ?? null,
+      isStaff: isStaff(profile),
+      can: (capability: Capability) => capabilities.has(capability),
+      canModify: (
+        property: { user_id?: string | null; agent_id?: string | null },
+        capability: 'properties.edit' | 'properties.delete' = 'properties.edit'
+      ) => canModifyProperty(profile, capability, [property.user_id, property.agent_id]),
+    };
+  }, [profile]);
+};
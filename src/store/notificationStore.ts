@@ -0,0 +1,79 @@
+import { create } from 'zustand';
+import { archiveNotification, fetchNotifications, markNotificationsRead, subscribeToNotifications } from '../api/notifications';
+import { NotificationRow } from '../types/database';
+
+interface NotificationState {
+  userId: string | null;
+  notifications: NotificationRow[];
+  loading: boolean;
+  error: string | null;
+  // Loads the user's inbox and keeps it live until `stop` is called (or
+  // `start` is called for someone else).
+  start: (userId: string) => Promise<void>;
+  stop: () => void;
+  markRead: (ids: string[]) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  archive: (id: string) => Promise<void>;
+}
+
+let unsubscribe: (() => void) | null = null;
+
+export const useNotificationStore = create<NotificationState>((set, get) => ({
+  userId: null,
+  notifications: [],
+  loading: false,
+  error: null,
+
+  start: async (userId) => {
+    if (get().userId === userId && unsubscribe) return;
+    get().stop();
+    set({ userId, loading: true, error: null });
+    unsubscribe = subscribeToNotifications(userId, (notification) => {
+      set((state) =>
+        state.notifications.some((n) => n.id === notification.id)
+          ? state
+          : { notifications: [notification, ...state.notifications] }
+      );
+    });
+    try {
+      set({ notifications: await fetchNotifications(userId) });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to load notifications' });
+    } finally {
+      set({ loading: false });
+    }
+  },
+
+  stop: () => {
+    unsubscribe?.();
+    unsubscribe = null;
+    set({ userId: null, notifications: [], error: null });
+  },
+
+  markRead: async (ids) => {
+    const unread = ids.filter((id) => get().notifications.some((n) => n.id === id && !n.read_at));
+    if (!unread.length) return;
+    const now = new Date().toISOString();
+    set((state) => ({
+      notifications: state.notifications.map((n) => (unread.includes(n.id) ? { ...n, read_at: now } : n)),
+    }));
+    await markNotificationsRead(unread);
+  },
+
+  markAllRead: async () => {
+    await get().markRead(get().notifications.filter((n) => !n.read_at).map((n) => n.id));
+  },
+
+  archive: async (id) => {
+    const previous = get().notifications;
+    set({ notifications: previous.filter((n) => n.id !== id) });
+    try {
+      await archiveNotification(id);
+    } catch (error) {
+      set({ notifications: previous });
+      throw error;
+    }
+  },
+}));
+
+export const useUnreadCount = () => useNotificationStore((state) => state.notifications.filter((n) => !n.read_at).length);
@@ -7,5 +7,5 @@ const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 if (!supabaseUrl || !supabaseServiceRoleKey || !supabaseKey) {
   throw new Error('Missing Supabase server credentials');
 }
-export const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+export const supabaseServer = createClient(supabaseUrl, supabaseServiceRoleKey);
 export const supabaseClient = createClient(supabaseUrl, supabaseKey);
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { PropertyRow } from './database';
+
 export interface Agent {
   id: string;
   email: string;
@@ -9,18 +11,7 @@ export interface Agent {
 
 }
 
-export interface Property {
-  id: string;
-  agent_id: string;
-  bedrooms: number;
-  bathrooms: number;
-  car_garage: number;
-  square_feet: number;
-  agent_name: string;
-  agency_name: string;
-  postcode: string;
-  created_at: string;
-}
+export type Property = PropertyRow;
 
 export interface ActivityReport {
   id: string;
@@ -0,0 +1,579 @@
+// Row shapes for the Supabase tables shared across pages. These mirror the
+// columns returned by the repository modules in src/api, so every page that
+// reads a table gets the same shape back.
+
+import { GeocodeStatus } from '../utils/geocoding';
+
+export interface SameStreetSale {
+  address: string;
+  sale_price: number;
+  property_type: string;
+  sale_date: string;
+}
+
+export interface PastRecord {
+  suburb: string;
+  postcode: string;
+  property_type: string;
+  price: number;
+  bedrooms?: number;
+  bathrooms?: number;
+  car_garage?: number;
+  sqm?: number;
+  landsize?: number;
+  listing_date?: string;
+  sale_date?: string;
+  status?: string;
+  notes?: string;
+}
+
+// A row of the past_records table: an earlier sale or listing of a property.
+export type PastRecordInsert = PastRecord & { property_id: string };
+
+export interface PropertyRow {
+  id: string;
+  agent_id: string | null;
+  user_id?: string | null;
+  street_number: string | null;
+  street_name: string | null;
+  suburb: string | null;
+  postcode: string | null;
+  city?: string | null;
+  agent_name: string | null;
+  agency_name: string | null;
+  property_type: string | null;
+  category: string | null;
+  price: number | null;
+  sold_price: number | null;
+  expected_price: number | null;
+  commission: number | null;
+  sale_type: string | null;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  car_garage: number | null;
+  sqm: number | null;
+  landsize: number | null;
+  listed_date: string | null;
+  sold_date: string | null;
+  flood_risk: string | null;
+  bushfire_risk: string | null;
+  contract_status: string | null;
+  features: string[] | null;
+  same_street_sales: SameStreetSale[] | null;
+  past_records: PastRecord[] | null;
+  latitude: number | null;
+  longitude: number | null;
+  geocode_status: GeocodeStatus | null;
+  geocoded_at: string | null;
+  created_at?: string;
+  updated_at?: string | null;
+}
+
+export type PropertyInsert = Omit<Partial<PropertyRow>, 'id'> & { id?: string };
+export type PropertyUpdate = Partial<Omit<PropertyRow, 'id' | 'created_at'>>;
+
+export interface ContactRow {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+  phone_number: string | null;
+  owner_1: string | null;
+  owner_2: string | null;
+  owner_1_email: string | null;
+  owner_2_email: string | null;
+  owner_1_mobile: string | null;
+  owner_2_mobile: string | null;
+  street_number: string | null;
+  street_name: string | null;
+  suburb: string | null;
+  status: string | null;
+  outcome: string | null;
+  last_sold_date: string | null;
+  price: number | null;
+  marketing_plan: string | null;
+  activity_log: string | null;
+  call_back_date: string | null;
+  assigned_agent_id?: string | null;
+  owner_1_person_id?: string | null;
+  owner_2_person_id?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  geocode_status?: GeocodeStatus | null;
+  geocoded_at?: string | null;
+  created_at?: string;
+}
+
+export type ContactInsert = Omit<Partial<ContactRow>, 'id'> & { id?: string };
+export type ContactUpdate = Partial<Omit<ContactRow, 'id' | 'created_at'>>;
+
+export type NurturingPriority = 'hot' | 'warm' | 'cold';
+
+export interface NurturingContactRow {
+  id: string;
+  agent_id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone_number: string | null;
+  mobile: string | null;
+  street_number: string | null;
+  street_name: string | null;
+  suburb: string | null;
+  postcode: string | null;
+  house_type: string | null;
+  requirements: string | null;
+  notes: string | null;
+  call_back_date: string | null;
+  needs_monthly_appraisals: boolean;
+  status: string | null;
+  priority: NurturingPriority | null;
+  person_id?: string | null;
+  created_at?: string;
+}
+
+export type NurturingContactInsert = Omit<Partial<NurturingContactRow>, 'id'> & { id?: string };
+export type NurturingContactUpdate = Partial<Omit<NurturingContactRow, 'id' | 'created_at'>>;
+
+export interface DoorKnockStreet {
+  id: string;
+  name: string;
+  why: string;
+  house_count: string;
+  target_knocks: string;
+}
+
+export interface PhoneCallStreet {
+  id: string;
+  name: string;
+  why: string;
+  target_calls: string;
+  target_connects: string;
+}
+
+export interface VaultToDoStreet {
+  id: string;
+  name: string;
+  why: string;
+  target_actions: string;
+}
+
+export interface MarketingPlanRow {
+  id: string;
+  agent: string;
+  suburb: string;
+  start_date: string;
+  end_date: string;
+  door_knock_streets: DoorKnockStreet[];
+  phone_call_streets: PhoneCallStreet[];
+  vault_to_do_streets?: VaultToDoStreet[];
+  desktop_appraisals: string;
+  face_to_face_appraisals: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type MarketingPlanInsert = Omit<MarketingPlanRow, 'id'> & { id?: string };
+export type MarketingPlanUpdate = Partial<Omit<MarketingPlanRow, 'id' | 'created_at'>>;
+
+export type AgentActivityType = 'phone_call' | 'door_knock' | 'client_meeting' | 'connection';
+
+export interface AgentActivityRow {
+  id: string;
+  agent_id: string;
+  activity_type: AgentActivityType;
+  activity_date: string;
+  street_name: string | null;
+  suburb: string | null;
+  notes: string | null;
+  status: string | null;
+  calls_made: number | null;
+  calls_answered: number | null;
+  knocks_made: number | null;
+  knocks_answered: number | null;
+  desktop_appraisals: number | null;
+  face_to_face_appraisals: number | null;
+  created_at?: string;
+}
+
+export type AgentActivityInsert = Omit<Partial<AgentActivityRow>, 'id'> &
+  Pick<AgentActivityRow, 'agent_id' | 'activity_type' | 'activity_date'>;
+
+export interface SuburbRow {
+  id: string;
+  name: string;
+  state: string;
+  postcode: string;
+  aliases: string[] | null;
+  latitude: number;
+  longitude: number;
+  created_at?: string;
+}
+
+export type SuburbInsert = Omit<SuburbRow, 'id' | 'created_at'>;
+
+export type AppraisalType = 'desktop' | 'in_person';
+export type AppraisalOutcome = 'pending' | 'listed' | 'lost' | 'follow_up';
+
+export interface AppraisalRow {
+  id: string;
+  agent_id: string;
+  contact_id: string | null;
+  property_id: string | null;
+  appraisal_type: AppraisalType;
+  appraisal_date: string;
+  street_number: string | null;
+  street_name: string | null;
+  suburb: string | null;
+  estimate_low: number | null;
+  estimate_high: number | null;
+  vendor_expectation: number | null;
+  outcome: AppraisalOutcome;
+  follow_up_date: string | null;
+  notes: string | null;
+  created_at?: string;
+  updated_at?: string | null;
+}
+
+export type AppraisalInsert = Omit<Partial<AppraisalRow>, 'id'> &
+  Pick<AppraisalRow, 'agent_id' | 'appraisal_type' | 'appraisal_date'>;
+export type AppraisalUpdate = Partial<Omit<AppraisalRow, 'id' | 'created_at'>>;
+
+export type StageCategory = 'listing' | 'written' | 'conditional' | 'unconditional' | 'settled' | 'fallen_over';
+
+export interface PipelineStageRow {
+  id: string;
+  name: string;
+  category: StageCategory;
+  position: number;
+  color: string | null;
+  is_active: boolean;
+  created_at?: string;
+}
+
+export type PipelineStageInsert = Omit<Partial<PipelineStageRow>, 'id'> & Pick<PipelineStageRow, 'name' | 'category'>;
+export type PipelineStageUpdate = Partial<Omit<PipelineStageRow, 'id' | 'created_at'>>;
+
+export interface DealRow {
+  id: string;
+  property_id: string;
+  agent_id: string | null;
+  stage_id: string;
+  stage_changed_at: string;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+export interface DealStageHistoryRow {
+  id: string;
+  deal_id: string;
+  from_stage_id: string | null;
+  to_stage_id: string;
+  changed_by: string | null;
+  changed_at: string;
+}
+
+export type PayoutStatus = 'pending' | 'approved' | 'paid' | 'on_hold';
+
+export interface LedgerConjunctional {
+  agency: string;
+  agent?: string | null;
+  share_percent: number;
+  amount: number;
+}
+
+export interface CommissionLedgerRow {
+  id: string;
+  property_id: string;
+  agent_id: string | null;
+  sale_price: number;
+  settlement_date: string | null;
+  commission_rate: number;
+  gross_commission: number;
+  gst: number;
+  conjunctional_splits: LedgerConjunctional[];
+  conjunctional_total: number;
+  franchise_fee_rate: number;
+  franchise_fee: number;
+  agent_split_rate: number;
+  agent_amount: number;
+  business_amount: number;
+  payout_status: PayoutStatus;
+  paid_at: string | null;
+  notes: string | null;
+  created_at?: string;
+  updated_at?: string | null;
+}
+
+export type CommissionLedgerInsert = Omit<Partial<CommissionLedgerRow>, 'id'> &
+  Pick<CommissionLedgerRow, 'property_id' | 'sale_price' | 'commission_rate'>;
+export type CommissionLedgerUpdate = Partial<Omit<CommissionLedgerRow, 'id' | 'property_id' | 'created_at'>>;
+
+export type AuditOperation = 'insert' | 'update' | 'delete';
+
+export interface FieldChange {
+  old: unknown;
+  new: unknown;
+}
+
+export interface PropertyAuditRow {
+  id: string;
+  property_id: string;
+  operation: AuditOperation;
+  changed_by: string | null;
+  changes: Record<string, FieldChange>;
+  created_at: string;
+}
+
+export type ShareResourceType = 'agent_profile' | 'property_report' | 'marketing_plan' | 'vendor_report';
+export type ShareAccessOutcome = 'viewed' | 'otp_required' | 'otp_failed' | 'locked' | 'expired' | 'revoked';
+
+export interface ShareLinkRow {
+  id: string;
+  resource_type: ShareResourceType;
+  resource_id: string;
+  label: string | null;
+  otp_hash: string | null;
+  created_by: string;
+  created_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+  view_count: number;
+  last_viewed_at: string | null;
+}
+
+export interface ShareLinkAccessRow {
+  id: string;
+  share_link_id: string;
+  outcome: ShareAccessOutcome;
+  ip_address: string | null;
+  user_agent: string | null;
+  accessed_at: string;
+}
+
+export type NotificationType = 'new_enquiry' | 'callback_due' | 'plan_deadline' | 'property_status' | 'job_applicant';
+
+export interface NotificationRow {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  link: string | null;
+  data: Record<string, unknown>;
+  email_status: 'pending' | 'sent' | 'failed' | null;
+  read_at: string | null;
+  archived_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationPreferenceRow {
+  user_id: string;
+  type: NotificationType;
+  email_enabled: boolean;
+  updated_at: string;
+}
+
+export type CallListSource = 'nurturing' | 'street';
+export type CallListStatus = 'pending' | 'done' | 'skipped';
+
+export interface CallListItemRow {
+  id: string;
+  agent_id: string;
+  list_date: string;
+  source: CallListSource;
+  contact_id: string;
+  contact_name: string;
+  phone: string | null;
+  address: string | null;
+  call_back_date: string;
+  notes: string | null;
+  status: CallListStatus;
+  completed_at: string | null;
+  created_at: string;
+}
+
+export type PhoneLabel = 'mobile' | 'home' | 'work' | 'other';
+export type EmailLabel = 'personal' | 'work' | 'other';
+export type AddressLabel = 'home' | 'postal' | 'investment' | 'other';
+export type PropertyRelationship = 'owner' | 'vendor' | 'buyer' | 'landlord' | 'tenant';
+export type InteractionKind = 'call' | 'door_knock' | 'email' | 'meeting' | 'appraisal' | 'note';
+
+export interface HouseholdRow {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface PersonRow {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  display_name: string;
+  household_id: string | null;
+  agent_id: string | null;
+  tags: string[];
+  notes: string | null;
+  merged_into: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PersonInsert = Omit<Partial<PersonRow>, 'id' | 'created_at' | 'updated_at'> & Pick<PersonRow, 'display_name'>;
+export type PersonUpdate = Partial<Omit<PersonRow, 'id' | 'created_at' | 'updated_at'>>;
+
+export interface PersonPhoneRow {
+  id: string;
+  person_id: string;
+  phone: string;
+  phone_key: string;
+  label: PhoneLabel;
+  is_primary: boolean;
+  created_at: string;
+}
+
+export interface PersonEmailRow {
+  id: string;
+  person_id: string;
+  email: string;
+  email_key: string;
+  label: EmailLabel;
+  is_primary: boolean;
+  created_at: string;
+}
+
+export interface PersonAddressRow {
+  id: string;
+  person_id: string;
+  street_number: string | null;
+  street_name: string;
+  suburb: string | null;
+  postcode: string | null;
+  label: AddressLabel;
+  created_at: string;
+}
+
+export interface PersonPropertyRow {
+  person_id: string;
+  property_id: string;
+  relationship: PropertyRelationship;
+  created_at: string;
+}
+
+export interface PersonInteractionRow {
+  id: string;
+  person_id: string;
+  agent_id: string | null;
+  kind: InteractionKind;
+  summary: string;
+  occurred_at: string;
+  source: string | null;
+  source_id: string | null;
+  created_at: string;
+}
+
+export type PersonInteractionInsert = Pick<PersonInteractionRow, 'person_id' | 'kind' | 'summary'> &
+  Partial<Pick<PersonInteractionRow, 'agent_id' | 'occurred_at'>>;
+
+export interface PersonDuplicateDismissalRow {
+  person_a: string;
+  person_b: string;
+  dismissed_by: string | null;
+  created_at: string;
+}
+
+export interface ImportMappingTemplateRow {
+  id: string;
+  source: string;
+  name: string;
+  // Target field key -> spreadsheet column header.
+  mapping: Record<string, string>;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ImportRunStatus = 'running' | 'committed' | 'failed' | 'rolled_back';
+
+export interface ImportRunRow {
+  id: string;
+  source: string;
+  table_name: string;
+  file_name: string | null;
+  row_count: number;
+  record_ids: string[];
+  status: ImportRunStatus;
+  error: string | null;
+  created_by: string | null;
+  created_at: string;
+  finished_at: string | null;
+  rolled_back_at: string | null;
+}
+
+export type InspectionType = 'open_home' | 'private';
+export type PriceFeedbackSource = 'buyer' | 'inspection' | 'enquiry' | 'agent';
+export type CampaignChannel = 'online' | 'print' | 'social' | 'email' | 'signboard' | 'open_home' | 'other';
+
+export interface ListingInspectionRow {
+  id: string;
+  property_id: string;
+  held_at: string;
+  inspection_type: InspectionType;
+  attendees: number;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type ListingInspectionInsert = Pick<ListingInspectionRow, 'property_id' | 'held_at' | 'inspection_type' | 'attendees'>;
+
+export interface ListingPriceFeedbackRow {
+  id: string;
+  property_id: string;
+  received_at: string;
+  source: PriceFeedbackSource;
+  price_low: number | null;
+  price_high: number | null;
+  comment: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type ListingPriceFeedbackInsert = Pick<
+  ListingPriceFeedbackRow,
+  'property_id' | 'received_at' | 'source' | 'price_low' | 'price_high' | 'comment'
+>;
+
+export interface ListingCampaignActivityRow {
+  id: string;
+  property_id: string;
+  activity_date: string;
+  channel: CampaignChannel;
+  description: string;
+  reach: number | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type ListingCampaignActivityInsert = Pick<
+  ListingCampaignActivityRow,
+  'property_id' | 'activity_date' | 'channel' | 'description' | 'reach'
+>;
+
+export interface VendorReportScheduleRow {
+  property_id: string;
+  recipient_name: string;
+  recipient_email: string;
+  // 0 = Sunday.
+  weekday: number;
+  enabled: boolean;
+  last_sent_at: string | null;
+  last_share_link_id: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type VendorReportScheduleUpsert = Pick<
+  VendorReportScheduleRow,
+  'property_id' | 'recipient_name' | 'recipient_email' | 'weekday' | 'enabled'
+>;
@@ -0,0 +1,36 @@
+import { FieldChange } from '../types/database';
+
+export type FieldChanges = Record<string, FieldChange>;
+
+// Field-level diff of two records, keyed by the fields of `before`. Empty
+// strings count as unset so clearing an input that was never filled is not a change.
+export const diffRecords = (before: object, after: object): FieldChanges => {
+  const changes: FieldChanges = {};
+  const next = after as Record<string, unknown>;
+  Object.entries(before).forEach(([key, value]) => {
+    const oldValue = value === '' ? undefined : value;
+    const newValue = next[key] === '' ? undefined : next[key];
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes[key] = { old: oldValue ?? undefined, new: newValue ?? undefined };
+    }
+  });
+  return changes;
+};
+
+// Bookkeeping columns that are never offered for revert.
+const NON_REVERTIBLE_FIELDS = new Set(['id', 'created_at', 'updated_at', 'user_id']);
+
+export const isRevertibleField = (field: string) => !NON_REVERTIBLE_FIELDS.has(field);
+
+export const fieldLabel = (field: string) => field.replace(/_/g, ' ').replace(/^\w/, (c) => c.toUpperCase());
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return 'N/A';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) {
+    if (!value.length) return 'None';
+    return value.every((item) => typeof item !== 'object') ? value.join(', ') : `${value.length} record${value.length === 1 ? '' : 's'}`;
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
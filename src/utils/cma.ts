@@ -0,0 +1,207 @@
+// Comparative market analysis. Picks the sold properties most like the subject,
+// adjusts each sale price for the differences (bedrooms, bathrooms, parking,
+// land, and market movement since the sale) and turns the adjusted prices into
+// an estimated value range. The comps and every adjustment are returned so the
+// agent can see exactly how the number was reached.
+
+import moment from 'moment';
+import { normalizeSuburb } from './gazetteer';
+import { annualisedTrend, salesFromProperties, toMonthlySeries } from './forecasting';
+import { GeocodeStatus } from './geocoding';
+
+export interface CmaProperty {
+  id: string;
+  street_number?: string | null;
+  street_name?: string | null;
+  suburb?: string | null;
+  property_type?: string | null;
+  bedrooms?: number | null;
+  bathrooms?: number | null;
+  car_garage?: number | null;
+  landsize?: number | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  geocode_status?: GeocodeStatus | null;
+  sold_price?: number | null;
+  sold_date?: string | null;
+}
+
+export interface CmaAdjustment {
+  label: string;
+  amount: number;
+}
+
+export interface CmaComparable {
+  property: CmaProperty;
+  salePrice: number;
+  distanceKm: number | null;
+  monthsAgo: number;
+  similarity: number; // 0..1, used as the comp's weight
+  adjustments: CmaAdjustment[];
+  adjustedPrice: number;
+}
+
+export interface CmaResult {
+  estimate: number;
+  low: number;
+  high: number;
+  confidence: 'high' | 'medium' | 'low';
+  marketTrendPercent: number;
+  comparables: CmaComparable[];
+  candidatesConsidered: number;
+}
+
+export interface CmaOptions {
+  maxComparables?: number;
+  maxDistanceKm?: number;
+  maxMonths?: number;
+  asOf?: string;
+  // Value of one feature as a share of the comp's price.
+  bedroomValue?: number;
+  bathroomValue?: number;
+  carSpaceValue?: number;
+  // Price elasticity to land size: 0.3 means 10% more land is worth 3% more.
+  landElasticity?: number;
+}
+
+export const CMA_DEFAULTS: Required<Omit<CmaOptions, 'asOf'>> = {
+  maxComparables: 6,
+  maxDistanceKm: 2,
+  maxMonths: 24,
+  bedroomValue: 0.05,
+  bathroomValue: 0.03,
+  carSpaceValue: 0.02,
+  landElasticity: 0.3,
+};
+
+const MAX_LAND_ADJUSTMENT = 0.2;
+// A handful of local sales can imply an absurd growth rate; clamp it.
+const MAX_MARKET_TREND_PERCENT = 15;
+
+export const distanceKm = (a: CmaProperty, b: CmaProperty): number | null => {
+  if (a.latitude == null || a.longitude == null || b.latitude == null || b.longitude == null) return null;
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+};
+
+const sameText = (a?: string | null, b?: string | null) => (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+const featureDiff = (subject?: number | null, comp?: number | null) =>
+  subject != null && comp != null ? subject - comp : 0;
+
+const weightedQuantile = (items: { value: number; weight: number }[], q: number): number => {
+  const sorted = [...items].sort((a, b) => a.value - b.value);
+  const total = sorted.reduce((sum, item) => sum + item.weight, 0);
+  let running = 0;
+  for (const item of sorted) {
+    running += item.weight;
+    if (running >= total * q) return item.value;
+  }
+  return sorted[sorted.length - 1]?.value ?? 0;
+};
+
+// Comps must be the same property type, sold within `maxMonths`, and either
+// within `maxDistanceKm` or (when coordinates are missing) in the same suburb.
+const isCandidate = (subject: CmaProperty, comp: CmaProperty, options: Required<Omit<CmaOptions, 'asOf'>>, asOf: moment.Moment) => {
+  if (comp.id === subject.id || !comp.sold_price || !comp.sold_date) return false;
+  if (!sameText(comp.property_type, subject.property_type)) return false;
+  const monthsAgo = asOf.diff(moment(comp.sold_date), 'months', true);
+  if (monthsAgo < 0 || monthsAgo > options.maxMonths) return false;
+  const distance = distanceKm(subject, comp);
+  return distance != null
+    ? distance <= options.maxDistanceKm
+    : normalizeSuburb(comp.suburb) === normalizeSuburb(subject.suburb);
+};
+
+const similarityOf = (subject: CmaProperty, comp: CmaProperty, distance: number | null, monthsAgo: number, maxDistance: number, maxMonths: number) => {
+  const landRatio =
+    subject.landsize && comp.landsize ? Math.abs(Math.log(subject.landsize / comp.landsize)) : 0.5;
+  const penalty =
+    Math.abs(featureDiff(subject.bedrooms, comp.bedrooms)) * 0.6 +
+    Math.abs(featureDiff(subject.bathrooms, comp.bathrooms)) * 0.4 +
+    Math.abs(featureDiff(subject.car_garage, comp.car_garage)) * 0.2 +
+    landRatio * 1.5 +
+    (distance != null ? distance / maxDistance : 0.5) +
+    monthsAgo / maxMonths;
+  return 1 / (1 + penalty);
+};
+
+export const runComparativeAnalysis = (
+  subject: CmaProperty,
+  soldProperties: CmaProperty[],
+  overrides: CmaOptions = {}
+): CmaResult | null => {
+  const options = { ...CMA_DEFAULTS, ...overrides };
+  const asOf = overrides.asOf ? moment(overrides.asOf) : moment();
+  const candidates = soldProperties.filter((comp) => isCandidate(subject, comp, options, asOf));
+  if (!candidates.length) return null;
+
+  // Market movement from all local sales of this type, so older comps are
+  // brought forward to today's prices.
+  const marketTrendPercent = Math.max(
+    -MAX_MARKET_TREND_PERCENT,
+    Math.min(MAX_MARKET_TREND_PERCENT, annualisedTrend(toMonthlySeries(salesFromProperties(candidates))))
+  );
+  const monthlyGrowth = Math.pow(1 + marketTrendPercent / 100, 1 / 12) - 1;
+
+  const comparables = candidates
+    .map((comp): CmaComparable => {
+      const salePrice = Number(comp.sold_price);
+      const distance = distanceKm(subject, comp);
+      const monthsAgo = asOf.diff(moment(comp.sold_date), 'months', true);
+      const adjustments: CmaAdjustment[] = [];
+      const add = (label: string, share: number) => {
+        if (share) adjustments.push({ label, amount: salePrice * share });
+      };
+
+      const beds = featureDiff(subject.bedrooms, comp.bedrooms);
+      const baths = featureDiff(subject.bathrooms, comp.bathrooms);
+      const cars = featureDiff(subject.car_garage, comp.car_garage);
+      add(`Bedrooms (${beds > 0 ? '+' : ''}${beds})`, beds * options.bedroomValue);
+      add(`Bathrooms (${baths > 0 ? '+' : ''}${baths})`, baths * options.bathroomValue);
+      add(`Car spaces (${cars > 0 ? '+' : ''}${cars})`, cars * options.carSpaceValue);
+      if (subject.landsize && comp.landsize && subject.landsize !== comp.landsize) {
+        const share = Math.max(
+          -MAX_LAND_ADJUSTMENT,
+          Math.min(MAX_LAND_ADJUSTMENT, Math.log(subject.landsize / comp.landsize) * options.landElasticity)
+        );
+        add(`Land (${Math.round(comp.landsize)} → ${Math.round(subject.landsize)} sqm)`, share);
+      }
+      add(`Market movement (${monthsAgo.toFixed(0)} months)`, Math.pow(1 + monthlyGrowth, monthsAgo) - 1);
+
+      return {
+        property: comp,
+        salePrice,
+        distanceKm: distance,
+        monthsAgo,
+        similarity: similarityOf(subject, comp, distance, monthsAgo, options.maxDistanceKm, options.maxMonths),
+        adjustments,
+        adjustedPrice: salePrice + adjustments.reduce((sum, adj) => sum + adj.amount, 0),
+      };
+    })
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, options.maxComparables);
+
+  const weighted = comparables.map((comp) => ({ value: comp.adjustedPrice, weight: comp.similarity }));
+  const estimate = weightedQuantile(weighted, 0.5);
+  const low = weightedQuantile(weighted, 0.2);
+  const high = weightedQuantile(weighted, 0.8);
+  const spread = estimate ? (high - low) / estimate : 1;
+  const confidence = comparables.length >= 5 && spread <= 0.1 ? 'high' : comparables.length >= 3 && spread <= 0.2 ? 'medium' : 'low';
+
+  return {
+    estimate,
+    low,
+    high,
+    confidence,
+    marketTrendPercent,
+    comparables,
+    candidatesConsidered: candidates.length,
+  };
+};
+
+export const cmaAddress = (property: CmaProperty) =>
+  `${property.street_number || ''} ${property.street_name || ''}, ${normalizeSuburb(property.suburb)}`.trim();
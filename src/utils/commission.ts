@@ -0,0 +1,102 @@
+// Commission maths. Rates are quoted GST-inclusive, as on Queensland appointment
+// forms, so gross commission = sale price × rate and GST is 1/11 of it. The
+// waterfall runs: GST out, conjunctional agencies take their share of the
+// ex-GST commission, the franchise fee comes off what is left, and the
+// remainder is split between agent and business.
+
+export const GST_RATE = 10;
+
+export interface ConjunctionalSplit {
+  agency: string;
+  agent?: string | null;
+  share_percent: number; // of the ex-GST commission
+}
+
+export interface CommissionTerms {
+  salePrice: number;
+  commissionRate: number; // %, GST-inclusive
+  franchiseFeeRate: number; // %
+  agentSplitRate: number; // % of net commission paid to the agent
+  conjunctionals: ConjunctionalSplit[];
+}
+
+export interface CommissionBreakdown {
+  grossCommission: number;
+  gst: number;
+  grossExGst: number;
+  conjunctionals: (ConjunctionalSplit & { amount: number })[];
+  conjunctionalTotal: number;
+  officeCommission: number;
+  franchiseFee: number;
+  netCommission: number;
+  agentAmount: number;
+  businessAmount: number;
+}
+
+const cents = (value: number) => Math.round(value * 100) / 100;
+
+export const computeCommissionBreakdown = (terms: CommissionTerms): CommissionBreakdown => {
+  const grossCommission = cents(Math.max(0, terms.salePrice) * (Math.max(0, terms.commissionRate) / 100));
+  const gst = cents(grossCommission * (GST_RATE / (100 + GST_RATE)));
+  const grossExGst = cents(grossCommission - gst);
+  const conjunctionals = terms.conjunctionals
+    .filter((split) => split.share_percent > 0)
+    .map((split) => ({ ...split, amount: cents(grossExGst * (split.share_percent / 100)) }));
+  const conjunctionalTotal = cents(conjunctionals.reduce((sum, split) => sum + split.amount, 0));
+  const officeCommission = cents(Math.max(0, grossExGst - conjunctionalTotal));
+  const franchiseFee = cents(officeCommission * (Math.max(0, terms.franchiseFeeRate) / 100));
+  const netCommission = cents(officeCommission - franchiseFee);
+  const agentAmount = cents(netCommission * (Math.min(100, Math.max(0, terms.agentSplitRate)) / 100));
+  return {
+    grossCommission,
+    gst,
+    grossExGst,
+    conjunctionals,
+    conjunctionalTotal,
+    officeCommission,
+    franchiseFee,
+    netCommission,
+    agentAmount,
+    businessAmount: cents(netCommission - agentAmount),
+  };
+};
+
+export interface CommissionSource {
+  commission?: number | null;
+  price?: number | null;
+  sold_price?: number | null;
+  sold_date?: string | null;
+}
+
+export const isSoldProperty = (property: CommissionSource & { contract_status?: string | null }) =>
+  Boolean(property.sold_date) || property.contract_status?.toLowerCase() === 'sold';
+
+// Sold properties earn on the sale price; listings are estimated on the asking price.
+export const estimateCommission = (
+  property: CommissionSource,
+  rateOverride?: number | null
+): { commissionRate: number; commissionEarned: number } => {
+  const commissionRate = Number(rateOverride || property.commission || 0);
+  const basePrice = Number(property.sold_price || property.price || 0);
+  const commissionEarned = commissionRate > 0 && basePrice > 0 ? basePrice * (commissionRate / 100) : 0;
+  return {
+    commissionRate: isNaN(commissionRate) ? 0 : commissionRate,
+    commissionEarned: isNaN(commissionEarned) ? 0 : commissionEarned,
+  };
+};
+
+export interface LedgerCommission {
+  commission_rate: number;
+  gross_commission: number;
+}
+
+// What the commission screens show for a property: the ledger figure once the
+// sale is booked, otherwise the estimate.
+export const propertyCommission = (
+  property: CommissionSource,
+  ledgerEntry?: LedgerCommission | null,
+  rateOverride?: number | null
+): { commissionRate: number; commissionEarned: number } =>
+  ledgerEntry
+    ? { commissionRate: Number(ledgerEntry.commission_rate), commissionEarned: Number(ledgerEntry.gross_commission) }
+    : estimateCommission(property, rateOverride);
@@ -0,0 +1,354 @@
+// Duplicate detection shared by the spreadsheet imports and the people
+// duplicates review. Records are compared on normalised phone, email and
+// address keys, with a fuzzy name score deciding whether a shared phone or
+// address is the same person or just someone else in the same household.
+
+import { emailKey, phoneKey } from './people';
+import { suburbKey } from './gazetteer';
+
+export interface DedupeAddress {
+  street_number?: string | null;
+  street_name?: string | null;
+  suburb?: string | null;
+}
+
+export interface DedupeRecord {
+  id: string;
+  names: (string | null | undefined)[];
+  phones: (string | null | undefined)[];
+  emails: (string | null | undefined)[];
+  addresses?: (DedupeAddress | null | undefined)[];
+}
+
+export type MatchReason = 'email' | 'phone' | 'address' | 'name';
+export type MatchConfidence = 'certain' | 'likely';
+
+export interface DuplicateMatch {
+  id: string;
+  otherId: string;
+  score: number;
+  confidence: MatchConfidence;
+  reasons: MatchReason[];
+}
+
+export const MATCH_REASON_LABELS: Record<MatchReason, string> = {
+  email: 'Same email',
+  phone: 'Same phone',
+  address: 'Same address',
+  name: 'Similar name',
+};
+
+export const CERTAIN_SCORE = 0.85;
+export const LIKELY_SCORE = 0.6;
+
+// Names this close count as the same person ("Jon Smith", "John Smith",
+// "J Smith", "Smith, John").
+const NAME_THRESHOLD = 0.8;
+
+// Titles, and the "Unknown" the nurturing import puts in for a missing name.
+const IGNORED_NAME_TOKENS = new Set(['mr', 'mrs', 'ms', 'miss', 'dr', 'prof', 'mx', 'and', 'unknown']);
+
+const STREET_TYPES: Record<string, string> = {
+  st: 'street',
+  rd: 'road',
+  ave: 'avenue',
+  av: 'avenue',
+  dr: 'drive',
+  ct: 'court',
+  crt: 'court',
+  pl: 'place',
+  cres: 'crescent',
+  cr: 'crescent',
+  tce: 'terrace',
+  pde: 'parade',
+  hwy: 'highway',
+  cl: 'close',
+  ln: 'lane',
+  bvd: 'boulevard',
+  blvd: 'boulevard',
+  cct: 'circuit',
+  gr: 'grove',
+  wy: 'way',
+  esp: 'esplanade',
+  sq: 'square',
+};
+
+// The nurturing list stores these when an import row has no email or phone.
+const PLACEHOLDER_EMAIL = /@(placeholder|example)\.(com|invalid)$/;
+const MIN_PHONE_DIGITS = 8;
+
+const nameTokens = (name: string | null | undefined): string[] =>
+  (name || '')
+    .toLowerCase()
+    .replace(/[^a-z\s&,'-]/g, ' ')
+    .replace(/['-]/g, '')
+    .split(/[\s,&]+/)
+    .filter((token) => token && !IGNORED_NAME_TOKENS.has(token));
+
+export const dedupeEmailKey = (email: string | null | undefined): string | null => {
+  const key = emailKey(email);
+  return key && key.includes('@') && !PLACEHOLDER_EMAIL.test(key) ? key : null;
+};
+
+export const dedupePhoneKey = (phone: string | null | undefined): string | null => {
+  const key = phoneKey(phone);
+  return key && key.length >= MIN_PHONE_DIGITS ? key : null;
+};
+
+// "12 Smith St, Kedron QLD 4031" and "12 smith street kedron" share a key. A
+// street with no number isn't an address: everyone on it would match.
+export const addressKey = (address: DedupeAddress | null | undefined): string | null => {
+  if (!address?.street_name?.trim() || !address.street_number?.trim()) return null;
+  const street = address.street_name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => STREET_TYPES[word] || word)
+    .join(' ');
+  const number = address.street_number.toLowerCase().replace(/\s+/g, '');
+  return [number, street, suburbKey(address.suburb)].join('|');
+};
+
+const jaro = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = start; j <= end; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (!matches) return 0;
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+  return (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+};
+
+export const jaroWinkler = (a: string, b: string): number => {
+  const score = jaro(a, b);
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return score + prefix * 0.1 * (1 - score);
+};
+
+const tokenSimilarity = (a: string, b: string): number => {
+  // An initial matches any name starting with it.
+  if ((a.length === 1 || b.length === 1) && a[0] === b[0]) return 0.9;
+  return jaroWinkler(a, b);
+};
+
+// 0..1, order-insensitive so "Smith, John" matches "John Smith". Every token
+// of the shorter name has to find a close partner in the longer one, which
+// keeps "John Smith" and "Mary Smith" apart.
+export const nameSimilarity = (a: string | null | undefined, b: string | null | undefined): number => {
+  const left = nameTokens(a);
+  const right = nameTokens(b);
+  if (!left.length || !right.length) return 0;
+  const [short, long] = left.length <= right.length ? [left, right] : [right, left];
+  return Math.min(...short.map((token) => Math.max(...long.map((other) => tokenSimilarity(token, other)))));
+};
+
+const bestNameSimilarity = (a: DedupeRecord, b: DedupeRecord): number | null => {
+  const left = a.names.filter((name) => nameTokens(name).length);
+  const right = b.names.filter((name) => nameTokens(name).length);
+  if (!left.length || !right.length) return null;
+  return Math.max(...left.flatMap((x) => right.map((y) => nameSimilarity(x, y))));
+};
+
+interface RecordKeys {
+  emails: Set<string>;
+  phones: Set<string>;
+  addresses: Set<string>;
+}
+
+const keysFor = (record: DedupeRecord): RecordKeys => ({
+  emails: new Set(record.emails.map(dedupeEmailKey).filter((key): key is string => !!key)),
+  phones: new Set(record.phones.map(dedupePhoneKey).filter((key): key is string => !!key)),
+  addresses: new Set((record.addresses || []).map(addressKey).filter((key): key is string => !!key)),
+});
+
+const shares = (a: Set<string>, b: Set<string>): boolean => [...a].some((key) => b.has(key));
+
+const scoreKeys = (a: DedupeRecord, aKeys: RecordKeys, b: DedupeRecord, bKeys: RecordKeys): Omit<DuplicateMatch, 'id' | 'otherId'> | null => {
+  const reasons: MatchReason[] = [];
+  let score = 0;
+  if (shares(aKeys.emails, bKeys.emails)) {
+    reasons.push('email');
+    score += 0.6;
+  }
+  if (shares(aKeys.phones, bKeys.phones)) {
+    reasons.push('phone');
+    score += 0.3;
+  }
+  // Weighted so a shared phone or address plus a name at the threshold just
+  // makes "likely": same address and "Jon Smith" / "John Smith" (0.92) scores
+  // 0.3 + 0.4 * 0.92 = 0.67.
+  if (shares(aKeys.addresses, bKeys.addresses)) {
+    reasons.push('address');
+    score += 0.3;
+  }
+  // A name alone is never enough: there are a lot of John Smiths.
+  if (!reasons.length) return null;
+
+  const similarity = bestNameSimilarity(a, b);
+  if (similarity === null) {
+    // Nothing to compare, so neither confirm nor rule out.
+    score += 0.2;
+  } else if (similarity >= NAME_THRESHOLD) {
+    reasons.push('name');
+    score += 0.4 * similarity;
+  } else if (!reasons.includes('email')) {
+    // Same phone or address but a different name is another member of the
+    // household, not a duplicate.
+    return null;
+  }
+
+  score = Math.min(1, Math.round(score * 100) / 100);
+  if (score < LIKELY_SCORE) return null;
+  return { score, confidence: score >= CERTAIN_SCORE ? 'certain' : 'likely', reasons };
+};
+
+export const scorePair = (a: DedupeRecord, b: DedupeRecord) => scoreKeys(a, keysFor(a), b, keysFor(b));
+
+// Only records that share at least one key are ever compared, which keeps a
+// few thousand rows against a few thousand existing ones cheap.
+const buildIndex = (records: DedupeRecord[], keys: RecordKeys[]): Map<string, number[]> => {
+  const index = new Map<string, number[]>();
+  const add = (key: string, position: number) => {
+    const list = index.get(key);
+    if (list) list.push(position);
+    else index.set(key, [position]);
+  };
+  records.forEach((_, position) => {
+    keys[position].emails.forEach((key) => add(`e:${key}`, position));
+    keys[position].phones.forEach((key) => add(`p:${key}`, position));
+    keys[position].addresses.forEach((key) => add(`a:${key}`, position));
+  });
+  return index;
+};
+
+const candidatesFor = (keys: RecordKeys, index: Map<string, number[]>): Set<number> => {
+  const found = new Set<number>();
+  const collect = (key: string) => index.get(key)?.forEach((position) => found.add(position));
+  keys.emails.forEach((key) => collect(`e:${key}`));
+  keys.phones.forEach((key) => collect(`p:${key}`));
+  keys.addresses.forEach((key) => collect(`a:${key}`));
+  return found;
+};
+
+const byScore = (a: DuplicateMatch, b: DuplicateMatch) => b.score - a.score;
+
+// For each incoming record, the existing records it probably duplicates,
+// best match first. Records with no match are left out of the map.
+export const findMatches = (incoming: DedupeRecord[], existing: DedupeRecord[]): Map<string, DuplicateMatch[]> => {
+  const existingKeys = existing.map(keysFor);
+  const index = buildIndex(existing, existingKeys);
+  const result = new Map<string, DuplicateMatch[]>();
+  incoming.forEach((record) => {
+    const keys = keysFor(record);
+    const matches: DuplicateMatch[] = [];
+    candidatesFor(keys, index).forEach((position) => {
+      const match = scoreKeys(record, keys, existing[position], existingKeys[position]);
+      if (match) matches.push({ id: record.id, otherId: existing[position].id, ...match });
+    });
+    if (matches.length) result.set(record.id, matches.sort(byScore));
+  });
+  return result;
+};
+
+// Every likely duplicate pair within one set of records, each pair once.
+export const findDuplicatePairs = (records: DedupeRecord[]): DuplicateMatch[] => {
+  const keys = records.map(keysFor);
+  const index = buildIndex(records, keys);
+  const pairs: DuplicateMatch[] = [];
+  records.forEach((record, position) => {
+    candidatesFor(keys[position], index).forEach((other) => {
+      if (other <= position) return;
+      const match = scoreKeys(record, keys[position], records[other], keys[other]);
+      if (match) pairs.push({ id: record.id, otherId: records[other].id, ...match });
+    });
+  });
+  return pairs.sort(byScore);
+};
+
+// Import preview: every spreadsheet import runs its rows through here before
+// anything is written, so a re-imported list doesn't double up.
+
+export type ImportFields = Record<string, string | null | undefined>;
+
+export interface ImportCandidate {
+  key: string;
+  record: DedupeRecord;
+  fields: ImportFields;
+}
+
+export type ImportAction = 'import' | 'skip' | 'update';
+
+export interface ImportPreviewRow {
+  key: string;
+  fields: ImportFields;
+  match: (Omit<DuplicateMatch, 'id' | 'otherId'> & { id: string; fields: ImportFields }) | null;
+  // The earlier row in the same file this one repeats.
+  repeatOf: string | null;
+  action: ImportAction;
+}
+
+export const buildImportPreview = (incoming: ImportCandidate[], existing: ImportCandidate[]): ImportPreviewRow[] => {
+  const existingById = new Map(existing.map((candidate) => [candidate.record.id, candidate]));
+  const matches = findMatches(
+    incoming.map((candidate) => candidate.record),
+    existing.map((candidate) => candidate.record)
+  );
+  const repeats = new Map<string, string>();
+  findDuplicatePairs(incoming.map((candidate) => candidate.record)).forEach((pair) => {
+    if (!repeats.has(pair.otherId)) repeats.set(pair.otherId, pair.id);
+  });
+  const keyById = new Map(incoming.map((candidate) => [candidate.record.id, candidate.key]));
+
+  return incoming.map((candidate) => {
+    const best = matches.get(candidate.record.id)?.[0];
+    const repeatId = repeats.get(candidate.record.id);
+    return {
+      key: candidate.key,
+      fields: candidate.fields,
+      match: best
+        ? {
+            id: best.otherId,
+            score: best.score,
+            confidence: best.confidence,
+            reasons: best.reasons,
+            fields: existingById.get(best.otherId)?.fields || {},
+          }
+        : null,
+      repeatOf: repeatId ? keyById.get(repeatId) || null : null,
+      action: best || repeatId ? 'skip' : 'import',
+    };
+  });
+};
+
+const BLANK_VALUES = ['', 'not provided', 'n/a', '-'];
+
+export const isBlankValue = (value: string | null | undefined): boolean =>
+  value == null || BLANK_VALUES.includes(String(value).trim().toLowerCase());
+
+// What "update existing" writes: incoming values only where the existing
+// record has nothing, so an import never overwrites what an agent entered.
+export const fillBlanks = (existing: ImportFields, incoming: ImportFields): ImportFields =>
+  Object.fromEntries(
+    Object.entries(incoming).filter(([field, value]) => !isBlankValue(value) && isBlankValue(existing[field]))
+  );
@@ -0,0 +1,151 @@
+import { OUR_AGENCY } from '../constants';
+
+// Templated transactional emails. Each template renders the same content as
+// plain text and as simple inline-styled HTML; the Express email service
+// (src/server-email.ts) stores both in `email_deliveries` and sends them.
+
+export interface EmailTemplateData {
+  agent_invite: { name: string; inviteLink: string; expiresInDays: number };
+  // Goes to whatever address the public form was given, so it carries nothing
+  // the sender typed.
+  enquiry_received: Record<string, never>;
+  enquiry_notification: { name: string; email: string; message: string };
+  callback_reminder: {
+    agentName: string;
+    contactName: string;
+    phone?: string | null;
+    dueAt: string;
+    notes?: string | null;
+  };
+  vendor_report: {
+    vendorName: string;
+    address: string;
+    periodLabel: string;
+    reportUrl: string;
+    highlights: string[];
+  };
+  notification: { name: string; title: string; body?: string | null; url?: string | null };
+}
+
+export type EmailTemplate = keyof EmailTemplateData;
+
+export const EMAIL_TEMPLATES: EmailTemplate[] = [
+  'agent_invite',
+  'enquiry_received',
+  'enquiry_notification',
+  'callback_reminder',
+  'vendor_report',
+  'notification',
+];
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// A template is a subject plus paragraphs; `link` becomes a button in HTML
+// and a bare URL in text.
+interface EmailContent {
+  subject: string;
+  greeting: string;
+  paragraphs: string[];
+  list?: string[];
+  link?: { label: string; url: string };
+  footnote?: string;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatDueAt = (value: string) =>
+  new Date(value).toLocaleString('en-AU', { weekday: 'long', day: 'numeric', month: 'long', hour: 'numeric', minute: '2-digit' });
+
+const CONTENT: { [T in EmailTemplate]: (data: EmailTemplateData[T]) => EmailContent } = {
+  agent_invite: ({ name, inviteLink, expiresInDays }) => ({
+    subject: `You have been invited to the ${OUR_AGENCY} agent portal`,
+    greeting: `Hello ${name},`,
+    paragraphs: ['An agent account has been created for you. Choose your password to sign in for the first time.'],
+    link: { label: 'Set your password', url: inviteLink },
+    footnote: `The link can be used once and expires in ${expiresInDays} days. If you were not expecting this email you can ignore it.`,
+  }),
+  enquiry_received: () => ({
+    subject: `We have received your enquiry`,
+    greeting: 'Hello,',
+    paragraphs: [`Thank you for contacting ${OUR_AGENCY}. One of our agents will be in touch shortly.`],
+    footnote: 'If you did not send an enquiry you can ignore this email.',
+  }),
+  enquiry_notification: ({ name, email, message }) => ({
+    subject: `New website enquiry from ${name}`,
+    greeting: 'Hello,',
+    paragraphs: [`${name} (${email}) sent an enquiry through the website:`, message],
+    footnote: 'Reply to this email to answer them directly.',
+  }),
+  callback_reminder: ({ agentName, contactName, phone, dueAt, notes }) => ({
+    subject: `Call-back due: ${contactName}`,
+    greeting: `Hello ${agentName},`,
+    paragraphs: [
+      `You have a call-back with ${contactName} due ${formatDueAt(dueAt)}.`,
+      ...(phone ? [`Phone: ${phone}`] : []),
+      ...(notes ? [`Notes: ${notes}`] : []),
+    ],
+  }),
+  vendor_report: ({ vendorName, address, periodLabel, reportUrl, highlights }) => ({
+    subject: `Campaign update for ${address}`,
+    greeting: `Hello ${vendorName},`,
+    paragraphs: [`Here is the progress report for ${address} covering ${periodLabel}.`],
+    list: highlights,
+    link: { label: 'View the full report', url: reportUrl },
+    footnote: 'Reply to this email or call your agent if you would like to talk through the results.',
+  }),
+  notification: ({ name, title, body, url }) => ({
+    subject: title,
+    greeting: `Hello ${name},`,
+    paragraphs: [title, ...(body ? [body] : [])],
+    link: url ? { label: 'Open in the portal', url } : undefined,
+    footnote: 'You can choose which notifications are emailed to you under Notification settings.',
+  }),
+};
+
+const renderText = (content: EmailContent) =>
+  [
+    content.greeting,
+    ...content.paragraphs,
+    ...(content.list?.length ? [content.list.map((item) => `- ${item}`).join('\n')] : []),
+    ...(content.link ? [`${content.link.label}: ${content.link.url}`] : []),
+    ...(content.footnote ? [content.footnote] : []),
+    OUR_AGENCY,
+  ].join('\n\n');
+
+const renderHtml = (content: EmailContent) => {
+  const paragraph = (text: string) =>
+    `<p style="margin:0 0 16px;line-height:1.5">${escapeHtml(text).replace(/\n/g, '<br>')}</p>`;
+  return `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#eff6ff;font-family:Arial,Helvetica,sans-serif;color:#1e3a8a">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border:1px solid #bfdbfe;border-radius:8px;padding:24px">
+      <h1 style="margin:0 0 24px;font-size:20px">${escapeHtml(OUR_AGENCY)}</h1>
+      ${paragraph(content.greeting)}
+      ${content.paragraphs.map(paragraph).join('\n      ')}
+      ${
+        content.list?.length
+          ? `<ul style="margin:0 0 16px;padding-left:20px;line-height:1.5">${content.list
+              .map((item) => `<li>${escapeHtml(item)}</li>`)
+              .join('')}</ul>`
+          : ''
+      }
+      ${
+        content.link
+          ? `<p style="margin:24px 0"><a href="${escapeHtml(content.link.url)}" style="background:#2563eb;color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none;display:inline-block">${escapeHtml(content.link.label)}</a></p>`
+          : ''
+      }
+      ${content.footnote ? `<p style="margin:0;font-size:12px;color:#6b7280">${escapeHtml(content.footnote)}</p>` : ''}
+    </div>
+  </body>
+</html>`;
+};
+
+export const renderEmail = <T extends EmailTemplate>(template: T, data: EmailTemplateData[T]): RenderedEmail => {
+  const content = CONTENT[template](data);
+  return { subject: content.subject, text: renderText(content), html: renderHtml(content) };
+};
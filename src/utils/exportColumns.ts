@@ -0,0 +1,86 @@
+// Column sets shared by more than one page's export. Page-specific tables
+// define their columns next to the page.
+
+import { ExportColumn } from './exporter';
+
+// What the property lists have in common, whichever property type they load.
+export interface ExportableProperty {
+  id: string;
+  street_number?: string | null;
+  street_name?: string | null;
+  suburb?: string | null;
+  postcode?: string | null;
+  property_type?: string | null;
+  category?: string | null;
+  price?: number | null;
+  sold_price?: number | null;
+  expected_price?: number | null;
+  sale_type?: string | null;
+  commission?: number | null;
+  agent_name?: string | null;
+  agency_name?: string | null;
+  bedrooms?: number | null;
+  bathrooms?: number | null;
+  car_garage?: number | null;
+  sqm?: number | null;
+  landsize?: number | null;
+  listed_date?: string | null;
+  sold_date?: string | null;
+  flood_risk?: string | null;
+  bushfire_risk?: string | null;
+  contract_status?: string | null;
+  features?: string[] | null;
+}
+
+export const propertyAddress = (property: ExportableProperty): string =>
+  [property.street_number, property.street_name].filter(Boolean).join(' ');
+
+export const PROPERTY_EXPORT_COLUMNS: ExportColumn<ExportableProperty>[] = [
+  { key: 'address', label: 'Address', value: propertyAddress },
+  { key: 'street_number', label: 'Street Number', value: (p) => p.street_number, hidden: true },
+  { key: 'street_name', label: 'Street Name', value: (p) => p.street_name, hidden: true },
+  { key: 'suburb', label: 'Suburb', value: (p) => p.suburb },
+  { key: 'postcode', label: 'Postcode', value: (p) => p.postcode },
+  { key: 'property_type', label: 'Type', value: (p) => p.property_type },
+  { key: 'category', label: 'Status', value: (p) => p.category },
+  { key: 'bedrooms', label: 'Bedrooms', value: (p) => p.bedrooms },
+  { key: 'bathrooms', label: 'Bathrooms', value: (p) => p.bathrooms },
+  { key: 'car_garage', label: 'Car Spaces', value: (p) => p.car_garage },
+  { key: 'sqm', label: 'Floor Size (m²)', value: (p) => p.sqm, hidden: true },
+  { key: 'landsize', label: 'Land Size (m²)', value: (p) => p.landsize, hidden: true },
+  { key: 'price', label: 'Price', value: (p) => p.price },
+  { key: 'sold_price', label: 'Sold Price', value: (p) => p.sold_price },
+  { key: 'expected_price', label: 'Expected Price', value: (p) => p.expected_price, hidden: true },
+  { key: 'sale_type', label: 'Sale Type', value: (p) => p.sale_type, hidden: true },
+  { key: 'listed_date', label: 'Listed Date', value: (p) => p.listed_date },
+  { key: 'sold_date', label: 'Sold Date', value: (p) => p.sold_date },
+  { key: 'agent_name', label: 'Agent', value: (p) => p.agent_name },
+  { key: 'agency_name', label: 'Agency', value: (p) => p.agency_name },
+  { key: 'commission', label: 'Commission (%)', value: (p) => p.commission, hidden: true },
+  { key: 'flood_risk', label: 'Flood Risk', value: (p) => p.flood_risk, hidden: true },
+  { key: 'bushfire_risk', label: 'Bushfire Risk', value: (p) => p.bushfire_risk, hidden: true },
+  { key: 'contract_status', label: 'Contract Status', value: (p) => p.contract_status, hidden: true },
+  { key: 'features', label: 'Features', value: (p) => p.features?.join(', '), hidden: true },
+  { key: 'id', label: 'Property ID', value: (p) => p.id, hidden: true },
+];
+
+// A suburb's row on the commission dashboards.
+export interface SuburbCommissionTotals {
+  suburb: string;
+  listedCommissionTotal: number;
+  listedPropertyCount: number;
+  soldCommissionTotal: number;
+  soldPropertyCount: number;
+  avgListedCommissionRate: number;
+  avgSoldCommissionRate: number;
+}
+
+export const SUBURB_COMMISSION_EXPORT_COLUMNS: ExportColumn<SuburbCommissionTotals>[] = [
+  { key: 'suburb', label: 'Suburb', value: (row) => row.suburb },
+  { key: 'avg_listed_rate', label: 'Avg Listed Rate (%)', value: (row) => Number(row.avgListedCommissionRate.toFixed(2)) },
+  { key: 'listed_commission', label: 'Listed Commission', value: (row) => row.listedCommissionTotal },
+  { key: 'listed_properties', label: 'Listed Properties', value: (row) => row.listedPropertyCount },
+  { key: 'avg_sold_rate', label: 'Avg Sold Rate (%)', value: (row) => Number(row.avgSoldCommissionRate.toFixed(2)) },
+  { key: 'sold_commission', label: 'Sold Commission', value: (row) => row.soldCommissionTotal },
+  { key: 'sold_properties', label: 'Sold Properties', value: (row) => row.soldPropertyCount },
+];
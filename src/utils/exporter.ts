@@ -0,0 +1,232 @@
+// The one export path for tables (src/components/ExportDialog.tsx). A page
+// describes its tables as rows plus columns, already narrowed to whatever
+// filters are active; this writes them out as CSV, Excel or JSON with the
+// columns and order the user picked.
+
+import moment from 'moment';
+import * as XLSX from 'xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export type ExportValue = string | number | boolean | null | undefined;
+
+export interface ExportColumn<T> {
+  key: string;
+  label: string;
+  // Raw values, not display strings: numbers stay numbers in Excel and JSON.
+  // Method syntax so a spec can hold tables of different row types.
+  value(row: T): ExportValue;
+  // Left out until the user ticks it.
+  hidden?: boolean;
+}
+
+export interface ExportTable<T = unknown> {
+  // Also the sheet name in Excel, so keep it short.
+  name: string;
+  rows: T[];
+  columns: ExportColumn<T>[];
+}
+
+export interface ExportFact {
+  label: string;
+  value: ExportValue;
+}
+
+export interface ExportSpec {
+  // Names the file and the saved column choice, so keep it stable.
+  id: string;
+  title: string;
+  tables: ExportTable[];
+  // Active filters, as shown on the summary sheet.
+  filters?: ExportFact[];
+  // Headline figures for the summary sheet.
+  summary?: ExportFact[];
+}
+
+// Keeps the row type while building a spec, so column callbacks are checked
+// against the rows they read.
+export const exportTable = <T>(table: ExportTable<T>): ExportTable<T> => table;
+
+// Table name -> chosen column keys, in order.
+export type ColumnChoice = Record<string, string[]>;
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel' },
+  { format: 'json', label: 'JSON' },
+];
+
+const CHOICE_STORAGE_PREFIX = 'exportColumns:';
+
+// Excel's sheet-name rules: 31 characters, none of : \ / ? * [ ].
+const SHEET_NAME_LIMIT = 31;
+
+const cell = (value: ExportValue): string | number | boolean | null =>
+  value === undefined || value === '' ? null : value;
+
+export const defaultColumnChoice = (spec: ExportSpec): ColumnChoice =>
+  Object.fromEntries(
+    spec.tables.map((table) => [table.name, table.columns.filter((column) => !column.hidden).map((column) => column.key)])
+  );
+
+// The last choice saved for this export, less any columns that have since
+// been removed. Tables without one fall back to the default columns.
+export const loadColumnChoice = (spec: ExportSpec): ColumnChoice => {
+  const defaults = defaultColumnChoice(spec);
+  let saved: ColumnChoice = {};
+  try {
+    saved = JSON.parse(localStorage.getItem(CHOICE_STORAGE_PREFIX + spec.id) || '{}');
+  } catch {
+    saved = {};
+  }
+  return Object.fromEntries(
+    spec.tables.map((table) => {
+      const known = new Set(table.columns.map((column) => column.key));
+      const keys = Array.isArray(saved[table.name]) ? saved[table.name].filter((key) => known.has(key)) : [];
+      return [table.name, keys.length ? keys : defaults[table.name]];
+    })
+  );
+};
+
+export const saveColumnChoice = (spec: ExportSpec, choice: ColumnChoice) => {
+  localStorage.setItem(CHOICE_STORAGE_PREFIX + spec.id, JSON.stringify(choice));
+};
+
+// Describes the filters a page has set, skipping the empty ones:
+// activeFilters({ Suburbs: ['Ashgrove'], Agent: '' }) -> [{ label: 'Suburbs', value: 'Ashgrove' }].
+export const activeFilters = (filters: Record<string, unknown>): ExportFact[] =>
+  Object.entries(filters).flatMap(([label, value]) => {
+    if (Array.isArray(value)) return value.length ? [{ label, value: value.join(', ') }] : [];
+    if (value === null || value === undefined || value === '' || value === false) return [];
+    return [{ label, value: value === true ? 'Yes' : String(value) }];
+  });
+
+const chosenColumns = <T>(table: ExportTable<T>, keys: string[]): ExportColumn<T>[] =>
+  keys.flatMap((key) => table.columns.filter((column) => column.key === key));
+
+const tableMatrix = <T>(table: ExportTable<T>, keys: string[]): (string | number | boolean | null)[][] => {
+  const columns = chosenColumns(table, keys);
+  return [columns.map((column) => column.label), ...table.rows.map((row) => columns.map((column) => cell(column.value(row))))];
+};
+
+// Spreadsheet apps run text starting with one of these as a formula, so a
+// contact named "=HYPERLINK(...)" is written as "'=HYPERLINK(...)". Numbers
+// are left alone so negative figures stay numeric.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: string | number | boolean | null): string => {
+  if (value === null) return '';
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T>(table: ExportTable<T>, keys: string[]): string =>
+  tableMatrix(table, keys)
+    .map((row) => row.map(csvCell).join(','))
+    .join('\r\n');
+
+const sheetName = (name: string, used: Set<string>): string => {
+  const base = name.replace(/[:\\/?*[\]]/g, ' ').trim().slice(0, SHEET_NAME_LIMIT) || 'Sheet';
+  let candidate = base;
+  for (let n = 2; used.has(candidate.toLowerCase()); n += 1) {
+    const suffix = ` (${n})`;
+    candidate = base.slice(0, SHEET_NAME_LIMIT - suffix.length) + suffix;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+// Column widths from the longest value, within reason.
+const columnWidths = (matrix: (string | number | boolean | null)[][]) =>
+  (matrix[0] || []).map((_, index) => ({
+    wch: Math.min(60, Math.max(8, ...matrix.map((row) => String(row[index] ?? '').length + 2))),
+  }));
+
+// A Summary sheet (title, date, filters, headline figures and row counts)
+// followed by one sheet per table.
+export const buildWorkbook = (spec: ExportSpec, choice: ColumnChoice): XLSX.WorkBook => {
+  const workbook = XLSX.utils.book_new();
+  const used = new Set<string>();
+
+  const summary: (string | number | boolean | null)[][] = [
+    [spec.title],
+    ['Generated', moment().format('D MMM YYYY, h:mm a')],
+    [],
+    ['Filters'],
+    ...(spec.filters?.length ? spec.filters.map((fact) => [fact.label, cell(fact.value)]) : [['None']]),
+  ];
+  if (spec.summary?.length) summary.push([], ['Summary'], ...spec.summary.map((fact) => [fact.label, cell(fact.value)]));
+  summary.push([], ['Rows'], ...spec.tables.map((table) => [table.name, table.rows.length]));
+  const summarySheet = XLSX.utils.aoa_to_sheet(summary);
+  summarySheet['!cols'] = [{ wch: 28 }, { wch: 50 }];
+  XLSX.utils.book_append_sheet(workbook, summarySheet, sheetName('Summary', used));
+
+  spec.tables.forEach((table) => {
+    const matrix = tableMatrix(table, choice[table.name] || []);
+    const sheet = XLSX.utils.aoa_to_sheet(matrix);
+    sheet['!cols'] = columnWidths(matrix);
+    XLSX.utils.book_append_sheet(workbook, sheet, sheetName(table.name, used));
+  });
+  return workbook;
+};
+
+// Rows are keyed by column key rather than label so scripts can rely on them.
+export const toJson = (spec: ExportSpec, choice: ColumnChoice): string =>
+  JSON.stringify(
+    {
+      title: spec.title,
+      generatedAt: new Date().toISOString(),
+      filters: Object.fromEntries((spec.filters || []).map((fact) => [fact.label, cell(fact.value)])),
+      summary: Object.fromEntries((spec.summary || []).map((fact) => [fact.label, cell(fact.value)])),
+      tables: Object.fromEntries(
+        spec.tables.map((table) => {
+          const columns = chosenColumns(table, choice[table.name] || []);
+          return [
+            table.name,
+            table.rows.map((row) => Object.fromEntries(columns.map((column) => [column.key, cell(column.value(row))]))),
+          ];
+        })
+      ),
+    },
+    null,
+    2
+  );
+
+export const exportFileName = (spec: ExportSpec, format: ExportFormat, tableName?: string): string =>
+  [spec.id, tableName, moment().format('YYYY-MM-DD')]
+    .filter(Boolean)
+    .join('_')
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '_') + `.${format}`;
+
+const downloadText = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// CSV holds a single table, so `tableName` picks which one; Excel and JSON
+// carry them all.
+export const downloadExport = (spec: ExportSpec, format: ExportFormat, choice: ColumnChoice, tableName?: string) => {
+  if (format === 'xlsx') {
+    XLSX.writeFile(buildWorkbook(spec, choice), exportFileName(spec, 'xlsx'));
+    return;
+  }
+  if (format === 'json') {
+    downloadText(toJson(spec, choice), exportFileName(spec, 'json'), 'application/json');
+    return;
+  }
+  const table = spec.tables.find((t) => t.name === tableName) || spec.tables[0];
+  if (!table) return;
+  // The byte-order mark makes Excel read the file as UTF-8.
+  downloadText(
+    '\uFEFF' + toCsv(table, choice[table.name] || []),
+    exportFileName(spec, 'csv', spec.tables.length > 1 ? table.name : undefined),
+    'text/csv;charset=utf-8'
+  );
+};
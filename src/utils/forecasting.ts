@@ -0,0 +1,340 @@
+// Time-series price forecasting shared by the dashboards and reports.
+//
+// Sales are bucketed into calendar months and each month is summarised by its
+// median (robust to the odd acreage sale in a suburb of townhouses). Models are
+// fitted on log prices against real elapsed months, not array position, so
+// gaps in the sales record do not distort the trend:
+//   - median:   flat forecast at the median of the last six months of sales
+//   - trend:    Theil-Sen slope through the monthly medians
+//   - seasonal: trend plus a calendar-month effect, once two years of data exist
+// Every model is scored by a rolling-origin backtest (fit on the past, predict
+// the next observed month) and the prediction interval is taken from those
+// out-of-sample errors. With too little history to backtest, the interval
+// falls back to the spread of recent individual sales, which is deliberately wide.
+
+import moment from 'moment';
+
+export interface DatedSale {
+  date: string;
+  price: number;
+  suburb?: string | null;
+  property_type?: string | null;
+}
+
+export interface MonthlyPoint {
+  month: string; // YYYY-MM
+  index: number; // months since year 0, so gaps are preserved
+  median: number;
+  count: number;
+}
+
+export type ForecastModelName = 'median' | 'trend' | 'seasonal';
+
+export interface BacktestScore {
+  folds: number;
+  mape: number; // mean absolute percentage error of one-step-ahead forecasts
+  accuracy: number; // 100 - MAPE, floored at 0
+}
+
+export interface Forecast {
+  model: ForecastModelName;
+  horizonMonths: number;
+  targetMonth: string;
+  predicted: number;
+  lower: number;
+  upper: number;
+  intervalLevel: number;
+  intervalSource: 'backtest' | 'sales-spread';
+  trendPercent: number; // annualised change in the monthly median
+  sampleSize: number;
+  history: MonthlyPoint[];
+  backtest: BacktestScore | null;
+  peakMonth: string | null; // calendar month with the strongest seasonal effect
+}
+
+export interface ForecastOptions {
+  horizonMonths?: number;
+  model?: ForecastModelName | 'auto';
+  intervalLevel?: number;
+  asOf?: string;
+}
+
+export const DEFAULT_HORIZON_MONTHS = 3;
+export const DEFAULT_INTERVAL_LEVEL = 0.8;
+const MIN_SALES = 3;
+const MIN_TRAINING_MONTHS = 6;
+const MIN_BACKTEST_FOLDS = 5;
+const MAX_BACKTEST_FOLDS = 12;
+const MEDIAN_WINDOW_MONTHS = 6;
+const SEASONAL_MIN_SPAN_MONTHS = 24;
+
+const median = (values: number[]): number => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const quantile = (values: number[], q: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const pos = (sorted.length - 1) * q;
+  const base = Math.floor(pos);
+  const next = sorted[base + 1] ?? sorted[base];
+  return sorted[base] + (pos - base) * (next - sorted[base]);
+};
+
+const monthIndex = (date: moment.Moment) => date.year() * 12 + date.month();
+const monthKey = (index: number) => moment({ year: Math.floor(index / 12), month: index % 12, day: 1 }).format('YYYY-MM');
+
+export const toMonthlySeries = (sales: DatedSale[]): MonthlyPoint[] => {
+  const byMonth = new Map<number, number[]>();
+  sales.forEach((sale) => {
+    const date = moment(sale.date);
+    if (!date.isValid() || !(sale.price > 0)) return;
+    const index = monthIndex(date);
+    byMonth.set(index, [...(byMonth.get(index) || []), sale.price]);
+  });
+  return [...byMonth.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([index, prices]) => ({ month: monthKey(index), index, median: median(prices), count: prices.length }));
+};
+
+interface FittedModel {
+  name: ForecastModelName;
+  predictLog: (index: number) => number;
+  peakMonth: string | null;
+}
+
+// Median of pairwise slopes; a handful of outlier months cannot tilt it.
+const theilSen = (points: MonthlyPoint[]) => {
+  const slopes: number[] = [];
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      slopes.push((Math.log(points[j].median) - Math.log(points[i].median)) / (points[j].index - points[i].index));
+    }
+  }
+  const slope = slopes.length ? median(slopes) : 0;
+  const intercept = median(points.map((p) => Math.log(p.median) - slope * p.index));
+  return { slope, intercept };
+};
+
+const fitModel = (name: ForecastModelName, points: MonthlyPoint[], sales: DatedSale[]): FittedModel | null => {
+  if (!points.length) return null;
+  const last = points[points.length - 1].index;
+
+  if (name === 'median') {
+    const recent = sales.filter((sale) => monthIndex(moment(sale.date)) > last - MEDIAN_WINDOW_MONTHS);
+    const level = Math.log(median(recent.map((sale) => sale.price)));
+    return { name, predictLog: () => level, peakMonth: null };
+  }
+
+  if (points.length < 3) return null;
+  const { slope, intercept } = theilSen(points);
+  if (name === 'trend') {
+    return { name, predictLog: (index) => intercept + slope * index, peakMonth: null };
+  }
+
+  if (last - points[0].index + 1 < SEASONAL_MIN_SPAN_MONTHS) return null;
+  const residuals = new Map<number, number[]>();
+  points.forEach((p) => {
+    const calendarMonth = p.index % 12;
+    residuals.set(calendarMonth, [...(residuals.get(calendarMonth) || []), Math.log(p.median) - (intercept + slope * p.index)]);
+  });
+  const effects = new Map([...residuals.entries()].map(([month, values]) => [month, median(values)]));
+  const centre = [...effects.values()].reduce((sum, v) => sum + v, 0) / effects.size;
+  effects.forEach((value, month) => effects.set(month, value - centre));
+  const [peak] = [...effects.entries()].sort((a, b) => b[1] - a[1])[0] || [];
+
+  return {
+    name,
+    predictLog: (index) => intercept + slope * index + (effects.get(index % 12) || 0),
+    peakMonth: peak === undefined ? null : moment({ month: peak }).format('MMMM'),
+  };
+};
+
+interface BacktestRun {
+  score: BacktestScore;
+  logErrors: number[];
+}
+
+// Rolling-origin evaluation over the most recent months: each fold refits on
+// everything before the held-out month.
+const backtest = (name: ForecastModelName, points: MonthlyPoint[], sales: DatedSale[]): BacktestRun | null => {
+  const logErrors: number[] = [];
+  const pctErrors: number[] = [];
+  const firstFold = Math.max(MIN_TRAINING_MONTHS, points.length - MAX_BACKTEST_FOLDS);
+  for (let k = firstFold; k < points.length; k++) {
+    const cutoff = points[k].index;
+    const model = fitModel(
+      name,
+      points.slice(0, k),
+      sales.filter((sale) => monthIndex(moment(sale.date)) < cutoff)
+    );
+    if (!model) continue;
+    const predicted = Math.exp(model.predictLog(cutoff));
+    const actual = points[k].median;
+    logErrors.push(Math.log(actual) - Math.log(predicted));
+    pctErrors.push(Math.abs(actual - predicted) / actual);
+  }
+  if (!logErrors.length) return null;
+  const mape = (pctErrors.reduce((sum, e) => sum + e, 0) / pctErrors.length) * 100;
+  return { score: { folds: logErrors.length, mape, accuracy: Math.max(0, 100 - mape) }, logErrors };
+};
+
+export const annualisedTrend = (points: MonthlyPoint[]): number => {
+  if (points.length < 3) return 0;
+  return (Math.exp(theilSen(points).slope * 12) - 1) * 100;
+};
+
+// Forecasts the median sale price `horizonMonths` after `asOf` (default today).
+// Returns null when there are fewer than three dated sales to work from.
+export const forecastPrices = (sales: DatedSale[], options: ForecastOptions = {}): Forecast | null => {
+  const { horizonMonths = DEFAULT_HORIZON_MONTHS, model = 'auto', intervalLevel = DEFAULT_INTERVAL_LEVEL } = options;
+  const valid = sales.filter((sale) => sale.price > 0 && moment(sale.date).isValid());
+  if (valid.length < MIN_SALES) return null;
+
+  const points = toMonthlySeries(valid);
+  const candidates: ForecastModelName[] = model === 'auto' ? ['median', 'trend', 'seasonal'] : [model];
+  const scored = candidates
+    .map((name) => ({ name, fitted: fitModel(name, points, valid), run: backtest(name, points, valid) }))
+    .filter((candidate) => candidate.fitted);
+  if (!scored.length) return null;
+
+  // Prefer the model with the lowest backtest error; untested models lose to tested ones.
+  const best = scored.reduce((a, b) => {
+    if (!a.run) return b.run ? b : a;
+    if (!b.run) return a;
+    return b.run.score.mape < a.run.score.mape ? b : a;
+  });
+  const fitted = best.fitted as FittedModel;
+
+  const target = monthIndex(options.asOf ? moment(options.asOf) : moment()) + horizonMonths;
+  const stepsAhead = Math.max(1, target - points[points.length - 1].index);
+  const centre = fitted.predictLog(target);
+  const predicted = Math.exp(centre);
+  const alpha = (1 - intervalLevel) / 2;
+
+  let lowerLog: number;
+  let upperLog: number;
+  let intervalSource: Forecast['intervalSource'];
+  if (best.run && best.run.score.folds >= MIN_BACKTEST_FOLDS) {
+    // One-step errors grow roughly with the square root of the horizon.
+    const scale = Math.sqrt(stepsAhead);
+    lowerLog = centre + quantile(best.run.logErrors, alpha) * scale;
+    upperLog = centre + quantile(best.run.logErrors, 1 - alpha) * scale;
+    intervalSource = 'backtest';
+  } else {
+    const recentIndex = points[points.length - 1].index - 12;
+    const recent = valid.filter((sale) => monthIndex(moment(sale.date)) > recentIndex);
+    const spread = (recent.length >= MIN_SALES ? recent : valid).map((sale) => Math.log(sale.price));
+    const mid = median(spread);
+    lowerLog = centre + quantile(spread, alpha) - mid;
+    upperLog = centre + quantile(spread, 1 - alpha) - mid;
+    intervalSource = 'sales-spread';
+  }
+
+  return {
+    model: fitted.name,
+    horizonMonths,
+    targetMonth: monthKey(target),
+    predicted,
+    lower: Math.min(predicted, Math.exp(lowerLog)),
+    upper: Math.max(predicted, Math.exp(upperLog)),
+    intervalLevel,
+    intervalSource,
+    trendPercent: annualisedTrend(points),
+    sampleSize: valid.length,
+    history: points,
+    backtest: best.run?.score || null,
+    peakMonth: fitted.peakMonth,
+  };
+};
+
+interface SaleSource {
+  sold_date?: string | null;
+  sale_date?: string | null;
+  sold_price?: number | null;
+  price?: number | null;
+  suburb?: string | null;
+  property_type?: string | null;
+}
+
+// Only rows with a sale date count as sales; undated listing prices would
+// otherwise be read as if they sold today.
+export const salesFromProperties = (rows: SaleSource[]): DatedSale[] =>
+  rows
+    .map((row) => ({
+      date: row.sold_date || row.sale_date || '',
+      price: Number(row.sold_price || row.price || 0),
+      suburb: row.suburb,
+      property_type: row.property_type,
+    }))
+    .filter((sale) => sale.date && sale.price > 0);
+
+export interface PredictionResult {
+  recommendation: 'BUY' | 'SELL';
+  confidence: number; // backtest accuracy, 0 when the model could not be tested
+  trend: number;
+  historicalData: { dates: string[]; prices: number[] };
+  marketCondition?: 'Rising' | 'Stable' | 'Declining';
+  sentimentScore?: number;
+  estimatedValue?: number;
+  nextPrice?: number;
+  priceRange?: { lower: number; upper: number };
+  bestTimeToSell?: string;
+  model?: ForecastModelName;
+  backtest?: BacktestScore | null;
+  sampleSize?: number;
+}
+
+export const EMPTY_PREDICTION: PredictionResult = {
+  recommendation: 'BUY',
+  confidence: 0,
+  trend: 0,
+  historicalData: { dates: [], prices: [] },
+  marketCondition: 'Stable',
+  sampleSize: 0,
+};
+
+export const toPredictionResult = (forecast: Forecast | null): PredictionResult => {
+  if (!forecast) return EMPTY_PREDICTION;
+  const trend = forecast.trendPercent;
+  const last = forecast.history[forecast.history.length - 1];
+  return {
+    recommendation: trend >= 0 ? 'BUY' : 'SELL',
+    confidence: forecast.backtest?.accuracy ?? 0,
+    trend,
+    historicalData: {
+      dates: forecast.history.map((p) => moment(p.month, 'YYYY-MM').format('MMM YYYY')),
+      prices: forecast.history.map((p) => p.median),
+    },
+    marketCondition: trend > 3 ? 'Rising' : trend < -3 ? 'Declining' : 'Stable',
+    estimatedValue: last?.median,
+    nextPrice: forecast.predicted,
+    priceRange: { lower: forecast.lower, upper: forecast.upper },
+    bestTimeToSell: forecast.peakMonth || undefined,
+    model: forecast.model,
+    backtest: forecast.backtest,
+    sampleSize: forecast.sampleSize,
+  };
+};
+
+const matches = (value: string | null | undefined, wanted: string | undefined, normalize: (v: string) => string) =>
+  !wanted || normalize(value || '') === normalize(wanted);
+
+// Forecast for one suburb / property type segment. `normalize` folds spelling
+// variants together, e.g. normalizeSuburb from the gazetteer.
+export const forecastSegment = (
+  sales: DatedSale[],
+  segment: { suburb?: string; propertyType?: string },
+  normalize: (value: string) => string = (value) => value.trim().toLowerCase(),
+  options: ForecastOptions = {}
+): Forecast | null =>
+  forecastPrices(
+    sales.filter(
+      (sale) =>
+        matches(sale.suburb, segment.suburb, normalize) &&
+        matches(sale.property_type, segment.propertyType, (v) => v.trim().toLowerCase())
+    ),
+    options
+  );
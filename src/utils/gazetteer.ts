@@ -0,0 +1,102 @@
+// Canonical suburb gazetteer. Every report, import and map resolves suburb
+// text through here so a sale always lands in the same bucket, whatever
+// spelling it was entered with ("chapell hill", "Chapel Hill QLD (4069)", ...).
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface SuburbEntry {
+  id?: string;
+  name: string;
+  state: string;
+  postcode: string;
+  aliases: string[];
+  centroid: LatLng;
+}
+
+export const DEFAULT_CENTROID: LatLng = { lat: -27.467, lng: 153.028 }; // Brisbane CBD
+
+export const SEED_SUBURBS: SuburbEntry[] = [
+  { name: 'Moggill', state: 'QLD', postcode: '4070', aliases: [], centroid: { lat: -27.57, lng: 152.874 } },
+  { name: 'Bellbowrie', state: 'QLD', postcode: '4070', aliases: [], centroid: { lat: -27.559, lng: 152.886 } },
+  { name: 'Pullenvale', state: 'QLD', postcode: '4069', aliases: [], centroid: { lat: -27.522, lng: 152.885 } },
+  { name: 'Brookfield', state: 'QLD', postcode: '4069', aliases: [], centroid: { lat: -27.493, lng: 152.897 } },
+  { name: 'Anstead', state: 'QLD', postcode: '4070', aliases: [], centroid: { lat: -27.538, lng: 152.861 } },
+  { name: 'Chapel Hill', state: 'QLD', postcode: '4069', aliases: ['chapell hill', 'chappel hill'], centroid: { lat: -27.502, lng: 152.971 } },
+  { name: 'Kenmore', state: 'QLD', postcode: '4069', aliases: [], centroid: { lat: -27.507, lng: 152.939 } },
+  { name: 'Kenmore Hills', state: 'QLD', postcode: '4069', aliases: [], centroid: { lat: -27.502, lng: 152.929 } },
+  { name: 'Fig Tree Pocket', state: 'QLD', postcode: '4069', aliases: ['figtree pocket'], centroid: { lat: -27.529, lng: 152.961 } },
+  { name: 'Pinjarra Hills', state: 'QLD', postcode: '4069', aliases: ['pinjara hills'], centroid: { lat: -27.537, lng: 152.906 } },
+  { name: 'Springfield', state: 'QLD', postcode: '4300', aliases: [], centroid: { lat: -27.653, lng: 152.918 } },
+  { name: 'Spring Mountain', state: 'QLD', postcode: '4300', aliases: [], centroid: { lat: -27.69, lng: 152.895 } },
+  { name: 'Greenbank', state: 'QLD', postcode: '4124', aliases: [], centroid: { lat: -27.705, lng: 153.01 } },
+];
+
+const STATES = ['qld', 'nsw', 'vic', 'sa', 'wa', 'tas', 'nt', 'act'];
+
+// Reduces free text to a lookup key: "Chapel Hill QLD (4069)" -> "chapel hill".
+export const suburbKey = (value: string | null | undefined): string =>
+  (value || '')
+    .toLowerCase()
+    .replace(/[(),]/g, ' ')
+    .replace(/\b\d{4}\b/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !STATES.includes(word))
+    .join(' ');
+
+let entries: SuburbEntry[] = [];
+let index = new Map<string, SuburbEntry>();
+
+const rebuildIndex = () => {
+  index = new Map();
+  entries.forEach((entry) => {
+    [entry.name, ...entry.aliases].forEach((name) => index.set(suburbKey(name), entry));
+  });
+};
+
+// Replaces or adds entries (matched on name) and rebuilds the alias index.
+export const registerSuburbs = (additions: SuburbEntry[]) => {
+  const byName = new Map(entries.map((entry) => [suburbKey(entry.name), entry]));
+  additions.forEach((entry) => byName.set(suburbKey(entry.name), entry));
+  entries = [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+  rebuildIndex();
+};
+
+// Drops previously registered custom suburbs, e.g. after one is deleted in admin.
+export const resetSuburbs = (custom: SuburbEntry[] = []) => {
+  entries = [];
+  registerSuburbs([...SEED_SUBURBS, ...custom]);
+};
+
+resetSuburbs();
+
+export const listSuburbs = (): SuburbEntry[] => [...entries];
+
+export const resolveSuburb = (value: string | null | undefined): SuburbEntry | null =>
+  index.get(suburbKey(value)) || null;
+
+export const isKnownSuburb = (value: string | null | undefined): boolean => resolveSuburb(value) !== null;
+
+export const suburbLabel = (entry: SuburbEntry): string =>
+  `${entry.name} ${entry.state} ${entry.postcode}`.toUpperCase();
+
+export const listSuburbLabels = (): string[] => entries.map(suburbLabel);
+
+// Title-case form used in pickers and stored on marketing plans, e.g. "Pullenvale QLD 4069".
+export const suburbDisplayName = (entry: SuburbEntry): string => `${entry.name} ${entry.state} ${entry.postcode}`;
+
+// Canonical label for grouping and display, e.g. "PULLENVALE QLD 4069".
+// Unknown suburbs fall back to their trimmed upper-case text.
+export const normalizeSuburb = (value: string | null | undefined): string => {
+  if (!value || !value.trim()) return 'UNKNOWN';
+  const entry = resolveSuburb(value);
+  return entry ? suburbLabel(entry) : value.trim().replace(/\s+/g, ' ').toUpperCase();
+};
+
+export const getSuburbPostcode = (value: string | null | undefined): string | null =>
+  resolveSuburb(value)?.postcode || null;
+
+export const getSuburbCentroid = (value: string | null | undefined): LatLng | null =>
+  resolveSuburb(value)?.centroid || null;
@@ -0,0 +1,208 @@
+// Address geocoding. A provider turns street_number + street_name + suburb into
+// a real coordinate; src/api/geocoding.ts caches the answer on the row so each
+// address is only looked up once. Nothing here invents a position: an address
+// the provider cannot place comes back unresolved and is flagged as such.
+
+import { LatLng, resolveSuburb } from './gazetteer';
+
+export interface GeocodeQuery {
+  street_number?: string | null;
+  street_name?: string | null;
+  suburb?: string | null;
+}
+
+export interface GeocodeMatch extends LatLng {
+  source: string;
+}
+
+export interface GeocodingProvider {
+  name: string;
+  geocode: (query: GeocodeQuery) => Promise<GeocodeMatch | null>;
+}
+
+export type GeocodeStatus = 'resolved' | 'unresolved';
+
+// Row columns written back by the cache.
+export interface GeocodeFields {
+  latitude: number | null;
+  longitude: number | null;
+  geocode_status: GeocodeStatus | null;
+  geocoded_at: string | null;
+}
+
+const STREET_TYPES: Record<string, string> = {
+  street: 'st',
+  road: 'rd',
+  avenue: 'ave',
+  drive: 'dr',
+  court: 'ct',
+  place: 'pl',
+  crescent: 'cres',
+  close: 'cl',
+  terrace: 'tce',
+  parade: 'pde',
+  lane: 'ln',
+  circuit: 'cct',
+  boulevard: 'bvd',
+  highway: 'hwy',
+};
+
+const normalizeStreetName = (value: string | null | undefined): string =>
+  (value || '')
+    .toLowerCase()
+    .replace(/[.,]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => STREET_TYPES[word] || word)
+    .join(' ');
+
+// Stable lookup key, e.g. "12|moggill rd|PULLENVALE QLD 4069". Suburb spelling
+// is folded through the gazetteer so aliases hit the same address point.
+export const addressKey = (query: GeocodeQuery): string => {
+  const suburb = resolveSuburb(query.suburb);
+  const suburbPart = suburb ? `${suburb.name} ${suburb.state} ${suburb.postcode}`.toUpperCase() : (query.suburb || '').trim().toUpperCase();
+  return [(query.street_number || '').trim().toLowerCase(), normalizeStreetName(query.street_name), suburbPart].join('|');
+};
+
+export const isGeocodable = (query: GeocodeQuery): boolean =>
+  Boolean(query.street_number?.trim() && query.street_name?.trim() && query.suburb?.trim());
+
+export const formatGeocodeAddress = (query: GeocodeQuery): string => {
+  const suburb = resolveSuburb(query.suburb);
+  const locality = suburb ? `${suburb.name} ${suburb.state} ${suburb.postcode}` : (query.suburb || '').trim();
+  return `${(query.street_number || '').trim()} ${(query.street_name || '').trim()}, ${locality}, Australia`;
+};
+
+export interface AddressPoint extends GeocodeQuery {
+  latitude: number;
+  longitude: number;
+}
+
+// Parses an address-point extract (e.g. a G-NAF export) with a header row
+// containing street_number, street_name, suburb, latitude and longitude.
+export const parseAddressPointCsv = (text: string): AddressPoint[] => {
+  const [header, ...lines] = text.split(/\r?\n/).filter((line) => line.trim());
+  if (!header) return [];
+  const columns = header.split(',').map((column) => column.trim().toLowerCase());
+  const col = (name: string) => columns.indexOf(name);
+  const required = ['street_number', 'street_name', 'suburb', 'latitude', 'longitude'];
+  const missing = required.filter((name) => col(name) === -1);
+  if (missing.length) throw new Error(`Address point file is missing columns: ${missing.join(', ')}`);
+
+  return lines
+    .map((line) => line.split(',').map((cell) => cell.trim().replace(/^"|"$/g, '')))
+    .map((cells) => ({
+      street_number: cells[col('street_number')],
+      street_name: cells[col('street_name')],
+      suburb: cells[col('suburb')],
+      latitude: parseFloat(cells[col('latitude')]),
+      longitude: parseFloat(cells[col('longitude')]),
+    }))
+    .filter((point) => !isNaN(point.latitude) && !isNaN(point.longitude));
+};
+
+// Offline provider backed by a fixed list of address points. Used for tests
+// and demos, and as a fallback where outbound geocoding is not allowed.
+export const createAddressPointProvider = (points: AddressPoint[]): GeocodingProvider => {
+  const byKey = new Map(points.map((point) => [addressKey(point), point]));
+  return {
+    name: 'address-points',
+    geocode: async (query) => {
+      const point = byKey.get(addressKey(query));
+      return point ? { lat: point.latitude, lng: point.longitude, source: 'address-points' } : null;
+    },
+  };
+};
+
+// Loads the address-point file lazily the first time an address is looked up.
+export const createAddressPointFileProvider = (url: string): GeocodingProvider => {
+  let provider: Promise<GeocodingProvider> | null = null;
+  const load = async () => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Failed to load address points from ${url}: ${response.status}`);
+    return createAddressPointProvider(parseAddressPointCsv(await response.text()));
+  };
+  return {
+    name: 'address-points',
+    geocode: async (query) => {
+      provider = provider || load();
+      return (await provider).geocode(query);
+    },
+  };
+};
+
+// OpenStreetMap Nominatim. The public instance allows one request per second,
+// so lookups are serialised; point `endpoint` at a self-hosted instance for bulk work.
+export const createNominatimProvider = (
+  endpoint = 'https://nominatim.openstreetmap.org',
+  minIntervalMs = 1000
+): GeocodingProvider => {
+  let queue: Promise<unknown> = Promise.resolve();
+  let lastRequest = 0;
+
+  const request = async (query: GeocodeQuery): Promise<GeocodeMatch | null> => {
+    const wait = lastRequest + minIntervalMs - Date.now();
+    if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+    lastRequest = Date.now();
+
+    const params = new URLSearchParams({
+      q: formatGeocodeAddress(query),
+      format: 'jsonv2',
+      countrycodes: 'au',
+      limit: '1',
+      addressdetails: '1',
+    });
+    const response = await fetch(`${endpoint}/search?${params}`, { headers: { Accept: 'application/json' } });
+    if (!response.ok) throw new Error(`Geocoding request failed: ${response.status}`);
+    const results: Array<{ lat: string; lon: string; address?: { house_number?: string } }> = await response.json();
+
+    // A street-level hit without a house number would just be another centroid.
+    const match = results.find((result) => result.address?.house_number);
+    return match ? { lat: parseFloat(match.lat), lng: parseFloat(match.lon), source: 'nominatim' } : null;
+  };
+
+  return {
+    name: 'nominatim',
+    geocode: (query) => {
+      const next = queue.then(() => request(query));
+      queue = next.catch(() => undefined);
+      return next;
+    },
+  };
+};
+
+const defaultProvider = (): GeocodingProvider => {
+  const addressPointsUrl = import.meta.env.VITE_ADDRESS_POINTS_URL;
+  if (import.meta.env.VITE_GEOCODER === 'address-points' && addressPointsUrl) {
+    return createAddressPointFileProvider(addressPointsUrl);
+  }
+  return createNominatimProvider(import.meta.env.VITE_NOMINATIM_URL || undefined);
+};
+
+let activeProvider: GeocodingProvider | null = null;
+
+export const getGeocodingProvider = (): GeocodingProvider => {
+  activeProvider = activeProvider || defaultProvider();
+  return activeProvider;
+};
+
+export const setGeocodingProvider = (provider: GeocodingProvider | null) => {
+  activeProvider = provider;
+};
+
+// Resolves one address to cacheable row fields. Incomplete addresses and
+// provider misses are both flagged unresolved rather than guessed.
+export const geocodeAddress = async (query: GeocodeQuery): Promise<GeocodeFields> => {
+  const geocoded_at = new Date().toISOString();
+  if (!isGeocodable(query)) {
+    return { latitude: null, longitude: null, geocode_status: 'unresolved', geocoded_at };
+  }
+  const match = await getGeocodingProvider().geocode(query);
+  return match
+    ? { latitude: match.lat, longitude: match.lng, geocode_status: 'resolved', geocoded_at }
+    : { latitude: null, longitude: null, geocode_status: 'unresolved', geocoded_at };
+};
+
+// Coordinates for a cached row, or null if the row was never resolved.
+export const rowCoordinates = (row: Partial<GeocodeFields> | null | undefined): LatLng | null =>
+  row && row.latitude != null && row.longitude != null ? { lat: Number(row.latitude), lng: Number(row.longitude) } : null;
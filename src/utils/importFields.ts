@@ -0,0 +1,124 @@
+// Target fields for each spreadsheet import. The `source` names double as the
+// key mapping templates are saved under, so keep them stable.
+
+import { ImportField, ImportValues } from './importer';
+
+export const IMPORT_SOURCES = {
+  suburbContacts: 'suburb_contacts',
+  streetContacts: 'street_contacts',
+  nurturingList: 'nurturing_list',
+  pastRecords: 'past_records',
+  propertySales: 'property_sales',
+} as const;
+
+export const NURTURING_STATUSES = [
+  'Inprogress',
+  'Not interested',
+  'Undecided',
+  'Will list',
+  'Closed',
+  'will buy',
+  'will sell',
+  'wants to buy',
+];
+
+export const NURTURING_PRIORITIES = ['hot', 'warm', 'cold'];
+
+export const PAST_RECORD_STATUSES = ['Sold', 'Listed', 'Withdrawn'];
+
+// The streets a suburb's contacts can be filed under are the ones on the page.
+export const suburbContactFields = (streets: string[]): ImportField[] => [
+  { key: 'first_name', label: 'First Name', required: true },
+  { key: 'last_name', label: 'Last Name', required: true },
+  { key: 'email', label: 'Email', type: 'email', required: true },
+  { key: 'phone_number', label: 'Phone Number', type: 'phone', required: true, aliases: ['phone', 'mobile'] },
+  { key: 'street_name', label: 'Street Name', type: 'enum', options: streets, required: true, aliases: ['street'] },
+];
+
+export const STREET_CONTACT_FIELDS: ImportField[] = [
+  { key: 'owner_1', label: 'Owner 1', aliases: ['owner1', 'owner'] },
+  { key: 'owner_2', label: 'Owner 2', aliases: ['owner2'] },
+  { key: 'owner_1_email', label: 'Owner 1 email', type: 'email', aliases: ['owner1_email'] },
+  { key: 'owner_2_email', label: 'Owner 2 email', type: 'email', aliases: ['owner2_email'] },
+  { key: 'phone_number', label: 'Phone', type: 'phone', aliases: ['phone_number', 'landline'] },
+  { key: 'owner_1_mobile', label: 'Owner 1 mobile', type: 'phone', aliases: ['own1_mob', 'owner1_mobile'] },
+  { key: 'owner_2_mobile', label: 'Owner 2 mobile', type: 'phone', aliases: ['own2_mob', 'owner2_mobile'] },
+  { key: 'street_number', label: 'Street number', aliases: ['street_no', 'number'] },
+  { key: 'street_name', label: 'Street name', aliases: ['street'] },
+  { key: 'suburb', label: 'Suburb' },
+  { key: 'outcome', label: 'Outcome' },
+  { key: 'status', label: 'Status' },
+  { key: 'last_sold_date', label: 'Last sold date', type: 'date' },
+  { key: 'price', label: 'Price', type: 'currency' },
+  { key: 'marketing_plan', label: 'Marketing plan' },
+  { key: 'activity_log', label: 'Activity log' },
+  { key: 'call_back_date', label: 'Call back date', type: 'date' },
+];
+
+export const requireAnOwner = (values: ImportValues): string[] =>
+  values.owner_1 || values.owner_2 ? [] : ['Owner 1 or Owner 2 is required'];
+
+export const NURTURING_FIELDS: ImportField[] = [
+  { key: 'first_name', label: 'First name' },
+  { key: 'last_name', label: 'Last name', aliases: ['surname'] },
+  { key: 'email', label: 'Email', type: 'email' },
+  { key: 'phone_number', label: 'Phone', type: 'phone', aliases: ['phone_number', 'landline'] },
+  { key: 'mobile', label: 'Mobile', type: 'phone' },
+  { key: 'street_number', label: 'Street number', aliases: ['street_no'] },
+  { key: 'street_name', label: 'Street name', aliases: ['street'] },
+  { key: 'suburb', label: 'Suburb' },
+  { key: 'postcode', label: 'Postcode' },
+  { key: 'house_type', label: 'House type' },
+  { key: 'requirements', label: 'Requirements' },
+  { key: 'notes', label: 'Notes' },
+  { key: 'call_back_date', label: 'Call back date', type: 'date' },
+  { key: 'needs_monthly_appraisals', label: 'Needs monthly appraisals', type: 'boolean' },
+  { key: 'status', label: 'Status', type: 'enum', options: NURTURING_STATUSES },
+  { key: 'priority', label: 'Priority', type: 'enum', options: NURTURING_PRIORITIES },
+];
+
+export const PAST_RECORD_FIELDS: ImportField[] = [
+  { key: 'street_number', label: 'Street number' },
+  { key: 'street_name', label: 'Street name' },
+  { key: 'suburb', label: 'Suburb', type: 'suburb', required: true },
+  { key: 'property_type', label: 'Property type', required: true },
+  { key: 'price', label: 'Price', type: 'currency', required: true },
+  { key: 'bedrooms', label: 'Bedrooms', type: 'number' },
+  { key: 'bathrooms', label: 'Bathrooms', type: 'number' },
+  { key: 'car_garage', label: 'Car spaces', type: 'number', aliases: ['car_garage', 'garage', 'cars'] },
+  { key: 'sqm', label: 'Floor area (sqm)', type: 'number', aliases: ['sqm'] },
+  { key: 'landsize', label: 'Land size', type: 'number', aliases: ['landsize'] },
+  { key: 'listing_date', label: 'Listing date', type: 'date' },
+  { key: 'sale_date', label: 'Sale date', type: 'date' },
+  { key: 'status', label: 'Status', type: 'enum', options: PAST_RECORD_STATUSES },
+  { key: 'notes', label: 'Notes' },
+];
+
+export const checkPastRecordDates = (values: ImportValues): string[] =>
+  values.sale_date && values.listing_date && String(values.sale_date) < String(values.listing_date)
+    ? ['Sale date cannot be before listing date']
+    : [];
+
+// Column names follow the RP Data / CoreLogic sales exports; other providers
+// get mapped by hand once and saved as a template.
+export const PROPERTY_SALE_FIELDS: ImportField[] = [
+  { key: 'street_address', label: 'Street address', aliases: ['address', 'property_address'] },
+  { key: 'street_number', label: 'Street number', aliases: ['street_no', 'house_number'] },
+  { key: 'street_name', label: 'Street name', aliases: ['street'] },
+  { key: 'suburb', label: 'Suburb', type: 'suburb', required: true, aliases: ['locality', 'suburb_town'] },
+  { key: 'postcode', label: 'Postcode', aliases: ['post_code'] },
+  { key: 'property_type', label: 'Property type', aliases: ['type', 'land_use'] },
+  { key: 'bedrooms', label: 'Bedrooms', type: 'number', aliases: ['bed', 'beds'] },
+  { key: 'bathrooms', label: 'Bathrooms', type: 'number', aliases: ['bath', 'baths'] },
+  { key: 'car_garage', label: 'Car spaces', type: 'number', aliases: ['car', 'cars', 'parking'] },
+  { key: 'landsize', label: 'Land size (m²)', type: 'number', aliases: ['land_size', 'land_size_m', 'land_area'] },
+  { key: 'sqm', label: 'Floor size (m²)', type: 'number', aliases: ['floor_size', 'floor_size_m', 'floor_area', 'building_area'] },
+  { key: 'sold_price', label: 'Sale price', type: 'currency', aliases: ['sold_price', 'last_sale_price'] },
+  { key: 'sold_date', label: 'Sale date', type: 'date', aliases: ['sold_date', 'contract_date', 'last_sale_date'] },
+  { key: 'sale_type', label: 'Sale type', aliases: ['sale_method', 'method_of_sale'] },
+  { key: 'price', label: 'List price', type: 'currency', aliases: ['first_listed_price', 'listing_price', 'last_listed_price'] },
+  { key: 'listed_date', label: 'Listed date', type: 'date', aliases: ['first_listed_date', 'listing_date'] },
+  { key: 'agency_name', label: 'Agency', aliases: ['agency_name', 'selling_agency'] },
+  { key: 'agent_name', label: 'Agent', aliases: ['agent_name', 'selling_agent'] },
+  { key: 'features', label: 'Features', aliases: ['property_features'] },
+];
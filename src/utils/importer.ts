@@ -0,0 +1,234 @@
+// Reading, column mapping and validation for the shared spreadsheet import
+// wizard (src/components/ImportWizard.tsx). Each import describes its target
+// fields; everything here turns a CSV or Excel sheet into rows of typed
+// values with per-row errors, before any page-specific handling.
+
+import * as XLSX from 'xlsx';
+import { jaroWinkler } from './dedupe';
+import { phoneKey } from './people';
+import { resolveSuburb } from './gazetteer';
+
+export type ImportFieldType = 'text' | 'number' | 'currency' | 'date' | 'boolean' | 'email' | 'phone' | 'enum' | 'suburb';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  type?: ImportFieldType;
+  required?: boolean;
+  // Allowed values for 'enum'; matched case-insensitively.
+  options?: string[];
+  // Other headers suppliers use for this column ("Own1 Mob", "Street No").
+  aliases?: string[];
+}
+
+export type ImportValue = string | number | boolean | null;
+export type ImportValues = Record<string, ImportValue>;
+
+export interface ImportRow {
+  // As the spreadsheet shows it: the header is row 1.
+  rowNumber: number;
+  values: ImportValues;
+  errors: string[];
+}
+
+export interface ParsedSheet {
+  fileName: string;
+  headers: string[];
+  rows: Record<string, unknown>[];
+}
+
+// A problem found after mapping, e.g. by a dry run against the database.
+export interface ImportRowError {
+  rowNumber: number;
+  error: string;
+}
+
+// Target field key -> spreadsheet header.
+export type ColumnMapping = Record<string, string>;
+
+export const IMPORT_FILE_TYPES = '.csv,.xlsx,.xls';
+
+// What the street lists put in a cell they have nothing for.
+const BLANK_MARKERS = ['', 'na', 'n/a', 'unsure', 'dnc', 'dnc/unsure', '-', 'not provided'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const headerKey = (header: string): string =>
+  header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+
+// CSV is read as plain text so "03/04/2024" stays a string for
+// parseSpreadsheetDate to read day-first, rather than the library guessing
+// a US date.
+export const readSpreadsheet = async (file: File): Promise<ParsedSheet> => {
+  const isCsv = file.name.toLowerCase().endsWith('.csv');
+  const workbook = isCsv
+    ? XLSX.read(await file.text(), { type: 'string', raw: true })
+    : XLSX.read(new Uint8Array(await file.arrayBuffer()), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return { fileName: file.name, headers: [], rows: [] };
+  const [headerRow = []] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, blankrows: false });
+  const headers = headerRow.map((cell) => String(cell ?? '').trim()).filter(Boolean);
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: null, raw: true, blankrows: true });
+  return { fileName: file.name, headers, rows };
+};
+
+// Exact header matches first (key, label or alias), then close spellings.
+// Each header is used for at most one field.
+export const autoMapColumns = (headers: string[], fields: ImportField[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  const names = (field: ImportField) => [field.key, field.label, ...(field.aliases || [])].map(headerKey);
+
+  fields.forEach((field) => {
+    const wanted = names(field);
+    const header = headers.find((h) => !used.has(h) && wanted.includes(headerKey(h)));
+    if (header) {
+      mapping[field.key] = header;
+      used.add(header);
+    }
+  });
+
+  fields.forEach((field) => {
+    if (mapping[field.key]) return;
+    let bestHeader: string | null = null;
+    let bestScore = 0.92;
+    for (const header of headers) {
+      if (used.has(header)) continue;
+      const score = Math.max(...names(field).map((name) => jaroWinkler(name, headerKey(header))));
+      if (score >= bestScore) {
+        bestHeader = header;
+        bestScore = score;
+      }
+    }
+    if (bestHeader) {
+      mapping[field.key] = bestHeader;
+      used.add(bestHeader);
+    }
+  });
+  return mapping;
+};
+
+// Keeps only the parts of a saved mapping whose headers this file has.
+export const applyTemplate = (template: ColumnMapping, headers: string[]): ColumnMapping =>
+  Object.fromEntries(Object.entries(template).filter(([, header]) => headers.includes(header)));
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const isoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? `${year}-${pad(month)}-${pad(day)}`
+    : null;
+};
+
+// Excel serial numbers, ISO dates (with or without a time) and Australian
+// day-first dates ("03/04/2024", "3-4-24") to YYYY-MM-DD.
+export const parseSpreadsheetDate = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : isoDate(value.getFullYear(), value.getMonth() + 1, value.getDate());
+  if (typeof value === 'number') {
+    const parts = XLSX.SSF.parse_date_code(value);
+    return parts ? isoDate(parts.y, parts.m, parts.d) : null;
+  }
+  const text = String(value).trim();
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T].*)?$/);
+  if (match) return isoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    return isoDate(year, Number(match[2]), Number(match[1]));
+  }
+  if (/^\d+(\.\d+)?$/.test(text)) return parseSpreadsheetDate(Number(text));
+  return null;
+};
+
+export const parseSpreadsheetNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  const text = String(value ?? '').replace(/[$,\s]/g, '');
+  if (!text) return null;
+  const number = Number(text);
+  return isNaN(number) ? null : number;
+};
+
+export const parseSpreadsheetBoolean = (value: unknown): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  const text = String(value ?? '').trim().toLowerCase();
+  if (['yes', 'y', 'true', '1'].includes(text)) return true;
+  if (['no', 'n', 'false', '0', ''].includes(text)) return false;
+  return null;
+};
+
+const isBlankCell = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'string' && BLANK_MARKERS.includes(value.trim().toLowerCase()));
+
+// One cell to a typed value, or an error message.
+export const parseImportValue = (field: ImportField, raw: unknown): { value: ImportValue; error?: string } => {
+  if (isBlankCell(raw)) {
+    return field.required ? { value: null, error: `${field.label} is required` } : { value: field.type === 'boolean' ? false : null };
+  }
+  const text = String(raw).trim();
+  switch (field.type) {
+    case 'number':
+    case 'currency': {
+      const value = parseSpreadsheetNumber(raw);
+      return value === null ? { value: null, error: `${field.label} "${text}" is not a number` } : { value };
+    }
+    case 'date': {
+      const value = parseSpreadsheetDate(raw);
+      return value === null ? { value: null, error: `${field.label} "${text}" is not a date` } : { value };
+    }
+    case 'boolean': {
+      const value = parseSpreadsheetBoolean(raw);
+      return value === null ? { value: null, error: `${field.label} "${text}" should be yes or no` } : { value };
+    }
+    case 'email':
+      return EMAIL_PATTERN.test(text) ? { value: text } : { value: null, error: `${field.label} "${text}" is not an email address` };
+    case 'phone': {
+      const key = phoneKey(text);
+      return key && key.length >= 8 ? { value: text } : { value: null, error: `${field.label} "${text}" is not a phone number` };
+    }
+    case 'enum': {
+      const option = field.options?.find((o) => o.toLowerCase() === text.toLowerCase());
+      return option ? { value: option } : { value: null, error: `${field.label} must be one of: ${field.options?.join(', ')}` };
+    }
+    case 'suburb': {
+      const entry = resolveSuburb(text);
+      return entry ? { value: entry.name } : { value: null, error: `Unknown suburb "${text}"` };
+    }
+    default:
+      return { value: text };
+  }
+};
+
+// Applies the mapping and field types to every non-empty row. `validateRow`
+// adds checks that span fields ("Owner 1 or Owner 2 is required").
+export const mapRows = (
+  sheet: ParsedSheet,
+  mapping: ColumnMapping,
+  fields: ImportField[],
+  validateRow?: (values: ImportValues) => string[]
+): ImportRow[] =>
+  sheet.rows.flatMap((row, index) => {
+    if (Object.values(row).every(isBlankCell)) return [];
+    const values: ImportValues = {};
+    const errors: string[] = [];
+    fields.forEach((field) => {
+      const header = mapping[field.key];
+      const { value, error } = parseImportValue(field, header ? row[header] : null);
+      values[field.key] = value;
+      if (error) errors.push(error);
+    });
+    if (validateRow) errors.push(...validateRow(values));
+    return [{ rowNumber: index + 2, values, errors }];
+  });
+
+// Text value of a mapped field; '' when blank.
+export const importText = (values: ImportValues, key: string): string => {
+  const value = values[key];
+  return value === null || value === undefined ? '' : String(value);
+};
@@ -0,0 +1,31 @@
+import { NotificationPreferenceRow, NotificationType } from '../types/database';
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'new_enquiry',
+  'callback_due',
+  'plan_deadline',
+  'property_status',
+  'job_applicant',
+];
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  new_enquiry: 'New enquiry',
+  callback_due: 'Call-back due',
+  plan_deadline: 'Marketing plan deadline',
+  property_status: 'Property status change',
+  job_applicant: 'New job applicant',
+};
+
+export const NOTIFICATION_TYPE_DESCRIPTIONS: Record<NotificationType, string> = {
+  new_enquiry: 'A buyer enquires about one of your listings.',
+  callback_due: 'Your morning call list of due and overdue call-backs.',
+  plan_deadline: 'One of your marketing plans ends within three days.',
+  property_status: 'Someone else changes the contract status of your listing or marks it sold.',
+  job_applicant: 'Someone applies to join the agency (user managers only).',
+};
+
+// Emailed unless the user turns them off. Mirrors create_notification().
+export const DEFAULT_EMAIL_TYPES: NotificationType[] = ['new_enquiry', 'callback_due'];
+
+export const emailEnabledFor = (preferences: NotificationPreferenceRow[], type: NotificationType): boolean =>
+  preferences.find((preference) => preference.type === type)?.email_enabled ?? DEFAULT_EMAIL_TYPES.includes(type);
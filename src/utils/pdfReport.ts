@@ -0,0 +1,488 @@
+// The one way the app draws a PDF. A template turns a page's data into
+// sections (cover, KPI cards, tables, charts, text); the engine lays them out
+// on A4 with the agency's branding, the same header and footer on every page
+// and "Page x of y" numbering, then saves, previews or returns the file.
+// Shared templates live in ./reportTemplates; page-specific ones next to the
+// page.
+
+import { jsPDF } from 'jspdf';
+import autoTable, { CellInput, RowInput, Styles } from 'jspdf-autotable';
+import { Chart, ChartConfiguration, registerables } from 'chart.js';
+import moment from 'moment';
+import { OUR_AGENCY } from '../constants';
+import agencyLogo from '../assets/Harcourts Success_LogoSet_Stacked_BLUE_080724.png';
+
+Chart.register(...registerables);
+
+export type Rgb = [number, number, number];
+
+export interface ReportBranding {
+  agencyName: string;
+  logoUrl?: string;
+  // Cover band, headings and table heads.
+  primary: Rgb;
+  // Rules and highlights.
+  accent: Rgb;
+  // Striped rows and card backgrounds.
+  muted: Rgb;
+  // Printed small in every page footer.
+  disclaimer: string;
+}
+
+export const REPORT_BRANDING: ReportBranding = {
+  agencyName: OUR_AGENCY,
+  logoUrl: agencyLogo,
+  primary: [30, 58, 138],
+  accent: [37, 99, 235],
+  muted: [239, 246, 255],
+  disclaimer:
+    `Prepared by ${OUR_AGENCY} from sources believed to be reliable. No warranty is given as to its accuracy, ` +
+    'and it is not a valuation. Interested parties should make their own enquiries.',
+};
+
+export type ReportTone = 'good' | 'bad';
+
+export interface ReportFact {
+  label: string;
+  value: string | number;
+}
+
+export interface ReportKpi extends ReportFact {
+  tone?: ReportTone;
+  note?: string;
+}
+
+export interface ReportTableSection {
+  type: 'table';
+  title?: string;
+  // A single header row, or autoTable rows for spanned headers.
+  head: string[] | RowInput[];
+  rows: CellInput[][];
+  // Totals, printed once after the last row.
+  foot?: CellInput[];
+  columnStyles?: { [column: number]: Partial<Styles> };
+  fontSize?: number;
+  // Colours a body cell's text, e.g. profit green and loss red.
+  tone?: (row: number, column: number) => ReportTone | undefined;
+}
+
+export interface ReportFactsSection {
+  type: 'facts';
+  title?: string;
+  facts: ReportFact[];
+}
+
+export type ReportSection =
+  // A page of its own: logo, title, subtitle and a few headline facts.
+  | { type: 'cover'; title: string; subtitle?: string; facts?: ReportFact[] }
+  | { type: 'heading'; text: string }
+  | { type: 'text'; text: string }
+  | { type: 'kpis'; items: ReportKpi[] }
+  | ReportFactsSection
+  | ReportTableSection
+  // Drawn by Chart.js off screen and placed as an image, `height` in mm.
+  | { type: 'chart'; title?: string; chart: ChartConfiguration; height?: number }
+  // Tables or fact lists side by side, each taking an equal share of the width.
+  | { type: 'columns'; sections: (ReportTableSection | ReportFactsSection)[] }
+  | { type: 'pageBreak' };
+
+export interface ReportTemplate<D> {
+  // Names the file, so keep it stable.
+  id: string;
+  title: (data: D) => string;
+  // Printed under the title in every page header.
+  subtitle?: (data: D) => string | undefined;
+  orientation?: (data: D) => 'portrait' | 'landscape';
+  fileName?: (data: D) => string;
+  sections: (data: D) => ReportSection[];
+}
+
+// Keeps the data type while a template is written, so sections are checked
+// against the data they read.
+export const defineReport = <D>(template: ReportTemplate<D>): ReportTemplate<D> => template;
+
+const MARGIN = 15;
+const HEADER_HEIGHT = 24;
+const FOOTER_HEIGHT = 20;
+const SECTION_GAP = 8;
+const KPI_HEIGHT = 22;
+const DEFAULT_CHART_HEIGHT = 80;
+// Charts are drawn at 4px per mm and twice the pixel density, which keeps
+// Chart.js' default 12px labels near 9pt on paper.
+const CHART_PX_PER_MM = 4;
+const TONE_COLOURS: Record<ReportTone, Rgb> = { good: [22, 163, 74], bad: [220, 38, 38] };
+const BODY_TEXT: Rgb = [31, 41, 55];
+const SOFT_TEXT: Rgb = [107, 114, 128];
+
+interface LoadedLogo {
+  dataUrl: string;
+  ratio: number;
+}
+
+const logoCache = new Map<string, Promise<LoadedLogo | null>>();
+
+// A report still renders when the logo cannot be fetched, just without it.
+const loadLogo = (url: string): Promise<LoadedLogo | null> => {
+  if (!logoCache.has(url)) {
+    logoCache.set(
+      url,
+      new Promise((resolve) => {
+        const img = new Image();
+        img.crossOrigin = 'anonymous';
+        img.onload = () => {
+          const canvas = document.createElement('canvas');
+          canvas.width = img.naturalWidth;
+          canvas.height = img.naturalHeight;
+          canvas.getContext('2d')?.drawImage(img, 0, 0);
+          resolve({ dataUrl: canvas.toDataURL('image/png'), ratio: img.naturalWidth / img.naturalHeight || 1 });
+        };
+        img.onerror = () => {
+          console.warn('Report logo could not be loaded:', url);
+          logoCache.delete(url);
+          resolve(null);
+        };
+        img.src = url;
+      })
+    );
+  }
+  return logoCache.get(url)!;
+};
+
+const renderChart = (config: ChartConfiguration, widthMm: number, heightMm: number): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(widthMm * CHART_PX_PER_MM);
+  canvas.height = Math.round(heightMm * CHART_PX_PER_MM);
+  const chart = new Chart(canvas, {
+    ...config,
+    options: { ...config.options, responsive: false, animation: false, devicePixelRatio: 2 },
+  } as ChartConfiguration);
+  try {
+    return chart.toBase64Image('image/png', 1);
+  } finally {
+    chart.destroy();
+  }
+};
+
+const lastTableEnd = (doc: jsPDF): number =>
+  (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+// Lays sections out top to bottom, starting a new page whenever the next
+// block would run into the footer.
+class ReportWriter {
+  readonly pageWidth: number;
+  readonly pageHeight: number;
+  readonly contentWidth: number;
+  readonly top = MARGIN + HEADER_HEIGHT;
+  readonly bottom: number;
+  y: number;
+  coverPages = new Set<number>();
+
+  constructor(
+    readonly doc: jsPDF,
+    readonly branding: ReportBranding,
+    readonly logo: LoadedLogo | null
+  ) {
+    this.pageWidth = doc.internal.pageSize.getWidth();
+    this.pageHeight = doc.internal.pageSize.getHeight();
+    this.contentWidth = this.pageWidth - 2 * MARGIN;
+    this.bottom = this.pageHeight - FOOTER_HEIGHT;
+    this.y = this.top;
+  }
+
+  private get pageNumber() {
+    return this.doc.getCurrentPageInfo().pageNumber;
+  }
+
+  private get pageIsEmpty() {
+    return this.y <= this.top && !this.coverPages.has(this.pageNumber);
+  }
+
+  newPage() {
+    this.doc.addPage();
+    this.y = this.top;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > this.bottom && !this.pageIsEmpty) this.newPage();
+  }
+
+  private setText(size: number, colour: Rgb, style: 'normal' | 'bold' = 'normal') {
+    this.doc.setFont('helvetica', style);
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(...colour);
+  }
+
+  write(section: ReportSection) {
+    switch (section.type) {
+      case 'cover':
+        return this.cover(section.title, section.subtitle, section.facts);
+      case 'heading':
+        return this.heading(section.text);
+      case 'text':
+        return this.text(section.text);
+      case 'kpis':
+        return this.kpis(section.items);
+      case 'facts':
+      case 'table':
+        this.ensureSpace(20);
+        this.y = this.block(section, MARGIN, this.contentWidth) + SECTION_GAP;
+        return;
+      case 'chart':
+        return this.chart(section.chart, section.title, section.height);
+      case 'columns':
+        return this.columns(section.sections);
+      case 'pageBreak':
+        if (!this.pageIsEmpty) this.newPage();
+        return;
+    }
+  }
+
+  private cover(title: string, subtitle?: string, facts: ReportFact[] = []) {
+    if (!this.pageIsEmpty) this.newPage();
+    this.coverPages.add(this.pageNumber);
+    const { doc, branding } = this;
+    const centre = this.pageWidth / 2;
+
+    doc.setFillColor(...branding.primary);
+    doc.rect(0, 0, this.pageWidth, 8, 'F');
+    let y = 40;
+    if (this.logo) {
+      const height = 30;
+      const width = Math.min(height * this.logo.ratio, this.contentWidth);
+      doc.addImage(this.logo.dataUrl, 'PNG', centre - width / 2, y, width, width / this.logo.ratio);
+      y += height + 25;
+    } else {
+      this.setText(18, branding.primary, 'bold');
+      doc.text(branding.agencyName, centre, y + 15, { align: 'center' });
+      y += 45;
+    }
+
+    this.setText(26, branding.primary, 'bold');
+    const titleLines: string[] = doc.splitTextToSize(title, this.contentWidth);
+    doc.text(titleLines, centre, y, { align: 'center' });
+    y += titleLines.length * 11;
+    if (subtitle) {
+      this.setText(14, SOFT_TEXT);
+      const subtitleLines: string[] = doc.splitTextToSize(subtitle, this.contentWidth);
+      doc.text(subtitleLines, centre, y, { align: 'center' });
+      y += subtitleLines.length * 7;
+    }
+    doc.setDrawColor(...branding.accent);
+    doc.setLineWidth(0.8);
+    doc.line(centre - 30, y, centre + 30, y);
+    y += 14;
+
+    facts.forEach((fact) => {
+      this.setText(11, SOFT_TEXT);
+      doc.text(fact.label, centre - 4, y, { align: 'right' });
+      this.setText(11, BODY_TEXT, 'bold');
+      doc.text(String(fact.value), centre + 4, y);
+      y += 8;
+    });
+
+    this.setText(11, SOFT_TEXT);
+    doc.text(`Prepared by ${branding.agencyName} · ${moment().format('D MMMM YYYY')}`, centre, this.bottom - 10, {
+      align: 'center',
+    });
+    // Full, so whatever follows starts on a fresh page.
+    this.y = this.bottom;
+  }
+
+  private heading(text: string) {
+    this.ensureSpace(24);
+    this.setText(14, this.branding.primary, 'bold');
+    this.doc.text(text, MARGIN, this.y + 5);
+    this.doc.setDrawColor(...this.branding.accent);
+    this.doc.setLineWidth(0.5);
+    this.doc.line(MARGIN, this.y + 8, MARGIN + this.contentWidth, this.y + 8);
+    this.y += 14;
+  }
+
+  private subheading(text: string, left: number, width: number, y: number) {
+    this.setText(11, this.branding.primary, 'bold');
+    this.doc.text(text, left, y + 4, { maxWidth: width });
+    return y + 7;
+  }
+
+  private text(text: string) {
+    this.setText(10, BODY_TEXT);
+    const lines: string[] = this.doc.splitTextToSize(text, this.contentWidth);
+    lines.forEach((line) => {
+      this.ensureSpace(5);
+      this.setText(10, BODY_TEXT);
+      this.doc.text(line, MARGIN, this.y + 4);
+      this.y += 5;
+    });
+    this.y += SECTION_GAP / 2;
+  }
+
+  private kpis(items: ReportKpi[]) {
+    const perRow = Math.min(items.length, this.pageWidth > this.pageHeight ? 5 : 4) || 1;
+    const gap = 4;
+    const width = (this.contentWidth - gap * (perRow - 1)) / perRow;
+    for (let start = 0; start < items.length; start += perRow) {
+      this.ensureSpace(KPI_HEIGHT);
+      items.slice(start, start + perRow).forEach((item, index) => {
+        const x = MARGIN + index * (width + gap);
+        this.doc.setFillColor(...this.branding.muted);
+        this.doc.setDrawColor(...this.branding.accent);
+        this.doc.setLineWidth(0.2);
+        this.doc.roundedRect(x, this.y, width, KPI_HEIGHT, 2, 2, 'FD');
+        this.setText(8, SOFT_TEXT);
+        this.doc.text(item.label, x + 3, this.y + 6, { maxWidth: width - 6 });
+        this.setText(14, item.tone ? TONE_COLOURS[item.tone] : this.branding.primary, 'bold');
+        this.doc.text(String(item.value), x + 3, this.y + 14, { maxWidth: width - 6 });
+        if (item.note) {
+          this.setText(7, SOFT_TEXT);
+          this.doc.text(item.note, x + 3, this.y + 19, { maxWidth: width - 6 });
+        }
+      });
+      this.y += KPI_HEIGHT + gap;
+    }
+    this.y += SECTION_GAP - gap;
+  }
+
+  // Draws a table or fact list in a horizontal slice of the page and
+  // returns where it ended.
+  private block(section: ReportTableSection | ReportFactsSection, left: number, width: number): number {
+    const y = section.title ? this.subheading(section.title, left, width, this.y) : this.y;
+    const { branding } = this;
+    const isFacts = section.type === 'facts';
+    const head = isFacts ? [] : typeof section.head[0] === 'string' ? [section.head as string[]] : (section.head as RowInput[]);
+    autoTable(this.doc, {
+      startY: y,
+      head,
+      body: isFacts ? section.facts.map((fact) => [fact.label, String(fact.value)]) : section.rows,
+      foot: !isFacts && section.foot ? [section.foot] : undefined,
+      showFoot: 'lastPage',
+      theme: 'striped',
+      margin: { top: this.top, bottom: FOOTER_HEIGHT + 2, left, right: this.pageWidth - left - width },
+      tableWidth: width,
+      styles: {
+        font: 'helvetica',
+        fontSize: isFacts ? 9 : section.fontSize ?? 9,
+        cellPadding: 2,
+        overflow: 'linebreak',
+        textColor: BODY_TEXT,
+        valign: 'middle',
+      },
+      headStyles: { fillColor: branding.primary, textColor: [255, 255, 255], fontStyle: 'bold' },
+      footStyles: { fillColor: [229, 231, 235], textColor: BODY_TEXT, fontStyle: 'bold' },
+      alternateRowStyles: { fillColor: branding.muted },
+      columnStyles: isFacts ? { 0: { fontStyle: 'bold', cellWidth: Math.min(55, width * 0.4) } } : section.columnStyles,
+      didParseCell: (data) => {
+        if (isFacts || !section.tone || data.section !== 'body') return;
+        const tone = section.tone(data.row.index, data.column.index);
+        if (tone) data.cell.styles.textColor = TONE_COLOURS[tone];
+      },
+    });
+    return lastTableEnd(this.doc);
+  }
+
+  // Meant for short lists: a column that runs onto another page carries on
+  // below the longest one rather than beside it.
+  private columns(sections: (ReportTableSection | ReportFactsSection)[]) {
+    if (!sections.length) return;
+    this.ensureSpace(20);
+    const gap = 6;
+    const width = (this.contentWidth - gap * (sections.length - 1)) / sections.length;
+    const startPage = this.pageNumber;
+    const startY = this.y;
+    let end = { page: startPage, y: startY };
+    sections.forEach((section, index) => {
+      this.doc.setPage(startPage);
+      this.y = startY;
+      const y = this.block(section, MARGIN + index * (width + gap), width);
+      const page = this.pageNumber;
+      if (page > end.page || (page === end.page && y > end.y)) end = { page, y };
+    });
+    this.doc.setPage(end.page);
+    this.y = end.y + SECTION_GAP;
+  }
+
+  private chart(config: ChartConfiguration, title?: string, height = DEFAULT_CHART_HEIGHT) {
+    this.ensureSpace(height + (title ? 7 : 0));
+    if (title) this.y = this.subheading(title, MARGIN, this.contentWidth, this.y);
+    const image = renderChart(config, this.contentWidth, height);
+    this.doc.addImage(image, 'PNG', MARGIN, this.y, this.contentWidth, height);
+    this.y += height + SECTION_GAP;
+  }
+
+  // Drawn last, once the page count is known.
+  decorate(title: string, subtitle?: string) {
+    const { doc, branding } = this;
+    const total = doc.getNumberOfPages();
+    for (let page = 1; page <= total; page += 1) {
+      doc.setPage(page);
+      if (!this.coverPages.has(page)) {
+        let textLeft = MARGIN;
+        if (this.logo) {
+          const height = 12;
+          doc.addImage(this.logo.dataUrl, 'PNG', MARGIN, MARGIN - 4, height * this.logo.ratio, height);
+          textLeft += height * this.logo.ratio + 4;
+        }
+        this.setText(12, branding.primary, 'bold');
+        doc.text(title, textLeft, MARGIN + 1, { maxWidth: this.pageWidth - MARGIN - textLeft - 40 });
+        this.setText(8, SOFT_TEXT);
+        doc.text(subtitle || branding.agencyName, textLeft, MARGIN + 6, {
+          maxWidth: this.pageWidth - MARGIN - textLeft - 40,
+        });
+        doc.text(moment().format('D MMM YYYY'), this.pageWidth - MARGIN, MARGIN + 1, { align: 'right' });
+        doc.setDrawColor(...branding.accent);
+        doc.setLineWidth(0.5);
+        doc.line(MARGIN, MARGIN + 11, this.pageWidth - MARGIN, MARGIN + 11);
+      }
+
+      const footerTop = this.pageHeight - FOOTER_HEIGHT + 6;
+      doc.setDrawColor(209, 213, 219);
+      doc.setLineWidth(0.2);
+      doc.line(MARGIN, footerTop, this.pageWidth - MARGIN, footerTop);
+      this.setText(7, SOFT_TEXT);
+      doc.text(doc.splitTextToSize(branding.disclaimer, this.contentWidth - 30), MARGIN, footerTop + 4);
+      this.setText(8, SOFT_TEXT, 'bold');
+      doc.text(`Page ${page} of ${total}`, this.pageWidth - MARGIN, footerTop + 4, { align: 'right' });
+    }
+  }
+}
+
+export const buildReport = async <D>(
+  template: ReportTemplate<D>,
+  data: D,
+  branding: ReportBranding = REPORT_BRANDING
+): Promise<jsPDF> => {
+  const title = template.title(data);
+  const subtitle = template.subtitle?.(data);
+  const doc = new jsPDF({
+    orientation: template.orientation?.(data) || 'portrait',
+    unit: 'mm',
+    format: 'a4',
+    compress: true,
+  });
+  doc.setProperties({
+    title,
+    subject: subtitle || title,
+    author: branding.agencyName,
+    creator: branding.agencyName,
+  });
+
+  const logo = branding.logoUrl ? await loadLogo(branding.logoUrl) : null;
+  const writer = new ReportWriter(doc, branding, logo);
+  template.sections(data).forEach((section) => writer.write(section));
+  writer.decorate(title, subtitle);
+  return doc;
+};
+
+export const reportFileName = <D>(template: ReportTemplate<D>, data: D): string =>
+  template.fileName?.(data) ||
+  `${template.id}_${moment().format('YYYY-MM-DD')}`.toLowerCase().replace(/[^a-z0-9_-]+/g, '_') + '.pdf';
+
+export const downloadReport = async <D>(template: ReportTemplate<D>, data: D): Promise<void> => {
+  const doc = await buildReport(template, data);
+  doc.save(reportFileName(template, data));
+};
+
+export const reportBlob = async <D>(template: ReportTemplate<D>, data: D): Promise<Blob> =>
+  (await buildReport(template, data)).output('blob');
+
+export const reportDataUri = async <D>(template: ReportTemplate<D>, data: D): Promise<string> =>
+  (await buildReport(template, data)).output('datauristring');
@@ -0,0 +1,93 @@
+// Labels and matching keys for the people model (migration
+// 20261019220000_common_thread.sql). phoneKey and emailKey must produce the
+// same keys as the database's phone_key() and person_emails.email_key, since
+// both sides look people up by them.
+
+import {
+  AddressLabel,
+  EmailLabel,
+  InteractionKind,
+  PersonAddressRow,
+  PersonRow,
+  PhoneLabel,
+  PropertyRelationship,
+} from '../types/database';
+
+export const PHONE_LABELS: Record<PhoneLabel, string> = {
+  mobile: 'Mobile',
+  home: 'Home',
+  work: 'Work',
+  other: 'Other',
+};
+
+export const EMAIL_LABELS: Record<EmailLabel, string> = {
+  personal: 'Personal',
+  work: 'Work',
+  other: 'Other',
+};
+
+export const ADDRESS_LABELS: Record<AddressLabel, string> = {
+  home: 'Home',
+  postal: 'Postal',
+  investment: 'Investment',
+  other: 'Other',
+};
+
+export const RELATIONSHIP_LABELS: Record<PropertyRelationship, string> = {
+  owner: 'Owner',
+  vendor: 'Vendor',
+  buyer: 'Buyer',
+  landlord: 'Landlord',
+  tenant: 'Tenant',
+};
+
+export const INTERACTION_LABELS: Record<InteractionKind, string> = {
+  call: 'Call',
+  door_knock: 'Door knock',
+  email: 'Email',
+  meeting: 'Meeting',
+  appraisal: 'Appraisal',
+  note: 'Note',
+};
+
+// Tags the sync triggers add to say where a person was first entered.
+export const SOURCE_TAG_LABELS: Record<string, string> = {
+  nurturing: 'Nurturing list',
+  street: 'Street contact',
+  landlord: 'Form 6 owner',
+};
+
+// Digits only, with +61 and a dropped leading zero (Excel) folded back to 0.
+export const phoneKey = (phone: string | null | undefined): string | null => {
+  const digits = (phone || '').replace(/\D/g, '');
+  if (!digits) return null;
+  if (digits.startsWith('61') && digits.length === 11) return `0${digits.slice(2)}`;
+  if (digits.length === 9 && !digits.startsWith('0')) return `0${digits}`;
+  return digits;
+};
+
+export const emailKey = (email: string | null | undefined): string | null => {
+  const key = (email || '').trim().toLowerCase();
+  return key || null;
+};
+
+// Splits "Mary Anne Smith" into "Mary Anne" and "Smith", as resolve_person does.
+export const splitName = (name: string): Pick<PersonRow, 'first_name' | 'last_name' | 'display_name'> => {
+  const display = name.trim().replace(/\s+/g, ' ');
+  const cut = display.lastIndexOf(' ');
+  return cut === -1
+    ? { first_name: display, last_name: null, display_name: display }
+    : { first_name: display.slice(0, cut), last_name: display.slice(cut + 1), display_name: display };
+};
+
+export const formatPersonAddress = (
+  address: Pick<PersonAddressRow, 'street_number' | 'street_name' | 'suburb' | 'postcode'>
+): string =>
+  [[address.street_number, address.street_name].filter(Boolean).join(' '), address.suburb, address.postcode]
+    .filter(Boolean)
+    .join(', ');
+
+export const normalizeTag = (tag: string): string => tag.trim().toLowerCase().replace(/\s+/g, '_');
+
+export const tagLabel = (tag: string): string =>
+  SOURCE_TAG_LABELS[tag] || tag.replace(/_/g, ' ').replace(/^\w/, (c) => c.toUpperCase());
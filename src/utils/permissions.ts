@@ -0,0 +1,126 @@
+// Role and capability model shared by the app and the Express server. The
+// database mirrors it in the `role_capabilities` table and `has_capability()`
+// (migration 20261019150000_iron_warden.sql), which the RLS policies call; keep
+// the two in step.
+
+export type Role = 'admin' | 'principal' | 'agent' | 'assistant' | 'read_only';
+
+// 'user' is the placeholder role given to a self-created profile before anyone
+// has assigned a real one; it carries no capabilities.
+export type ProfileRole = Role | 'user';
+
+export type Capability =
+  | 'admin.access'
+  | 'properties.view'
+  | 'properties.create'
+  | 'properties.edit'
+  | 'properties.edit_any'
+  | 'properties.delete'
+  | 'activities.log'
+  | 'contacts.manage'
+  | 'reports.view'
+  | 'commission.view_all'
+  | 'commission.manage'
+  | 'plans.view_team'
+  | 'pipeline.manage'
+  | 'users.manage'
+  | 'settings.manage';
+
+export const ROLES: Role[] = ['admin', 'principal', 'agent', 'assistant', 'read_only'];
+
+export const ROLE_LABELS: Record<ProfileRole, string> = {
+  admin: 'Administrator',
+  principal: 'Principal',
+  agent: 'Agent',
+  assistant: 'Assistant',
+  read_only: 'Read Only',
+  user: 'Unassigned',
+};
+
+const ALL_CAPABILITIES: Capability[] = [
+  'admin.access',
+  'properties.view',
+  'properties.create',
+  'properties.edit',
+  'properties.edit_any',
+  'properties.delete',
+  'activities.log',
+  'contacts.manage',
+  'reports.view',
+  'commission.view_all',
+  'commission.manage',
+  'plans.view_team',
+  'pipeline.manage',
+  'users.manage',
+  'settings.manage',
+];
+
+export const ROLE_CAPABILITIES: Record<ProfileRole, Capability[]> = {
+  admin: ALL_CAPABILITIES,
+  principal: ALL_CAPABILITIES.filter((capability) => capability !== 'settings.manage'),
+  agent: ['properties.view', 'properties.create', 'properties.edit', 'activities.log', 'contacts.manage', 'reports.view'],
+  assistant: [
+    'properties.view',
+    'properties.create',
+    'properties.edit',
+    'properties.edit_any',
+    'activities.log',
+    'contacts.manage',
+    'reports.view',
+  ],
+  read_only: ['properties.view', 'reports.view'],
+  user: [],
+};
+
+// Per-agent switches stored on `profiles.permissions` by AgentManagement.
+export interface AgentPermissions {
+  canRegisterProperties?: boolean;
+  canEditProperties?: boolean;
+  canDeleteProperties?: boolean;
+}
+
+const AGENT_OVERRIDES: [keyof AgentPermissions, Capability][] = [
+  ['canRegisterProperties', 'properties.create'],
+  ['canEditProperties', 'properties.edit'],
+  ['canDeleteProperties', 'properties.delete'],
+];
+
+export interface PermissionSubject {
+  role?: string | null;
+  permissions?: AgentPermissions | null;
+}
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+// An agent's per-agent switches narrow or widen the property capabilities of
+// the role; every other role is exactly its role's list.
+export const capabilitiesFor = (subject: PermissionSubject | null | undefined): Set<Capability> => {
+  const role = subject?.role && (isRole(subject.role) || subject.role === 'user') ? subject.role : 'user';
+  const capabilities = new Set(ROLE_CAPABILITIES[role]);
+  if (role === 'agent' && subject?.permissions) {
+    AGENT_OVERRIDES.forEach(([flag, capability]) => {
+      const value = subject.permissions?.[flag];
+      if (value === true) capabilities.add(capability);
+      if (value === false) capabilities.delete(capability);
+    });
+  }
+  return capabilities;
+};
+
+export const hasCapability = (subject: PermissionSubject | null | undefined, capability: Capability): boolean =>
+  capabilitiesFor(subject).has(capability);
+
+// Staff roles can use the agent workspace; read-only users see it without actions.
+export const isStaff = (subject: PermissionSubject | null | undefined): boolean =>
+  Boolean(subject?.role && isRole(subject.role));
+
+// Whether the subject may change a property owned by `ownerIds` (user_id / agent_id).
+export const canModifyProperty = (
+  subject: (PermissionSubject & { id?: string }) | null | undefined,
+  capability: 'properties.edit' | 'properties.delete',
+  ownerIds: (string | null | undefined)[]
+): boolean => {
+  const capabilities = capabilitiesFor(subject);
+  if (!capabilities.has(capability)) return false;
+  return capabilities.has('properties.edit_any') || Boolean(subject?.id && ownerIds.includes(subject.id));
+};
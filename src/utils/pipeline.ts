@@ -0,0 +1,75 @@
+// Deal pipeline reporting. Stages are configurable, so everything here works
+// off each stage's category rather than its name: a deal is "written" once it
+// has entered any written/conditional/unconditional/settled stage, and has
+// fallen over once it has entered a fallen_over stage.
+
+import { DealRow, DealStageHistoryRow, PipelineStageRow, StageCategory } from '../types/database';
+
+export const WRITTEN_CATEGORIES: StageCategory[] = ['written', 'conditional', 'unconditional', 'settled'];
+
+export const STAGE_CATEGORY_LABELS: Record<StageCategory, string> = {
+  listing: 'Listing',
+  written: 'Written',
+  conditional: 'Conditional',
+  unconditional: 'Unconditional',
+  settled: 'Settled',
+  fallen_over: 'Fallen Over',
+};
+
+export interface PipelineMetrics {
+  listings: number;
+  written: number;
+  settled: number;
+  fallenOver: number;
+  // Percentages, or null when there is nothing to divide by yet.
+  listingToWrittenRatio: number | null;
+  fallOverRate: number | null;
+}
+
+export const EMPTY_PIPELINE_METRICS: PipelineMetrics = {
+  listings: 0,
+  written: 0,
+  settled: 0,
+  fallenOver: 0,
+  listingToWrittenRatio: null,
+  fallOverRate: null,
+};
+
+const percent = (part: number, whole: number) => (whole ? Math.round((part / whole) * 1000) / 10 : null);
+
+// Metrics for a cohort of deals (normally those listed in the reporting
+// window). History supplies the stages each deal passed through; the current
+// stage is included too, for deals backfilled without a full history.
+export const computePipelineMetrics = (
+  deals: Pick<DealRow, 'id' | 'stage_id'>[],
+  history: Pick<DealStageHistoryRow, 'deal_id' | 'to_stage_id'>[],
+  stages: Pick<PipelineStageRow, 'id' | 'category'>[]
+): PipelineMetrics => {
+  const categoryOf = new Map(stages.map((stage) => [stage.id, stage.category]));
+  const visited = new Map<string, Set<StageCategory>>(deals.map((deal) => [deal.id, new Set()]));
+  const visit = (dealId: string, stageId: string) => {
+    const category = categoryOf.get(stageId);
+    if (category) visited.get(dealId)?.add(category);
+  };
+  deals.forEach((deal) => visit(deal.id, deal.stage_id));
+  history.forEach((entry) => visit(entry.deal_id, entry.to_stage_id));
+
+  let written = 0;
+  let settled = 0;
+  let fallenOver = 0;
+  visited.forEach((categories) => {
+    const wasWritten = WRITTEN_CATEGORIES.some((category) => categories.has(category));
+    if (wasWritten) written += 1;
+    if (categories.has('settled')) settled += 1;
+    if (wasWritten && categories.has('fallen_over')) fallenOver += 1;
+  });
+
+  return {
+    listings: deals.length,
+    written,
+    settled,
+    fallenOver,
+    listingToWrittenRatio: percent(written, deals.length),
+    fallOverRate: percent(fallenOver, written),
+  };
+};
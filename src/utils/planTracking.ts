@@ -0,0 +1,138 @@
+// Business plan tracking. Compares what an agent has actually done in the
+// current plan period against the plan's targets, projects the end-of-period
+// result at the current pace, and works out the daily rate needed from here
+// to still hit each target. Days are calendar days, today inclusive.
+
+import moment from 'moment';
+
+export type PlanPeriodType = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface PlanWindow {
+  periodType: PlanPeriodType;
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD
+  totalDays: number;
+  elapsedDays: number;
+  remainingDays: number;
+}
+
+const PERIOD_UNITS: Record<PlanPeriodType, moment.unitOfTime.StartOf> = {
+  daily: 'day',
+  weekly: 'isoWeek',
+  monthly: 'month',
+  yearly: 'year',
+};
+
+export const PERIOD_LABELS: Record<PlanPeriodType, string> = {
+  daily: 'today',
+  weekly: 'this week',
+  monthly: 'this month',
+  yearly: 'this year',
+};
+
+export const planWindow = (periodType: PlanPeriodType, asOf?: string): PlanWindow => {
+  const today = (asOf ? moment(asOf) : moment()).startOf('day');
+  const unit = PERIOD_UNITS[periodType] || 'month';
+  const start = today.clone().startOf(unit);
+  const end = today.clone().endOf(unit).startOf('day');
+  const totalDays = end.diff(start, 'days') + 1;
+  const elapsedDays = today.diff(start, 'days') + 1;
+  return {
+    periodType,
+    start: start.format('YYYY-MM-DD'),
+    end: end.format('YYYY-MM-DD'),
+    totalDays,
+    elapsedDays,
+    remainingDays: totalDays - elapsedDays + 1,
+  };
+};
+
+export type PlanMetricKey = 'appraisals' | 'listings' | 'settledSales' | 'grossCommission' | 'calls';
+
+export const PLAN_METRIC_LABELS: Record<PlanMetricKey, string> = {
+  appraisals: 'Appraisals',
+  listings: 'Listings',
+  settledSales: 'Settled Sales',
+  grossCommission: 'Gross Commission',
+  calls: 'Phone Calls',
+};
+
+export type PlanActuals = Record<PlanMetricKey, number>;
+
+export const EMPTY_PLAN_ACTUALS: PlanActuals = {
+  appraisals: 0,
+  listings: 0,
+  settledSales: 0,
+  grossCommission: 0,
+  calls: 0,
+};
+
+// The target columns of agent_business_plans that tracking reads.
+export interface PlanTargets {
+  period_type: PlanPeriodType | null;
+  appraisals_target: number | null;
+  listings_target: number | null;
+  settled_sales_target: number | null;
+  gross_commission_target: number | null;
+  calls_per_day: number | null;
+  no_of_working_days_per_year: number | null;
+}
+
+export type TrackingStatus = 'achieved' | 'on_track' | 'behind';
+
+export interface MetricTracking {
+  key: PlanMetricKey;
+  label: string;
+  isCurrency: boolean;
+  target: number;
+  actual: number;
+  attainment: number; // % of target reached so far
+  projected: number; // at the current pace, by the end of the period
+  projectedAttainment: number;
+  requiredDailyRate: number; // per remaining day to still reach the target
+  status: TrackingStatus;
+}
+
+// calls_per_day is a working-day rate; scale it to the window using the
+// plan's working days per year when set.
+const callsTarget = (targets: PlanTargets, window: PlanWindow): number | null => {
+  if (targets.calls_per_day == null) return null;
+  const workingShare = targets.no_of_working_days_per_year ? Math.min(1, targets.no_of_working_days_per_year / 365) : 1;
+  return Math.round(targets.calls_per_day * window.totalDays * workingShare);
+};
+
+export const trackMetric = (
+  key: PlanMetricKey,
+  target: number,
+  actual: number,
+  window: PlanWindow
+): MetricTracking => {
+  const projected = (actual / Math.max(1, window.elapsedDays)) * window.totalDays;
+  const status: TrackingStatus = actual >= target ? 'achieved' : projected >= target ? 'on_track' : 'behind';
+  return {
+    key,
+    label: PLAN_METRIC_LABELS[key],
+    isCurrency: key === 'grossCommission',
+    target,
+    actual,
+    attainment: target ? (actual / target) * 100 : 0,
+    projected,
+    projectedAttainment: target ? (projected / target) * 100 : 0,
+    requiredDailyRate: Math.max(0, target - actual) / Math.max(1, window.remainingDays),
+    status,
+  };
+};
+
+// One row per metric that has a target set.
+export const trackPlan = (targets: PlanTargets, actuals: PlanActuals, window: PlanWindow): MetricTracking[] => {
+  const planned: [PlanMetricKey, number | null][] = [
+    ['appraisals', targets.appraisals_target],
+    ['listings', targets.listings_target],
+    ['settledSales', targets.settled_sales_target],
+    ['grossCommission', targets.gross_commission_target],
+    ['calls', callsTarget(targets, window)],
+  ];
+  return planned
+    .filter((entry): entry is [PlanMetricKey, number] => entry[1] != null && entry[1] > 0)
+    .map(([key, target]) => trackMetric(key, target, actuals[key], window));
+};
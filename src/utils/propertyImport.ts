@@ -0,0 +1,176 @@
+// Turns sales rows from a data provider export (RP Data / CoreLogic and the
+// like) into property creates and updates. Rows are grouped by address: the
+// newest sale becomes the property's sale and older ones become past records,
+// so re-importing a suburb updates what is there instead of duplicating it.
+
+import { PastRecord, PropertyInsert, PropertyRow } from '../types/database';
+import { addressKey } from './dedupe';
+import { getSuburbPostcode } from './gazetteer';
+import { ImportRow, importText, ImportValues } from './importer';
+
+export type PropertyImportAction = 'create' | 'update' | 'skip';
+
+export interface PropertyImportPlanRow {
+  key: string;
+  rowNumbers: number[];
+  address: string;
+  existing: PropertyRow | null;
+  // The whole property for a create; only what changes for an update.
+  changes: PropertyInsert;
+  pastRecords: PastRecord[];
+  action: PropertyImportAction;
+}
+
+// Descriptive columns an update only fills in when the property has none.
+const FILL_BLANK_COLUMNS = [
+  'postcode',
+  'property_type',
+  'bedrooms',
+  'bathrooms',
+  'car_garage',
+  'sqm',
+  'landsize',
+  'listed_date',
+  'features',
+] as const;
+
+// Columns that describe the latest sale and move together.
+const SALE_COLUMNS = ['sold_price', 'sold_date', 'sale_type', 'agency_name', 'agent_name'] as const;
+
+// "12 Smith St", "12A Smith St", "3/12 Smith St", "Unit 3, 12 Smith St" and
+// "12-14 Smith St". Anything after a comma (a suburb or state) is dropped.
+export const splitStreetAddress = (value: string): { street_number: string; street_name: string } | null => {
+  const text = value.trim().replace(/\s+/g, ' ');
+  const unit = text.match(/^(?:unit|u|apt|shop|villa)\s*(\w+)\s*[,/]?\s+(\d+[a-z]?(?:-\d+[a-z]?)?)\s+([^,]+)/i);
+  if (unit) return { street_number: `${unit[1]}/${unit[2]}`, street_name: unit[3].trim() };
+  const plain = text.match(/^(\w+\s*\/\s*)?(\d+[a-z]?(?:-\d+[a-z]?)?)\s+([^,]+)/i);
+  if (!plain) return null;
+  return { street_number: `${(plain[1] || '').replace(/\s+/g, '')}${plain[2]}`, street_name: plain[3].trim() };
+};
+
+// The property a sales row describes, with the suburb in its gazetteer form.
+export const propertySaleFromValues = (values: ImportValues): PropertyInsert => {
+  const text = (key: string) => importText(values, key);
+  const num = (key: string) => (typeof values[key] === 'number' ? (values[key] as number) : null);
+  const split = text('street_address') ? splitStreetAddress(text('street_address')) : null;
+  const features = text('features')
+    .split(/[,;|]/)
+    .map((feature) => feature.trim())
+    .filter(Boolean);
+  const soldDate = text('sold_date') || null;
+  const soldPrice = num('sold_price');
+  return {
+    street_number: text('street_number') || split?.street_number || null,
+    street_name: text('street_name') || split?.street_name || null,
+    suburb: text('suburb') || null,
+    postcode: getSuburbPostcode(text('suburb')) || text('postcode') || null,
+    property_type: text('property_type') || null,
+    bedrooms: num('bedrooms'),
+    bathrooms: num('bathrooms'),
+    car_garage: num('car_garage'),
+    sqm: num('sqm'),
+    landsize: num('landsize'),
+    price: num('price') ?? soldPrice,
+    sold_price: soldPrice,
+    sold_date: soldDate,
+    sale_type: text('sale_type') || null,
+    listed_date: text('listed_date') || null,
+    agency_name: text('agency_name') || null,
+    agent_name: text('agent_name') || null,
+    features: features.length ? features : null,
+    category: soldDate || soldPrice ? 'Sold' : 'Listing',
+  };
+};
+
+// Matching is by address, so a row needs a street number and name one way or another.
+export const requirePropertyAddress = (values: ImportValues): string[] => {
+  const sale = propertySaleFromValues(values);
+  return sale.street_number && sale.street_name ? [] : ['Street number and name are required (or a street address)'];
+};
+
+const isBlank = (value: unknown) =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && !value.length);
+
+export const formatPropertyAddress = (property: Pick<PropertyInsert, 'street_number' | 'street_name' | 'suburb'>): string =>
+  [[property.street_number, property.street_name].filter(Boolean).join(' '), property.suburb].filter(Boolean).join(', ');
+
+const toPastRecord = (sale: PropertyInsert): PastRecord => ({
+  suburb: sale.suburb || '',
+  postcode: sale.postcode || getSuburbPostcode(sale.suburb) || '',
+  property_type: sale.property_type || '',
+  price: sale.sold_price ?? sale.price ?? 0,
+  bedrooms: sale.bedrooms ?? undefined,
+  bathrooms: sale.bathrooms ?? undefined,
+  car_garage: sale.car_garage ?? undefined,
+  sqm: sale.sqm ?? undefined,
+  landsize: sale.landsize ?? undefined,
+  listing_date: sale.listed_date ?? undefined,
+  sale_date: sale.sold_date ?? undefined,
+  status: sale.sold_date ? 'Sold' : 'Listed',
+  notes: [sale.agent_name, sale.agency_name].filter(Boolean).join(', ') || undefined,
+});
+
+// Newest sale first; undated rows sort last and keep file order.
+const byNewestSale = (a: PropertyInsert, b: PropertyInsert) => (b.sold_date || '').localeCompare(a.sold_date || '');
+
+export const planPropertyImport = (rows: ImportRow[], existing: PropertyRow[]): PropertyImportPlanRow[] => {
+  const existingByKey = new Map<string, PropertyRow>();
+  existing.forEach((property) => {
+    const key = addressKey(property);
+    if (key && !existingByKey.has(key)) existingByKey.set(key, property);
+  });
+
+  const groups = new Map<string, { rowNumbers: number[]; sales: PropertyInsert[] }>();
+  rows.forEach(({ rowNumber, values }) => {
+    const sale = propertySaleFromValues(values);
+    const key = addressKey(sale);
+    if (!key) return;
+    const group = groups.get(key) || { rowNumbers: [], sales: [] };
+    group.rowNumbers.push(rowNumber);
+    group.sales.push(sale);
+    groups.set(key, group);
+  });
+
+  return [...groups.entries()].map(([key, { rowNumbers, sales }]) => {
+    const [latest, ...older] = [...sales].sort(byNewestSale);
+    const match = existingByKey.get(key) || null;
+    const address = formatPropertyAddress(match || latest);
+
+    if (!match) {
+      return {
+        key,
+        rowNumbers,
+        address,
+        existing: null,
+        changes: latest,
+        pastRecords: older.filter((sale) => sale.sold_date).map(toPastRecord),
+        action: 'create' as const,
+      };
+    }
+
+    const changes: PropertyInsert = {};
+    FILL_BLANK_COLUMNS.forEach((column) => {
+      if (isBlank(match[column]) && !isBlank(latest[column])) Object.assign(changes, { [column]: latest[column] });
+    });
+    const pastRecords: PastRecord[] = [];
+    const isNewerSale = !!latest.sold_date && (!match.sold_date || latest.sold_date > match.sold_date);
+    if (isNewerSale) {
+      SALE_COLUMNS.forEach((column) => Object.assign(changes, { [column]: latest[column] }));
+      changes.category = 'Sold';
+      if (match.sold_date) pastRecords.push(toPastRecord(match));
+      pastRecords.push(...older.filter((sale) => sale.sold_date && sale.sold_date !== match.sold_date).map(toPastRecord));
+    } else {
+      pastRecords.push(...sales.filter((sale) => sale.sold_date && sale.sold_date !== match.sold_date).map(toPastRecord));
+    }
+
+    return {
+      key,
+      rowNumbers,
+      address,
+      existing: match,
+      changes,
+      pastRecords,
+      action: Object.keys(changes).length || pastRecords.length ? ('update' as const) : ('skip' as const),
+    };
+  });
+};
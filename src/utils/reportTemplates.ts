@@ -0,0 +1,501 @@
+// PDF templates used by more than one page. Page-specific templates are
+// defined next to the page.
+
+import moment from 'moment';
+import { CellInput } from 'jspdf-autotable';
+import { PastRecord } from '../types/database';
+import { Enquiry } from '../types/types';
+import { ExportableProperty, propertyAddress, SuburbCommissionTotals } from './exportColumns';
+import { PredictionResult } from './forecasting';
+import { formatCurrency } from './formatters';
+import { normalizeSuburb } from './gazetteer';
+import { defineReport, ReportFact, ReportKpi, ReportSection } from './pdfReport';
+import {
+  CAMPAIGN_CHANNEL_LABELS,
+  FEEDBACK_SOURCE_LABELS,
+  feedbackRange,
+  INSPECTION_TYPE_LABELS,
+  inspectionsThisWeek,
+  priceRangeLabel,
+  totalAttendance,
+  VendorReportData,
+  vendorReportAddress,
+} from './vendorReport';
+
+const dateOrNA = (value?: string | null) => (value ? moment(value).format('DD/MM/YYYY') : 'N/A');
+const moneyOrNA = (value?: number | null) => (value ? formatCurrency(value) : 'N/A');
+
+// A title, optional headline figures and one table: the shape of most list
+// pages' "Download PDF".
+export interface TableReportData {
+  id: string;
+  title: string;
+  subtitle?: string;
+  kpis?: ReportKpi[];
+  summary?: ReportFact[];
+  // The filters the list was narrowed by (see utils/exporter activeFilters).
+  filters?: ReportFact[];
+  tableTitle?: string;
+  head: string[];
+  rows: CellInput[][];
+  // Wide tables (twenty-odd columns) need the page turned.
+  landscape?: boolean;
+  fontSize?: number;
+}
+
+export const TABLE_REPORT = defineReport<TableReportData>({
+  id: 'table_report',
+  title: (data) => data.title,
+  subtitle: (data) => data.subtitle,
+  orientation: (data) => (data.landscape ? 'landscape' : 'portrait'),
+  fileName: (data) => `${data.id}_${moment().format('YYYY-MM-DD')}.pdf`,
+  sections: (data) => [
+    ...(data.kpis?.length ? [{ type: 'kpis' as const, items: data.kpis }] : []),
+    ...(data.summary?.length ? [{ type: 'facts' as const, title: 'Summary', facts: data.summary }] : []),
+    ...(data.filters?.length ? [{ type: 'facts' as const, title: 'Filters', facts: data.filters }] : []),
+    { type: 'table', title: data.tableTitle, head: data.head, rows: data.rows, fontSize: data.fontSize },
+  ],
+});
+
+export interface CommissionAgencyTotal {
+  agency: string;
+  commissionRate: number;
+  totalCommission: number;
+  listedCount: number;
+  soldCount: number;
+  suburbs: string[];
+}
+
+export interface CommissionAgentTotal {
+  name: string;
+  // Unset when the agent is paid at their agency's rate.
+  commissionRate?: number;
+  totalCommission: number;
+  propertiesListed: number;
+  propertiesSold: number;
+  suburbs: string[];
+}
+
+// The commission dashboards' "Export PDF": headline figures, then agency,
+// agent and suburb tables as filtered on screen.
+export interface CommissionReportData {
+  id: string;
+  title: string;
+  kpis: ReportKpi[];
+  summary: ReportFact[];
+  filters?: ReportFact[];
+  agencies: CommissionAgencyTotal[];
+  // Left out where the page has no agent breakdown.
+  agents?: CommissionAgentTotal[];
+  suburbs: SuburbCommissionTotals[];
+}
+
+const rate = (value: number) => `${value.toFixed(2)}%`;
+
+export const COMMISSION_REPORT = defineReport<CommissionReportData>({
+  id: 'commission_report',
+  title: (data) => data.title,
+  fileName: (data) => `${data.id}_${moment().format('YYYY-MM-DD')}.pdf`,
+  sections: (data) => [
+    { type: 'kpis', items: data.kpis },
+    {
+      type: 'columns',
+      sections: [
+        { type: 'facts', title: 'Summary', facts: data.summary },
+        ...(data.filters?.length ? [{ type: 'facts' as const, title: 'Filters', facts: data.filters }] : []),
+      ],
+    },
+    {
+      type: 'table',
+      title: 'Agency Performance',
+      head: ['Agency', 'Commission Rate', 'Total Commission', 'Listed', 'Sold', 'Suburbs'],
+      rows: data.agencies.map((row) => [
+        row.agency,
+        rate(row.commissionRate),
+        formatCurrency(row.totalCommission),
+        row.listedCount,
+        row.soldCount,
+        row.suburbs.join(', ') || 'None',
+      ]),
+    },
+    ...(data.agents
+      ? [
+          {
+            type: 'table' as const,
+            title: 'Agent Performance',
+            head: ['Agent', 'Commission Rate', 'Total Commission', 'Listed', 'Sold', 'Suburbs'],
+            rows: data.agents.map((row) => [
+              row.name,
+              row.commissionRate ? rate(row.commissionRate) : 'Agency Default',
+              formatCurrency(row.totalCommission),
+              row.propertiesListed,
+              row.propertiesSold,
+              row.suburbs.join(', ') || 'None',
+            ]),
+          },
+        ]
+      : []),
+    {
+      type: 'table',
+      title: 'Suburb Performance',
+      head: ['Suburb', 'Avg Listed Rate', 'Listed Commission', 'Listed Properties', 'Avg Sold Rate', 'Sold Commission', 'Sold Properties'],
+      rows: data.suburbs.map((row) => [
+        row.suburb,
+        rate(row.avgListedCommissionRate),
+        formatCurrency(row.listedCommissionTotal),
+        row.listedPropertyCount,
+        rate(row.avgSoldCommissionRate),
+        formatCurrency(row.soldCommissionTotal),
+        row.soldPropertyCount,
+      ]),
+    },
+  ],
+});
+
+export interface SameStreetSale {
+  address: string;
+  sale_price: number;
+  property_type: string;
+  sale_date: string;
+}
+
+export interface PropertyReportData {
+  property: ExportableProperty & { latitude?: number | null; longitude?: number | null };
+  // From the commission ledger where there is an entry (utils/commission).
+  commission?: { rate: number; earned: number };
+  pastRecords?: PastRecord[];
+  sameStreetSales?: SameStreetSale[];
+  prediction?: PredictionResult;
+}
+
+const fullAddress = (property: ExportableProperty) =>
+  [propertyAddress(property), normalizeSuburb(property.suburb || '')].filter(Boolean).join(', ') || 'N/A';
+
+const predictionSections = (prediction: PredictionResult): ReportSection[] => {
+  const { dates, prices } = prediction.historicalData;
+  return [
+    { type: 'heading', text: 'Market Outlook' },
+    {
+      type: 'kpis',
+      items: [
+        { label: 'Recommendation', value: prediction.recommendation, note: `${prediction.confidence}% confidence` },
+        {
+          label: 'Market Trend',
+          value: `${prediction.trend.toFixed(1)}%`,
+          tone: prediction.trend >= 0 ? 'good' : 'bad',
+          note: prediction.marketCondition,
+        },
+        { label: 'Estimated Value', value: moneyOrNA(prediction.estimatedValue) },
+        { label: 'Next Month', value: moneyOrNA(prediction.nextPrice) },
+      ],
+    },
+    {
+      type: 'facts',
+      facts: [
+        { label: 'Best Time to Sell', value: prediction.bestTimeToSell || 'N/A' },
+        {
+          label: 'Price Range',
+          value: prediction.priceRange
+            ? `${formatCurrency(prediction.priceRange.lower)} – ${formatCurrency(prediction.priceRange.upper)}`
+            : 'N/A',
+        },
+        { label: 'Sentiment Score', value: prediction.sentimentScore?.toFixed(1) || 'N/A' },
+        { label: 'Sales in Sample', value: prediction.sampleSize ?? 'N/A' },
+      ],
+    },
+    ...(dates.length > 1
+      ? [
+          {
+            type: 'chart' as const,
+            title: 'Price History',
+            height: 70,
+            chart: {
+              type: 'line' as const,
+              data: {
+                labels: dates.map((date) => moment(date).format('MMM YY')),
+                datasets: [{ label: 'Sale price', data: prices, borderColor: '#2563EB', backgroundColor: '#BFDBFE' }],
+              },
+              options: { plugins: { legend: { display: false } } },
+            },
+          },
+        ]
+      : []),
+  ];
+};
+
+export const PROPERTY_REPORT = defineReport<PropertyReportData>({
+  id: 'property_report',
+  title: () => 'Property Report',
+  subtitle: ({ property }) => fullAddress(property),
+  fileName: ({ property }) => `property_${property.id}_report.pdf`,
+  sections: ({ property, commission, pastRecords = [], sameStreetSales = [], prediction }) => [
+    {
+      type: 'cover',
+      title: 'Property Report',
+      subtitle: fullAddress(property),
+      facts: [
+        { label: 'Status', value: property.category || 'N/A' },
+        { label: 'Agent', value: property.agent_name || 'N/A' },
+        { label: property.sold_price ? 'Sold for' : 'Price', value: moneyOrNA(property.sold_price || property.price) },
+      ],
+    },
+    {
+      type: 'kpis',
+      items: [
+        { label: 'Price', value: moneyOrNA(property.price) },
+        { label: 'Sold Price', value: moneyOrNA(property.sold_price) },
+        {
+          label: 'Bed / Bath / Car',
+          value: [property.bedrooms, property.bathrooms, property.car_garage].map((n) => n ?? '-').join(' / '),
+        },
+        { label: 'Land Size', value: property.landsize ? `${property.landsize} sqm` : 'N/A' },
+      ],
+    },
+    {
+      type: 'facts',
+      title: 'Property Details',
+      facts: [
+        { label: 'Address', value: fullAddress(property) },
+        { label: 'Expected Price', value: moneyOrNA(property.expected_price) },
+        {
+          label: 'Commission',
+          value: commission?.rate || property.commission ? `${commission?.rate || property.commission}%` : 'N/A',
+        },
+        { label: 'Commission Earned', value: moneyOrNA(commission?.earned) },
+        { label: 'Property Type', value: property.property_type || 'N/A' },
+        { label: 'Sale Type', value: property.sale_type || 'N/A' },
+        { label: 'Floor Area', value: property.sqm ? `${property.sqm} sqm` : 'N/A' },
+        { label: 'Listed Date', value: dateOrNA(property.listed_date) },
+        { label: 'Sold Date', value: dateOrNA(property.sold_date) },
+        { label: 'Agency', value: property.agency_name || 'N/A' },
+        { label: 'Flood Risk', value: property.flood_risk || 'N/A' },
+        { label: 'Bushfire Risk', value: property.bushfire_risk || 'N/A' },
+        { label: 'Contract Status', value: property.contract_status || 'N/A' },
+        { label: 'Features', value: property.features?.length ? property.features.join(', ') : 'N/A' },
+        ...(property.latitude && property.longitude
+          ? [{ label: 'Coordinates', value: `${property.latitude.toFixed(6)}, ${property.longitude.toFixed(6)}` }]
+          : []),
+      ],
+    },
+    ...(prediction ? predictionSections(prediction) : []),
+    ...(sameStreetSales.length
+      ? [
+          {
+            type: 'table' as const,
+            title: 'Same Street Sales',
+            head: ['Address', 'Sale Price', 'Property Type', 'Sale Date'],
+            rows: sameStreetSales.map((sale) => [
+              sale.address,
+              moneyOrNA(sale.sale_price),
+              sale.property_type || 'N/A',
+              dateOrNA(sale.sale_date),
+            ]),
+          },
+        ]
+      : []),
+    ...(pastRecords.length
+      ? [
+          {
+            type: 'table' as const,
+            title: 'Past Records',
+            fontSize: 8,
+            head: ['Location', 'Type', 'Price', 'Beds', 'Baths', 'Garage', 'Land Size', 'Listed', 'Sold', 'Status', 'Notes'],
+            rows: pastRecords.map((record) => [
+              normalizeSuburb(record.suburb),
+              record.property_type || 'N/A',
+              moneyOrNA(record.price),
+              record.bedrooms ?? 'N/A',
+              record.bathrooms ?? 'N/A',
+              record.car_garage ?? 'N/A',
+              record.landsize ? `${record.landsize} sqm` : 'N/A',
+              dateOrNA(record.listing_date),
+              dateOrNA(record.sale_date),
+              record.status || 'N/A',
+              record.notes || 'N/A',
+            ]),
+          },
+        ]
+      : []),
+  ],
+});
+
+// Enquiries and inspection attendance per week (Monday), over the last
+// `weeks` weeks of the campaign.
+const weeklyActivity = (report: VendorReportData, weeks = 8) => {
+  const byWeek = new Map<string, { enquiries: number; attendance: number }>();
+  const add = (date: string, key: 'enquiries' | 'attendance', count: number) => {
+    const week = moment(date).startOf('isoWeek').format('YYYY-MM-DD');
+    const totals = byWeek.get(week) || { enquiries: 0, attendance: 0 };
+    totals[key] += count;
+    byWeek.set(week, totals);
+  };
+  report.enquiries.weekly.forEach(({ week, count }) => add(week, 'enquiries', count));
+  report.inspections.forEach((inspection) => add(inspection.held_at, 'attendance', inspection.attendees));
+  return [...byWeek.entries()].sort(([a], [b]) => a.localeCompare(b)).slice(-weeks);
+};
+
+export const VENDOR_REPORT = defineReport<VendorReportData>({
+  id: 'vendor_report',
+  title: () => 'Vendor Report',
+  subtitle: (report) => vendorReportAddress(report),
+  fileName: (report) => `vendor_report_${report.property.id}_${moment(report.generated_at).format('YYYY-MM-DD')}.pdf`,
+  sections: (report) => {
+    const { property } = report;
+    const thisWeek = inspectionsThisWeek(report);
+    const activity = weeklyActivity(report);
+    return [
+      {
+        type: 'cover',
+        title: 'Vendor Report',
+        subtitle: vendorReportAddress(report),
+        facts: [
+          { label: 'Week from', value: dateOrNA(report.since) },
+          { label: 'Agent', value: property.agent_name || 'N/A' },
+          { label: 'Asking Price', value: moneyOrNA(property.price) },
+        ],
+      },
+      {
+        type: 'kpis',
+        items: [
+          { label: 'Days on Market', value: report.days_on_market ?? 'N/A', note: `Listed ${dateOrNA(property.listed_date)}` },
+          { label: 'Enquiries', value: report.enquiries.total, note: `${report.enquiries.since} this week` },
+          {
+            label: 'Inspections',
+            value: report.inspections.length,
+            note: `${totalAttendance(report.inspections)} attended, ${totalAttendance(thisWeek)} this week`,
+          },
+          { label: 'Price Feedback', value: feedbackRange(report) || 'N/A', note: `${report.price_feedback.length} responses` },
+        ],
+      },
+      ...(activity.length
+        ? [
+            {
+              type: 'chart' as const,
+              title: 'Weekly Activity',
+              height: 70,
+              chart: {
+                type: 'bar' as const,
+                data: {
+                  labels: activity.map(([week]) => moment(week).format('D MMM')),
+                  datasets: [
+                    { label: 'Enquiries', data: activity.map(([, week]) => week.enquiries), backgroundColor: '#2563EB' },
+                    { label: 'Inspection attendance', data: activity.map(([, week]) => week.attendance), backgroundColor: '#93C5FD' },
+                  ],
+                },
+              },
+            },
+          ]
+        : []),
+      ...(report.inspections.length
+        ? [
+            {
+              type: 'table' as const,
+              title: 'Inspections',
+              head: ['Date', 'Type', 'Attendees'],
+              rows: report.inspections.map((inspection) => [
+                moment(inspection.held_at).format('ddd D MMM YYYY, h:mm a'),
+                INSPECTION_TYPE_LABELS[inspection.inspection_type],
+                inspection.attendees,
+              ]),
+            },
+          ]
+        : []),
+      ...(report.price_feedback.length
+        ? [
+            {
+              type: 'table' as const,
+              title: 'Price Feedback',
+              head: ['Date', 'From', 'Price', 'Comment'],
+              rows: report.price_feedback.map((feedback) => [
+                dateOrNA(feedback.received_at),
+                FEEDBACK_SOURCE_LABELS[feedback.source],
+                priceRangeLabel(feedback.price_low, feedback.price_high) || 'N/A',
+                feedback.comment || '',
+              ]),
+            },
+          ]
+        : []),
+      ...(report.comparables.length
+        ? [
+            {
+              type: 'table' as const,
+              title: `Recent Sales in ${normalizeSuburb(property.suburb || '') || 'the Suburb'}`,
+              head: ['Address', 'Type', 'Bed / Bath', 'Land Size', 'Sold Price', 'Sold Date'],
+              rows: report.comparables.map((sale) => [
+                [sale.street_number, sale.street_name].filter(Boolean).join(' ') || 'N/A',
+                sale.property_type || 'N/A',
+                [sale.bedrooms, sale.bathrooms].map((n) => n ?? '-').join(' / '),
+                sale.landsize ? `${sale.landsize} sqm` : 'N/A',
+                moneyOrNA(sale.sold_price),
+                dateOrNA(sale.sold_date),
+              ]),
+            },
+          ]
+        : []),
+      ...(report.campaign.length
+        ? [
+            {
+              type: 'table' as const,
+              title: 'Campaign Activity',
+              head: ['Date', 'Channel', 'Activity', 'Reach'],
+              rows: report.campaign.map((activity) => [
+                dateOrNA(activity.activity_date),
+                CAMPAIGN_CHANNEL_LABELS[activity.channel],
+                activity.description,
+                activity.reach ?? '',
+              ]),
+            },
+          ]
+        : []),
+    ];
+  },
+});
+
+const yesNo = (value: boolean) => (value ? 'Yes' : 'No');
+const textOrNA = (value: string | null) => value || 'N/A';
+
+// A recruitment enquiry from the careers form, as previewed and downloaded
+// from the admin dashboard.
+export const ENQUIRY_REPORT = defineReport<Enquiry>({
+  id: 'enquiry',
+  title: (enquiry) => `Enquiry: ${enquiry.full_name}`,
+  subtitle: (enquiry) => `Submitted ${moment(enquiry.submitted_at).format('DD/MM/YYYY h:mm a')}`,
+  fileName: (enquiry) => `enquiry-${enquiry.full_name}-${enquiry.id}.pdf`,
+  sections: (enquiry) => [
+    {
+      type: 'facts',
+      title: 'Applicant',
+      facts: [
+        { label: 'Full Name', value: enquiry.full_name },
+        { label: 'Submission ID', value: enquiry.id },
+        { label: 'Languages Known', value: textOrNA(enquiry.languages_known) },
+        { label: 'Full License', value: yesNo(enquiry.do_you_hold_a_full_license) },
+        { label: 'License Details', value: textOrNA(enquiry.full_license_details) },
+        { label: 'Owns Car', value: yesNo(enquiry.do_you_own_a_car) },
+        { label: 'Car Details', value: textOrNA(enquiry.car_details) },
+        { label: 'Driver’s License', value: yesNo(enquiry.do_you_hold_a_drivers_license) },
+        { label: 'Driver’s License Details', value: textOrNA(enquiry.drivers_license_details) },
+        { label: 'Bought/Sold in QLD', value: yesNo(enquiry.have_you_bought_and_sold_in_qld) },
+        { label: 'Bought/Sold QLD Details', value: textOrNA(enquiry.bought_sold_qld_details) },
+        { label: 'Financial Capability', value: yesNo(enquiry.financial_capability) },
+        { label: 'Financial Capability Details', value: textOrNA(enquiry.financial_capability_details) },
+      ],
+    },
+    {
+      type: 'facts',
+      title: 'Answers',
+      facts: [
+        { label: 'Why Real Estate', value: textOrNA(enquiry.why_real_estate) },
+        { label: 'Goal', value: textOrNA(enquiry.whats_your_goal) },
+        { label: 'Expected Earnings', value: textOrNA(enquiry.expected_earnings) },
+        { label: 'Agree to RITE Values', value: yesNo(enquiry.agree_to_rite_values) },
+        { label: 'Why Harcourts', value: textOrNA(enquiry.why_us) },
+        { label: 'Expectations from Harcourts', value: textOrNA(enquiry.what_do_you_expect_from_us) },
+        { label: 'Team Contribution', value: textOrNA(enquiry.team_contribution) },
+        { label: 'Suburbs to Prospect', value: textOrNA(enquiry.suburbs_to_prospect) },
+        { label: 'Strengths', value: textOrNA(enquiry.strengths) },
+        { label: 'Weaknesses', value: textOrNA(enquiry.weaknesses) },
+      ],
+    },
+  ],
+});
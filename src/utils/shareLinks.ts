@@ -0,0 +1,40 @@
+import { ShareLinkRow, ShareResourceType } from '../types/database';
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export const SHARE_EXPIRY_OPTIONS = [1, 7, 14, 30] as const;
+export const OTP_LENGTH = 6;
+
+export const SHARE_RESOURCE_LABELS: Record<ShareResourceType, string> = {
+  agent_profile: 'Agent profile',
+  property_report: 'Property report',
+  marketing_plan: 'Marketing plan',
+  vendor_report: 'Vendor report',
+};
+
+export const shareLinkStatus = (link: ShareLinkRow, now: Date = new Date()): ShareLinkStatus => {
+  if (link.revoked_at) return 'revoked';
+  if (new Date(link.expires_at).getTime() <= now.getTime()) return 'expired';
+  return 'active';
+};
+
+export const shareLinkUrl = (token: string, origin: string = window.location.origin) =>
+  `${origin.replace(/\/+$/, '')}/share/${encodeURIComponent(token)}`;
+
+const toHex = (bytes: ArrayBuffer) =>
+  Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+// 32 random bytes, base64url encoded: the secret part of the link.
+export const createShareToken = () =>
+  btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32))))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+export const createOtp = () =>
+  Array.from(crypto.getRandomValues(new Uint32Array(OTP_LENGTH)), (n) => String(n % 10)).join('');
+
+// Must match the hashing in resolve_share_link(): sha256(token) for the link
+// and sha256(token || ':' || otp) for its code.
+export const hashShareSecret = async (token: string, otp?: string): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(otp ? `${token}:${otp}` : token)));
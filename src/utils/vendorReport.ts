@@ -0,0 +1,133 @@
+// The weekly vendor report for a listing, as returned by vendor_report() in
+// the database. Shared by the report page, the shared-link view and the
+// Express scheduler that emails it, so nothing here may touch the DOM.
+
+import { CampaignChannel, InspectionType, PriceFeedbackSource } from '../types/database';
+import { formatCurrency } from './formatters';
+
+export interface VendorReportProperty {
+  id: string;
+  street_number: string | null;
+  street_name: string | null;
+  suburb: string | null;
+  postcode: string | null;
+  property_type: string | null;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  car_garage: number | null;
+  landsize: number | null;
+  price: number | null;
+  sale_type: string | null;
+  listed_date: string | null;
+  sold_date: string | null;
+  sold_price: number | null;
+  contract_status: string | null;
+  agent_name: string | null;
+}
+
+export interface VendorReportData {
+  generated_at: string;
+  // Start of the reporting week; "this week" figures count from here.
+  since: string;
+  property: VendorReportProperty;
+  days_on_market: number | null;
+  enquiries: {
+    total: number;
+    since: number;
+    // Monday of each week with at least one enquiry.
+    weekly: { week: string; count: number }[];
+  };
+  inspections: { id: string; held_at: string; inspection_type: InspectionType; attendees: number }[];
+  price_feedback: {
+    id: string;
+    received_at: string;
+    source: PriceFeedbackSource;
+    price_low: number | null;
+    price_high: number | null;
+    comment: string | null;
+  }[];
+  campaign: { id: string; activity_date: string; channel: CampaignChannel; description: string; reach: number | null }[];
+  // Sales in the same suburb over the last six months, same type first.
+  comparables: {
+    id: string;
+    street_number: string | null;
+    street_name: string | null;
+    property_type: string | null;
+    bedrooms: number | null;
+    bathrooms: number | null;
+    landsize: number | null;
+    sold_price: number | null;
+    sold_date: string | null;
+  }[];
+}
+
+export const INSPECTION_TYPE_LABELS: Record<InspectionType, string> = {
+  open_home: 'Open home',
+  private: 'Private inspection',
+};
+
+export const FEEDBACK_SOURCE_LABELS: Record<PriceFeedbackSource, string> = {
+  buyer: 'Buyer',
+  inspection: 'Inspection',
+  enquiry: 'Enquiry',
+  agent: 'Agent',
+};
+
+export const CAMPAIGN_CHANNEL_LABELS: Record<CampaignChannel, string> = {
+  online: 'Online listing',
+  print: 'Print',
+  social: 'Social media',
+  email: 'Email campaign',
+  signboard: 'Signboard',
+  open_home: 'Open home',
+  other: 'Other',
+};
+
+// Indexed by vendor_report_schedules.weekday (0 = Sunday).
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const vendorReportAddress = ({ property }: VendorReportData) =>
+  [[property.street_number, property.street_name].filter(Boolean).join(' '), property.suburb]
+    .filter(Boolean)
+    .join(', ') || 'Your property';
+
+const isThisWeek = (report: VendorReportData, date: string) => new Date(date) >= new Date(report.since);
+
+export const inspectionsThisWeek = (report: VendorReportData) =>
+  report.inspections.filter((inspection) => isThisWeek(report, inspection.held_at));
+
+export const totalAttendance = (inspections: VendorReportData['inspections']) =>
+  inspections.reduce((sum, inspection) => sum + inspection.attendees, 0);
+
+// "$850,000 – $900,000", "From $850,000", "Up to $900,000" or null.
+export const priceRangeLabel = (low: number | null, high: number | null): string | null => {
+  if (low && high) return low === high ? formatCurrency(low) : `${formatCurrency(low)} – ${formatCurrency(high)}`;
+  if (low) return `From ${formatCurrency(low)}`;
+  if (high) return `Up to ${formatCurrency(high)}`;
+  return null;
+};
+
+// Lowest and highest figure across all price feedback, or null if none
+// carried a figure.
+export const feedbackRange = (report: VendorReportData): string | null => {
+  const figures = report.price_feedback
+    .flatMap((feedback) => [feedback.price_low, feedback.price_high])
+    .filter((value): value is number => !!value);
+  return figures.length ? priceRangeLabel(Math.min(...figures), Math.max(...figures)) : null;
+};
+
+const plural = (count: number, word: string, many = `${word}s`) => `${count} ${count === 1 ? word : many}`;
+
+// One line per headline figure, for the weekly email.
+export const vendorReportHighlights = (report: VendorReportData): string[] => {
+  const inspections = inspectionsThisWeek(report);
+  const campaign = report.campaign.filter((activity) => isThisWeek(report, activity.activity_date));
+  const range = feedbackRange(report);
+  return [
+    ...(report.days_on_market !== null ? [`${plural(report.days_on_market, 'day')} on the market`] : []),
+    `${plural(report.enquiries.since, 'enquiry', 'enquiries')} this week (${report.enquiries.total} in total)`,
+    `${plural(inspections.length, 'inspection')} this week with ${plural(totalAttendance(inspections), 'group')} through`,
+    ...(range ? [`Buyer price feedback so far: ${range}`] : []),
+    ...(campaign.length ? [`${plural(campaign.length, 'campaign activity', 'campaign activities')} this week`] : []),
+  ];
+};
@@ -0,0 +1,166 @@
+// Single-use invite tokens for new staff accounts. Only the SHA-256 of a token
+// is stored (`agent_invites.token_hash`); the token itself exists in the link
+// handed to the new user and nowhere else. Accepting a token sets the user's
+// first password and burns the token.
+//
+// Shared by the `create-agent` and `agent-invite` edge functions and the
+// Express API. `inviteStatus` is also used by the app to label invites.
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const INVITE_TTL_DAYS = 7;
+export const MIN_PASSWORD_LENGTH = 8;
+
+export type InviteStatus = 'sent' | 'opened' | 'accepted' | 'expired' | 'revoked';
+
+export interface AgentInviteRow {
+  id: string;
+  user_id: string;
+  email: string;
+  created_by: string | null;
+  sent_at: string;
+  expires_at: string;
+  opened_at: string | null;
+  accepted_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface IssuedInvite {
+  invite_link: string;
+  expires_at: string;
+}
+
+export type InviteErrorCode = 'invalid_token' | 'expired' | 'already_accepted' | 'revoked' | 'weak_password' | 'failed';
+
+export class InviteError extends Error {
+  code: InviteErrorCode;
+
+  constructor(code: InviteErrorCode, message: string) {
+    super(message);
+    this.name = 'InviteError';
+    this.code = code;
+  }
+}
+
+export const inviteStatus = (invite: AgentInviteRow, now: Date = new Date()): InviteStatus => {
+  if (invite.accepted_at) return 'accepted';
+  if (invite.revoked_at) return 'revoked';
+  if (new Date(invite.expires_at).getTime() <= now.getTime()) return 'expired';
+  return invite.opened_at ? 'opened' : 'sent';
+};
+
+const toHex = (bytes: ArrayBuffer) =>
+  Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const hashInviteToken = async (token: string): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token)));
+
+export const createInviteToken = async () => {
+  const token = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+  const expiresAt = new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  return { token, tokenHash: await hashInviteToken(token), expiresAt };
+};
+
+export const inviteLink = (appUrl: string, token: string) =>
+  `${appUrl.replace(/\/+$/, '')}/set-password?token=${encodeURIComponent(token)}`;
+
+// Replaces any outstanding invite for the user with a fresh one, so only the
+// newest link works.
+export const issueInvite = async (
+  admin: SupabaseClient,
+  userId: string,
+  options: { appUrl: string; createdBy?: string | null }
+): Promise<IssuedInvite> => {
+  const { data: profile, error: profileError } = await admin
+    .from('profiles')
+    .select('id, email, deleted_at')
+    .eq('id', userId)
+    .maybeSingle();
+  if (profileError) throw new InviteError('failed', `Could not load the profile: ${profileError.message}`);
+  if (!profile || profile.deleted_at) throw new InviteError('invalid_token', 'No active account exists for this user');
+
+  const { data: accepted } = await admin
+    .from('agent_invites')
+    .select('id')
+    .eq('user_id', userId)
+    .not('accepted_at', 'is', null)
+    .limit(1);
+  if (accepted?.length) throw new InviteError('already_accepted', `${profile.email} has already set a password`);
+
+  const now = new Date().toISOString();
+  const { error: revokeError } = await admin
+    .from('agent_invites')
+    .update({ revoked_at: now })
+    .eq('user_id', userId)
+    .is('accepted_at', null)
+    .is('revoked_at', null);
+  if (revokeError) throw new InviteError('failed', `Could not revoke earlier invites: ${revokeError.message}`);
+
+  const { token, tokenHash, expiresAt } = await createInviteToken();
+  const { error } = await admin.from('agent_invites').insert({
+    user_id: userId,
+    email: profile.email,
+    token_hash: tokenHash,
+    created_by: options.createdBy ?? null,
+    expires_at: expiresAt,
+  });
+  if (error) throw new InviteError('failed', `Could not create the invite: ${error.message}`);
+
+  return { invite_link: inviteLink(options.appUrl, token), expires_at: expiresAt };
+};
+
+const findInvite = async (admin: SupabaseClient, token: string): Promise<AgentInviteRow> => {
+  const { data, error } = await admin
+    .from('agent_invites')
+    .select('*')
+    .eq('token_hash', await hashInviteToken(token))
+    .maybeSingle();
+  if (error) throw new InviteError('failed', `Could not look up the invite: ${error.message}`);
+  if (!data) throw new InviteError('invalid_token', 'This invite link is not valid');
+  return data;
+};
+
+const assertUsable = (invite: AgentInviteRow) => {
+  const status = inviteStatus(invite);
+  if (status === 'accepted') throw new InviteError('already_accepted', 'This invite has already been used. Sign in instead.');
+  if (status === 'revoked') throw new InviteError('revoked', 'A newer invite has replaced this link');
+  if (status === 'expired') throw new InviteError('expired', 'This invite has expired. Ask your administrator to resend it.');
+};
+
+// Called when the set-password page loads; records the first open.
+export const openInvite = async (admin: SupabaseClient, token: string) => {
+  const invite = await findInvite(admin, token);
+  assertUsable(invite);
+  if (!invite.opened_at) {
+    await admin.from('agent_invites').update({ opened_at: new Date().toISOString() }).eq('id', invite.id);
+  }
+  return { email: invite.email, expires_at: invite.expires_at };
+};
+
+export const acceptInvite = async (admin: SupabaseClient, token: string, password: string) => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new InviteError('weak_password', `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`);
+  }
+  const invite = await findInvite(admin, token);
+  assertUsable(invite);
+
+  // Claim the token before touching the login so two submissions of the same
+  // link cannot both succeed.
+  const { data: claimed, error: claimError } = await admin
+    .from('agent_invites')
+    .update({ accepted_at: new Date().toISOString(), opened_at: invite.opened_at ?? new Date().toISOString() })
+    .eq('id', invite.id)
+    .is('accepted_at', null)
+    .select('id');
+  if (claimError) throw new InviteError('failed', `Could not accept the invite: ${claimError.message}`);
+  if (!claimed?.length) throw new InviteError('already_accepted', 'This invite has already been used. Sign in instead.');
+
+  const { error } = await admin.auth.admin.updateUserById(invite.user_id, { password, email_confirm: true });
+  if (error) {
+    await admin.from('agent_invites').update({ accepted_at: null }).eq('id', invite.id);
+    throw new InviteError('failed', `Could not set the password: ${error.message}`);
+  }
+  return { email: invite.email };
+};
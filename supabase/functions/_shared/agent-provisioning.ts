@@ -0,0 +1,158 @@
+// Agent provisioning shared by every entry point that creates staff accounts:
+// the Express API (src/server.ts), the `create-agent` edge function and,
+// through that function, AgentManagement, CreateAgentModal and createAgent.js.
+//
+// It runs with a service-role client. The login is created first, without a
+// password, then `provision_agent_records()` writes the profile, agents row and
+// first invite in one transaction (migrations 20261019160000_clear_beacon.sql
+// and 20261019170000_sealed_envelope.sql). If that fails the login is deleted
+// again, so a half-created agent never survives. The new user picks their own
+// password through the invite link (see agent-invites.ts).
+// Nothing here imports from src/ or Node, so Deno can load it unchanged.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createInviteToken, inviteLink } from './agent-invites.ts';
+
+export type ProvisionRole = 'admin' | 'principal' | 'agent' | 'assistant' | 'read_only';
+
+export const PROVISION_ROLES: ProvisionRole[] = ['admin', 'principal', 'agent', 'assistant', 'read_only'];
+
+export interface ProvisionPermissions {
+  canRegisterProperties: boolean;
+  canEditProperties: boolean;
+  canDeleteProperties: boolean;
+}
+
+export interface ProvisionAgentInput {
+  email: string;
+  name: string;
+  phone?: string | null;
+  role?: ProvisionRole;
+  permissions?: ProvisionPermissions;
+  agencyName?: string | null;
+}
+
+export interface ProvisionOptions {
+  // Base URL of the app; the invite link points at its /set-password page.
+  appUrl: string;
+  createdBy?: string | null;
+}
+
+export interface ProvisionedAgent {
+  id: string;
+  agent_id: string;
+  email: string;
+  name: string;
+  phone: string | null;
+  role: ProvisionRole;
+  permissions: ProvisionPermissions;
+  invite_link: string;
+  invite_expires_at: string;
+}
+
+export type ProvisioningErrorCode = 'invalid_input' | 'already_exists' | 'auth_failed' | 'records_failed';
+
+export class ProvisioningError extends Error {
+  code: ProvisioningErrorCode;
+
+  constructor(code: ProvisioningErrorCode, message: string) {
+    super(message);
+    this.name = 'ProvisioningError';
+    this.code = code;
+  }
+}
+
+export const DEFAULT_AGENT_PERMISSIONS: ProvisionPermissions = {
+  canRegisterProperties: true,
+  canEditProperties: true,
+  canDeleteProperties: false,
+};
+
+const FULL_PERMISSIONS: ProvisionPermissions = {
+  canRegisterProperties: true,
+  canEditProperties: true,
+  canDeleteProperties: true,
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Emails are stored lower-case, but older profiles may not be, so the
+// duplicate check stays case-insensitive with `_` and `%` matched literally.
+const ilikeLiteral = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+const isDuplicateUser = (error: { message: string; code?: string; status?: number }) =>
+  error.code === 'email_exists' || error.status === 422 || /already (been )?registered|already exists/i.test(error.message);
+
+export const provisionAgent = async (
+  admin: SupabaseClient,
+  input: ProvisionAgentInput,
+  options: ProvisionOptions
+): Promise<ProvisionedAgent> => {
+  const email = input.email.trim().toLowerCase();
+  const name = input.name.trim();
+  const phone = input.phone?.trim() || null;
+  const role = input.role ?? 'agent';
+  const permissions = input.permissions ?? (role === 'agent' ? DEFAULT_AGENT_PERMISSIONS : FULL_PERMISSIONS);
+
+  if (!EMAIL_PATTERN.test(email)) throw new ProvisioningError('invalid_input', 'A valid email address is required');
+  if (name.length < 2) throw new ProvisioningError('invalid_input', 'A name of at least 2 characters is required');
+  if (!PROVISION_ROLES.includes(role)) throw new ProvisioningError('invalid_input', `Unknown role: ${role}`);
+
+  const { data: existing, error: existingError } = await admin
+    .from('profiles')
+    .select('id')
+    .ilike('email', ilikeLiteral(email))
+    .maybeSingle();
+  if (existingError) throw new ProvisioningError('records_failed', `Could not check existing profiles: ${existingError.message}`);
+  if (existing) throw new ProvisioningError('already_exists', `${email} already has an account`);
+
+  const { data: created, error: createError } = await admin.auth.admin.createUser({
+    email,
+    email_confirm: true,
+    user_metadata: { name, phone, role },
+  });
+  if (createError || !created?.user) {
+    if (createError && isDuplicateUser(createError)) {
+      throw new ProvisioningError('already_exists', `${email} already has an account`);
+    }
+    throw new ProvisioningError('auth_failed', `Could not create the login: ${createError?.message || 'no user returned'}`);
+  }
+
+  const userId = created.user.id;
+  const invite = await createInviteToken();
+  const { data: profile, error: recordsError } = await admin.rpc('provision_agent_records', {
+    p_user_id: userId,
+    p_email: email,
+    p_name: name,
+    p_phone: phone,
+    p_role: role,
+    p_permissions: permissions,
+    p_agency_name: input.agencyName ?? null,
+    p_invite_token_hash: invite.tokenHash,
+    p_invite_expires_at: invite.expiresAt,
+    p_created_by: options.createdBy ?? null,
+  });
+
+  if (recordsError || !profile) {
+    const { error: rollbackError } = await admin.auth.admin.deleteUser(userId);
+    const reason = recordsError?.message || 'no profile returned';
+    if (rollbackError) {
+      throw new ProvisioningError(
+        'records_failed',
+        `Could not create the agent records (${reason}) and the login ${userId} could not be removed: ${rollbackError.message}`
+      );
+    }
+    throw new ProvisioningError('records_failed', `Could not create the agent records: ${reason}`);
+  }
+
+  return {
+    id: userId,
+    agent_id: profile.agent_id,
+    email,
+    name,
+    phone,
+    role,
+    permissions,
+    invite_link: inviteLink(options.appUrl, invite.token),
+    invite_expires_at: invite.expiresAt,
+  };
+};
@@ -0,0 +1,67 @@
+// Request plumbing shared by the edge functions: CORS, JSON responses with the
+// same `{ success, code, error }` shape everywhere, and the check that the
+// caller may manage staff accounts.
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+export const corsHeaders = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const STATUS_BY_CODE: Record<string, number> = {
+  invalid_input: 400,
+  weak_password: 400,
+  unauthenticated: 401,
+  forbidden: 403,
+  invalid_token: 404,
+  already_exists: 409,
+  already_accepted: 409,
+  expired: 410,
+  revoked: 410,
+  auth_failed: 502,
+  records_failed: 502,
+  failed: 502,
+};
+
+export const respond = (status: number, body: Record<string, unknown>) =>
+  new Response(JSON.stringify(body), { status, headers: corsHeaders });
+
+export const fail = (code: string, message: string) =>
+  respond(STATUS_BY_CODE[code] ?? 500, { success: false, code, error: message });
+
+export const serviceClient = (): SupabaseClient =>
+  createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '', {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+
+export const appUrl = (req: Request) => Deno.env.get('APP_URL') || req.headers.get('origin') || '';
+
+export interface UserManager {
+  // null when the service-role key itself made the call (createAgent.js)
+  id: string | null;
+  isAdmin: boolean;
+}
+
+// Resolves the bearer token to someone with users.manage, or returns the
+// response to send back instead.
+export const authorizeUserManager = async (req: Request, admin: SupabaseClient): Promise<UserManager | Response> => {
+  const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+  if (!token) return fail('unauthenticated', 'Authentication required');
+  if (token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) return { id: null, isAdmin: true };
+
+  const { data: caller, error: callerError } = await admin.auth.getUser(token);
+  if (callerError || !caller.user) return fail('unauthenticated', 'Session is invalid or has expired');
+
+  // has_capability() answers for auth.uid(), so ask it as the caller.
+  const asCaller = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+  const { data: canManage, error: capabilityError } = await asCaller.rpc('has_capability', { cap: 'users.manage' });
+  if (capabilityError || !canManage) return fail('forbidden', 'You do not have permission to manage staff accounts');
+
+  const { data: profile } = await admin.from('profiles').select('role').eq('id', caller.user.id).maybeSingle();
+  return { id: caller.user.id, isAdmin: profile?.role === 'admin' };
+};
@@ -0,0 +1,58 @@
+// supabase/functions/agent-invite/index.ts
+//
+//   { action: 'open', token }              public - the set-password page loading
+//   { action: 'accept', token, password }  public - sets the first password
+//   { action: 'resend', userId }           users.manage - issues a fresh link
+import { acceptInvite, InviteError, issueInvite, openInvite } from '../_shared/agent-invites.ts';
+import { appUrl, authorizeUserManager, corsHeaders, fail, respond, serviceClient } from '../_shared/http.ts';
+
+interface InviteRequest {
+  action?: 'open' | 'accept' | 'resend';
+  token?: string;
+  password?: string;
+  userId?: string;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return fail('invalid_input', 'Use POST');
+
+  let body: InviteRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return fail('invalid_input', 'The request body is not valid JSON');
+  }
+
+  const admin = serviceClient();
+  try {
+    switch (body.action) {
+      case 'open': {
+        if (!body.token) return fail('invalid_input', 'An invite token is required');
+        return respond(200, { success: true, data: await openInvite(admin, body.token) });
+      }
+      case 'accept': {
+        if (!body.token || typeof body.password !== 'string') {
+          return fail('invalid_input', 'An invite token and password are required');
+        }
+        const accepted = await acceptInvite(admin, body.token, body.password);
+        console.log('Invite accepted:', { email: accepted.email });
+        return respond(200, { success: true, data: accepted });
+      }
+      case 'resend': {
+        const caller = await authorizeUserManager(req, admin);
+        if (caller instanceof Response) return caller;
+        if (!body.userId) return fail('invalid_input', 'A user id is required');
+        const invite = await issueInvite(admin, body.userId, { appUrl: appUrl(req), createdBy: caller.id });
+        console.log('Invite resent:', { userId: body.userId, by: caller.id });
+        return respond(200, { success: true, data: invite });
+      }
+      default:
+        return fail('invalid_input', 'Unknown action');
+    }
+  } catch (error) {
+    if (error instanceof InviteError) return fail(error.code, error.message);
+    console.error('Unexpected invite error:', error);
+    return respond(500, { success: false, code: 'internal', error: 'Something went wrong, please try again' });
+  }
+});
@@ -1,94 +1,49 @@
 // supabase/functions/create-agent/index.ts
-import { serve } from 'std/http';
-import { createClient } from '@supabase/supabase-js';
+import { ProvisionAgentInput, ProvisioningError, provisionAgent } from '../_shared/agent-provisioning.ts';
+import { appUrl, authorizeUserManager, corsHeaders, fail, respond, serviceClient } from '../_shared/http.ts';
 
-serve(async (req) => {
-  try {
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
-      { auth: { autoRefreshToken: false, persistSession: false } }
-    );
-
-    const { email, permissions, name, phone } = await req.json();
-    
-    console.log('Creating agent for:', { email, name, phone, timestamp: new Date().toISOString() });
-
-    // Create auth user
-    console.log('Before auth.admin.createUser:', { email, timestamp: new Date().toISOString() });
-    const { data: user, error: authError } = await supabaseClient.auth.admin.createUser({
-      email,
-      email_confirm: true,
-      user_metadata: { role: 'agent' },
-    });
-    console.log('After auth.admin.createUser:', { user, authError, timestamp: new Date().toISOString() });
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return fail('invalid_input', 'Use POST');
 
-    if (authError) {
-      console.error('Auth error:', {
-        message: authError.message,
-        code: authError.code,
-        details: authError,
-        timestamp: new Date().toISOString(),
-      });
-      throw new Error(`Authentication error: ${authError.message} (Code: ${authError.code || 'N/A'})`);
-    }
-
-    // Create profile
-    console.log('Before profiles insert:', { userId: user.user.id, timestamp: new Date().toISOString() });
-    const { data: profile, error: profileError } = await supabaseClient
-      .from('profiles')
-      .insert({
-        id: user.user.id,
-        email,
-        name,
-        phone,
-        role: 'agent',
-        agent_id: `AGENT-${crypto.randomUUID().slice(0, 8)}`,
-        permissions,
-      })
-      .select()
-      .single();
-    console.log('After profiles insert:', { profile, profileError, timestamp: new Date().toISOString() });
+  const admin = serviceClient();
+  const caller = await authorizeUserManager(req, admin);
+  if (caller instanceof Response) return caller;
 
-    if (profileError) {
-      console.error('Profile error:', {
-        message: profileError.message,
-        code: profileError.code,
-        details: profileError,
-        timestamp: new Date().toISOString(),
-      });
-      throw new Error(`Profile insert error: ${profileError.message}`);
-    }
+  let body: ProvisionAgentInput;
+  try {
+    body = await req.json();
+  } catch {
+    return fail('invalid_input', 'The request body is not valid JSON');
+  }
+  if (typeof body?.email !== 'string' || typeof body?.name !== 'string') {
+    return fail('invalid_input', 'Email and name are required');
+  }
+  if (body.role === 'admin' && !caller.isAdmin) {
+    return fail('forbidden', 'Only administrators can grant the administrator role');
+  }
 
-    return new Response(
-      JSON.stringify({ success: true, data: profile }),
+  try {
+    const agent = await provisionAgent(
+      admin,
       {
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'POST, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type',
-        },
-      }
+        email: body.email,
+        name: body.name,
+        phone: body.phone,
+        role: body.role,
+        permissions: body.permissions,
+        agencyName: body.agencyName,
+      },
+      { appUrl: appUrl(req), createdBy: caller.id }
     );
+    console.log('Provisioned agent:', { id: agent.id, email: agent.email, role: agent.role });
+    return respond(201, { success: true, data: agent });
   } catch (error) {
-    console.error('Error:', {
-      message: error.message,
-      code: error.code,
-      details: error,
-      timestamp: new Date().toISOString(),
-    });
-    return new Response(
-      JSON.stringify({ success: false, error: error.message }),
-      {
-        status: 400,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'POST, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type',
-        },
-      }
-    );
+    if (error instanceof ProvisioningError) {
+      console.error('Provisioning failed:', { code: error.code, message: error.message, email: body.email });
+      return fail(error.code, error.message);
+    }
+    console.error('Unexpected provisioning error:', error);
+    return respond(500, { success: false, code: 'internal', error: 'Failed to create agent' });
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,53 @@
+/*
+  # Suburb gazetteer
+
+  1. New Tables
+    - `suburbs` - canonical suburb name, state, postcode, alias spellings and centroid
+
+  2. Seed
+    - The suburbs the agency currently reports on, matching SEED_SUBURBS in src/utils/gazetteer.ts
+
+  3. Security
+    - Enable RLS
+    - Everyone can read suburbs; only admins can manage them
+*/
+
+CREATE TABLE IF NOT EXISTS suburbs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  state text NOT NULL DEFAULT 'QLD',
+  postcode text NOT NULL,
+  aliases text[] NOT NULL DEFAULT '{}',
+  latitude numeric NOT NULL,
+  longitude numeric NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (name, state, postcode)
+);
+
+ALTER TABLE suburbs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Suburbs are viewable by everyone"
+  ON suburbs FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage suburbs"
+  ON suburbs FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'));
+
+INSERT INTO suburbs (name, state, postcode, aliases, latitude, longitude) VALUES
+  ('Moggill', 'QLD', '4070', '{}', -27.570, 152.874),
+  ('Bellbowrie', 'QLD', '4070', '{}', -27.559, 152.886),
+  ('Pullenvale', 'QLD', '4069', '{}', -27.522, 152.885),
+  ('Brookfield', 'QLD', '4069', '{}', -27.493, 152.897),
+  ('Anstead', 'QLD', '4070', '{}', -27.538, 152.861),
+  ('Chapel Hill', 'QLD', '4069', '{"chapell hill","chappel hill"}', -27.502, 152.971),
+  ('Kenmore', 'QLD', '4069', '{}', -27.507, 152.939),
+  ('Kenmore Hills', 'QLD', '4069', '{}', -27.502, 152.929),
+  ('Fig Tree Pocket', 'QLD', '4069', '{"figtree pocket"}', -27.529, 152.961),
+  ('Pinjarra Hills', 'QLD', '4069', '{"pinjara hills"}', -27.537, 152.906),
+  ('Springfield', 'QLD', '4300', '{}', -27.653, 152.918),
+  ('Spring Mountain', 'QLD', '4300', '{}', -27.690, 152.895),
+  ('Greenbank', 'QLD', '4124', '{}', -27.705, 153.010)
+ON CONFLICT (name, state, postcode) DO NOTHING;
@@ -0,0 +1,52 @@
+/*
+  # Geocoded coordinates on properties and contacts
+
+  1. Changes
+    - `properties` and `contacts` gain `latitude`, `longitude`, `geocode_status`
+      ('resolved' | 'unresolved') and `geocoded_at`, filled in by src/api/geocoding.ts
+    - A trigger clears the cached coordinates whenever the street number, street
+      name or suburb changes, so the row is looked up again
+
+  2. Indexes
+    - Partial index on unresolved rows for the review list
+*/
+
+ALTER TABLE properties
+  ADD COLUMN IF NOT EXISTS latitude double precision,
+  ADD COLUMN IF NOT EXISTS longitude double precision,
+  ADD COLUMN IF NOT EXISTS geocode_status text CHECK (geocode_status IN ('resolved', 'unresolved')),
+  ADD COLUMN IF NOT EXISTS geocoded_at timestamptz;
+
+ALTER TABLE contacts
+  ADD COLUMN IF NOT EXISTS latitude double precision,
+  ADD COLUMN IF NOT EXISTS longitude double precision,
+  ADD COLUMN IF NOT EXISTS geocode_status text CHECK (geocode_status IN ('resolved', 'unresolved')),
+  ADD COLUMN IF NOT EXISTS geocoded_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS properties_geocode_unresolved_idx ON properties (suburb) WHERE geocode_status = 'unresolved';
+CREATE INDEX IF NOT EXISTS contacts_geocode_unresolved_idx ON contacts (suburb) WHERE geocode_status = 'unresolved';
+
+CREATE OR REPLACE FUNCTION clear_stale_geocode()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.street_number IS DISTINCT FROM OLD.street_number
+    OR NEW.street_name IS DISTINCT FROM OLD.street_name
+    OR NEW.suburb IS DISTINCT FROM OLD.suburb THEN
+    NEW.latitude := NULL;
+    NEW.longitude := NULL;
+    NEW.geocode_status := NULL;
+    NEW.geocoded_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS properties_clear_stale_geocode ON properties;
+CREATE TRIGGER properties_clear_stale_geocode
+  BEFORE UPDATE ON properties
+  FOR EACH ROW EXECUTE FUNCTION clear_stale_geocode();
+
+DROP TRIGGER IF EXISTS contacts_clear_stale_geocode ON contacts;
+CREATE TRIGGER contacts_clear_stale_geocode
+  BEFORE UPDATE ON contacts
+  FOR EACH ROW EXECUTE FUNCTION clear_stale_geocode();
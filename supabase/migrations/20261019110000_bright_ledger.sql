@@ -0,0 +1,57 @@
+/*
+  # Appraisals
+
+  1. New Tables
+    - `appraisals` - one row per desktop or in-person appraisal
+      - linked to a `contacts` row and/or an address (street number, street name, suburb)
+      - agent, appraisal date, estimated value range, vendor expectation
+      - outcome: pending, listed, lost or follow_up (with a follow-up date)
+
+  2. Security
+    - Enable RLS
+    - Agents manage their own appraisals; admins manage all
+*/
+
+CREATE TABLE IF NOT EXISTS appraisals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  contact_id uuid REFERENCES contacts(id) ON DELETE SET NULL,
+  property_id uuid REFERENCES properties(id) ON DELETE SET NULL,
+  appraisal_type text NOT NULL CHECK (appraisal_type IN ('desktop', 'in_person')),
+  appraisal_date date NOT NULL DEFAULT CURRENT_DATE,
+  street_number text,
+  street_name text,
+  suburb text,
+  estimate_low numeric,
+  estimate_high numeric,
+  vendor_expectation numeric,
+  outcome text NOT NULL DEFAULT 'pending' CHECK (outcome IN ('pending', 'listed', 'lost', 'follow_up')),
+  follow_up_date date,
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (contact_id IS NOT NULL OR street_name IS NOT NULL),
+  CHECK (estimate_low IS NULL OR estimate_high IS NULL OR estimate_low <= estimate_high)
+);
+
+CREATE INDEX IF NOT EXISTS appraisals_agent_date_idx ON appraisals (agent_id, appraisal_date);
+
+ALTER TABLE appraisals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents can manage their own appraisals"
+  ON appraisals FOR ALL
+  TO authenticated
+  USING (agent_id = auth.uid())
+  WITH CHECK (agent_id = auth.uid());
+
+CREATE POLICY "Admins can manage all appraisals"
+  ON appraisals FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'));
+
+-- Leaderboard totals are visible to every signed-in agent
+CREATE POLICY "Authenticated users can view appraisals"
+  ON appraisals FOR SELECT
+  TO authenticated
+  USING (true);
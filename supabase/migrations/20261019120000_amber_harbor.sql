@@ -0,0 +1,195 @@
+/*
+  # Deal pipeline
+
+  1. New Tables
+    - `pipeline_stages` - configurable board columns. Each stage belongs to a
+      `category` (listing, written, conditional, unconditional, settled,
+      fallen_over) which drives the pipeline ratios, so stages can be renamed
+      or added without breaking reporting
+    - `deals` - one per listed property, holding its current stage and when it
+      last moved
+    - `deal_stage_history` - every stage change, written by trigger
+
+  2. Changes
+    - New properties enter the pipeline at the first listing stage
+    - Moving a deal keeps `properties.category` and `contract_status` in step
+    - Existing properties are backfilled from their category and contract status
+
+  3. Security
+    - Enable RLS on all three tables
+    - Everyone signed in can read stages; admins manage them
+    - Agents manage their own deals; admins manage all
+    - History is readable wherever the deal is
+*/
+
+CREATE TABLE IF NOT EXISTS pipeline_stages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  category text NOT NULL CHECK (category IN ('listing', 'written', 'conditional', 'unconditional', 'settled', 'fallen_over')),
+  position integer NOT NULL DEFAULT 0,
+  color text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO pipeline_stages (name, category, position, color) VALUES
+  ('Listed', 'listing', 1, 'blue'),
+  ('Written', 'written', 2, 'indigo'),
+  ('Conditional', 'conditional', 3, 'yellow'),
+  ('Unconditional', 'unconditional', 4, 'orange'),
+  ('Settled', 'settled', 5, 'green'),
+  ('Fallen Over', 'fallen_over', 6, 'red');
+
+CREATE TABLE IF NOT EXISTS deals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL UNIQUE REFERENCES properties(id) ON DELETE CASCADE,
+  agent_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  stage_id uuid NOT NULL REFERENCES pipeline_stages(id),
+  stage_changed_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS deals_agent_idx ON deals (agent_id, created_at);
+
+CREATE TABLE IF NOT EXISTS deal_stage_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  deal_id uuid NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+  from_stage_id uuid REFERENCES pipeline_stages(id),
+  to_stage_id uuid NOT NULL REFERENCES pipeline_stages(id),
+  changed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS deal_stage_history_deal_idx ON deal_stage_history (deal_id, changed_at);
+
+CREATE OR REPLACE FUNCTION record_deal_stage_change()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.stage_id IS NOT DISTINCT FROM OLD.stage_id THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO deal_stage_history (deal_id, from_stage_id, to_stage_id, changed_by, changed_at)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.stage_id END,
+    NEW.stage_id,
+    auth.uid(),
+    NEW.stage_changed_at
+  );
+
+  -- Keep the legacy free-text columns meaningful for screens that still read them
+  IF TG_OP = 'UPDATE' THEN
+    UPDATE properties p
+    SET
+      category = CASE s.category
+        WHEN 'settled' THEN 'Sold'
+        WHEN 'listing' THEN 'Listing'
+        WHEN 'fallen_over' THEN 'Listing'
+        ELSE 'Under Offer'
+      END,
+      contract_status = CASE s.category
+        WHEN 'written' THEN 'Under Offer'
+        WHEN 'conditional' THEN 'Under Contract'
+        WHEN 'unconditional' THEN 'Under Contract'
+        WHEN 'settled' THEN 'Sale'
+        ELSE 'None'
+      END
+    FROM pipeline_stages s
+    WHERE s.id = NEW.stage_id AND p.id = NEW.property_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION touch_deal_stage()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.stage_id IS DISTINCT FROM OLD.stage_id THEN
+    NEW.stage_changed_at := now();
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS deals_touch_stage ON deals;
+CREATE TRIGGER deals_touch_stage
+  BEFORE UPDATE ON deals
+  FOR EACH ROW EXECUTE FUNCTION touch_deal_stage();
+
+DROP TRIGGER IF EXISTS deals_record_stage_change ON deals;
+CREATE TRIGGER deals_record_stage_change
+  AFTER INSERT OR UPDATE OF stage_id ON deals
+  FOR EACH ROW EXECUTE FUNCTION record_deal_stage_change();
+
+CREATE OR REPLACE FUNCTION open_deal_for_property()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO deals (property_id, agent_id, stage_id, stage_changed_at, created_at)
+  SELECT NEW.id, NEW.agent_id, s.id, now(), now()
+  FROM pipeline_stages s
+  WHERE s.category = 'listing' AND s.is_active
+  ORDER BY s.position
+  LIMIT 1
+  ON CONFLICT (property_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS properties_open_deal ON properties;
+CREATE TRIGGER properties_open_deal
+  AFTER INSERT ON properties
+  FOR EACH ROW EXECUTE FUNCTION open_deal_for_property();
+
+-- Backfill: one deal per existing property, staged from its category/contract status
+INSERT INTO deals (property_id, agent_id, stage_id, stage_changed_at, created_at)
+SELECT
+  p.id,
+  p.agent_id,
+  (SELECT s.id FROM pipeline_stages s
+   WHERE s.category = CASE
+     WHEN p.category = 'Sold' OR p.contract_status = 'Sale' THEN 'settled'
+     WHEN p.contract_status = 'Under Contract' THEN 'conditional'
+     WHEN p.category = 'Under Offer' OR p.contract_status = 'Under Offer' THEN 'written'
+     ELSE 'listing'
+   END
+   ORDER BY s.position LIMIT 1),
+  COALESCE(p.sold_date::timestamptz, p.listed_date::timestamptz, p.created_at, now()),
+  COALESCE(p.listed_date::timestamptz, p.created_at, now())
+FROM properties p
+ON CONFLICT (property_id) DO NOTHING;
+
+ALTER TABLE pipeline_stages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE deals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE deal_stage_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view pipeline stages"
+  ON pipeline_stages FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage pipeline stages"
+  ON pipeline_stages FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'));
+
+CREATE POLICY "Agents can manage their own deals"
+  ON deals FOR ALL
+  TO authenticated
+  USING (agent_id = auth.uid())
+  WITH CHECK (agent_id = auth.uid());
+
+CREATE POLICY "Admins can manage all deals"
+  ON deals FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'));
+
+CREATE POLICY "Users can view history of deals they can see"
+  ON deal_stage_history FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM deals WHERE deals.id = deal_stage_history.deal_id));
@@ -0,0 +1,54 @@
+/*
+  # Commission ledger
+
+  1. New Tables
+    - `commission_ledger` - one row per sold property: sale price, GST-inclusive
+      rate, gross commission, GST, conjunctional splits with other agencies
+      (jsonb list of { agency, agent, share_percent, amount }), franchise fee,
+      agent/business split and payout status. Amounts are calculated by
+      src/utils/commission.ts and stored so payouts never shift retroactively
+
+  2. Security
+    - Enable RLS
+    - Agents can view their own entries
+    - Admins manage all entries
+*/
+
+CREATE TABLE IF NOT EXISTS commission_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL UNIQUE REFERENCES properties(id) ON DELETE CASCADE,
+  agent_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  sale_price numeric NOT NULL CHECK (sale_price >= 0),
+  settlement_date date,
+  commission_rate numeric NOT NULL CHECK (commission_rate >= 0),
+  gross_commission numeric NOT NULL DEFAULT 0,
+  gst numeric NOT NULL DEFAULT 0,
+  conjunctional_splits jsonb NOT NULL DEFAULT '[]'::jsonb,
+  conjunctional_total numeric NOT NULL DEFAULT 0,
+  franchise_fee_rate numeric NOT NULL DEFAULT 0 CHECK (franchise_fee_rate BETWEEN 0 AND 100),
+  franchise_fee numeric NOT NULL DEFAULT 0,
+  agent_split_rate numeric NOT NULL DEFAULT 0 CHECK (agent_split_rate BETWEEN 0 AND 100),
+  agent_amount numeric NOT NULL DEFAULT 0,
+  business_amount numeric NOT NULL DEFAULT 0,
+  payout_status text NOT NULL DEFAULT 'pending' CHECK (payout_status IN ('pending', 'approved', 'paid', 'on_hold')),
+  paid_at timestamptz,
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS commission_ledger_agent_idx ON commission_ledger (agent_id, settlement_date);
+CREATE INDEX IF NOT EXISTS commission_ledger_status_idx ON commission_ledger (payout_status);
+
+ALTER TABLE commission_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents can view their own commission"
+  ON commission_ledger FOR SELECT
+  TO authenticated
+  USING (agent_id = auth.uid());
+
+CREATE POLICY "Admins can manage the commission ledger"
+  ON commission_ledger FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'));
@@ -0,0 +1,81 @@
+/*
+  # Property audit log
+
+  1. New Tables
+    - `property_audit_log` - one row per insert, update or delete on `properties`
+      with the user who made it and a field-level diff
+      (`{ field: { old, new } }`). Rows are written by trigger so every path is
+      covered: the `insert_property` rpc, direct table writes from the edit
+      screens, and deletes. `property_id` is deliberately not a foreign key so
+      the history of a deleted property survives
+
+  2. Triggers
+    - `log_property_change` runs after every insert, update and delete on
+      `properties`; updates that only touch `updated_at` are not logged
+
+  3. Security
+    - Enable RLS
+    - Authenticated users can view the log (properties are readable by everyone)
+    - No write policies: entries are only created by the trigger
+*/
+
+CREATE TABLE IF NOT EXISTS property_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL,
+  operation text NOT NULL CHECK (operation IN ('insert', 'update', 'delete')),
+  changed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  changes jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS property_audit_log_property_idx ON property_audit_log (property_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS property_audit_log_changed_by_idx ON property_audit_log (changed_by, created_at DESC);
+
+CREATE OR REPLACE FUNCTION log_property_change()
+RETURNS trigger AS $$
+DECLARE
+  diff jsonb;
+  target_id uuid;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    target_id := NEW.id;
+    SELECT COALESCE(jsonb_object_agg(n.key, jsonb_build_object('old', NULL, 'new', n.value)), '{}'::jsonb)
+    INTO diff
+    FROM jsonb_each(to_jsonb(NEW)) n
+    WHERE n.value <> 'null'::jsonb AND n.key NOT IN ('id', 'created_at', 'updated_at');
+  ELSIF TG_OP = 'UPDATE' THEN
+    target_id := NEW.id;
+    SELECT COALESCE(jsonb_object_agg(n.key, jsonb_build_object('old', o.value, 'new', n.value)), '{}'::jsonb)
+    INTO diff
+    FROM jsonb_each(to_jsonb(NEW)) n
+    JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value AND n.key <> 'updated_at';
+    IF diff = '{}'::jsonb THEN
+      RETURN NEW;
+    END IF;
+  ELSE
+    target_id := OLD.id;
+    SELECT COALESCE(jsonb_object_agg(o.key, jsonb_build_object('old', o.value, 'new', NULL)), '{}'::jsonb)
+    INTO diff
+    FROM jsonb_each(to_jsonb(OLD)) o
+    WHERE o.value <> 'null'::jsonb AND o.key NOT IN ('id', 'created_at', 'updated_at');
+  END IF;
+
+  INSERT INTO property_audit_log (property_id, operation, changed_by, changes)
+  VALUES (target_id, lower(TG_OP), auth.uid(), diff);
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS properties_audit ON properties;
+CREATE TRIGGER properties_audit
+  AFTER INSERT OR UPDATE OR DELETE ON properties
+  FOR EACH ROW EXECUTE FUNCTION log_property_change();
+
+ALTER TABLE property_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view property history"
+  ON property_audit_log FOR SELECT
+  TO authenticated
+  USING (true);
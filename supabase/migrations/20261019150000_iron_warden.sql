@@ -0,0 +1,199 @@
+/*
+  # Role-based permissions
+
+  1. New Tables
+    - `role_capabilities` - which capabilities each role grants. Mirrors
+      ROLE_CAPABILITIES in src/utils/permissions.ts
+
+  2. Changes
+    - `profiles.role` accepts admin, principal, agent, assistant, read_only and
+      the placeholder `user`
+    - `has_capability(text)` answers for the signed-in user, applying an agent's
+      `profiles.permissions` switches (canRegisterProperties, canEditProperties,
+      canDeleteProperties) on top of the role
+    - `properties` insert/update/delete policies now check capabilities instead
+      of ownership alone or the hard-coded admin email; reading stays public
+    - `commission_ledger`, `pipeline_stages`, `deals` and `appraisals` admin
+      policies now go through the same capabilities, so principals (and
+      assistants, for deals) get the access their role implies
+    - A trigger on `profiles` stops anyone without `users.manage` from changing
+      a role or permission switches, or creating a profile above agent. Only
+      administrators can grant the admin role or change an administrator's
+      role or permissions
+
+  3. Security
+    - Enable RLS on `role_capabilities`; everyone signed in can read it
+*/
+
+CREATE TABLE IF NOT EXISTS role_capabilities (
+  role text NOT NULL,
+  capability text NOT NULL,
+  PRIMARY KEY (role, capability)
+);
+
+INSERT INTO role_capabilities (role, capability)
+SELECT r.role, c.capability
+FROM (VALUES ('admin'), ('principal')) AS r(role)
+CROSS JOIN (VALUES
+  ('admin.access'), ('properties.view'), ('properties.create'), ('properties.edit'), ('properties.edit_any'),
+  ('properties.delete'), ('activities.log'), ('contacts.manage'), ('reports.view'), ('commission.view_all'),
+  ('commission.manage'), ('plans.view_team'), ('pipeline.manage'), ('users.manage'), ('settings.manage')
+) AS c(capability)
+WHERE NOT (r.role = 'principal' AND c.capability = 'settings.manage')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO role_capabilities (role, capability) VALUES
+  ('agent', 'properties.view'),
+  ('agent', 'properties.create'),
+  ('agent', 'properties.edit'),
+  ('agent', 'activities.log'),
+  ('agent', 'contacts.manage'),
+  ('agent', 'reports.view'),
+  ('assistant', 'properties.view'),
+  ('assistant', 'properties.create'),
+  ('assistant', 'properties.edit'),
+  ('assistant', 'properties.edit_any'),
+  ('assistant', 'activities.log'),
+  ('assistant', 'contacts.manage'),
+  ('assistant', 'reports.view'),
+  ('read_only', 'properties.view'),
+  ('read_only', 'reports.view')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE role_capabilities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view role capabilities"
+  ON role_capabilities FOR SELECT
+  TO authenticated
+  USING (true);
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_role_check
+  CHECK (role IN ('admin', 'principal', 'agent', 'assistant', 'read_only', 'user'));
+
+CREATE OR REPLACE FUNCTION has_capability(cap text)
+RETURNS boolean AS $$
+  SELECT COALESCE((
+    SELECT CASE
+      WHEN p.role = 'agent' AND cap = 'properties.create' AND p.permissions ? 'canRegisterProperties'
+        THEN (p.permissions ->> 'canRegisterProperties')::boolean
+      WHEN p.role = 'agent' AND cap = 'properties.edit' AND p.permissions ? 'canEditProperties'
+        THEN (p.permissions ->> 'canEditProperties')::boolean
+      WHEN p.role = 'agent' AND cap = 'properties.delete' AND p.permissions ? 'canDeleteProperties'
+        THEN (p.permissions ->> 'canDeleteProperties')::boolean
+      ELSE EXISTS (SELECT 1 FROM role_capabilities rc WHERE rc.role = p.role AND rc.capability = cap)
+    END
+    FROM profiles p
+    WHERE p.id = auth.uid()
+  ), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Properties
+DROP POLICY IF EXISTS "Users can create their own properties" ON properties;
+DROP POLICY IF EXISTS "Users can update their own properties" ON properties;
+DROP POLICY IF EXISTS "Users can delete their own properties" ON properties;
+DROP POLICY IF EXISTS "Admins can manage all properties" ON properties;
+
+CREATE POLICY "Users with properties.create can add properties"
+  ON properties FOR INSERT
+  TO authenticated
+  WITH CHECK (has_capability('properties.create'));
+
+CREATE POLICY "Users can edit properties they may edit"
+  ON properties FOR UPDATE
+  TO authenticated
+  USING (
+    has_capability('properties.edit_any')
+    OR (has_capability('properties.edit') AND auth.uid() IN (user_id, agent_id))
+  )
+  WITH CHECK (
+    has_capability('properties.edit_any')
+    OR (has_capability('properties.edit') AND auth.uid() IN (user_id, agent_id))
+  );
+
+CREATE POLICY "Users can delete properties they may delete"
+  ON properties FOR DELETE
+  TO authenticated
+  USING (
+    has_capability('properties.delete')
+    AND (has_capability('properties.edit_any') OR auth.uid() IN (user_id, agent_id))
+  );
+
+-- Commission ledger and pipeline settings
+DROP POLICY IF EXISTS "Admins can manage the commission ledger" ON commission_ledger;
+
+CREATE POLICY "Managers can view the commission ledger"
+  ON commission_ledger FOR SELECT
+  TO authenticated
+  USING (has_capability('commission.view_all'));
+
+CREATE POLICY "Managers can manage the commission ledger"
+  ON commission_ledger FOR ALL
+  TO authenticated
+  USING (has_capability('commission.manage'))
+  WITH CHECK (has_capability('commission.manage'));
+
+DROP POLICY IF EXISTS "Admins can manage pipeline stages" ON pipeline_stages;
+
+CREATE POLICY "Managers can manage pipeline stages"
+  ON pipeline_stages FOR ALL
+  TO authenticated
+  USING (has_capability('pipeline.manage'))
+  WITH CHECK (has_capability('pipeline.manage'));
+
+DROP POLICY IF EXISTS "Admins can manage all deals" ON deals;
+
+CREATE POLICY "Office-wide editors can manage all deals"
+  ON deals FOR ALL
+  TO authenticated
+  USING (has_capability('properties.edit_any'))
+  WITH CHECK (has_capability('properties.edit_any'));
+
+DROP POLICY IF EXISTS "Admins can manage all appraisals" ON appraisals;
+
+CREATE POLICY "Office managers can manage all appraisals"
+  ON appraisals FOR ALL
+  TO authenticated
+  USING (has_capability('admin.access'))
+  WITH CHECK (has_capability('admin.access'));
+
+-- Role and permission changes
+CREATE OR REPLACE FUNCTION guard_profile_privileges()
+RETURNS trigger AS $$
+BEGIN
+  -- Service-role calls (the Express API, edge functions) have no auth.uid()
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF has_capability('users.manage') THEN
+    -- Principals manage staff but only administrators create, demote or
+    -- change administrators
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin') THEN
+      IF NEW.role = 'admin' AND (TG_OP = 'INSERT' OR OLD.role IS DISTINCT FROM 'admin') THEN
+        RAISE EXCEPTION 'Only administrators can grant the administrator role' USING ERRCODE = '42501';
+      END IF;
+      IF TG_OP = 'UPDATE' AND OLD.role = 'admin'
+         AND (NEW.role IS DISTINCT FROM OLD.role OR NEW.permissions IS DISTINCT FROM OLD.permissions) THEN
+        RAISE EXCEPTION 'Only administrators can change an administrator''s role or permissions' USING ERRCODE = '42501';
+      END IF;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.role NOT IN ('user', 'agent') OR NEW.permissions IS NOT NULL THEN
+      RAISE EXCEPTION 'Only user managers can assign roles or permissions' USING ERRCODE = '42501';
+    END IF;
+  ELSIF NEW.role IS DISTINCT FROM OLD.role OR NEW.permissions IS DISTINCT FROM OLD.permissions THEN
+    RAISE EXCEPTION 'Only user managers can change roles or permissions' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS profiles_guard_privileges ON profiles;
+CREATE TRIGGER profiles_guard_privileges
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION guard_profile_privileges();
@@ -0,0 +1,66 @@
+/*
+  # Transactional agent provisioning
+
+  1. Changes
+    - `agents.role` and `agents.deleted_at`, which AgentManagement already reads
+    - `provision_agent_records(...)` writes the `profiles` and `agents` rows for a
+      freshly created login in a single transaction and returns the profile.
+      Called by supabase/functions/_shared/agent-provisioning.ts, which deletes
+      the login again if this fails
+    - Both inserts upsert on `id`, since a signup trigger may already have
+      written a bare profile for the new login
+
+  2. Security
+    - Only the service role may execute `provision_agent_records`
+*/
+
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS role text DEFAULT 'agent';
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE OR REPLACE FUNCTION provision_agent_records(
+  p_user_id uuid,
+  p_email text,
+  p_name text,
+  p_phone text,
+  p_role text,
+  p_permissions jsonb,
+  p_agency_name text DEFAULT NULL
+)
+RETURNS profiles AS $$
+DECLARE
+  v_profile profiles;
+BEGIN
+  INSERT INTO profiles (id, email, name, phone, role, agent_id, permissions)
+  VALUES (
+    p_user_id,
+    p_email,
+    p_name,
+    p_phone,
+    p_role,
+    'AGENT-' || left(replace(gen_random_uuid()::text, '-', ''), 8),
+    p_permissions
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    email = EXCLUDED.email,
+    name = EXCLUDED.name,
+    phone = EXCLUDED.phone,
+    role = EXCLUDED.role,
+    agent_id = COALESCE(profiles.agent_id, EXCLUDED.agent_id),
+    permissions = EXCLUDED.permissions
+  RETURNING * INTO v_profile;
+
+  INSERT INTO agents (id, email, name, phone, role, agency_name)
+  VALUES (p_user_id, p_email, p_name, p_phone, p_role, COALESCE(p_agency_name, 'Harcourt Success'))
+  ON CONFLICT (id) DO UPDATE SET
+    email = EXCLUDED.email,
+    name = EXCLUDED.name,
+    phone = EXCLUDED.phone,
+    role = EXCLUDED.role,
+    deleted_at = NULL;
+
+  RETURN v_profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION provision_agent_records(uuid, text, text, text, text, jsonb, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION provision_agent_records(uuid, text, text, text, text, jsonb, text) TO service_role;
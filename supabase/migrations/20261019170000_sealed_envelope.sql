@@ -0,0 +1,100 @@
+/*
+  # Invite-link onboarding
+
+  1. New Tables
+    - `agent_invites` - single-use, expiring invites for new staff accounts.
+      Only the SHA-256 of the token is stored; `opened_at` and `accepted_at`
+      record progress and `revoked_at` is set when a newer invite replaces it
+
+  2. Changes
+    - `agent_credentials` is dropped. It held generated passwords in plain text;
+      new users now choose their own password through the invite link
+    - `provision_agent_records(...)` also writes the first invite, so the login's
+      records and its invite are created together or not at all
+
+  3. Security
+    - Enable RLS on `agent_invites`; user managers can read it. Tokens are only
+      ever written by the service role (supabase/functions/_shared/agent-invites.ts)
+*/
+
+CREATE TABLE IF NOT EXISTS agent_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  token_hash text NOT NULL UNIQUE,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  sent_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  opened_at timestamptz,
+  accepted_at timestamptz,
+  revoked_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS agent_invites_user_id_idx ON agent_invites (user_id, sent_at DESC);
+
+ALTER TABLE agent_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "User managers can view invites"
+  ON agent_invites FOR SELECT
+  TO authenticated
+  USING (has_capability('users.manage'));
+
+DROP TABLE IF EXISTS agent_credentials;
+
+DROP FUNCTION IF EXISTS provision_agent_records(uuid, text, text, text, text, jsonb, text);
+
+CREATE OR REPLACE FUNCTION provision_agent_records(
+  p_user_id uuid,
+  p_email text,
+  p_name text,
+  p_phone text,
+  p_role text,
+  p_permissions jsonb,
+  p_agency_name text,
+  p_invite_token_hash text,
+  p_invite_expires_at timestamptz,
+  p_created_by uuid DEFAULT NULL
+)
+RETURNS profiles AS $$
+DECLARE
+  v_profile profiles;
+BEGIN
+  INSERT INTO profiles (id, email, name, phone, role, agent_id, permissions)
+  VALUES (
+    p_user_id,
+    p_email,
+    p_name,
+    p_phone,
+    p_role,
+    'AGENT-' || left(replace(gen_random_uuid()::text, '-', ''), 8),
+    p_permissions
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    email = EXCLUDED.email,
+    name = EXCLUDED.name,
+    phone = EXCLUDED.phone,
+    role = EXCLUDED.role,
+    agent_id = COALESCE(profiles.agent_id, EXCLUDED.agent_id),
+    permissions = EXCLUDED.permissions
+  RETURNING * INTO v_profile;
+
+  INSERT INTO agents (id, email, name, phone, role, agency_name)
+  VALUES (p_user_id, p_email, p_name, p_phone, p_role, COALESCE(p_agency_name, 'Harcourt Success'))
+  ON CONFLICT (id) DO UPDATE SET
+    email = EXCLUDED.email,
+    name = EXCLUDED.name,
+    phone = EXCLUDED.phone,
+    role = EXCLUDED.role,
+    deleted_at = NULL;
+
+  INSERT INTO agent_invites (user_id, email, token_hash, created_by, expires_at)
+  VALUES (p_user_id, p_email, p_invite_token_hash, p_created_by, p_invite_expires_at);
+
+  RETURN v_profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION provision_agent_records(uuid, text, text, text, text, jsonb, text, text, timestamptz, uuid)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION provision_agent_records(uuid, text, text, text, text, jsonb, text, text, timestamptz, uuid)
+  TO service_role;
@@ -0,0 +1,202 @@
+/*
+  # Share links
+
+  1. New Tables
+    - `share_links` - expiring, revocable links that show an agent profile, a
+      property report or a marketing plan to someone without an account. Only
+      the SHA-256 of the token is stored, and of `token:otp` when the link is
+      protected by a one-time code. `view_count` and `last_viewed_at` are kept
+      up to date by `resolve_share_link`
+    - `share_link_access_log` - one row per attempt to open a link, with the
+      outcome, IP address and user agent
+
+  2. Changes
+    - `resolve_share_link(token, otp)` is what the public /share/:token page
+      calls. It checks the link, the code and the expiry, logs the attempt and
+      returns only the fields meant for outsiders. Five wrong codes within 15
+      minutes lock the link for the rest of that window
+
+  3. Security
+    - Enable RLS on both tables. People see and revoke the links they created;
+      `admin.access` sees all of them. Sharing someone else's profile needs
+      `users.manage`. Sharing a property report or marketing plan needs
+      `reports.view` and the resource itself: your own listing or plan, or
+      `properties.edit_any` / `plans.view_team` for anyone's (see
+      `can_share_resource`), because `resolve_share_link` reads past RLS
+    - Revoking is the only change allowed after a link is made: only
+      `revoked_at` may be updated, only on a live link, and only to set it
+    - Anonymous visitors never read the tables directly, only through
+      `resolve_share_link`
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS share_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  token_hash text NOT NULL UNIQUE,
+  resource_type text NOT NULL CHECK (resource_type IN ('agent_profile', 'property_report', 'marketing_plan')),
+  resource_id uuid NOT NULL,
+  label text,
+  otp_hash text,
+  created_by uuid NOT NULL DEFAULT auth.uid() REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz,
+  view_count integer NOT NULL DEFAULT 0,
+  last_viewed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS share_links_resource_idx ON share_links (resource_type, resource_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS share_link_access_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  share_link_id uuid NOT NULL REFERENCES share_links(id) ON DELETE CASCADE,
+  outcome text NOT NULL CHECK (outcome IN ('viewed', 'otp_required', 'otp_failed', 'locked', 'expired', 'revoked')),
+  ip_address text,
+  user_agent text,
+  accessed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS share_link_access_log_link_idx ON share_link_access_log (share_link_id, accessed_at DESC);
+
+ALTER TABLE share_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE share_link_access_log ENABLE ROW LEVEL SECURITY;
+
+-- Whether the signed-in user may publish this resource through a link.
+CREATE OR REPLACE FUNCTION can_share_resource(p_resource_type text, p_resource_id uuid)
+RETURNS boolean AS $$
+BEGIN
+  RETURN CASE p_resource_type
+    WHEN 'agent_profile' THEN p_resource_id = auth.uid() OR has_capability('users.manage')
+    WHEN 'property_report' THEN has_capability('reports.view') AND EXISTS (
+      SELECT 1 FROM properties p
+      WHERE p.id = p_resource_id
+        AND (auth.uid() IN (p.user_id, p.agent_id) OR has_capability('properties.edit_any'))
+    )
+    WHEN 'marketing_plan' THEN has_capability('reports.view') AND EXISTS (
+      SELECT 1 FROM marketing_plans m
+      WHERE m.id = p_resource_id
+        AND (m.agent = auth.uid()::text OR has_capability('plans.view_team'))
+    )
+    ELSE false
+  END;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION can_share_resource(text, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION can_share_resource(text, uuid) TO authenticated;
+
+CREATE POLICY "Users can view their share links"
+  ON share_links FOR SELECT
+  TO authenticated
+  USING (created_by = auth.uid() OR has_capability('admin.access'));
+
+CREATE POLICY "Users can create share links"
+  ON share_links FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid() AND can_share_resource(resource_type, resource_id));
+
+-- The column grant keeps everything but revoked_at read-only to signed-in
+-- users; the policy stops a revoked link from being brought back.
+-- resolve_share_link() runs as the owner and still counts views.
+REVOKE UPDATE ON share_links FROM authenticated;
+GRANT UPDATE (revoked_at) ON share_links TO authenticated;
+
+CREATE POLICY "Users can revoke their share links"
+  ON share_links FOR UPDATE
+  TO authenticated
+  USING (revoked_at IS NULL AND (created_by = auth.uid() OR has_capability('admin.access')))
+  WITH CHECK (revoked_at IS NOT NULL AND (created_by = auth.uid() OR has_capability('admin.access')));
+
+CREATE POLICY "Users can view access to their share links"
+  ON share_link_access_log FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM share_links l
+      WHERE l.id = share_link_id
+        AND (l.created_by = auth.uid() OR has_capability('admin.access'))
+    )
+  );
+
+CREATE OR REPLACE FUNCTION resolve_share_link(p_token text, p_otp text DEFAULT NULL)
+RETURNS jsonb AS $$
+DECLARE
+  v_link share_links;
+  v_headers jsonb := COALESCE(NULLIF(current_setting('request.headers', true), ''), '{}')::jsonb;
+  v_ip text := split_part(COALESCE(v_headers ->> 'x-forwarded-for', v_headers ->> 'x-real-ip', ''), ',', 1);
+  v_user_agent text := v_headers ->> 'user-agent';
+  v_outcome text;
+  v_resource jsonb;
+BEGIN
+  SELECT * INTO v_link
+  FROM share_links
+  WHERE token_hash = encode(extensions.digest(p_token, 'sha256'), 'hex');
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF v_link.revoked_at IS NOT NULL THEN
+    v_outcome := 'revoked';
+  ELSIF v_link.expires_at <= now() THEN
+    v_outcome := 'expired';
+  ELSIF v_link.otp_hash IS NOT NULL THEN
+    IF (
+      SELECT count(*) FROM share_link_access_log
+      WHERE share_link_id = v_link.id
+        AND outcome = 'otp_failed'
+        AND accessed_at > now() - interval '15 minutes'
+    ) >= 5 THEN
+      v_outcome := 'locked';
+    ELSIF COALESCE(p_otp, '') = '' THEN
+      v_outcome := 'otp_required';
+    ELSIF encode(extensions.digest(p_token || ':' || trim(p_otp), 'sha256'), 'hex') <> v_link.otp_hash THEN
+      v_outcome := 'otp_failed';
+    END IF;
+  END IF;
+
+  INSERT INTO share_link_access_log (share_link_id, outcome, ip_address, user_agent)
+  VALUES (v_link.id, COALESCE(v_outcome, 'viewed'), NULLIF(trim(v_ip), ''), v_user_agent);
+
+  IF v_outcome IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'status', CASE v_outcome WHEN 'otp_failed' THEN 'otp_invalid' ELSE v_outcome END,
+      'label', v_link.label
+    );
+  END IF;
+
+  v_resource := CASE v_link.resource_type
+    WHEN 'agent_profile' THEN (
+      SELECT jsonb_build_object('id', p.id, 'name', p.name, 'email', p.email, 'phone', p.phone, 'role', p.role, 'agent_id', p.agent_id)
+      FROM profiles p WHERE p.id = v_link.resource_id
+    )
+    WHEN 'property_report' THEN (
+      SELECT to_jsonb(p) - 'commission' - 'user_id'
+      FROM properties p WHERE p.id = v_link.resource_id
+    )
+    WHEN 'marketing_plan' THEN (
+      SELECT to_jsonb(m) FROM marketing_plans m WHERE m.id = v_link.resource_id
+    )
+  END;
+
+  IF v_resource IS NULL THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  UPDATE share_links
+  SET view_count = view_count + 1, last_viewed_at = now()
+  WHERE id = v_link.id;
+
+  RETURN jsonb_build_object(
+    'status', 'ok',
+    'resource_type', v_link.resource_type,
+    'label', v_link.label,
+    'expires_at', v_link.expires_at,
+    'resource', v_resource
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION resolve_share_link(text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION resolve_share_link(text, text) TO anon, authenticated;
@@ -0,0 +1,45 @@
+/*
+  # Email delivery log
+
+  1. New Tables
+    - `email_deliveries` - one row per outgoing email sent by the Express API
+      (src/server-email.ts). Holds the rendered message so a failed send can
+      be retried as-is, the transport that handled it and every attempt's
+      outcome. Rows move queued -> sending -> sent, or back to queued with a
+      later `next_attempt_at` until `max_attempts` is reached and they are
+      marked failed
+
+  2. Security
+    - Enable RLS on `email_deliveries`; `admin.access` can read it. Rows are
+      only written by the service role
+*/
+
+CREATE TABLE IF NOT EXISTS email_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  template text NOT NULL CHECK (template IN ('agent_invite', 'enquiry_received', 'enquiry_notification', 'callback_reminder', 'vendor_report')),
+  recipient text NOT NULL,
+  reply_to text,
+  subject text NOT NULL,
+  text_body text NOT NULL,
+  html_body text NOT NULL,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sending', 'sent', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_error text,
+  transport text,
+  message_id text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  sent_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS email_deliveries_due_idx ON email_deliveries (next_attempt_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS email_deliveries_created_at_idx ON email_deliveries (created_at DESC);
+
+ALTER TABLE email_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view email deliveries"
+  ON email_deliveries FOR SELECT
+  TO authenticated
+  USING (has_capability('admin.access'));
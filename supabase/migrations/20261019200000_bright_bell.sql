@@ -0,0 +1,329 @@
+/*
+  # Notification centre
+
+  1. New Tables
+    - `notifications` - replaces the table EnquiryForm used to write to, which
+      nothing read and which held agent names in `user_id`. That table is
+      renamed to `notifications_legacy` rather than dropped, and its rows are
+      copied across as new_enquiry notifications wherever `user_id` matches a
+      profile's id or name; the rest stay in the legacy table. One row per user
+      per event, typed (new_enquiry, callback_due, plan_deadline,
+      property_status, job_applicant), with an in-app link, read and archive
+      timestamps, and `email_status` for the Express mailer
+      (src/server-notifications.ts): pending rows are emailed, then marked sent
+    - `notification_preferences` - per user and type, whether the notification
+      is also emailed. Without a row, new enquiries and due call-backs are
+      emailed and everything else stays in-app (mirrors DEFAULT_EMAIL_TYPES in
+      src/utils/notifications.ts)
+
+  2. Changes
+    - `create_notification(...)` is the only way rows are written; it looks up
+      the recipient's email preference
+    - Triggers raise notifications for new property enquiries (to the listing
+      agent, or user managers when the listing has none), new job applications
+      (to user managers) and contract status or sold date changes (to the
+      listing agent, unless they made the change)
+    - `queue_plan_deadline_notifications()` warns agents three days before a
+      marketing plan ends; the Express worker runs it, and it only ever raises
+      one warning per plan
+    - `email_deliveries.template` also accepts `notification`
+    - `notifications` is added to the realtime publication
+
+  3. Security
+    - Enable RLS on both tables. Users read their own notifications and may
+      only set `read_at` and `archived_at` on them (a column-level grant), and
+      manage their own preferences
+*/
+
+-- Move the old table (no `type` column) out of the way, indexes included so
+-- their names are free for the new one.
+DO $$
+DECLARE
+  v_index record;
+BEGIN
+  IF to_regclass('public.notifications') IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'notifications' AND column_name = 'type'
+  ) THEN
+    ALTER TABLE notifications RENAME TO notifications_legacy;
+    FOR v_index IN
+      SELECT indexname FROM pg_indexes
+      WHERE schemaname = 'public' AND tablename = 'notifications_legacy' AND indexname LIKE 'notifications%'
+    LOOP
+      EXECUTE format('ALTER INDEX %I RENAME TO %I', v_index.indexname, 'notifications_legacy' || substr(v_index.indexname, 14));
+    END LOOP;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('new_enquiry', 'callback_due', 'plan_deadline', 'property_status', 'job_applicant')),
+  title text NOT NULL,
+  body text,
+  link text,
+  data jsonb NOT NULL DEFAULT '{}',
+  email_status text CHECK (email_status IN ('pending', 'sent', 'failed')),
+  read_at timestamptz,
+  archived_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_idx ON notifications (user_id, created_at DESC) WHERE archived_at IS NULL;
+CREATE INDEX IF NOT EXISTS notifications_email_pending_idx ON notifications (created_at) WHERE email_status = 'pending';
+
+-- Old rows held the agent's name (or id) in `user_id`, a `message` and a
+-- `read` flag. Columns are read dynamically since the table predates
+-- migrations.
+DO $$
+BEGIN
+  IF to_regclass('public.notifications_legacy') IS NOT NULL
+    AND (
+      SELECT count(*) FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'notifications_legacy'
+        AND column_name IN ('user_id', 'message', 'created_at', 'read')
+    ) = 4
+    AND NOT EXISTS (SELECT 1 FROM notifications WHERE data ? 'legacy')
+  THEN
+    EXECUTE $sql$
+      INSERT INTO notifications (user_id, type, title, data, read_at, created_at)
+      SELECT DISTINCT ON (l.ctid) p.id, 'new_enquiry', COALESCE(NULLIF(l.message, ''), 'New enquiry'),
+        jsonb_build_object('legacy', true),
+        CASE WHEN l.read THEN COALESCE(l.created_at, now()) END,
+        COALESCE(l.created_at, now())
+      FROM notifications_legacy l
+      JOIN profiles p ON p.id::text = l.user_id::text OR lower(p.name) = lower(trim(l.user_id::text))
+      ORDER BY l.ctid, (p.id::text = l.user_id::text) DESC
+    $sql$;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('new_enquiry', 'callback_due', 'plan_deadline', 'property_status', 'job_applicant')),
+  email_enabled boolean NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, type)
+);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Marking read and archiving are the only changes users make; everything
+-- else is written by create_notification() and the mailer.
+REVOKE UPDATE ON notifications FROM authenticated;
+GRANT UPDATE (read_at, archived_at) ON notifications TO authenticated;
+
+CREATE POLICY "Users can update their notifications"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can view their notification preferences"
+  ON notification_preferences FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can add their notification preferences"
+  ON notification_preferences FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can change their notification preferences"
+  ON notification_preferences FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION create_notification(
+  p_user_id uuid,
+  p_type text,
+  p_title text,
+  p_body text DEFAULT NULL,
+  p_link text DEFAULT NULL,
+  p_data jsonb DEFAULT '{}'
+)
+RETURNS uuid AS $$
+DECLARE
+  v_email boolean;
+  v_id uuid;
+BEGIN
+  SELECT email_enabled INTO v_email
+  FROM notification_preferences
+  WHERE user_id = p_user_id AND type = p_type;
+
+  INSERT INTO notifications (user_id, type, title, body, link, data, email_status)
+  VALUES (
+    p_user_id,
+    p_type,
+    p_title,
+    p_body,
+    p_link,
+    COALESCE(p_data, '{}'),
+    CASE WHEN COALESCE(v_email, p_type IN ('new_enquiry', 'callback_due')) THEN 'pending' END
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION create_notification(uuid, text, text, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_notification(uuid, text, text, text, text, jsonb) TO service_role;
+
+-- Everyone whose role grants users.manage; they hear about unassigned
+-- enquiries and job applicants.
+CREATE OR REPLACE FUNCTION user_manager_ids()
+RETURNS SETOF uuid AS $$
+  SELECT p.id
+  FROM profiles p
+  JOIN role_capabilities rc ON rc.role = p.role AND rc.capability = 'users.manage'
+  WHERE p.deleted_at IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION user_manager_ids() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION notify_property_enquiry()
+RETURNS trigger AS $$
+DECLARE
+  v_owner uuid;
+  v_recipient uuid;
+BEGIN
+  SELECT user_id INTO v_owner FROM properties WHERE id::text = NEW.property_id::text;
+
+  FOR v_recipient IN
+    SELECT v_owner WHERE v_owner IS NOT NULL
+    UNION
+    SELECT id FROM user_manager_ids() WHERE v_owner IS NULL
+  LOOP
+    PERFORM create_notification(
+      v_recipient,
+      'new_enquiry',
+      'New enquiry from ' || COALESCE(NEW.name, 'a buyer'),
+      COALESCE(NEW.property_name, 'A listing') || ': ' || left(COALESCE(NEW.message, ''), 200),
+      CASE WHEN NEW.property_id IS NOT NULL THEN '/property-detail/' || NEW.property_id END,
+      jsonb_build_object('property_id', NEW.property_id, 'email', NEW.email, 'phone', NEW.phone)
+    );
+  END LOOP;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION notify_job_applicant()
+RETURNS trigger AS $$
+DECLARE
+  v_recipient uuid;
+BEGIN
+  FOR v_recipient IN SELECT id FROM user_manager_ids() LOOP
+    PERFORM create_notification(
+      v_recipient,
+      'job_applicant',
+      'New job applicant: ' || COALESCE(NEW.full_name, 'unnamed'),
+      left(COALESCE(NEW.why_real_estate, ''), 200),
+      '/agent-management',
+      jsonb_build_object('application_id', NEW.id)
+    );
+  END LOOP;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION notify_property_status()
+RETURNS trigger AS $$
+DECLARE
+  v_address text := trim(concat_ws(' ', NEW.street_number, NEW.street_name) || ', ' || COALESCE(NEW.suburb, ''), ', ');
+BEGIN
+  IF NEW.user_id IS NULL OR NEW.user_id = auth.uid() THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM create_notification(
+    NEW.user_id,
+    'property_status',
+    CASE
+      WHEN NEW.sold_date IS NOT NULL AND OLD.sold_date IS NULL THEN v_address || ' has sold'
+      ELSE v_address || ' is now ' || COALESCE(NEW.contract_status, 'unset')
+    END,
+    CASE WHEN OLD.contract_status IS DISTINCT FROM NEW.contract_status
+      THEN 'Contract status changed from ' || COALESCE(OLD.contract_status, 'none') || ' to ' || COALESCE(NEW.contract_status, 'none')
+    END,
+    '/property-detail/' || NEW.id,
+    jsonb_build_object('property_id', NEW.id, 'from', OLD.contract_status, 'to', NEW.contract_status)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS properties_notify_status ON properties;
+CREATE TRIGGER properties_notify_status
+  AFTER UPDATE OF contract_status, sold_date ON properties
+  FOR EACH ROW
+  WHEN (OLD.contract_status IS DISTINCT FROM NEW.contract_status OR OLD.sold_date IS DISTINCT FROM NEW.sold_date)
+  EXECUTE FUNCTION notify_property_status();
+
+-- enquiries and enquiry predate the migrations folder, so only attach the
+-- triggers where the tables exist.
+DO $$
+BEGIN
+  IF to_regclass('public.enquiries') IS NOT NULL THEN
+    EXECUTE 'DROP TRIGGER IF EXISTS enquiries_notify ON enquiries';
+    EXECUTE 'CREATE TRIGGER enquiries_notify AFTER INSERT ON enquiries FOR EACH ROW EXECUTE FUNCTION notify_property_enquiry()';
+  END IF;
+  IF to_regclass('public.enquiry') IS NOT NULL THEN
+    EXECUTE 'DROP TRIGGER IF EXISTS enquiry_notify_applicant ON enquiry';
+    EXECUTE 'CREATE TRIGGER enquiry_notify_applicant AFTER INSERT ON enquiry FOR EACH ROW EXECUTE FUNCTION notify_job_applicant()';
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION queue_plan_deadline_notifications()
+RETURNS integer AS $$
+DECLARE
+  v_plan record;
+  v_count integer := 0;
+BEGIN
+  FOR v_plan IN
+    SELECT m.id, m.suburb, m.end_date, p.id AS user_id
+    FROM marketing_plans m
+    JOIN profiles p ON p.id::text = m.agent
+    WHERE m.end_date::date BETWEEN current_date AND current_date + 3
+      AND NOT EXISTS (
+        SELECT 1 FROM notifications n
+        WHERE n.type = 'plan_deadline' AND n.data ->> 'plan_id' = m.id::text
+      )
+  LOOP
+    PERFORM create_notification(
+      v_plan.user_id,
+      'plan_deadline',
+      'Marketing plan for ' || COALESCE(v_plan.suburb, 'your suburb') || ' ends ' || to_char(v_plan.end_date::date, 'DD Mon'),
+      'Review your door-knock and call targets before the plan closes.',
+      '/marketing-plan',
+      jsonb_build_object('plan_id', v_plan.id, 'end_date', v_plan.end_date)
+    );
+    v_count := v_count + 1;
+  END LOOP;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION queue_plan_deadline_notifications() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION queue_plan_deadline_notifications() TO service_role;
+
+ALTER TABLE email_deliveries DROP CONSTRAINT IF EXISTS email_deliveries_template_check;
+ALTER TABLE email_deliveries ADD CONSTRAINT email_deliveries_template_check
+  CHECK (template IN ('agent_invite', 'enquiry_received', 'enquiry_notification', 'callback_reminder', 'vendor_report', 'notification'));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END $$;
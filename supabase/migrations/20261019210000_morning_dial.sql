@@ -0,0 +1,162 @@
+/*
+  # Daily call lists
+
+  1. New Tables
+    - `call_list_items` - one row per agent, list date and contact whose
+      call-back is due or overdue that morning. `source` says whether the
+      contact lives in `nurturing_list` or in the street `contacts` table; the
+      name, phone and address are copied so the list still reads the same if
+      the contact is edited later. Agents tick items off as done or skipped
+    - `scheduler_runs` - records each run of a scheduled job (job name plus a
+      run key such as the date or month) so a job runs once per period even
+      with several servers or a restart. A failed run removes its row so the
+      next tick tries again
+
+  2. Changes
+    - `contacts.assigned_agent_id` - who follows up a street contact's
+      call-back. New rows default to whoever added them; call-backs on
+      unassigned contacts go to user managers
+    - `build_call_lists(date)` writes the call list for every agent with a due
+      or overdue call-back and returns the counts per agent, which the Express
+      scheduler (src/server-scheduler.ts) turns into notifications
+    - `roll_monthly_appraisals(date)` moves the call-back date of nurturing
+      contacts flagged `needs_monthly_appraisals` into the given month when
+      it fell in an earlier one, keeping the day of the month
+
+  3. Security
+    - Enable RLS on both tables. Agents read and update their own call list
+      items; `admin.access` can read everyone's and the scheduler run history
+*/
+
+ALTER TABLE contacts
+  ADD COLUMN IF NOT EXISTS assigned_agent_id uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+CREATE INDEX IF NOT EXISTS contacts_call_back_idx ON contacts (call_back_date) WHERE call_back_date IS NOT NULL;
+CREATE INDEX IF NOT EXISTS nurturing_list_call_back_idx ON nurturing_list (call_back_date) WHERE call_back_date IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS call_list_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  list_date date NOT NULL,
+  source text NOT NULL CHECK (source IN ('nurturing', 'street')),
+  contact_id uuid NOT NULL,
+  contact_name text NOT NULL,
+  phone text,
+  address text,
+  call_back_date date NOT NULL,
+  notes text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'done', 'skipped')),
+  completed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (agent_id, list_date, source, contact_id)
+);
+
+CREATE INDEX IF NOT EXISTS call_list_items_agent_date_idx ON call_list_items (agent_id, list_date);
+
+CREATE TABLE IF NOT EXISTS scheduler_runs (
+  job text NOT NULL,
+  run_key text NOT NULL,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz,
+  result jsonb,
+  PRIMARY KEY (job, run_key)
+);
+
+ALTER TABLE call_list_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scheduler_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents can view their call list"
+  ON call_list_items FOR SELECT
+  TO authenticated
+  USING (agent_id = auth.uid() OR has_capability('admin.access'));
+
+CREATE POLICY "Agents can update their call list"
+  ON call_list_items FOR UPDATE
+  TO authenticated
+  USING (agent_id = auth.uid())
+  WITH CHECK (agent_id = auth.uid());
+
+CREATE POLICY "Admins can view scheduler runs"
+  ON scheduler_runs FOR SELECT
+  TO authenticated
+  USING (has_capability('admin.access'));
+
+CREATE OR REPLACE FUNCTION build_call_lists(p_date date)
+RETURNS TABLE (agent_id uuid, due_count integer, overdue_count integer) AS $$
+BEGIN
+  INSERT INTO call_list_items (agent_id, list_date, source, contact_id, contact_name, phone, address, call_back_date, notes)
+  SELECT
+    n.agent_id,
+    p_date,
+    'nurturing',
+    n.id,
+    COALESCE(NULLIF(trim(concat_ws(' ', n.first_name, n.last_name)), ''), 'Unnamed contact'),
+    COALESCE(n.mobile, n.phone_number),
+    NULLIF(trim(concat_ws(' ', n.street_number, n.street_name) || ', ' || COALESCE(n.suburb, ''), ', '), ''),
+    n.call_back_date::date,
+    n.notes
+  FROM nurturing_list n
+  JOIN profiles p ON p.id = n.agent_id AND p.deleted_at IS NULL
+  WHERE n.call_back_date::date <= p_date
+    AND COALESCE(n.status, '') <> 'Closed'
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO call_list_items (agent_id, list_date, source, contact_id, contact_name, phone, address, call_back_date, notes)
+  SELECT
+    r.recipient,
+    p_date,
+    'street',
+    c.id,
+    COALESCE(NULLIF(trim(c.owner_1), ''), NULLIF(trim(concat_ws(' ', c.first_name, c.last_name)), ''), 'Unnamed owner'),
+    COALESCE(c.owner_1_mobile, c.phone_number, c.owner_2_mobile),
+    NULLIF(trim(concat_ws(' ', c.street_number, c.street_name) || ', ' || COALESCE(c.suburb, ''), ', '), ''),
+    c.call_back_date::date,
+    c.outcome
+  FROM contacts c
+  LEFT JOIN profiles a ON a.id = c.assigned_agent_id AND a.deleted_at IS NULL
+  CROSS JOIN LATERAL (
+    SELECT a.id AS recipient WHERE a.id IS NOT NULL
+    UNION
+    SELECT m AS recipient FROM user_manager_ids() m WHERE a.id IS NULL
+  ) r
+  WHERE c.call_back_date::date <= p_date
+  ON CONFLICT DO NOTHING;
+
+  RETURN QUERY
+  SELECT i.agent_id,
+         count(*) FILTER (WHERE i.call_back_date = p_date)::integer,
+         count(*) FILTER (WHERE i.call_back_date < p_date)::integer
+  FROM call_list_items i
+  WHERE i.list_date = p_date AND i.status = 'pending'
+  GROUP BY i.agent_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION build_call_lists(date) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION build_call_lists(date) TO service_role;
+
+CREATE OR REPLACE FUNCTION roll_monthly_appraisals(p_date date)
+RETURNS integer AS $$
+DECLARE
+  v_month date := date_trunc('month', p_date)::date;
+  v_count integer;
+BEGIN
+  UPDATE nurturing_list n
+  SET call_back_date = (
+    n.call_back_date::date
+    + make_interval(months => (
+        (extract(year FROM v_month) * 12 + extract(month FROM v_month))
+        - (extract(year FROM n.call_back_date::date) * 12 + extract(month FROM n.call_back_date::date))
+      )::integer)
+  )::date
+  WHERE n.needs_monthly_appraisals
+    AND n.call_back_date::date < v_month
+    AND COALESCE(n.status, '') <> 'Closed';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION roll_monthly_appraisals(date) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION roll_monthly_appraisals(date) TO service_role;
@@ -0,0 +1,574 @@
+/*
+  # People and households
+
+  1. New Tables
+    - `households` - groups the people who live at and own a place together,
+      such as the two owners on a street contact
+    - `people` - one row per person, whichever page they were entered on. Has
+      the owning agent, tags and notes; `merged_into` points at the surviving
+      record once a duplicate has been folded into another
+    - `person_phones`, `person_emails`, `person_addresses` - any number of
+      each per person, with a label and a primary flag. Phones and emails keep
+      a normalised key (`phone_key()`, lower-cased email) used for matching
+    - `person_properties` - how a person relates to a listing (owner, vendor,
+      buyer, landlord, tenant)
+    - `person_interactions` - the person's history: calls, door knocks,
+      emails, meetings, appraisals and notes, from any page
+
+  2. Changes
+    - `nurturing_list.person_id`, `contacts.owner_1_person_id` and
+      `contacts.owner_2_person_id`, and `property_management_forms.owner_person_ids`
+      (Form 6, one per entry in `owners`) link the existing tables to people.
+      Those pages keep writing their own tables; triggers mirror every insert
+      and relevant update into `people` through `resolve_person(...)`
+    - `resolve_person(...)` reuses the linked person, otherwise a person with
+      the same email, otherwise one with the same phone and surname, and only
+      then creates a new one, so the same owner entered on two pages ends up
+      as one record carrying both sets of details
+    - The person's name is kept as edited on the person; later edits on a
+      source page only fill in a first, last or display name that is blank
+    - Street contacts put both owners in one household and link them as
+      owners of any listing at the same address
+    - Completed call list items and new appraisals are added to the person's
+      interaction history
+    - Existing rows are linked on migration
+
+  3. Security
+    - Enable RLS on all new tables. Anyone with `contacts.manage` can read and
+      maintain people and their details; interactions can be added by them
+      and edited or removed only by whoever logged them
+*/
+
+CREATE TABLE IF NOT EXISTS households (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS people (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  first_name text,
+  last_name text,
+  display_name text NOT NULL,
+  household_id uuid REFERENCES households(id) ON DELETE SET NULL,
+  agent_id uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  tags text[] NOT NULL DEFAULT '{}',
+  notes text,
+  merged_into uuid REFERENCES people(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS people_display_name_idx ON people (lower(display_name)) WHERE merged_into IS NULL;
+CREATE INDEX IF NOT EXISTS people_household_idx ON people (household_id);
+
+-- Digits only, with +61 and Excel's dropped leading zero folded back to the
+-- local 0 form, so "+61 412 345 678", "0412345678" and 412345678 compare equal.
+CREATE OR REPLACE FUNCTION phone_key(p_phone text)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN d = '' THEN NULL
+    WHEN d LIKE '61%' AND length(d) = 11 THEN '0' || substr(d, 3)
+    WHEN length(d) = 9 AND d NOT LIKE '0%' THEN '0' || d
+    ELSE d
+  END
+  FROM (SELECT regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g') AS d) digits;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE TABLE IF NOT EXISTS person_phones (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  person_id uuid NOT NULL REFERENCES people(id) ON DELETE CASCADE,
+  phone text NOT NULL,
+  phone_key text NOT NULL,
+  label text NOT NULL DEFAULT 'mobile' CHECK (label IN ('mobile', 'home', 'work', 'other')),
+  is_primary boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (person_id, phone_key)
+);
+
+CREATE INDEX IF NOT EXISTS person_phones_key_idx ON person_phones (phone_key);
+
+CREATE TABLE IF NOT EXISTS person_emails (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  person_id uuid NOT NULL REFERENCES people(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  email_key text NOT NULL,
+  label text NOT NULL DEFAULT 'personal' CHECK (label IN ('personal', 'work', 'other')),
+  is_primary boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (person_id, email_key)
+);
+
+CREATE INDEX IF NOT EXISTS person_emails_key_idx ON person_emails (email_key);
+
+CREATE TABLE IF NOT EXISTS person_addresses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  person_id uuid NOT NULL REFERENCES people(id) ON DELETE CASCADE,
+  street_number text,
+  street_name text NOT NULL,
+  suburb text,
+  postcode text,
+  label text NOT NULL DEFAULT 'home' CHECK (label IN ('home', 'postal', 'investment', 'other')),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS person_addresses_unique_idx ON person_addresses (
+  person_id,
+  lower(COALESCE(street_number, '')),
+  lower(street_name),
+  lower(COALESCE(suburb, ''))
+);
+
+CREATE TABLE IF NOT EXISTS person_properties (
+  person_id uuid NOT NULL REFERENCES people(id) ON DELETE CASCADE,
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  relationship text NOT NULL CHECK (relationship IN ('owner', 'vendor', 'buyer', 'landlord', 'tenant')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (person_id, property_id, relationship)
+);
+
+CREATE INDEX IF NOT EXISTS person_properties_property_idx ON person_properties (property_id);
+
+CREATE TABLE IF NOT EXISTS person_interactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  person_id uuid NOT NULL REFERENCES people(id) ON DELETE CASCADE,
+  agent_id uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  kind text NOT NULL CHECK (kind IN ('call', 'door_knock', 'email', 'meeting', 'appraisal', 'note')),
+  summary text NOT NULL,
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  source text,
+  source_id uuid,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS person_interactions_person_idx ON person_interactions (person_id, occurred_at DESC);
+
+ALTER TABLE nurturing_list ADD COLUMN IF NOT EXISTS person_id uuid REFERENCES people(id) ON DELETE SET NULL;
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS owner_1_person_id uuid REFERENCES people(id) ON DELETE SET NULL;
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS owner_2_person_id uuid REFERENCES people(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS nurturing_list_person_idx ON nurturing_list (person_id);
+CREATE INDEX IF NOT EXISTS contacts_owner_1_person_idx ON contacts (owner_1_person_id);
+CREATE INDEX IF NOT EXISTS contacts_owner_2_person_idx ON contacts (owner_2_person_id);
+
+ALTER TABLE households ENABLE ROW LEVEL SECURITY;
+ALTER TABLE people ENABLE ROW LEVEL SECURITY;
+ALTER TABLE person_phones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE person_emails ENABLE ROW LEVEL SECURITY;
+ALTER TABLE person_addresses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE person_properties ENABLE ROW LEVEL SECURITY;
+ALTER TABLE person_interactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Contact managers can manage households"
+  ON households FOR ALL
+  TO authenticated
+  USING (has_capability('contacts.manage'))
+  WITH CHECK (has_capability('contacts.manage'));
+
+CREATE POLICY "Contact managers can manage people"
+  ON people FOR ALL
+  TO authenticated
+  USING (has_capability('contacts.manage'))
+  WITH CHECK (has_capability('contacts.manage'));
+
+CREATE POLICY "Contact managers can manage phones"
+  ON person_phones FOR ALL
+  TO authenticated
+  USING (has_capability('contacts.manage'))
+  WITH CHECK (has_capability('contacts.manage'));
+
+CREATE POLICY "Contact managers can manage emails"
+  ON person_emails FOR ALL
+  TO authenticated
+  USING (has_capability('contacts.manage'))
+  WITH CHECK (has_capability('contacts.manage'));
+
+CREATE POLICY "Contact managers can manage addresses"
+  ON person_addresses FOR ALL
+  TO authenticated
+  USING (has_capability('contacts.manage'))
+  WITH CHECK (has_capability('contacts.manage'));
+
+CREATE POLICY "Contact managers can manage property links"
+  ON person_properties FOR ALL
+  TO authenticated
+  USING (has_capability('contacts.manage'))
+  WITH CHECK (has_capability('contacts.manage'));
+
+CREATE POLICY "Contact managers can view interactions"
+  ON person_interactions FOR SELECT
+  TO authenticated
+  USING (has_capability('contacts.manage'));
+
+CREATE POLICY "Contact managers can log interactions"
+  ON person_interactions FOR INSERT
+  TO authenticated
+  WITH CHECK (has_capability('contacts.manage') AND agent_id = auth.uid());
+
+CREATE POLICY "Agents can edit their interactions"
+  ON person_interactions FOR UPDATE
+  TO authenticated
+  USING (agent_id = auth.uid())
+  WITH CHECK (agent_id = auth.uid());
+
+CREATE POLICY "Agents can delete their interactions"
+  ON person_interactions FOR DELETE
+  TO authenticated
+  USING (agent_id = auth.uid());
+
+-- Finds or creates the person for one entry on a source page and adds any
+-- phones, emails and address they do not have yet. `p_person_id` is the link
+-- the source row already has. The person is the record of truth for the name:
+-- an edit on a source page only fills in a name part the person is missing.
+CREATE OR REPLACE FUNCTION resolve_person(
+  p_person_id uuid,
+  p_name text,
+  p_emails text[],
+  p_mobiles text[],
+  p_phones text[],
+  p_street_number text,
+  p_street_name text,
+  p_suburb text,
+  p_postcode text,
+  p_agent_id uuid,
+  p_tag text
+)
+RETURNS uuid AS $$
+DECLARE
+  v_name text := NULLIF(regexp_replace(trim(COALESCE(p_name, '')), '\s+', ' ', 'g'), '');
+  v_first text;
+  v_last text;
+  v_id uuid := p_person_id;
+  v_next uuid;
+  v_value text;
+  v_label text;
+BEGIN
+  IF v_name IS NOT NULL THEN
+    v_first := CASE WHEN v_name LIKE '% %' THEN regexp_replace(v_name, '\s+\S+$', '') ELSE v_name END;
+    v_last := CASE WHEN v_name LIKE '% %' THEN substring(v_name FROM '(\S+)$') END;
+  END IF;
+
+  -- A source row can still point at a record that has since been merged.
+  WHILE v_id IS NOT NULL LOOP
+    SELECT merged_into INTO v_next FROM people WHERE id = v_id;
+    EXIT WHEN NOT FOUND OR v_next IS NULL;
+    v_id := v_next;
+  END LOOP;
+  IF v_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM people WHERE id = v_id) THEN
+    v_id := NULL;
+  END IF;
+
+  IF v_id IS NULL THEN
+    SELECT e.person_id INTO v_id
+    FROM person_emails e
+    JOIN people p ON p.id = e.person_id AND p.merged_into IS NULL
+    WHERE e.email_key IN (SELECT lower(trim(x)) FROM unnest(p_emails) x WHERE trim(COALESCE(x, '')) <> '')
+    ORDER BY p.created_at
+    LIMIT 1;
+  END IF;
+
+  IF v_id IS NULL AND v_name IS NOT NULL THEN
+    SELECT ph.person_id INTO v_id
+    FROM person_phones ph
+    JOIN people p ON p.id = ph.person_id AND p.merged_into IS NULL
+    WHERE ph.phone_key IN (SELECT phone_key(x) FROM unnest(COALESCE(p_mobiles, '{}') || COALESCE(p_phones, '{}')) x)
+      AND (lower(p.display_name) = lower(v_name) OR (v_last IS NOT NULL AND lower(p.last_name) = lower(v_last)))
+    ORDER BY p.created_at
+    LIMIT 1;
+  END IF;
+
+  IF v_id IS NULL THEN
+    IF v_name IS NULL THEN
+      RETURN NULL;
+    END IF;
+    INSERT INTO people (first_name, last_name, display_name, agent_id, tags)
+    VALUES (v_first, v_last, v_name, p_agent_id, ARRAY[p_tag])
+    RETURNING id INTO v_id;
+  ELSE
+    UPDATE people
+    SET first_name = COALESCE(NULLIF(trim(first_name), ''), v_first),
+        last_name = COALESCE(NULLIF(trim(last_name), ''), v_last),
+        display_name = COALESCE(NULLIF(trim(display_name), ''), v_name, display_name),
+        agent_id = COALESCE(agent_id, p_agent_id),
+        tags = CASE WHEN p_tag = ANY(tags) THEN tags ELSE array_append(tags, p_tag) END,
+        updated_at = now()
+    WHERE id = v_id;
+  END IF;
+
+  FOREACH v_value IN ARRAY COALESCE(p_emails, '{}') LOOP
+    CONTINUE WHEN trim(COALESCE(v_value, '')) = '';
+    INSERT INTO person_emails (person_id, email, email_key, is_primary)
+    VALUES (v_id, trim(v_value), lower(trim(v_value)), NOT EXISTS (SELECT 1 FROM person_emails WHERE person_id = v_id))
+    ON CONFLICT (person_id, email_key) DO NOTHING;
+  END LOOP;
+
+  FOR v_value, v_label IN
+    SELECT x, 'mobile' FROM unnest(COALESCE(p_mobiles, '{}')) x
+    UNION ALL
+    SELECT x, 'home' FROM unnest(COALESCE(p_phones, '{}')) x
+  LOOP
+    CONTINUE WHEN phone_key(v_value) IS NULL;
+    INSERT INTO person_phones (person_id, phone, phone_key, label, is_primary)
+    VALUES (v_id, trim(v_value), phone_key(v_value), v_label, NOT EXISTS (SELECT 1 FROM person_phones WHERE person_id = v_id))
+    ON CONFLICT (person_id, phone_key) DO NOTHING;
+  END LOOP;
+
+  IF trim(COALESCE(p_street_name, '')) <> '' THEN
+    INSERT INTO person_addresses (person_id, street_number, street_name, suburb, postcode)
+    VALUES (v_id, NULLIF(trim(p_street_number), ''), trim(p_street_name), NULLIF(trim(p_suburb), ''), NULLIF(trim(p_postcode), ''))
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION resolve_person(uuid, text, text[], text[], text[], text, text, text, text, uuid, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION sync_nurturing_person()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.person_id IS NOT NULL
+    AND (NEW.first_name, NEW.last_name, NEW.email, NEW.mobile, NEW.phone_number, NEW.street_number, NEW.street_name, NEW.suburb, NEW.postcode)
+      IS NOT DISTINCT FROM
+        (OLD.first_name, OLD.last_name, OLD.email, OLD.mobile, OLD.phone_number, OLD.street_number, OLD.street_name, OLD.suburb, OLD.postcode)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.person_id := resolve_person(
+    NEW.person_id,
+    concat_ws(' ', NEW.first_name, NEW.last_name),
+    ARRAY[NEW.email],
+    ARRAY[NEW.mobile],
+    ARRAY[NEW.phone_number],
+    NEW.street_number,
+    NEW.street_name,
+    NEW.suburb,
+    NEW.postcode,
+    NEW.agent_id,
+    'nurturing'
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS nurturing_list_sync_person ON nurturing_list;
+CREATE TRIGGER nurturing_list_sync_person
+  BEFORE INSERT OR UPDATE ON nurturing_list
+  FOR EACH ROW EXECUTE FUNCTION sync_nurturing_person();
+
+CREATE OR REPLACE FUNCTION sync_contact_people()
+RETURNS trigger AS $$
+DECLARE
+  v_household uuid;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND (NEW.owner_1_person_id IS NOT NULL OR NEW.owner_2_person_id IS NOT NULL)
+    AND (NEW.owner_1, NEW.owner_2, NEW.first_name, NEW.last_name, NEW.email, NEW.owner_1_email, NEW.owner_2_email,
+         NEW.owner_1_mobile, NEW.owner_2_mobile, NEW.phone_number, NEW.street_number, NEW.street_name, NEW.suburb)
+      IS NOT DISTINCT FROM
+        (OLD.owner_1, OLD.owner_2, OLD.first_name, OLD.last_name, OLD.email, OLD.owner_1_email, OLD.owner_2_email,
+         OLD.owner_1_mobile, OLD.owner_2_mobile, OLD.phone_number, OLD.street_number, OLD.street_name, OLD.suburb)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  -- The landline on a street contact belongs to the household, so both owners get it.
+  NEW.owner_1_person_id := resolve_person(
+    NEW.owner_1_person_id,
+    COALESCE(NULLIF(trim(NEW.owner_1), ''), concat_ws(' ', NEW.first_name, NEW.last_name)),
+    ARRAY[NEW.owner_1_email, NEW.email],
+    ARRAY[NEW.owner_1_mobile],
+    ARRAY[NEW.phone_number],
+    NEW.street_number,
+    NEW.street_name,
+    NEW.suburb,
+    NULL,
+    NEW.assigned_agent_id,
+    'street'
+  );
+  NEW.owner_2_person_id := resolve_person(
+    NEW.owner_2_person_id,
+    NEW.owner_2,
+    ARRAY[NEW.owner_2_email],
+    ARRAY[NEW.owner_2_mobile],
+    ARRAY[NEW.phone_number],
+    NEW.street_number,
+    NEW.street_name,
+    NEW.suburb,
+    NULL,
+    NEW.assigned_agent_id,
+    'street'
+  );
+
+  IF NEW.owner_1_person_id IS NOT NULL AND NEW.owner_2_person_id IS NOT NULL
+    AND NEW.owner_1_person_id <> NEW.owner_2_person_id
+  THEN
+    SELECT household_id INTO v_household
+    FROM people
+    WHERE id IN (NEW.owner_1_person_id, NEW.owner_2_person_id) AND household_id IS NOT NULL
+    LIMIT 1;
+    IF v_household IS NULL THEN
+      INSERT INTO households (name)
+      VALUES (COALESCE(
+        NULLIF(trim(concat_ws(' ', NEW.street_number, NEW.street_name) || ', ' || COALESCE(NEW.suburb, ''), ', '), ''),
+        trim(NEW.owner_1) || ' & ' || trim(NEW.owner_2)
+      ))
+      RETURNING id INTO v_household;
+    END IF;
+    UPDATE people SET household_id = v_household
+    WHERE id IN (NEW.owner_1_person_id, NEW.owner_2_person_id) AND household_id IS NULL;
+  END IF;
+
+  -- Street contacts are the owners of record, so link them to any listing at
+  -- the same address ("Moggill" and "Moggill QLD 4070" count as one suburb).
+  IF trim(COALESCE(NEW.street_name, '')) <> '' AND trim(COALESCE(NEW.street_number, '')) <> '' THEN
+    INSERT INTO person_properties (person_id, property_id, relationship)
+    SELECT owner.id, p.id, 'owner'
+    FROM properties p
+    CROSS JOIN unnest(ARRAY[NEW.owner_1_person_id, NEW.owner_2_person_id]) AS owner(id)
+    WHERE owner.id IS NOT NULL
+      AND lower(trim(p.street_number)) = lower(trim(NEW.street_number))
+      AND lower(trim(p.street_name)) = lower(trim(NEW.street_name))
+      AND lower(trim(regexp_replace(COALESCE(p.suburb, ''), '\s+qld.*$', '', 'i')))
+        = lower(trim(regexp_replace(COALESCE(NEW.suburb, ''), '\s+qld.*$', '', 'i')))
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS contacts_sync_people ON contacts;
+CREATE TRIGGER contacts_sync_people
+  BEFORE INSERT OR UPDATE ON contacts
+  FOR EACH ROW EXECUTE FUNCTION sync_contact_people();
+
+CREATE OR REPLACE FUNCTION sync_form_6_people()
+RETURNS trigger AS $$
+DECLARE
+  v_owner jsonb;
+  v_ids uuid[] := '{}';
+  v_index integer := 0;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.owners IS NOT DISTINCT FROM OLD.owners AND NEW.owner_person_ids IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_owner IN SELECT value FROM jsonb_array_elements(COALESCE(NEW.owners::jsonb, '[]'::jsonb)) LOOP
+    v_index := v_index + 1;
+    v_ids := v_ids || resolve_person(
+      NEW.owner_person_ids[v_index],
+      v_owner->>'fullName',
+      ARRAY[v_owner->>'email'],
+      ARRAY[v_owner->>'mobile'],
+      '{}'::text[],
+      v_owner->>'streetNumber',
+      v_owner->>'streetName',
+      v_owner->>'suburbName',
+      v_owner->>'postcode',
+      NEW.user_id,
+      'landlord'
+    );
+  END LOOP;
+
+  NEW.owner_person_ids := v_ids;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- property_management_forms predates the migrations folder, so only link it
+-- where the table exists.
+DO $$
+BEGIN
+  IF to_regclass('public.property_management_forms') IS NOT NULL THEN
+    EXECUTE 'ALTER TABLE property_management_forms ADD COLUMN IF NOT EXISTS owner_person_ids uuid[]';
+    EXECUTE 'DROP TRIGGER IF EXISTS property_management_forms_sync_people ON property_management_forms';
+    EXECUTE 'CREATE TRIGGER property_management_forms_sync_people BEFORE INSERT OR UPDATE ON property_management_forms FOR EACH ROW EXECUTE FUNCTION sync_form_6_people()';
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION log_call_list_interaction()
+RETURNS trigger AS $$
+DECLARE
+  v_person uuid;
+BEGIN
+  IF NEW.source = 'nurturing' THEN
+    SELECT person_id INTO v_person FROM nurturing_list WHERE id = NEW.contact_id;
+  ELSE
+    SELECT owner_1_person_id INTO v_person FROM contacts WHERE id = NEW.contact_id;
+  END IF;
+  IF v_person IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO person_interactions (person_id, agent_id, kind, summary, occurred_at, source, source_id)
+  VALUES (
+    v_person,
+    NEW.agent_id,
+    'call',
+    'Called back from the call list' || CASE WHEN NEW.call_back_date < NEW.list_date THEN ' (was overdue)' ELSE '' END,
+    COALESCE(NEW.completed_at, now()),
+    'call_list',
+    NEW.id
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS call_list_items_log_interaction ON call_list_items;
+CREATE TRIGGER call_list_items_log_interaction
+  AFTER UPDATE OF status ON call_list_items
+  FOR EACH ROW
+  WHEN (NEW.status = 'done' AND OLD.status IS DISTINCT FROM 'done')
+  EXECUTE FUNCTION log_call_list_interaction();
+
+CREATE OR REPLACE FUNCTION log_appraisal_interaction()
+RETURNS trigger AS $$
+DECLARE
+  v_person uuid;
+BEGIN
+  SELECT owner_1_person_id INTO v_person FROM contacts WHERE id = NEW.contact_id;
+  IF v_person IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO person_interactions (person_id, agent_id, kind, summary, occurred_at, source, source_id)
+  VALUES (
+    v_person,
+    NEW.agent_id,
+    'appraisal',
+    CASE WHEN NEW.appraisal_type = 'desktop' THEN 'Desktop appraisal' ELSE 'In-person appraisal' END
+      || COALESCE(' of ' || NULLIF(trim(concat_ws(' ', NEW.street_number, NEW.street_name)), ''), ''),
+    NEW.appraisal_date::timestamptz,
+    'appraisal',
+    NEW.id
+  );
+  IF NEW.property_id IS NOT NULL THEN
+    INSERT INTO person_properties (person_id, property_id, relationship)
+    VALUES (v_person, NEW.property_id, 'owner')
+    ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS appraisals_log_interaction ON appraisals;
+CREATE TRIGGER appraisals_log_interaction
+  AFTER INSERT ON appraisals
+  FOR EACH ROW
+  WHEN (NEW.contact_id IS NOT NULL)
+  EXECUTE FUNCTION log_appraisal_interaction();
+
+-- Link what is already there. Touching each row runs the sync triggers, so
+-- existing duplicates collapse onto one person as they are linked.
+UPDATE nurturing_list SET person_id = NULL WHERE person_id IS NULL;
+UPDATE contacts SET owner_1_person_id = NULL WHERE owner_1_person_id IS NULL AND owner_2_person_id IS NULL;
+
+DO $$
+BEGIN
+  IF to_regclass('public.property_management_forms') IS NOT NULL THEN
+    EXECUTE 'UPDATE property_management_forms SET owner_person_ids = NULL WHERE owner_person_ids IS NULL';
+  END IF;
+END $$;
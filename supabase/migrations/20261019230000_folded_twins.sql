@@ -0,0 +1,154 @@
+/*
+  # Duplicate people and merging
+
+  1. New Tables
+    - `person_duplicate_dismissals` - pairs of people someone has looked at
+      and marked "not the same person", so the duplicates review stops
+      suggesting them. Stored with the lower id first
+
+  2. Changes
+    - `merge_people(keep, merge, display_name, notes)` folds one person into
+      another: phones, emails and addresses the survivor lacks are moved
+      across, property links and interaction history follow, the nurturing
+      list, street contacts and Form 6 are repointed, tags are combined and
+      the merged person is left behind with `merged_into` set. A note is added
+      to the survivor's history saying who was merged in
+
+  3. Security
+    - Enable RLS on `person_duplicate_dismissals`; anyone with
+      `contacts.manage` can read and add dismissals
+    - `merge_people` checks `contacts.manage` itself since it runs as definer
+*/
+
+CREATE TABLE IF NOT EXISTS person_duplicate_dismissals (
+  person_a uuid NOT NULL REFERENCES people(id) ON DELETE CASCADE,
+  person_b uuid NOT NULL REFERENCES people(id) ON DELETE CASCADE,
+  dismissed_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (person_a, person_b),
+  CHECK (person_a < person_b)
+);
+
+ALTER TABLE person_duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Contact managers can read duplicate dismissals"
+  ON person_duplicate_dismissals FOR SELECT
+  TO authenticated
+  USING (has_capability('contacts.manage'));
+
+CREATE POLICY "Contact managers can dismiss duplicates"
+  ON person_duplicate_dismissals FOR INSERT
+  TO authenticated
+  WITH CHECK (has_capability('contacts.manage'));
+
+CREATE OR REPLACE FUNCTION merge_people(
+  p_keep uuid,
+  p_merge uuid,
+  p_display_name text DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_keep people%ROWTYPE;
+  v_merge people%ROWTYPE;
+  v_display text;
+  v_cut integer;
+BEGIN
+  IF NOT has_capability('contacts.manage') THEN
+    RAISE EXCEPTION 'Only contact managers can merge people' USING ERRCODE = '42501';
+  END IF;
+  IF p_keep = p_merge THEN
+    RAISE EXCEPTION 'A person cannot be merged into themselves' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_keep FROM people WHERE id = p_keep FOR UPDATE;
+  SELECT * INTO v_merge FROM people WHERE id = p_merge FOR UPDATE;
+  IF v_keep.id IS NULL OR v_merge.id IS NULL THEN
+    RAISE EXCEPTION 'Person not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_keep.merged_into IS NOT NULL OR v_merge.merged_into IS NOT NULL THEN
+    RAISE EXCEPTION 'That person has already been merged' USING ERRCODE = '22023';
+  END IF;
+
+  -- Contact details the survivor already has are dropped; the rest move
+  -- across without taking over the survivor's primary phone or email.
+  DELETE FROM person_phones m
+  WHERE m.person_id = p_merge
+    AND EXISTS (SELECT 1 FROM person_phones k WHERE k.person_id = p_keep AND k.phone_key = m.phone_key);
+  UPDATE person_phones
+  SET person_id = p_keep,
+      is_primary = is_primary AND NOT EXISTS (SELECT 1 FROM person_phones k WHERE k.person_id = p_keep AND k.is_primary)
+  WHERE person_id = p_merge;
+
+  DELETE FROM person_emails m
+  WHERE m.person_id = p_merge
+    AND EXISTS (SELECT 1 FROM person_emails k WHERE k.person_id = p_keep AND k.email_key = m.email_key);
+  UPDATE person_emails
+  SET person_id = p_keep,
+      is_primary = is_primary AND NOT EXISTS (SELECT 1 FROM person_emails k WHERE k.person_id = p_keep AND k.is_primary)
+  WHERE person_id = p_merge;
+
+  DELETE FROM person_addresses m
+  WHERE m.person_id = p_merge
+    AND EXISTS (
+      SELECT 1 FROM person_addresses k
+      WHERE k.person_id = p_keep
+        AND lower(COALESCE(k.street_number, '')) = lower(COALESCE(m.street_number, ''))
+        AND lower(k.street_name) = lower(m.street_name)
+        AND lower(COALESCE(k.suburb, '')) = lower(COALESCE(m.suburb, ''))
+    );
+  UPDATE person_addresses SET person_id = p_keep WHERE person_id = p_merge;
+
+  INSERT INTO person_properties (person_id, property_id, relationship, created_at)
+  SELECT p_keep, property_id, relationship, created_at FROM person_properties WHERE person_id = p_merge
+  ON CONFLICT DO NOTHING;
+  DELETE FROM person_properties WHERE person_id = p_merge;
+
+  UPDATE person_interactions SET person_id = p_keep WHERE person_id = p_merge;
+
+  -- Only the link columns change here, so the sync triggers leave these rows
+  -- alone.
+  UPDATE nurturing_list SET person_id = p_keep WHERE person_id = p_merge;
+  UPDATE contacts SET owner_1_person_id = p_keep WHERE owner_1_person_id = p_merge;
+  UPDATE contacts SET owner_2_person_id = p_keep WHERE owner_2_person_id = p_merge;
+  IF to_regclass('public.property_management_forms') IS NOT NULL THEN
+    EXECUTE 'UPDATE property_management_forms SET owner_person_ids = array_replace(owner_person_ids, $1, $2) WHERE $1 = ANY(owner_person_ids)'
+      USING p_merge, p_keep;
+  END IF;
+
+  UPDATE people SET merged_into = p_keep, updated_at = now() WHERE merged_into = p_merge;
+  DELETE FROM person_duplicate_dismissals WHERE person_a = p_merge OR person_b = p_merge;
+
+  v_display := NULLIF(btrim(regexp_replace(COALESCE(p_display_name, ''), '\s+', ' ', 'g')), '');
+  v_cut := CASE WHEN v_display IS NULL THEN 0 ELSE length(v_display) - strpos(reverse(v_display), ' ') + 1 END;
+
+  UPDATE people
+  SET display_name = COALESCE(v_display, display_name),
+      first_name = CASE
+        WHEN v_display IS NULL THEN first_name
+        WHEN strpos(v_display, ' ') = 0 THEN v_display
+        ELSE left(v_display, v_cut - 1)
+      END,
+      last_name = CASE
+        WHEN v_display IS NULL THEN last_name
+        WHEN strpos(v_display, ' ') = 0 THEN NULL
+        ELSE substr(v_display, v_cut + 1)
+      END,
+      notes = COALESCE(p_notes, NULLIF(concat_ws(E'\n\n', v_keep.notes, v_merge.notes), '')),
+      tags = ARRAY(SELECT DISTINCT unnest(v_keep.tags || v_merge.tags) ORDER BY 1),
+      household_id = COALESCE(household_id, v_merge.household_id),
+      agent_id = COALESCE(agent_id, v_merge.agent_id),
+      updated_at = now()
+  WHERE id = p_keep;
+
+  UPDATE people SET merged_into = p_keep, updated_at = now() WHERE id = p_merge;
+
+  INSERT INTO person_interactions (person_id, kind, summary, source, source_id)
+  VALUES (p_keep, 'note', format('Merged duplicate record "%s" into this person', v_merge.display_name), 'merge', p_merge);
+
+  RETURN p_keep;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION merge_people(uuid, uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION merge_people(uuid, uuid, text, text) TO authenticated;
@@ -0,0 +1,138 @@
+/*
+  # Spreadsheet import wizard
+
+  1. New Tables
+    - `import_mapping_templates` - saved column mappings per data source
+      (street contacts, nurturing list, past records, ...), so a spreadsheet
+      from the same supplier maps itself next time
+    - `import_runs` - one row per committed import: the source, target table,
+      file name, how many rows were written and the ids of the records it
+      created, so an import can be rolled back afterwards
+
+  2. Changes
+    - `import_dry_run(table, rows)` inserts the rows one by one inside a block
+      that is always rolled back, and returns each row's database error (check
+      constraints, missing columns, permissions). Runs as the caller, so RLS
+      applies exactly as it will for the real import. Limited to the tables
+      the wizard imports into
+
+  3. Security
+    - Enable RLS on both tables. Templates are shared: any signed-in user can
+      read them and save their own; only the author or an admin can change or
+      delete one. Import runs are visible to whoever ran them and admins
+*/
+
+CREATE TABLE IF NOT EXISTS import_mapping_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  source text NOT NULL,
+  name text NOT NULL,
+  mapping jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (source, name)
+);
+
+CREATE TABLE IF NOT EXISTS import_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  source text NOT NULL,
+  table_name text NOT NULL,
+  file_name text,
+  row_count integer NOT NULL DEFAULT 0,
+  record_ids uuid[] NOT NULL DEFAULT '{}',
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'committed', 'failed', 'rolled_back')),
+  error text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz,
+  rolled_back_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS import_runs_source_idx ON import_runs (source, created_at DESC);
+
+ALTER TABLE import_mapping_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE import_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read import templates"
+  ON import_mapping_templates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Signed-in users can save import templates"
+  ON import_mapping_templates FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Authors and admins can update import templates"
+  ON import_mapping_templates FOR UPDATE
+  TO authenticated
+  USING (created_by = auth.uid() OR has_capability('admin.access'))
+  WITH CHECK (created_by = auth.uid() OR has_capability('admin.access'));
+
+CREATE POLICY "Authors and admins can delete import templates"
+  ON import_mapping_templates FOR DELETE
+  TO authenticated
+  USING (created_by = auth.uid() OR has_capability('admin.access'));
+
+CREATE POLICY "Users can read their own import runs"
+  ON import_runs FOR SELECT
+  TO authenticated
+  USING (created_by = auth.uid() OR has_capability('admin.access'));
+
+CREATE POLICY "Users can record their own import runs"
+  ON import_runs FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can update their own import runs"
+  ON import_runs FOR UPDATE
+  TO authenticated
+  USING (created_by = auth.uid() OR has_capability('admin.access'))
+  WITH CHECK (created_by = auth.uid() OR has_capability('admin.access'));
+
+CREATE OR REPLACE FUNCTION import_dry_run(p_table text, p_rows jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  v_row jsonb;
+  v_index integer := 0;
+  v_columns text;
+  v_errors jsonb := '[]'::jsonb;
+BEGIN
+  IF p_table NOT IN ('contacts', 'nurturing_list', 'properties') THEN
+    RAISE EXCEPTION 'Imports into % are not supported', p_table USING ERRCODE = '22023';
+  END IF;
+
+  BEGIN
+    FOR v_row IN SELECT value FROM jsonb_array_elements(p_rows) LOOP
+      -- Only the columns the row carries, so the rest keep their defaults.
+      SELECT string_agg(quote_ident(c.column_name), ', ')
+      INTO v_columns
+      FROM information_schema.columns c
+      WHERE c.table_schema = 'public' AND c.table_name = p_table AND v_row ? c.column_name;
+
+      BEGIN
+        IF v_columns IS NULL THEN
+          RAISE EXCEPTION 'Row has no columns that exist on %', p_table;
+        END IF;
+        EXECUTE format(
+          'INSERT INTO %I (%s) SELECT %s FROM jsonb_populate_record(NULL::%I, $1)',
+          p_table, v_columns, v_columns, p_table
+        ) USING v_row;
+      EXCEPTION WHEN others THEN
+        v_errors := v_errors || jsonb_build_object('index', v_index, 'error', SQLERRM);
+      END;
+      v_index := v_index + 1;
+    END LOOP;
+
+    -- Undo every insert above, triggers included.
+    RAISE EXCEPTION USING ERRCODE = 'P0004', MESSAGE = 'import dry run';
+  EXCEPTION WHEN assert_failure THEN
+    NULL;
+  END;
+
+  RETURN v_errors;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION import_dry_run(text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION import_dry_run(text, jsonb) TO authenticated;
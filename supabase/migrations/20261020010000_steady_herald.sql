@@ -0,0 +1,383 @@
+/*
+  # Vendor reports
+
+  1. New Tables
+    - `listing_inspections` - open homes and private inspections held for a
+      listing, with how many groups came through
+    - `listing_price_feedback` - what buyers (or the agent, from buyer
+      conversations) think the property is worth, as a low-high range with a
+      comment
+    - `listing_campaign_activities` - the marketing done for a listing:
+      portal listings, print, social, email, signboard, open homes and the
+      like, with an optional reach figure
+    - `vendor_report_schedules` - one row per listing whose vendor is sent a
+      report every week: who to send it to and on which weekday. The Express
+      scheduler (src/server-scheduler.ts) creates a share link for each send
+      and records when it last went out
+
+  2. Changes
+    - `vendor_report(property, since)` gathers everything the vendor report
+      shows: the listing, days on market, enquiry counts (overall, since
+      `since` and per week), inspections, price feedback, campaign activity
+      and recent sales in the same suburb. Enquirers are only counted, never
+      named. Runs as the caller, so RLS applies in the app
+    - `suburb_key(text)` and `canonical_suburb_id(text)` resolve suburb text
+      through the `suburbs` gazetteer the way src/utils/gazetteer.ts does, so
+      comparables match "Chapel Hill QLD 4069" with "chapell hill"
+    - Share links accept the `vendor_report` resource type, a property id, and
+      `resolve_share_link` returns the vendor report for it. Anyone who may
+      share the listing's property report may share its vendor report
+
+  3. Security
+    - Enable RLS on the new tables. Anyone with `reports.view` can read them;
+      they are written by whoever may edit the listing (`can_edit_property`)
+*/
+
+CREATE OR REPLACE FUNCTION can_edit_property(p_property_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM properties p
+    WHERE p.id = p_property_id
+      AND (
+        has_capability('properties.edit_any')
+        OR (has_capability('properties.edit') AND auth.uid() IN (p.user_id, p.agent_id))
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE TABLE IF NOT EXISTS listing_inspections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  held_at timestamptz NOT NULL,
+  inspection_type text NOT NULL DEFAULT 'open_home' CHECK (inspection_type IN ('open_home', 'private')),
+  attendees integer NOT NULL DEFAULT 0 CHECK (attendees >= 0),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS listing_inspections_property_idx ON listing_inspections (property_id, held_at DESC);
+
+CREATE TABLE IF NOT EXISTS listing_price_feedback (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  received_at timestamptz NOT NULL DEFAULT now(),
+  source text NOT NULL DEFAULT 'buyer' CHECK (source IN ('buyer', 'inspection', 'enquiry', 'agent')),
+  price_low numeric CHECK (price_low >= 0),
+  price_high numeric CHECK (price_high >= 0),
+  comment text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (price_low IS NOT NULL OR price_high IS NOT NULL OR comment IS NOT NULL),
+  CHECK (price_low IS NULL OR price_high IS NULL OR price_low <= price_high)
+);
+
+CREATE INDEX IF NOT EXISTS listing_price_feedback_property_idx ON listing_price_feedback (property_id, received_at DESC);
+
+CREATE TABLE IF NOT EXISTS listing_campaign_activities (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  activity_date date NOT NULL,
+  channel text NOT NULL CHECK (channel IN ('online', 'print', 'social', 'email', 'signboard', 'open_home', 'other')),
+  description text NOT NULL,
+  reach integer CHECK (reach >= 0),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS listing_campaign_activities_property_idx ON listing_campaign_activities (property_id, activity_date DESC);
+
+CREATE TABLE IF NOT EXISTS vendor_report_schedules (
+  property_id uuid PRIMARY KEY REFERENCES properties(id) ON DELETE CASCADE,
+  recipient_name text NOT NULL,
+  recipient_email text NOT NULL,
+  -- 0 = Sunday, as in JavaScript's Date.getDay()
+  weekday smallint NOT NULL DEFAULT 1 CHECK (weekday BETWEEN 0 AND 6),
+  enabled boolean NOT NULL DEFAULT true,
+  last_sent_at timestamptz,
+  last_share_link_id uuid REFERENCES share_links(id) ON DELETE SET NULL,
+  created_by uuid NOT NULL DEFAULT auth.uid() REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS vendor_report_schedules_weekday_idx ON vendor_report_schedules (weekday) WHERE enabled;
+
+ALTER TABLE listing_inspections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE listing_price_feedback ENABLE ROW LEVEL SECURITY;
+ALTER TABLE listing_campaign_activities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vendor_report_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Report viewers can view inspections"
+  ON listing_inspections FOR SELECT
+  TO authenticated
+  USING (has_capability('reports.view') OR can_edit_property(property_id));
+
+CREATE POLICY "Listing editors can manage inspections"
+  ON listing_inspections FOR ALL
+  TO authenticated
+  USING (can_edit_property(property_id))
+  WITH CHECK (can_edit_property(property_id));
+
+CREATE POLICY "Report viewers can view price feedback"
+  ON listing_price_feedback FOR SELECT
+  TO authenticated
+  USING (has_capability('reports.view') OR can_edit_property(property_id));
+
+CREATE POLICY "Listing editors can manage price feedback"
+  ON listing_price_feedback FOR ALL
+  TO authenticated
+  USING (can_edit_property(property_id))
+  WITH CHECK (can_edit_property(property_id));
+
+CREATE POLICY "Report viewers can view campaign activity"
+  ON listing_campaign_activities FOR SELECT
+  TO authenticated
+  USING (has_capability('reports.view') OR can_edit_property(property_id));
+
+CREATE POLICY "Listing editors can manage campaign activity"
+  ON listing_campaign_activities FOR ALL
+  TO authenticated
+  USING (can_edit_property(property_id))
+  WITH CHECK (can_edit_property(property_id));
+
+CREATE POLICY "Report viewers can view vendor report schedules"
+  ON vendor_report_schedules FOR SELECT
+  TO authenticated
+  USING (has_capability('reports.view') OR can_edit_property(property_id));
+
+CREATE POLICY "Listing editors can manage vendor report schedules"
+  ON vendor_report_schedules FOR ALL
+  TO authenticated
+  USING (can_edit_property(property_id))
+  WITH CHECK (can_edit_property(property_id) AND has_capability('reports.view'));
+
+-- The gazetteer's matching key, as suburbKey() in src/utils/gazetteer.ts
+-- builds it: "Chapel Hill QLD (4069)" -> 'chapel hill'.
+CREATE OR REPLACE FUNCTION suburb_key(p_value text)
+RETURNS text AS $$
+  SELECT COALESCE(string_agg(t.word, ' ' ORDER BY t.n), '')
+  FROM unnest(regexp_split_to_array(
+    regexp_replace(regexp_replace(lower(COALESCE(p_value, '')), '[(),]', ' ', 'g'), '\m\d{4}\M', ' ', 'g'),
+    '\s+'
+  )) WITH ORDINALITY AS t(word, n)
+  WHERE t.word <> '' AND t.word NOT IN ('qld', 'nsw', 'vic', 'sa', 'wa', 'tas', 'nt', 'act');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The gazetteer suburb a suburb text resolves to by name or alias, or null.
+CREATE OR REPLACE FUNCTION canonical_suburb_id(p_value text)
+RETURNS uuid AS $$
+  SELECT s.id
+  FROM suburbs s
+  WHERE suburb_key(p_value) IN (SELECT suburb_key(a) FROM unnest(array_prepend(s.name, s.aliases)) a)
+  ORDER BY s.name
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Comparable sales: sold in the same gazetteer suburb within the last six
+-- months, the same property type first. A suburb the gazetteer does not know
+-- is compared by its matching key instead.
+CREATE OR REPLACE FUNCTION vendor_report(p_property_id uuid, p_since timestamptz DEFAULT now() - interval '7 days')
+RETURNS jsonb AS $$
+DECLARE
+  v_property properties;
+  v_suburb_id uuid;
+  v_enquiries jsonb := jsonb_build_object('total', 0, 'since', 0, 'weekly', '[]'::jsonb);
+BEGIN
+  SELECT * INTO v_property FROM properties WHERE id = p_property_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  v_suburb_id := canonical_suburb_id(v_property.suburb);
+
+  -- enquiries predates the migrations folder; count only where it exists.
+  IF to_regclass('public.enquiries') IS NOT NULL THEN
+    EXECUTE $q$
+      SELECT jsonb_build_object(
+        'total', count(*),
+        'since', count(*) FILTER (WHERE created_at >= $2),
+        'weekly', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object('week', w.week, 'count', w.count) ORDER BY w.week)
+          FROM (
+            SELECT date_trunc('week', created_at)::date AS week, count(*) AS count
+            FROM enquiries
+            WHERE property_id::text = $1::text
+            GROUP BY 1
+          ) w
+        ), '[]'::jsonb)
+      )
+      FROM enquiries
+      WHERE property_id::text = $1::text
+    $q$ INTO v_enquiries USING p_property_id, p_since;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'generated_at', now(),
+    'since', p_since,
+    'property', jsonb_build_object(
+      'id', v_property.id,
+      'street_number', v_property.street_number,
+      'street_name', v_property.street_name,
+      'suburb', v_property.suburb,
+      'postcode', v_property.postcode,
+      'property_type', v_property.property_type,
+      'bedrooms', v_property.bedrooms,
+      'bathrooms', v_property.bathrooms,
+      'car_garage', v_property.car_garage,
+      'landsize', v_property.landsize,
+      'price', v_property.price,
+      'sale_type', v_property.sale_type,
+      'listed_date', v_property.listed_date,
+      'sold_date', v_property.sold_date,
+      'sold_price', v_property.sold_price,
+      'contract_status', v_property.contract_status,
+      'agent_name', v_property.agent_name
+    ),
+    'days_on_market', CASE WHEN v_property.listed_date IS NOT NULL
+      THEN GREATEST(COALESCE(v_property.sold_date::date, current_date) - v_property.listed_date::date, 0)
+    END,
+    'enquiries', v_enquiries,
+    'inspections', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', i.id, 'held_at', i.held_at, 'inspection_type', i.inspection_type, 'attendees', i.attendees) ORDER BY i.held_at DESC)
+      FROM listing_inspections i WHERE i.property_id = p_property_id
+    ), '[]'::jsonb),
+    'price_feedback', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', f.id, 'received_at', f.received_at, 'source', f.source, 'price_low', f.price_low, 'price_high', f.price_high, 'comment', f.comment) ORDER BY f.received_at DESC)
+      FROM listing_price_feedback f WHERE f.property_id = p_property_id
+    ), '[]'::jsonb),
+    'campaign', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', c.id, 'activity_date', c.activity_date, 'channel', c.channel, 'description', c.description, 'reach', c.reach) ORDER BY c.activity_date DESC)
+      FROM listing_campaign_activities c WHERE c.property_id = p_property_id
+    ), '[]'::jsonb),
+    'comparables', COALESCE((
+      SELECT jsonb_agg(to_jsonb(s))
+      FROM (
+        SELECT p.id, p.street_number, p.street_name, p.property_type, p.bedrooms, p.bathrooms, p.landsize, p.sold_price, p.sold_date
+        FROM properties p
+        WHERE p.id <> p_property_id
+          AND CASE WHEN v_suburb_id IS NOT NULL
+            THEN canonical_suburb_id(p.suburb) = v_suburb_id
+            ELSE suburb_key(p.suburb) = suburb_key(v_property.suburb)
+          END
+          AND p.sold_price IS NOT NULL
+          AND p.sold_date::date >= (current_date - interval '6 months')::date
+        ORDER BY (p.property_type IS NOT DISTINCT FROM v_property.property_type) DESC, p.sold_date::date DESC
+        LIMIT 8
+      ) s
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Shared links reach the report through resolve_share_link; the weekly
+-- email is built by the Express scheduler with the service role.
+REVOKE EXECUTE ON FUNCTION vendor_report(uuid, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION vendor_report(uuid, timestamptz) TO authenticated, service_role;
+
+ALTER TABLE share_links DROP CONSTRAINT IF EXISTS share_links_resource_type_check;
+ALTER TABLE share_links ADD CONSTRAINT share_links_resource_type_check
+  CHECK (resource_type IN ('agent_profile', 'property_report', 'marketing_plan', 'vendor_report'));
+
+-- A vendor report may be shared by whoever may share the listing's report.
+CREATE OR REPLACE FUNCTION can_share_resource(p_resource_type text, p_resource_id uuid)
+RETURNS boolean AS $$
+BEGIN
+  RETURN CASE p_resource_type
+    WHEN 'agent_profile' THEN p_resource_id = auth.uid() OR has_capability('users.manage')
+    WHEN 'property_report' THEN has_capability('reports.view') AND EXISTS (
+      SELECT 1 FROM properties p
+      WHERE p.id = p_resource_id
+        AND (auth.uid() IN (p.user_id, p.agent_id) OR has_capability('properties.edit_any'))
+    )
+    WHEN 'marketing_plan' THEN has_capability('reports.view') AND EXISTS (
+      SELECT 1 FROM marketing_plans m
+      WHERE m.id = p_resource_id
+        AND (m.agent = auth.uid()::text OR has_capability('plans.view_team'))
+    )
+    WHEN 'vendor_report' THEN can_share_resource('property_report', p_resource_id)
+    ELSE false
+  END;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION resolve_share_link(p_token text, p_otp text DEFAULT NULL)
+RETURNS jsonb AS $$
+DECLARE
+  v_link share_links;
+  v_headers jsonb := COALESCE(NULLIF(current_setting('request.headers', true), ''), '{}')::jsonb;
+  v_ip text := split_part(COALESCE(v_headers ->> 'x-forwarded-for', v_headers ->> 'x-real-ip', ''), ',', 1);
+  v_user_agent text := v_headers ->> 'user-agent';
+  v_outcome text;
+  v_resource jsonb;
+BEGIN
+  SELECT * INTO v_link
+  FROM share_links
+  WHERE token_hash = encode(extensions.digest(p_token, 'sha256'), 'hex');
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF v_link.revoked_at IS NOT NULL THEN
+    v_outcome := 'revoked';
+  ELSIF v_link.expires_at <= now() THEN
+    v_outcome := 'expired';
+  ELSIF v_link.otp_hash IS NOT NULL THEN
+    IF (
+      SELECT count(*) FROM share_link_access_log
+      WHERE share_link_id = v_link.id
+        AND outcome = 'otp_failed'
+        AND accessed_at > now() - interval '15 minutes'
+    ) >= 5 THEN
+      v_outcome := 'locked';
+    ELSIF COALESCE(p_otp, '') = '' THEN
+      v_outcome := 'otp_required';
+    ELSIF encode(extensions.digest(p_token || ':' || trim(p_otp), 'sha256'), 'hex') <> v_link.otp_hash THEN
+      v_outcome := 'otp_failed';
+    END IF;
+  END IF;
+
+  INSERT INTO share_link_access_log (share_link_id, outcome, ip_address, user_agent)
+  VALUES (v_link.id, COALESCE(v_outcome, 'viewed'), NULLIF(trim(v_ip), ''), v_user_agent);
+
+  IF v_outcome IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'status', CASE v_outcome WHEN 'otp_failed' THEN 'otp_invalid' ELSE v_outcome END,
+      'label', v_link.label
+    );
+  END IF;
+
+  v_resource := CASE v_link.resource_type
+    WHEN 'agent_profile' THEN (
+      SELECT jsonb_build_object('id', p.id, 'name', p.name, 'email', p.email, 'phone', p.phone, 'role', p.role, 'agent_id', p.agent_id)
+      FROM profiles p WHERE p.id = v_link.resource_id
+    )
+    WHEN 'property_report' THEN (
+      SELECT to_jsonb(p) - 'commission' - 'user_id'
+      FROM properties p WHERE p.id = v_link.resource_id
+    )
+    WHEN 'marketing_plan' THEN (
+      SELECT to_jsonb(m) FROM marketing_plans m WHERE m.id = v_link.resource_id
+    )
+    WHEN 'vendor_report' THEN vendor_report(v_link.resource_id)
+  END;
+
+  IF v_resource IS NULL THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  UPDATE share_links
+  SET view_count = view_count + 1, last_viewed_at = now()
+  WHERE id = v_link.id;
+
+  RETURN jsonb_build_object(
+    'status', 'ok',
+    'resource_type', v_link.resource_type,
+    'label', v_link.label,
+    'expires_at', v_link.expires_at,
+    'resource', v_resource
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION resolve_share_link(text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION resolve_share_link(text, text) TO anon, authenticated;